@@ -2,7 +2,14 @@ import { Metadata } from 'next';
 import { redirect } from 'next/navigation';
 import { requireAdmin } from '@/lib/admin/route-helpers';
 import { CampaignManagement } from '@/components/admin/campaign-management';
-import type { ActionCampaign } from '@/types';
+import { getCampaignWhipCount } from '@/lib/campaigns/calls';
+import type { WhipCountEntry } from '@/lib/campaigns/call-survey';
+import { getCampaignWhipTracker } from '@/lib/campaigns/whip-tracker';
+import type { WhipTrackerRow } from '@/lib/campaigns/whip';
+import { logger } from '@/lib/logger';
+import type { ActionCampaign, ScorecardBill } from '@/types';
+
+type WhipBill = Pick<ScorecardBill, 'bill_number' | 'title' | 'bill_status' | 'vote_date'>;
 
 export const metadata: Metadata = {
   title: 'Manage Campaign - Admin',
@@ -34,11 +41,41 @@ export default async function CampaignDetailPage({
     .select('*', { count: 'exact', head: true })
     .eq('campaign_id', id);
 
+  const typedCampaign = campaign as ActionCampaign;
+
+  let whipCount: WhipCountEntry[] = [];
+  if (typedCampaign.action_type === 'call') {
+    try {
+      whipCount = await getCampaignWhipCount(supabase, id);
+    } catch (err) {
+      logger.error(`Failed to load whip count for campaign ${id}:`, err);
+    }
+  }
+
+  let whipTracker: { bill: WhipBill; rows: WhipTrackerRow[] } | null = null;
+  if (typedCampaign.bill_id) {
+    const { data: bill } = await supabase
+      .from('rlc_scorecard_bills')
+      .select('bill_number, title, bill_status, vote_date')
+      .eq('id', typedCampaign.bill_id)
+      .single();
+
+    if (bill) {
+      try {
+        whipTracker = { bill: bill as WhipBill, rows: await getCampaignWhipTracker(supabase, typedCampaign) };
+      } catch (err) {
+        logger.error(`Failed to load whip tracker for campaign ${id}:`, err);
+      }
+    }
+  }
+
   return (
     <div>
       <CampaignManagement
-        campaign={campaign as ActionCampaign}
+        campaign={typedCampaign}
         participationCount={participationCount || 0}
+        whipCount={whipCount}
+        whipTracker={whipTracker}
       />
     </div>
   );
@@ -9,7 +9,9 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
-import { Settings, Save, Plus, Trash2, AlertCircle } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Settings, Save, Plus, Trash2, AlertCircle, CalendarClock, FileText, Download, Mail } from 'lucide-react';
+import type { PayoutCadence, TermAllocation } from '@/types';
 
 interface SplitRule {
   id?: string;
@@ -24,8 +26,26 @@ interface SplitRule {
 interface SplitConfig {
   disbursement_model: string;
   is_active: boolean;
+  payout_cadence: PayoutCadence;
+  minimum_payout: number;
+  term_allocation: TermAllocation;
+  last_payout_at: string | null;
 }
 
+const PAYOUT_CADENCE_LABELS: Record<PayoutCadence, string> = {
+  per_payment: 'Per payment',
+  daily: 'Daily',
+  weekly: 'Weekly (Mondays)',
+  monthly: 'Monthly (1st of month)',
+};
+
+const TERM_ALLOCATION_LABELS: Record<TermAllocation, string> = {
+  amortize: 'Amortize — release one year at a time',
+  front_load: 'Front-load — pay the full share up front',
+};
+
+const STATEMENT_YEARS = Array.from({ length: 5 }, (_, i) => new Date().getUTCFullYear() - i);
+
 export default function CharterDuesSharingPage() {
   const params = useParams();
   const charterId = params.id as string;
@@ -34,10 +54,16 @@ export default function CharterDuesSharingPage() {
   const [rules, setRules] = useState<SplitRule[]>([]);
   const [disbursementModel, setDisbursementModel] = useState<'national_managed' | 'state_managed'>('national_managed');
   const [isActive, setIsActive] = useState(true);
+  const [payoutCadence, setPayoutCadence] = useState<PayoutCadence>('per_payment');
+  const [minimumPayout, setMinimumPayout] = useState(0);
+  const [termAllocation, setTermAllocation] = useState<TermAllocation>('amortize');
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [statementYear, setStatementYear] = useState(String(STATEMENT_YEARS[1]));
+  const [emailingStatement, setEmailingStatement] = useState(false);
+  const [statementMessage, setStatementMessage] = useState<string | null>(null);
 
   const fetchConfig = useCallback(async () => {
     try {
@@ -48,6 +74,9 @@ export default function CharterDuesSharingPage() {
         setConfig(data.config);
         setDisbursementModel(data.config.disbursement_model);
         setIsActive(data.config.is_active);
+        setPayoutCadence(data.config.payout_cadence || 'per_payment');
+        setMinimumPayout(Number(data.config.minimum_payout || 0));
+        setTermAllocation(data.config.term_allocation || 'amortize');
       }
 
       if (data.rules) {
@@ -112,6 +141,9 @@ export default function CharterDuesSharingPage() {
         body: JSON.stringify({
           disbursementModel,
           isActive,
+          payoutCadence,
+          minimumPayout,
+          termAllocation,
           rules: rules.map((r) => ({
             recipientCharterId: r.recipientCharterId,
             percentage: r.percentage,
@@ -136,6 +168,29 @@ export default function CharterDuesSharingPage() {
     }
   }
 
+  async function handleEmailStatement() {
+    setEmailingStatement(true);
+    setStatementMessage(null);
+
+    try {
+      const res = await fetch(`/api/v1/admin/charters/${charterId}/annual-statement`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ year: Number(statementYear) }),
+      });
+      const data = await res.json();
+      setStatementMessage(
+        res.ok ? `Statement emailed to ${data.recipients.join(', ')}` : data.error || 'Failed to email statement'
+      );
+    } catch {
+      setStatementMessage('Failed to email statement');
+    } finally {
+      setEmailingStatement(false);
+    }
+  }
+
+  const statementUrl = `/api/v1/admin/charters/${charterId}/annual-statement?year=${statementYear}`;
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -223,6 +278,77 @@ export default function CharterDuesSharingPage() {
         </CardContent>
       </Card>
 
+      {/* Payout Schedule */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Payout Schedule
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Per-payment sends a Stripe transfer as each membership payment lands. A scheduled cadence
+            combines this charter&apos;s pending shares into one transfer per period.
+          </p>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <Label>Cadence</Label>
+              <Select value={payoutCadence} onValueChange={(v) => setPayoutCadence(v as PayoutCadence)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PAYOUT_CADENCE_LABELS) as PayoutCadence[]).map((cadence) => (
+                    <SelectItem key={cadence} value={cadence}>
+                      {PAYOUT_CADENCE_LABELS[cadence]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Minimum Payout ($)</Label>
+              <Input
+                type="number"
+                min={0}
+                step={0.01}
+                value={minimumPayout}
+                disabled={payoutCadence === 'per_payment'}
+                onChange={(e) => setMinimumPayout(parseFloat(e.target.value) || 0)}
+                className="mt-1"
+              />
+              <p className="mt-1 text-xs text-muted-foreground">
+                Balances below this roll over to the next period.
+              </p>
+            </div>
+          </div>
+          {config?.last_payout_at && payoutCadence !== 'per_payment' && (
+            <p className="text-xs text-muted-foreground">
+              Last scheduled payout run: {new Date(config.last_payout_at).toLocaleString()}
+            </p>
+          )}
+          <div>
+            <Label>Multi-Year &amp; Lifetime Memberships</Label>
+            <Select value={termAllocation} onValueChange={(v) => setTermAllocation(v as TermAllocation)}>
+              <SelectTrigger className="mt-1 sm:w-1/2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TERM_ALLOCATION_LABELS) as TermAllocation[]).map((allocation) => (
+                  <SelectItem key={allocation} value={allocation}>
+                    {TERM_ALLOCATION_LABELS[allocation]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="mt-1 text-xs text-muted-foreground">
+              Amortized shares of lifetime memberships are released over 10 years.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Sub-Split Rules (only for national_managed) */}
       {disbursementModel === 'national_managed' && (
         <Card>
@@ -243,7 +369,7 @@ export default function CharterDuesSharingPage() {
           <CardContent>
             {rules.length === 0 ? (
               <p className="text-sm text-muted-foreground">
-                No rules configured. The full remainder after National&apos;s $15 fee will go to this charter.
+                No rules configured. The full remainder after National&apos;s fee will go to this charter.
               </p>
             ) : (
               <div className="space-y-3">
@@ -301,6 +427,58 @@ export default function CharterDuesSharingPage() {
           {saving ? 'Saving...' : 'Save Configuration'}
         </Button>
       </div>
+
+      {/* Annual Statement */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Annual Statement
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Year-end statement of this charter&apos;s dues-share income: monthly totals, refund
+            reversals, Stripe transfer IDs and the split policy applied to each entry.
+          </p>
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <Label>Year</Label>
+              <Select value={statementYear} onValueChange={setStatementYear}>
+                <SelectTrigger className="mt-1 w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STATEMENT_YEARS.map((year) => (
+                    <SelectItem key={year} value={String(year)}>
+                      {year}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" asChild>
+              <a href={`${statementUrl}&format=pdf`}>
+                <Download className="mr-2 h-4 w-4" />
+                PDF
+              </a>
+            </Button>
+            <Button variant="outline" asChild>
+              <a href={`${statementUrl}&format=csv`}>
+                <Download className="mr-2 h-4 w-4" />
+                CSV
+              </a>
+            </Button>
+            <Button onClick={handleEmailStatement} disabled={emailingStatement}>
+              <Mail className="mr-2 h-4 w-4" />
+              {emailingStatement ? 'Sending...' : 'Email to Treasurer'}
+            </Button>
+          </div>
+          {statementMessage && (
+            <p className="text-sm text-muted-foreground">{statementMessage}</p>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
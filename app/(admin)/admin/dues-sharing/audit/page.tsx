@@ -1,13 +1,19 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { Fragment, useEffect, useState } from 'react';
 import { PageHeader } from '@/components/ui/page-header';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
-import { ScrollText, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ScrollText, ChevronLeft, ChevronRight, ChevronDown, AlertTriangle, RefreshCw } from 'lucide-react';
+import type {
+  LedgerReconciliationIssue,
+  ReconciliationIssueType,
+  ReconciliationRepairAction,
+  TransferAttempt,
+} from '@/types';
 
 interface AuditEntry {
   id: string;
@@ -22,16 +28,44 @@ interface AuditEntry {
   stripe_transfer_group_id: string | null;
   transferred_at: string | null;
   reversal_of_id: string | null;
+  retry_count: number;
+  next_retry_at: string | null;
+  parked_at: string | null;
   split_rule_snapshot: Record<string, unknown>;
   created_at: string;
 }
 
+interface ReconciliationIssueRow extends LedgerReconciliationIssue {
+  charter_name: string;
+  actions: ReconciliationRepairAction[];
+}
+
+const ISSUE_LABELS: Record<ReconciliationIssueType, string> = {
+  missing_transfer: 'Missing transfer',
+  amount_drift: 'Amount drift',
+  orphan_transfer: 'Orphan transfer',
+};
+
+const ACTION_LABELS: Record<ReconciliationRepairAction, string> = {
+  requeue: 'Requeue entries',
+  record_reversal: 'Record reversal',
+  reverse_transfer: 'Reverse in Stripe',
+  link_transfer: 'Link to ledger',
+  dismiss: 'Dismiss',
+};
+
 function formatCurrency(amount: number): string {
   const absAmount = Math.abs(amount);
   const prefix = amount < 0 ? '-' : '';
   return `${prefix}$${absAmount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 }
 
+const attemptColors: Record<TransferAttempt['status'], 'default' | 'secondary' | 'destructive'> = {
+  succeeded: 'default',
+  parked: 'secondary',
+  failed: 'destructive',
+};
+
 const statusColors: Record<string, 'default' | 'secondary' | 'destructive'> = {
   transferred: 'default',
   pending: 'secondary',
@@ -46,11 +80,94 @@ export default function AuditTrailPage() {
   const [total, setTotal] = useState(0);
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [loading, setLoading] = useState(true);
+  const [issues, setIssues] = useState<ReconciliationIssueRow[]>([]);
+  const [canRepair, setCanRepair] = useState(false);
+  const [reconciling, setReconciling] = useState(false);
+  const [repairingId, setRepairingId] = useState<string | null>(null);
+  const [issueMessage, setIssueMessage] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [attempts, setAttempts] = useState<TransferAttempt[]>([]);
+  const [attemptsLoading, setAttemptsLoading] = useState(false);
 
   useEffect(() => {
     fetchAudit();
   }, [page, statusFilter]);
 
+  useEffect(() => {
+    fetchIssues();
+  }, []);
+
+  async function fetchIssues() {
+    try {
+      const res = await fetch('/api/v1/admin/dues-sharing/reconciliation');
+      const data = await res.json();
+      setIssues(data.issues || []);
+      setCanRepair(!!data.canRepair);
+    } catch {
+      // Fetch failed
+    }
+  }
+
+  async function runReconciliation() {
+    setReconciling(true);
+    setIssueMessage(null);
+    try {
+      const res = await fetch('/api/v1/admin/dues-sharing/reconciliation', { method: 'POST' });
+      const data = await res.json();
+      setIssueMessage(
+        res.ok
+          ? `Checked ${data.accountsChecked} accounts: ${data.issuesOpened} new, ${data.issuesCleared} cleared`
+          : data.error || 'Reconciliation failed'
+      );
+      await fetchIssues();
+    } catch {
+      setIssueMessage('Reconciliation failed');
+    } finally {
+      setReconciling(false);
+    }
+  }
+
+  async function repairIssue(issue: ReconciliationIssueRow, action: ReconciliationRepairAction) {
+    if (action !== 'dismiss' && !window.confirm(`${ACTION_LABELS[action]} for transfer ${issue.stripe_transfer_id}?`)) {
+      return;
+    }
+    setRepairingId(issue.id);
+    setIssueMessage(null);
+    try {
+      const res = await fetch(`/api/v1/admin/dues-sharing/reconciliation/${issue.id}/repair`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const data = await res.json();
+      setIssueMessage(res.ok ? data.message : data.error || 'Repair failed');
+      await Promise.all([fetchIssues(), fetchAudit()]);
+    } catch {
+      setIssueMessage('Repair failed');
+    } finally {
+      setRepairingId(null);
+    }
+  }
+
+  async function toggleAttempts(entryId: string) {
+    if (expandedId === entryId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(entryId);
+    setAttempts([]);
+    setAttemptsLoading(true);
+    try {
+      const res = await fetch(`/api/v1/admin/dues-sharing/audit/${entryId}/attempts`);
+      const data = await res.json();
+      setAttempts(data.attempts || []);
+    } catch {
+      // Fetch failed
+    } finally {
+      setAttemptsLoading(false);
+    }
+  }
+
   async function fetchAudit() {
     setLoading(true);
     try {
@@ -77,6 +194,92 @@ export default function AuditTrailPage() {
         description="Complete ledger history for all dues distributions"
       />
 
+      {/* Stripe Reconciliation */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5" />
+              Stripe Reconciliation
+            </CardTitle>
+            <div className="flex items-center gap-2">
+              <Badge variant={issues.length > 0 ? 'destructive' : 'secondary'}>
+                {issues.length} open
+              </Badge>
+              {canRepair && (
+                <Button size="sm" variant="outline" onClick={runReconciliation} disabled={reconciling}>
+                  <RefreshCw className={`mr-1 h-4 w-4 ${reconciling ? 'animate-spin' : ''}`} />
+                  {reconciling ? 'Checking...' : 'Run Now'}
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {issueMessage && (
+            <p className="mb-3 text-sm text-muted-foreground">{issueMessage}</p>
+          )}
+          {issues.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Ledger matches Stripe. Reconciliation runs daily.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left">
+                    <th className="p-2">Detected</th>
+                    <th className="p-2">Charter</th>
+                    <th className="p-2">Issue</th>
+                    <th className="p-2">Transfer ID</th>
+                    <th className="p-2">Ledger</th>
+                    <th className="p-2">Stripe</th>
+                    {canRepair && <th className="p-2">Repair</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {issues.map((issue) => (
+                    <tr key={issue.id} className="border-b hover:bg-muted/50">
+                      <td className="whitespace-nowrap p-2">
+                        {new Date(issue.detected_at).toLocaleString()}
+                      </td>
+                      <td className="p-2">{issue.charter_name}</td>
+                      <td className="p-2">
+                        <Badge variant="destructive">{ISSUE_LABELS[issue.issue_type]}</Badge>
+                      </td>
+                      <td className="p-2 font-mono text-xs">{issue.stripe_transfer_id || '-'}</td>
+                      <td className="p-2 font-mono">
+                        {issue.ledger_amount !== null ? formatCurrency(Number(issue.ledger_amount)) : '-'}
+                      </td>
+                      <td className="p-2 font-mono">
+                        {issue.stripe_amount !== null ? formatCurrency(Number(issue.stripe_amount)) : '-'}
+                      </td>
+                      {canRepair && (
+                        <td className="p-2">
+                          <div className="flex flex-wrap gap-1">
+                            {issue.actions.map((action) => (
+                              <Button
+                                key={action}
+                                size="sm"
+                                variant={action === 'dismiss' ? 'ghost' : 'outline'}
+                                disabled={repairingId === issue.id}
+                                onClick={() => repairIssue(issue, action)}
+                              >
+                                {ACTION_LABELS[action]}
+                              </Button>
+                            ))}
+                          </div>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Filters */}
       <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:gap-4">
         <div>
@@ -125,31 +328,97 @@ export default function AuditTrailPage() {
                     <th className="p-2">Type</th>
                     <th className="p-2">Transfer ID</th>
                     <th className="p-2">Reversal</th>
+                    <th className="p-2">Attempts</th>
                   </tr>
                 </thead>
                 <tbody>
                   {entries.map((entry) => (
-                    <tr key={entry.id} className="border-b hover:bg-muted/50">
-                      <td className="whitespace-nowrap p-2">
-                        {new Date(entry.created_at).toLocaleString()}
-                      </td>
-                      <td className="p-2">{entry.charter_name}</td>
-                      <td className="p-2 font-mono">
-                        {formatCurrency(Number(entry.amount))}
-                      </td>
-                      <td className="p-2">
-                        <Badge variant={statusColors[entry.status] || 'secondary'}>
-                          {entry.status}
-                        </Badge>
-                      </td>
-                      <td className="p-2">{entry.source_type}</td>
-                      <td className="p-2 font-mono text-xs">
-                        {entry.stripe_transfer_id ? `${entry.stripe_transfer_id.slice(0, 12)}...` : '-'}
-                      </td>
-                      <td className="p-2 text-xs">
-                        {entry.reversal_of_id ? 'Reversal' : '-'}
-                      </td>
-                    </tr>
+                    <Fragment key={entry.id}>
+                      <tr className="border-b hover:bg-muted/50">
+                        <td className="whitespace-nowrap p-2">
+                          {new Date(entry.created_at).toLocaleString()}
+                        </td>
+                        <td className="p-2">{entry.charter_name}</td>
+                        <td className="p-2 font-mono">
+                          {formatCurrency(Number(entry.amount))}
+                        </td>
+                        <td className="p-2">
+                          <Badge variant={statusColors[entry.status] || 'secondary'}>
+                            {entry.status}
+                          </Badge>
+                        </td>
+                        <td className="p-2">{entry.source_type}</td>
+                        <td className="p-2 font-mono text-xs">
+                          {entry.stripe_transfer_id ? `${entry.stripe_transfer_id.slice(0, 12)}...` : '-'}
+                        </td>
+                        <td className="p-2 text-xs">
+                          {entry.reversal_of_id ? 'Reversal' : '-'}
+                        </td>
+                        <td className="p-2">
+                          {entry.reversal_of_id ? (
+                            <span className="text-xs">-</span>
+                          ) : (
+                            <Button size="sm" variant="ghost" onClick={() => toggleAttempts(entry.id)}>
+                              <ChevronDown
+                                className={`mr-1 h-4 w-4 transition-transform ${expandedId === entry.id ? 'rotate-180' : ''}`}
+                              />
+                              {entry.retry_count}
+                              {entry.parked_at && (
+                                <Badge variant="secondary" className="ml-2">parked</Badge>
+                              )}
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                      {expandedId === entry.id && (
+                        <tr className="border-b bg-muted/30">
+                          <td colSpan={8} className="p-3">
+                            {entry.next_retry_at && entry.status === 'failed' && (
+                              <p className="mb-2 text-xs text-muted-foreground">
+                                Next retry: {new Date(entry.next_retry_at).toLocaleString()}
+                              </p>
+                            )}
+                            {attemptsLoading ? (
+                              <p className="text-xs text-muted-foreground">Loading attempts...</p>
+                            ) : attempts.length === 0 ? (
+                              <p className="text-xs text-muted-foreground">No transfer attempts recorded.</p>
+                            ) : (
+                              <table className="w-full text-xs">
+                                <thead>
+                                  <tr className="text-left text-muted-foreground">
+                                    <th className="p-1">#</th>
+                                    <th className="p-1">When</th>
+                                    <th className="p-1">Result</th>
+                                    <th className="p-1">Destination</th>
+                                    <th className="p-1">Transfer ID</th>
+                                    <th className="p-1">Error</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {attempts.map((attempt) => (
+                                    <tr key={attempt.id}>
+                                      <td className="p-1">{attempt.attempt_number}</td>
+                                      <td className="whitespace-nowrap p-1">
+                                        {new Date(attempt.attempted_at).toLocaleString()}
+                                      </td>
+                                      <td className="p-1">
+                                        <Badge variant={attemptColors[attempt.status]}>{attempt.status}</Badge>
+                                      </td>
+                                      <td className="p-1 font-mono">{attempt.destination_account_id || '-'}</td>
+                                      <td className="p-1 font-mono">{attempt.stripe_transfer_id || '-'}</td>
+                                      <td className="p-1">
+                                        {attempt.error_code && <span className="font-mono">{attempt.error_code}: </span>}
+                                        {attempt.error_message || '-'}
+                                      </td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
                   ))}
                 </tbody>
               </table>
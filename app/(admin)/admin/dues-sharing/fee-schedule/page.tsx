@@ -0,0 +1,301 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { PageHeader } from '@/components/ui/page-header';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Percent, Plus, AlertCircle } from 'lucide-react';
+import type { MembershipTier, NationalFeeSchedule, NationalFeeType, SplitSourceType } from '@/types';
+
+interface ScheduleRow extends NationalFeeSchedule {
+  created_by_name: string | null;
+}
+
+const SOURCE_TYPE_LABELS: Record<SplitSourceType, string> = {
+  membership: 'Membership',
+  donation: 'Donation',
+  event_registration: 'Event Registration',
+};
+
+const TIER_LABELS: Record<MembershipTier, string> = {
+  student_military: 'Student/Military',
+  individual: 'Individual',
+  premium: 'Premium',
+  sustaining: 'Sustaining',
+  patron: 'Patron',
+  benefactor: 'Benefactor',
+  roundtable: 'Roundtable',
+};
+
+const ALL_TIERS = 'all';
+
+function formatFee(row: Pick<NationalFeeSchedule, 'fee_type' | 'flat_amount' | 'percentage'>): string {
+  if (row.fee_type === 'percentage') return `${Number(row.percentage)}%`;
+  return `$${Number(row.flat_amount).toFixed(2)}`;
+}
+
+/** A row is current if it is the latest in-force row for its source type + tier. */
+function findCurrentIds(rows: ScheduleRow[]): Set<string> {
+  const now = Date.now();
+  const current = new Map<string, ScheduleRow>();
+  for (const row of rows) {
+    if (new Date(row.effective_from).getTime() > now) continue;
+    const key = `${row.source_type}:${row.membership_tier ?? ALL_TIERS}`;
+    const existing = current.get(key);
+    if (!existing || new Date(row.effective_from) > new Date(existing.effective_from)) {
+      current.set(key, row);
+    }
+  }
+  return new Set([...current.values()].map((r) => r.id));
+}
+
+export default function FeeSchedulePage() {
+  const [schedules, setSchedules] = useState<ScheduleRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [sourceType, setSourceType] = useState<SplitSourceType>('membership');
+  const [tier, setTier] = useState<string>(ALL_TIERS);
+  const [feeType, setFeeType] = useState<NationalFeeType>('flat');
+  const [amount, setAmount] = useState(15);
+  const [effectiveDate, setEffectiveDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [notes, setNotes] = useState('');
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      const res = await fetch('/api/v1/admin/dues-sharing/fee-schedule');
+      const data = await res.json();
+      setSchedules(data.schedules || []);
+    } catch {
+      setError('Failed to load fee schedule');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  async function handleCreate() {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/v1/admin/dues-sharing/fee-schedule', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sourceType,
+          membershipTier: sourceType === 'membership' && tier !== ALL_TIERS ? tier : null,
+          feeType,
+          flatAmount: feeType === 'flat' ? amount : null,
+          percentage: feeType === 'percentage' ? amount : null,
+          effectiveFrom: new Date(`${effectiveDate}T00:00:00Z`).toISOString(),
+          notes: notes || null,
+        }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || 'Failed to save');
+        return;
+      }
+
+      setNotes('');
+      await fetchSchedules();
+    } catch {
+      setError('Failed to save fee schedule');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const currentIds = findCurrentIds(schedules);
+  const now = Date.now();
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="National Fee Schedule"
+        description="The share National keeps from each payment before the remainder is split to charters"
+      />
+
+      {error && (
+        <Card className="border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950">
+          <CardContent className="flex items-center gap-3 p-4">
+            <AlertCircle className="h-5 w-5 text-red-600" />
+            <p className="text-sm text-red-800 dark:text-red-200">{error}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="h-5 w-5" />
+            Schedule a Fee Change
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Changes never edit existing rows. A new row takes over from its effective date; a
+            tier-specific row overrides the all-tiers row. Donations and event registrations are only
+            split once a row exists for them. National admins only.
+          </p>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <div>
+              <Label>Source</Label>
+              <Select value={sourceType} onValueChange={(v) => setSourceType(v as SplitSourceType)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SOURCE_TYPE_LABELS) as SplitSourceType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {SOURCE_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Tier</Label>
+              <Select value={tier} onValueChange={setTier} disabled={sourceType !== 'membership'}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_TIERS}>All tiers</SelectItem>
+                  {(Object.keys(TIER_LABELS) as MembershipTier[]).map((t) => (
+                    <SelectItem key={t} value={t}>
+                      {TIER_LABELS[t]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Fee Type</Label>
+              <Select value={feeType} onValueChange={(v) => setFeeType(v as NationalFeeType)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="flat">Flat amount</SelectItem>
+                  <SelectItem value="percentage">Percentage</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>{feeType === 'flat' ? 'Amount ($)' : 'Percentage (%)'}</Label>
+              <Input
+                type="number"
+                min={0}
+                max={feeType === 'percentage' ? 100 : undefined}
+                step={0.01}
+                value={amount}
+                onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label>Effective From</Label>
+              <Input
+                type="date"
+                value={effectiveDate}
+                onChange={(e) => setEffectiveDate(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div className="sm:col-span-1 lg:col-span-3">
+              <Label>Notes</Label>
+              <Input
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="e.g. Board resolution 2026-04"
+                maxLength={500}
+                className="mt-1"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={handleCreate} disabled={saving}>
+              <Plus className="mr-2 h-4 w-4" />
+              {saving ? 'Saving...' : 'Add Schedule Row'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Percent className="h-5 w-5" />
+            Schedule History
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="animate-pulse space-y-2">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-12 rounded bg-muted" />
+              ))}
+            </div>
+          ) : schedules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No schedule rows. Memberships fall back to a $15.00 flat fee.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left">
+                    <th className="p-2">Effective From</th>
+                    <th className="p-2">Source</th>
+                    <th className="p-2">Tier</th>
+                    <th className="p-2">Fee</th>
+                    <th className="p-2">Status</th>
+                    <th className="p-2">Notes</th>
+                    <th className="p-2">Created By</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {schedules.map((row) => {
+                    const isScheduled = new Date(row.effective_from).getTime() > now;
+                    return (
+                      <tr key={row.id} className="border-b hover:bg-muted/50">
+                        <td className="whitespace-nowrap p-2">
+                          {new Date(row.effective_from).toLocaleDateString()}
+                        </td>
+                        <td className="p-2">{SOURCE_TYPE_LABELS[row.source_type]}</td>
+                        <td className="p-2">{row.membership_tier ? TIER_LABELS[row.membership_tier] : 'All tiers'}</td>
+                        <td className="p-2 font-mono">{formatFee(row)}</td>
+                        <td className="p-2">
+                          {currentIds.has(row.id) ? (
+                            <Badge variant="default">current</Badge>
+                          ) : isScheduled ? (
+                            <Badge variant="secondary">scheduled</Badge>
+                          ) : (
+                            <Badge variant="outline">superseded</Badge>
+                          )}
+                        </td>
+                        <td className="p-2 text-xs text-muted-foreground">{row.notes || '-'}</td>
+                        <td className="p-2 text-xs">{row.created_by_name || '-'}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -5,7 +5,7 @@ import { PageHeader } from '@/components/ui/page-header';
 import { StatCard } from '@/components/ui/stat-card';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { DollarSign, Building2, Clock, FileText } from 'lucide-react';
+import { DollarSign, Building2, Clock, FileText, Percent } from 'lucide-react';
 
 export const metadata = { title: 'Dues Sharing - Admin' };
 
@@ -75,7 +75,7 @@ export default async function DuesSharingDashboard() {
       </div>
 
       {/* Quick Links */}
-      <div className="grid gap-4 md:grid-cols-4">
+      <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-5">
         <Link href="/admin/dues-sharing/statements" className="block">
           <Card className="hover:border-primary transition-colors">
             <CardContent className="flex items-center gap-3 p-4">
@@ -120,6 +120,17 @@ export default async function DuesSharingDashboard() {
             </CardContent>
           </Card>
         </Link>
+        <Link href="/admin/dues-sharing/fee-schedule" className="block">
+          <Card className="hover:border-primary transition-colors">
+            <CardContent className="flex items-center gap-3 p-4">
+              <Percent className="h-5 w-5 text-muted-foreground" />
+              <div>
+                <p className="font-medium">Fee Schedule</p>
+                <p className="text-sm text-muted-foreground">National fee policy</p>
+              </div>
+            </CardContent>
+          </Card>
+        </Link>
       </div>
 
       {/* Top Charters */}
@@ -7,7 +7,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Download, FileText } from 'lucide-react';
+import { Download, FileText, Layers } from 'lucide-react';
 
 interface StatementEntry {
   id: string;
@@ -16,10 +16,25 @@ interface StatementEntry {
   recipient_charter_id: string;
   amount: number;
   status: string;
+  payout_batch_id: string | null;
   transferred_at: string | null;
   created_at: string;
 }
 
+interface PayoutBatchRow {
+  id: string;
+  recipient_charter_id: string;
+  cadence: string;
+  amount: number;
+  entry_count: number;
+  status: string;
+  stripe_transfer_id: string | null;
+  stripe_transfer_group_id: string;
+  transferred_at: string | null;
+  error_message: string | null;
+  created_at: string;
+}
+
 interface StatementSummary {
   totalTransferred: number;
   totalPending: number;
@@ -40,6 +55,7 @@ const statusColors: Record<string, 'default' | 'secondary' | 'destructive'> = {
 
 export default function StatementsPage() {
   const [entries, setEntries] = useState<StatementEntry[]>([]);
+  const [batches, setBatches] = useState<PayoutBatchRow[]>([]);
   const [summary, setSummary] = useState<StatementSummary | null>(null);
   const [month, setMonth] = useState(() => {
     const now = new Date();
@@ -57,6 +73,7 @@ export default function StatementsPage() {
       const res = await fetch(`/api/v1/admin/dues-sharing/statements?month=${month}`);
       const data = await res.json();
       setEntries(data.entries || []);
+      setBatches(data.batches || []);
       setSummary(data.summary || null);
     } catch {
       // Fetch failed
@@ -123,6 +140,55 @@ export default function StatementsPage() {
         </div>
       )}
 
+      {/* Payout Batches */}
+      {batches.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Layers className="h-5 w-5" />
+              Payout Batches
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left">
+                    <th className="p-2">Date</th>
+                    <th className="p-2">Amount</th>
+                    <th className="p-2">Entries</th>
+                    <th className="p-2">Cadence</th>
+                    <th className="p-2">Status</th>
+                    <th className="p-2">Transfer ID</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {batches.map((batch) => (
+                    <tr key={batch.id} className="border-b">
+                      <td className="p-2">{new Date(batch.created_at).toLocaleDateString()}</td>
+                      <td className="p-2 font-mono">{formatCurrency(Number(batch.amount))}</td>
+                      <td className="p-2">{batch.entry_count}</td>
+                      <td className="p-2">{batch.cadence}</td>
+                      <td className="p-2">
+                        <Badge
+                          variant={statusColors[batch.status] || 'secondary'}
+                          title={batch.error_message || undefined}
+                        >
+                          {batch.status}
+                        </Badge>
+                      </td>
+                      <td className="p-2 font-mono text-xs">
+                        {batch.stripe_transfer_id ? `${batch.stripe_transfer_id.slice(0, 12)}...` : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Entries Table */}
       <Card>
         <CardHeader>
@@ -150,6 +216,7 @@ export default function StatementsPage() {
                     <th className="p-2">Status</th>
                     <th className="p-2">Type</th>
                     <th className="p-2">Contribution</th>
+                    <th className="p-2">Batch</th>
                   </tr>
                 </thead>
                 <tbody>
@@ -166,6 +233,9 @@ export default function StatementsPage() {
                       </td>
                       <td className="p-2">{entry.source_type}</td>
                       <td className="p-2 font-mono text-xs">{entry.contribution_id.slice(0, 8)}...</td>
+                      <td className="p-2 font-mono text-xs">
+                        {entry.payout_batch_id ? `${entry.payout_batch_id.slice(0, 8)}...` : '-'}
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -3,13 +3,14 @@ import Link from 'next/link';
 import { createServerClient } from '@/lib/supabase/server';
 import { canManageRoles, canViewMember } from '@/lib/admin/permissions';
 import { requireAdmin } from '@/lib/admin/route-helpers';
-import { formatDate, formatCurrency } from '@/lib/utils';
+import { formatDate } from '@/lib/utils';
 import { MemberDetailForm } from '@/components/admin/member-detail-form';
 import { MemberRolesCard } from '@/components/admin/member-roles-card';
 import { MemberPositionsCard } from '@/components/admin/member-positions-card';
+import { MemberContributionsCard } from '@/components/admin/member-contributions-card';
 import { StatusBadge } from '@/components/ui/status-badge';
 import { Card, CardContent } from '@/components/ui/card';
-import { ArrowLeft, Shield, CreditCard as CreditCardIcon, Users, Calendar } from 'lucide-react';
+import { ArrowLeft, Shield, Users, Calendar } from 'lucide-react';
 import { logger } from '@/lib/logger';
 import type { Contact, Charter, Contribution, OfficerTitle } from '@/types';
 import type { AdminRole } from '@/lib/admin/permissions';
@@ -280,31 +281,7 @@ export default async function AdminMemberDetailPage({
           )}
 
           {/* Contributions Card */}
-          <Card>
-            <CardContent className="p-6">
-              <div className="mb-4 flex items-center gap-2">
-                <CreditCardIcon className="h-5 w-5 text-green-600" />
-                <h2 className="font-heading font-semibold">Recent Contributions</h2>
-              </div>
-              {contributions.length > 0 ? (
-                <ul className="space-y-2">
-                  {contributions.map((c) => (
-                    <li key={c.id} className="flex items-center justify-between text-sm">
-                      <div>
-                        <span className="capitalize">{c.contribution_type.replace(/_/g, ' ')}</span>
-                        <span className="ml-2 text-muted-foreground">{formatDate(c.created_at)}</span>
-                      </div>
-                      <span className="font-medium text-green-600">
-                        {formatCurrency(Number(c.amount))}
-                      </span>
-                    </li>
-                  ))}
-                </ul>
-              ) : (
-                <p className="text-sm text-muted-foreground">No contributions</p>
-              )}
-            </CardContent>
-          </Card>
+          <MemberContributionsCard memberId={member.id} contributions={contributions} />
 
           {/* Officer Positions Card */}
           <MemberPositionsCard positions={memberPositions} />
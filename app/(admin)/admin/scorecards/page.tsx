@@ -1,6 +1,7 @@
 import { Metadata } from 'next';
 import Link from 'next/link';
 import { requireAdmin } from '@/lib/admin/route-helpers';
+import { getRosterReviewQueue } from '@/lib/scorecard/roster-sync';
 import { formatDate } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { PageHeader } from '@/components/ui/page-header';
@@ -39,6 +40,8 @@ export default async function AdminScorecardsPage() {
   if (error) throw new Error(`Failed to fetch scorecard sessions: ${error.message}`);
 
   const sessions = (data || []) as SessionRow[];
+  const rosterReview = await getRosterReviewQueue(supabase);
+  const sessionNames = new Map(sessions.map((s) => [s.id, s.name]));
 
   return (
     <div>
@@ -101,6 +104,50 @@ export default async function AdminScorecardsPage() {
           </table>
         </div>
       </div>
+
+      {rosterReview.length > 0 && (
+        <div className="mt-10">
+          <h2 className="mb-2 text-xl font-semibold">Roster Review ({rosterReview.length})</h2>
+          <p className="mb-4 text-sm text-muted-foreground">
+            Flagged by the nightly LegiScan roster sync. Retired legislators no longer appear on their
+            session&apos;s roster; unmatched legislators have votes but could not be linked to a LegiScan record.
+          </p>
+          <div className="rounded-lg border bg-card">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b bg-muted/50">
+                    <th className="px-4 py-3 text-left text-sm font-medium">Legislator</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium">Reason</th>
+                    <th className="hidden px-4 py-3 text-left text-sm font-medium md:table-cell">Session</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium">Flagged</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rosterReview.map((legislator) => (
+                    <tr key={legislator.id} className="border-b last:border-0">
+                      <td className="px-4 py-3 text-sm font-medium">
+                        {legislator.name}
+                        <span className="ml-2 text-muted-foreground">
+                          {legislator.party} &middot; {legislator.state_code}
+                          {legislator.district ? `-${legislator.district}` : ''}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm capitalize">{legislator.roster_review.reason}</td>
+                      <td className="hidden px-4 py-3 text-sm text-muted-foreground md:table-cell">
+                        {sessionNames.get(legislator.roster_review.session_id) ?? '—'}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-muted-foreground">
+                        {formatDate(legislator.roster_review.flagged_at)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
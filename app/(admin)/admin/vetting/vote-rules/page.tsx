@@ -0,0 +1,57 @@
+import { Metadata } from 'next';
+import { auth } from '@clerk/nextjs/server';
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { createServerClient } from '@/lib/supabase/server';
+import { getVettingContext, canManageVoteRules } from '@/lib/vetting/permissions';
+import { PageHeader } from '@/components/ui/page-header';
+import { VoteRulesManager } from '@/components/admin/vetting/vote-rules-manager';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+import type { CandidateVoteRule } from '@/types';
+
+export const metadata: Metadata = {
+  title: 'Board Vote Rules - Admin',
+  description: 'Manage quorum, threshold and voting periods for board endorsement votes',
+};
+
+export default async function VettingVoteRulesPage() {
+  const { userId } = await auth();
+  if (!userId) redirect('/sign-in');
+  const ctx = await getVettingContext(userId);
+  if (!ctx) redirect('/dashboard?error=unauthorized');
+
+  const isManager = canManageVoteRules(ctx);
+  const supabase = createServerClient();
+
+  const [rulesResult, committeesResult] = await Promise.all([
+    supabase.from('rlc_candidate_vote_rules').select('*').order('name', { ascending: true }),
+    supabase.from('rlc_candidate_vetting_committees').select('id, name').order('name', { ascending: true }),
+  ]);
+
+  if (rulesResult.error) throw new Error(`Failed to fetch vote rules: ${rulesResult.error.message}`);
+  if (committeesResult.error) throw new Error(`Failed to fetch committees: ${committeesResult.error.message}`);
+
+  const voteRules = (rulesResult.data || []) as CandidateVoteRule[];
+  const committees = (committeesResult.data || []) as { id: string; name: string }[];
+
+  return (
+    <div>
+      <PageHeader
+        title="Board Vote Rules"
+        count={voteRules.length}
+        className="mb-8"
+        action={
+          <Button asChild variant="outline" size="sm">
+            <Link href="/admin/vetting" className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Pipeline
+            </Link>
+          </Button>
+        }
+      />
+
+      <VoteRulesManager voteRules={voteRules} committees={committees} canManage={isManager} />
+    </div>
+  );
+}
@@ -7,7 +7,8 @@ import { getMemberByClerkId } from '@/lib/supabase/server';
 import { createServerClient } from '@/lib/supabase/server';
 import { formatDate, formatCurrency } from '@/lib/utils';
 import { EmptyState } from '@/components/ui/empty-state';
-import { CreditCard } from 'lucide-react';
+import { CreditCard, Download } from 'lucide-react';
+import { NON_DEDUCTIBLE_DISCLAIMER } from '@/lib/receipts/generator';
 
 export const metadata: Metadata = {
   title: 'Contributions',
@@ -58,6 +59,14 @@ export default async function ContributionsPage() {
     .filter((c) => c.payment_status === 'completed')
     .reduce((sum, c) => sum + Number(c.amount), 0);
 
+  const statementYears = [
+    ...new Set(
+      contributions
+        .filter((c) => c.payment_status === 'completed')
+        .map((c) => new Date(c.created_at).getUTCFullYear())
+    ),
+  ].sort((a, b) => b - a);
+
   const contributionTypeLabels: Record<string, string> = {
     membership: 'Membership',
     donation: 'Donation',
@@ -107,6 +116,24 @@ export default async function ContributionsPage() {
         </div>
       </div>
 
+      {/* Giving Statements */}
+      {statementYears.length > 0 && (
+        <div className="mb-8 rounded-lg border bg-card p-6">
+          <h2 className="font-semibold">Annual Giving Statements</h2>
+          <p className="mt-1 text-sm text-muted-foreground">{NON_DEDUCTIBLE_DISCLAIMER}</p>
+          <div className="mt-4 flex flex-wrap gap-2">
+            {statementYears.map((year) => (
+              <Button key={year} asChild variant="outline" size="sm">
+                <a href={`/api/v1/me/giving-statement?year=${year}`}>
+                  <Download className="mr-2 h-4 w-4" />
+                  {year} Statement
+                </a>
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Contributions List */}
       {contributions.length > 0 ? (
         <div className="rounded-lg border bg-card">
@@ -118,6 +145,7 @@ export default async function ContributionsPage() {
                   <th className="px-4 py-3 text-left text-sm font-medium">Type</th>
                   <th className="px-4 py-3 text-left text-sm font-medium">Amount</th>
                   <th className="px-4 py-3 text-left text-sm font-medium">Status</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium">Receipt</th>
                 </tr>
               </thead>
               <tbody>
@@ -147,6 +175,17 @@ export default async function ContributionsPage() {
                         {contribution.payment_status}
                       </span>
                     </td>
+                    <td className="px-4 py-3 text-sm">
+                      {contribution.payment_status === 'completed' && (
+                        <a
+                          href={`/api/v1/me/contributions/${contribution.id}/receipt`}
+                          className="inline-flex items-center text-rlc-blue hover:underline"
+                        >
+                          <Download className="mr-1 h-3 w-3" />
+                          PDF
+                        </a>
+                      )}
+                    </td>
                   </tr>
                 ))}
               </tbody>
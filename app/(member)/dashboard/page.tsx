@@ -11,8 +11,11 @@ import { formatDate, formatCurrency } from '@/lib/utils';
 import { ImpactSummary } from '@/components/dashboard/impact-summary';
 import { UrgentActions } from '@/components/dashboard/urgent-actions';
 import { MyRepsPreview } from '@/components/dashboard/my-reps-preview';
+import { formatMemberAddress } from '@/lib/campaigns/delivery';
 import { ActivityTimeline } from '@/components/dashboard/activity-timeline';
 import { PromoteSection } from '@/components/dashboard/promote-section';
+import { PaymentFailedBanner } from '@/components/dashboard/payment-failed-banner';
+import { getLatestDunningAttempt, needsPaymentMethodUpdate } from '@/lib/stripe/dunning';
 import type { ActivityItem } from '@/components/dashboard/activity-timeline';
 import type { MembershipTier, ShareKit } from '@/types';
 import { ArrowRight, Shield, CreditCard, Calendar, User, Users } from 'lucide-react';
@@ -50,10 +53,12 @@ export default async function DashboardPage() {
   }
 
   const supabase = createServerClient();
+  const paymentFailed = needsPaymentMethodUpdate(member);
 
   // Parallel data fetching
   const [
     contributionTotal,
+    dunningAttempt,
     participationsResult,
     registrationsResult,
     activeCampaignsResult,
@@ -61,6 +66,7 @@ export default async function DashboardPage() {
     shareKitsResult,
   ] = await Promise.all([
     getMemberContributionTotal(member.id),
+    paymentFailed ? getLatestDunningAttempt(member.id) : null,
     supabase
       .from('rlc_campaign_participations')
       .select('id, action, created_at, legislator_id, campaign:rlc_action_campaigns(title, slug)')
@@ -226,10 +232,7 @@ export default async function DashboardPage() {
       : member.membership_status.charAt(0).toUpperCase() + member.membership_status.slice(1);
 
   // Build address string for civic API lookup
-  const memberAddress =
-    member.address_line1 && member.city && member.state && member.postal_code
-      ? `${member.address_line1}, ${member.city}, ${member.state} ${member.postal_code}`
-      : null;
+  const memberAddress = formatMemberAddress(member);
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -243,6 +246,13 @@ export default async function DashboardPage() {
         </p>
       </div>
 
+      {paymentFailed && (
+        <PaymentFailedBanner
+          failureMessage={dunningAttempt?.failure_message ?? null}
+          nextRetryAt={dunningAttempt?.next_retry_at ?? null}
+        />
+      )}
+
       {/* Data load warning */}
       {dataErrors.length > 0 && (
         <div className="mb-6 rounded-lg border border-yellow-200 bg-yellow-50 p-4 text-sm text-yellow-800 dark:border-yellow-900 dark:bg-yellow-950 dark:text-yellow-200">
@@ -3,17 +3,36 @@ import Link from 'next/link';
 import { auth } from '@clerk/nextjs/server';
 import { redirect } from 'next/navigation';
 import { Button } from '@/components/ui/button';
-import { getMemberByClerkId, getMemberContributionTotal } from '@/lib/supabase/server';
-import { getTierConfig, MEMBERSHIP_TIERS, formatPrice } from '@/lib/stripe/client';
+import { createServerClient, getMemberByClerkId, getMemberContributionTotal } from '@/lib/supabase/server';
+import { getTierConfig, getTermConfig, MEMBERSHIP_TIERS, formatPrice } from '@/lib/stripe/client';
 import { formatDate } from '@/lib/utils';
 import type { MembershipTier } from '@/types';
 import { Shield, Calendar, CreditCard, ArrowUpRight, Check } from 'lucide-react';
+import { getLatestDunningAttempt, needsPaymentMethodUpdate } from '@/lib/stripe/dunning';
+import { PaymentFailedBanner } from '@/components/dashboard/payment-failed-banner';
+import { TierChangeCard } from './tier-change';
 
 export const metadata: Metadata = {
   title: 'Membership',
   description: 'Manage your RLC membership tier and renewal',
 };
 
+async function hasAutoRenewSubscription(memberId: string): Promise<boolean> {
+  try {
+    const supabase = createServerClient();
+    const { data } = await supabase
+      .from('rlc_memberships')
+      .select('id')
+      .eq('contact_id', memberId)
+      .not('stripe_subscription_id', 'is', null)
+      .limit(1);
+
+    return (data || []).length > 0;
+  } catch {
+    return false;
+  }
+}
+
 export default async function MembershipPage() {
   const { userId } = await auth();
 
@@ -28,7 +47,12 @@ export default async function MembershipPage() {
   }
 
   const tierConfig = getTierConfig(member.membership_tier as MembershipTier);
-  const contributionTotal = await getMemberContributionTotal(member.id);
+  const paymentFailed = needsPaymentMethodUpdate(member);
+  const [contributionTotal, canChangeTier, dunningAttempt] = await Promise.all([
+    getMemberContributionTotal(member.id),
+    hasAutoRenewSubscription(member.id),
+    paymentFailed ? getLatestDunningAttempt(member.id) : null,
+  ]);
 
   const statusLabels: Record<string, { label: string; color: string; description: string }> = {
     new_member: {
@@ -87,6 +111,19 @@ export default async function MembershipPage() {
     member.membership_status
   );
 
+  // Household spouses/children inherit the primary member's tier
+  const isHouseholdDependent = !!member.household_role && member.household_role !== 'primary';
+  // Multi-year and lifetime memberships are prepaid and do not auto-renew
+  const isLifetime = member.membership_term === 'lifetime';
+  const isPrepaidTerm = member.membership_term !== 'annual';
+  const showTierChange = canChangeTier && !!tierConfig && !needsRenewal && !paymentFailed && !isHouseholdDependent && !isPrepaidTerm;
+  const changeableTiers = MEMBERSHIP_TIERS.filter((t) => t.stripePriceId).map((t) => ({
+    tier: t.tier,
+    name: t.name,
+    description: t.description,
+    price: t.price,
+  }));
+
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="mb-8">
@@ -97,6 +134,13 @@ export default async function MembershipPage() {
       </div>
 
       <div className="mx-auto max-w-3xl space-y-6">
+        {paymentFailed && (
+          <PaymentFailedBanner
+            failureMessage={dunningAttempt?.failure_message ?? null}
+            nextRetryAt={dunningAttempt?.next_retry_at ?? null}
+          />
+        )}
+
         {/* Current Membership Card */}
         <div className="rounded-lg border bg-card p-6">
           <div className="flex items-start justify-between">
@@ -115,8 +159,14 @@ export default async function MembershipPage() {
             </div>
             {tierConfig && (
               <div className="text-right">
-                <p className="text-2xl font-bold">{formatPrice(tierConfig.price)}</p>
-                <p className="text-sm text-muted-foreground">/year</p>
+                {isPrepaidTerm ? (
+                  <p className="text-lg font-semibold">{getTermConfig(member.membership_term)?.name}</p>
+                ) : (
+                  <>
+                    <p className="text-2xl font-bold">{formatPrice(tierConfig.price)}</p>
+                    <p className="text-sm text-muted-foreground">/year</p>
+                  </>
+                )}
               </div>
             )}
           </div>
@@ -153,12 +203,14 @@ export default async function MembershipPage() {
               <Calendar className="h-4 w-4 text-muted-foreground" />
               <div>
                 <p className="text-xs text-muted-foreground">
-                  {needsRenewal ? 'Expired On' : 'Renews On'}
+                  {needsRenewal ? 'Expired On' : isPrepaidTerm ? 'Paid Through' : 'Renews On'}
                 </p>
                 <p className="text-sm font-medium">
-                  {member.membership_expiry_date
-                    ? formatDate(member.membership_expiry_date)
-                    : 'N/A'}
+                  {isLifetime
+                    ? 'Never expires'
+                    : member.membership_expiry_date
+                      ? formatDate(member.membership_expiry_date)
+                      : 'N/A'}
                 </p>
               </div>
             </div>
@@ -214,8 +266,17 @@ export default async function MembershipPage() {
           </div>
         </div>
 
+        {/* Tier Change (auto-renewing memberships) */}
+        {showTierChange && (
+          <TierChangeCard
+            currentTier={member.membership_tier as MembershipTier}
+            currentPrice={currentPrice}
+            tiers={changeableTiers}
+          />
+        )}
+
         {/* Upgrade Options */}
-        {upgradeTiers.length > 0 && !needsRenewal && (
+        {upgradeTiers.length > 0 && !needsRenewal && !showTierChange && !isHouseholdDependent && !isPrepaidTerm && (
           <div className="rounded-lg border bg-card p-6">
             <h3 className="mb-4 text-lg font-semibold">Upgrade Your Membership</h3>
             <p className="mb-4 text-sm text-muted-foreground">
@@ -0,0 +1,194 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, ArrowDown, ArrowUp } from 'lucide-react';
+import { formatPrice } from '@/lib/stripe/client';
+import { formatDate } from '@/lib/utils';
+import type { MembershipTier } from '@/types';
+
+interface TierOption {
+  tier: MembershipTier;
+  name: string;
+  description: string;
+  price: number;
+}
+
+interface TierChangePreview {
+  toTier: MembershipTier;
+  direction: 'upgrade' | 'downgrade';
+  prorationDate: number;
+  amountDueNowCents: number;
+  creditCents: number;
+  renewalPriceCents: number;
+  renewsAt: string;
+  householdRolesRemoved: ('spouse' | 'child')[];
+}
+
+interface TierChangeCardProps {
+  currentTier: MembershipTier;
+  currentPrice: number;
+  tiers: TierOption[];
+}
+
+function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+export function TierChangeCard({ currentTier, currentPrice, tiers }: TierChangeCardProps) {
+  const router = useRouter();
+  const [preview, setPreview] = useState<TierChangePreview | null>(null);
+  const [loadingTier, setLoadingTier] = useState<MembershipTier | null>(null);
+  const [confirming, setConfirming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState<string | null>(null);
+
+  const options = tiers.filter((t) => t.tier !== currentTier);
+  const selected = preview ? tiers.find((t) => t.tier === preview.toTier) : null;
+
+  async function handlePreview(tier: MembershipTier) {
+    setLoadingTier(tier);
+    setError(null);
+    setDone(null);
+
+    try {
+      const res = await fetch('/api/v1/me/membership/tier-change/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tier }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to calculate the new price');
+      }
+
+      const { data } = await res.json();
+      setPreview(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to calculate the new price');
+    } finally {
+      setLoadingTier(null);
+    }
+  }
+
+  async function handleConfirm() {
+    if (!preview) return;
+    setConfirming(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/v1/me/membership/tier-change', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tier: preview.toTier, prorationDate: preview.prorationDate }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to change membership tier');
+      }
+
+      setDone(`You're now a ${selected?.name ?? preview.toTier} member.`);
+      setPreview(null);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change membership tier');
+    } finally {
+      setConfirming(false);
+    }
+  }
+
+  return (
+    <div className="rounded-lg border bg-card p-6">
+      <h3 className="mb-1 text-lg font-semibold">Change Your Membership Tier</h3>
+      <p className="mb-4 text-sm text-muted-foreground">
+        Upgrades are charged the prorated difference today. Downgrades are credited toward your next renewal.
+      </p>
+
+      {error && (
+        <div className="mb-4 flex items-start gap-2 rounded-md bg-red-50 p-3 text-sm text-red-800">
+          <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+          {error}
+        </div>
+      )}
+      {done && (
+        <div className="mb-4 rounded-md bg-green-50 p-3 text-sm text-green-800">{done}</div>
+      )}
+
+      {preview && selected ? (
+        <div className="space-y-4">
+          <div className="rounded-md border p-4 text-sm">
+            <p className="font-medium">
+              {preview.direction === 'upgrade' ? 'Upgrade' : 'Downgrade'} to {selected.name}
+            </p>
+            <dl className="mt-3 space-y-1">
+              {preview.direction === 'upgrade' ? (
+                <div className="flex justify-between">
+                  <dt className="text-muted-foreground">Due today (prorated)</dt>
+                  <dd className="font-semibold">{formatCents(preview.amountDueNowCents)}</dd>
+                </div>
+              ) : (
+                <div className="flex justify-between">
+                  <dt className="text-muted-foreground">Credit toward renewal</dt>
+                  <dd className="font-semibold">{formatCents(preview.creditCents)}</dd>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <dt className="text-muted-foreground">Renews {formatDate(preview.renewsAt)} at</dt>
+                <dd>{formatPrice(preview.renewalPriceCents)}/yr</dd>
+              </div>
+            </dl>
+            {preview.householdRolesRemoved.length > 0 && (
+              <p className="mt-3 rounded bg-yellow-50 p-2 text-yellow-800">
+                {selected.name} does not cover{' '}
+                {preview.householdRolesRemoved.map((r) => (r === 'child' ? 'children' : 'a spouse')).join(' or ')}.
+                Those household members will lose their membership.
+              </p>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button
+              onClick={handleConfirm}
+              disabled={confirming}
+              className="bg-rlc-red hover:bg-rlc-red/90"
+            >
+              {confirming ? 'Updating...' : `Confirm ${preview.direction}`}
+            </Button>
+            <Button variant="outline" onClick={() => setPreview(null)} disabled={confirming}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="grid gap-3 sm:grid-cols-2">
+          {options.map((tier) => (
+            <button
+              key={tier.tier}
+              type="button"
+              onClick={() => handlePreview(tier.tier)}
+              disabled={loadingTier !== null}
+              className="group flex items-center justify-between rounded-md border p-4 text-left transition-colors hover:border-rlc-red disabled:opacity-60"
+            >
+              <div>
+                <p className="flex items-center gap-1 font-medium group-hover:text-rlc-red">
+                  {tier.price > currentPrice ? (
+                    <ArrowUp className="h-3.5 w-3.5" />
+                  ) : (
+                    <ArrowDown className="h-3.5 w-3.5" />
+                  )}
+                  {tier.name}
+                </p>
+                <p className="text-sm text-muted-foreground">{tier.description}</p>
+              </div>
+              <p className="ml-4 whitespace-nowrap font-semibold">
+                {loadingTier === tier.tier ? '...' : `${formatPrice(tier.price)}/yr`}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,22 +3,61 @@ import { Metadata } from 'next';
 import { MainNav } from '@/components/navigation/main-nav';
 import { Footer } from '@/components/layout/footer';
 import { AddressLookup } from '@/components/action-center/address-lookup';
+import { createServerClient } from '@/lib/supabase/server';
+import type { ActionCampaign, ScorecardBill } from '@/types';
 
 export const metadata: Metadata = {
   title: 'Contact Your Representatives',
   description: 'Find and contact your elected officials.',
 };
 
-export default function ContactRepPage() {
+type CampaignRow = Pick<
+  ActionCampaign,
+  'id' | 'title' | 'slug' | 'description' | 'message_template' | 'ai_variation' | 'action_type' | 'call_script'
+> & { bill: Pick<ScorecardBill, 'bill_number' | 'title'> | null };
+
+async function getActiveCampaign(slug: string | undefined): Promise<CampaignRow | null> {
+  if (!slug) return null;
+  const supabase = createServerClient();
+  const { data } = await supabase
+    .from('rlc_action_campaigns')
+    .select('id, title, slug, description, message_template, ai_variation, action_type, call_script, bill_id')
+    .eq('slug', slug)
+    .eq('status', 'active')
+    .single();
+  const campaign = data as (Omit<CampaignRow, 'bill'> & Pick<ActionCampaign, 'bill_id'>) | null;
+  if (!campaign) return null;
+
+  let bill: CampaignRow['bill'] = null;
+  if (campaign.bill_id) {
+    const { data: billData } = await supabase
+      .from('rlc_scorecard_bills')
+      .select('bill_number, title')
+      .eq('id', campaign.bill_id)
+      .single();
+    bill = (billData as CampaignRow['bill']) ?? null;
+  }
+  return { ...campaign, bill };
+}
+
+interface ContactRepPageProps {
+  searchParams: Promise<{ campaign?: string }>;
+}
+
+export default async function ContactRepPage({ searchParams }: ContactRepPageProps) {
+  const params = await searchParams;
+  const campaign = await getActiveCampaign(params.campaign);
+
   return (
     <div className="flex min-h-screen flex-col">
       <MainNav />
 
       <section className="bg-gradient-to-br from-rlc-blue to-rlc-blue/80 py-12 text-white">
         <div className="container mx-auto px-4 text-center">
-          <h1 className="text-3xl font-bold">Contact Your Representatives</h1>
+          <h1 className="text-3xl font-bold">{campaign ? campaign.title : 'Contact Your Representatives'}</h1>
           <p className="mt-2 text-white/90">
-            Enter your address below to find your elected officials and their contact information.
+            {campaign?.description ||
+              'Enter your address below to find your elected officials and their contact information.'}
           </p>
         </div>
       </section>
@@ -26,8 +65,33 @@ export default function ContactRepPage() {
       <section className="py-12">
         <div className="container mx-auto px-4">
           <div className="mx-auto max-w-4xl">
+            {campaign?.action_type === 'call' ? (
+              <p className="mb-6 text-sm text-muted-foreground">
+                Find your legislators, call their offices using the script shown with each one, and let us know how each call went.
+              </p>
+            ) : campaign?.message_template ? (
+              <p className="mb-6 text-sm text-muted-foreground">
+                Find your legislators, then send them this campaign&apos;s message. Members who are signed in with an
+                address on their profile can send it directly from this page.
+              </p>
+            ) : null}
             <Suspense fallback={<div className="h-12 animate-pulse rounded-md bg-muted" />}>
-              <AddressLookup showResults />
+              <AddressLookup
+                showResults
+                campaign={
+                  campaign
+                    ? {
+                        id: campaign.id,
+                        slug: campaign.slug,
+                        actionType: campaign.action_type,
+                        messageTemplate: campaign.message_template,
+                        callScript: campaign.call_script,
+                        aiVariation: campaign.ai_variation,
+                        bill: campaign.bill ? { number: campaign.bill.bill_number, title: campaign.bill.title } : null,
+                      }
+                    : null
+                }
+              />
             </Suspense>
           </div>
         </div>
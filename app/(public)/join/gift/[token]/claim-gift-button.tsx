@@ -0,0 +1,49 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { AlertCircle } from 'lucide-react';
+
+export function ClaimGiftButton({ token }: { token: string }) {
+  const router = useRouter();
+  const [claiming, setClaiming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleClaim() {
+    setClaiming(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/v1/me/gifts/claim', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to claim gift membership');
+      }
+
+      router.push('/membership');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to claim gift membership');
+      setClaiming(false);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="flex items-start gap-2 rounded-md bg-red-50 p-3 text-left text-sm text-red-800">
+          <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+          {error}
+        </div>
+      )}
+      <Button onClick={handleClaim} disabled={claiming} className="bg-rlc-red hover:bg-rlc-red/90">
+        {claiming ? 'Claiming...' : 'Claim My Membership'}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { auth } from '@clerk/nextjs/server';
+import { MainNav } from '@/components/navigation/main-nav';
+import { Footer } from '@/components/layout/footer';
+import { Button } from '@/components/ui/button';
+import { getMemberByClerkId } from '@/lib/supabase/server';
+import { getTermConfig, getTierConfig } from '@/lib/stripe/client';
+import { getGiftClaimSummary } from '@/lib/stripe/gift-membership';
+import { Gift } from 'lucide-react';
+import { ClaimGiftButton } from './claim-gift-button';
+
+export const metadata: Metadata = {
+  title: 'Claim Your Gift Membership',
+  description: 'Someone has given you a Republican Liberty Caucus membership.',
+  robots: { index: false },
+};
+
+interface GiftClaimPageProps {
+  params: Promise<{ token: string }>;
+}
+
+export default async function GiftClaimPage({ params }: GiftClaimPageProps) {
+  const { token } = await params;
+  const gift = await getGiftClaimSummary(token);
+  if (!gift || gift.status === 'pending') notFound();
+
+  const tierName = getTierConfig(gift.tier)?.name ?? gift.tier;
+  const termName = getTermConfig(gift.term)?.name ?? gift.term;
+  const returnPath = `/join/gift/${token}`;
+
+  const { userId } = await auth();
+  const member = userId ? await getMemberByClerkId(userId) : null;
+  const isRecipient = !!member && member.id === gift.recipientContactId;
+
+  return (
+    <div className="flex min-h-screen flex-col">
+      <MainNav />
+
+      <section className="flex flex-1 items-center justify-center py-16">
+        <div className="container mx-auto max-w-lg px-4 text-center">
+          <div className="mb-6 flex justify-center">
+            <Gift className="h-20 w-20 text-rlc-red" />
+          </div>
+
+          <h1 className="mb-4 text-3xl font-bold">
+            {gift.recipientFirstName}, you&apos;ve been given an RLC membership!
+          </h1>
+
+          <p className="mb-2 text-lg text-muted-foreground">
+            {gift.purchaserName || 'Someone'} gave you a <strong>{tierName}</strong> membership ({termName}).
+            It&apos;s already active.
+          </p>
+
+          {gift.giftMessage && (
+            <blockquote className="mx-auto my-6 border-l-4 border-rlc-red pl-4 text-left italic text-muted-foreground">
+              {gift.giftMessage}
+            </blockquote>
+          )}
+
+          {gift.status === 'claimed' && isRecipient ? (
+            <div className="mt-8 flex justify-center">
+              <Button asChild className="bg-rlc-red hover:bg-rlc-red/90">
+                <Link href="/dashboard">Go to Dashboard</Link>
+              </Button>
+            </div>
+          ) : isRecipient ? (
+            <div className="mt-8">
+              <ClaimGiftButton token={token} />
+            </div>
+          ) : userId ? (
+            <p className="mt-8 rounded-md bg-yellow-50 p-3 text-sm text-yellow-800">
+              This gift was sent to {gift.recipientEmailHint}. Sign out and sign in with that email
+              address to claim it.
+            </p>
+          ) : (
+            <>
+              <p className="mb-8 mt-4 text-muted-foreground">
+                Sign in or create an account with {gift.recipientEmailHint} to claim it.
+              </p>
+              <div className="flex flex-col gap-3 sm:flex-row sm:justify-center">
+                <Button asChild className="bg-rlc-red hover:bg-rlc-red/90">
+                  <Link href={`/sign-in?redirect_url=${encodeURIComponent(returnPath)}`}>Sign In</Link>
+                </Button>
+                <Button asChild variant="outline">
+                  <Link href={`/sign-up?redirect_url=${encodeURIComponent(returnPath)}`}>Create Account</Link>
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </section>
+
+      <Footer />
+    </div>
+  );
+}
@@ -32,7 +32,7 @@ export default function JoinPage() {
         <div className="container mx-auto px-4">
           <h2 className="mb-2 text-center text-3xl font-bold">Choose Your Membership</h2>
           <p className="mb-10 text-center text-muted-foreground">
-            All memberships are annual and include full voting rights.
+            All memberships include full voting rights. Give one as a gift to someone you know.
           </p>
 
           <JoinFlow tiers={MEMBERSHIP_TIERS} />
@@ -117,6 +117,14 @@ export default function JoinPage() {
                 year.
               </p>
             </div>
+            <div>
+              <h3 className="mb-2 text-lg font-semibold">Can I give a membership as a gift?</h3>
+              <p className="text-muted-foreground">
+                Yes. Choose &quot;Give as a gift&quot; above and enter the recipient&apos;s details. Their
+                membership starts as soon as you pay, it counts toward their state charter, and
+                we&apos;ll email them a link to claim it. Gift memberships do not renew automatically.
+              </p>
+            </div>
             <div>
               <h3 className="mb-2 text-lg font-semibold">Is my contribution tax-deductible?</h3>
               <p className="text-muted-foreground">
@@ -10,7 +10,14 @@ export const metadata: Metadata = {
   description: 'Your membership has been activated.',
 };
 
-export default function JoinSuccessPage() {
+export default async function JoinSuccessPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ gift?: string }>;
+}) {
+  const { gift } = await searchParams;
+  const isGift = gift === '1';
+
   return (
     <div className="flex min-h-screen flex-col">
       <MainNav />
@@ -21,15 +28,20 @@ export default function JoinSuccessPage() {
             <CheckCircle className="h-20 w-20 text-green-500" />
           </div>
 
-          <h1 className="mb-4 text-3xl font-bold">Welcome to the RLC!</h1>
+          <h1 className="mb-4 text-3xl font-bold">
+            {isGift ? 'Thank you for your gift!' : 'Welcome to the RLC!'}
+          </h1>
 
           <p className="mb-2 text-lg text-muted-foreground">
-            Your payment was successful and your membership is now active.
+            {isGift
+              ? 'Your payment was successful and the gift membership is now active.'
+              : 'Your payment was successful and your membership is now active.'}
           </p>
 
           <p className="mb-8 text-muted-foreground">
-            You&apos;ll receive a confirmation email shortly with your membership details.
-            Sign in to access your member dashboard.
+            {isGift
+              ? 'We\'ll email the recipient a link to claim their membership.'
+              : 'You\'ll receive a confirmation email shortly with your membership details. Sign in to access your member dashboard.'}
           </p>
 
           <div className="flex flex-col gap-3 sm:flex-row sm:justify-center">
@@ -4,17 +4,21 @@ import { notFound } from 'next/navigation';
 import { MainNav } from '@/components/navigation/main-nav';
 import { Footer } from '@/components/layout/footer';
 import { createServerClient } from '@/lib/supabase/server';
+import { BASE_URL } from '@/lib/constants';
 import { ShareButtons } from '@/components/shared/share-buttons';
 import { ScoreBadge } from '@/components/ui/score-badge';
-import { ArrowLeft } from 'lucide-react';
-import type { Legislator, ScorecardSession, ScorecardBill, ScorecardVote } from '@/types';
+import { ScoreTrendChart } from '@/components/scorecards/score-trend-chart';
+import { CategoryAlignment } from '@/components/scorecards/category-alignment';
+import { getLegislatorHistory, PUBLIC_SESSION_STATUSES } from '@/lib/scorecard/legislator-history';
+import { ArrowLeft, TrendingDown, TrendingUp } from 'lucide-react';
+import type { ScorecardSession, ScorecardBill, ScorecardVote } from '@/types';
 
 interface Props {
   params: Promise<{ slug: string; legislatorId: string }>;
 }
 
 export async function generateMetadata({ params }: Props): Promise<Metadata> {
-  const { legislatorId } = await params;
+  const { slug, legislatorId } = await params;
   const supabase = createServerClient();
   const { data } = await supabase
     .from('rlc_legislators')
@@ -26,6 +30,11 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
   return {
     title: legislator ? `${legislator.name} - Liberty Scorecard` : 'Legislator Profile',
     description: legislator ? `${legislator.name}'s liberty voting record and score.` : 'Legislator voting record',
+    alternates: {
+      types: {
+        'application/json+oembed': `/api/v1/scorecards/oembed?url=${encodeURIComponent(`${BASE_URL}/scorecards/${slug}/${legislatorId}`)}`,
+      },
+    },
   };
 }
 
@@ -38,21 +47,16 @@ export default async function LegislatorDetailPage({ params }: Props) {
     .from('rlc_scorecard_sessions')
     .select('*')
     .eq('slug', slug)
-    .in('status', ['active', 'published'])
+    .in('status', PUBLIC_SESSION_STATUSES)
     .single();
 
   if (!sessionData) notFound();
   const session = sessionData as ScorecardSession;
 
-  // Get legislator
-  const { data: legData } = await supabase
-    .from('rlc_legislators')
-    .select('*')
-    .eq('id', legislatorId)
-    .single();
-
-  if (!legData) notFound();
-  const legislator = legData as Legislator;
+  // Legislator with their score in every public session
+  const history = await getLegislatorHistory(legislatorId);
+  if (!history) notFound();
+  const { legislator } = history;
 
   // Get this session's bills
   const { data: billsData } = await supabase
@@ -137,6 +141,59 @@ export default async function LegislatorDetailPage({ params }: Props) {
         </div>
       </section>
 
+      <section className="pt-12">
+        <div className="container mx-auto grid gap-6 px-4 lg:grid-cols-3">
+          <div className="rounded-lg border bg-card p-6 lg:col-span-2">
+            <div className="mb-4 flex items-start justify-between gap-4">
+              <div>
+                <h2 className="text-xl font-semibold">Score History</h2>
+                <p className="text-sm text-muted-foreground">
+                  Liberty score in each scorecard session
+                </p>
+              </div>
+              {history.trend !== null && history.trend !== 0 && (
+                <span
+                  className={`inline-flex items-center gap-1 text-sm font-medium ${
+                    history.trend > 0 ? 'text-green-600' : 'text-red-600'
+                  }`}
+                >
+                  {history.trend > 0 ? <TrendingUp className="h-4 w-4" /> : <TrendingDown className="h-4 w-4" />}
+                  {history.trend > 0 ? '+' : ''}
+                  {Math.round(history.trend)} pts since {history.sessions[0].sessionYear}
+                </span>
+              )}
+            </div>
+            <ScoreTrendChart sessions={history.sessions} />
+            {history.sessions.length > 1 && (
+              <ul className="mt-4 divide-y text-sm">
+                {[...history.sessions].reverse().map((s) => (
+                  <li key={s.sessionId} className="flex items-center justify-between py-2">
+                    {s.sessionSlug === slug ? (
+                      <span className="font-medium">{s.sessionName}</span>
+                    ) : (
+                      <Link href={`/scorecards/${s.sessionSlug}/${legislatorId}`} className="text-rlc-blue hover:underline">
+                        {s.sessionName}
+                      </Link>
+                    )}
+                    <ScoreBadge score={s.libertyScore} size="sm" />
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="rounded-lg border bg-card p-6">
+            <h2 className="text-xl font-semibold">Lifetime Alignment</h2>
+            <p className="mb-4 text-sm text-muted-foreground">
+              {history.lifetime.alignmentPct !== null
+                ? `Voted with the liberty position ${history.lifetime.aligned} of ${history.lifetime.aligned + history.lifetime.opposed} times across ${history.sessions.length} session${history.sessions.length === 1 ? '' : 's'}.`
+                : 'No recorded votes yet.'}
+            </p>
+            <CategoryAlignment categories={history.categories} />
+          </div>
+        </div>
+      </section>
+
       <section className="py-12">
         <div className="container mx-auto px-4">
           <h2 className="mb-6 text-xl font-semibold">Vote History</h2>
@@ -1,8 +1,12 @@
 import { Metadata } from 'next';
+import Link from 'next/link';
 import { notFound } from 'next/navigation';
 import { MainNav } from '@/components/navigation/main-nav';
 import { Footer } from '@/components/layout/footer';
+import { Button } from '@/components/ui/button';
+import { FileDown, GitCompare } from 'lucide-react';
 import { createServerClient } from '@/lib/supabase/server';
+import { BASE_URL } from '@/lib/constants';
 import { LegislatorTable } from '@/components/scorecards/legislator-table';
 import { ShareButtons } from '@/components/shared/share-buttons';
 import { ScorecardTabs } from '@/components/scorecards/scorecard-tabs';
@@ -11,7 +15,13 @@ import { TopDefenders } from '@/components/scorecards/top-defenders';
 import { BillExplanations } from '@/components/scorecards/bill-explanations';
 import { VoteMatrix } from '@/components/scorecards/vote-matrix';
 import { ScorecardSwitcher } from '@/components/scorecards/scorecard-switcher';
-import type { ScorecardSession, ScorecardBill, ScorecardVote, Legislator } from '@/types';
+import type {
+  ScorecardSession,
+  ScorecardBill,
+  ScorecardVote,
+  ScorecardLegislatorScore,
+  Legislator,
+} from '@/types';
 
 interface Props {
   params: Promise<{ slug: string }>;
@@ -34,6 +44,11 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
       : session
         ? `See how legislators scored on the ${session.name} Liberty Scorecard.`
         : 'Liberty Scorecard results',
+    alternates: {
+      types: {
+        'application/json+oembed': `/api/v1/scorecards/oembed?url=${encodeURIComponent(`${BASE_URL}/scorecards/${slug}`)}`,
+      },
+    },
   };
 }
 
@@ -123,6 +138,19 @@ export default async function ScorecardDetailPage({ params }: Props) {
     }
   }
 
+  // Category sub-scores stored by the score computation
+  const categoryScores: Record<string, ScorecardLegislatorScore['category_scores']> = {};
+  if (legislators.length > 0) {
+    const { data: scoreRows } = await supabase
+      .from('rlc_scorecard_legislator_scores')
+      .select('legislator_id, category_scores')
+      .eq('session_id', session.id);
+
+    for (const row of (scoreRows ?? []) as Pick<ScorecardLegislatorScore, 'legislator_id' | 'category_scores'>[]) {
+      categoryScores[row.legislator_id] = row.category_scores ?? {};
+    }
+  }
+
   // Compute top/bottom scorers and average
   const scoredLegislators = legislators.filter((l) => l.computed_score !== null);
   const topScorers = scoredLegislators.slice(0, 10);
@@ -155,12 +183,26 @@ export default async function ScorecardDetailPage({ params }: Props) {
         <div className="container mx-auto px-4">
           <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
             <h2 className="font-heading text-xl font-semibold">Liberty Scorecard</h2>
-            <ShareButtons
-              url={`/scorecards/${slug}`}
-              title={`${session.name} Liberty Scorecard`}
-              text={`Check out the ${session.name} Liberty Scorecard from the Republican Liberty Caucus!`}
-              compact
-            />
+            <div className="flex flex-wrap items-center gap-3">
+              <Button asChild variant="outline" size="sm">
+                <Link href={`/scorecards/compare?sessions=${slug}`}>
+                  <GitCompare className="mr-2 h-4 w-4" />
+                  Compare Sessions
+                </Link>
+              </Button>
+              <Button asChild variant="outline" size="sm">
+                <a href={`/api/v1/scorecards/sessions/${slug}/pdf`}>
+                  <FileDown className="mr-2 h-4 w-4" />
+                  Download PDF
+                </a>
+              </Button>
+              <ShareButtons
+                url={`/scorecards/${slug}`}
+                title={`${session.name} Liberty Scorecard`}
+                text={`Check out the ${session.name} Liberty Scorecard from the Republican Liberty Caucus!`}
+                compact
+              />
+            </div>
           </div>
 
           <ScorecardTabs
@@ -209,7 +251,13 @@ export default async function ScorecardDetailPage({ params }: Props) {
               {
                 id: 'all-legislators',
                 label: 'All Legislators',
-                content: <LegislatorTable legislators={legislators} scorecardSlug={slug} />,
+                content: (
+                  <LegislatorTable
+                    legislators={legislators}
+                    scorecardSlug={slug}
+                    categoryScores={categoryScores}
+                  />
+                ),
               },
             ]}
           />
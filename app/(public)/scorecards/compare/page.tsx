@@ -0,0 +1,157 @@
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { MainNav } from '@/components/navigation/main-nav';
+import { Footer } from '@/components/layout/footer';
+import { Button } from '@/components/ui/button';
+import { ShareButtons } from '@/components/shared/share-buttons';
+import { SessionComparisonView } from '@/components/scorecards/session-comparison';
+import { ArrowLeft, FileDown } from 'lucide-react';
+import { createServerClient } from '@/lib/supabase/server';
+import {
+  fetchSessionComparison,
+  getComparableSessions,
+  MAX_COMPARED_SESSIONS,
+  MIN_COMPARED_SESSIONS,
+  parseSessionSlugs,
+  type ComparisonSession,
+} from '@/lib/scorecard/session-comparison';
+
+export const metadata: Metadata = {
+  title: 'Compare Liberty Scorecards',
+  description: 'See how legislators\' liberty scores changed from one session to the next.',
+};
+
+interface CompareScorecardsPageProps {
+  searchParams: Promise<{ sessions?: string | string[] }>;
+}
+
+const CHAMBER_LABELS: Record<string, string> = {
+  us_house: 'U.S. House',
+  us_senate: 'U.S. Senate',
+  state_house: 'State House',
+  state_senate: 'State Senate',
+};
+
+/** Sessions that can be compared with each other, keyed and labelled by jurisdiction and chamber. */
+function groupSessions(sessions: ComparisonSession[]): { label: string; sessions: ComparisonSession[] }[] {
+  const groups = new Map<string, { label: string; sessions: ComparisonSession[] }>();
+  for (const s of sessions) {
+    const key = `${s.jurisdiction}:${s.state_code ?? ''}:${s.chamber ?? ''}`;
+    const place = s.jurisdiction === 'federal' ? 'Federal' : s.state_code ?? 'State';
+    const label = `${place} - ${s.chamber ? CHAMBER_LABELS[s.chamber] ?? s.chamber : 'All Chambers'}`;
+    const group = groups.get(key) ?? { label, sessions: [] };
+    group.sessions.push(s);
+    groups.set(key, group);
+  }
+  return Array.from(groups.values())
+    .filter((g) => g.sessions.length > 1)
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
+
+export default async function CompareScorecardsPage({ searchParams }: CompareScorecardsPageProps) {
+  const params = await searchParams;
+  const raw = params.sessions;
+  const slugs = parseSessionSlugs(Array.isArray(raw) ? raw : raw ? [raw] : []);
+  const supabase = createServerClient();
+
+  const groups = groupSessions(await getComparableSessions(supabase));
+  // A single slug just pre-checks that session, e.g. when linked from a scorecard page
+  const result = slugs.length >= MIN_COMPARED_SESSIONS ? await fetchSessionComparison(supabase, slugs) : null;
+  const comparison = result && 'comparison' in result ? result.comparison : null;
+  const selected = new Set(slugs);
+  const query = `sessions=${slugs.map(encodeURIComponent).join(',')}`;
+
+  return (
+    <div className="flex min-h-screen flex-col">
+      <MainNav />
+
+      <section className="bg-gradient-to-br from-rlc-blue to-rlc-blue/80 py-12 text-white">
+        <div className="container mx-auto px-4">
+          <Link
+            href="/scorecards"
+            className="mb-4 inline-flex items-center gap-1 rounded-md px-2 py-1.5 text-sm text-white/70 hover:text-white"
+          >
+            <ArrowLeft className="h-4 w-4" /> All Scorecards
+          </Link>
+          <p className="text-sm font-medium uppercase tracking-widest text-white/60">Liberty Scorecard</p>
+          <h1 className="mt-1 text-3xl font-bold md:text-4xl">
+            {comparison ? comparison.sessions.map((s) => s.name).join(' vs. ') : 'Compare Sessions'}
+          </h1>
+          <p className="mt-2 text-white/70">
+            Score changes, newly elected members, biggest movers, and category shifts between sessions.
+          </p>
+        </div>
+      </section>
+
+      <section className="py-16">
+        <div className="container mx-auto space-y-10 px-4">
+          <form method="get" className="rounded-lg border bg-card p-6">
+            <h2 className="font-heading text-lg font-semibold">Choose sessions</h2>
+            <p className="mt-1 text-sm text-muted-foreground">
+              Pick two to {MAX_COMPARED_SESSIONS} scorecards for the same jurisdiction and chamber.
+            </p>
+            {groups.length === 0 ? (
+              <p className="mt-4 text-sm text-muted-foreground">
+                No jurisdiction has more than one published scorecard yet.
+              </p>
+            ) : (
+              <div className="mt-4 grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+                {groups.map((group) => (
+                  <fieldset key={group.label}>
+                    <legend className="mb-2 text-sm font-medium">{group.label}</legend>
+                    <div className="space-y-1">
+                      {group.sessions.map((s) => (
+                        <label key={s.id} className="flex items-center gap-2 text-sm">
+                          <input
+                            type="checkbox"
+                            name="sessions"
+                            value={s.slug}
+                            defaultChecked={selected.has(s.slug)}
+                            className="h-4 w-4 rounded border-input"
+                          />
+                          {s.name}
+                        </label>
+                      ))}
+                    </div>
+                  </fieldset>
+                ))}
+              </div>
+            )}
+            <Button type="submit" className="mt-6" disabled={groups.length === 0}>
+              Compare
+            </Button>
+          </form>
+
+          {result && 'error' in result && (
+            <div className="rounded-md bg-red-50 p-4 text-sm text-red-800">{result.error}</div>
+          )}
+
+          {comparison && (
+            <div>
+              <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+                <h2 className="font-heading text-xl font-semibold">Session Comparison</h2>
+                <div className="flex flex-wrap items-center gap-3">
+                  <Button asChild variant="outline" size="sm">
+                    <a href={`/api/v1/scorecards/compare?${query}&format=csv`}>
+                      <FileDown className="mr-2 h-4 w-4" />
+                      Download CSV
+                    </a>
+                  </Button>
+                  <ShareButtons
+                    url={`/scorecards/compare?${query}`}
+                    title={`${comparison.sessions.map((s) => s.name).join(' vs. ')} Liberty Scorecards`}
+                    text="See how legislators' liberty scores changed between sessions on the Republican Liberty Caucus scorecard."
+                    compact
+                  />
+                </div>
+              </div>
+              <SessionComparisonView comparison={comparison} />
+            </div>
+          )}
+        </div>
+      </section>
+
+      <Footer />
+    </div>
+  );
+}
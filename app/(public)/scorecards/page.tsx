@@ -4,7 +4,8 @@ import { MainNav } from '@/components/navigation/main-nav';
 import { Footer } from '@/components/layout/footer';
 import { createServerClient } from '@/lib/supabase/server';
 import { EmptyState } from '@/components/ui/empty-state';
-import { Target } from 'lucide-react';
+import { MyLegislatorsLookup } from '@/components/scorecards/my-legislators-lookup';
+import { GitCompare, Target } from 'lucide-react';
 import type { ScorecardSession } from '@/types';
 
 export const metadata: Metadata = {
@@ -37,6 +38,23 @@ export default async function ScorecardsPage() {
             How do your representatives vote on liberty? Our scorecards track legislators&apos; voting
             records on issues that matter: limited government, individual liberty, and free markets.
           </p>
+          <Link
+            href="/scorecards/compare"
+            className="mt-6 inline-flex items-center gap-2 rounded-md border border-white/40 px-4 py-2 text-sm font-medium hover:bg-white/10"
+          >
+            <GitCompare className="h-4 w-4" /> Compare Sessions
+          </Link>
+        </div>
+      </section>
+
+      <section className="border-b bg-muted/30 py-12">
+        <div className="container mx-auto max-w-4xl px-4">
+          <h2 className="mb-2 text-2xl font-bold">Find Your Legislators&apos; Scores</h2>
+          <p className="mb-6 text-muted-foreground">
+            Enter your address to see your state and federal legislators, their current liberty scores, and how
+            they voted on key bills.
+          </p>
+          <MyLegislatorsLookup />
         </div>
       </section>
 
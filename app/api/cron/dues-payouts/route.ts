@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { runScheduledPayouts } from '@/lib/dues-sharing/payout-batcher';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode } from '@/lib/api/errors';
+
+// Vercel Cron calls this endpoint daily.
+// Protected by CRON_SECRET to prevent unauthorized access.
+//
+// Charters on a daily/weekly/monthly payout cadence accumulate pending
+// ledger entries; this job aggregates them into one Stripe transfer per
+// charter once their period rolls over and the minimum payout is met.
+
+function verifySecret(provided: string, expected: string): boolean {
+  try {
+    const a = Buffer.from(provided);
+    const b = Buffer.from(expected);
+    if (a.length !== b.length) return false;
+    return timingSafeEqual(a, b);
+  } catch {
+    return false;
+  }
+}
+
+export async function GET(req: Request) {
+  const authHeader = req.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    logger.error('CRON_SECRET not configured');
+    return apiError('Server configuration error', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+
+  const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : '';
+  if (!verifySecret(token, cronSecret)) {
+    return apiError('Unauthorized', ApiErrorCode.UNAUTHORIZED, 401);
+  }
+
+  const now = new Date();
+
+  let results;
+  try {
+    results = await runScheduledPayouts(now);
+  } catch (err) {
+    logger.error('Dues payout cron failed:', err);
+    return apiError('Failed to run scheduled payouts', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+
+  logger.info(
+    `Dues payout cron completed: ${results.chartersDue} charters due, ` +
+    `${results.batchesTransferred} batches transferred ($${(results.amountTransferredCents / 100).toFixed(2)}, ` +
+    `${results.entriesTransferred} entries), ${results.deferredBelowMinimum} below minimum` +
+    (results.errors.length > 0 ? ` | ${results.errors.length} errors` : '')
+  );
+
+  if (results.errors.length > 0) {
+    logger.error('Dues payout cron errors:', results.errors);
+  }
+
+  return NextResponse.json({
+    success: results.errors.length === 0,
+    ...results,
+    timestamp: now.toISOString(),
+  }, { status: results.errors.length > 0 ? 500 : 200 });
+}
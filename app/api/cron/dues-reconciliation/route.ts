@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { runReconciliation } from '@/lib/dues-sharing/reconciliation';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode } from '@/lib/api/errors';
+
+// Vercel Cron calls this endpoint daily.
+// Protected by CRON_SECRET to prevent unauthorized access.
+//
+// Compares each connected charter account's Stripe transfers and reversals
+// against the split ledger and records mismatches for review on the
+// dues-sharing audit page.
+
+function verifySecret(provided: string, expected: string): boolean {
+  try {
+    const a = Buffer.from(provided);
+    const b = Buffer.from(expected);
+    if (a.length !== b.length) return false;
+    return timingSafeEqual(a, b);
+  } catch {
+    return false;
+  }
+}
+
+export async function GET(req: Request) {
+  const authHeader = req.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    logger.error('CRON_SECRET not configured');
+    return apiError('Server configuration error', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+
+  const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : '';
+  if (!verifySecret(token, cronSecret)) {
+    return apiError('Unauthorized', ApiErrorCode.UNAUTHORIZED, 401);
+  }
+
+  const now = new Date();
+
+  let results;
+  try {
+    results = await runReconciliation(now);
+  } catch (err) {
+    logger.error('Dues reconciliation cron failed:', err);
+    return apiError('Failed to run reconciliation', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+
+  logger.info(
+    `Dues reconciliation cron completed: ${results.accountsChecked} accounts checked, ` +
+    `${results.issuesOpened} new issues, ${results.issuesStillOpen} still open, ${results.issuesCleared} cleared` +
+    (results.errors.length > 0 ? ` | ${results.errors.length} errors` : '')
+  );
+
+  if (results.errors.length > 0) {
+    logger.error('Dues reconciliation cron errors:', results.errors);
+  }
+
+  return NextResponse.json({
+    success: results.errors.length === 0,
+    ...results,
+    timestamp: now.toISOString(),
+  }, { status: results.errors.length > 0 ? 500 : 200 });
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { runRosterSync } from '@/lib/scorecard/roster-sync';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode } from '@/lib/api/errors';
+
+// Vercel Cron calls this endpoint daily, ahead of the scorecard vote import.
+// Protected by CRON_SECRET to prevent unauthorized access.
+//
+// Pulls the LegiScan people list for every active scorecard session, upserts
+// legislators by LegiScan ID and flags retired or unmatched legislators for
+// review on the admin scorecards page.
+
+function verifySecret(provided: string, expected: string): boolean {
+  try {
+    const a = Buffer.from(provided);
+    const b = Buffer.from(expected);
+    if (a.length !== b.length) return false;
+    return timingSafeEqual(a, b);
+  } catch {
+    return false;
+  }
+}
+
+export async function GET(req: Request) {
+  const authHeader = req.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    logger.error('CRON_SECRET not configured');
+    return apiError('Server configuration error', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+
+  const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : '';
+  if (!verifySecret(token, cronSecret)) {
+    return apiError('Unauthorized', ApiErrorCode.UNAUTHORIZED, 401);
+  }
+
+  const now = new Date();
+
+  let results;
+  try {
+    results = await runRosterSync(now);
+  } catch (err) {
+    logger.error('Legislator roster cron failed:', err);
+    return apiError('Failed to sync legislator rosters', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+
+  logger.info(
+    `Legislator roster cron completed: ${results.sessionsProcessed} sessions, ` +
+    `${results.created} created, ${results.updated} updated (${results.linked} linked), ` +
+    `${results.changesRecorded} roster changes, ${results.flagged.length} flagged for review` +
+    (results.errors.length > 0 ? ` | ${results.errors.length} errors` : '')
+  );
+
+  if (results.errors.length > 0) {
+    logger.error('Legislator roster cron errors:', results.errors);
+  }
+
+  return NextResponse.json({
+    success: results.errors.length === 0,
+    ...results,
+    timestamp: now.toISOString(),
+  }, { status: results.errors.length > 0 ? 500 : 200 });
+}
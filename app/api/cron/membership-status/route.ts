@@ -13,10 +13,20 @@ import { apiError, ApiErrorCode } from '@/lib/api/errors';
 //   current → expiring     (30 days before expiry)
 //   expiring → grace       (after expiry date)
 //   grace → expired        (30 days after expiry — configurable)
+//
+// Members whose renewal charge failed are moved to grace by the Stripe
+// webhook with reason `payment_failed` while Stripe retries (lib/stripe/dunning.ts).
+// This cron leaves them alone unless recovery has run far past the grace
+// period, which means the final failure webhook never arrived.
+//
+// Lifetime memberships never expire. They are excluded from the expiry
+// transitions, and any lifetime member found in a lapsed status (e.g. an
+// imported CiviCRM row that carried an end date) is restored to current.
 
 const GRACE_PERIOD_DAYS = 30;
 const NEW_MEMBER_DAYS = 90;
 const EXPIRING_WARNING_DAYS = 30;
+const DUNNING_BACKSTOP_DAYS = 60;
 
 function verifySecret(provided: string, expected: string): boolean {
   try {
@@ -51,6 +61,8 @@ export async function GET(req: Request) {
     currentToExpiring: 0,
     expiringToGrace: 0,
     graceToExpired: 0,
+    dunningExpired: 0,
+    lifetimeRestored: 0,
     errors: [] as string[],
   };
 
@@ -88,6 +100,7 @@ export async function GET(req: Request) {
       .lte('membership_expiry_date', warningDate.toISOString())
       .gt('membership_expiry_date', now.toISOString())
       .not('membership_expiry_date', 'is', null)
+      .neq('membership_term', 'lifetime')
       .select('id');
 
     if (error) {
@@ -103,10 +116,11 @@ export async function GET(req: Request) {
   try {
     const { data, error } = await supabase
       .from('rlc_contacts')
-      .update({ membership_status: 'grace' as MembershipStatus } as never)
+      .update({ membership_status: 'grace' as MembershipStatus, membership_status_reason: 'term_ended' } as never)
       .eq('membership_status', 'expiring')
       .lte('membership_expiry_date', now.toISOString())
       .not('membership_expiry_date', 'is', null)
+      .neq('membership_term', 'lifetime')
       .select('id');
 
     if (error) {
@@ -118,7 +132,7 @@ export async function GET(req: Request) {
     results.errors.push(`expiring→grace: ${err}`);
   }
 
-  // 4. grace → expired (past expiry + grace period)
+  // 4. grace → expired (past expiry + grace period), except members in payment recovery
   try {
     const graceExpiry = new Date(now);
     graceExpiry.setDate(graceExpiry.getDate() - GRACE_PERIOD_DAYS);
@@ -129,6 +143,8 @@ export async function GET(req: Request) {
       .eq('membership_status', 'grace')
       .lte('membership_expiry_date', graceExpiry.toISOString())
       .not('membership_expiry_date', 'is', null)
+      .neq('membership_term', 'lifetime')
+      .or('membership_status_reason.is.null,membership_status_reason.neq.payment_failed')
       .select('id');
 
     if (error) {
@@ -140,16 +156,65 @@ export async function GET(req: Request) {
     results.errors.push(`grace→expired: ${err}`);
   }
 
+  // 4b. payment recovery backstop (dunning never concluded)
+  try {
+    const backstop = new Date(now);
+    backstop.setDate(backstop.getDate() - GRACE_PERIOD_DAYS - DUNNING_BACKSTOP_DAYS);
+
+    const { data, error } = await supabase
+      .from('rlc_contacts')
+      .update({ membership_status: 'expired' as MembershipStatus, membership_status_reason: 'payment_abandoned' } as never)
+      .eq('membership_status', 'grace')
+      .eq('membership_status_reason', 'payment_failed')
+      .lte('membership_expiry_date', backstop.toISOString())
+      .not('membership_expiry_date', 'is', null)
+      .select('id');
+
+    if (error) {
+      results.errors.push(`dunning→expired: ${error.message}`);
+    } else {
+      results.dunningExpired = data?.length || 0;
+    }
+  } catch (err) {
+    results.errors.push(`dunning→expired: ${err}`);
+  }
+
+  // 5. lifetime members never lapse
+  try {
+    const { data, error } = await supabase
+      .from('rlc_contacts')
+      .update({
+        membership_status: 'current' as MembershipStatus,
+        membership_status_reason: null,
+        membership_expiry_date: null,
+      } as never)
+      .eq('membership_term', 'lifetime')
+      .in('membership_status', ['expiring', 'grace', 'expired'])
+      .select('id');
+
+    if (error) {
+      results.errors.push(`lifetime→current: ${error.message}`);
+    } else {
+      results.lifetimeRestored = data?.length || 0;
+    }
+  } catch (err) {
+    results.errors.push(`lifetime→current: ${err}`);
+  }
+
   const totalTransitions =
     results.newToCurrent +
     results.currentToExpiring +
     results.expiringToGrace +
-    results.graceToExpired;
+    results.graceToExpired +
+    results.dunningExpired +
+    results.lifetimeRestored;
 
   logger.info(
     `Membership status cron completed: ${totalTransitions} transitions ` +
     `(new→current: ${results.newToCurrent}, current→expiring: ${results.currentToExpiring}, ` +
-    `expiring→grace: ${results.expiringToGrace}, grace→expired: ${results.graceToExpired})` +
+    `expiring→grace: ${results.expiringToGrace}, grace→expired: ${results.graceToExpired}, ` +
+    `dunning→expired: ${results.dunningExpired}, ` +
+    `lifetime→current: ${results.lifetimeRestored})` +
     (results.errors.length > 0 ? ` | ${results.errors.length} errors` : '')
   );
 
@@ -163,6 +228,8 @@ export async function GET(req: Request) {
         currentToExpiring: results.currentToExpiring,
         expiringToGrace: results.expiringToGrace,
         graceToExpired: results.graceToExpired,
+        dunningExpired: results.dunningExpired,
+        lifetimeRestored: results.lifetimeRestored,
         errorCount: results.errors.length,
       },
       timestamp: now.toISOString(),
@@ -177,6 +244,7 @@ export async function GET(req: Request) {
       currentToExpiring: results.currentToExpiring,
       expiringToGrace: results.expiringToGrace,
       graceToExpired: results.graceToExpired,
+      lifetimeRestored: results.lifetimeRestored,
     },
     timestamp: now.toISOString(),
   });
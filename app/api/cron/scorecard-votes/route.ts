@@ -3,6 +3,8 @@ import { createServerClient } from '@/lib/supabase/server';
 import { timingSafeEqual } from 'crypto';
 import { getRollCall } from '@/lib/legiscan/client';
 import { computeScoresForSession } from '@/lib/scorecard/compute-scores';
+import { reconcileBillWhipEntries } from '@/lib/campaigns/whip-tracker';
+import { discoverRollCalls, type DiscoveryBill, type DiscoverySession } from '@/lib/scorecard/roll-call-discovery';
 import type { LegislativeChamber, VoteChoice } from '@/types';
 import crypto from 'crypto';
 import { logger } from '@/lib/logger';
@@ -54,15 +56,18 @@ export async function GET(req: Request) {
   const supabase = createServerClient();
   const results = {
     sessionsProcessed: 0,
+    rollCallsDiscovered: 0,
+    floorVoteNotices: 0,
     votesImported: 0,
     scoresUpdated: 0,
+    whipEntriesReconciled: 0,
     errors: [] as string[],
   };
 
   // Get all active scorecard sessions
   const { data: sessionsData, error: sessionsError } = await supabase
     .from('rlc_scorecard_sessions')
-    .select('id, jurisdiction, state_code')
+    .select('id, name, jurisdiction, state_code, created_by')
     .eq('status', 'active');
 
   if (sessionsError) {
@@ -70,12 +75,34 @@ export async function GET(req: Request) {
     return apiError('Failed to fetch sessions', ApiErrorCode.INTERNAL_ERROR, 500);
   }
 
-  const sessions = (sessionsData || []) as { id: string; jurisdiction: string; state_code: string | null }[];
+  const sessions = (sessionsData || []) as (DiscoverySession & { state_code: string | null })[];
 
   for (const session of sessions) {
     try {
       const stateCode = session.jurisdiction === 'federal' ? 'US' : (session.state_code || 'US');
 
+      // Discover new roll calls on every tracking bill linked to LegiScan
+      const { data: trackedData, error: trackedError } = await supabase
+        .from('rlc_scorecard_bills')
+        .select('id, bill_number, title, legiscan_bill_id, legiscan_roll_call_id')
+        .eq('session_id', session.id)
+        .eq('bill_status', 'tracking')
+        .not('legiscan_bill_id', 'is', null);
+
+      if (trackedError) {
+        results.errors.push(`Session ${session.id} tracked bills query: ${trackedError.message}`);
+      }
+
+      for (const tracked of (trackedData || []) as DiscoveryBill[]) {
+        try {
+          const discovery = await discoverRollCalls(supabase, session, tracked);
+          results.rollCallsDiscovered += discovery.discovered;
+          if (discovery.notified) results.floorVoteNotices++;
+        } catch (err) {
+          results.errors.push(`Bill ${tracked.id} roll-call discovery: ${err}`);
+        }
+      }
+
       // Get tracking bills with roll call IDs
       const { data: billsData, error: billsError } = await supabase
         .from('rlc_scorecard_bills')
@@ -180,6 +207,14 @@ export async function GET(req: Request) {
           if (statusError) {
             results.errors.push(`Bill ${bill.id} status update: ${statusError.message}`);
           }
+
+          // Settle campaign whip trackers on this bill against the roll call
+          try {
+            const whip = await reconcileBillWhipEntries(supabase, bill.id);
+            results.whipEntriesReconciled += whip.reconciled;
+          } catch (err) {
+            results.errors.push(`Bill ${bill.id} whip reconciliation: ${err}`);
+          }
         } catch (err) {
           results.errors.push(`Bill ${bill.id}: ${err}`);
         }
@@ -196,7 +231,9 @@ export async function GET(req: Request) {
 
   logger.info(
     `Scorecard cron completed: ${results.sessionsProcessed} sessions, ` +
-    `${results.votesImported} votes imported, ${results.scoresUpdated} scores updated` +
+    `${results.rollCallsDiscovered} roll calls discovered (${results.floorVoteNotices} floor vote notices), ` +
+    `${results.votesImported} votes imported, ${results.scoresUpdated} scores updated, ` +
+    `${results.whipEntriesReconciled} whip entries reconciled` +
     (results.errors.length > 0 ? ` | ${results.errors.length} errors` : '')
   );
 
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { releaseScheduledEntries, runTransferRetries } from '@/lib/dues-sharing/transfer-retry';
+import { createServerClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode } from '@/lib/api/errors';
+
+// Vercel Cron calls this endpoint hourly.
+// Protected by CRON_SECRET to prevent unauthorized access.
+//
+// Retries failed per-payment charter transfers whose exponential backoff has
+// elapsed, and parks entries for charters whose Stripe account cannot receive
+// payouts until an account.updated webhook releases them. Amortized charter
+// shares of multi-year memberships whose release date has arrived are moved
+// to pending first, so they go out in the same run.
+
+function verifySecret(provided: string, expected: string): boolean {
+  try {
+    const a = Buffer.from(provided);
+    const b = Buffer.from(expected);
+    if (a.length !== b.length) return false;
+    return timingSafeEqual(a, b);
+  } catch {
+    return false;
+  }
+}
+
+export async function GET(req: Request) {
+  const authHeader = req.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    logger.error('CRON_SECRET not configured');
+    return apiError('Server configuration error', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+
+  const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : '';
+  if (!verifySecret(token, cronSecret)) {
+    return apiError('Unauthorized', ApiErrorCode.UNAUTHORIZED, 401);
+  }
+
+  const now = new Date();
+
+  let scheduledReleased;
+  let results;
+  try {
+    scheduledReleased = await releaseScheduledEntries(createServerClient(), now);
+    results = await runTransferRetries(now);
+  } catch (err) {
+    logger.error('Transfer retry cron failed:', err);
+    return apiError('Failed to run transfer retries', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+
+  logger.info(
+    `Transfer retry cron completed: ${scheduledReleased} scheduled entries released, ` +
+    `${results.entriesDue} entries due, ` +
+    `${results.succeeded} succeeded, ${results.failed} failed, ${results.parked} parked, ` +
+    `${results.handedToPayoutBatch} handed to payout batches` +
+    (results.errors.length > 0 ? ` | ${results.errors.length} errors` : '')
+  );
+
+  if (results.errors.length > 0) {
+    logger.error('Transfer retry cron errors:', results.errors);
+  }
+
+  return NextResponse.json({
+    success: results.errors.length === 0,
+    scheduledReleased,
+    ...results,
+    timestamp: now.toISOString(),
+  }, { status: results.errors.length > 0 ? 500 : 200 });
+}
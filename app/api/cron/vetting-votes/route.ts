@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { finalizeClosedBoardVotes } from '@/lib/vetting/board-vote';
+import { createServerClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode } from '@/lib/api/errors';
+
+// Vercel Cron calls this endpoint hourly.
+// Protected by CRON_SECRET to prevent unauthorized access.
+//
+// Finalizes candidate vetting board votes whose voting window has closed,
+// under the vote rule stamped on each vetting. A vote that closed without
+// quorum (or without a single non-abstain ballot) is left unfinalized and
+// reported every run until a national admin extends the voting window.
+
+function verifySecret(provided: string, expected: string): boolean {
+  try {
+    const a = Buffer.from(provided);
+    const b = Buffer.from(expected);
+    if (a.length !== b.length) return false;
+    return timingSafeEqual(a, b);
+  } catch {
+    return false;
+  }
+}
+
+export async function GET(req: Request) {
+  const authHeader = req.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    logger.error('CRON_SECRET not configured');
+    return apiError('Server configuration error', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+
+  const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : '';
+  if (!verifySecret(token, cronSecret)) {
+    return apiError('Unauthorized', ApiErrorCode.UNAUTHORIZED, 401);
+  }
+
+  const now = new Date();
+
+  let results;
+  try {
+    results = await finalizeClosedBoardVotes(createServerClient(), now);
+  } catch (err) {
+    logger.error('Vetting vote cron failed:', err);
+    return apiError('Failed to finalize board votes', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+
+  logger.info(
+    `Vetting vote cron completed: ${results.votesDue} closed votes, ` +
+    `${results.finalized} finalized, ${results.heldOpen} held open` +
+    (results.errors.length > 0 ? ` | ${results.errors.length} errors` : '')
+  );
+
+  if (results.errors.length > 0) {
+    logger.error('Vetting vote cron errors:', results.errors);
+  }
+
+  return NextResponse.json({
+    success: results.errors.length === 0,
+    ...results,
+    timestamp: now.toISOString(),
+  }, { status: results.errors.length > 0 ? 500 : 200 });
+}
@@ -31,7 +31,7 @@ export async function GET(
   if (include === 'participations') {
     const { data: participations } = await supabase
       .from('rlc_campaign_participations')
-      .select('id, action, legislator_id, created_at, contact_id')
+      .select('id, action, legislator_id, created_at, contact_id, delivery_status, delivery_transport, delivery_error')
       .eq('campaign_id', id)
       .order('created_at', { ascending: false })
       .limit(100);
@@ -51,11 +51,23 @@ export async function GET(
       );
     }
 
-    response.participations = (participations || []).map((p: { id: string; action: string; legislator_id: string | null; created_at: string; contact_id: string }) => ({
+    response.participations = (participations || []).map((p: {
+      id: string;
+      action: string;
+      legislator_id: string | null;
+      created_at: string;
+      contact_id: string;
+      delivery_status: string | null;
+      delivery_transport: string | null;
+      delivery_error: string | null;
+    }) => ({
       id: p.id,
       action: p.action,
       legislator_id: p.legislator_id,
       created_at: p.created_at,
+      delivery_status: p.delivery_status,
+      delivery_transport: p.delivery_transport,
+      delivery_error: p.delivery_error,
       member: membersMap[p.contact_id] || null,
     }));
   }
@@ -95,6 +107,10 @@ export async function PATCH(
   if (input.targetChamber !== undefined) updateFields.target_chamber = input.targetChamber;
   if (input.targetStateCode !== undefined) updateFields.target_state_code = input.targetStateCode;
   if (input.messageTemplate !== undefined) updateFields.message_template = input.messageTemplate;
+  if (input.aiVariation !== undefined) updateFields.ai_variation = input.aiVariation;
+  if (input.talkingPoints !== undefined) updateFields.talking_points = input.talkingPoints;
+  if (input.actionType !== undefined) updateFields.action_type = input.actionType;
+  if (input.callScript !== undefined) updateFields.call_script = input.callScript;
   if (input.status !== undefined) updateFields.status = input.status;
   if (input.startsAt !== undefined) updateFields.starts_at = input.startsAt;
   if (input.endsAt !== undefined) updateFields.ends_at = input.endsAt;
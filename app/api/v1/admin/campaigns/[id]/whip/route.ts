@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { whipEntryUpdateSchema } from '@/lib/validations/campaign';
+import { logger } from '@/lib/logger';
+import { requireAdminApi } from '@/lib/admin/route-helpers';
+import { apiError, ApiErrorCode, validationError } from '@/lib/api/errors';
+import type { ActionCampaign } from '@/types';
+
+// PUT /api/v1/admin/campaigns/[id]/whip — record an admin's read on where a legislator stands
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const result = await requireAdminApi();
+  if (result.error) return result.error;
+  const { ctx, supabase } = result;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiError('Invalid JSON', ApiErrorCode.INVALID_JSON, 400);
+  }
+
+  const parseResult = whipEntryUpdateSchema.safeParse(body);
+  if (!parseResult.success) {
+    return validationError(parseResult.error);
+  }
+
+  const input = parseResult.data;
+  const { id } = await params;
+
+  const { data: campaignData, error: campaignError } = await supabase
+    .from('rlc_action_campaigns')
+    .select('id, bill_id')
+    .eq('id', id)
+    .single();
+
+  if (campaignError || !campaignData) {
+    return apiError('Campaign not found', ApiErrorCode.NOT_FOUND, 404);
+  }
+  if (!(campaignData as Pick<ActionCampaign, 'id' | 'bill_id'>).bill_id) {
+    return apiError('Campaign is not tied to a bill', ApiErrorCode.VALIDATION_ERROR, 400);
+  }
+
+  const { data, error } = await supabase
+    .from('rlc_campaign_whip_entries')
+    .upsert({
+      campaign_id: id,
+      legislator_id: input.legislatorId,
+      status: input.status,
+      source: 'admin',
+      notes: input.notes?.trim() || null,
+      updated_by: ctx.member.id,
+      updated_at: new Date().toISOString(),
+    } as never, { onConflict: 'campaign_id,legislator_id' })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23503') {
+      return apiError('Legislator not found', ApiErrorCode.NOT_FOUND, 404);
+    }
+    logger.error(`Error saving whip entry for campaign ${id}:`, error);
+    return apiError('Failed to save whip entry', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+
+  return NextResponse.json({ entry: data });
+}
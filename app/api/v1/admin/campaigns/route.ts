@@ -66,6 +66,10 @@ export async function POST(request: Request) {
       target_chamber: input.targetChamber || null,
       target_state_code: input.targetStateCode || null,
       message_template: input.messageTemplate || null,
+      ai_variation: input.aiVariation ?? false,
+      talking_points: input.talkingPoints ?? [],
+      action_type: input.actionType || 'email',
+      call_script: input.callScript || null,
       status: 'draft',
       created_by: ctx.member.id,
       starts_at: input.startsAt || null,
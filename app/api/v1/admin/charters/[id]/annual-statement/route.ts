@@ -0,0 +1,115 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdminApi } from '@/lib/admin/route-helpers';
+import { apiError, ApiErrorCode, validationError } from '@/lib/api/errors';
+import { logger } from '@/lib/logger';
+import {
+  annualStatementFilename,
+  annualStatementToCsv,
+  emailAnnualStatement,
+  fetchAnnualStatement,
+  renderAnnualStatementPdf,
+} from '@/lib/dues-sharing/annual-statement';
+
+const FIRST_STATEMENT_YEAR = 2020;
+
+function yearSchema() {
+  return z.coerce.number().int().min(FIRST_STATEMENT_YEAR).max(new Date().getUTCFullYear());
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const result = await requireAdminApi();
+  if (result.error) return result.error;
+  const { ctx, supabase } = result;
+
+  const { id: charterId } = await params;
+
+  if (ctx.visibleCharterIds !== null && !ctx.visibleCharterIds.includes(charterId)) {
+    return apiError('Forbidden', ApiErrorCode.FORBIDDEN, 403);
+  }
+
+  const { searchParams } = new URL(request.url);
+  const parsedYear = yearSchema().safeParse(searchParams.get('year') ?? new Date().getUTCFullYear() - 1);
+  if (!parsedYear.success) {
+    return validationError(parsedYear.error);
+  }
+  const format = searchParams.get('format') || 'json';
+  if (!['json', 'csv', 'pdf'].includes(format)) {
+    return apiError('Invalid format. Use json, csv or pdf', ApiErrorCode.VALIDATION_ERROR, 400);
+  }
+
+  let statement;
+  try {
+    statement = await fetchAnnualStatement(supabase, charterId, parsedYear.data);
+  } catch (err) {
+    logger.error(`Failed to build annual statement for charter ${charterId}:`, err);
+    return apiError('Failed to build statement', ApiErrorCode.DATABASE_ERROR, 500);
+  }
+  if (!statement) {
+    return apiError('Charter not found', ApiErrorCode.NOT_FOUND, 404);
+  }
+
+  if (format === 'csv') {
+    return new Response(annualStatementToCsv(statement), {
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="${annualStatementFilename(statement, 'csv')}"`,
+      },
+    });
+  }
+
+  if (format === 'pdf') {
+    const pdf = await renderAnnualStatementPdf(statement);
+    return new Response(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${annualStatementFilename(statement, 'pdf')}"`,
+      },
+    });
+  }
+
+  return NextResponse.json({ statement });
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const result = await requireAdminApi();
+  if (result.error) return result.error;
+  const { ctx } = result;
+
+  const { id: charterId } = await params;
+
+  if (ctx.visibleCharterIds !== null && !ctx.visibleCharterIds.includes(charterId)) {
+    return apiError('Forbidden', ApiErrorCode.FORBIDDEN, 403);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiError('Invalid JSON', ApiErrorCode.INVALID_JSON, 400);
+  }
+
+  const parsed = z.object({ year: yearSchema() }).safeParse(body);
+  if (!parsed.success) {
+    return validationError(parsed.error);
+  }
+
+  try {
+    const outcome = await emailAnnualStatement({ charterId, year: parsed.data.year });
+    if (!outcome.success) {
+      return outcome.reason === 'not_found'
+        ? apiError(outcome.error, ApiErrorCode.NOT_FOUND, 404)
+        : apiError(outcome.error, ApiErrorCode.CONFLICT, 409);
+    }
+    return NextResponse.json({ recipients: outcome.recipients });
+  } catch (err) {
+    logger.error(`Failed to email annual statement for charter ${charterId}:`, err);
+    return apiError('Failed to email statement', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+}
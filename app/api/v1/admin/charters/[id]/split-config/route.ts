@@ -22,7 +22,7 @@ export async function GET(
   // Get config
   const { data: config } = await supabase
     .from('rlc_charter_split_configs')
-    .select('id, disbursement_model, is_active, updated_by_id, created_at, updated_at')
+    .select('id, disbursement_model, is_active, payout_cadence, minimum_payout, term_allocation, last_payout_at, updated_by_id, created_at, updated_at')
     .eq('charter_id', charterId)
     .single();
 
@@ -33,7 +33,18 @@ export async function GET(
     });
   }
 
-  const configRow = config as { id: string; disbursement_model: string; is_active: boolean; updated_by_id: string | null; created_at: string; updated_at: string };
+  const configRow = config as {
+    id: string;
+    disbursement_model: string;
+    is_active: boolean;
+    payout_cadence: string;
+    minimum_payout: number;
+    term_allocation: string;
+    last_payout_at: string | null;
+    updated_by_id: string | null;
+    created_at: string;
+    updated_at: string;
+  };
 
   // Get rules
   const { data: rules } = await supabase
@@ -103,15 +114,20 @@ export async function PUT(
 
   const input = parseResult.data;
 
+  const updates: Record<string, unknown> = {
+    charter_id: charterId,
+    disbursement_model: input.disbursementModel,
+    is_active: input.isActive,
+    updated_by_id: ctx.member.id,
+  };
+  if (input.payoutCadence !== undefined) updates.payout_cadence = input.payoutCadence;
+  if (input.minimumPayout !== undefined) updates.minimum_payout = input.minimumPayout;
+  if (input.termAllocation !== undefined) updates.term_allocation = input.termAllocation;
+
   // Upsert config
   const { data: config, error: configError } = await supabase
     .from('rlc_charter_split_configs')
-    .upsert({
-      charter_id: charterId,
-      disbursement_model: input.disbursementModel,
-      is_active: input.isActive,
-      updated_by_id: ctx.member.id,
-    } as never, { onConflict: 'charter_id' })
+    .upsert(updates as never, { onConflict: 'charter_id' })
     .select('id')
     .single();
 
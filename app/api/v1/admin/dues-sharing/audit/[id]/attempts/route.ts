@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { requireAdminApi } from '@/lib/admin/route-helpers';
+import { apiError, ApiErrorCode } from '@/lib/api/errors';
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const result = await requireAdminApi();
+  if (result.error) return result.error;
+  const { ctx, supabase } = result;
+
+  const { id } = await params;
+
+  const { data: entry, error: entryError } = await supabase
+    .from('rlc_split_ledger_entries')
+    .select('id, recipient_charter_id, retry_count, next_retry_at, parked_at')
+    .eq('id', id)
+    .single();
+
+  if (entryError) {
+    if (entryError.code === 'PGRST116') {
+      return apiError('Ledger entry not found', ApiErrorCode.NOT_FOUND, 404);
+    }
+    return apiError('Failed to fetch ledger entry', ApiErrorCode.DATABASE_ERROR, 500);
+  }
+
+  const row = entry as {
+    id: string;
+    recipient_charter_id: string;
+    retry_count: number;
+    next_retry_at: string | null;
+    parked_at: string | null;
+  };
+
+  if (ctx.visibleCharterIds !== null && !ctx.visibleCharterIds.includes(row.recipient_charter_id)) {
+    return apiError('Forbidden', ApiErrorCode.FORBIDDEN, 403);
+  }
+
+  const { data: attempts, error: attemptsError } = await supabase
+    .from('rlc_transfer_attempts')
+    .select('*')
+    .eq('ledger_entry_id', id)
+    .order('attempted_at', { ascending: false });
+
+  if (attemptsError) {
+    return apiError('Failed to fetch transfer attempts', ApiErrorCode.DATABASE_ERROR, 500);
+  }
+
+  return NextResponse.json({
+    retryCount: row.retry_count,
+    nextRetryAt: row.next_retry_at,
+    parkedAt: row.parked_at,
+    attempts: attempts || [],
+  });
+}
@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server';
+import { requireAdminApi } from '@/lib/admin/route-helpers';
+import { apiError, ApiErrorCode, validationError } from '@/lib/api/errors';
+import { nationalFeeScheduleCreateSchema } from '@/lib/validations/fee-schedule';
+import { logger } from '@/lib/logger';
+
+export async function GET() {
+  const result = await requireAdminApi();
+  if (result.error) return result.error;
+  const { supabase } = result;
+
+  const { data: schedules, error } = await supabase
+    .from('rlc_national_fee_schedules')
+    .select('id, source_type, membership_tier, fee_type, flat_amount, percentage, effective_from, notes, created_by_id, created_at')
+    .order('effective_from', { ascending: false });
+
+  if (error) {
+    logger.error('Failed to load national fee schedules:', error);
+    return apiError('Failed to load fee schedule', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+
+  const rows = (schedules || []) as { created_by_id: string | null }[];
+
+  // Resolve creator names
+  const creatorIds = [...new Set(rows.map((r) => r.created_by_id).filter(Boolean))] as string[];
+  const creatorMap = new Map<string, string>();
+  if (creatorIds.length > 0) {
+    const { data: creators } = await supabase
+      .from('rlc_contacts')
+      .select('id, first_name, last_name')
+      .in('id', creatorIds);
+    for (const c of (creators || []) as { id: string; first_name: string; last_name: string }[]) {
+      creatorMap.set(c.id, `${c.first_name} ${c.last_name}`);
+    }
+  }
+
+  return NextResponse.json({
+    schedules: rows.map((r) => ({
+      ...r,
+      created_by_name: r.created_by_id ? creatorMap.get(r.created_by_id) || null : null,
+    })),
+  });
+}
+
+export async function POST(request: Request) {
+  const result = await requireAdminApi();
+  if (result.error) return result.error;
+  const { ctx, supabase } = result;
+
+  if (!ctx.isNational) {
+    return apiError('Forbidden: national admin required', ApiErrorCode.FORBIDDEN, 403);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiError('Invalid JSON', ApiErrorCode.INVALID_JSON, 400);
+  }
+
+  const parseResult = nationalFeeScheduleCreateSchema.safeParse(body);
+  if (!parseResult.success) {
+    return validationError(parseResult.error);
+  }
+
+  const input = parseResult.data;
+
+  // Schedule rows are append-only history; only today or later can be scheduled
+  const startOfToday = new Date();
+  startOfToday.setUTCHours(0, 0, 0, 0);
+  if (new Date(input.effectiveFrom) < startOfToday) {
+    return apiError('Effective date cannot be in the past', ApiErrorCode.VALIDATION_ERROR, 400);
+  }
+
+  const { data: schedule, error } = await supabase
+    .from('rlc_national_fee_schedules')
+    .insert({
+      source_type: input.sourceType,
+      membership_tier: input.membershipTier,
+      fee_type: input.feeType,
+      flat_amount: input.feeType === 'flat' ? input.flatAmount : null,
+      percentage: input.feeType === 'percentage' ? input.percentage : null,
+      effective_from: input.effectiveFrom,
+      notes: input.notes || null,
+      created_by_id: ctx.member.id,
+    } as never)
+    .select('id')
+    .single();
+
+  if (error || !schedule) {
+    logger.error('Failed to create national fee schedule:', error);
+    return apiError('Failed to save fee schedule', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+
+  logger.info(
+    `National fee schedule ${(schedule as { id: string }).id} created by ${ctx.member.id} ` +
+    `(${input.sourceType}/${input.membershipTier || 'all tiers'}, effective ${input.effectiveFrom})`
+  );
+
+  return NextResponse.json({ success: true, id: (schedule as { id: string }).id }, { status: 201 });
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdminApi } from '@/lib/admin/route-helpers';
+import { apiError, ApiErrorCode, validationError } from '@/lib/api/errors';
+import { repairReconciliationIssue } from '@/lib/dues-sharing/reconciliation';
+
+const repairSchema = z.object({
+  action: z.enum(['requeue', 'record_reversal', 'reverse_transfer', 'link_transfer', 'dismiss']),
+});
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const result = await requireAdminApi();
+  if (result.error) return result.error;
+  const { ctx } = result;
+
+  // Repairs move money or rewrite ledger history — national only
+  if (!ctx.isNational) {
+    return apiError('Forbidden: national admin required', ApiErrorCode.FORBIDDEN, 403);
+  }
+
+  const { id } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiError('Invalid JSON', ApiErrorCode.INVALID_JSON, 400);
+  }
+
+  const parseResult = repairSchema.safeParse(body);
+  if (!parseResult.success) {
+    return validationError(parseResult.error);
+  }
+
+  const outcome = await repairReconciliationIssue({
+    issueId: id,
+    action: parseResult.data.action,
+    actorId: ctx.member.id,
+  });
+
+  if (!outcome.success) {
+    if (outcome.reason === 'not_found') return apiError(outcome.error, ApiErrorCode.NOT_FOUND, 404);
+    if (outcome.reason === 'conflict') return apiError(outcome.error, ApiErrorCode.CONFLICT, 409);
+    return apiError(outcome.error, ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+
+  return NextResponse.json(outcome);
+}
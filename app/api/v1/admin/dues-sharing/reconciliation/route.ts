@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { requireAdminApi } from '@/lib/admin/route-helpers';
+import { apiError, ApiErrorCode } from '@/lib/api/errors';
+import { getRepairActions, runReconciliation } from '@/lib/dues-sharing/reconciliation';
+import { logger } from '@/lib/logger';
+import type { LedgerReconciliationIssue } from '@/types';
+
+export async function GET(request: Request) {
+  const result = await requireAdminApi();
+  if (result.error) return result.error;
+  const { ctx, supabase } = result;
+
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get('status') || 'open';
+
+  let query = supabase
+    .from('rlc_ledger_reconciliation_issues')
+    .select('*')
+    .order('detected_at', { ascending: false })
+    .limit(200);
+
+  if (status !== 'all') {
+    query = query.eq('status', status);
+  }
+
+  if (ctx.visibleCharterIds !== null) {
+    query = query.in('charter_id', ctx.visibleCharterIds);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    return apiError('Failed to fetch reconciliation issues', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+
+  const issues = (data || []) as LedgerReconciliationIssue[];
+
+  // Enrich with charter names
+  const charterIds = [...new Set(issues.map((i) => i.charter_id))];
+  let charterNameMap = new Map<string, string>();
+  if (charterIds.length > 0) {
+    const { data: charters } = await supabase
+      .from('rlc_charters')
+      .select('id, name')
+      .in('id', charterIds);
+
+    charterNameMap = new Map((charters || []).map((c: { id: string; name: string }) => [c.id, c.name]));
+  }
+
+  return NextResponse.json({
+    issues: issues.map((i) => ({
+      ...i,
+      charter_name: charterNameMap.get(i.charter_id) || 'Unknown',
+      actions: i.status === 'open' ? getRepairActions(i) : [],
+    })),
+    canRepair: ctx.isNational,
+  });
+}
+
+/** Run reconciliation now instead of waiting for the daily cron. */
+export async function POST() {
+  const result = await requireAdminApi();
+  if (result.error) return result.error;
+  const { ctx } = result;
+
+  if (!ctx.isNational) {
+    return apiError('Forbidden: national admin required', ApiErrorCode.FORBIDDEN, 403);
+  }
+
+  try {
+    const results = await runReconciliation();
+    return NextResponse.json({ success: results.errors.length === 0, ...results });
+  } catch (err) {
+    logger.error('Manual dues reconciliation failed:', err);
+    return apiError('Failed to run reconciliation', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+}
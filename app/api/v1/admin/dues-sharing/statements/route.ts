@@ -15,7 +15,12 @@ export async function GET(request: Request) {
 
   let query = supabase
     .from('rlc_split_ledger_entries')
-    .select('id, contribution_id, source_type, recipient_charter_id, amount, currency, status, stripe_transfer_id, transferred_at, created_at')
+    .select('id, contribution_id, source_type, recipient_charter_id, amount, currency, status, stripe_transfer_id, payout_batch_id, transferred_at, created_at')
+    .order('created_at', { ascending: false });
+
+  let batchQuery = supabase
+    .from('rlc_payout_batches')
+    .select('id, recipient_charter_id, cadence, amount, currency, entry_count, status, stripe_transfer_id, stripe_transfer_group_id, transferred_at, error_message, created_at')
     .order('created_at', { ascending: false });
 
   // Charter filter
@@ -24,8 +29,10 @@ export async function GET(request: Request) {
       return apiError('Forbidden', ApiErrorCode.FORBIDDEN, 403);
     }
     query = query.eq('recipient_charter_id', charterId);
+    batchQuery = batchQuery.eq('recipient_charter_id', charterId);
   } else if (ctx.visibleCharterIds !== null) {
     query = query.in('recipient_charter_id', ctx.visibleCharterIds);
+    batchQuery = batchQuery.in('recipient_charter_id', ctx.visibleCharterIds);
   }
 
   // Month filter
@@ -37,6 +44,7 @@ export async function GET(request: Request) {
     const startDate = new Date(year, m - 1, 1).toISOString();
     const endDate = new Date(year, m, 1).toISOString();
     query = query.gte('created_at', startDate).lt('created_at', endDate);
+    batchQuery = batchQuery.gte('created_at', startDate).lt('created_at', endDate);
   }
 
   const { data: entries, error } = await query;
@@ -54,14 +62,15 @@ export async function GET(request: Request) {
     currency: string;
     status: string;
     stripe_transfer_id: string | null;
+    payout_batch_id: string | null;
     transferred_at: string | null;
     created_at: string;
   }[];
 
   if (format === 'csv') {
-    const header = '"ID","Contribution ID","Source Type","Recipient Charter","Amount","Currency","Status","Transfer ID","Transferred At","Created At"';
+    const header = '"ID","Contribution ID","Source Type","Recipient Charter","Amount","Currency","Status","Transfer ID","Payout Batch ID","Transferred At","Created At"';
     const csvRows = rows.map((r) =>
-      [r.id, r.contribution_id, r.source_type, r.recipient_charter_id, r.amount, r.currency, r.status, r.stripe_transfer_id || '', r.transferred_at || '', r.created_at]
+      [r.id, r.contribution_id, r.source_type, r.recipient_charter_id, r.amount, r.currency, r.status, r.stripe_transfer_id || '', r.payout_batch_id || '', r.transferred_at || '', r.created_at]
         .map(escapeCsvField)
         .join(',')
     );
@@ -74,6 +83,12 @@ export async function GET(request: Request) {
     });
   }
 
+  const { data: batches, error: batchError } = await batchQuery;
+
+  if (batchError) {
+    return apiError('Failed to fetch payout batches', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+
   // Calculate summary
   const summary = {
     totalTransferred: rows.filter((r) => r.status === 'transferred' && Number(r.amount) > 0).reduce((s, r) => s + Number(r.amount), 0),
@@ -82,5 +97,5 @@ export async function GET(request: Request) {
     entryCount: rows.length,
   };
 
-  return NextResponse.json({ entries: rows, summary });
+  return NextResponse.json({ entries: rows, batches: batches || [], summary });
 }
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { canViewMember } from '@/lib/admin/permissions';
+import { logger } from '@/lib/logger';
+import { requireAdminApi } from '@/lib/admin/route-helpers';
+import { apiError, ApiErrorCode, validationError } from '@/lib/api/errors';
+import { sendContributionReceipt, sendGivingStatement } from '@/lib/receipts/generator';
+
+const resendSchema = z.union([
+  z.object({ contributionId: z.string().min(1) }),
+  z.object({ year: z.coerce.number().int().min(2000).max(new Date().getUTCFullYear()) }),
+]);
+
+/** Re-send a contribution receipt or a yearly giving statement to the member. */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const result = await requireAdminApi();
+  if (result.error) return result.error;
+  const { ctx, supabase } = result;
+
+  const { id: memberId } = await params;
+
+  const { data: memberRaw, error: memberError } = await supabase
+    .from('rlc_contacts')
+    .select('id, primary_charter_id')
+    .eq('id', memberId)
+    .single();
+
+  if (memberError || !memberRaw) {
+    if (memberError && memberError.code !== 'PGRST116') {
+      logger.error('Error looking up member for receipts:', memberError);
+      return apiError('Failed to verify member', ApiErrorCode.INTERNAL_ERROR, 500);
+    }
+    return apiError('Member not found', ApiErrorCode.NOT_FOUND, 404);
+  }
+
+  const member = memberRaw as { id: string; primary_charter_id: string | null };
+
+  if (!canViewMember(ctx, member.primary_charter_id)) {
+    return apiError('Forbidden', ApiErrorCode.FORBIDDEN, 403);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiError('Invalid JSON', ApiErrorCode.INVALID_JSON, 400);
+  }
+
+  const parsed = resendSchema.safeParse(body);
+  if (!parsed.success) {
+    return validationError(parsed.error);
+  }
+
+  try {
+    const outcome = 'contributionId' in parsed.data
+      ? await sendContributionReceipt({ contactId: memberId, contributionId: parsed.data.contributionId })
+      : await sendGivingStatement({ contactId: memberId, year: parsed.data.year });
+
+    if (!outcome.success) {
+      return outcome.reason === 'not_found'
+        ? apiError(outcome.error, ApiErrorCode.NOT_FOUND, 404)
+        : apiError(outcome.error, ApiErrorCode.CONFLICT, 409);
+    }
+    return NextResponse.json({ sentTo: outcome.sentTo });
+  } catch (err) {
+    logger.error(`Failed to send receipt for member ${memberId}:`, err);
+    return apiError('Failed to send receipt', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+}
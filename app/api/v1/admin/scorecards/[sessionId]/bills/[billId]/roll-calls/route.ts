@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server';
+import { requireAdminApi } from '@/lib/admin/route-helpers';
+import {
+  discoverRollCalls,
+  getBillRollCalls,
+  suggestRollCall,
+  type DiscoveryBill,
+  type DiscoverySession,
+} from '@/lib/scorecard/roll-call-discovery';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode } from '@/lib/api/errors';
+
+// GET — roll calls discovered for a bill, with the suggested scored vote
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ sessionId: string; billId: string }> }
+) {
+  const result = await requireAdminApi();
+  if (result.error) return result.error;
+  const { supabase } = result;
+
+  const { sessionId, billId } = await params;
+
+  const { data: billData, error: billError } = await supabase
+    .from('rlc_scorecard_bills')
+    .select('id')
+    .eq('id', billId)
+    .eq('session_id', sessionId)
+    .single();
+
+  if (billError || !billData) {
+    return apiError('Bill not found', ApiErrorCode.NOT_FOUND, 404);
+  }
+
+  try {
+    const rollCalls = await getBillRollCalls(supabase, billId);
+    const suggested = suggestRollCall(rollCalls);
+    return NextResponse.json({
+      rollCalls,
+      suggestedRollCallId: suggested?.legiscan_roll_call_id ?? null,
+    });
+  } catch (error) {
+    logger.error(`Error fetching roll calls for bill ${billId}:`, error);
+    return apiError('Failed to fetch roll calls', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+}
+
+// POST — check LegiScan for new roll calls now instead of waiting for the cron
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ sessionId: string; billId: string }> }
+) {
+  const result = await requireAdminApi();
+  if (result.error) return result.error;
+  const { supabase } = result;
+
+  const { sessionId, billId } = await params;
+
+  const { data: billData, error: billError } = await supabase
+    .from('rlc_scorecard_bills')
+    .select('id, bill_number, title, legiscan_bill_id, legiscan_roll_call_id')
+    .eq('id', billId)
+    .eq('session_id', sessionId)
+    .single();
+
+  if (billError || !billData) {
+    return apiError('Bill not found', ApiErrorCode.NOT_FOUND, 404);
+  }
+
+  const bill = billData as Omit<DiscoveryBill, 'legiscan_bill_id'> & { legiscan_bill_id: number | null };
+  if (!bill.legiscan_bill_id) {
+    return apiError('Bill is not linked to LegiScan', ApiErrorCode.VALIDATION_ERROR, 400);
+  }
+
+  const { data: sessionData, error: sessionError } = await supabase
+    .from('rlc_scorecard_sessions')
+    .select('id, name, jurisdiction, created_by')
+    .eq('id', sessionId)
+    .single();
+
+  if (sessionError || !sessionData) {
+    return apiError('Session not found', ApiErrorCode.NOT_FOUND, 404);
+  }
+
+  try {
+    const discovery = await discoverRollCalls(
+      supabase,
+      sessionData as DiscoverySession,
+      { ...bill, legiscan_bill_id: bill.legiscan_bill_id }
+    );
+    const rollCalls = await getBillRollCalls(supabase, billId);
+    const suggested = suggestRollCall(rollCalls);
+    return NextResponse.json({
+      discovered: discovery.discovered,
+      rollCalls,
+      suggestedRollCallId: suggested?.legiscan_roll_call_id ?? null,
+    });
+  } catch (error) {
+    logger.error(`Error discovering roll calls for bill ${billId}:`, error);
+    return apiError('Failed to check LegiScan for roll calls', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+}
@@ -0,0 +1,34 @@
+import { requireAdminApi } from '@/lib/admin/route-helpers';
+import { fetchScorecardExport, renderScorecardPdf, scorecardPdfFilename } from '@/lib/scorecard/scorecard-pdf';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode } from '@/lib/api/errors';
+
+// GET — scorecard PDF for any session status, so drafts can be proofed before publishing
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  const result = await requireAdminApi();
+  if (result.error) return result.error;
+  const { supabase } = result;
+
+  const { sessionId } = await params;
+
+  try {
+    const data = await fetchScorecardExport(supabase, { sessionId }, { publicOnly: false });
+    if (!data) {
+      return apiError('Session not found', ApiErrorCode.NOT_FOUND, 404);
+    }
+
+    const pdf = await renderScorecardPdf(data);
+    return new Response(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${scorecardPdfFilename(data.session)}"`,
+      },
+    });
+  } catch (error) {
+    logger.error(`Error generating scorecard PDF for session ${sessionId}:`, error);
+    return apiError('Failed to generate scorecard PDF', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+}
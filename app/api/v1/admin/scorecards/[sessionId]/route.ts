@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { sessionUpdateSchema } from '@/lib/validations/scorecard';
+import { computeScoresForSession } from '@/lib/scorecard/compute-scores';
 import { logger } from '@/lib/logger';
 import { requireAdminApi } from '@/lib/admin/route-helpers';
 import { apiError, ApiErrorCode, validationError } from '@/lib/api/errors';
@@ -47,6 +48,7 @@ export async function PATCH(
   if (input.stateCode !== undefined) updatePayload.state_code = input.stateCode || null;
   if (input.charterId !== undefined) updatePayload.charter_id = input.charterId || null;
   if (input.sessionYear !== undefined) updatePayload.session_year = input.sessionYear;
+  if (input.scoringMethod !== undefined) updatePayload.scoring_method = input.scoringMethod;
 
   const { data, error } = await supabase
     .from('rlc_scorecard_sessions')
@@ -60,5 +62,14 @@ export async function PATCH(
     return apiError('Failed to update session', ApiErrorCode.INTERNAL_ERROR, 500);
   }
 
+  // Stored scores were computed with the old method; rebuild them now
+  if (input.scoringMethod !== undefined) {
+    try {
+      await computeScoresForSession(sessionId);
+    } catch (err) {
+      logger.error(`Error recomputing scores for session ${sessionId}:`, err);
+    }
+  }
+
   return NextResponse.json({ session: data });
 }
@@ -34,6 +34,7 @@ export async function POST(request: Request) {
       state_code: input.stateCode || null,
       charter_id: input.charterId || null,
       session_year: input.sessionYear,
+      scoring_method: input.scoringMethod,
       status: 'draft',
       created_by: ctx.member.id,
     } as never)
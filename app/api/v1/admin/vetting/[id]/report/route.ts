@@ -0,0 +1,64 @@
+import { auth } from '@clerk/nextjs/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { getVettingContext, canViewPipeline } from '@/lib/vetting/permissions';
+import {
+  fetchVettingReportExport,
+  renderVettingReport,
+  vettingReportFilename,
+  VETTING_REPORT_CONTENT_TYPES,
+  VETTING_REPORT_FORMATS,
+  type VettingReportFormat,
+} from '@/lib/vetting/report-export';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode } from '@/lib/api/errors';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/v1/admin/vetting/[id]/report?format=pdf|docx
+ * Branded report download, watermarked with the downloading user's name
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return apiError('Unauthorized', ApiErrorCode.UNAUTHORIZED, 401);
+    }
+
+    const ctx = await getVettingContext(userId);
+    if (!ctx || !canViewPipeline(ctx)) {
+      return apiError('Forbidden', ApiErrorCode.FORBIDDEN, 403);
+    }
+
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get('format') || 'pdf') as VettingReportFormat;
+    if (!VETTING_REPORT_FORMATS.includes(format)) {
+      return apiError('Invalid format. Use pdf or docx', ApiErrorCode.VALIDATION_ERROR, 400);
+    }
+
+    const { id } = await params;
+    const supabase = createServerClient();
+
+    const data = await fetchVettingReportExport(supabase, id);
+    if (!data) {
+      return apiError('Vetting not found', ApiErrorCode.NOT_FOUND, 404);
+    }
+
+    const file = await renderVettingReport(data, format, {
+      name: `${ctx.member.first_name} ${ctx.member.last_name}`.trim(),
+      email: ctx.member.email,
+    });
+
+    logger.info(`Vetting report ${id} exported as ${format} by ${ctx.member.id}`);
+    return new Response(Buffer.from(file), {
+      headers: {
+        'Content-Type': VETTING_REPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${vettingReportFilename(data.vetting, format)}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (err) {
+    logger.error('Unhandled error in GET /api/v1/admin/vetting/[id]/report:', err);
+    return apiError('Failed to generate vetting report', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+}
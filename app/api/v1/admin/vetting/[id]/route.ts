@@ -7,12 +7,14 @@ import {
   canCreateVetting,
   canMakeRecommendation,
   canRecordInterview,
+  canManageVoteRules,
 } from '@/lib/vetting/permissions';
 import {
   vettingUpdateSchema,
   recommendationSchema,
   interviewUpdateSchema,
   pressReleaseUpdateSchema,
+  votingWindowUpdateSchema,
 } from '@/lib/validations/vetting';
 import { logger } from '@/lib/logger';
 import { apiError, ApiErrorCode, validationError } from '@/lib/api/errors';
@@ -170,6 +172,45 @@ export async function PATCH(request: Request, { params }: RouteParams) {
       return NextResponse.json({ vetting: data });
     }
 
+    // Board vote window update (only while the vote is open)
+    if ('voteOpensAt' in body || 'voteClosesAt' in body) {
+      if (!canManageVoteRules(ctx)) {
+        return apiError('Forbidden', ApiErrorCode.FORBIDDEN, 403);
+      }
+
+      const parseResult = votingWindowUpdateSchema.safeParse(body);
+      if (!parseResult.success) {
+        return validationError(parseResult.error);
+      }
+
+      const updates: Record<string, unknown> = {};
+      if (parseResult.data.voteOpensAt !== undefined) {
+        updates.vote_opens_at = parseResult.data.voteOpensAt;
+      }
+      if (parseResult.data.voteClosesAt !== undefined) {
+        updates.vote_closes_at = parseResult.data.voteClosesAt;
+      }
+
+      const { data, error } = await supabase
+        .from('rlc_candidate_vettings')
+        .update(updates as never)
+        .eq('id', id)
+        .eq('stage', 'board_vote')
+        .is('endorsed_at', null)
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return apiError('The voting window can only be changed while the board vote is open', ApiErrorCode.VALIDATION_ERROR, 400);
+        }
+        logger.error('Error updating voting window:', { id, error });
+        return apiError('Failed to update voting window', ApiErrorCode.INTERNAL_ERROR, 500);
+      }
+
+      return NextResponse.json({ vetting: data });
+    }
+
     // Press release update
     if ('pressReleaseUrl' in body || 'pressReleaseNotes' in body) {
       if (!canCreateVetting(ctx)) {
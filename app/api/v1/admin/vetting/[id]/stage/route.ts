@@ -6,6 +6,7 @@ import { getVettingContext, canCreateVetting } from '@/lib/vetting/permissions';
 import { vettingStageAdvanceSchema } from '@/lib/validations/vetting';
 import { canAdvanceStage } from '@/lib/vetting/engine';
 import { runAudit } from '@/lib/vetting/audit-engine';
+import { openBoardVote } from '@/lib/vetting/board-vote';
 import { logger } from '@/lib/logger';
 import type { VettingStage, VettingSectionStatus, VettingReportSectionType } from '@/types';
 import { apiError, ApiErrorCode, validationError } from '@/lib/api/errors';
@@ -147,6 +148,16 @@ export async function PATCH(
       }
     }
 
+    // Stamp the vote rule and voting window when the board vote opens (non-fatal:
+    // without them the vote runs under the rule resolved at finalization, with no deadline)
+    if (targetStage === 'board_vote') {
+      try {
+        await openBoardVote(supabase, id);
+      } catch (err) {
+        logger.warn('Failed to open board vote window:', { id, error: err });
+      }
+    }
+
     return NextResponse.json({ vetting: updated });
   } catch (err) {
     logger.error('Unhandled error in PATCH /api/v1/admin/vetting/[id]/stage:', err);
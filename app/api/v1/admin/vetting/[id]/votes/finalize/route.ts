@@ -2,77 +2,17 @@ import { auth } from '@clerk/nextjs/server';
 import { NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase/server';
 import { getVettingContext, canCastBoardVote } from '@/lib/vetting/permissions';
-import { tallyVotes, getEndorsementResult } from '@/lib/vetting/engine';
+import { finalizeBoardVote, type FinalizeBoardVoteFailureReason } from '@/lib/vetting/board-vote';
 import { logger } from '@/lib/logger';
-import { slugify, formatCandidateName } from '@/lib/utils';
-import { generateEndorsementShareKit } from '@/lib/share/kit-generator';
-import type { BoardVoteChoice, VettingRecommendation } from '@/types';
 import { apiError, ApiErrorCode } from '@/lib/api/errors';
 
-function escapeHtml(str: string): string {
-  return str
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;');
-}
-
-function buildPressReleaseTitle(
-  endorsementResult: VettingRecommendation,
-  candidateName: string,
-  candidateOffice: string | null,
-): string {
-  const office = candidateOffice || 'Office';
-  switch (endorsementResult) {
-    case 'endorse':
-      return `RLC Endorses ${candidateName} for ${office}`;
-    case 'do_not_endorse':
-      return `RLC Does Not Endorse ${candidateName} for ${office}`;
-    case 'no_position':
-      return `RLC Takes No Position on ${candidateName} for ${office}`;
-    default:
-      return `RLC Endorsement Decision: ${candidateName} for ${office}`;
-  }
-}
-
-function buildPressReleaseContent(
-  endorsementResult: VettingRecommendation,
-  candidateName: string,
-  candidateOffice: string | null,
-  candidateState: string | null,
-  candidateDistrict: string | null,
-  endorsedAt: string,
-): string {
-  const name = escapeHtml(candidateName);
-  const office = escapeHtml(candidateOffice || 'Office');
-  const location = [candidateState, candidateDistrict].filter((s): s is string => !!s).map(escapeHtml).join(', ');
-  const dateStr = new Date(endorsedAt).toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
-
-  let decision: string;
-  switch (endorsementResult) {
-    case 'endorse':
-      decision = `has endorsed ${name}`;
-      break;
-    case 'do_not_endorse':
-      decision = `has decided not to endorse ${name}`;
-      break;
-    case 'no_position':
-      decision = `has taken no position on the candidacy of ${name}`;
-      break;
-    default:
-      decision = `has made an endorsement decision regarding ${name}`;
-  }
-
-  return `<p>The Republican Liberty Caucus ${decision} for ${office}${location ? ` (${location})` : ''}.</p>
-
-<p>This decision was reached on ${dateStr} following a thorough vetting process by the RLC Candidate Vetting Committee and a vote by the National Board of Directors.</p>
-
-<p><em>This is a draft press release. Please edit the content before publishing.</em></p>`;
-}
+const FAILURE_RESPONSES: Record<FinalizeBoardVoteFailureReason, [ApiErrorCode, number]> = {
+  not_found: [ApiErrorCode.NOT_FOUND, 404],
+  wrong_stage: [ApiErrorCode.VALIDATION_ERROR, 400],
+  already_finalized: [ApiErrorCode.VALIDATION_ERROR, 400],
+  not_allowed: [ApiErrorCode.VALIDATION_ERROR, 400],
+  conflict: [ApiErrorCode.CONFLICT, 409],
+};
 
 export async function POST(
   _request: Request,
@@ -92,184 +32,24 @@ export async function POST(
     const { id } = await params;
     const supabase = createServerClient();
 
-    // Fetch vetting — check stage and that it hasn't been finalized yet
-    const { data: rawVetting, error: vettingError } = await supabase
-      .from('rlc_candidate_vettings')
-      .select('id, stage, endorsed_at, candidate_response_id, candidate_first_name, candidate_last_name, candidate_office, candidate_state, candidate_district')
-      .eq('id', id)
-      .single();
-
-    if (vettingError) {
-      if (vettingError.code === 'PGRST116') {
-        return apiError('Vetting not found', ApiErrorCode.NOT_FOUND, 404);
-      }
-      logger.error('Error fetching vetting for finalize:', { id, error: vettingError });
-      return apiError('Failed to fetch vetting', ApiErrorCode.INTERNAL_ERROR, 500);
-    }
-
-    const vetting = rawVetting as unknown as {
-      id: string;
-      stage: string;
-      endorsed_at: string | null;
-      candidate_response_id: string;
-      candidate_first_name: string;
-      candidate_last_name: string;
-      candidate_office: string | null;
-      candidate_state: string | null;
-      candidate_district: string | null;
-    };
-
-    if (vetting.stage !== 'board_vote') {
-      return apiError('Can only finalize votes at the board_vote stage', ApiErrorCode.VALIDATION_ERROR, 400);
-    }
-
-    if (vetting.endorsed_at) {
-      return apiError('Votes have already been finalized', ApiErrorCode.VALIDATION_ERROR, 400);
-    }
-
-    // Fetch all votes for this vetting
-    const { data: rawVotes, error: votesError } = await supabase
-      .from('rlc_candidate_vetting_board_votes')
-      .select('vote')
-      .eq('vetting_id', id);
-
-    if (votesError) {
-      logger.error('Error fetching votes for finalize:', { id, error: votesError });
-      return apiError('Failed to fetch votes', ApiErrorCode.INTERNAL_ERROR, 500);
-    }
-
-    const votes = (rawVotes ?? []) as unknown as { vote: BoardVoteChoice }[];
-
-    // Require at least one non-abstain vote
-    const substantiveVotes = votes.filter((v) => v.vote !== 'vote_abstain');
-    if (substantiveVotes.length === 0) {
-      return apiError('At least one non-abstain vote is required to finalize', ApiErrorCode.VALIDATION_ERROR, 400);
-    }
-
-    const tally = tallyVotes(votes);
-    const endorsementResult = getEndorsementResult(tally);
-    const endorsedAt = new Date().toISOString();
-
-    // Optimistic concurrency: only update if endorsed_at is still null
-    const { data: updated, error: updateError } = await supabase
-      .from('rlc_candidate_vettings')
-      .update({
-        endorsement_result: endorsementResult,
-        endorsed_at: endorsedAt,
-      } as never)
-      .eq('id', id)
-      .is('endorsed_at', null)
-      .select()
-      .single();
-
-    if (updateError) {
-      if (updateError.code === 'PGRST116') {
-        return apiError('Votes were finalized by another user. Please refresh.', ApiErrorCode.CONFLICT, 409);
-      }
-      logger.error('Error finalizing votes:', { id, error: updateError });
-      return apiError('Failed to finalize votes', ApiErrorCode.INTERNAL_ERROR, 500);
-    }
-
-    // Sync endorsement status to candidate_responses if linked
-    if (vetting.candidate_response_id) {
-      const { error: syncError } = await supabase
-        .from('rlc_candidate_responses')
-        .update({
-          endorsement_result: endorsementResult,
-          endorsed_at: endorsedAt,
-        } as never)
-        .eq('id', vetting.candidate_response_id);
-
-      if (syncError) {
-        logger.warn('Failed to sync endorsement to candidate_responses:', {
-          candidateResponseId: vetting.candidate_response_id,
-          error: syncError,
-        });
-      }
-    }
-
-    // Auto-create draft press release post (non-fatal)
-    let pressReleasePostId: string | null = null;
-    try {
-      const candidateFullName = formatCandidateName(vetting.candidate_first_name, vetting.candidate_last_name);
-      const title = buildPressReleaseTitle(endorsementResult, candidateFullName, vetting.candidate_office);
-      const dateSlug = new Date().toISOString().slice(0, 10);
-      const slug = `press-release-${slugify(candidateFullName)}-${id.slice(0, 8)}-${dateSlug}`;
-      const content = buildPressReleaseContent(
-        endorsementResult,
-        candidateFullName,
-        vetting.candidate_office,
-        vetting.candidate_state,
-        vetting.candidate_district,
-        endorsedAt,
-      );
-
-      const tags: string[] = [];
-      if (vetting.candidate_state) tags.push(vetting.candidate_state.toLowerCase());
-
-      const { data: postData, error: postError } = await supabase
-        .from('rlc_posts')
-        .insert({
-          title,
-          slug,
-          content,
-          excerpt: title,
-          content_type: 'press_release',
-          status: 'draft',
-          categories: ['press-release', 'endorsement'],
-          tags,
-          metadata: {},
-        } as never)
-        .select('id')
-        .single();
-
-      if (postError) {
-        logger.warn('Failed to create press release draft:', { vettingId: id, error: postError });
-      } else if (postData) {
-        pressReleasePostId = (postData as { id: string }).id;
-
-        // Link the post to the vetting and advance stage
-        const { error: linkError } = await supabase
-          .from('rlc_candidate_vettings')
-          .update({
-            press_release_post_id: pressReleasePostId,
-            stage: 'press_release_created',
-          } as never)
-          .eq('id', id);
-
-        if (linkError) {
-          logger.warn('Failed to link press release post to vetting:', {
-            vettingId: id,
-            postId: pressReleasePostId,
-            error: linkError,
-          });
-        }
-      }
-    } catch (prError) {
-      logger.warn('Unexpected error creating press release draft:', { vettingId: id, error: prError });
-    }
+    // Quorum, threshold and voting window come from the vote rule in effect
+    const outcome = await finalizeBoardVote(supabase, id, {
+      finalizedBy: 'board',
+      finalizedById: ctx.member.id,
+    });
 
-    // Auto-create share kit (non-fatal)
-    let shareKitId: string | null = null;
-    try {
-      shareKitId = await generateEndorsementShareKit({
-        vettingId: id,
-        candidateFirstName: vetting.candidate_first_name,
-        candidateLastName: vetting.candidate_last_name,
-        candidateOffice: vetting.candidate_office,
-        candidateState: vetting.candidate_state,
-        endorsementResult,
-      });
-    } catch (skError) {
-      logger.warn('Failed to generate share kit on finalize:', { vettingId: id, error: skError });
+    if (!outcome.success) {
+      const [code, status] = FAILURE_RESPONSES[outcome.reason];
+      return apiError(outcome.error, code, status);
     }
 
     return NextResponse.json({
-      vetting: updated,
-      tally,
-      endorsementResult,
-      pressReleasePostId,
-      shareKitId,
+      vetting: outcome.vetting,
+      tally: outcome.tally,
+      endorsementResult: outcome.endorsementResult,
+      appliedRule: outcome.appliedRule,
+      pressReleasePostId: outcome.pressReleasePostId,
+      shareKitId: outcome.shareKitId,
     });
   } catch (err) {
     logger.error('Unhandled error in POST /api/v1/admin/vetting/[id]/votes/finalize:', err);
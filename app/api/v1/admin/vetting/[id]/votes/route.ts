@@ -3,8 +3,11 @@ import { NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase/server';
 import { getVettingContext, canViewPipeline, canCastBoardVote } from '@/lib/vetting/permissions';
 import { boardVoteSchema } from '@/lib/validations/vetting';
+import { getEligibleVoterIds, resolveVoteRules } from '@/lib/vetting/board-vote';
+import { getVotingWindowStatus } from '@/lib/vetting/engine';
 import { logger } from '@/lib/logger';
 import { apiError, ApiErrorCode, validationError } from '@/lib/api/errors';
+import type { OfficeLevel } from '@/types';
 
 export async function GET(
   _request: Request,
@@ -39,19 +42,28 @@ export async function GET(
       return apiError('Failed to fetch votes', ApiErrorCode.INTERNAL_ERROR, 500);
     }
 
-    // Fetch eligible voters: national_board and super_admin role holders
-    const { data: rawRoles, error: rolesError } = await supabase
-      .from('rlc_contact_roles')
-      .select('contact_id')
-      .in('role', ['national_board', 'super_admin']);
+    // Fetch the vetting's vote rule scope
+    const { data: rawVetting, error: vettingError } = await supabase
+      .from('rlc_candidate_vettings')
+      .select('committee_id, vote_rule_id, office_type:rlc_office_types(level)')
+      .eq('id', id)
+      .single();
 
-    if (rolesError) {
-      logger.error('Error fetching eligible voter roles:', { error: rolesError });
-      return apiError('Failed to fetch eligible voters', ApiErrorCode.INTERNAL_ERROR, 500);
+    if (vettingError) {
+      if (vettingError.code === 'PGRST116') {
+        return apiError('Vetting not found', ApiErrorCode.NOT_FOUND, 404);
+      }
+      logger.error('Error fetching vetting for votes:', { id, error: vettingError });
+      return apiError('Failed to fetch vetting', ApiErrorCode.INTERNAL_ERROR, 500);
     }
 
-    // Deduplicate contact IDs and fetch member details
-    const contactIds = [...new Set((rawRoles ?? []).map((r) => (r as unknown as { contact_id: string }).contact_id))];
+    const voteRules = await resolveVoteRules(
+      supabase,
+      rawVetting as unknown as { committee_id: string | null; vote_rule_id: string | null; office_type: { level: OfficeLevel } | null }
+    );
+
+    // Eligible voters: national_board and super_admin role holders whose role has not expired
+    const contactIds = await getEligibleVoterIds(supabase);
 
     let eligibleVoters: { id: string; first_name: string; last_name: string }[] = [];
     if (contactIds.length > 0) {
@@ -70,6 +82,7 @@ export async function GET(
     return NextResponse.json({
       votes: rawVotes ?? [],
       eligibleVoters,
+      voteRules,
     });
   } catch (err) {
     logger.error('Unhandled error in GET /api/v1/admin/vetting/[id]/votes:', err);
@@ -112,7 +125,7 @@ export async function POST(
     // Verify vetting exists, is at board_vote stage, and is not finalized
     const { data: rawVetting, error: vettingError } = await supabase
       .from('rlc_candidate_vettings')
-      .select('id, stage, endorsed_at')
+      .select('id, stage, endorsed_at, vote_opens_at, vote_closes_at')
       .eq('id', id)
       .single();
 
@@ -124,7 +137,13 @@ export async function POST(
       return apiError('Failed to fetch vetting', ApiErrorCode.INTERNAL_ERROR, 500);
     }
 
-    const vetting = rawVetting as unknown as { id: string; stage: string; endorsed_at: string | null };
+    const vetting = rawVetting as unknown as {
+      id: string;
+      stage: string;
+      endorsed_at: string | null;
+      vote_opens_at: string | null;
+      vote_closes_at: string | null;
+    };
 
     if (vetting.stage !== 'board_vote') {
       return apiError('Voting is only available at the board_vote stage', ApiErrorCode.VALIDATION_ERROR, 400);
@@ -134,6 +153,14 @@ export async function POST(
       return apiError('Voting has been finalized. No further changes allowed.', ApiErrorCode.VALIDATION_ERROR, 400);
     }
 
+    const windowStatus = getVotingWindowStatus(vetting);
+    if (windowStatus === 'not_open') {
+      return apiError('Voting has not opened yet', ApiErrorCode.VALIDATION_ERROR, 400);
+    }
+    if (windowStatus === 'closed') {
+      return apiError('Voting has closed', ApiErrorCode.VALIDATION_ERROR, 400);
+    }
+
     // Use the contact (member) ID as voter_id — FK references rlc_contacts
     const voterId = ctx.member.id;
 
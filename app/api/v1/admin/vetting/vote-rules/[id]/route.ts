@@ -0,0 +1,107 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { getVettingContext, canManageVoteRules } from '@/lib/vetting/permissions';
+import { voteRuleUpdateSchema } from '@/lib/validations/vetting';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode, validationError } from '@/lib/api/errors';
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId } = await auth();
+  if (!userId) {
+    return apiError('Unauthorized', ApiErrorCode.UNAUTHORIZED, 401);
+  }
+
+  const ctx = await getVettingContext(userId);
+  if (!ctx || !canManageVoteRules(ctx)) {
+    return apiError('Forbidden', ApiErrorCode.FORBIDDEN, 403);
+  }
+
+  const { id } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiError('Invalid JSON', ApiErrorCode.INVALID_JSON, 400);
+  }
+
+  const parseResult = voteRuleUpdateSchema.safeParse(body);
+  if (!parseResult.success) {
+    return validationError(parseResult.error);
+  }
+
+  const input = parseResult.data;
+  const updates: Record<string, unknown> = {};
+  if (input.name !== undefined) updates.name = input.name;
+  if (input.committeeId !== undefined) updates.committee_id = input.committeeId;
+  if (input.officeLevel !== undefined) updates.office_level = input.officeLevel;
+  if (input.quorum !== undefined) updates.quorum = input.quorum;
+  if (input.threshold !== undefined) updates.threshold = input.threshold;
+  if (input.votingPeriodDays !== undefined) updates.voting_period_days = input.votingPeriodDays;
+
+  if (Object.keys(updates).length === 0) {
+    return apiError('No fields to update', ApiErrorCode.VALIDATION_ERROR, 400);
+  }
+
+  updates.updated_at = new Date().toISOString();
+
+  const supabase = createServerClient();
+
+  const { data, error } = await supabase
+    .from('rlc_candidate_vote_rules')
+    .update(updates as never)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return apiError('Vote rule not found', ApiErrorCode.NOT_FOUND, 404);
+    }
+    if (error.code === '23505') {
+      return apiError('A vote rule for this committee/office level already exists', ApiErrorCode.CONFLICT, 409);
+    }
+    if (error.code === '23503') {
+      return apiError('Committee not found', ApiErrorCode.VALIDATION_ERROR, 400);
+    }
+    logger.error('Error updating vote rule:', error);
+    return apiError('Failed to update vote rule', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+
+  return NextResponse.json({ voteRule: data });
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId } = await auth();
+  if (!userId) {
+    return apiError('Unauthorized', ApiErrorCode.UNAUTHORIZED, 401);
+  }
+
+  const ctx = await getVettingContext(userId);
+  if (!ctx || !canManageVoteRules(ctx)) {
+    return apiError('Forbidden', ApiErrorCode.FORBIDDEN, 403);
+  }
+
+  const { id } = await params;
+  const supabase = createServerClient();
+
+  // Vettings stamped with this rule fall back to the best remaining match (FK is ON DELETE SET NULL)
+  const { error } = await supabase
+    .from('rlc_candidate_vote_rules')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    logger.error('Error deleting vote rule:', error);
+    return apiError('Failed to delete vote rule', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,88 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { getVettingContext, canManageVoteRules } from '@/lib/vetting/permissions';
+import { voteRuleCreateSchema } from '@/lib/validations/vetting';
+import crypto from 'crypto';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode, validationError } from '@/lib/api/errors';
+
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) {
+    return apiError('Unauthorized', ApiErrorCode.UNAUTHORIZED, 401);
+  }
+
+  const ctx = await getVettingContext(userId);
+  if (!ctx) {
+    return apiError('Forbidden', ApiErrorCode.FORBIDDEN, 403);
+  }
+
+  const supabase = createServerClient();
+
+  const { data, error } = await supabase
+    .from('rlc_candidate_vote_rules')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) {
+    logger.error('Error fetching vote rules:', error);
+    return apiError('Failed to fetch vote rules', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+
+  return NextResponse.json({ voteRules: data || [] });
+}
+
+export async function POST(request: Request) {
+  const { userId } = await auth();
+  if (!userId) {
+    return apiError('Unauthorized', ApiErrorCode.UNAUTHORIZED, 401);
+  }
+
+  const ctx = await getVettingContext(userId);
+  if (!ctx || !canManageVoteRules(ctx)) {
+    return apiError('Forbidden', ApiErrorCode.FORBIDDEN, 403);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiError('Invalid JSON', ApiErrorCode.INVALID_JSON, 400);
+  }
+
+  const parseResult = voteRuleCreateSchema.safeParse(body);
+  if (!parseResult.success) {
+    return validationError(parseResult.error);
+  }
+
+  const input = parseResult.data;
+  const supabase = createServerClient();
+
+  const { data, error } = await supabase
+    .from('rlc_candidate_vote_rules')
+    .insert({
+      id: crypto.randomUUID(),
+      name: input.name,
+      committee_id: input.committeeId || null,
+      office_level: input.officeLevel || null,
+      quorum: input.quorum,
+      threshold: input.threshold,
+      voting_period_days: input.votingPeriodDays ?? null,
+    } as never)
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      return apiError('A vote rule for this committee/office level already exists', ApiErrorCode.CONFLICT, 409);
+    }
+    if (error.code === '23503') {
+      return apiError('Committee not found', ApiErrorCode.VALIDATION_ERROR, 400);
+    }
+    logger.error('Error creating vote rule:', error);
+    return apiError('Failed to create vote rule', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+
+  return NextResponse.json({ voteRule: data }, { status: 201 });
+}
@@ -0,0 +1,131 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextResponse } from 'next/server';
+import { createServerClient, getMemberByClerkId } from '@/lib/supabase/server';
+import { CALL_ACTION, type CallLogMetadata } from '@/lib/campaigns/call-survey';
+import { hasLoggedUntrackedCall } from '@/lib/campaigns/calls';
+import { findMemberOfficial } from '@/lib/campaigns/delivery';
+import { findLegislatorId } from '@/lib/scorecard/my-legislators';
+import { callLogCreateSchema } from '@/lib/validations/campaign';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode, validationError } from '@/lib/api/errors';
+import type { ActionCampaign } from '@/types';
+
+// POST /api/v1/campaigns/[id]/calls — log a call to a legislator with the post-call survey
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId } = await auth();
+  if (!userId) {
+    return apiError('Unauthorized', ApiErrorCode.UNAUTHORIZED, 401);
+  }
+
+  const member = await getMemberByClerkId(userId);
+  if (!member) {
+    return apiError('Member not found', ApiErrorCode.NOT_FOUND, 404);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiError('Invalid JSON', ApiErrorCode.INVALID_JSON, 400);
+  }
+
+  const parseResult = callLogCreateSchema.safeParse(body);
+  if (!parseResult.success) {
+    return validationError(parseResult.error);
+  }
+
+  const input = parseResult.data;
+  const { id } = await params;
+  const supabase = createServerClient();
+
+  const { data: campaignData, error: campaignError } = await supabase
+    .from('rlc_action_campaigns')
+    .select('id, status, action_type, target_chamber, target_state_code')
+    .eq('id', id)
+    .single();
+
+  if (campaignError || !campaignData) {
+    return apiError('Campaign not found', ApiErrorCode.NOT_FOUND, 404);
+  }
+
+  const campaign = campaignData as Pick<
+    ActionCampaign,
+    'id' | 'status' | 'action_type' | 'target_chamber' | 'target_state_code'
+  >;
+  if (campaign.status !== 'active') {
+    return apiError('Campaign is not active', ApiErrorCode.VALIDATION_ERROR, 400);
+  }
+  if (campaign.action_type !== 'call') {
+    return apiError('Campaign is not a call campaign', ApiErrorCode.VALIDATION_ERROR, 400);
+  }
+
+  // Calls count toward the whip tracker, so the office is looked up from the member's address on file
+  let lookup;
+  try {
+    lookup = await findMemberOfficial(member, { name: input.officialName, office: input.office }, campaign);
+  } catch (err) {
+    logger.error('Civic API error:', err instanceof Error ? err.message : String(err));
+    return apiError('Failed to look up your representatives', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+
+  switch (lookup.status) {
+    case 'no_address':
+      return apiError('Add your address to your profile to log calls', ApiErrorCode.VALIDATION_ERROR, 400);
+    case 'not_found':
+      return apiError('This official is not one of your legislators', ApiErrorCode.NOT_FOUND, 404);
+    case 'not_targeted':
+      return apiError('This campaign does not target this office', ApiErrorCode.VALIDATION_ERROR, 400);
+  }
+  const { official } = lookup;
+
+  let legislatorId: string | null;
+  try {
+    legislatorId = await findLegislatorId(supabase, official);
+    if (
+      !legislatorId &&
+      (await hasLoggedUntrackedCall(supabase, {
+        campaignId: id,
+        contactId: member.id,
+        officialName: official.name,
+        office: official.office,
+      }))
+    ) {
+      return apiError('You have already logged a call to this legislator', ApiErrorCode.CONFLICT, 409);
+    }
+  } catch (error) {
+    logger.error(`Error matching called official for campaign ${id}:`, error);
+    return apiError('Failed to log call', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+
+  const metadata: CallLogMetadata = {
+    call_outcome: input.outcome,
+    legislator_position: input.position,
+    official_name: official.name,
+    office: official.office,
+  };
+
+  const { data, error } = await supabase
+    .from('rlc_campaign_participations')
+    .insert({
+      campaign_id: id,
+      contact_id: member.id,
+      action: CALL_ACTION,
+      legislator_id: legislatorId,
+      metadata,
+    } as never)
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      return apiError('You have already logged a call to this legislator', ApiErrorCode.CONFLICT, 409);
+    }
+    logger.error('Error logging call:', error);
+    return apiError('Failed to log call', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+
+  return NextResponse.json({ participation: data }, { status: 201 });
+}
@@ -0,0 +1,145 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextResponse } from 'next/server';
+import { createServerClient, getMemberByClerkId } from '@/lib/supabase/server';
+import { deliverCampaignMessage, describeThrottle, findMemberOfficial } from '@/lib/campaigns/delivery';
+import { getCampaignMessageFields } from '@/lib/campaigns/personalize';
+import { getConfiguredTransports } from '@/lib/campaigns/transports';
+import { findLegislatorId } from '@/lib/scorecard/my-legislators';
+import { deliveryCreateSchema } from '@/lib/validations/campaign';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode, validationError } from '@/lib/api/errors';
+import type { ActionCampaign } from '@/types';
+
+// POST /api/v1/campaigns/[id]/deliver — send the campaign message to one of the member's legislators
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId } = await auth();
+  if (!userId) {
+    return apiError('Unauthorized', ApiErrorCode.UNAUTHORIZED, 401);
+  }
+
+  const member = await getMemberByClerkId(userId);
+  if (!member) {
+    return apiError('Member not found', ApiErrorCode.NOT_FOUND, 404);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiError('Invalid JSON', ApiErrorCode.INVALID_JSON, 400);
+  }
+
+  const parseResult = deliveryCreateSchema.safeParse(body);
+  if (!parseResult.success) {
+    return validationError(parseResult.error);
+  }
+
+  const input = parseResult.data;
+  const { id } = await params;
+  const supabase = createServerClient();
+
+  const { data: campaignData, error: campaignError } = await supabase
+    .from('rlc_action_campaigns')
+    .select('id, title, status, message_template, bill_id, ai_variation, talking_points, target_chamber, target_state_code')
+    .eq('id', id)
+    .single();
+
+  if (campaignError || !campaignData) {
+    return apiError('Campaign not found', ApiErrorCode.NOT_FOUND, 404);
+  }
+
+  const campaign = campaignData as Pick<
+    ActionCampaign,
+    | 'id'
+    | 'title'
+    | 'status'
+    | 'message_template'
+    | 'bill_id'
+    | 'ai_variation'
+    | 'talking_points'
+    | 'target_chamber'
+    | 'target_state_code'
+  >;
+  if (campaign.status !== 'active') {
+    return apiError('Campaign is not active', ApiErrorCode.VALIDATION_ERROR, 400);
+  }
+  if (!campaign.message_template) {
+    return apiError('Campaign has no message to send', ApiErrorCode.VALIDATION_ERROR, 400);
+  }
+
+  const transports = getConfiguredTransports();
+  if (transports.length === 0) {
+    return apiError('Message delivery is not available right now', ApiErrorCode.INTERNAL_ERROR, 503);
+  }
+
+  let lookup;
+  try {
+    lookup = await findMemberOfficial(member, { name: input.officialName, office: input.office }, campaign);
+  } catch (err) {
+    logger.error('Civic API error:', err instanceof Error ? err.message : String(err));
+    return apiError('Failed to look up your representatives', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+
+  switch (lookup.status) {
+    case 'no_address':
+      return apiError('Add your address to your profile to send messages', ApiErrorCode.VALIDATION_ERROR, 400);
+    case 'not_found':
+      return apiError('This official is not one of your legislators', ApiErrorCode.NOT_FOUND, 404);
+    case 'not_targeted':
+      return apiError('This campaign does not target this office', ApiErrorCode.VALIDATION_ERROR, 400);
+  }
+  const { official } = lookup;
+
+  try {
+    const legislatorId = await findLegislatorId(supabase, official);
+    const outcome = await deliverCampaignMessage(supabase, {
+      campaign: { ...campaign, message_template: campaign.message_template },
+      member,
+      target: {
+        name: official.name,
+        office: official.office,
+        email: official.emails[0] ?? null,
+        webFormUrl: official.webFormUrl,
+      },
+      fields: await getCampaignMessageFields(supabase, {
+        billId: campaign.bill_id,
+        member,
+        recipient: { name: official.name, office: official.office, district: official.district },
+        legislatorId,
+      }),
+      previewId: input.previewId,
+      legislatorId,
+      transports,
+    });
+
+    switch (outcome.status) {
+      case 'sent':
+        return NextResponse.json({ participation: outcome.participation }, { status: 201 });
+      case 'failed':
+        return apiError('Your message could not be delivered. Please try again later.', ApiErrorCode.INTERNAL_ERROR, 502, {
+          participationId: outcome.participation.id,
+        });
+      case 'duplicate':
+        return apiError('You have already sent this message to this office', ApiErrorCode.CONFLICT, 409);
+      case 'throttled': {
+        const response = apiError(describeThrottle(outcome.throttle), ApiErrorCode.VALIDATION_ERROR, 429);
+        response.headers.set('Retry-After', String(outcome.throttle.retryAfterSeconds));
+        return response;
+      }
+      case 'invalid':
+        return apiError(outcome.error, ApiErrorCode.VALIDATION_ERROR, 400);
+      case 'unreachable':
+        return apiError(
+          'This office does not accept messages online. Try calling instead.',
+          ApiErrorCode.VALIDATION_ERROR,
+          422
+        );
+    }
+  } catch (error) {
+    logger.error(`Error delivering campaign ${id} message:`, error);
+    return apiError('Failed to send message', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+}
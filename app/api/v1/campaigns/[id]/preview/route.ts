@@ -0,0 +1,118 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextResponse } from 'next/server';
+import { createServerClient, getMemberByClerkId } from '@/lib/supabase/server';
+import { findMemberOfficial } from '@/lib/campaigns/delivery';
+import { composeCampaignMessage, getCampaignMessageFields, saveMessagePreview } from '@/lib/campaigns/personalize';
+import { findLegislatorId } from '@/lib/scorecard/my-legislators';
+import { messagePreviewSchema } from '@/lib/validations/campaign';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode, validationError } from '@/lib/api/errors';
+import type { ActionCampaign } from '@/types';
+
+// POST /api/v1/campaigns/[id]/preview — the message the member will send to one of their legislators, for approval
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // Each preview of an AI-varied campaign is a model call
+  const rateLimited = applyRateLimit(request, 'public');
+  if (rateLimited) return rateLimited;
+
+  const { userId } = await auth();
+  if (!userId) {
+    return apiError('Unauthorized', ApiErrorCode.UNAUTHORIZED, 401);
+  }
+
+  const member = await getMemberByClerkId(userId);
+  if (!member) {
+    return apiError('Member not found', ApiErrorCode.NOT_FOUND, 404);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiError('Invalid JSON', ApiErrorCode.INVALID_JSON, 400);
+  }
+
+  const parseResult = messagePreviewSchema.safeParse(body);
+  if (!parseResult.success) {
+    return validationError(parseResult.error);
+  }
+
+  const input = parseResult.data;
+  const { id } = await params;
+  const supabase = createServerClient();
+
+  const { data: campaignData, error: campaignError } = await supabase
+    .from('rlc_action_campaigns')
+    .select('id, status, message_template, bill_id, ai_variation, talking_points, target_chamber, target_state_code')
+    .eq('id', id)
+    .single();
+
+  if (campaignError || !campaignData) {
+    return apiError('Campaign not found', ApiErrorCode.NOT_FOUND, 404);
+  }
+
+  const campaign = campaignData as Pick<
+    ActionCampaign,
+    | 'id'
+    | 'status'
+    | 'message_template'
+    | 'bill_id'
+    | 'ai_variation'
+    | 'talking_points'
+    | 'target_chamber'
+    | 'target_state_code'
+  >;
+  if (campaign.status !== 'active') {
+    return apiError('Campaign is not active', ApiErrorCode.VALIDATION_ERROR, 400);
+  }
+  if (!campaign.message_template) {
+    return apiError('Campaign has no message to send', ApiErrorCode.VALIDATION_ERROR, 400);
+  }
+
+  let lookup;
+  try {
+    lookup = await findMemberOfficial(member, { name: input.officialName, office: input.office }, campaign);
+  } catch (err) {
+    logger.error('Civic API error:', err instanceof Error ? err.message : String(err));
+    return apiError('Failed to look up your representatives', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+
+  switch (lookup.status) {
+    case 'no_address':
+      return apiError('Add your address to your profile to send messages', ApiErrorCode.VALIDATION_ERROR, 400);
+    case 'not_found':
+      return apiError('This official is not one of your legislators', ApiErrorCode.NOT_FOUND, 404);
+    case 'not_targeted':
+      return apiError('This campaign does not target this office', ApiErrorCode.VALIDATION_ERROR, 400);
+  }
+  const { official } = lookup;
+
+  try {
+    const legislatorId = await findLegislatorId(supabase, official);
+    const fields = await getCampaignMessageFields(supabase, {
+      billId: campaign.bill_id,
+      member,
+      recipient: { name: official.name, office: official.office, district: official.district },
+      legislatorId,
+    });
+    const message = await composeCampaignMessage({ ...campaign, message_template: campaign.message_template }, fields);
+    // Delivery of an AI-varied campaign sends only the body stored here
+    const previewId = campaign.ai_variation
+      ? await saveMessagePreview(supabase, {
+          campaignId: campaign.id,
+          contactId: member.id,
+          recipient: { name: official.name, office: official.office },
+          message,
+        })
+      : null;
+
+    return NextResponse.json({ message, previewId });
+  } catch (error) {
+    logger.error(`Error previewing campaign ${id} message:`, error);
+    return apiError('Failed to prepare message', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+}
@@ -0,0 +1,79 @@
+import { auth, clerkClient } from '@clerk/nextjs/server';
+import { NextResponse } from 'next/server';
+import { getMemberByClerkId } from '@/lib/supabase/server';
+import { createGiftCheckout } from '@/lib/stripe/gift-membership';
+import { giftCheckoutSchema } from '@/lib/validations/member';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode, validationError } from '@/lib/api/errors';
+
+// POST /api/v1/checkout/gift — buy a membership for someone else
+export async function POST(request: Request) {
+  const rateLimited = applyRateLimit(request, 'payment');
+  if (rateLimited) return rateLimited;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiError('Invalid JSON body', ApiErrorCode.INVALID_JSON, 400);
+  }
+
+  const parseResult = giftCheckoutSchema.safeParse(body);
+  if (!parseResult.success) {
+    return validationError(parseResult.error);
+  }
+
+  const { tier, term, recipient, message } = parseResult.data;
+  const origin = new URL(request.url).origin;
+
+  try {
+    // Signed-in purchasers are attributed to their member record
+    const { userId } = await auth();
+    let purchaserEmail = parseResult.data.purchaserEmail;
+    let purchaserName = parseResult.data.purchaserName ?? null;
+    let purchaserContactId: string | null = null;
+
+    if (userId) {
+      const member = await getMemberByClerkId(userId);
+      if (member) {
+        purchaserEmail = member.email;
+        purchaserName = `${member.first_name} ${member.last_name}`.trim();
+        purchaserContactId = member.id;
+      } else if (!purchaserEmail) {
+        const clerk = await clerkClient();
+        const clerkUser = await clerk.users.getUser(userId);
+        purchaserEmail = clerkUser.emailAddresses[0]?.emailAddress;
+      }
+    }
+
+    if (!purchaserEmail) {
+      return apiError('Your email is required to purchase a gift', ApiErrorCode.VALIDATION_ERROR, 400);
+    }
+
+    const outcome = await createGiftCheckout({
+      tier,
+      term,
+      purchaserEmail,
+      purchaserName,
+      purchaserContactId,
+      recipient,
+      message,
+      returnUrl: `${origin}/join/success?session_id={CHECKOUT_SESSION_ID}&gift=1`,
+    });
+
+    if (!outcome.success) {
+      return apiError(outcome.error, ApiErrorCode.CONFLICT, 409);
+    }
+
+    return NextResponse.json({ clientSecret: outcome.clientSecret });
+  } catch (error) {
+    const err = error as { message?: string; type?: string; code?: string };
+    logger.error('Gift checkout session creation failed:', {
+      message: err.message ?? 'Unknown error',
+      type: err.type,
+      code: err.code,
+    });
+    return apiError('Failed to create checkout session', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+}
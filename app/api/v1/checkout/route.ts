@@ -1,19 +1,26 @@
 import { auth, clerkClient } from '@clerk/nextjs/server';
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
-import { createCheckoutSession, MEMBERSHIP_TIERS } from '@/lib/stripe/client';
+import { createCheckoutSession, isTermAvailable, MEMBERSHIP_TERMS, MEMBERSHIP_TIERS } from '@/lib/stripe/client';
 import { getMemberByClerkId } from '@/lib/supabase/server';
 import { applyRateLimit } from '@/lib/rate-limit';
-import type { MembershipTier } from '@/types';
+import type { MembershipTerm, MembershipTier } from '@/types';
 import { logger } from '@/lib/logger';
 import { apiError, ApiErrorCode, validationError } from '@/lib/api/errors';
 
 const validTiers = MEMBERSHIP_TIERS.map((t) => t.tier) as [string, ...string[]];
+const validTerms = MEMBERSHIP_TERMS.map((t) => t.term) as [string, ...string[]];
 
-const checkoutSchema = z.object({
-  tier: z.enum(validTiers as [MembershipTier, ...MembershipTier[]]),
-  email: z.string().email().optional(),
-});
+const checkoutSchema = z
+  .object({
+    tier: z.enum(validTiers as [MembershipTier, ...MembershipTier[]]),
+    term: z.enum(validTerms as [MembershipTerm, ...MembershipTerm[]]).default('annual'),
+    email: z.string().email().optional(),
+  })
+  .refine((d) => isTermAvailable(d.tier, d.term), {
+    message: 'This membership term is not available for the selected tier',
+    path: ['term'],
+  });
 
 export async function POST(request: Request) {
   const rateLimited = applyRateLimit(request, 'payment');
@@ -27,7 +34,7 @@ export async function POST(request: Request) {
       return validationError(parseResult.error);
     }
 
-    const { tier } = parseResult.data;
+    const { tier, term } = parseResult.data;
     const origin = new URL(request.url).origin;
 
     // Check if user is authenticated
@@ -56,6 +63,7 @@ export async function POST(request: Request) {
 
     const session = await createCheckoutSession({
       tier: tier as MembershipTier,
+      term,
       memberEmail,
       memberId,
       returnUrl: `${origin}/join/success?session_id={CHECKOUT_SESSION_ID}`,
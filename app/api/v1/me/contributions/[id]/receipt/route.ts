@@ -0,0 +1,53 @@
+import { auth } from '@clerk/nextjs/server';
+import { createServerClient, getMemberByClerkId } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode } from '@/lib/api/errors';
+import {
+  fetchReceiptContribution,
+  fetchReceiptDonor,
+  getReceiptNumber,
+  isReceiptable,
+  renderReceiptPdf,
+} from '@/lib/receipts/generator';
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId } = await auth();
+  if (!userId) {
+    return apiError('Unauthorized', ApiErrorCode.UNAUTHORIZED, 401);
+  }
+
+  const member = await getMemberByClerkId(userId);
+  if (!member) {
+    return apiError('Member not found', ApiErrorCode.NOT_FOUND, 404);
+  }
+
+  const { id: contributionId } = await params;
+  const supabase = createServerClient();
+
+  try {
+    const [donor, contribution] = await Promise.all([
+      fetchReceiptDonor(supabase, member.id),
+      fetchReceiptContribution(supabase, member.id, contributionId),
+    ]);
+    if (!donor || !contribution) {
+      return apiError('Contribution not found', ApiErrorCode.NOT_FOUND, 404);
+    }
+    if (!isReceiptable(contribution)) {
+      return apiError('Receipts are only available for completed payments', ApiErrorCode.CONFLICT, 409);
+    }
+
+    const pdf = await renderReceiptPdf(contribution, donor);
+    return new Response(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="rlc-receipt-${getReceiptNumber(contribution)}.pdf"`,
+      },
+    });
+  } catch (err) {
+    logger.error(`Failed to render receipt ${contributionId} for member ${member.id}:`, err);
+    return apiError('Failed to generate receipt', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getMemberByClerkId } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode, validationError } from '@/lib/api/errors';
+import { giftClaimSchema } from '@/lib/validations/member';
+import { claimGiftMembership } from '@/lib/stripe/gift-membership';
+
+// POST /api/v1/me/gifts/claim — accept a gift membership sent to the signed-in member
+export async function POST(req: Request) {
+  const { userId } = await auth();
+  if (!userId) {
+    return apiError('Unauthorized', ApiErrorCode.UNAUTHORIZED, 401);
+  }
+
+  const member = await getMemberByClerkId(userId);
+  if (!member) {
+    return apiError('Member not found', ApiErrorCode.NOT_FOUND, 404);
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return apiError('Invalid JSON body', ApiErrorCode.INVALID_JSON, 400);
+  }
+
+  const parsed = giftClaimSchema.safeParse(body);
+  if (!parsed.success) {
+    return validationError(parsed.error);
+  }
+
+  try {
+    const outcome = await claimGiftMembership({ token: parsed.data.token, member });
+    if (!outcome.success) {
+      if (outcome.reason === 'not_found') {
+        return apiError(outcome.error, ApiErrorCode.NOT_FOUND, 404);
+      }
+      if (outcome.reason === 'wrong_recipient') {
+        return apiError(outcome.error, ApiErrorCode.FORBIDDEN, 403);
+      }
+      return apiError(outcome.error, ApiErrorCode.CONFLICT, 409);
+    }
+    return NextResponse.json({
+      data: {
+        id: outcome.gift.id,
+        status: outcome.gift.status,
+        tier: outcome.gift.membership_tier,
+        term: outcome.gift.membership_term,
+        claimedAt: outcome.gift.claimed_at,
+      },
+    });
+  } catch (err) {
+    logger.error(`Failed to claim gift for member ${member.id}:`, err);
+    return apiError('Failed to claim gift membership', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+}
@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { auth } from '@clerk/nextjs/server';
+import { createServerClient, getMemberByClerkId } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode, validationError } from '@/lib/api/errors';
+import { fetchGivingStatement, fetchReceiptDonor, renderGivingStatementPdf } from '@/lib/receipts/generator';
+
+export async function GET(request: Request) {
+  const { userId } = await auth();
+  if (!userId) {
+    return apiError('Unauthorized', ApiErrorCode.UNAUTHORIZED, 401);
+  }
+
+  const member = await getMemberByClerkId(userId);
+  if (!member) {
+    return apiError('Member not found', ApiErrorCode.NOT_FOUND, 404);
+  }
+
+  const { searchParams } = new URL(request.url);
+  const parsedYear = z.coerce
+    .number()
+    .int()
+    .min(2000)
+    .max(new Date().getUTCFullYear())
+    .safeParse(searchParams.get('year') ?? new Date().getUTCFullYear() - 1);
+  if (!parsedYear.success) {
+    return validationError(parsedYear.error);
+  }
+  const year = parsedYear.data;
+
+  const supabase = createServerClient();
+
+  try {
+    const donor = await fetchReceiptDonor(supabase, member.id);
+    if (!donor) {
+      return apiError('Member not found', ApiErrorCode.NOT_FOUND, 404);
+    }
+
+    const statement = await fetchGivingStatement(supabase, donor, year);
+    const pdf = await renderGivingStatementPdf(statement);
+    return new Response(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="rlc-giving-statement-${year}.pdf"`,
+      },
+    });
+  } catch (err) {
+    logger.error(`Failed to render ${year} giving statement for member ${member.id}:`, err);
+    return apiError('Failed to generate giving statement', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+}
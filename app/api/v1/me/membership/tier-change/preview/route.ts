@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getMemberByClerkId } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode, validationError } from '@/lib/api/errors';
+import { tierChangePreviewSchema } from '@/lib/validations/member';
+import { previewTierChange } from '@/lib/stripe/tier-change';
+
+// POST /api/v1/me/membership/tier-change/preview — quote a prorated tier change
+export async function POST(req: Request) {
+  const { userId } = await auth();
+  if (!userId) {
+    return apiError('Unauthorized', ApiErrorCode.UNAUTHORIZED, 401);
+  }
+
+  const member = await getMemberByClerkId(userId);
+  if (!member) {
+    return apiError('Member not found', ApiErrorCode.NOT_FOUND, 404);
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return apiError('Invalid JSON body', ApiErrorCode.INVALID_JSON, 400);
+  }
+
+  const parsed = tierChangePreviewSchema.safeParse(body);
+  if (!parsed.success) {
+    return validationError(parsed.error);
+  }
+
+  try {
+    const result = await previewTierChange({ member, toTier: parsed.data.tier });
+    if (!result.success) {
+      return apiError(result.error, ApiErrorCode.CONFLICT, 409);
+    }
+    return NextResponse.json({ data: result.preview });
+  } catch (err) {
+    logger.error(`Failed to preview tier change for member ${member.id}:`, err);
+    return apiError('Failed to calculate the new price', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+}
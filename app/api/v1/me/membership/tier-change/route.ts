@@ -0,0 +1,51 @@
+import Stripe from 'stripe';
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getMemberByClerkId } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode, validationError } from '@/lib/api/errors';
+import { tierChangeSchema } from '@/lib/validations/member';
+import { changeMembershipTier } from '@/lib/stripe/tier-change';
+
+// POST /api/v1/me/membership/tier-change — apply a previewed tier change
+export async function POST(req: Request) {
+  const { userId } = await auth();
+  if (!userId) {
+    return apiError('Unauthorized', ApiErrorCode.UNAUTHORIZED, 401);
+  }
+
+  const member = await getMemberByClerkId(userId);
+  if (!member) {
+    return apiError('Member not found', ApiErrorCode.NOT_FOUND, 404);
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return apiError('Invalid JSON body', ApiErrorCode.INVALID_JSON, 400);
+  }
+
+  const parsed = tierChangeSchema.safeParse(body);
+  if (!parsed.success) {
+    return validationError(parsed.error);
+  }
+
+  try {
+    const outcome = await changeMembershipTier({
+      member,
+      toTier: parsed.data.tier,
+      prorationDate: parsed.data.prorationDate,
+    });
+    if (!outcome.success) {
+      return apiError(outcome.error, ApiErrorCode.CONFLICT, 409);
+    }
+    return NextResponse.json({ data: outcome });
+  } catch (err) {
+    if (err instanceof Stripe.errors.StripeCardError) {
+      return apiError(err.message || 'Your card was declined', ApiErrorCode.PAYMENT_FAILED, 402);
+    }
+    logger.error(`Failed to change tier for member ${member.id}:`, err);
+    return apiError('Failed to change membership tier', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+}
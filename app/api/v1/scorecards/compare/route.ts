@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import {
+  comparisonFilename,
+  comparisonToCsv,
+  fetchSessionComparison,
+  parseSessionSlugs,
+} from '@/lib/scorecard/session-comparison';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode } from '@/lib/api/errors';
+
+// GET /api/v1/scorecards/compare?sessions=slug-a,slug-b[&format=csv] — compare public sessions
+export async function GET(request: Request) {
+  const rateLimited = applyRateLimit(request, 'public');
+  if (rateLimited) return rateLimited;
+
+  const { searchParams } = new URL(request.url);
+  const slugs = parseSessionSlugs(searchParams.getAll('sessions'));
+  const format = searchParams.get('format') || 'json';
+  if (!['json', 'csv'].includes(format)) {
+    return apiError('Invalid format. Use json or csv', ApiErrorCode.VALIDATION_ERROR, 400);
+  }
+
+  let result;
+  try {
+    result = await fetchSessionComparison(createServerClient(), slugs);
+  } catch (error) {
+    logger.error(`Error comparing scorecard sessions ${slugs.join(', ')}:`, error);
+    return apiError('Failed to compare scorecards', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+  if ('error' in result) {
+    return apiError(result.error, ApiErrorCode.VALIDATION_ERROR, 400);
+  }
+
+  if (format === 'csv') {
+    // UTF-8 BOM for Excel compatibility
+    return new Response('\uFEFF' + comparisonToCsv(result.comparison), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${comparisonFilename(result.comparison)}"`,
+        'Cache-Control': 'public, max-age=3600',
+      },
+    });
+  }
+
+  return NextResponse.json({ data: result.comparison });
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { getLegislatorHistory } from '@/lib/scorecard/legislator-history';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode } from '@/lib/api/errors';
+
+// GET /api/v1/scorecards/legislators/[legislatorId] — score history across all public sessions
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ legislatorId: string }> }
+) {
+  const rateLimited = applyRateLimit(request, 'public');
+  if (rateLimited) return rateLimited;
+
+  const { legislatorId } = await params;
+
+  try {
+    const history = await getLegislatorHistory(legislatorId);
+    if (!history) {
+      return apiError('Legislator not found', ApiErrorCode.NOT_FOUND, 404);
+    }
+
+    const { legislator, ...rest } = history;
+    return NextResponse.json({
+      data: {
+        legislator: {
+          id: legislator.id,
+          name: legislator.name,
+          party: legislator.party,
+          chamber: legislator.chamber,
+          stateCode: legislator.state_code,
+          district: legislator.district,
+          photoUrl: legislator.photo_url,
+          currentScore: legislator.current_score,
+        },
+        ...rest,
+      },
+    });
+  } catch (error) {
+    logger.error(`Error fetching score history for legislator ${legislatorId}:`, error);
+    return apiError('Failed to fetch legislator history', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { getRepresentatives } from '@/lib/civic/client';
+import { createServerClient } from '@/lib/supabase/server';
+import { attachScorecards } from '@/lib/scorecard/my-legislators';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode } from '@/lib/api/errors';
+
+// GET /api/v1/scorecards/my-legislators?address=... — officials for an address with their liberty scores
+export async function GET(request: Request) {
+  const rateLimited = applyRateLimit(request, 'public');
+  if (rateLimited) return rateLimited;
+
+  const { searchParams } = new URL(request.url);
+  const address = searchParams.get('address');
+
+  if (!address || address.trim().length < 5) {
+    return apiError('Address is required (at least 5 characters)', ApiErrorCode.VALIDATION_ERROR, 400);
+  }
+
+  let representatives;
+  try {
+    representatives = await getRepresentatives(address);
+  } catch (err) {
+    logger.error('Civic API error:', err instanceof Error ? err.message : String(err));
+    return apiError('Failed to look up representatives for this address', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+
+  try {
+    const officials = await attachScorecards(createServerClient(), representatives.officials);
+    return NextResponse.json({ officials, normalizedAddress: representatives.normalizedAddress });
+  } catch (error) {
+    logger.error('Error matching officials to scorecard legislators:', error);
+    return apiError('Failed to load scorecards', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+}
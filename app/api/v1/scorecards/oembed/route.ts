@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { getEmbedTitle } from '@/lib/scorecard/embed';
+import { buildOEmbed, parseEmbedTarget } from '@/lib/scorecard/embed-config';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode } from '@/lib/api/errors';
+
+function positiveInt(value: string | null): number | null {
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : null;
+}
+
+// GET /api/v1/scorecards/oembed?url=...[&maxwidth=&maxheight=] — oEmbed (JSON only) for scorecard widgets
+export async function GET(request: Request) {
+  const rateLimited = applyRateLimit(request, 'public');
+  if (rateLimited) return rateLimited;
+
+  const { searchParams } = new URL(request.url);
+  const url = searchParams.get('url');
+  if (!url) {
+    return apiError('url is required', ApiErrorCode.VALIDATION_ERROR, 400);
+  }
+
+  // The oEmbed spec reserves 501 for unsupported formats
+  const format = searchParams.get('format') || 'json';
+  if (format !== 'json') {
+    return apiError('Only the json format is supported', ApiErrorCode.VALIDATION_ERROR, 501);
+  }
+
+  const target = parseEmbedTarget(url);
+  if (!target) {
+    return apiError('URL is not an embeddable scorecard', ApiErrorCode.NOT_FOUND, 404);
+  }
+
+  try {
+    const title = await getEmbedTitle(createServerClient(), target.slug, target.config);
+    if (!title) {
+      return apiError('Scorecard not found', ApiErrorCode.NOT_FOUND, 404);
+    }
+
+    return NextResponse.json(
+      buildOEmbed({
+        ...target,
+        title,
+        maxWidth: positiveInt(searchParams.get('maxwidth')),
+        maxHeight: positiveInt(searchParams.get('maxheight')),
+      }),
+      { headers: { 'Cache-Control': 'public, max-age=3600' } }
+    );
+  } catch (error) {
+    logger.error(`Error building oEmbed for ${url}:`, error);
+    return apiError('Failed to build embed', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+}
@@ -0,0 +1,51 @@
+import { createServerClient } from '@/lib/supabase/server';
+import {
+  BILL_CSV_COLUMNS,
+  getPublicSession,
+  listSessionBills,
+  parsePagination,
+  scorecardCsv,
+  scorecardCsvFilename,
+  scorecardJson,
+  toCsv,
+} from '@/lib/scorecard/public-api';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode } from '@/lib/api/errors';
+
+// GET /api/v1/scorecards/sessions/[slug]/bills[?limit=&offset=|?format=csv] — voted bills in scorecard order
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const rateLimited = applyRateLimit(request, 'public');
+  if (rateLimited) return rateLimited;
+
+  const { slug } = await params;
+  const { searchParams } = new URL(request.url);
+  const format = searchParams.get('format') || 'json';
+  if (!['json', 'csv'].includes(format)) {
+    return apiError('Invalid format. Use json or csv', ApiErrorCode.VALIDATION_ERROR, 400);
+  }
+
+  try {
+    const supabase = createServerClient();
+    const session = await getPublicSession(supabase, slug);
+    if (!session) {
+      return apiError('Scorecard not found', ApiErrorCode.NOT_FOUND, 404);
+    }
+
+    // CSV is the bulk download, so it ignores pagination
+    if (format === 'csv') {
+      const { rows } = await listSessionBills(supabase, session.id, null);
+      return scorecardCsv(toCsv(BILL_CSV_COLUMNS, rows), scorecardCsvFilename(slug, 'bills'));
+    }
+
+    const page = parsePagination(searchParams);
+    const { rows, total } = await listSessionBills(supabase, session.id, page);
+    return scorecardJson(rows, { ...page, total });
+  } catch (error) {
+    logger.error(`Error fetching scorecard bills for ${slug}:`, error);
+    return apiError('Failed to fetch scorecard bills', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+}
@@ -0,0 +1,35 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { fetchScorecardExport, renderScorecardPdf, scorecardPdfFilename } from '@/lib/scorecard/scorecard-pdf';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode } from '@/lib/api/errors';
+
+// GET /api/v1/scorecards/sessions/[slug]/pdf — print-ready scorecard for a published session
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const rateLimited = applyRateLimit(request, 'public');
+  if (rateLimited) return rateLimited;
+
+  const { slug } = await params;
+
+  try {
+    const data = await fetchScorecardExport(createServerClient(), { slug }, { publicOnly: true });
+    if (!data) {
+      return apiError('Scorecard not found', ApiErrorCode.NOT_FOUND, 404);
+    }
+
+    const pdf = await renderScorecardPdf(data);
+    return new Response(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${scorecardPdfFilename(data.session)}"`,
+        'Cache-Control': 'public, max-age=3600',
+      },
+    });
+  } catch (error) {
+    logger.error(`Error generating scorecard PDF for ${slug}:`, error);
+    return apiError('Failed to generate scorecard PDF', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+}
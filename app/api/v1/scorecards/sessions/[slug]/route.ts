@@ -0,0 +1,27 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { getPublicSession, scorecardJson } from '@/lib/scorecard/public-api';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode } from '@/lib/api/errors';
+
+// GET /api/v1/scorecards/sessions/[slug] — one public scorecard session (docs/scorecard-api.md)
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const rateLimited = applyRateLimit(request, 'public');
+  if (rateLimited) return rateLimited;
+
+  const { slug } = await params;
+
+  try {
+    const session = await getPublicSession(createServerClient(), slug);
+    if (!session) {
+      return apiError('Scorecard not found', ApiErrorCode.NOT_FOUND, 404);
+    }
+    return scorecardJson(session);
+  } catch (error) {
+    logger.error(`Error fetching scorecard session ${slug}:`, error);
+    return apiError('Failed to fetch scorecard session', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+}
@@ -0,0 +1,51 @@
+import { createServerClient } from '@/lib/supabase/server';
+import {
+  SCORE_CSV_COLUMNS,
+  getPublicSession,
+  listSessionScores,
+  parsePagination,
+  scorecardCsv,
+  scorecardCsvFilename,
+  scorecardJson,
+  toCsv,
+} from '@/lib/scorecard/public-api';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode } from '@/lib/api/errors';
+
+// GET /api/v1/scorecards/sessions/[slug]/scores[?limit=&offset=|?format=csv] — legislator liberty scores, highest first
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const rateLimited = applyRateLimit(request, 'public');
+  if (rateLimited) return rateLimited;
+
+  const { slug } = await params;
+  const { searchParams } = new URL(request.url);
+  const format = searchParams.get('format') || 'json';
+  if (!['json', 'csv'].includes(format)) {
+    return apiError('Invalid format. Use json or csv', ApiErrorCode.VALIDATION_ERROR, 400);
+  }
+
+  try {
+    const supabase = createServerClient();
+    const session = await getPublicSession(supabase, slug);
+    if (!session) {
+      return apiError('Scorecard not found', ApiErrorCode.NOT_FOUND, 404);
+    }
+
+    // CSV is the bulk download, so it ignores pagination
+    if (format === 'csv') {
+      const { rows } = await listSessionScores(supabase, session.id, null);
+      return scorecardCsv(toCsv(SCORE_CSV_COLUMNS, rows), scorecardCsvFilename(slug, 'scores'));
+    }
+
+    const page = parsePagination(searchParams);
+    const { rows, total } = await listSessionScores(supabase, session.id, page);
+    return scorecardJson(rows, { ...page, total });
+  } catch (error) {
+    logger.error(`Error fetching scorecard scores for ${slug}:`, error);
+    return apiError('Failed to fetch scorecard scores', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+}
@@ -0,0 +1,51 @@
+import { createServerClient } from '@/lib/supabase/server';
+import {
+  VOTE_CSV_COLUMNS,
+  getPublicSession,
+  listSessionVotes,
+  parsePagination,
+  scorecardCsv,
+  scorecardCsvFilename,
+  scorecardJson,
+  toCsv,
+} from '@/lib/scorecard/public-api';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode } from '@/lib/api/errors';
+
+// GET /api/v1/scorecards/sessions/[slug]/votes[?limit=&offset=|?format=csv] — every legislator's vote on each scored bill
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const rateLimited = applyRateLimit(request, 'public');
+  if (rateLimited) return rateLimited;
+
+  const { slug } = await params;
+  const { searchParams } = new URL(request.url);
+  const format = searchParams.get('format') || 'json';
+  if (!['json', 'csv'].includes(format)) {
+    return apiError('Invalid format. Use json or csv', ApiErrorCode.VALIDATION_ERROR, 400);
+  }
+
+  try {
+    const supabase = createServerClient();
+    const session = await getPublicSession(supabase, slug);
+    if (!session) {
+      return apiError('Scorecard not found', ApiErrorCode.NOT_FOUND, 404);
+    }
+
+    // CSV is the bulk download, so it ignores pagination
+    if (format === 'csv') {
+      const { rows } = await listSessionVotes(supabase, session.id, null);
+      return scorecardCsv(toCsv(VOTE_CSV_COLUMNS, rows), scorecardCsvFilename(slug, 'votes'));
+    }
+
+    const page = parsePagination(searchParams);
+    const { rows, total } = await listSessionVotes(supabase, session.id, page);
+    return scorecardJson(rows, { ...page, total });
+  } catch (error) {
+    logger.error(`Error fetching scorecard votes for ${slug}:`, error);
+    return apiError('Failed to fetch scorecard votes', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+}
@@ -0,0 +1,21 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { listPublicSessions, parsePagination, scorecardJson } from '@/lib/scorecard/public-api';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { logger } from '@/lib/logger';
+import { apiError, ApiErrorCode } from '@/lib/api/errors';
+
+// GET /api/v1/scorecards/sessions — public scorecard sessions, newest first (docs/scorecard-api.md)
+export async function GET(request: Request) {
+  const rateLimited = applyRateLimit(request, 'public');
+  if (rateLimited) return rateLimited;
+
+  const page = parsePagination(new URL(request.url).searchParams);
+
+  try {
+    const { rows, total } = await listPublicSessions(createServerClient(), page);
+    return scorecardJson(rows, { ...page, total });
+  } catch (error) {
+    logger.error('Error listing scorecard sessions:', error);
+    return apiError('Failed to fetch scorecard sessions', ApiErrorCode.INTERNAL_ERROR, 500);
+  }
+}
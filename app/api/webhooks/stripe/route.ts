@@ -1,11 +1,21 @@
 import Stripe from 'stripe';
 import { headers } from 'next/headers';
 import { createServerClient } from '@/lib/supabase/server';
-import { getStripe, MEMBERSHIP_TIERS, getTierConfig, getMembershipPaymentDescription } from '@/lib/stripe/client';
+import {
+  getStripe,
+  MEMBERSHIP_TIERS,
+  MEMBERSHIP_TERMS,
+  getTierConfig,
+  getMembershipPaymentDescription,
+  getTermExpiryDate,
+} from '@/lib/stripe/client';
 import { syncMemberToHighLevel } from '@/lib/highlevel/client';
 import { triggerWelcomeSequence } from '@/lib/highlevel/notifications';
 import { processDuesSplit, resolveCharterByState } from '@/lib/dues-sharing/split-engine';
-import type { Contact, MembershipTier, MembershipStatus } from '@/types';
+import { getReplacedPriceCents } from '@/lib/stripe/tier-change';
+import { fulfillGiftMembership } from '@/lib/stripe/gift-membership';
+import { recordPaymentFailure, resolveDunning } from '@/lib/stripe/dunning';
+import type { Contact, MembershipTerm, MembershipTier, MembershipStatus, MembershipStatusReason } from '@/types';
 import { logger } from '@/lib/logger';
 
 const VALID_TIERS = new Set(MEMBERSHIP_TIERS.map((t) => t.tier));
@@ -14,6 +24,12 @@ function isValidTier(tier: string): tier is MembershipTier {
   return VALID_TIERS.has(tier as MembershipTier);
 }
 
+const VALID_TERMS = new Set(MEMBERSHIP_TERMS.map((t) => t.term));
+
+function isValidTerm(term: string): term is MembershipTerm {
+  return VALID_TERMS.has(term as MembershipTerm);
+}
+
 // Map Stripe subscription statuses to our membership statuses
 const SUBSCRIPTION_STATUS_MAP: Record<string, MembershipStatus> = {
   active: 'current',
@@ -25,6 +41,12 @@ const SUBSCRIPTION_STATUS_MAP: Record<string, MembershipStatus> = {
   incomplete_expired: 'expired',
 };
 
+// Reason codes for subscription states that leave good standing; all others clear it
+const SUBSCRIPTION_STATUS_REASON_MAP: Record<string, MembershipStatusReason> = {
+  past_due: 'payment_failed',
+  unpaid: 'payment_abandoned',
+};
+
 // Helper to create a membership history record (non-fatal audit trail)
 async function createMembershipRecord(
   supabase: ReturnType<typeof createServerClient>,
@@ -33,8 +55,9 @@ async function createMembershipRecord(
     tier: MembershipTier;
     status: MembershipStatus;
     startDate: string;
-    expiryDate: string;
+    expiryDate: string | null;
     joinDate: string;
+    term?: MembershipTerm;
     amount: number;
     currency: string;
     isAutoRenew: boolean;
@@ -51,6 +74,7 @@ async function createMembershipRecord(
         start_date: params.startDate,
         expiry_date: params.expiryDate,
         join_date: params.joinDate,
+        membership_term: params.term ?? 'annual',
         amount: params.amount,
         currency: params.currency,
         is_auto_renew: params.isAutoRenew,
@@ -219,6 +243,11 @@ async function handleCheckoutComplete(
     return;
   }
 
+  if (checkoutType === 'gift_membership') {
+    await fulfillGiftMembership(supabase, session);
+    return;
+  }
+
   const customerId = session.customer as string;
   const tier = session.metadata?.tier;
   const memberId = session.metadata?.member_id;
@@ -249,6 +278,13 @@ async function handleCheckoutComplete(
   }
   const membershipTier = tier;
 
+  // Sessions created before multi-year terms existed carry no term
+  const termMetadata = session.metadata?.term || 'annual';
+  if (!isValidTerm(termMetadata)) {
+    throw new Error(`Invalid term metadata "${termMetadata}" for checkout session ${session.id}`);
+  }
+  const membershipTerm = termMetadata;
+
   // Find the member by ID (if provided) or email
   let member: Contact | null = null;
 
@@ -404,10 +440,10 @@ async function handleCheckoutComplete(
   // Backfill member state from Stripe billing address if missing
   const resolvedState = member.state || session.customer_details?.address?.state || null;
 
-  // Calculate membership dates: 1 year from now
+  // Calculate membership dates from the purchased term (lifetime never expires)
   const now = new Date();
-  const expiryDate = new Date(now);
-  expiryDate.setFullYear(expiryDate.getFullYear() + 1);
+  const expiryDate = getTermExpiryDate(membershipTerm, now);
+  const expiryIso = expiryDate ? expiryDate.toISOString() : null;
 
   // Update member with Stripe info, tier, dates, and charter assignment
   const { error: updateError } = await supabase
@@ -416,9 +452,11 @@ async function handleCheckoutComplete(
       stripe_customer_id: customerId,
       membership_tier: membershipTier,
       membership_status: 'new_member',
+      membership_status_reason: null,
       membership_start_date: now.toISOString(),
-      membership_expiry_date: expiryDate.toISOString(),
+      membership_expiry_date: expiryIso,
       membership_join_date: member.membership_join_date || now.toISOString(),
+      membership_term: membershipTerm,
       ...(assignedCharterId && !member.primary_charter_id ? { primary_charter_id: assignedCharterId } : {}),
       ...(resolvedState && !member.state ? { state: resolvedState } : {}),
     } as never)
@@ -441,6 +479,7 @@ async function handleCheckoutComplete(
       payment_status: 'completed',
       is_recurring: session.mode === 'subscription',
       charter_id: assignedCharterId || null,
+      ...(membershipTerm !== 'annual' ? { metadata: { membership_term: membershipTerm } } : {}),
     } as never)
     .select('id')
     .single();
@@ -465,14 +504,20 @@ async function handleCheckoutComplete(
     tier: membershipTier,
     status: 'new_member',
     startDate: now.toISOString(),
-    expiryDate: expiryDate.toISOString(),
+    expiryDate: expiryIso,
     joinDate: member.membership_join_date || now.toISOString(),
+    term: membershipTerm,
     amount: (session.amount_total || 0) / 100,
     currency: session.currency?.toUpperCase() || 'USD',
     isAutoRenew: session.mode === 'subscription',
     stripeSubscriptionId: (session.subscription as string) || null,
   });
 
+  // A prepaid term replaces any auto-renewing website subscription (non-fatal)
+  if (membershipTerm !== 'annual') {
+    await cancelWebsiteSubscription(supabase, member.id);
+  }
+
   // Sync to HighLevel (non-fatal)
   try {
     await syncMemberToHighLevel({
@@ -488,7 +533,7 @@ async function handleCheckoutComplete(
       membershipTier,
       membershipStatus: 'new_member',
       membershipStartDate: now.toISOString(),
-      membershipExpiryDate: expiryDate.toISOString(),
+      membershipExpiryDate: expiryIso,
       membershipJoinDate: member.membership_join_date || now.toISOString(),
     });
 
@@ -498,7 +543,40 @@ async function handleCheckoutComplete(
     logger.error('HighLevel sync failed (non-fatal):', hlError);
   }
 
-  logger.info(`Checkout completed for member ${member.id}: tier=${membershipTier}`);
+  logger.info(`Checkout completed for member ${member.id}: tier=${membershipTier}, term=${membershipTerm}`);
+}
+
+/**
+ * Cancel the member's most recent website subscription, if still live.
+ * Called when a multi-year or lifetime purchase supersedes annual auto-renewal.
+ */
+async function cancelWebsiteSubscription(
+  supabase: ReturnType<typeof createServerClient>,
+  contactId: string
+): Promise<void> {
+  try {
+    const { data } = await supabase
+      .from('rlc_memberships')
+      .select('stripe_subscription_id')
+      .eq('contact_id', contactId)
+      .eq('is_auto_renew', true)
+      .not('stripe_subscription_id', 'is', null)
+      .order('start_date', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const subscriptionId = (data as { stripe_subscription_id: string | null } | null)?.stripe_subscription_id;
+    if (!subscriptionId) return;
+
+    const stripe = getStripe();
+    const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+    if (subscription.status === 'canceled' || subscription.status === 'incomplete_expired') return;
+
+    await stripe.subscriptions.cancel(subscriptionId);
+    logger.info(`Cancelled subscription ${subscriptionId} for member ${contactId}: replaced by prepaid term`);
+  } catch (err) {
+    logger.error(`Failed to cancel website subscription for member ${contactId} (non-fatal):`, err);
+  }
 }
 
 async function handleSubscriptionChange(
@@ -514,14 +592,25 @@ async function handleSubscriptionChange(
     return;
   }
 
+  // Prepaid terms are no longer driven by the subscription they replaced
+  if (member.membership_term !== 'annual') {
+    logger.info(`handleSubscriptionChange: member ${member.id} holds a ${member.membership_term} term, skipping`);
+    return;
+  }
+
   const membershipStatus = SUBSCRIPTION_STATUS_MAP[subscription.status] || 'pending';
 
+  // In-app tier changes stamp the new tier on the subscription
+  const metadataTier = subscription.metadata?.tier;
+
   const { error: updateError } = await supabase
     .from('rlc_contacts')
     .update({
       membership_status: membershipStatus,
+      membership_status_reason: SUBSCRIPTION_STATUS_REASON_MAP[subscription.status] ?? null,
       membership_start_date: new Date(subscription.current_period_start * 1000).toISOString(),
       membership_expiry_date: new Date(subscription.current_period_end * 1000).toISOString(),
+      ...(metadataTier && isValidTier(metadataTier) ? { membership_tier: metadataTier } : {}),
     } as never)
     .eq('id', member.id);
 
@@ -546,6 +635,12 @@ async function handleSubscriptionCancelled(
     return;
   }
 
+  // Cancelling an annual subscription after buying a prepaid term must not end the membership
+  if (member.membership_term !== 'annual') {
+    logger.info(`handleSubscriptionCancelled: member ${member.id} holds a ${member.membership_term} term, skipping`);
+    return;
+  }
+
   const { error: updateError } = await supabase
     .from('rlc_contacts')
     .update({ membership_status: 'cancelled' } as never)
@@ -579,13 +674,16 @@ async function handleInvoicePaid(
     return;
   }
 
-  // Idempotency check
+  // Idempotency check. Only a completed row counts: handleInvoiceFailed records
+  // a failed row under the same payment intent, and a successful retry of that
+  // charge must still renew the member and close dunning.
   const paymentIntentId = (invoice.payment_intent as string | null) || null;
   if (paymentIntentId) {
     const { data: existing } = await supabase
       .from('rlc_contributions')
       .select('id')
       .eq('stripe_payment_intent_id', paymentIntentId)
+      .eq('payment_status', 'completed')
       .single();
 
     if (existing) {
@@ -594,6 +692,12 @@ async function handleInvoicePaid(
     }
   }
 
+  // Prorated tier upgrade: record and split the difference, but it is not a renewal
+  if (invoice.billing_reason === 'subscription_update') {
+    await handleTierChangeInvoice(supabase, member, invoice, paymentIntentId);
+    return;
+  }
+
   // Set descriptive payment description for renewal (matches CiviCRM format)
   if (paymentIntentId && member.membership_tier) {
     const tierConfig = getTierConfig(member.membership_tier);
@@ -621,6 +725,7 @@ async function handleInvoicePaid(
     .from('rlc_contacts')
     .update({
       membership_status: 'current',
+      membership_status_reason: null,
       membership_start_date: renewalStart.toISOString(),
       membership_expiry_date: expiryDate.toISOString(),
     } as never)
@@ -631,6 +736,15 @@ async function handleInvoicePaid(
     throw memberUpdateError;
   }
 
+  // A successful retry ends any failed-payment sequence (non-fatal)
+  if (invoice.subscription) {
+    try {
+      await resolveDunning(supabase, { member, subscriptionId: invoice.subscription as string, now });
+    } catch (dunningError) {
+      logger.error(`Failed to resolve dunning for member ${member.id} (non-fatal):`, dunningError);
+    }
+  }
+
   // Attribute renewal to member's current charter (at time of renewal)
   const { data: contributionRow, error: insertError } = await supabase
     .from('rlc_contributions')
@@ -700,6 +814,55 @@ async function handleInvoicePaid(
   logger.info(`Invoice paid (renewal) for member ${member.id}`);
 }
 
+async function handleTierChangeInvoice(
+  supabase: ReturnType<typeof createServerClient>,
+  member: Contact,
+  invoice: Stripe.Invoice,
+  paymentIntentId: string | null
+) {
+  if (!invoice.amount_paid) {
+    logger.info(`Tier change invoice ${invoice.id} for member ${member.id} had nothing to pay, skipping`);
+    return;
+  }
+
+  const lines = invoice.lines?.data ?? [];
+  const { data: contributionRow, error: insertError } = await supabase
+    .from('rlc_contributions')
+    .insert({
+      contact_id: member.id,
+      contribution_type: 'membership',
+      amount: invoice.amount_paid / 100,
+      currency: invoice.currency?.toUpperCase() || 'USD',
+      stripe_payment_intent_id: paymentIntentId,
+      payment_status: 'completed',
+      is_recurring: true,
+      charter_id: member.primary_charter_id || null,
+      // The split engine only charges National's fee on the increase
+      metadata: {
+        tier_change: true,
+        stripe_invoice_id: invoice.id,
+        prior_payment_cents: getReplacedPriceCents(lines) ?? 0,
+      },
+    } as never)
+    .select('id')
+    .single();
+
+  if (insertError) {
+    logger.error(`Failed to record tier change payment for member ${member.id}:`, insertError);
+    throw insertError;
+  }
+
+  if (contributionRow) {
+    try {
+      await processDuesSplit((contributionRow as { id: string }).id);
+    } catch (splitError) {
+      logger.error(`Dues split failed for tier change contribution ${(contributionRow as { id: string }).id} (non-fatal):`, splitError);
+    }
+  }
+
+  logger.info(`Tier change payment recorded for member ${member.id}: ${invoice.amount_paid}c`);
+}
+
 async function handleInvoiceFailed(
   supabase: ReturnType<typeof createServerClient>,
   invoice: Stripe.Invoice
@@ -713,6 +876,12 @@ async function handleInvoiceFailed(
     return;
   }
 
+  // Track the attempt, move the member to grace, and send the dunning notice
+  const dunning = await recordPaymentFailure(supabase, { member, invoice });
+  if (!dunning.recorded && dunning.reason === 'duplicate') {
+    return;
+  }
+
   const { error: insertError } = await supabase.from('rlc_contributions').insert({
     contact_id: member.id,
     contribution_type: 'membership',
@@ -781,7 +950,7 @@ async function handleDonationCheckout(
     }
   }
 
-  const { error: insertError } = await supabase.from('rlc_contributions').insert({
+  const { data: contributionRow, error: insertError } = await supabase.from('rlc_contributions').insert({
     contact_id: resolvedMemberId,
     contribution_type: 'donation',
     amount: (session.amount_total || 0) / 100,
@@ -793,13 +962,24 @@ async function handleDonationCheckout(
     is_recurring: session.mode === 'subscription',
     source: 'website',
     metadata: { donor_email: memberEmail },
-  } as never);
+  } as never)
+    .select('id')
+    .single();
 
   if (insertError) {
     logger.error(`Failed to record donation:`, insertError);
     throw insertError;
   }
 
+  // Split per the national fee schedule, if one covers donations (non-fatal)
+  if (contributionRow) {
+    try {
+      await processDuesSplit((contributionRow as { id: string }).id);
+    } catch (splitError) {
+      logger.error(`Dues split failed for contribution ${(contributionRow as { id: string }).id} (non-fatal):`, splitError);
+    }
+  }
+
   logger.info(`Donation completed: $${(session.amount_total || 0) / 100} from ${memberEmail}`);
 }
 
@@ -866,6 +1046,15 @@ async function handleAccountUpdated(
     throw updateError;
   }
 
+  // Payouts are back on: release parked entries for the next transfer-retries run
+  if (payoutsEnabled) {
+    const { releaseParkedEntries } = await import('@/lib/dues-sharing/transfer-retry');
+    const released = await releaseParkedEntries(supabase, row.charter_id);
+    if (released > 0) {
+      logger.info(`account.updated: Released ${released} parked ledger entries for charter ${row.charter_id}`);
+    }
+  }
+
   // If newly active, drain pending ledger entries
   if (newStatus === 'active' && row.status !== 'active') {
     await drainPendingLedgerEntries(supabase, row.charter_id, stripeAccountId);
@@ -884,6 +1073,14 @@ async function drainPendingLedgerEntries(
 ) {
   // Import transfer function lazily to avoid circular deps
   const { executeTransfer } = await import('@/lib/dues-sharing/transfer-engine');
+  const { getBatchedCharterIds } = await import('@/lib/dues-sharing/payout-batcher');
+
+  // Charters on a batched cadence are paid by the dues-payouts cron instead
+  const batched = await getBatchedCharterIds(supabase, [charterId]);
+  if (batched.has(charterId)) {
+    logger.info(`drainPendingLedgerEntries: Charter ${charterId} uses batched payouts, leaving entries for the payout cron`);
+    return;
+  }
 
   // Atomic claim: UPDATE status to 'processing' WHERE status='pending', then SELECT
   // This prevents duplicate transfers if drain is called concurrently
@@ -892,7 +1089,7 @@ async function drainPendingLedgerEntries(
     .update({ status: 'processing' } as never)
     .eq('recipient_charter_id', charterId)
     .eq('status', 'pending')
-    .select('id, amount, stripe_transfer_group_id')
+    .select('id, amount, stripe_transfer_group_id, retry_count')
     .limit(50);
 
   if (error) {
@@ -908,17 +1105,23 @@ async function drainPendingLedgerEntries(
   logger.info(`Draining ${pendingEntries.length} pending ledger entries for charter ${charterId}`);
 
   for (const entry of pendingEntries) {
-    const row = entry as { id: string; amount: number; stripe_transfer_group_id: string | null };
+    const row = entry as {
+      id: string;
+      amount: number;
+      stripe_transfer_group_id: string | null;
+      retry_count: number | null;
+    };
     try {
       await executeTransfer({
         ledgerEntryId: row.id,
         amountCents: Math.round(Number(row.amount) * 100),
         destinationAccountId: stripeAccountId,
         transferGroup: row.stripe_transfer_group_id || undefined,
+        retryCount: row.retry_count ?? 0,
       });
     } catch (transferError) {
       logger.error(`Failed to drain ledger entry ${row.id} (non-fatal):`, transferError);
-      // executeTransfer already marks the entry as 'failed' on Stripe error
+      // executeTransfer already marks the entry as 'failed' and schedules a retry
     }
   }
 }
@@ -937,11 +1140,13 @@ async function handleChargeRefunded(
     return;
   }
 
-  // Find the contribution
+  // Find the contribution. A renewal that failed and was then paid on retry has a
+  // 'failed' row next to the completed one under the same payment intent.
   const { data: contribution, error: contribError } = await supabase
     .from('rlc_contributions')
     .select('id, amount, contribution_type')
     .eq('stripe_payment_intent_id', paymentIntentId)
+    .eq('payment_status', 'completed')
     .single();
 
   if (contribError) {
@@ -967,7 +1172,7 @@ async function handleChargeRefunded(
   // Get original ledger entries for this contribution (excluding existing reversals)
   const { data: ledgerEntries, error: ledgerError } = await supabase
     .from('rlc_split_ledger_entries')
-    .select('id, amount, status, stripe_transfer_id, recipient_charter_id, source_type')
+    .select('id, amount, status, stripe_transfer_id, recipient_charter_id, source_type, payout_batch_id')
     .eq('contribution_id', contribRow.id)
     .is('reversal_of_id', null);
 
@@ -1018,6 +1223,7 @@ async function handleChargeRefunded(
       stripe_transfer_id: string | null;
       recipient_charter_id: string;
       source_type: string;
+      payout_batch_id?: string | null;
     };
 
     // Skip entries already reversed or failed
@@ -1033,9 +1239,14 @@ async function handleChargeRefunded(
     }
 
     if (row.status === 'transferred' && row.stripe_transfer_id) {
-      // Entry was transferred — reverse the Stripe transfer first
+      // Entry was transferred — reverse the Stripe transfer first.
+      // A batched transfer covers many entries, so only claw back this entry's share.
       try {
-        await reverseTransfer(row.stripe_transfer_id);
+        if (row.payout_batch_id) {
+          await reverseTransfer(row.stripe_transfer_id, reversalAmountCents);
+        } else {
+          await reverseTransfer(row.stripe_transfer_id);
+        }
       } catch (reverseError) {
         logger.error(`Failed to reverse transfer ${row.stripe_transfer_id}:`, reverseError);
         // Mark original as failed (Stripe reversal failed, money still at charter)
@@ -1075,8 +1286,9 @@ async function handleChargeRefunded(
         logger.error(`Failed to mark entry ${row.id} as reversed:`, updateErr);
         throw new Error(`Database error updating entry status: ${updateErr.message}`);
       }
-    } else if (row.status === 'pending' || row.status === 'processing') {
-      // C7: Entry was never transferred — mark as reversed directly (no Stripe call)
+    } else if (row.status === 'pending' || row.status === 'processing' || row.status === 'scheduled') {
+      // C7: Entry was never transferred (scheduled = amortized share not yet released)
+      // — mark as reversed directly (no Stripe call)
       const { error: insertErr } = await supabase.from('rlc_split_ledger_entries').insert({
         contribution_id: contribRow.id,
         source_type: row.source_type,
@@ -5,7 +5,10 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Search, Landmark, Building2, MapPin, Scale, Building } from 'lucide-react';
 import { RepCard } from '@/components/action-center/rep-card';
+import { MessageComposer } from '@/components/action-center/message-composer';
+import { CallPanel } from '@/components/action-center/call-panel';
 import type { OfficialCategory } from '@/lib/civic/client';
+import type { CampaignActionType } from '@/types';
 
 interface Official {
   name: string;
@@ -17,6 +20,9 @@ interface Official {
   channels: Array<{ type: string; id: string }>;
   office: string;
   category: OfficialCategory;
+  districtType: string | null;
+  stateCode: string | null;
+  district: string | null;
 }
 
 const CATEGORY_CONFIG: Record<OfficialCategory, { label: string; icon: typeof Landmark }> = {
@@ -35,11 +41,24 @@ const CATEGORY_ORDER: OfficialCategory[] = [
   'local',
 ];
 
+// Campaign messages and calls go to legislators only
+const MESSAGE_CATEGORIES: OfficialCategory[] = ['federal_legislature', 'state_legislature'];
+
 interface Props {
   showResults?: boolean;
+  /** Active campaign whose message or call script is offered to each legislator */
+  campaign?: {
+    id: string;
+    slug: string;
+    actionType: CampaignActionType;
+    messageTemplate: string | null;
+    callScript: string | null;
+    aiVariation: boolean;
+    bill: { number: string; title: string } | null;
+  } | null;
 }
 
-export function AddressLookup({ showResults = false }: Props) {
+export function AddressLookup({ showResults = false, campaign = null }: Props) {
   const router = useRouter();
   const searchParams = useSearchParams();
   const [address, setAddress] = useState('');
@@ -99,7 +118,9 @@ export function AddressLookup({ showResults = false }: Props) {
     if (!address.trim()) return;
 
     if (!showResults) {
-      router.push(`/action-center/contact?address=${encodeURIComponent(address)}`);
+      router.push(
+        `/action-center/contact?address=${encodeURIComponent(address)}${campaign ? `&campaign=${campaign.slug}` : ''}`
+      );
       return;
     }
 
@@ -143,9 +164,37 @@ export function AddressLookup({ showResults = false }: Props) {
                     <span className="text-sm text-muted-foreground">({groupOfficials.length})</span>
                   </div>
                   <div className="grid gap-4 md:grid-cols-2">
-                    {groupOfficials.map((official, idx) => (
-                      <RepCard key={`${official.name}-${idx}`} official={official} />
-                    ))}
+                    {groupOfficials.map((official, idx) =>
+                      campaign && MESSAGE_CATEGORIES.includes(category) ? (
+                        <div key={`${official.name}-${idx}`} className="space-y-3">
+                          <RepCard official={official} />
+                          {campaign.actionType === 'call' ? (
+                            <CallPanel
+                              campaignId={campaign.id}
+                              script={campaign.callScript}
+                              official={official}
+                              fields={{ bill_number: campaign.bill?.number, bill_title: campaign.bill?.title }}
+                            />
+                          ) : campaign.messageTemplate ? (
+                            <MessageComposer
+                              template={campaign.messageTemplate}
+                              recipientName={official.name}
+                              recipientEmail={official.emails[0]}
+                              officeName={official.office}
+                              fields={{
+                                district: official.district,
+                                bill_number: campaign.bill?.number,
+                                bill_title: campaign.bill?.title,
+                              }}
+                              campaignId={campaign.id}
+                              aiVariation={campaign.aiVariation}
+                            />
+                          ) : null}
+                        </div>
+                      ) : (
+                        <RepCard key={`${official.name}-${idx}`} official={official} />
+                      )
+                    )}
                   </div>
                 </section>
               );
@@ -0,0 +1,144 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Check, Phone } from 'lucide-react';
+import { renderCampaignMessage, type CampaignMessageFields } from '@/lib/campaigns/message';
+import {
+  CALL_OUTCOME_LABELS,
+  CALL_OUTCOMES,
+  LEGISLATOR_POSITION_LABELS,
+  LEGISLATOR_POSITIONS,
+  type CallOutcome,
+  type LegislatorPosition,
+} from '@/lib/campaigns/call-survey';
+
+interface Props {
+  campaignId: string;
+  script: string | null;
+  official: {
+    name: string;
+    office: string;
+    phones: string[];
+    district?: string | null;
+  };
+  /** Other merge fields for the script, e.g. the campaign bill */
+  fields?: Omit<CampaignMessageFields, 'representative' | 'office'>;
+}
+
+export function CallPanel({ campaignId, script, official, fields }: Props) {
+  const [outcome, setOutcome] = useState<CallOutcome | ''>('');
+  const [position, setPosition] = useState<LegislatorPosition>('unknown');
+  const [saving, setSaving] = useState(false);
+  const [logged, setLogged] = useState(false);
+  const [error, setError] = useState('');
+
+  const phone = official.phones[0];
+
+  async function logCall(e: React.FormEvent) {
+    e.preventDefault();
+    if (!outcome) return;
+    setSaving(true);
+    setError('');
+
+    try {
+      const res = await fetch(`/api/v1/campaigns/${campaignId}/calls`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          officialName: official.name,
+          office: official.office,
+          outcome,
+          position,
+        }),
+      });
+
+      if (res.ok) {
+        setLogged(true);
+        return;
+      }
+
+      const data = await res.json().catch(() => ({}));
+      setError(res.status === 401 ? 'Sign in to log your call.' : data.error || 'Failed to log call');
+    } catch {
+      setError('Failed to log call');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="rounded-lg border bg-card p-4">
+      <div className="mb-3 flex items-center justify-between gap-2">
+        <h4 className="text-sm font-medium">Call {official.name}</h4>
+        {phone ? (
+          <Button asChild size="sm" className="bg-rlc-red hover:bg-rlc-red/90">
+            <a href={`tel:${phone}`}>
+              <Phone className="mr-2 h-4 w-4" />
+              {phone}
+            </a>
+          </Button>
+        ) : (
+          <span className="text-xs text-muted-foreground">No office phone listed</span>
+        )}
+      </div>
+
+      {script && (
+        <div className="mb-4 rounded-md bg-muted/30 p-3">
+          <p className="mb-1 text-xs font-semibold uppercase tracking-wider text-muted-foreground">Call script</p>
+          <p className="whitespace-pre-wrap text-sm">
+            {renderCampaignMessage(script, {
+              district: official.district,
+              ...fields,
+              representative: official.name,
+              office: official.office,
+            })}
+          </p>
+        </div>
+      )}
+
+      {logged ? (
+        <p className="flex items-center gap-2 text-sm text-green-700">
+          <Check className="h-4 w-4" /> Thanks for calling. Your call has been logged.
+        </p>
+      ) : (
+        <form onSubmit={logCall} className="space-y-3">
+          <fieldset>
+            <legend className="mb-1 text-sm font-medium">How did the call go?</legend>
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+              {CALL_OUTCOMES.map((o) => (
+                <label key={o} className="flex items-center gap-1.5 text-sm">
+                  <input
+                    type="radio"
+                    name={`outcome-${official.name}`}
+                    value={o}
+                    checked={outcome === o}
+                    onChange={() => setOutcome(o)}
+                    required
+                  />
+                  {CALL_OUTCOME_LABELS[o]}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          <label className="block text-sm">
+            <span className="mb-1 block font-medium">Where does {official.name} stand?</span>
+            <select
+              value={position}
+              onChange={(e) => setPosition(e.target.value as LegislatorPosition)}
+              className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+            >
+              {LEGISLATOR_POSITIONS.map((p) => (
+                <option key={p} value={p}>{LEGISLATOR_POSITION_LABELS[p]}</option>
+              ))}
+            </select>
+          </label>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <Button type="submit" size="sm" variant="outline" disabled={saving || !outcome}>
+            {saving ? 'Saving...' : 'Log Call'}
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -2,21 +2,50 @@
 
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { Copy, Check, Mail } from 'lucide-react';
+import { Copy, Check, Eye, Mail, Send } from 'lucide-react';
+import { renderCampaignMessage, type CampaignMessageFields } from '@/lib/campaigns/message';
+import type { ComposedMessage } from '@/lib/campaigns/personalize';
 
 interface Props {
   template: string;
   recipientName: string;
   recipientEmail?: string;
   officeName: string;
+  /** Other merge fields known before sending, e.g. the district and campaign bill */
+  fields?: Omit<CampaignMessageFields, 'representative' | 'office'>;
+  /** When set, the message can be sent through the site on the member's behalf */
+  campaignId?: string;
+  /** Sent messages are reworded for each member */
+  aiVariation?: boolean;
 }
 
-export function MessageComposer({ template, recipientName, recipientEmail, officeName }: Props) {
+/** `previewId` is set for AI-varied campaigns: the stored preview delivery sends */
+type PreviewedMessage = ComposedMessage & { previewId: string | null };
+
+type SendState =
+  | { status: 'idle' }
+  | { status: 'previewing' }
+  | { status: 'approving'; preview: PreviewedMessage }
+  | { status: 'sending'; preview: PreviewedMessage }
+  | { status: 'sent'; preview: PreviewedMessage }
+  | { status: 'error'; message: string };
+
+export function MessageComposer({
+  template,
+  recipientName,
+  recipientEmail,
+  officeName,
+  fields,
+  campaignId,
+  aiVariation = false,
+}: Props) {
   const [copied, setCopied] = useState(false);
+  const [send, setSend] = useState<SendState>({ status: 'idle' });
 
-  const message = template
-    .replace(/\{representative\}/g, recipientName)
-    .replace(/\{office\}/g, officeName);
+  const preview = 'preview' in send ? send.preview : null;
+  const approving = send.status === 'approving' || send.status === 'sending';
+  const message =
+    preview?.body ?? renderCampaignMessage(template, { ...fields, representative: recipientName, office: officeName });
 
   async function copyMessage() {
     await navigator.clipboard.writeText(message);
@@ -24,6 +53,60 @@ export function MessageComposer({ template, recipientName, recipientEmail, offic
     setTimeout(() => setCopied(false), 2000);
   }
 
+  function errorMessage(status: number, error: string | undefined, fallback: string): string {
+    return status === 401 ? 'Sign in to send this message.' : error || fallback;
+  }
+
+  // The server fills in the member's details (and rewords AI-varied campaigns) so they can approve the exact text
+  async function previewMessage() {
+    if (!campaignId) return;
+    setSend({ status: 'previewing' });
+
+    try {
+      const res = await fetch(`/api/v1/campaigns/${campaignId}/preview`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ officialName: recipientName, office: officeName }),
+      });
+      const data = await res.json().catch(() => ({}));
+
+      if (res.ok) {
+        setSend({ status: 'approving', preview: { ...data.message, previewId: data.previewId ?? null } });
+        return;
+      }
+      setSend({ status: 'error', message: errorMessage(res.status, data.error, 'Failed to prepare message') });
+    } catch {
+      setSend({ status: 'error', message: 'Failed to prepare message' });
+    }
+  }
+
+  async function sendMessage(approved: PreviewedMessage) {
+    if (!campaignId) return;
+    setSend({ status: 'sending', preview: approved });
+
+    try {
+      const res = await fetch(`/api/v1/campaigns/${campaignId}/deliver`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          officialName: recipientName,
+          office: officeName,
+          previewId: approved.previewId ?? undefined,
+        }),
+      });
+
+      if (res.ok) {
+        setSend({ status: 'sent', preview: approved });
+        return;
+      }
+
+      const data = await res.json().catch(() => ({}));
+      setSend({ status: 'error', message: errorMessage(res.status, data.error, 'Failed to send message') });
+    } catch {
+      setSend({ status: 'error', message: 'Failed to send message' });
+    }
+  }
+
   const subject = `Constituent Message - Liberty Issues`;
   const mailtoUrl = recipientEmail
     ? `mailto:${recipientEmail}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(message)}`
@@ -45,6 +128,39 @@ export function MessageComposer({ template, recipientName, recipientEmail, offic
               </Button>
             </a>
           )}
+          {campaignId && approving && preview ? (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setSend({ status: 'idle' })}
+                disabled={send.status === 'sending'}
+              >
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => sendMessage(preview)}
+                disabled={send.status === 'sending'}
+                className="bg-rlc-red hover:bg-rlc-red/90"
+              >
+                <Send className="mr-2 h-4 w-4" />
+                {send.status === 'sending' ? 'Sending...' : 'Approve & Send'}
+              </Button>
+            </>
+          ) : (
+            campaignId && (
+              <Button
+                size="sm"
+                onClick={previewMessage}
+                disabled={send.status === 'previewing' || send.status === 'sent'}
+                className="bg-rlc-red hover:bg-rlc-red/90"
+              >
+                {send.status === 'sent' ? <Check className="mr-2 h-4 w-4" /> : <Eye className="mr-2 h-4 w-4" />}
+                {send.status === 'previewing' ? 'Preparing...' : send.status === 'sent' ? 'Sent' : 'Review & Send'}
+              </Button>
+            )
+          )}
         </div>
       </div>
       <textarea
@@ -53,6 +169,24 @@ export function MessageComposer({ template, recipientName, recipientEmail, offic
         rows={6}
         className="w-full rounded-md border bg-muted/30 p-3 text-sm"
       />
+      {campaignId && !preview && (
+        <p className="mt-2 text-xs text-muted-foreground">
+          When you send from this page, your name, city and {recipientName}&apos;s voting record are filled in
+          {aiVariation ? ', and the wording is varied so your message is your own' : ''}. You can review the message
+          before it goes out.
+        </p>
+      )}
+      {approving && preview && (
+        <p className="mt-2 text-xs text-muted-foreground">
+          {preview.varied
+            ? 'This wording was written for you. Review it, then approve to send it as shown.'
+            : 'Review your message, then approve to send it as shown.'}
+        </p>
+      )}
+      {send.status === 'sent' && (
+        <p className="mt-2 text-sm text-green-700">Your message was delivered to {recipientName}&apos;s office.</p>
+      )}
+      {send.status === 'error' && <p className="mt-2 text-sm text-red-600">{send.message}</p>}
     </div>
   );
 }
@@ -4,6 +4,7 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { slugify } from '@/lib/utils';
+import { CAMPAIGN_MERGE_FIELD_LABELS, CAMPAIGN_MERGE_FIELDS } from '@/lib/campaigns/message';
 
 const CHAMBERS = [
   { value: '', label: 'All Chambers' },
@@ -22,14 +23,22 @@ const US_STATES = [
 
 const DEFAULT_TEMPLATE = `Dear {representative},
 
-I am writing as a constituent to express my position on [BILL/ISSUE].
+I am writing as a constituent from {city} to express my position on [BILL/ISSUE].
 
 As someone who values individual liberty and limited government, I urge you to [SUPPORT/OPPOSE] this measure.
 
 Thank you for your service and for considering my views.
 
 Sincerely,
-[Your Name]`;
+{member_name}`;
+
+const DEFAULT_CALL_SCRIPT = `Hello, my name is {member_name} and I am a constituent from {city}.
+
+I am calling to ask {representative} to [SUPPORT/OPPOSE] [BILL/ISSUE].
+
+Can you tell me where {representative} stands on this?
+
+Thank you for your time.`;
 
 export function CampaignForm() {
   const router = useRouter();
@@ -38,7 +47,11 @@ export function CampaignForm() {
   const [description, setDescription] = useState('');
   const [targetChamber, setTargetChamber] = useState('');
   const [targetStateCode, setTargetStateCode] = useState('');
+  const [actionType, setActionType] = useState<'email' | 'call'>('email');
   const [messageTemplate, setMessageTemplate] = useState(DEFAULT_TEMPLATE);
+  const [aiVariation, setAiVariation] = useState(false);
+  const [talkingPoints, setTalkingPoints] = useState('');
+  const [callScript, setCallScript] = useState(DEFAULT_CALL_SCRIPT);
   const [startsAt, setStartsAt] = useState('');
   const [endsAt, setEndsAt] = useState('');
   const [loading, setLoading] = useState(false);
@@ -64,7 +77,14 @@ export function CampaignForm() {
           description: description || undefined,
           targetChamber: targetChamber || undefined,
           targetStateCode: targetStateCode || undefined,
-          messageTemplate: messageTemplate || undefined,
+          actionType,
+          messageTemplate: actionType === 'email' ? messageTemplate || undefined : undefined,
+          aiVariation: actionType === 'email' ? aiVariation : undefined,
+          talkingPoints:
+            actionType === 'email' && aiVariation
+              ? talkingPoints.split('\n').map((p) => p.trim()).filter(Boolean)
+              : undefined,
+          callScript: actionType === 'call' ? callScript || undefined : undefined,
           startsAt: startsAt || undefined,
           endsAt: endsAt || undefined,
         }),
@@ -183,24 +203,88 @@ export function CampaignForm() {
       </div>
 
       <div className="space-y-2">
-        <label htmlFor="messageTemplate" className="text-sm font-medium">
-          Message Template
-          <span className="ml-2 text-xs text-muted-foreground">
-            Use {'{representative}'} and {'{office}'} as placeholders
-          </span>
-        </label>
-        <textarea
-          id="messageTemplate"
-          value={messageTemplate}
-          onChange={(e) => setMessageTemplate(e.target.value)}
-          rows={8}
-          className="w-full rounded-md border bg-background px-3 py-2 text-sm font-mono"
-        />
+        <label htmlFor="actionType" className="text-sm font-medium">Action</label>
+        <select
+          id="actionType"
+          value={actionType}
+          onChange={(e) => setActionType(e.target.value as 'email' | 'call')}
+          className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+        >
+          <option value="email">Send a message</option>
+          <option value="call">Call their office</option>
+        </select>
       </div>
 
+      {actionType === 'email' ? (
+        <div className="space-y-2">
+          <label htmlFor="messageTemplate" className="text-sm font-medium">
+            Message Template
+          </label>
+          <textarea
+            id="messageTemplate"
+            value={messageTemplate}
+            onChange={(e) => setMessageTemplate(e.target.value)}
+            rows={8}
+            className="w-full rounded-md border bg-background px-3 py-2 text-sm font-mono"
+          />
+          <MergeFieldHint />
+          <label className="flex items-center gap-2 pt-2 text-sm">
+            <input type="checkbox" checked={aiVariation} onChange={(e) => setAiVariation(e.target.checked)} />
+            Reword each sent message for the member so offices don&apos;t filter identical copies
+          </label>
+          {aiVariation && (
+            <div className="space-y-2">
+              <label htmlFor="talkingPoints" className="text-sm font-medium">
+                Required Talking Points
+                <span className="ml-2 text-xs text-muted-foreground">
+                  One per line; each is kept word for word in every version
+                </span>
+              </label>
+              <textarea
+                id="talkingPoints"
+                value={talkingPoints}
+                onChange={(e) => setTalkingPoints(e.target.value)}
+                rows={3}
+                placeholder="Vote NO on HB 5"
+                className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+              />
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <label htmlFor="callScript" className="text-sm font-medium">
+            Call Script
+          </label>
+          <textarea
+            id="callScript"
+            value={callScript}
+            onChange={(e) => setCallScript(e.target.value)}
+            rows={8}
+            className="w-full rounded-md border bg-background px-3 py-2 text-sm font-mono"
+          />
+          <MergeFieldHint />
+        </div>
+      )}
+
       <Button type="submit" disabled={loading} className="bg-rlc-red hover:bg-rlc-red/90">
         {loading ? 'Creating...' : 'Create Campaign'}
       </Button>
     </form>
   );
 }
+
+function MergeFieldHint() {
+  return (
+    <details className="text-xs text-muted-foreground">
+      <summary className="cursor-pointer">Merge fields</summary>
+      <ul className="mt-1 space-y-0.5">
+        {CAMPAIGN_MERGE_FIELDS.map((field) => (
+          <li key={field}>
+            <code>{`{${field}}`}</code> — {CAMPAIGN_MERGE_FIELD_LABELS[field]}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
@@ -3,9 +3,19 @@
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, Users, Mail, Copy, Check } from 'lucide-react';
+import { ArrowLeft, Users, Mail, Phone, Copy, Check } from 'lucide-react';
 import { formatDate } from '@/lib/utils';
-import type { ActionCampaign } from '@/types';
+import { CampaignWhipTracker } from '@/components/admin/campaign-whip-tracker';
+import {
+  CALL_OUTCOME_LABELS,
+  CALL_OUTCOMES,
+  LEGISLATOR_POSITION_LABELS,
+  LEGISLATOR_POSITIONS,
+  type LegislatorPosition,
+  type WhipCountEntry,
+} from '@/lib/campaigns/call-survey';
+import type { WhipTrackerRow } from '@/lib/campaigns/whip';
+import type { ActionCampaign, CampaignDeliveryStatus, ScorecardBill } from '@/types';
 
 const STATUS_OPTIONS = ['draft', 'active', 'completed', 'cancelled'] as const;
 
@@ -21,15 +31,38 @@ interface ParticipationRow {
   action: string;
   legislator_id: string | null;
   created_at: string;
+  delivery_status: CampaignDeliveryStatus | null;
+  delivery_transport: string | null;
+  delivery_error: string | null;
   member: { full_name: string; email: string } | null;
 }
 
+const deliveryStatusColors: Record<CampaignDeliveryStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const positionColors: Record<LegislatorPosition, string> = {
+  support: 'bg-green-100 text-green-800',
+  oppose: 'bg-red-100 text-red-800',
+  undecided: 'bg-yellow-100 text-yellow-800',
+  unknown: 'bg-gray-100 text-gray-800',
+};
+
 interface Props {
   campaign: ActionCampaign;
   participationCount: number;
+  /** Logged calls per legislator; only call campaigns have entries */
+  whipCount: WhipCountEntry[];
+  /** Set when the campaign is tied to a scorecard bill */
+  whipTracker: {
+    bill: Pick<ScorecardBill, 'bill_number' | 'title' | 'bill_status' | 'vote_date'>;
+    rows: WhipTrackerRow[];
+  } | null;
 }
 
-export function CampaignManagement({ campaign, participationCount }: Props) {
+export function CampaignManagement({ campaign, participationCount, whipCount, whipTracker }: Props) {
   const [status, setStatus] = useState(campaign.status);
   const [loading, setLoading] = useState(false);
   const [participations, setParticipations] = useState<ParticipationRow[]>([]);
@@ -123,11 +156,21 @@ export function CampaignManagement({ campaign, participationCount }: Props) {
           <p className="text-xs text-muted-foreground">Total Participations</p>
         </div>
         <div className="rounded-lg border bg-card p-4 text-center">
-          <Mail className="mx-auto mb-2 h-6 w-6 text-muted-foreground" />
-          <p className="text-2xl font-bold">
-            {participations.filter(p => p.action === 'email_sent').length || 0}
-          </p>
-          <p className="text-xs text-muted-foreground">Emails Sent</p>
+          {campaign.action_type === 'call' ? (
+            <>
+              <Phone className="mx-auto mb-2 h-6 w-6 text-muted-foreground" />
+              <p className="text-2xl font-bold">{whipCount.reduce((sum, e) => sum + e.calls, 0)}</p>
+              <p className="text-xs text-muted-foreground">Calls Logged</p>
+            </>
+          ) : (
+            <>
+              <Mail className="mx-auto mb-2 h-6 w-6 text-muted-foreground" />
+              <p className="text-2xl font-bold">
+                {participations.filter(p => p.action === 'email_sent' || p.delivery_status === 'sent').length || 0}
+              </p>
+              <p className="text-xs text-muted-foreground">Messages Sent</p>
+            </>
+          )}
         </div>
         <div className="rounded-lg border bg-card p-4 text-center">
           <Users className="mx-auto mb-2 h-6 w-6 text-muted-foreground" />
@@ -159,6 +202,94 @@ export function CampaignManagement({ campaign, participationCount }: Props) {
           <h2 className="mb-4 text-xl font-semibold">Message Template</h2>
           <div className="rounded-lg border bg-card p-4">
             <pre className="whitespace-pre-wrap text-sm">{campaign.message_template}</pre>
+            {campaign.ai_variation && (
+              <div className="mt-4 border-t pt-3 text-sm">
+                <p className="text-muted-foreground">Sent messages are reworded for each member.</p>
+                {campaign.talking_points.length > 0 && (
+                  <>
+                    <p className="mt-2 font-medium">Required talking points</p>
+                    <ul className="mt-1 list-disc pl-5">
+                      {campaign.talking_points.map((point) => (
+                        <li key={point}>{point}</li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Call Script */}
+      {campaign.action_type === 'call' && campaign.call_script && (
+        <div className="mb-8">
+          <h2 className="mb-4 text-xl font-semibold">Call Script</h2>
+          <div className="rounded-lg border bg-card p-4">
+            <pre className="whitespace-pre-wrap text-sm">{campaign.call_script}</pre>
+          </div>
+        </div>
+      )}
+
+      {/* Whip Tracker */}
+      {whipTracker && (
+        <CampaignWhipTracker campaignId={campaign.id} bill={whipTracker.bill} rows={whipTracker.rows} />
+      )}
+
+      {/* Call Reports */}
+      {campaign.action_type === 'call' && (
+        <div className="mb-8">
+          <h2 className="mb-1 text-xl font-semibold">Call Reports</h2>
+          <p className="mb-4 text-sm text-muted-foreground">
+            Each legislator&apos;s position is the one callers reported most often.
+          </p>
+          <div className="rounded-lg border bg-card">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b bg-muted/50">
+                    <th className="px-4 py-3 text-left text-sm font-medium">Legislator</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium">Position</th>
+                    <th className="px-4 py-3 text-right text-sm font-medium">Calls</th>
+                    {CALL_OUTCOMES.map((o) => (
+                      <th key={o} className="px-4 py-3 text-right text-sm font-medium">{CALL_OUTCOME_LABELS[o]}</th>
+                    ))}
+                    <th className="px-4 py-3 text-left text-sm font-medium">Reported</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {whipCount.map((entry) => (
+                    <tr key={entry.key} className="border-b last:border-0">
+                      <td className="px-4 py-3 text-sm">
+                        <p className="font-medium">{entry.name}</p>
+                        {entry.office && <p className="text-xs text-muted-foreground">{entry.office}</p>}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${positionColors[entry.position]}`}>
+                          {LEGISLATOR_POSITION_LABELS[entry.position]}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-right text-sm font-medium">{entry.calls}</td>
+                      {CALL_OUTCOMES.map((o) => (
+                        <td key={o} className="px-4 py-3 text-right text-sm text-muted-foreground">{entry.outcomes[o]}</td>
+                      ))}
+                      <td className="px-4 py-3 text-xs text-muted-foreground">
+                        {LEGISLATOR_POSITIONS.filter((p) => entry.positions[p] > 0)
+                          .map((p) => `${LEGISLATOR_POSITION_LABELS[p]} ${entry.positions[p]}`)
+                          .join(', ')}
+                      </td>
+                    </tr>
+                  ))}
+                  {whipCount.length === 0 && (
+                    <tr>
+                      <td colSpan={4 + CALL_OUTCOMES.length} className="px-4 py-8 text-center text-muted-foreground">
+                        No calls logged yet.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
           </div>
         </div>
       )}
@@ -173,6 +304,7 @@ export function CampaignManagement({ campaign, participationCount }: Props) {
                 <tr className="border-b bg-muted/50">
                   <th className="px-4 py-3 text-left text-sm font-medium">Member</th>
                   <th className="px-4 py-3 text-left text-sm font-medium">Action</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium">Delivery</th>
                   <th className="px-4 py-3 text-left text-sm font-medium">Date</th>
                 </tr>
               </thead>
@@ -185,6 +317,18 @@ export function CampaignManagement({ campaign, participationCount }: Props) {
                     <td className="px-4 py-3 text-sm text-muted-foreground capitalize">
                       {p.action.replace(/_/g, ' ')}
                     </td>
+                    <td className="px-4 py-3 text-sm">
+                      {p.delivery_status ? (
+                        <span
+                          className={`rounded-full px-2 py-0.5 text-xs font-medium ${deliveryStatusColors[p.delivery_status]}`}
+                          title={p.delivery_error || undefined}
+                        >
+                          {p.delivery_status} via {p.delivery_transport?.replace(/_/g, ' ')}
+                        </span>
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </td>
                     <td className="px-4 py-3 text-sm text-muted-foreground">
                       {formatDate(p.created_at)}
                     </td>
@@ -192,7 +336,7 @@ export function CampaignManagement({ campaign, participationCount }: Props) {
                 ))}
                 {participations.length === 0 && (
                   <tr>
-                    <td colSpan={3} className="px-4 py-8 text-center text-muted-foreground">
+                    <td colSpan={4} className="px-4 py-8 text-center text-muted-foreground">
                       No participation yet. Share the campaign to get members involved.
                     </td>
                   </tr>
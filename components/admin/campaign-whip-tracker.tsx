@@ -0,0 +1,213 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { formatDate } from '@/lib/utils';
+import {
+  summarizeWhipTracker,
+  WHIP_STATUS_LABELS,
+  WHIP_STATUSES,
+  type WhipRowSource,
+  type WhipTrackerRow,
+} from '@/lib/campaigns/whip';
+import type { ScorecardBill, WhipStatus } from '@/types';
+
+const whipStatusColors: Record<WhipStatus, string> = {
+  supports: 'bg-green-100 text-green-800',
+  leaning: 'bg-emerald-50 text-emerald-700',
+  undecided: 'bg-yellow-100 text-yellow-800',
+  opposed: 'bg-red-100 text-red-800',
+  unknown: 'bg-gray-100 text-gray-800',
+};
+
+const sourceLabels: Record<Exclude<WhipRowSource, null>, string> = {
+  calls: 'Call reports',
+  admin: 'Admin',
+  roll_call: 'Roll call',
+};
+
+interface Props {
+  campaignId: string;
+  bill: Pick<ScorecardBill, 'bill_number' | 'title' | 'bill_status' | 'vote_date'>;
+  rows: WhipTrackerRow[];
+}
+
+interface Draft {
+  key: string;
+  status: WhipStatus;
+  notes: string;
+}
+
+export function CampaignWhipTracker({ campaignId, bill, rows: initialRows }: Props) {
+  const [rows, setRows] = useState(initialRows);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const summary = summarizeWhipTracker(rows);
+
+  async function saveDraft(row: WhipTrackerRow) {
+    if (!draft || !row.legislatorId) return;
+    setSaving(true);
+    setError('');
+
+    try {
+      const res = await fetch(`/api/v1/admin/campaigns/${campaignId}/whip`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ legislatorId: row.legislatorId, status: draft.status, notes: draft.notes }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error || 'Failed to save whip entry');
+        return;
+      }
+      setRows((prev) =>
+        prev.map((r) =>
+          r.key === row.key ? { ...r, status: data.entry.status, source: 'admin', notes: data.entry.notes } : r
+        )
+      );
+      setDraft(null);
+    } catch {
+      setError('Failed to save whip entry');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="mb-8">
+      <h2 className="mb-1 text-xl font-semibold">Whip Tracker</h2>
+      <p className="mb-4 text-sm text-muted-foreground">
+        {bill.bill_number}: {bill.title}
+        {bill.bill_status === 'voted'
+          ? ` — voted${bill.vote_date ? ` ${formatDate(bill.vote_date)}` : ''}; positions reflect the roll call.`
+          : ' — positions come from call reports unless an admin has recorded one.'}
+      </p>
+
+      <div className="mb-4 grid grid-cols-2 gap-3 sm:grid-cols-5">
+        {WHIP_STATUSES.map((s) => (
+          <div key={s} className="rounded-lg border bg-card p-3 text-center">
+            <p className="text-xl font-bold">{summary[s]}</p>
+            <p className="text-xs text-muted-foreground">{WHIP_STATUS_LABELS[s]}</p>
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="mb-2 text-sm text-red-600">{error}</p>}
+
+      <div className="rounded-lg border bg-card">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b bg-muted/50">
+                <th className="px-4 py-3 text-left text-sm font-medium">Legislator</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">Status</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">Callers Report</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">Notes</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">Final Vote</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => {
+                const editing = draft?.key === row.key ? draft : null;
+                return (
+                  <tr key={row.key} className="border-b align-top last:border-0">
+                    <td className="px-4 py-3 text-sm">
+                      <p className="font-medium">{row.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {[row.party, [row.state, row.district].filter(Boolean).join('-')].filter(Boolean).join(' · ')}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {editing ? (
+                        <select
+                          value={editing.status}
+                          onChange={(e) => setDraft({ ...editing, status: e.target.value as WhipStatus })}
+                          className="rounded-md border bg-background px-2 py-1 text-sm"
+                        >
+                          {WHIP_STATUSES.map((s) => (
+                            <option key={s} value={s}>{WHIP_STATUS_LABELS[s]}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <>
+                          <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${whipStatusColors[row.status]}`}>
+                            {WHIP_STATUS_LABELS[row.status]}
+                          </span>
+                          {row.source && (
+                            <p className="mt-1 text-xs text-muted-foreground">{sourceLabels[row.source]}</p>
+                          )}
+                        </>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-muted-foreground">
+                      {row.reportedStatus
+                        ? `${WHIP_STATUS_LABELS[row.reportedStatus]} (${row.calls} ${row.calls === 1 ? 'call' : 'calls'})`
+                        : '-'}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {editing ? (
+                        <textarea
+                          value={editing.notes}
+                          onChange={(e) => setDraft({ ...editing, notes: e.target.value })}
+                          rows={2}
+                          placeholder="Source, e.g. chief of staff by phone"
+                          className="w-full min-w-48 rounded-md border bg-background px-2 py-1 text-sm"
+                        />
+                      ) : (
+                        <span className="whitespace-pre-wrap text-muted-foreground">{row.notes || '-'}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {row.finalVote ? (
+                        <>
+                          <p className="capitalize">{row.finalVote.replace(/_/g, ' ')}</p>
+                          {row.predictedStatus && (
+                            <p className="text-xs text-muted-foreground">
+                              Tracked as {WHIP_STATUS_LABELS[row.predictedStatus]}
+                            </p>
+                          )}
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right text-sm">
+                      {!row.legislatorId ? null : editing ? (
+                        <div className="flex justify-end gap-2">
+                          <Button size="sm" variant="ghost" onClick={() => setDraft(null)} disabled={saving}>
+                            Cancel
+                          </Button>
+                          <Button size="sm" onClick={() => saveDraft(row)} disabled={saving}>
+                            {saving ? 'Saving...' : 'Save'}
+                          </Button>
+                        </div>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setDraft({ key: row.key, status: row.status, notes: row.notes ?? '' })}
+                        >
+                          Edit
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+              {rows.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-4 py-8 text-center text-muted-foreground">
+                    No legislators to track yet. Set a target chamber or log calls to fill the tracker.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,36 +1,212 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Copy, Check } from 'lucide-react';
+import {
+  buildEmbedHtml,
+  buildEmbedUrl,
+  EMBED_DIMENSIONS,
+  EMBED_SIZES,
+  EMBED_THEMES,
+  type EmbedConfig,
+  type EmbedMode,
+} from '@/lib/scorecard/embed-config';
+import type { LegislativeChamber, ScoredLegislator } from '@/types';
 
-export function EmbedCodeGenerator({ slug }: { slug: string }) {
-  const [copied, setCopied] = useState(false);
+const MODE_OPTIONS: { value: EmbedMode; label: string; description: string }[] = [
+  { value: 'table', label: 'Full scorecard', description: 'Every rated legislator, highest score first.' },
+  { value: 'top', label: 'Top defenders', description: 'The highest-scoring legislators.' },
+  { value: 'legislator', label: 'Legislator badge', description: 'One legislator\'s score and grade.' },
+  { value: 'district', label: 'District lookup', description: 'Visitors enter a district number to see its legislators.' },
+];
 
-  const embedCode = `<iframe src="${typeof window !== 'undefined' ? window.location.origin : ''}/scorecards/embed/${slug}" width="100%" height="600" frameborder="0" style="border: 1px solid #e5e7eb; border-radius: 8px;"></iframe>`;
+const CHAMBER_LABELS: Record<string, string> = {
+  us_house: 'U.S. House',
+  us_senate: 'U.S. Senate',
+  state_house: 'State House',
+  state_senate: 'State Senate',
+};
 
-  async function copyCode() {
-    await navigator.clipboard.writeText(embedCode);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
+interface EmbedCodeGeneratorProps {
+  sessionId: string;
+  slug: string;
+  sessionName: string;
+}
+
+export function EmbedCodeGenerator({ sessionId, slug, sessionName }: EmbedCodeGeneratorProps) {
+  const [copied, setCopied] = useState<'code' | 'url' | null>(null);
+  const [origin, setOrigin] = useState('');
+  const [legislators, setLegislators] = useState<ScoredLegislator[]>([]);
+  const [config, setConfig] = useState<EmbedConfig>({
+    mode: 'table',
+    theme: 'light',
+    size: 'medium',
+    legislatorId: null,
+    chamber: null,
+    district: null,
+  });
+
+  useEffect(() => {
+    setOrigin(window.location.origin);
+  }, []);
+
+  useEffect(() => {
+    fetch(`/api/v1/admin/scorecards/${sessionId}/legislators`)
+      .then((res) => (res.ok ? res.json() : { legislators: [] }))
+      .then((data) => setLegislators(data.legislators || []))
+      .catch(() => setLegislators([]));
+  }, [sessionId]);
+
+  const chambers = useMemo(
+    () => Array.from(new Set(legislators.map((l) => l.chamber))).sort(),
+    [legislators]
+  );
+  const sortedLegislators = useMemo(
+    () => [...legislators].sort((a, b) => a.name.localeCompare(b.name)),
+    [legislators]
+  );
+
+  const needsLegislator = config.mode === 'legislator' && !config.legislatorId;
+  const dimensions = EMBED_DIMENSIONS[config.mode][config.size];
+  const embedUrl = buildEmbedUrl(slug, config, origin);
+  const title = config.mode === 'legislator'
+    ? `${legislators.find((l) => l.id === config.legislatorId)?.name ?? 'Legislator'} - ${sessionName} Liberty Scorecard`
+    : `${sessionName} Liberty Scorecard`;
+  const embedCode = buildEmbedHtml(embedUrl, dimensions, title);
+  const oembedUrl = `${origin}/api/v1/scorecards/oembed?url=${encodeURIComponent(embedUrl)}`;
+
+  function update(changes: Partial<EmbedConfig>) {
+    setConfig((prev) => ({ ...prev, ...changes }));
+  }
+
+  async function copy(text: string, which: 'code' | 'url') {
+    await navigator.clipboard.writeText(text);
+    setCopied(which);
+    setTimeout(() => setCopied(null), 2000);
   }
 
   return (
     <div className="rounded-lg border bg-muted/30 p-4">
-      <p className="mb-3 text-sm text-muted-foreground">
-        Embed this scorecard on any website by copying the code below.
+      <p className="mb-4 text-sm text-muted-foreground">
+        Embed this scorecard on any website by copying the code below. Pick a widget and its options to preview it.
       </p>
-      <div className="relative">
-        <pre className="overflow-x-auto rounded-md bg-background p-3 text-xs">{embedCode}</pre>
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={copyCode}
-          className="absolute right-2 top-2"
-        >
-          {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
-        </Button>
+
+      <div className="mb-4 grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        <label className="text-sm">
+          <span className="mb-1 block font-medium">Widget</span>
+          <select
+            value={config.mode}
+            onChange={(e) => update({ mode: e.target.value as EmbedMode })}
+            className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+          >
+            {MODE_OPTIONS.map((m) => (
+              <option key={m.value} value={m.value}>{m.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm">
+          <span className="mb-1 block font-medium">Theme</span>
+          <select
+            value={config.theme}
+            onChange={(e) => update({ theme: e.target.value as EmbedConfig['theme'] })}
+            className="w-full rounded-md border bg-background px-3 py-2 text-sm capitalize"
+          >
+            {EMBED_THEMES.map((t) => (
+              <option key={t} value={t}>{t}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm">
+          <span className="mb-1 block font-medium">Size</span>
+          <select
+            value={config.size}
+            onChange={(e) => update({ size: e.target.value as EmbedConfig['size'] })}
+            className="w-full rounded-md border bg-background px-3 py-2 text-sm capitalize"
+          >
+            {EMBED_SIZES.map((s) => (
+              <option key={s} value={s}>{s}</option>
+            ))}
+          </select>
+        </label>
+        {config.mode === 'legislator' ? (
+          <label className="text-sm">
+            <span className="mb-1 block font-medium">Legislator</span>
+            <select
+              value={config.legislatorId ?? ''}
+              onChange={(e) => update({ legislatorId: e.target.value || null })}
+              className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+            >
+              <option value="">Select a legislator</option>
+              {sortedLegislators.map((l) => (
+                <option key={l.id} value={l.id}>
+                  {l.name} ({l.party}{l.district ? `-${l.district}` : ''})
+                </option>
+              ))}
+            </select>
+          </label>
+        ) : (
+          <label className="text-sm">
+            <span className="mb-1 block font-medium">Chamber</span>
+            <select
+              value={config.chamber ?? ''}
+              onChange={(e) => update({ chamber: (e.target.value || null) as LegislativeChamber | null })}
+              className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+            >
+              <option value="">All chambers</option>
+              {chambers.map((c) => (
+                <option key={c} value={c}>{CHAMBER_LABELS[c] || c}</option>
+              ))}
+            </select>
+          </label>
+        )}
       </div>
+      <p className="mb-4 text-xs text-muted-foreground">
+        {MODE_OPTIONS.find((m) => m.value === config.mode)?.description}
+      </p>
+
+      {needsLegislator ? (
+        <p className="rounded-md bg-background p-3 text-sm text-muted-foreground">
+          Select a legislator to generate their badge.
+        </p>
+      ) : (
+        <>
+          <div className="relative">
+            <pre className="overflow-x-auto whitespace-pre-wrap break-all rounded-md bg-background p-3 pr-12 text-xs">{embedCode}</pre>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => copy(embedCode, 'code')}
+              className="absolute right-2 top-2"
+            >
+              {copied === 'code' ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+            </Button>
+          </div>
+          <div className="mt-2 flex items-center gap-2 text-xs text-muted-foreground">
+            <span>oEmbed:</span>
+            <code className="truncate">{oembedUrl}</code>
+            <Button variant="ghost" size="sm" onClick={() => copy(oembedUrl, 'url')}>
+              {copied === 'url' ? <Check className="h-3 w-3 text-green-600" /> : <Copy className="h-3 w-3" />}
+            </Button>
+          </div>
+
+          <p className="mb-2 mt-4 text-sm font-medium">
+            Preview ({dimensions.width} x {dimensions.height})
+          </p>
+          {origin && (
+            <div className="overflow-x-auto">
+              <iframe
+                key={embedUrl}
+                src={embedUrl}
+                title={title}
+                width={dimensions.width}
+                height={dimensions.height}
+                className="max-w-full rounded-lg border bg-white"
+              />
+            </div>
+          )}
+        </>
+      )}
     </div>
   );
 }
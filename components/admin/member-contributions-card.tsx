@@ -0,0 +1,127 @@
+'use client';
+
+import { useState } from 'react';
+import { CreditCard as CreditCardIcon, Mail } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { useToast } from '@/lib/hooks/use-toast';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import type { Contribution } from '@/types';
+
+type ContributionRow = Pick<
+  Contribution,
+  'id' | 'contribution_type' | 'amount' | 'payment_status' | 'created_at'
+>;
+
+interface MemberContributionsCardProps {
+  memberId: string;
+  contributions: ContributionRow[];
+}
+
+export function MemberContributionsCard({ memberId, contributions }: MemberContributionsCardProps) {
+  const { toast } = useToast();
+  const [sendingKey, setSendingKey] = useState<string | null>(null);
+
+  const statementYears = [
+    ...new Set(
+      contributions
+        .filter((c) => c.payment_status === 'completed')
+        .map((c) => new Date(c.created_at).getUTCFullYear())
+    ),
+  ].sort((a, b) => b - a);
+
+  async function resend(key: string, body: { contributionId: string } | { year: number }) {
+    setSendingKey(key);
+
+    try {
+      const res = await fetch(`/api/v1/admin/members/${memberId}/receipts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      if (!res.ok) {
+        let errorMessage = 'Failed to send receipt';
+        try {
+          const err = await res.json();
+          errorMessage = err.error || errorMessage;
+        } catch {
+          // Response was not JSON (e.g., 502 gateway error)
+        }
+        throw new Error(errorMessage);
+      }
+
+      const { sentTo } = await res.json();
+      toast({ title: 'Receipt sent', description: `Emailed to ${sentTo}` });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to send receipt',
+        variant: 'destructive',
+      });
+    } finally {
+      setSendingKey(null);
+    }
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="mb-4 flex items-center gap-2">
+          <CreditCardIcon className="h-5 w-5 text-green-600" />
+          <h2 className="font-heading font-semibold">Recent Contributions</h2>
+        </div>
+        {contributions.length > 0 ? (
+          <ul className="space-y-2">
+            {contributions.map((c) => (
+              <li key={c.id} className="flex items-center justify-between text-sm">
+                <div>
+                  <span className="capitalize">{c.contribution_type.replace(/_/g, ' ')}</span>
+                  <span className="ml-2 text-muted-foreground">{formatDate(c.created_at)}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-green-600">
+                    {formatCurrency(Number(c.amount))}
+                  </span>
+                  {c.payment_status === 'completed' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2"
+                      title="Re-send receipt"
+                      disabled={sendingKey !== null}
+                      onClick={() => resend(c.id, { contributionId: c.id })}
+                    >
+                      <Mail className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">No contributions</p>
+        )}
+
+        {statementYears.length > 0 && (
+          <div className="mt-3 border-t pt-3">
+            <p className="mb-2 text-xs font-medium text-muted-foreground">Email giving statement</p>
+            <div className="flex flex-wrap gap-2">
+              {statementYears.map((year) => (
+                <Button
+                  key={year}
+                  variant="outline"
+                  size="sm"
+                  disabled={sendingKey !== null}
+                  onClick={() => resend(`year-${year}`, { year })}
+                >
+                  {sendingKey === `year-${year}` ? 'Sending...' : year}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
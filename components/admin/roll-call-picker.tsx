@@ -0,0 +1,146 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { RefreshCw } from 'lucide-react';
+import type { ScorecardRollCall } from '@/types';
+
+const chamberLabels: Record<string, string> = {
+  us_house: 'House',
+  us_senate: 'Senate',
+  state_house: 'House',
+  state_senate: 'Senate',
+};
+
+interface RollCallPickerProps {
+  sessionId: string;
+  billId: string;
+  selectedRollCallId: number | null;
+  onSelected: () => void;
+}
+
+export function RollCallPicker({ sessionId, billId, selectedRollCallId, onSelected }: RollCallPickerProps) {
+  const [rollCalls, setRollCalls] = useState<ScorecardRollCall[]>([]);
+  const [suggestedId, setSuggestedId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [checking, setChecking] = useState(false);
+  const [savingId, setSavingId] = useState<number | null>(null);
+  const [error, setError] = useState('');
+
+  const url = `/api/v1/admin/scorecards/${sessionId}/bills/${billId}/roll-calls`;
+
+  const applyResponse = useCallback((data: { rollCalls?: ScorecardRollCall[]; suggestedRollCallId?: number | null }) => {
+    setRollCalls(data.rollCalls || []);
+    setSuggestedId(data.suggestedRollCallId ?? null);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(url)
+      .then(async (res) => {
+        const data = await res.json();
+        if (cancelled) return;
+        if (res.ok) applyResponse(data);
+        else setError(data.error || 'Failed to load roll calls');
+      })
+      .catch(() => !cancelled && setError('Network error loading roll calls'))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [url, applyResponse]);
+
+  async function checkLegiscan() {
+    setChecking(true);
+    setError('');
+    try {
+      const res = await fetch(url, { method: 'POST' });
+      const data = await res.json();
+      if (res.ok) applyResponse(data);
+      else setError(data.error || 'Failed to check LegiScan');
+    } catch {
+      setError('Network error checking LegiScan');
+    } finally {
+      setChecking(false);
+    }
+  }
+
+  async function selectRollCall(rollCallId: number) {
+    setSavingId(rollCallId);
+    setError('');
+    try {
+      const res = await fetch(`/api/v1/admin/scorecards/${sessionId}/bills/${billId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ legiscanRollCallId: rollCallId }),
+      });
+      if (res.ok) {
+        onSelected();
+      } else {
+        const data = await res.json().catch(() => ({}));
+        setError(data.error || 'Failed to select roll call');
+      }
+    } catch {
+      setError('Network error selecting roll call');
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Roll calls</p>
+        <Button variant="outline" size="sm" onClick={checkLegiscan} disabled={checking}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${checking ? 'animate-spin' : ''}`} />
+          Check LegiScan
+        </Button>
+      </div>
+
+      {error && <div className="rounded-md bg-red-50 p-3 text-sm text-red-800">{error}</div>}
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      ) : rollCalls.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No roll calls recorded on this bill yet.</p>
+      ) : (
+        <ul className="divide-y rounded-md border bg-background">
+          {rollCalls.map((rc) => {
+            const selected = rc.legiscan_roll_call_id === selectedRollCallId;
+            return (
+              <li key={rc.id} className="flex flex-wrap items-center justify-between gap-3 px-3 py-2 text-sm">
+                <div>
+                  <p className="font-medium">
+                    {rc.description}
+                    {rc.legiscan_roll_call_id === suggestedId && (
+                      <span className="ml-2 rounded-full bg-blue-100 px-2 py-0.5 text-xs font-medium text-blue-800">
+                        Suggested
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {rc.vote_date ?? 'Undated'} &middot; {chamberLabels[rc.chamber] || rc.chamber}{' '}
+                    {rc.is_floor_vote ? 'floor' : 'committee'} &middot; {rc.yea}-{rc.nay}
+                    {rc.passed ? ' (passed)' : ' (failed)'}
+                  </p>
+                </div>
+                {selected ? (
+                  <span className="rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-800">Scored</span>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => selectRollCall(rc.legiscan_roll_call_id)}
+                    disabled={savingId !== null}
+                  >
+                    {savingId === rc.legiscan_roll_call_id ? 'Saving...' : 'Use for scoring'}
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
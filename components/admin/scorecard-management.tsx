@@ -1,10 +1,11 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { Fragment, useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, Plus, Brain, Download } from 'lucide-react';
+import { ArrowLeft, Plus, Brain, Download, FileDown, ListChecks } from 'lucide-react';
 import { LegiscanSearch } from '@/components/admin/legiscan-search';
+import { RollCallPicker } from '@/components/admin/roll-call-picker';
 import { EmbedCodeGenerator } from '@/components/admin/embed-code-generator';
 import type { ScorecardBill, ScorecardSession } from '@/types';
 
@@ -26,12 +27,14 @@ const billStatusColors: Record<string, string> = {
 export function ScorecardManagement({ session }: { session: ScorecardSession }) {
   const [bills, setBills] = useState<ScorecardBill[]>([]);
   const [status, setStatus] = useState(session.status);
+  const [scoringMethod, setScoringMethod] = useState(session.scoring_method);
   const [description, setDescription] = useState(session.description || '');
   const [descriptionSaving, setDescriptionSaving] = useState(false);
   const [loading, setLoading] = useState(false);
   const [showSearch, setShowSearch] = useState(false);
   const [analyzingBillId, setAnalyzingBillId] = useState<string | null>(null);
   const [importingBillId, setImportingBillId] = useState<string | null>(null);
+  const [rollCallBillId, setRollCallBillId] = useState<string | null>(null);
 
   const fetchBills = useCallback(async () => {
     const res = await fetch(`/api/v1/admin/scorecards/${session.id}/bills`);
@@ -54,6 +57,17 @@ export function ScorecardManagement({ session }: { session: ScorecardSession })
     setLoading(false);
   }
 
+  async function updateScoringMethod(newMethod: string) {
+    setLoading(true);
+    const res = await fetch(`/api/v1/admin/scorecards/${session.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ scoringMethod: newMethod }),
+    });
+    if (res.ok) setScoringMethod(newMethod as ScorecardSession['scoring_method']);
+    setLoading(false);
+  }
+
   async function analyzeBill(billId: string) {
     setAnalyzingBillId(billId);
     try {
@@ -105,6 +119,12 @@ export function ScorecardManagement({ session }: { session: ScorecardSession })
           </p>
         </div>
         <div className="flex items-center gap-3">
+          <Button asChild variant="outline" size="sm">
+            <a href={`/api/v1/admin/scorecards/${session.id}/pdf`}>
+              <FileDown className="mr-2 h-4 w-4" />
+              PDF
+            </a>
+          </Button>
           <select
             value={status}
             onChange={(e) => updateStatus(e.target.value)}
@@ -162,6 +182,24 @@ export function ScorecardManagement({ session }: { session: ScorecardSession })
         </Button>
       </div>
 
+      {/* Scoring Method */}
+      <div className="mb-8">
+        <h2 className="mb-2 text-xl font-semibold">Scoring Method</h2>
+        <p className="mb-3 text-sm text-muted-foreground">
+          Legacy counts every bill equally and matches the published PDF scorecards. Weighted applies
+          each bill&apos;s weight to aligned and against votes. Changing the method recomputes all scores.
+        </p>
+        <select
+          value={scoringMethod}
+          onChange={(e) => updateScoringMethod(e.target.value)}
+          disabled={loading}
+          className="rounded-md border bg-background px-3 py-2 text-sm"
+        >
+          <option value="legacy">Legacy (equal weight)</option>
+          <option value="weighted">Weighted</option>
+        </select>
+      </div>
+
       {/* Bills Section */}
       <div className="mb-8">
         <div className="mb-4 flex items-center justify-between">
@@ -195,61 +233,85 @@ export function ScorecardManagement({ session }: { session: ScorecardSession })
               </thead>
               <tbody>
                 {bills.map((bill) => (
-                  <tr key={bill.id} className="border-b last:border-0">
-                    <td className="px-4 py-3 text-sm font-mono font-medium">{bill.bill_number}</td>
-                    <td className="max-w-xs truncate px-4 py-3 text-sm" title={bill.title}>{bill.title}</td>
-                    <td className="px-4 py-3 text-sm text-muted-foreground capitalize">{bill.category}</td>
-                    <td className="px-4 py-3 text-sm">
-                      <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${
-                        bill.liberty_position === 'yea' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
-                      }`}>
-                        {bill.liberty_position.toUpperCase()}
-                      </span>
-                    </td>
-                    <td className="px-4 py-3 text-sm">
-                      {bill.ai_suggested_position ? (
+                  <Fragment key={bill.id}>
+                    <tr className="border-b last:border-0">
+                      <td className="px-4 py-3 text-sm font-mono font-medium">{bill.bill_number}</td>
+                      <td className="max-w-xs truncate px-4 py-3 text-sm" title={bill.title}>{bill.title}</td>
+                      <td className="px-4 py-3 text-sm text-muted-foreground capitalize">{bill.category}</td>
+                      <td className="px-4 py-3 text-sm">
                         <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${
-                          bill.ai_suggested_position === bill.liberty_position
-                            ? 'bg-green-50 text-green-700'
-                            : 'bg-amber-50 text-amber-700'
-                        }`} title={bill.ai_analysis || ''}>
-                          {bill.ai_suggested_position.toUpperCase()}
+                          bill.liberty_position === 'yea' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                        }`}>
+                          {bill.liberty_position.toUpperCase()}
                         </span>
-                      ) : (
-                        <span className="text-xs text-muted-foreground">-</span>
-                      )}
-                    </td>
-                    <td className="px-4 py-3 text-sm">
-                      <span className={`rounded-full px-2 py-0.5 text-xs font-medium capitalize ${billStatusColors[bill.bill_status] || ''}`}>
-                        {bill.bill_status}
-                      </span>
-                    </td>
-                    <td className="px-4 py-3 text-sm text-muted-foreground">{bill.weight}x</td>
-                    <td className="px-4 py-3">
-                      <div className="flex gap-2">
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => analyzeBill(bill.id)}
-                          disabled={analyzingBillId === bill.id}
-                          title="AI Analyze"
-                        >
-                          <Brain className={`h-4 w-4 ${analyzingBillId === bill.id ? 'animate-pulse' : ''}`} />
-                        </Button>
-                        {bill.legiscan_roll_call_id && bill.bill_status !== 'voted' && (
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        {bill.ai_suggested_position ? (
+                          <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+                            bill.ai_suggested_position === bill.liberty_position
+                              ? 'bg-green-50 text-green-700'
+                              : 'bg-amber-50 text-amber-700'
+                          }`} title={bill.ai_analysis || ''}>
+                            {bill.ai_suggested_position.toUpperCase()}
+                          </span>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">-</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <span className={`rounded-full px-2 py-0.5 text-xs font-medium capitalize ${billStatusColors[bill.bill_status] || ''}`}>
+                          {bill.bill_status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-muted-foreground">{bill.weight}x</td>
+                      <td className="px-4 py-3">
+                        <div className="flex gap-2">
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => importVotes(bill.id)}
-                            disabled={importingBillId === bill.id}
-                            title="Import Votes"
+                            onClick={() => analyzeBill(bill.id)}
+                            disabled={analyzingBillId === bill.id}
+                            title="AI Analyze"
                           >
-                            <Download className={`h-4 w-4 ${importingBillId === bill.id ? 'animate-pulse' : ''}`} />
+                            <Brain className={`h-4 w-4 ${analyzingBillId === bill.id ? 'animate-pulse' : ''}`} />
                           </Button>
-                        )}
-                      </div>
-                    </td>
-                  </tr>
+                          {bill.legiscan_bill_id && bill.bill_status === 'tracking' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setRollCallBillId(rollCallBillId === bill.id ? null : bill.id)}
+                              title="Roll Calls"
+                            >
+                              <ListChecks className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {bill.legiscan_roll_call_id && bill.bill_status !== 'voted' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => importVotes(bill.id)}
+                              disabled={importingBillId === bill.id}
+                              title="Import Votes"
+                            >
+                              <Download className={`h-4 w-4 ${importingBillId === bill.id ? 'animate-pulse' : ''}`} />
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                    {rollCallBillId === bill.id && (
+                      <tr className="border-b bg-muted/20">
+                        <td colSpan={8} className="px-4 py-4">
+                          <RollCallPicker
+                            sessionId={session.id}
+                            billId={bill.id}
+                            selectedRollCallId={bill.legiscan_roll_call_id}
+                            onSelected={fetchBills}
+                          />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
                 ))}
                 {bills.length === 0 && (
                   <tr>
@@ -268,7 +330,7 @@ export function ScorecardManagement({ session }: { session: ScorecardSession })
       {(status === 'published' || status === 'active') && (
         <div className="mb-8">
           <h2 className="mb-4 text-xl font-semibold">Embed Widget</h2>
-          <EmbedCodeGenerator slug={session.slug} />
+          <EmbedCodeGenerator sessionId={session.id} slug={session.slug} sessionName={session.name} />
         </div>
       )}
     </div>
@@ -2,9 +2,16 @@
 
 import Link from 'next/link';
 import Image from 'next/image';
+import { FileDown } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { cn, formatCandidateName } from '@/lib/utils';
+import {
+  REPORT_SECTION_ORDER,
+  REPORT_SECTION_TITLES,
+  formatBoardVote,
+  formatRecommendation,
+} from '@/lib/vetting/engine';
 import type { VettingReportSectionType, VettingRecommendation, BoardVoteChoice } from '@/types';
 
 // Section data type mirrors ReportSectionWithAssignments but simplified for report
@@ -67,32 +74,6 @@ interface VettingReportViewProps {
   data: VettingReportData;
 }
 
-// Human-readable section titles
-const SECTION_TITLES: Record<VettingReportSectionType, string> = {
-  executive_summary: 'Executive Summary',
-  election_schedule: 'Election Schedule',
-  voting_rules: 'Voting Rules',
-  candidate_background: 'Candidate Background',
-  incumbent_record: 'Incumbent Record',
-  opponent_research: 'Opponent Research',
-  electoral_results: 'Electoral Results',
-  district_data: 'District Data',
-  digital_presence_audit: 'Digital Presence Audit',
-};
-
-// Ordered display of sections (matches the Robert Onder brief format)
-const SECTION_ORDER: VettingReportSectionType[] = [
-  'executive_summary',
-  'election_schedule',
-  'voting_rules',
-  'candidate_background',
-  'incumbent_record',
-  'opponent_research',
-  'electoral_results',
-  'district_data',
-  'digital_presence_audit',
-];
-
 function formatDate(dateStr: string): string {
   return new Date(dateStr).toLocaleDateString('en-US', {
     month: 'long',
@@ -101,14 +82,6 @@ function formatDate(dateStr: string): string {
   });
 }
 
-function formatRecommendation(rec: VettingRecommendation): string {
-  return rec.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
-}
-
-function formatVote(vote: BoardVoteChoice): string {
-  return vote.replace(/^vote_/, '').replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
-}
-
 const RECOMMENDATION_STYLES: Record<VettingRecommendation, string> = {
   endorse: 'bg-green-100 text-green-800 border-green-300',
   do_not_endorse: 'bg-red-100 text-red-800 border-red-300',
@@ -270,7 +243,7 @@ function OpponentCard({ opponent }: { opponent: OpponentData }) {
 }
 
 export function VettingReportView({ data }: VettingReportViewProps) {
-  const orderedSections = SECTION_ORDER
+  const orderedSections = REPORT_SECTION_ORDER
     .map((key) => data.sections.find((s) => s.section === key))
     .filter((s): s is ReportSection => !!s);
 
@@ -283,13 +256,20 @@ export function VettingReportView({ data }: VettingReportViewProps) {
             &larr; Back to Vetting Detail
           </Button>
         </Link>
-        <Button
-          onClick={() => window.print()}
-          className="bg-rlc-red hover:bg-rlc-red/90"
-          size="sm"
-        >
-          Export PDF
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button asChild variant="outline" size="sm">
+            <a href={`/api/v1/admin/vetting/${data.id}/report?format=docx`}>
+              <FileDown className="mr-2 h-4 w-4" />
+              Word
+            </a>
+          </Button>
+          <Button asChild className="bg-rlc-red hover:bg-rlc-red/90" size="sm">
+            <a href={`/api/v1/admin/vetting/${data.id}/report?format=pdf`}>
+              <FileDown className="mr-2 h-4 w-4" />
+              Export PDF
+            </a>
+          </Button>
+        </div>
       </div>
 
       {/* Report Header */}
@@ -388,7 +368,7 @@ export function VettingReportView({ data }: VettingReportViewProps) {
               <div key={section.section} className="print:break-inside-avoid">
                 <div className="flex items-center gap-3 mb-4">
                   <span className="text-sm font-bold text-rlc-red">{index + 1}.</span>
-                  <h2 className="text-lg font-bold">{SECTION_TITLES[section.section]}</h2>
+                  <h2 className="text-lg font-bold">{REPORT_SECTION_TITLES[section.section]}</h2>
                 </div>
 
                 {/* Section data first (if any) */}
@@ -412,7 +392,7 @@ export function VettingReportView({ data }: VettingReportViewProps) {
             <div key={section.section} className="print:break-inside-avoid">
               <div className="flex items-center gap-3 mb-4">
                 <span className="text-sm font-bold text-rlc-red">{index + 1}.</span>
-                <h2 className="text-lg font-bold">{SECTION_TITLES[section.section]}</h2>
+                <h2 className="text-lg font-bold">{REPORT_SECTION_TITLES[section.section]}</h2>
                 {section.status !== 'section_completed' && (
                   <Badge variant="outline" className="text-xs text-amber-600 print:hidden">
                     {section.status.replace(/section_|_/g, ' ').trim()}
@@ -486,7 +466,7 @@ export function VettingReportView({ data }: VettingReportViewProps) {
                           vote.vote === 'vote_abstain' && 'bg-amber-100 text-amber-700'
                         )}
                       >
-                        {formatVote(vote.vote)}
+                        {formatBoardVote(vote.vote)}
                       </Badge>
                     </td>
                     <td className="px-4 py-2 text-sm text-muted-foreground">
@@ -6,8 +6,15 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ADMIN_INPUT_CLASS, ADMIN_LABEL_CLASS } from '@/components/admin/form-styles';
 import { BOARD_VOTE_CHOICES } from '@/lib/validations/vetting';
-import { tallyVotes } from '@/lib/vetting/engine';
-import type { VettingFullData, VettingPermissions, BoardVoteData, EligibleVoter } from '../types';
+import {
+  tallyVotes,
+  canFinalizeBoardVote,
+  getVotingWindowStatus,
+  DEFAULT_VOTE_RULES,
+  VOTE_QUORUM_LABELS,
+  VOTE_THRESHOLD_LABELS,
+} from '@/lib/vetting/engine';
+import type { VettingFullData, VettingPermissions, BoardVoteData, BoardVoteRules, EligibleVoter } from '../types';
 import type { BoardVoteChoice } from '@/types';
 
 function formatLabel(value: string): string {
@@ -46,10 +53,12 @@ export function VettingBoardVoteTab({ vetting, permissions }: VettingBoardVoteTa
   const router = useRouter();
   const [votes, setVotes] = useState<BoardVoteData[]>([]);
   const [eligibleVoters, setEligibleVoters] = useState<EligibleVoter[]>([]);
+  const [voteRules, setVoteRules] = useState<BoardVoteRules | null>(null);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [finalizing, setFinalizing] = useState(false);
   const [confirmFinalize, setConfirmFinalize] = useState(false);
+  const [savingDeadline, setSavingDeadline] = useState(false);
 
   // Cast vote form state
   const [selectedVote, setSelectedVote] = useState<string>('');
@@ -64,6 +73,7 @@ export function VettingBoardVoteTab({ vetting, permissions }: VettingBoardVoteTa
         const data = await res.json();
         setVotes(data.votes ?? []);
         setEligibleVoters(data.eligibleVoters ?? []);
+        setVoteRules(data.voteRules ?? null);
       }
     } catch {
       // Silently fail — user can retry by refreshing
@@ -76,11 +86,21 @@ export function VettingBoardVoteTab({ vetting, permissions }: VettingBoardVoteTa
     fetchVotes();
   }, [fetchVotes]);
 
-  // Compute tally from loaded votes
-  const tally = tallyVotes(votes);
+  // Tally ballots from current board members only, matching how the server finalizes
+  const eligibleIds = new Set(eligibleVoters.map((v) => v.id));
+  const tally = tallyVotes(votes.filter((v) => eligibleIds.has(v.voter_id)));
 
   const substantiveTotal = tally.vote_endorse + tally.vote_do_not_endorse + tally.vote_no_position;
 
+  const windowStatus = getVotingWindowStatus(vetting);
+  const finalizeGate = canFinalizeBoardVote({
+    tally,
+    rules: voteRules ?? DEFAULT_VOTE_RULES,
+    eligibleVoters: eligibleVoters.length,
+    window: vetting,
+  });
+  const appliedRule = vetting.vote_rule_applied;
+
   async function handleCastVote() {
     if (!selectedVote) return;
     setSubmitting(true);
@@ -106,6 +126,34 @@ export function VettingBoardVoteTab({ vetting, permissions }: VettingBoardVoteTa
     }
   }
 
+  async function handleChangeDeadline() {
+    const input = prompt('New voting deadline (YYYY-MM-DD HH:MM, local time; leave empty for no deadline):');
+    if (input === null) return;
+    const closesAt = input.trim() ? new Date(input.trim().replace(' ', 'T')) : null;
+    if (closesAt && isNaN(closesAt.getTime())) {
+      alert('Enter the deadline as YYYY-MM-DD HH:MM');
+      return;
+    }
+    setSavingDeadline(true);
+    try {
+      const res = await fetch(`/api/v1/admin/vetting/${vetting.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ voteClosesAt: closesAt ? closesAt.toISOString() : null }),
+      });
+      if (res.ok) {
+        router.refresh();
+      } else {
+        const err = await res.json().catch(() => null);
+        alert(err?.error || 'Failed to change deadline');
+      }
+    } catch {
+      alert('A network error occurred. Please check your connection and try again.');
+    } finally {
+      setSavingDeadline(false);
+    }
+  }
+
   async function handleFinalize() {
     setFinalizing(true);
     try {
@@ -147,8 +195,74 @@ export function VettingBoardVoteTab({ vetting, permissions }: VettingBoardVoteTa
           {vetting.endorsed_at && (
             <p className="mt-2 text-xs text-muted-foreground">
               Finalized {new Date(vetting.endorsed_at).toLocaleString()}
+              {appliedRule?.finalized_by === 'deadline' && ' when voting closed'}
+            </p>
+          )}
+          {appliedRule && (
+            <p className="mt-1 text-xs text-muted-foreground">
+              Decided under {appliedRule.name}: {VOTE_THRESHOLD_LABELS[appliedRule.threshold].toLowerCase()} threshold
+              {appliedRule.threshold_met ? ' met' : ' not met'}, {appliedRule.tally.total} of{' '}
+              {appliedRule.eligible_voters} board members voted
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Vote Rules */}
+      {!isFinalized && (
+        <div className="rounded-lg border bg-card p-6">
+          <h3 className="text-sm font-semibold uppercase tracking-wider text-muted-foreground mb-4">
+            Vote Rules
+          </h3>
+          <dl className="grid gap-3 text-sm sm:grid-cols-2">
+            <div>
+              <dt className="text-muted-foreground">Rule</dt>
+              <dd className="font-medium">{voteRules?.name ?? 'Default'}</dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Turnout</dt>
+              <dd className="font-medium">
+                {tally.total} of {eligibleVoters.length} board members voted
+              </dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Quorum</dt>
+              <dd className="font-medium">{VOTE_QUORUM_LABELS[(voteRules ?? DEFAULT_VOTE_RULES).quorum]}</dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Threshold</dt>
+              <dd className="font-medium">{VOTE_THRESHOLD_LABELS[(voteRules ?? DEFAULT_VOTE_RULES).threshold]}</dd>
+            </div>
+            {vetting.vote_opens_at && (
+              <div>
+                <dt className="text-muted-foreground">Opens</dt>
+                <dd className="font-medium">{new Date(vetting.vote_opens_at).toLocaleString()}</dd>
+              </div>
+            )}
+            <div>
+              <dt className="text-muted-foreground">Closes</dt>
+              <dd className="font-medium">
+                {vetting.vote_closes_at ? new Date(vetting.vote_closes_at).toLocaleString() : 'No deadline'}
+              </dd>
+            </div>
+          </dl>
+          {windowStatus === 'closed' && (
+            <p className="mt-3 text-sm text-amber-600 dark:text-amber-400">
+              Voting has closed. {finalizeGate.allowed
+                ? 'The result will be recorded automatically within the hour.'
+                : `${finalizeGate.reason}. Extend the deadline to reopen voting.`}
             </p>
           )}
+          {windowStatus === 'not_open' && (
+            <p className="mt-3 text-sm text-muted-foreground">Voting has not opened yet.</p>
+          )}
+          {permissions.isNational && (
+            <div className="mt-4 flex justify-end">
+              <Button variant="outline" size="sm" onClick={handleChangeDeadline} disabled={savingDeadline}>
+                {savingDeadline ? 'Saving...' : 'Change Deadline'}
+              </Button>
+            </div>
+          )}
         </div>
       )}
 
@@ -231,7 +345,7 @@ export function VettingBoardVoteTab({ vetting, permissions }: VettingBoardVoteTa
       </div>
 
       {/* Cast Vote Form */}
-      {permissions.canCastBoardVote && !isFinalized && (
+      {permissions.canCastBoardVote && !isFinalized && windowStatus === 'open' && (
         <div className="rounded-lg border bg-card p-6">
           <h3 className="text-sm font-semibold uppercase tracking-wider text-muted-foreground mb-4">
             Cast Your Vote
@@ -296,10 +410,8 @@ export function VettingBoardVoteTab({ vetting, permissions }: VettingBoardVoteTa
             Finalize Vote
           </h3>
 
-          {substantiveTotal === 0 ? (
-            <p className="text-sm text-muted-foreground">
-              At least one non-abstain vote is required before finalizing.
-            </p>
+          {!finalizeGate.allowed ? (
+            <p className="text-sm text-muted-foreground">{finalizeGate.reason}</p>
           ) : !confirmFinalize ? (
             <div>
               <p className="text-sm text-muted-foreground mb-3">
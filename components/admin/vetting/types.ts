@@ -5,6 +5,9 @@ import type {
   VettingRecommendation,
   BoardVoteChoice,
   OfficeLevel,
+  VoteQuorum,
+  VoteThreshold,
+  AppliedVoteRule,
 } from '@/types';
 
 export interface VettingPermissions {
@@ -103,6 +106,14 @@ export interface EligibleVoter {
   last_name: string;
 }
 
+export interface BoardVoteRules {
+  id: string | null;
+  name: string;
+  quorum: VoteQuorum;
+  threshold: VoteThreshold;
+  voting_period_days: number | null;
+}
+
 export interface SurveyAnswerData {
   id: string;
   answer: string;
@@ -173,6 +184,9 @@ export interface VettingFullData {
   recommended_at: string | null;
   endorsement_result: VettingRecommendation | null;
   endorsed_at: string | null;
+  vote_opens_at: string | null;
+  vote_closes_at: string | null;
+  vote_rule_applied: AppliedVoteRule | null;
   press_release_url: string | null;
   press_release_notes: string | null;
   press_release_post_id: string | null;
@@ -0,0 +1,277 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { ADMIN_INPUT_CLASS, ADMIN_LABEL_CLASS } from '@/components/admin/form-styles';
+import { OFFICE_LEVELS, VOTE_QUORUMS, VOTE_THRESHOLDS } from '@/lib/validations/vetting';
+import { VOTE_QUORUM_LABELS, VOTE_THRESHOLD_LABELS } from '@/lib/vetting/engine';
+import { Plus, Trash2 } from 'lucide-react';
+import type { CandidateVoteRule, OfficeLevel, VoteQuorum, VoteThreshold } from '@/types';
+
+interface Committee {
+  id: string;
+  name: string;
+}
+
+interface VoteRulesManagerProps {
+  voteRules: CandidateVoteRule[];
+  committees: Committee[];
+  canManage: boolean;
+}
+
+const LEVEL_LABELS: Record<OfficeLevel, string> = {
+  federal: 'Federal',
+  state: 'State',
+  county: 'County',
+  municipal: 'Municipal',
+  judicial: 'Judicial',
+  special_district: 'Special District',
+};
+
+export function VoteRulesManager({ voteRules, committees, canManage }: VoteRulesManagerProps) {
+  const router = useRouter();
+  const [loading, setLoading] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const [name, setName] = useState('');
+  const [committeeId, setCommitteeId] = useState('');
+  const [officeLevel, setOfficeLevel] = useState('');
+  const [quorum, setQuorum] = useState<VoteQuorum>('no_quorum');
+  const [threshold, setThreshold] = useState<VoteThreshold>('plurality');
+  const [votingPeriodDays, setVotingPeriodDays] = useState('');
+
+  const committeeNames = new Map(committees.map((c) => [c.id, c.name]));
+
+  function resetForm() {
+    setName('');
+    setCommitteeId('');
+    setOfficeLevel('');
+    setQuorum('no_quorum');
+    setThreshold('plurality');
+    setVotingPeriodDays('');
+  }
+
+  async function handleCreate() {
+    if (!name.trim()) return;
+    setSaving(true);
+    try {
+      const res = await fetch('/api/v1/admin/vetting/vote-rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: name.trim(),
+          committeeId: committeeId || null,
+          officeLevel: officeLevel || null,
+          quorum,
+          threshold,
+          votingPeriodDays: votingPeriodDays ? parseInt(votingPeriodDays, 10) : null,
+        }),
+      });
+      if (res.ok) {
+        resetForm();
+        setShowForm(false);
+        router.refresh();
+      } else {
+        const err = await res.json().catch(() => null);
+        alert(err?.error || 'Failed to create vote rule');
+      }
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(id: string) {
+    if (!confirm('Delete this vote rule? Open votes using it fall back to the next matching rule.')) return;
+    setLoading(id);
+    try {
+      const res = await fetch(`/api/v1/admin/vetting/vote-rules/${id}`, {
+        method: 'DELETE',
+      });
+      if (res.ok) {
+        router.refresh();
+      }
+    } finally {
+      setLoading(null);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Each board vote uses the most specific matching rule: committee and office level, then committee, then office
+        level, then the rule with neither. Without any rule, votes are decided by plurality with no quorum or deadline.
+      </p>
+
+      {canManage && !showForm && (
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={() => setShowForm(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Vote Rule
+          </Button>
+        </div>
+      )}
+
+      {canManage && showForm && (
+        <div className="rounded-lg border bg-card p-6 space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <label className={ADMIN_LABEL_CLASS}>Name</label>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className={ADMIN_INPUT_CLASS}
+                placeholder="e.g. Federal offices (bylaws art. IV)"
+              />
+            </div>
+            <div>
+              <label className={ADMIN_LABEL_CLASS}>Voting Period (days)</label>
+              <input
+                type="number"
+                min={1}
+                max={90}
+                value={votingPeriodDays}
+                onChange={(e) => setVotingPeriodDays(e.target.value)}
+                className={ADMIN_INPUT_CLASS}
+                placeholder="No deadline"
+              />
+            </div>
+            <div>
+              <label className={ADMIN_LABEL_CLASS}>Committee</label>
+              <select value={committeeId} onChange={(e) => setCommitteeId(e.target.value)} className={ADMIN_INPUT_CLASS}>
+                <option value="">Any committee</option>
+                {committees.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={ADMIN_LABEL_CLASS}>Office Level</label>
+              <select value={officeLevel} onChange={(e) => setOfficeLevel(e.target.value)} className={ADMIN_INPUT_CLASS}>
+                <option value="">Any office level</option>
+                {OFFICE_LEVELS.map((level) => (
+                  <option key={level} value={level}>
+                    {LEVEL_LABELS[level]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={ADMIN_LABEL_CLASS}>Quorum</label>
+              <select
+                value={quorum}
+                onChange={(e) => setQuorum(e.target.value as VoteQuorum)}
+                className={ADMIN_INPUT_CLASS}
+              >
+                {VOTE_QUORUMS.map((q) => (
+                  <option key={q} value={q}>
+                    {VOTE_QUORUM_LABELS[q]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={ADMIN_LABEL_CLASS}>Threshold</label>
+              <select
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value as VoteThreshold)}
+                className={ADMIN_INPUT_CLASS}
+              >
+                {VOTE_THRESHOLDS.map((t) => (
+                  <option key={t} value={t}>
+                    {VOTE_THRESHOLD_LABELS[t]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => {
+                resetForm();
+                setShowForm(false);
+              }}
+              disabled={saving}
+            >
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              className="bg-rlc-red hover:bg-rlc-red/90"
+              onClick={handleCreate}
+              disabled={saving || !name.trim()}
+            >
+              {saving ? 'Saving...' : 'Save Rule'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="rounded-lg border bg-card">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b bg-muted/50">
+                <th className="px-4 py-3 text-left text-sm font-medium">Name</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">Committee</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">Office Level</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">Quorum</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">Threshold</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">Voting Period</th>
+                {canManage && (
+                  <th className="px-4 py-3 text-left text-sm font-medium">Actions</th>
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {voteRules.map((r) => (
+                <tr key={r.id} className="border-b last:border-0">
+                  <td className="px-4 py-3 text-sm font-medium">{r.name}</td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">
+                    {r.committee_id ? committeeNames.get(r.committee_id) ?? '-' : 'Any'}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">
+                    {r.office_level ? LEVEL_LABELS[r.office_level] : 'Any'}
+                  </td>
+                  <td className="px-4 py-3 text-sm">{VOTE_QUORUM_LABELS[r.quorum]}</td>
+                  <td className="px-4 py-3 text-sm">{VOTE_THRESHOLD_LABELS[r.threshold]}</td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">
+                    {r.voting_period_days ? `${r.voting_period_days} days` : 'No deadline'}
+                  </td>
+                  {canManage && (
+                    <td className="px-4 py-3">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700"
+                        disabled={loading === r.id}
+                        onClick={() => handleDelete(r.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+              {voteRules.length === 0 && (
+                <tr>
+                  <td
+                    colSpan={canManage ? 7 : 6}
+                    className="px-4 py-8 text-center text-muted-foreground"
+                  >
+                    No vote rules yet. Board votes are decided by plurality with no quorum or deadline.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,7 +5,9 @@ import Link from 'next/link';
 import Image from 'next/image';
 import { MapPin, ExternalLink, Landmark, Scale } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { ScoreBadge } from '@/components/ui/score-badge';
 import type { OfficialCategory } from '@/lib/civic/client';
+import type { LegislatorScorecard } from '@/lib/scorecard/my-legislators';
 
 interface Rep {
   name: string;
@@ -17,6 +19,7 @@ interface Rep {
   channels: Array<{ type: string; id: string }>;
   office: string;
   category?: OfficialCategory;
+  scorecard?: LegislatorScorecard | null;
 }
 
 // Only show elected representatives, not appointed executive officials
@@ -62,7 +65,7 @@ export function MyRepsPreview({ memberAddress, memberState }: MyRepsPreviewProps
     let cancelled = false;
     setLoading(true);
 
-    fetch(`/api/v1/civic/representatives?address=${encodeURIComponent(memberAddress)}`)
+    fetch(`/api/v1/scorecards/my-legislators?address=${encodeURIComponent(memberAddress)}`)
       .then((res) => {
         if (!res.ok) {
           throw new Error(`Representatives API returned ${res.status}`);
@@ -191,6 +194,15 @@ export function MyRepsPreview({ memberAddress, memberState }: MyRepsPreviewProps
                           <span className="text-xs text-muted-foreground">({rep.party})</span>
                         </div>
                         <p className="text-xs text-muted-foreground">{rep.office}</p>
+                        {rep.scorecard?.session && (
+                          <Link
+                            href={`/scorecards/${rep.scorecard.session.slug}/${rep.scorecard.legislatorId}`}
+                            className="mt-1 inline-flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground"
+                          >
+                            <ScoreBadge score={rep.scorecard.libertyScore} size="sm" />
+                            <span>{rep.scorecard.session.name}</span>
+                          </Link>
+                        )}
                         <div className="mt-1 flex items-center gap-2">
                           {rep.phones[0] && (
                             <a
@@ -0,0 +1,60 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle } from 'lucide-react';
+import { formatDate } from '@/lib/utils';
+
+interface PaymentFailedBannerProps {
+  failureMessage: string | null;
+  nextRetryAt: string | null;
+}
+
+export function PaymentFailedBanner({ failureMessage, nextRetryAt }: PaymentFailedBannerProps) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleUpdate() {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/v1/billing-portal', { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok || !data.url) {
+        throw new Error(data.error || 'Failed to open billing portal');
+      }
+      window.location.href = data.url;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open billing portal');
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="mb-6 rounded-lg border border-red-200 bg-red-50 p-4 text-red-900 dark:border-red-900 dark:bg-red-950 dark:text-red-100">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-start gap-3">
+          <AlertTriangle className="mt-0.5 h-5 w-5 shrink-0 text-red-600" />
+          <div className="text-sm">
+            <p className="font-semibold">We couldn&apos;t renew your membership</p>
+            <p className="mt-1">
+              {failureMessage ? `${failureMessage} ` : 'Your last renewal payment failed. '}
+              {nextRetryAt
+                ? `We'll try again on ${formatDate(nextRetryAt)}. Update your payment method to stay in good standing.`
+                : 'Update your payment method to keep your membership active.'}
+            </p>
+            {error && <p className="mt-1 text-red-700">{error}</p>}
+          </div>
+        </div>
+        <Button
+          onClick={handleUpdate}
+          disabled={loading}
+          className="shrink-0 bg-rlc-red hover:bg-rlc-red/90"
+        >
+          {loading ? 'Opening...' : 'Fix Payment Method'}
+        </Button>
+      </div>
+    </div>
+  );
+}
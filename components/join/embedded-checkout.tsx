@@ -7,7 +7,8 @@ import {
 } from '@stripe/react-stripe-js';
 import { ArrowLeft } from 'lucide-react';
 import type { TierConfig } from '@/lib/stripe/client';
-import { formatPrice } from '@/lib/stripe/client';
+import { formatPrice, getTermConfig, getTermPrice } from '@/lib/stripe/client';
+import type { MembershipTerm } from '@/types';
 
 const publishableKey = process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY;
 const stripePromise = publishableKey ? loadStripe(publishableKey) : null;
@@ -15,12 +16,16 @@ const stripePromise = publishableKey ? loadStripe(publishableKey) : null;
 interface EmbeddedCheckoutFormProps {
   clientSecret: string;
   tier: TierConfig;
+  term: MembershipTerm;
+  recipientName?: string | null;
   onBack: () => void;
 }
 
 export function EmbeddedCheckoutForm({
   clientSecret,
   tier,
+  term,
+  recipientName,
   onBack,
 }: EmbeddedCheckoutFormProps) {
   return (
@@ -40,9 +45,12 @@ export function EmbeddedCheckoutForm({
       ) : (
         <>
           <div className="mb-6 rounded-lg border border-border bg-card p-4">
-            <p className="text-sm text-muted-foreground">Selected membership</p>
+            <p className="text-sm text-muted-foreground">
+              {recipientName ? `Gift membership for ${recipientName}` : 'Selected membership'}
+            </p>
             <p className="text-lg font-semibold">
-              {tier.name} — {formatPrice(tier.price)}/year
+              {tier.name} — {formatPrice(getTermPrice(tier, term))}
+              {getTermConfig(term)?.priceSuffix}
             </p>
           </div>
 
@@ -0,0 +1,90 @@
+'use client';
+
+import { US_STATES } from '@/lib/constants/us-states';
+
+export interface GiftDetails {
+  firstName: string;
+  lastName: string;
+  email: string;
+  state: string;
+  message: string;
+}
+
+export const EMPTY_GIFT: GiftDetails = { firstName: '', lastName: '', email: '', state: '', message: '' };
+
+/** Returns an error message when the recipient details are incomplete, otherwise null. */
+export function validateGiftDetails(gift: GiftDetails): string | null {
+  if (!gift.firstName.trim() || !gift.lastName.trim()) {
+    return 'Please enter the recipient\'s name above.';
+  }
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(gift.email.trim())) {
+    return 'Please enter a valid recipient email above.';
+  }
+  return null;
+}
+
+interface GiftRecipientFormProps {
+  value: GiftDetails;
+  onChange: (value: GiftDetails) => void;
+}
+
+const inputClass =
+  'w-full rounded-md border border-border bg-background px-3 py-2 text-sm placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-rlc-red';
+
+export function GiftRecipientForm({ value, onChange }: GiftRecipientFormProps) {
+  function set<K extends keyof GiftDetails>(key: K, v: GiftDetails[K]) {
+    onChange({ ...value, [key]: v });
+  }
+
+  return (
+    <div className="mx-auto mb-10 max-w-2xl rounded-lg border border-border bg-card p-6">
+      <h3 className="mb-1 text-lg font-semibold">Who is this gift for?</h3>
+      <p className="mb-4 text-sm text-muted-foreground">
+        Their membership starts when you pay, and we&apos;ll email them a link to claim it.
+        Gift memberships do not renew automatically.
+      </p>
+      <div className="grid gap-3 sm:grid-cols-2">
+        <input
+          placeholder="First name"
+          value={value.firstName}
+          onChange={(e) => set('firstName', e.target.value)}
+          className={inputClass}
+        />
+        <input
+          placeholder="Last name"
+          value={value.lastName}
+          onChange={(e) => set('lastName', e.target.value)}
+          className={inputClass}
+        />
+        <input
+          type="email"
+          placeholder="Their email"
+          value={value.email}
+          onChange={(e) => set('email', e.target.value)}
+          className={inputClass}
+        />
+        <select
+          value={value.state}
+          onChange={(e) => set('state', e.target.value)}
+          className={inputClass}
+          aria-label="Recipient state"
+        >
+          <option value="">State (for their charter)</option>
+          {US_STATES.map((s) => (
+            <option key={s.code} value={s.code}>
+              {s.name}
+            </option>
+          ))}
+        </select>
+        <textarea
+          placeholder="Add a personal message (optional)"
+          value={value.message}
+          onChange={(e) => set('message', e.target.value)}
+          maxLength={1000}
+          rows={3}
+          className={`${inputClass} sm:col-span-2`}
+        />
+      </div>
+    </div>
+  );
+}
@@ -2,8 +2,11 @@
 
 import { useState } from 'react';
 import type { TierConfig } from '@/lib/stripe/client';
+import { MEMBERSHIP_TERMS } from '@/lib/stripe/client';
+import type { MembershipTerm } from '@/types';
 import { JoinTierCard } from '@/components/join/tier-card';
 import { EmbeddedCheckoutForm } from '@/components/join/embedded-checkout';
+import { EMPTY_GIFT, GiftRecipientForm, type GiftDetails } from '@/components/join/gift-recipient-form';
 
 interface JoinFlowProps {
   tiers: TierConfig[];
@@ -12,13 +15,19 @@ interface JoinFlowProps {
 interface ActiveCheckout {
   clientSecret: string;
   tier: TierConfig;
+  term: MembershipTerm;
+  recipientName: string | null;
 }
 
 export function JoinFlow({ tiers }: JoinFlowProps) {
   const [checkout, setCheckout] = useState<ActiveCheckout | null>(null);
+  const [term, setTerm] = useState<MembershipTerm>('annual');
+  const [isGift, setIsGift] = useState(false);
+  const [gift, setGift] = useState<GiftDetails>(EMPTY_GIFT);
 
   function handleCheckout(clientSecret: string, tier: TierConfig) {
-    setCheckout({ clientSecret, tier });
+    const recipientName = isGift ? `${gift.firstName.trim()} ${gift.lastName.trim()}` : null;
+    setCheckout({ clientSecret, tier, term, recipientName });
   }
 
   if (checkout) {
@@ -26,6 +35,8 @@ export function JoinFlow({ tiers }: JoinFlowProps) {
       <EmbeddedCheckoutForm
         clientSecret={checkout.clientSecret}
         tier={checkout.tier}
+        term={checkout.term}
+        recipientName={checkout.recipientName}
         onBack={() => setCheckout(null)}
       />
     );
@@ -37,10 +48,49 @@ export function JoinFlow({ tiers }: JoinFlowProps) {
 
   return (
     <>
+      {/* Purchase for self or as a gift */}
+      <div className="mb-4 flex justify-center gap-2">
+        {[false, true].map((giftMode) => (
+          <button
+            key={String(giftMode)}
+            type="button"
+            onClick={() => setIsGift(giftMode)}
+            className={`rounded-md border px-4 py-1.5 text-sm font-medium transition-colors ${
+              isGift === giftMode
+                ? 'border-rlc-blue bg-rlc-blue text-white'
+                : 'border-border hover:border-rlc-blue'
+            }`}
+          >
+            {giftMode ? 'Give as a gift' : 'For myself'}
+          </button>
+        ))}
+      </div>
+
+      {isGift && <GiftRecipientForm value={gift} onChange={setGift} />}
+
+      {/* Term selector */}
+      <div className="mb-8 flex flex-wrap justify-center gap-2">
+        {MEMBERSHIP_TERMS.map((t) => (
+          <button
+            key={t.term}
+            type="button"
+            onClick={() => setTerm(t.term)}
+            title={t.description}
+            className={`rounded-full border px-4 py-1.5 text-sm font-medium transition-colors ${
+              term === t.term
+                ? 'border-rlc-red bg-rlc-red text-white'
+                : 'border-border hover:border-rlc-red'
+            }`}
+          >
+            {t.name}
+          </button>
+        ))}
+      </div>
+
       {/* Primary tiers - 4 columns */}
       <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
         {primaryTiers.map((tier) => (
-          <JoinTierCard key={tier.tier} tier={tier} onCheckout={handleCheckout} />
+          <JoinTierCard key={tier.tier} tier={tier} term={term} gift={isGift ? gift : null} onCheckout={handleCheckout} />
         ))}
       </div>
 
@@ -52,7 +102,7 @@ export function JoinFlow({ tiers }: JoinFlowProps) {
           </h3>
           <div className="mx-auto grid max-w-4xl gap-6 md:grid-cols-3">
             {premiumTiers.map((tier) => (
-              <JoinTierCard key={tier.tier} tier={tier} onCheckout={handleCheckout} />
+              <JoinTierCard key={tier.tier} tier={tier} term={term} gift={isGift ? gift : null} onCheckout={handleCheckout} />
             ))}
           </div>
         </div>
@@ -5,21 +5,38 @@ import { useUser } from '@clerk/nextjs';
 import { Button } from '@/components/ui/button';
 import { Check, Users } from 'lucide-react';
 import type { TierConfig } from '@/lib/stripe/client';
-import { formatPrice } from '@/lib/stripe/client';
+import { formatPrice, getTermConfig, getTermPrice, isTermAvailable } from '@/lib/stripe/client';
+import type { MembershipTerm } from '@/types';
+import { validateGiftDetails, type GiftDetails } from '@/components/join/gift-recipient-form';
 
 interface TierCardProps {
   tier: TierConfig;
+  term: MembershipTerm;
+  /** When set, checkout buys this tier as a gift for the recipient */
+  gift?: GiftDetails | null;
   onCheckout: (clientSecret: string, tier: TierConfig) => void;
 }
 
-export function JoinTierCard({ tier, onCheckout }: TierCardProps) {
+export function JoinTierCard({ tier, term, gift, onCheckout }: TierCardProps) {
   const { isSignedIn } = useUser();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showEmailInput, setShowEmailInput] = useState(false);
   const [emailValue, setEmailValue] = useState('');
 
+  const available = isTermAvailable(tier.tier, term);
+  const price = getTermPrice(tier, term);
+  const priceSuffix = getTermConfig(term)?.priceSuffix ?? '';
+
   async function handleJoin() {
+    if (gift) {
+      const giftError = validateGiftDetails(gift);
+      if (giftError) {
+        setError(giftError);
+        return;
+      }
+    }
+
     // Unauthenticated users: show email input first
     if (!isSignedIn && !showEmailInput) {
       setShowEmailInput(true);
@@ -35,12 +52,22 @@ export function JoinTierCard({ tier, onCheckout }: TierCardProps) {
     setLoading(true);
     setError(null);
     try {
-      const payload: { tier: string; email?: string } = { tier: tier.tier };
-      if (!isSignedIn) {
-        payload.email = emailValue;
-      }
-
-      const res = await fetch('/api/v1/checkout', {
+      const payload = gift
+        ? {
+            tier: tier.tier,
+            term,
+            purchaserEmail: isSignedIn ? undefined : emailValue,
+            recipient: {
+              firstName: gift.firstName.trim(),
+              lastName: gift.lastName.trim(),
+              email: gift.email.trim(),
+              state: gift.state || null,
+            },
+            message: gift.message.trim() || null,
+          }
+        : { tier: tier.tier, term, email: isSignedIn ? undefined : emailValue };
+
+      const res = await fetch(gift ? '/api/v1/checkout/gift' : '/api/v1/checkout', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(payload),
@@ -83,8 +110,8 @@ export function JoinTierCard({ tier, onCheckout }: TierCardProps) {
       <div className="mb-4">
         <h3 className="text-xl font-semibold">{tier.name}</h3>
         <div className="mt-2">
-          <span className="text-3xl font-bold">{formatPrice(tier.price)}</span>
-          <span className="text-muted-foreground">/year</span>
+          <span className="text-3xl font-bold">{formatPrice(price)}</span>
+          <span className="text-muted-foreground">{priceSuffix}</span>
         </div>
         <p className="mt-2 text-sm text-muted-foreground">{tier.description}</p>
       </div>
@@ -113,7 +140,7 @@ export function JoinTierCard({ tier, onCheckout }: TierCardProps) {
         <div className="mb-3">
           <input
             type="email"
-            placeholder="Enter your email"
+            placeholder={gift ? 'Enter your email (for the receipt)' : 'Enter your email'}
             value={emailValue}
             onChange={(e) => setEmailValue(e.target.value)}
             onKeyDown={(e) => e.key === 'Enter' && handleJoin()}
@@ -125,18 +152,20 @@ export function JoinTierCard({ tier, onCheckout }: TierCardProps) {
 
       <Button
         onClick={handleJoin}
-        disabled={loading}
+        disabled={loading || !available}
         className={`w-full ${
           tier.featured
             ? 'bg-rlc-red hover:bg-rlc-red/90'
             : 'bg-rlc-blue hover:bg-rlc-blue/90'
         }`}
       >
-        {loading
-          ? 'Loading...'
-          : showEmailInput && !isSignedIn
-            ? 'Continue to Payment'
-            : `Join — ${formatPrice(tier.price)}/yr`}
+        {!available
+          ? 'Not available for this term'
+          : loading
+            ? 'Loading...'
+            : showEmailInput && !isSignedIn
+              ? 'Continue to Payment'
+              : `${gift ? 'Give' : 'Join'} — ${formatPrice(price)}${priceSuffix}`}
       </Button>
     </div>
   );
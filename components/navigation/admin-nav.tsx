@@ -22,6 +22,7 @@ import {
   Shield,
   UserCheck,
   CalendarClock,
+  Vote,
   Share2,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
@@ -73,6 +74,7 @@ const navSections: NavSection[] = [
       { href: '/admin/surveys', label: 'Questionnaires', icon: ClipboardList },
       { href: '/admin/vetting/committee', label: 'Committee', icon: UserCheck },
       { href: '/admin/vetting/deadlines', label: 'Deadlines', icon: CalendarClock },
+      { href: '/admin/vetting/vote-rules', label: 'Vote Rules', icon: Vote },
     ],
   },
   {
@@ -0,0 +1,34 @@
+import { getScoreColor } from '@/components/ui/score-badge';
+import type { CategoryAlignment as CategoryAlignmentRow } from '@/lib/scorecard/legislator-history';
+
+interface CategoryAlignmentProps {
+  categories: CategoryAlignmentRow[];
+}
+
+export function CategoryAlignment({ categories }: CategoryAlignmentProps) {
+  if (categories.length === 0) {
+    return <p className="text-sm text-muted-foreground">No recorded votes yet.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {categories.map((c) => {
+        const colors = getScoreColor(c.alignmentPct);
+        return (
+          <div key={c.category}>
+            <div className="mb-1 flex items-center justify-between text-sm">
+              <span className="font-medium capitalize">{c.category.replace(/_/g, ' ')}</span>
+              <span className="text-muted-foreground">
+                <span className={`font-semibold ${colors.text}`}>{Math.round(c.alignmentPct)}%</span>
+                {' '}({c.aligned} of {c.aligned + c.opposed} votes)
+              </span>
+            </div>
+            <div className="h-2 overflow-hidden rounded-full bg-muted">
+              <div className={`h-full rounded-full ${colors.bar}`} style={{ width: `${c.alignmentPct}%` }} />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
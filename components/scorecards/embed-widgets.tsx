@@ -0,0 +1,263 @@
+import type { CSSProperties, ReactNode } from 'react';
+import Image from 'next/image';
+import { getGrade } from '@/components/ui/score-badge';
+import type { EmbedConfig, EmbedLegislator, EmbedSize, EmbedTheme } from '@/lib/scorecard/embed-config';
+
+// Embeds render inside third-party iframes without the site's Tailwind theme,
+// so every widget is styled inline from these palettes.
+const PALETTES: Record<EmbedTheme, { background: string; text: string; muted: string; border: string; row: string; accent: string }> = {
+  light: { background: '#ffffff', text: '#111827', muted: '#6b7280', border: '#e5e7eb', row: '#f3f4f6', accent: '#b91c1c' },
+  dark: { background: '#111827', text: '#f9fafb', muted: '#9ca3af', border: '#374151', row: '#1f2937', accent: '#f87171' },
+};
+
+const FONT_SIZES: Record<EmbedSize, number> = { small: 12, medium: 13, large: 15 };
+
+const chamberLabels: Record<string, string> = {
+  us_house: 'House',
+  us_senate: 'Senate',
+  state_house: 'House',
+  state_senate: 'Senate',
+};
+
+function scoreColor(score: number | null): string {
+  if (score === null) return '#9ca3af';
+  if (score >= 80) return '#16a34a';
+  if (score >= 50) return '#ca8a04';
+  return '#dc2626';
+}
+
+function formatScore(score: number | null): string {
+  return score !== null ? `${score}%` : 'N/A';
+}
+
+function describe(leg: EmbedLegislator): string {
+  return [leg.party, chamberLabels[leg.chamber] || leg.chamber, leg.district ? `District ${leg.district}` : leg.state_code]
+    .filter(Boolean)
+    .join(' | ');
+}
+
+interface WidgetProps {
+  config: EmbedConfig;
+  slug: string;
+}
+
+export function EmbedFrame({ config, slug, children }: WidgetProps & { children: ReactNode }) {
+  const palette = PALETTES[config.theme];
+  return (
+    <div
+      style={{
+        fontFamily: 'system-ui, -apple-system, sans-serif',
+        fontSize: `${FONT_SIZES[config.size]}px`,
+        background: palette.background,
+        color: palette.text,
+        minHeight: '100vh',
+        padding: '16px',
+        boxSizing: 'border-box',
+      }}
+    >
+      {children}
+      <div style={{ marginTop: '12px', paddingTop: '8px', borderTop: `1px solid ${palette.border}`, textAlign: 'center' }}>
+        <a
+          href={`/scorecards/${slug}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          style={{ fontSize: '11px', color: palette.accent, textDecoration: 'none' }}
+        >
+          Powered by Republican Liberty Caucus
+        </a>
+      </div>
+    </div>
+  );
+}
+
+export function EmbedMessage({ config, children }: { config: EmbedConfig; children: ReactNode }) {
+  return <p style={{ color: PALETTES[config.theme].muted, padding: '16px 0', textAlign: 'center' }}>{children}</p>;
+}
+
+export function EmbedTable({
+  config,
+  title,
+  subtitle,
+  legislators,
+}: {
+  config: EmbedConfig;
+  title: string;
+  subtitle: string;
+  legislators: EmbedLegislator[];
+}) {
+  const palette = PALETTES[config.theme];
+  const cell: CSSProperties = { padding: '6px 4px' };
+  const head: CSSProperties = { padding: '8px 4px', fontWeight: 600, textAlign: 'left' };
+
+  return (
+    <>
+      <h2 style={{ fontSize: '1.4em', fontWeight: 'bold', marginBottom: '4px' }}>{title}</h2>
+      <p style={{ fontSize: '0.9em', color: palette.muted, marginBottom: '16px' }}>{subtitle}</p>
+
+      <div style={{ overflowX: 'auto' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ borderBottom: `2px solid ${palette.border}` }}>
+              <th style={head}>Name</th>
+              <th style={head}>Party</th>
+              <th style={head}>Chamber</th>
+              <th style={{ ...head, textAlign: 'right' }}>Score</th>
+            </tr>
+          </thead>
+          <tbody>
+            {legislators.map((leg) => (
+              <tr key={leg.id} style={{ borderBottom: `1px solid ${palette.row}` }}>
+                <td style={{ ...cell, fontWeight: 500 }}>{leg.name}</td>
+                <td style={{ ...cell, color: palette.muted }}>{leg.party}</td>
+                <td style={{ ...cell, color: palette.muted }}>{chamberLabels[leg.chamber] || leg.chamber}</td>
+                <td style={{ ...cell, textAlign: 'right', fontWeight: 600, color: scoreColor(leg.computed_score) }}>
+                  {formatScore(leg.computed_score)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
+
+export function EmbedLegislatorBadge({ config, slug, legislator }: WidgetProps & { legislator: EmbedLegislator }) {
+  const palette = PALETTES[config.theme];
+  const photoSize = config.size === 'small' ? 48 : config.size === 'medium' ? 64 : 80;
+
+  return (
+    <a
+      href={`/scorecards/${slug}/${legislator.id}`}
+      target="_blank"
+      rel="noopener noreferrer"
+      style={{ display: 'flex', alignItems: 'center', gap: '12px', color: palette.text, textDecoration: 'none' }}
+    >
+      {legislator.photo_url && config.size !== 'small' && (
+        <Image
+          src={legislator.photo_url}
+          alt={legislator.name}
+          width={photoSize}
+          height={photoSize}
+          style={{ borderRadius: '9999px', objectFit: 'cover', background: palette.row }}
+        />
+      )}
+      <div style={{ flex: 1, minWidth: 0 }}>
+        <p style={{ fontWeight: 600, fontSize: '1.1em' }}>{legislator.name}</p>
+        <p style={{ color: palette.muted, fontSize: '0.9em' }}>{describe(legislator)}</p>
+      </div>
+      <div style={{ textAlign: 'center' }}>
+        <p style={{ fontSize: '2em', fontWeight: 700, color: scoreColor(legislator.computed_score) }}>
+          {formatScore(legislator.computed_score)}
+        </p>
+        {legislator.computed_score !== null && (
+          <p style={{ fontSize: '0.85em', color: palette.muted }}>Grade {getGrade(legislator.computed_score)}</p>
+        )}
+      </div>
+    </a>
+  );
+}
+
+export function EmbedTopDefenders({
+  config,
+  slug,
+  title,
+  legislators,
+}: WidgetProps & { title: string; legislators: EmbedLegislator[] }) {
+  const palette = PALETTES[config.theme];
+
+  return (
+    <>
+      <h2 style={{ fontSize: '1.3em', fontWeight: 'bold', marginBottom: '4px' }}>Top Defenders of Liberty</h2>
+      <p style={{ fontSize: '0.9em', color: palette.muted, marginBottom: '12px' }}>{title}</p>
+      <ol style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+        {legislators.map((leg, index) => (
+          <li key={leg.id} style={{ borderBottom: `1px solid ${palette.row}` }}>
+            <a
+              href={`/scorecards/${slug}/${leg.id}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              style={{ display: 'flex', alignItems: 'center', gap: '10px', padding: '8px 0', color: palette.text, textDecoration: 'none' }}
+            >
+              <span style={{ width: '1.5em', color: palette.muted, fontWeight: 600 }}>{index + 1}</span>
+              <span style={{ flex: 1, minWidth: 0 }}>
+                <span style={{ display: 'block', fontWeight: 500 }}>{leg.name}</span>
+                <span style={{ display: 'block', fontSize: '0.85em', color: palette.muted }}>{describe(leg)}</span>
+              </span>
+              <span style={{ fontWeight: 700, color: scoreColor(leg.computed_score) }}>{formatScore(leg.computed_score)}</span>
+            </a>
+          </li>
+        ))}
+      </ol>
+    </>
+  );
+}
+
+export function EmbedDistrictLookup({
+  config,
+  slug,
+  title,
+  chambers,
+  results,
+}: WidgetProps & {
+  title: string;
+  /** Chambers on this scorecard; a choice is offered when there are several */
+  chambers: string[];
+  /** Legislators for the submitted district, or null before a search */
+  results: EmbedLegislator[] | null;
+}) {
+  const palette = PALETTES[config.theme];
+  const field: CSSProperties = {
+    padding: '6px 8px',
+    border: `1px solid ${palette.border}`,
+    borderRadius: '6px',
+    background: palette.background,
+    color: palette.text,
+    fontSize: '1em',
+  };
+
+  return (
+    <>
+      <h2 style={{ fontSize: '1.3em', fontWeight: 'bold', marginBottom: '4px' }}>Find Your Legislator</h2>
+      <p style={{ fontSize: '0.9em', color: palette.muted, marginBottom: '12px' }}>{title}</p>
+
+      <form method="get" style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', marginBottom: '12px' }}>
+        <input type="hidden" name="mode" value="district" />
+        {config.theme !== 'light' && <input type="hidden" name="theme" value={config.theme} />}
+        {config.size !== 'medium' && <input type="hidden" name="size" value={config.size} />}
+        {chambers.length > 1 && (
+          <select name="chamber" defaultValue={config.chamber ?? ''} style={field} aria-label="Chamber">
+            <option value="">Any chamber</option>
+            {chambers.map((c) => (
+              <option key={c} value={c}>{chamberLabels[c] || c}</option>
+            ))}
+          </select>
+        )}
+        <input
+          type="text"
+          name="district"
+          defaultValue={config.district ?? ''}
+          placeholder="District number"
+          aria-label="District number"
+          required
+          style={{ ...field, flex: 1, minWidth: '120px' }}
+        />
+        <button
+          type="submit"
+          style={{ ...field, background: palette.accent, borderColor: palette.accent, color: '#ffffff', fontWeight: 600, cursor: 'pointer' }}
+        >
+          Look up
+        </button>
+      </form>
+
+      {results !== null && results.length === 0 && (
+        <EmbedMessage config={config}>No scored legislator represents district {config.district}.</EmbedMessage>
+      )}
+      <div style={{ display: 'grid', gap: '12px' }}>
+        {results?.map((leg) => (
+          <EmbedLegislatorBadge key={leg.id} config={config} slug={slug} legislator={leg} />
+        ))}
+      </div>
+    </>
+  );
+}
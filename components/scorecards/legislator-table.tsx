@@ -1,8 +1,9 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { Fragment, useState, useMemo } from 'react';
 import Link from 'next/link';
-import type { Legislator } from '@/types';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import type { CategorySubScore, Legislator } from '@/types';
 
 type SortField = 'name' | 'party' | 'score' | 'state_code';
 type SortDir = 'asc' | 'desc';
@@ -10,6 +11,8 @@ type SortDir = 'asc' | 'desc';
 interface Props {
   legislators: (Legislator & { computed_score: number | null })[];
   scorecardSlug: string;
+  /** Category sub-scores keyed by legislator id */
+  categoryScores?: Record<string, Record<string, CategorySubScore>>;
 }
 
 const chamberLabels: Record<string, string> = {
@@ -19,12 +22,16 @@ const chamberLabels: Record<string, string> = {
   state_senate: 'Senate',
 };
 
-export function LegislatorTable({ legislators, scorecardSlug }: Props) {
+export function LegislatorTable({ legislators, scorecardSlug, categoryScores = {} }: Props) {
   const [sortField, setSortField] = useState<SortField>('score');
   const [sortDir, setSortDir] = useState<SortDir>('desc');
   const [filterParty, setFilterParty] = useState('');
   const [filterChamber, setFilterChamber] = useState('');
   const [search, setSearch] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const hasBreakdown = Object.values(categoryScores).some((c) => Object.keys(c).length > 0);
+  const columnCount = hasBreakdown ? 7 : 6;
 
   const parties = useMemo(() => {
     const set = new Set(legislators.map((l) => l.party));
@@ -146,31 +153,75 @@ export function LegislatorTable({ legislators, scorecardSlug }: Props) {
                 >
                   Score{sortIcon('score')}
                 </th>
+                {hasBreakdown && (
+                  <th className="px-4 py-3 text-right text-sm font-medium">
+                    <span className="sr-only">Category breakdown</span>
+                  </th>
+                )}
               </tr>
             </thead>
             <tbody>
-              {filtered.map((leg, idx) => (
-                <tr key={leg.id} className="border-b last:border-0 hover:bg-muted/30">
-                  <td className="px-4 py-3 text-sm text-muted-foreground">{idx + 1}</td>
-                  <td className="px-4 py-3 text-sm font-medium">
-                    <Link
-                      href={`/scorecards/${scorecardSlug}/${leg.id}`}
-                      className="text-rlc-blue hover:underline"
-                    >
-                      {leg.name}
-                    </Link>
-                  </td>
-                  <td className="px-4 py-3 text-sm">{leg.party}</td>
-                  <td className="px-4 py-3 text-sm text-muted-foreground">{chamberLabels[leg.chamber] || leg.chamber}</td>
-                  <td className="px-4 py-3 text-sm">{leg.state_code}{leg.district ? `-${leg.district}` : ''}</td>
-                  <td className={`px-4 py-3 text-right text-sm font-semibold ${scoreColor(leg.computed_score)}`}>
-                    {leg.computed_score !== null ? `${leg.computed_score}%` : 'N/A'}
-                  </td>
-                </tr>
-              ))}
+              {filtered.map((leg, idx) => {
+                const categories = Object.entries(categoryScores[leg.id] ?? {})
+                  .sort(([a], [b]) => a.localeCompare(b));
+                const expanded = expandedId === leg.id;
+                return (
+                  <Fragment key={leg.id}>
+                    <tr className="border-b last:border-0 hover:bg-muted/30">
+                      <td className="px-4 py-3 text-sm text-muted-foreground">{idx + 1}</td>
+                      <td className="px-4 py-3 text-sm font-medium">
+                        <Link
+                          href={`/scorecards/${scorecardSlug}/${leg.id}`}
+                          className="text-rlc-blue hover:underline"
+                        >
+                          {leg.name}
+                        </Link>
+                      </td>
+                      <td className="px-4 py-3 text-sm">{leg.party}</td>
+                      <td className="px-4 py-3 text-sm text-muted-foreground">{chamberLabels[leg.chamber] || leg.chamber}</td>
+                      <td className="px-4 py-3 text-sm">{leg.state_code}{leg.district ? `-${leg.district}` : ''}</td>
+                      <td className={`px-4 py-3 text-right text-sm font-semibold ${scoreColor(leg.computed_score)}`}>
+                        {leg.computed_score !== null ? `${leg.computed_score}%` : 'N/A'}
+                      </td>
+                      {hasBreakdown && (
+                        <td className="px-4 py-3 text-right">
+                          {categories.length > 0 && (
+                            <button
+                              type="button"
+                              onClick={() => setExpandedId(expanded ? null : leg.id)}
+                              aria-expanded={expanded}
+                              aria-label={`${expanded ? 'Hide' : 'Show'} category breakdown for ${leg.name}`}
+                              className="text-muted-foreground hover:text-foreground"
+                            >
+                              {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                            </button>
+                          )}
+                        </td>
+                      )}
+                    </tr>
+                    {expanded && (
+                      <tr className="border-b bg-muted/20">
+                        <td colSpan={columnCount} className="px-4 py-3">
+                          <div className="flex flex-wrap gap-2">
+                            {categories.map(([category, sub]) => (
+                              <span key={category} className="rounded-full border bg-background px-3 py-1 text-xs">
+                                <span className="capitalize">{category.replace(/_/g, ' ')}</span>{' '}
+                                <span className={`font-semibold ${scoreColor(sub.score)}`}>
+                                  {sub.score !== null ? `${sub.score}%` : 'N/A'}
+                                </span>{' '}
+                                <span className="text-muted-foreground">({sub.aligned}/{sub.aligned + sub.against})</span>
+                              </span>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
               {filtered.length === 0 && (
                 <tr>
-                  <td colSpan={6} className="px-4 py-8 text-center text-muted-foreground">
+                  <td colSpan={columnCount} className="px-4 py-8 text-center text-muted-foreground">
                     {legislators.length === 0
                       ? 'No legislators scored yet.'
                       : 'No legislators match your filters.'}
@@ -0,0 +1,184 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { Check, Landmark, Scale, Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScoreBadge } from '@/components/ui/score-badge';
+import type { OfficialCategory } from '@/lib/civic/client';
+import type { OfficialWithScorecard } from '@/lib/scorecard/my-legislators';
+
+const SECTIONS: { category: OfficialCategory; label: string; icon: typeof Landmark }[] = [
+  { category: 'federal_legislature', label: 'Federal Legislators', icon: Landmark },
+  { category: 'state_legislature', label: 'State Legislators', icon: Scale },
+];
+
+const VOTE_LABELS: Record<string, string> = {
+  yea: 'Yea',
+  nay: 'Nay',
+  not_voting: 'Not voting',
+  absent: 'Absent',
+  present: 'Present',
+};
+
+export function MyLegislatorsLookup() {
+  const [address, setAddress] = useState('');
+  const [officials, setOfficials] = useState<OfficialWithScorecard[] | null>(null);
+  const [normalizedAddress, setNormalizedAddress] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const grouped = useMemo(
+    () =>
+      SECTIONS.map((section) => ({
+        ...section,
+        officials: (officials || []).filter((o) => o.category === section.category),
+      })).filter((section) => section.officials.length > 0),
+    [officials]
+  );
+
+  async function handleSearch(e: React.FormEvent) {
+    e.preventDefault();
+    if (!address.trim()) return;
+
+    setLoading(true);
+    setError('');
+    setOfficials(null);
+
+    try {
+      const res = await fetch(`/api/v1/scorecards/my-legislators?address=${encodeURIComponent(address)}`);
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || 'Failed to look up your legislators');
+        return;
+      }
+
+      setOfficials(data.officials || []);
+      setNormalizedAddress(data.normalizedAddress || null);
+    } catch {
+      setError('Failed to look up your legislators');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div>
+      <form onSubmit={handleSearch} className="flex flex-col gap-3 sm:flex-row">
+        <input
+          type="text"
+          value={address}
+          onChange={(e) => setAddress(e.target.value)}
+          placeholder="Enter your full address (e.g. 123 Main St, Austin, TX 78701)"
+          aria-label="Your address"
+          className="flex-1 rounded-md border bg-background px-4 py-3"
+          required
+        />
+        <Button type="submit" disabled={loading} className="bg-rlc-red hover:bg-rlc-red/90">
+          <Search className="mr-2 h-4 w-4" />
+          {loading ? 'Looking up...' : 'Find My Legislators'}
+        </Button>
+      </form>
+
+      {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+
+      {officials && grouped.length > 0 && (
+        <div className="mt-8">
+          {normalizedAddress && (
+            <p className="mb-6 text-sm text-muted-foreground">
+              Results for: <span className="font-medium text-foreground">{normalizedAddress}</span>
+            </p>
+          )}
+          <div className="space-y-10">
+            {grouped.map(({ category, label, icon: Icon, officials: groupOfficials }) => (
+              <section key={category}>
+                <div className="mb-4 flex items-center gap-2 border-b pb-2">
+                  <Icon className="h-5 w-5 text-muted-foreground" />
+                  <h3 className="font-heading text-lg font-semibold">{label}</h3>
+                </div>
+                <div className="grid gap-4 md:grid-cols-2">
+                  {groupOfficials.map((official, idx) => (
+                    <LegislatorScoreCard key={`${official.name}-${idx}`} official={official} />
+                  ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {officials && grouped.length === 0 && (
+        <p className="mt-8 text-center text-muted-foreground">
+          No state or federal legislators found for this address. Try a more specific address.
+        </p>
+      )}
+    </div>
+  );
+}
+
+function LegislatorScoreCard({ official }: { official: OfficialWithScorecard }) {
+  const { scorecard } = official;
+
+  return (
+    <div className="rounded-lg border bg-card p-4">
+      <div className="flex items-start gap-3">
+        {official.photoUrl ? (
+          <Image
+            src={official.photoUrl}
+            alt={official.name}
+            width={48}
+            height={48}
+            unoptimized
+            className="h-12 w-12 shrink-0 rounded-full object-cover"
+          />
+        ) : (
+          <div className="flex h-12 w-12 shrink-0 items-center justify-center rounded-full bg-muted font-bold text-muted-foreground">
+            {official.name.charAt(0)}
+          </div>
+        )}
+        <div className="min-w-0 flex-1">
+          <p className="font-semibold">{official.name}</p>
+          <p className="text-sm text-muted-foreground">
+            {official.office} ({official.party})
+          </p>
+        </div>
+        {scorecard?.session && <ScoreBadge score={scorecard.libertyScore} />}
+      </div>
+
+      {scorecard?.session ? (
+        <div className="mt-4">
+          {scorecard.keyVotes.length > 0 && (
+            <ul className="space-y-1.5">
+              {scorecard.keyVotes.map((kv) => (
+                <li key={kv.billId} className="flex items-start gap-2 text-sm">
+                  {kv.alignedWithLiberty ? (
+                    <Check className="mt-0.5 h-4 w-4 shrink-0 text-green-600" aria-label="Pro-liberty vote" />
+                  ) : (
+                    <X className="mt-0.5 h-4 w-4 shrink-0 text-red-600" aria-label="Anti-liberty vote" />
+                  )}
+                  <span className="min-w-0">
+                    <span className="font-medium">{kv.billNumber}</span>{' '}
+                    <span className="text-muted-foreground">{kv.title}</span>{' '}
+                    <span className="whitespace-nowrap text-xs text-muted-foreground">
+                      ({VOTE_LABELS[kv.vote] || kv.vote})
+                    </span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <Link
+            href={`/scorecards/${scorecard.session.slug}/${scorecard.legislatorId}`}
+            className="mt-3 inline-block text-sm font-medium text-rlc-blue hover:underline"
+          >
+            Full voting record on the {scorecard.session.name} scorecard
+          </Link>
+        </div>
+      ) : (
+        <p className="mt-4 text-sm text-muted-foreground">Not yet rated on a Liberty Scorecard.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import type { LegislatorSessionScore } from '@/lib/scorecard/legislator-history';
+
+interface ScoreTrendChartProps {
+  sessions: LegislatorSessionScore[];
+}
+
+const WIDTH = 640;
+const HEIGHT = 240;
+const PAD = { top: 16, right: 24, bottom: 40, left: 40 };
+const GRID_LINES = [0, 25, 50, 75, 100];
+
+function pointColor(score: number): string {
+  if (score >= 80) return '#22c55e';
+  if (score >= 60) return '#eab308';
+  if (score >= 40) return '#f97316';
+  return '#ef4444';
+}
+
+export function ScoreTrendChart({ sessions }: ScoreTrendChartProps) {
+  if (sessions.length === 0) {
+    return <p className="text-sm text-muted-foreground">No scored sessions yet.</p>;
+  }
+
+  // Bonus points can push a score past 100
+  const yMax = Math.max(100, ...sessions.map((s) => s.libertyScore));
+  const plotWidth = WIDTH - PAD.left - PAD.right;
+  const plotHeight = HEIGHT - PAD.top - PAD.bottom;
+  const x = (i: number) =>
+    PAD.left + (sessions.length === 1 ? plotWidth / 2 : (i / (sessions.length - 1)) * plotWidth);
+  const y = (score: number) => PAD.top + plotHeight - (Math.max(0, score) / yMax) * plotHeight;
+
+  const points = sessions.map((s, i) => `${x(i)},${y(s.libertyScore)}`).join(' ');
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="h-auto w-full"
+      role="img"
+      aria-label={`Liberty score by session: ${sessions.map((s) => `${s.sessionName} ${Math.round(s.libertyScore)}%`).join(', ')}`}
+    >
+      {GRID_LINES.map((g) => (
+        <g key={g}>
+          <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(g)} y2={y(g)} className="stroke-border" strokeDasharray="3 3" />
+          <text x={PAD.left - 8} y={y(g) + 4} textAnchor="end" className="fill-muted-foreground text-[10px]">
+            {g}%
+          </text>
+        </g>
+      ))}
+
+      {sessions.length > 1 && (
+        <polyline points={points} fill="none" strokeWidth={2.5} className="stroke-rlc-blue" />
+      )}
+
+      {sessions.map((s, i) => (
+        <g key={s.sessionId}>
+          <circle cx={x(i)} cy={y(s.libertyScore)} r={5} fill={pointColor(s.libertyScore)} className="stroke-background" strokeWidth={2}>
+            <title>{`${s.sessionName}: ${Math.round(s.libertyScore)}%`}</title>
+          </circle>
+          <text x={x(i)} y={y(s.libertyScore) - 10} textAnchor="middle" className="fill-foreground text-[11px] font-semibold">
+            {Math.round(s.libertyScore)}%
+          </text>
+          <text x={x(i)} y={HEIGHT - PAD.bottom + 18} textAnchor="middle" className="fill-muted-foreground text-[10px]">
+            {s.sessionYear}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
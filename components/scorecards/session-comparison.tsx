@@ -0,0 +1,223 @@
+import type { ReactNode } from 'react';
+import Link from 'next/link';
+import { TrendingDown, TrendingUp, UserMinus, UserPlus } from 'lucide-react';
+import { ScoreBadge } from '@/components/ui/score-badge';
+import type { ComparisonRow, SessionComparison } from '@/lib/scorecard/session-comparison';
+
+interface SessionComparisonViewProps {
+  comparison: SessionComparison;
+}
+
+const statusLabels: Record<ComparisonRow['status'], string> = {
+  returning: 'Returning',
+  new: 'New',
+  departed: 'Departed',
+};
+
+function formatDelta(delta: number | null): string {
+  if (delta === null) return '-';
+  return `${delta > 0 ? '+' : ''}${delta.toFixed(1)}`;
+}
+
+function deltaColor(delta: number | null): string {
+  if (delta === null || delta === 0) return 'text-muted-foreground';
+  return delta > 0 ? 'text-green-700' : 'text-red-700';
+}
+
+/** The most recent compared session the legislator was scored in. */
+function lastScoredSession(row: ComparisonRow, comparison: SessionComparison) {
+  return [...comparison.sessions].reverse().find((s) => row.scores[s.id] !== null)!;
+}
+
+function profileHref(row: ComparisonRow, comparison: SessionComparison): string {
+  return `/scorecards/${lastScoredSession(row, comparison).slug}/${row.legislator.id}`;
+}
+
+function MemberList({
+  title,
+  icon,
+  rows,
+  comparison,
+  empty,
+  showDelta = false,
+}: {
+  title: string;
+  icon: ReactNode;
+  rows: ComparisonRow[];
+  comparison: SessionComparison;
+  empty: string;
+  showDelta?: boolean;
+}) {
+  return (
+    <div className="rounded-lg border bg-card p-4">
+      <div className="mb-3 flex items-center gap-2">
+        {icon}
+        <h3 className="font-heading font-semibold">{title}</h3>
+        <span className="text-sm text-muted-foreground">({rows.length})</span>
+      </div>
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{empty}</p>
+      ) : (
+        <ul className="space-y-2">
+          {rows.map((row) => (
+            <li key={row.key} className="flex items-center justify-between gap-3 text-sm">
+              <Link href={profileHref(row, comparison)} className="font-medium hover:text-rlc-red">
+                {row.legislator.name}
+                <span className="ml-1 text-muted-foreground">
+                  ({row.legislator.party}{row.legislator.district ? `-${row.legislator.district}` : ''})
+                </span>
+              </Link>
+              {showDelta ? (
+                <span className={`font-semibold ${deltaColor(row.delta)}`}>{formatDelta(row.delta)}</span>
+              ) : (
+                <ScoreBadge score={row.scores[lastScoredSession(row, comparison).id]} size="sm" />
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function SessionComparisonView({ comparison }: SessionComparisonViewProps) {
+  const { sessions, averages } = comparison;
+  const first = sessions[0];
+  const latest = sessions[sessions.length - 1];
+  const averageDelta = averages[first.id] !== null && averages[latest.id] !== null
+    ? Math.round((averages[latest.id]! - averages[first.id]!) * 100) / 100
+    : null;
+
+  return (
+    <div className="space-y-10">
+      {/* Average score per session */}
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {sessions.map((s) => (
+          <div key={s.id} className="rounded-lg border bg-card p-4">
+            <p className="text-sm text-muted-foreground">Average score</p>
+            <Link href={`/scorecards/${s.slug}`} className="font-heading font-semibold hover:text-rlc-red">
+              {s.name}
+            </Link>
+            <div className="mt-3">
+              <ScoreBadge score={averages[s.id]} size="md" />
+            </div>
+          </div>
+        ))}
+      </div>
+      {averageDelta !== null && (
+        <p className="text-sm text-muted-foreground">
+          The average score moved{' '}
+          <span className={`font-semibold ${deltaColor(averageDelta)}`}>{formatDelta(averageDelta)}</span> points
+          from {first.name} to {latest.name}.
+        </p>
+      )}
+
+      {/* Movers and membership changes */}
+      <div className="grid gap-4 md:grid-cols-2">
+        <MemberList
+          title="Biggest Gains"
+          icon={<TrendingUp className="h-5 w-5 text-green-600" />}
+          rows={comparison.movers.up}
+          comparison={comparison}
+          empty="No returning legislator improved."
+          showDelta
+        />
+        <MemberList
+          title="Biggest Drops"
+          icon={<TrendingDown className="h-5 w-5 text-red-600" />}
+          rows={comparison.movers.down}
+          comparison={comparison}
+          empty="No returning legislator declined."
+          showDelta
+        />
+        <MemberList
+          title="Newly Elected"
+          icon={<UserPlus className="h-5 w-5 text-rlc-blue" />}
+          rows={comparison.newMembers}
+          comparison={comparison}
+          empty={`Everyone scored in ${latest.name} was scored before.`}
+        />
+        <MemberList
+          title="No Longer Serving"
+          icon={<UserMinus className="h-5 w-5 text-muted-foreground" />}
+          rows={comparison.departed}
+          comparison={comparison}
+          empty={`Everyone scored earlier was scored in ${latest.name}.`}
+        />
+      </div>
+
+      {/* Category shifts */}
+      {comparison.categories.length > 0 && (
+        <div>
+          <h3 className="mb-3 font-heading text-xl font-semibold">Category Shifts</h3>
+          <div className="overflow-x-auto rounded-lg border">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium">Category</th>
+                  {sessions.map((s) => (
+                    <th key={s.id} className="px-4 py-2 text-right font-medium">{s.name}</th>
+                  ))}
+                  <th className="px-4 py-2 text-right font-medium">Change</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {comparison.categories.map((c) => (
+                  <tr key={c.category}>
+                    <td className="px-4 py-2 capitalize">{c.category.replace(/_/g, ' ')}</td>
+                    {sessions.map((s) => (
+                      <td key={s.id} className="px-4 py-2 text-right">
+                        {c.scores[s.id] !== null ? `${c.scores[s.id]!.toFixed(1)}%` : '-'}
+                      </td>
+                    ))}
+                    <td className={`px-4 py-2 text-right font-semibold ${deltaColor(c.delta)}`}>{formatDelta(c.delta)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Every matched legislator */}
+      <div>
+        <h3 className="mb-3 font-heading text-xl font-semibold">All Legislators</h3>
+        <div className="overflow-x-auto rounded-lg border">
+          <table className="w-full text-sm">
+            <thead className="bg-muted/50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium">Legislator</th>
+                <th className="px-4 py-2 text-left font-medium">Status</th>
+                {sessions.map((s) => (
+                  <th key={s.id} className="px-4 py-2 text-right font-medium">{s.name}</th>
+                ))}
+                <th className="px-4 py-2 text-right font-medium">Change</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {comparison.rows.map((row) => (
+                <tr key={row.key} className="hover:bg-muted/30">
+                  <td className="px-4 py-2">
+                    <Link href={profileHref(row, comparison)} className="font-medium hover:text-rlc-red">
+                      {row.legislator.name}
+                    </Link>
+                    <span className="ml-1 text-muted-foreground">
+                      ({row.legislator.party}{row.legislator.district ? `-${row.legislator.district}` : ''})
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-muted-foreground">{statusLabels[row.status]}</td>
+                  {sessions.map((s) => (
+                    <td key={s.id} className="px-4 py-2 text-right">
+                      {row.scores[s.id] !== null ? row.scores[s.id]!.toFixed(1) : '-'}
+                    </td>
+                  ))}
+                  <td className={`px-4 py-2 text-right font-semibold ${deltaColor(row.delta)}`}>{formatDelta(row.delta)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
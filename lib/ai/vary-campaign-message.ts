@@ -0,0 +1,47 @@
+import { generateText } from 'ai';
+import { anthropic } from '@ai-sdk/anthropic';
+
+const SYSTEM_PROMPT = `You help members of the Republican Liberty Caucus (RLC) write to their legislators. You are given a constituent message that many members will send to the same office. Rewrite it so this member's message reads as their own and is not identical to anyone else's.
+
+Rules:
+1. Keep the same request, position, and facts. Do not add claims, statistics, or promises that are not in the original.
+2. Every required talking point must appear in your rewrite exactly as written, word for word.
+3. Keep the greeting to the legislator and the sign-off with the member's name.
+4. Write in first person as the member, in plain, respectful language. Vary sentence structure, order, and word choice.
+5. Keep roughly the same length as the original.
+
+Respond with the rewritten message only — no preamble, notes, or quotation marks.`;
+
+export interface CampaignMessageVariationInput {
+  message: string;
+  talkingPoints: string[];
+  memberFirstName: string | null;
+  city: string | null;
+}
+
+export async function varyCampaignMessage(input: CampaignMessageVariationInput): Promise<string> {
+  if (!process.env.ANTHROPIC_API_KEY) {
+    throw new Error('ANTHROPIC_API_KEY is not configured');
+  }
+
+  const parts: string[] = [];
+  if (input.memberFirstName) parts.push(`Member: ${input.memberFirstName}${input.city ? ` from ${input.city}` : ''}`);
+  if (input.talkingPoints.length > 0) {
+    parts.push('Required talking points:', ...input.talkingPoints.map((p) => `- ${p}`));
+  }
+  parts.push('', 'Original message:', input.message);
+
+  const { text } = await generateText({
+    model: anthropic('claude-sonnet-4-5-20250929'),
+    system: SYSTEM_PROMPT,
+    prompt: `Rewrite this constituent message:\n\n${parts.join('\n')}`,
+    maxOutputTokens: 1500,
+    temperature: 0.9,
+  });
+
+  const rewritten = text.trim();
+  if (!rewritten) {
+    throw new Error('AI returned an empty message');
+  }
+  return rewritten;
+}
@@ -11,6 +11,7 @@ export const ApiErrorCode = {
   INVALID_JSON: 'INVALID_JSON',
   NOT_FOUND: 'NOT_FOUND',
   CONFLICT: 'CONFLICT',
+  PAYMENT_FAILED: 'PAYMENT_FAILED',
   INTERNAL_ERROR: 'INTERNAL_ERROR',
   DATABASE_ERROR: 'DATABASE_ERROR',
 } as const;
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}));
+
+import { buildWhipCount, parseCallMetadata, type CallLogRow } from '../call-survey';
+import { hasLoggedUntrackedCall } from '../calls';
+
+function makeCall(
+  legislatorId: string | null,
+  outcome: string,
+  position: string,
+  createdAt: string,
+  name = 'Jane Adams'
+): CallLogRow {
+  return {
+    legislator_id: legislatorId,
+    metadata: { call_outcome: outcome, legislator_position: position, official_name: name, office: 'State Representative' },
+    created_at: createdAt,
+  };
+}
+
+describe('parseCallMetadata', () => {
+  it('reads a logged survey and rejects malformed metadata', () => {
+    expect(parseCallMetadata(makeCall('l1', 'voicemail', 'support', '2026-04-01').metadata)).toEqual({
+      call_outcome: 'voicemail',
+      legislator_position: 'support',
+      official_name: 'Jane Adams',
+      office: 'State Representative',
+    });
+    expect(parseCallMetadata({ call_outcome: 'hung_up', legislator_position: 'support', official_name: 'X' })).toBeNull();
+    expect(parseCallMetadata({})).toBeNull();
+  });
+});
+
+describe('buildWhipCount', () => {
+  it('groups calls per legislator with outcome and position tallies', () => {
+    const whip = buildWhipCount(
+      [
+        makeCall('l1', 'reached_staff', 'oppose', '2026-04-01T10:00:00Z'),
+        makeCall('l1', 'voicemail', 'unknown', '2026-04-02T10:00:00Z'),
+        makeCall('l1', 'reached_staff', 'oppose', '2026-04-03T10:00:00Z'),
+        makeCall(null, 'busy', 'unknown', '2026-04-01T10:00:00Z', 'Sam Cole'),
+        { legislator_id: 'l1', metadata: { note: 'legacy' }, created_at: '2026-04-04T10:00:00Z' },
+      ],
+      new Map([['l1', 'Jane Q. Adams']])
+    );
+
+    expect(whip).toHaveLength(2);
+    expect(whip[0]).toMatchObject({
+      key: 'l1',
+      name: 'Jane Q. Adams',
+      calls: 3,
+      outcomes: { reached_staff: 2, voicemail: 1, busy: 0 },
+      positions: { support: 0, oppose: 2, undecided: 0, unknown: 1 },
+      position: 'oppose',
+      lastCalledAt: '2026-04-03T10:00:00Z',
+    });
+    expect(whip[1]).toMatchObject({ key: 'Sam Cole|State Representative', legislatorId: null, position: 'unknown' });
+  });
+
+  it('breaks position ties with the most recent report', () => {
+    const whip = buildWhipCount([
+      makeCall('l1', 'reached_staff', 'support', '2026-04-01T10:00:00Z'),
+      makeCall('l1', 'reached_staff', 'undecided', '2026-04-05T10:00:00Z'),
+    ]);
+
+    expect(whip[0].position).toBe('undecided');
+  });
+});
+
+describe('hasLoggedUntrackedCall', () => {
+  function mockSupabase(rows: CallLogRow[]) {
+    const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+    for (const m of ['select', 'eq', 'is']) chain[m] = vi.fn().mockReturnValue(chain);
+    (chain as Record<string, unknown>)['then'] = (resolve: (v: unknown) => void) => resolve({ data: rows, error: null });
+    return { chain, supabase: { from: vi.fn(() => chain) } };
+  }
+
+  it('matches calls without a legislator id on the official name and office', async () => {
+    const { chain, supabase } = mockSupabase([makeCall(null, 'voicemail', 'unknown', '2026-05-01T00:00:00Z')]);
+    const params = { campaignId: 'camp-1', contactId: 'member-1', officialName: 'Jane Adams', office: 'State Representative' };
+
+    expect(await hasLoggedUntrackedCall(supabase as never, params)).toBe(true);
+    expect(await hasLoggedUntrackedCall(supabase as never, { ...params, office: 'State Senator' })).toBe(false);
+    expect(await hasLoggedUntrackedCall(supabase as never, { ...params, officialName: 'Bob Baker' })).toBe(false);
+    expect(chain.is).toHaveBeenCalledWith('legislator_id', null);
+  });
+});
@@ -0,0 +1,272 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}));
+
+vi.mock('@/lib/email/client', () => ({
+  sendEmail: vi.fn(),
+  escapeHtml: (s: string) => s,
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+import {
+  checkDeliveryThrottle,
+  deliverCampaignMessage,
+  DELIVERY_ACTION,
+  DELIVERY_THROTTLES,
+  type DeliverCampaignMessageInput,
+} from '../delivery';
+import { formatSignature, selectTransport, type DeliveryTransport } from '../transports';
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+interface ChainResult {
+  data?: unknown;
+  count?: number | null;
+  error: { message: string; code?: string } | null;
+}
+
+function mockChain(terminalResult: ChainResult = { data: null, error: null }) {
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  const methods = ['select', 'eq', 'in', 'gte', 'insert', 'update'];
+  for (const m of methods) {
+    chain[m] = vi.fn().mockReturnValue(chain);
+  }
+  chain.single = vi.fn().mockResolvedValue(terminalResult);
+  chain.maybeSingle = vi.fn().mockResolvedValue(terminalResult);
+  (chain as Record<string, unknown>)['then'] = (resolve: (v: ChainResult) => void) =>
+    resolve(terminalResult);
+  return chain;
+}
+
+/** Each `from()` call takes the next chain, in the order the code under test queries. */
+function mockSupabase(chains: ReturnType<typeof mockChain>[]) {
+  const queue = [...chains];
+  return {
+    from: vi.fn(() => queue.shift() ?? mockChain()),
+  };
+}
+
+function counts(memberLastHour = 0, memberLastDay = 0, memberTargetLastDay = 0, targetLastHour = 0) {
+  return [memberLastHour, memberLastDay, memberTargetLastDay, targetLastHour].map((count) =>
+    mockChain({ count, error: null })
+  );
+}
+
+function makeTransport(overrides: Partial<DeliveryTransport> = {}): DeliveryTransport {
+  return {
+    name: 'email',
+    destination: (target) => target.email,
+    send: vi.fn().mockResolvedValue({ reference: 'msg_123' }),
+    ...overrides,
+  };
+}
+
+const sender = {
+  id: 'contact-1',
+  first_name: 'Pat',
+  last_name: 'Lee',
+  email: 'pat@example.com',
+  phone: null,
+  address_line1: '1 Main St',
+  address_line2: null,
+  city: 'Austin',
+  state: 'TX',
+  postal_code: '78701',
+};
+
+function makeInput(overrides: Partial<DeliverCampaignMessageInput> = {}): DeliverCampaignMessageInput {
+  return {
+    campaign: {
+      id: 'camp-1',
+      title: 'Stop HB 5',
+      message_template: 'Dear {representative}, please vote no.',
+      ai_variation: false,
+      talking_points: [],
+    },
+    member: sender,
+    target: { name: 'Jane Adams', office: 'State Representative', email: 'jane@house.gov', webFormUrl: null },
+    fields: { representative: 'Jane Adams', office: 'State Representative', member_name: 'Pat Lee', city: 'Austin' },
+    legislatorId: 'leg-1',
+    transports: [makeTransport()],
+    now: new Date('2026-04-10T12:00:00Z'),
+    ...overrides,
+  };
+}
+
+// ── Tests ──────────────────────────────────────────────────────────
+
+describe('checkDeliveryThrottle', () => {
+  it('allows deliveries under every limit', () => {
+    expect(checkDeliveryThrottle({ memberLastHour: 0, memberLastDay: 0, memberTargetLastDay: 0, targetLastHour: 0 })).toBeNull();
+  });
+
+  it('reports the member and office limits', () => {
+    const base = { memberLastHour: 0, memberLastDay: 0, memberTargetLastDay: 0, targetLastHour: 0 };
+
+    expect(checkDeliveryThrottle({ ...base, memberLastHour: DELIVERY_THROTTLES.memberPerHour })).toEqual({
+      reason: 'member_hourly',
+      retryAfterSeconds: 3600,
+    });
+    expect(checkDeliveryThrottle({ ...base, memberLastDay: DELIVERY_THROTTLES.memberPerDay })?.reason).toBe('member_daily');
+    expect(checkDeliveryThrottle({ ...base, memberTargetLastDay: DELIVERY_THROTTLES.memberTargetPerDay })?.reason).toBe(
+      'member_target_daily'
+    );
+    expect(checkDeliveryThrottle({ ...base, targetLastHour: DELIVERY_THROTTLES.targetPerHour })?.reason).toBe('target_hourly');
+  });
+});
+
+describe('transports', () => {
+  it('picks the first transport that can reach the office', () => {
+    const email = makeTransport();
+    const webForm = makeTransport({ name: 'web_form', destination: (t) => t.webFormUrl });
+    const target = { name: 'Jane Adams', office: 'Senator', email: null, webFormUrl: 'https://senate.gov/contact' };
+
+    expect(selectTransport(target, [email, webForm])).toEqual({ transport: webForm, destination: 'https://senate.gov/contact' });
+    expect(selectTransport({ ...target, webFormUrl: null }, [email, webForm])).toBeNull();
+  });
+
+  it('signs messages with the constituent address', () => {
+    expect(formatSignature(sender)).toBe('Pat Lee\n1 Main St\nAustin, TX 78701\npat@example.com');
+  });
+});
+
+describe('deliverCampaignMessage', () => {
+  it('records a pending delivery, sends it, and marks it sent', async () => {
+    const insert = mockChain({ data: { id: 'p1', delivery_status: 'pending' }, error: null });
+    const update = mockChain({ data: { id: 'p1', delivery_status: 'sent' }, error: null });
+    const supabase = mockSupabase([mockChain(), ...counts(), insert, update]);
+    const input = makeInput();
+
+    const outcome = await deliverCampaignMessage(supabase as never, input);
+
+    expect(outcome.status).toBe('sent');
+    expect(insert.insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: DELIVERY_ACTION,
+        legislator_id: 'leg-1',
+        delivery_status: 'pending',
+        delivery_transport: 'email',
+        delivery_target: 'jane@house.gov',
+        metadata: {
+          official_name: 'Jane Adams',
+          office: 'State Representative',
+          message_body: 'Dear Jane Adams, please vote no.',
+          message_varied: false,
+        },
+      })
+    );
+    expect(input.transports[0].send).toHaveBeenCalledWith('jane@house.gov', {
+      subject: 'Constituent Message - Stop HB 5',
+      body: 'Dear Jane Adams, please vote no.',
+      sender,
+    });
+    expect(update.update).toHaveBeenCalledWith({
+      delivery_status: 'sent',
+      delivery_reference: 'msg_123',
+      delivered_at: '2026-04-10T12:00:00.000Z',
+    });
+  });
+
+  it('records the error when the transport fails', async () => {
+    const update = mockChain({ data: { id: 'p1', delivery_status: 'failed' }, error: null });
+    const supabase = mockSupabase([mockChain(), ...counts(), mockChain({ data: { id: 'p1' }, error: null }), update]);
+    const transport = makeTransport({ send: vi.fn().mockRejectedValue(new Error('mailbox full')) });
+
+    const outcome = await deliverCampaignMessage(supabase as never, makeInput({ transports: [transport] }));
+
+    expect(outcome).toMatchObject({ status: 'failed', error: 'mailbox full' });
+    expect(update.update).toHaveBeenCalledWith({ delivery_status: 'failed', delivery_error: 'mailbox full' });
+  });
+
+  it('does not send twice or past a throttle', async () => {
+    const transport = makeTransport();
+
+    const sent = mockSupabase([mockChain({ data: { id: 'p1', delivery_status: 'sent' }, error: null })]);
+    expect(await deliverCampaignMessage(sent as never, makeInput({ transports: [transport] }))).toEqual({ status: 'duplicate' });
+
+    const busy = mockSupabase([mockChain(), ...counts(DELIVERY_THROTTLES.memberPerHour, 10)]);
+    const outcome = await deliverCampaignMessage(busy as never, makeInput({ transports: [transport] }));
+    expect(outcome).toEqual({ status: 'throttled', throttle: { reason: 'member_hourly', retryAfterSeconds: 3600 } });
+
+    expect(transport.send).not.toHaveBeenCalled();
+  });
+
+  it('sends the AI-varied message stored when the member previewed it', async () => {
+    const body = 'Representative Adams, as an Austin voter: please vote no. Pat';
+    const preview = mockChain({ data: { body, varied: true }, error: null });
+    const insert = mockChain({ data: { id: 'p1', delivery_status: 'pending' }, error: null });
+    const supabase = mockSupabase([preview, mockChain(), ...counts(), insert, mockChain({ data: { id: 'p1' }, error: null })]);
+    const input = makeInput({
+      campaign: { ...makeInput().campaign, ai_variation: true, talking_points: ['please vote no'] },
+      previewId: 'preview-1',
+    });
+
+    expect((await deliverCampaignMessage(supabase as never, input)).status).toBe('sent');
+    expect(preview.eq).toHaveBeenCalledWith('id', 'preview-1');
+    expect(preview.eq).toHaveBeenCalledWith('campaign_id', 'camp-1');
+    expect(preview.eq).toHaveBeenCalledWith('contact_id', 'contact-1');
+    expect(preview.eq).toHaveBeenCalledWith('official_name', 'Jane Adams');
+    expect(preview.eq).toHaveBeenCalledWith('office', 'State Representative');
+    expect(input.transports[0].send).toHaveBeenCalledWith('jane@house.gov', expect.objectContaining({ body }));
+    expect(insert.insert).toHaveBeenCalledWith(
+      expect.objectContaining({ metadata: expect.objectContaining({ message_body: body, message_varied: true }) })
+    );
+  });
+
+  it('refuses an AI-varied message without a stored preview for this member and office', async () => {
+    const campaign = { ...makeInput().campaign, ai_variation: true, talking_points: ['please vote no'] };
+    const invalid = { status: 'invalid', error: 'Preview your message before sending it' };
+
+    const none = mockSupabase([]);
+    expect(await deliverCampaignMessage(none as never, makeInput({ campaign }))).toEqual(invalid);
+    expect(none.from).not.toHaveBeenCalled();
+
+    const transport = makeTransport();
+    const elsewhere = mockSupabase([mockChain({ data: null, error: null })]);
+    const input = makeInput({ campaign, previewId: 'preview-other', transports: [transport] });
+    expect(await deliverCampaignMessage(elsewhere as never, input)).toEqual(invalid);
+    expect(transport.send).not.toHaveBeenCalled();
+  });
+
+  it('sends the template as written when the campaign has no AI variation', async () => {
+    const insert = mockChain({ data: { id: 'p1', delivery_status: 'pending' }, error: null });
+    const supabase = mockSupabase([mockChain(), ...counts(), insert, mockChain({ data: { id: 'p1' }, error: null })]);
+    const input = makeInput({ previewId: 'preview-1' });
+
+    expect((await deliverCampaignMessage(supabase as never, input)).status).toBe('sent');
+    expect(input.transports[0].send).toHaveBeenCalledWith(
+      'jane@house.gov',
+      expect.objectContaining({ body: 'Dear Jane Adams, please vote no.' })
+    );
+  });
+
+  it('refuses to send a message with an unfilled merge field', async () => {
+    const supabase = mockSupabase([]);
+    const transport = makeTransport();
+    const input = makeInput({
+      campaign: { ...makeInput().campaign, message_template: 'Dear {representative}, from {member_name} of {city} in {district}.' },
+      fields: { representative: 'Jane Adams', office: 'State Representative', member_name: 'Pat Lee', city: null },
+      transports: [transport],
+    });
+
+    expect(await deliverCampaignMessage(supabase as never, input)).toEqual({
+      status: 'invalid',
+      error: "This message cannot be sent without: Member's city, Legislator's district",
+    });
+    expect(transport.send).not.toHaveBeenCalled();
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+
+  it('reports offices no transport can reach', async () => {
+    const supabase = mockSupabase([]);
+    const input = makeInput({ target: { name: 'Jane Adams', office: 'Senator', email: null, webFormUrl: null } });
+
+    expect(await deliverCampaignMessage(supabase as never, input)).toEqual({ status: 'unreachable' });
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+});
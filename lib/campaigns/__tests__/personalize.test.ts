@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}));
+
+vi.mock('@/lib/ai/vary-campaign-message', () => ({
+  varyCampaignMessage: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+import { describePastVote, missingTalkingPoints, renderCampaignMessage } from '../message';
+import { composeCampaignMessage, getCampaignMessageFields, type PersonalizedCampaign } from '../personalize';
+import { varyCampaignMessage } from '@/lib/ai/vary-campaign-message';
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+interface ChainResult {
+  data?: unknown;
+  error: { message: string; code?: string } | null;
+}
+
+function mockChain(terminalResult: ChainResult = { data: null, error: null }) {
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  const methods = ['select', 'eq'];
+  for (const m of methods) {
+    chain[m] = vi.fn().mockReturnValue(chain);
+  }
+  chain.maybeSingle = vi.fn().mockResolvedValue(terminalResult);
+  return chain;
+}
+
+/** Each `from()` call takes the next chain, in the order the code under test queries. */
+function mockSupabase(chains: ReturnType<typeof mockChain>[]) {
+  const queue = [...chains];
+  return {
+    from: vi.fn(() => queue.shift() ?? mockChain()),
+  };
+}
+
+const fields = {
+  representative: 'Jane Adams',
+  office: 'State Representative',
+  member_name: 'Pat Lee',
+  member_first_name: 'Pat',
+  city: 'Austin',
+};
+
+function makeCampaign(overrides: Partial<PersonalizedCampaign> = {}): PersonalizedCampaign {
+  return {
+    id: 'camp-1',
+    message_template: 'Dear {representative}, vote NO on HB 5. {member_name}',
+    ai_variation: true,
+    talking_points: ['Vote NO on HB 5'],
+    ...overrides,
+  };
+}
+
+// ── Tests ──────────────────────────────────────────────────────────
+
+describe('renderCampaignMessage', () => {
+  it('fills merge fields, marks missing ones, and leaves unknown names alone', () => {
+    expect(
+      renderCampaignMessage('{member_name} of {city} to {representative}: you {past_vote} on {bill_number}. {signature}', {
+        ...fields,
+        city: null,
+        bill_number: 'HB 5',
+        past_vote: describePastVote('nay'),
+      })
+    ).toBe('Pat Lee of [Your City] to Jane Adams: you voted no on HB 5. {signature}');
+    expect(describePastVote(null)).toBe('have not yet voted');
+  });
+
+  it('finds talking points a message dropped, ignoring case and spacing', () => {
+    expect(missingTalkingPoints('Please  vote no on hb 5 today.', ['Vote NO on HB 5', 'Protect due process'])).toEqual([
+      'Protect due process',
+    ]);
+  });
+});
+
+describe('getCampaignMessageFields', () => {
+  const input = {
+    billId: 'bill-1',
+    member: { first_name: 'Pat', last_name: 'Lee', city: 'Austin' },
+    recipient: { name: 'Jane Adams', office: 'State Representative', district: '48' },
+    legislatorId: 'leg-1',
+  };
+
+  it('adds the campaign bill and the legislator vote on it', async () => {
+    const supabase = mockSupabase([
+      mockChain({ data: { bill_number: 'HB 5', title: 'Red Flag Act' }, error: null }),
+      mockChain({ data: { vote: 'yea' }, error: null }),
+    ]);
+
+    expect(await getCampaignMessageFields(supabase as never, input)).toEqual({
+      representative: 'Jane Adams',
+      office: 'State Representative',
+      member_name: 'Pat Lee',
+      member_first_name: 'Pat',
+      city: 'Austin',
+      district: '48',
+      bill_number: 'HB 5',
+      bill_title: 'Red Flag Act',
+      past_vote: 'voted yes',
+    });
+  });
+
+  it('skips bill fields for campaigns without a bill', async () => {
+    const supabase = mockSupabase([]);
+
+    const result = await getCampaignMessageFields(supabase as never, { ...input, billId: null });
+
+    expect(result).not.toHaveProperty('bill_number');
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+});
+
+describe('composeCampaignMessage', () => {
+  beforeEach(() => {
+    vi.mocked(varyCampaignMessage).mockReset();
+  });
+
+  it('sends the filled-in template when variation is off', async () => {
+    const message = await composeCampaignMessage(makeCampaign({ ai_variation: false }), fields);
+
+    expect(message).toEqual({ body: 'Dear Jane Adams, vote NO on HB 5. Pat Lee', varied: false });
+    expect(varyCampaignMessage).not.toHaveBeenCalled();
+  });
+
+  it('uses a rewrite that keeps every talking point', async () => {
+    vi.mocked(varyCampaignMessage).mockResolvedValue('Representative Adams, as an Austin voter I ask you: Vote NO on HB 5. Pat Lee');
+
+    const message = await composeCampaignMessage(makeCampaign(), fields);
+
+    expect(message).toEqual({
+      body: 'Representative Adams, as an Austin voter I ask you: Vote NO on HB 5. Pat Lee',
+      varied: true,
+    });
+    expect(varyCampaignMessage).toHaveBeenCalledWith({
+      message: 'Dear Jane Adams, vote NO on HB 5. Pat Lee',
+      talkingPoints: ['Vote NO on HB 5'],
+      memberFirstName: 'Pat',
+      city: 'Austin',
+    });
+  });
+
+  it('falls back to the template when the rewrite drops a talking point or fails', async () => {
+    vi.mocked(varyCampaignMessage).mockResolvedValueOnce('Please oppose this bill. Pat Lee');
+    expect((await composeCampaignMessage(makeCampaign(), fields)).varied).toBe(false);
+
+    vi.mocked(varyCampaignMessage).mockRejectedValueOnce(new Error('ANTHROPIC_API_KEY is not configured'));
+    expect(await composeCampaignMessage(makeCampaign(), fields)).toEqual({
+      body: 'Dear Jane Adams, vote NO on HB 5. Pat Lee',
+      varied: false,
+    });
+  });
+});
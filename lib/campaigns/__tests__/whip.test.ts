@@ -0,0 +1,182 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}));
+
+import { buildWhipTracker, reconcileWhipStatus, summarizeWhipTracker, type WhipEntryRow, type WhipLegislator } from '../whip';
+import { reconcileBillWhipEntries } from '../whip-tracker';
+import type { WhipCountEntry } from '../call-survey';
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+interface ChainResult {
+  data?: unknown;
+  error: { message: string; code?: string } | null;
+}
+
+function mockChain(terminalResult: ChainResult = { data: [], error: null }) {
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  const methods = ['select', 'eq', 'in', 'order', 'upsert'];
+  for (const m of methods) {
+    chain[m] = vi.fn().mockReturnValue(chain);
+  }
+  (chain as Record<string, unknown>)['then'] = (resolve: (v: ChainResult) => void) =>
+    resolve(terminalResult);
+  return chain;
+}
+
+/** Each `from()` call takes the next chain, in the order the code under test queries. */
+function mockSupabase(chains: ReturnType<typeof mockChain>[]) {
+  const queue = [...chains];
+  return {
+    from: vi.fn(() => queue.shift() ?? mockChain()),
+  };
+}
+
+function legislator(id: string, name: string): WhipLegislator {
+  return { id, name, party: 'R', chamber: 'state_house', state_code: 'TX', district: id.slice(1) };
+}
+
+function entry(legislatorId: string, overrides: Partial<WhipEntryRow> = {}): WhipEntryRow {
+  return {
+    legislator_id: legislatorId,
+    status: 'leaning',
+    source: 'admin',
+    notes: null,
+    final_vote: null,
+    predicted_status: null,
+    reconciled_at: null,
+    updated_at: '2026-04-20T10:00:00Z',
+    ...overrides,
+  };
+}
+
+function called(key: string, position: WhipCountEntry['position'], calls = 1, legislatorId: string | null = key): WhipCountEntry {
+  return {
+    key,
+    legislatorId,
+    name: `Official ${key}`,
+    office: 'State Representative',
+    calls,
+    outcomes: { reached_staff: calls, voicemail: 0, busy: 0 },
+    positions: { support: 0, oppose: 0, undecided: 0, unknown: 0, [position]: calls },
+    position,
+    lastCalledAt: '2026-04-20T10:00:00Z',
+  };
+}
+
+// ── Tests ──────────────────────────────────────────────────────────
+
+describe('buildWhipTracker', () => {
+  it('prefers saved entries over call reports and lists untouched targets as unknown', () => {
+    const rows = buildWhipTracker(
+      [legislator('l1', 'Ann Bell'), legislator('l2', 'Cal Dunn'), legislator('l3', 'Eve Ford')],
+      [entry('l1', { notes: 'Chief of staff' })],
+      [called('l1', 'oppose', 3), called('l2', 'support', 2), called('Sam Cole|Senator', 'undecided', 1, null)]
+    );
+
+    expect(rows.map((r) => [r.name, r.status, r.source])).toEqual([
+      ['Cal Dunn', 'supports', 'calls'],
+      ['Ann Bell', 'leaning', 'admin'],
+      ['Official Sam Cole|Senator', 'undecided', 'calls'],
+      ['Eve Ford', 'unknown', null],
+    ]);
+    expect(rows[1]).toMatchObject({ reportedStatus: 'opposed', calls: 3, notes: 'Chief of staff' });
+    expect(summarizeWhipTracker(rows)).toEqual({ supports: 1, leaning: 1, undecided: 1, opposed: 0, unknown: 1 });
+  });
+});
+
+describe('reconcileWhipStatus', () => {
+  it('settles yea and nay votes and keeps the prediction for votes that take no side', () => {
+    expect(reconcileWhipStatus('undecided', 'nay', true)).toEqual({
+      status: 'supports',
+      source: 'roll_call',
+      final_vote: 'nay',
+      predicted_status: 'undecided',
+    });
+    expect(reconcileWhipStatus('leaning', 'yea', false).status).toBe('opposed');
+    expect(reconcileWhipStatus('leaning', 'absent', false).status).toBe('leaning');
+  });
+});
+
+describe('reconcileBillWhipEntries', () => {
+  const now = new Date('2026-04-25T12:00:00Z');
+
+  it('records the vote and prior status for each tracked legislator who voted', async () => {
+    const upsert = mockChain({ data: null, error: null });
+    const supabase = mockSupabase([
+      mockChain({ data: [{ id: 'camp-1', target_chamber: 'state_house', target_state_code: 'TX' }], error: null }),
+      mockChain({
+        data: [
+          { legislator_id: 'l1', vote: 'yea', aligned_with_liberty: true },
+          { legislator_id: 'l2', vote: 'yea', aligned_with_liberty: false },
+          { legislator_id: 'l9', vote: 'nay', aligned_with_liberty: true },
+        ],
+        error: null,
+      }),
+      // Targets, saved entries, call reports
+      mockChain({ data: [legislator('l1', 'Ann Bell'), legislator('l2', 'Cal Dunn')], error: null }),
+      mockChain({ data: [entry('l1', { status: 'leaning' })], error: null }),
+      mockChain({ data: [], error: null }),
+      upsert,
+    ]);
+
+    const result = await reconcileBillWhipEntries(supabase as never, 'bill-1', now);
+
+    expect(result).toEqual({ campaigns: 1, reconciled: 2 });
+    expect(upsert.upsert).toHaveBeenCalledWith(
+      [
+        {
+          campaign_id: 'camp-1',
+          legislator_id: 'l1',
+          status: 'supports',
+          source: 'roll_call',
+          final_vote: 'yea',
+          predicted_status: 'leaning',
+          reconciled_at: '2026-04-25T12:00:00.000Z',
+          updated_at: '2026-04-25T12:00:00.000Z',
+        },
+        expect.objectContaining({ legislator_id: 'l2', status: 'opposed', predicted_status: 'unknown' }),
+      ],
+      { onConflict: 'campaign_id,legislator_id' }
+    );
+  });
+
+  it('keeps the original prediction when the roll call is imported again', async () => {
+    const upsert = mockChain({ data: null, error: null });
+    const supabase = mockSupabase([
+      mockChain({ data: [{ id: 'camp-1', target_chamber: 'state_house', target_state_code: 'TX' }], error: null }),
+      mockChain({ data: [{ legislator_id: 'l1', vote: 'nay', aligned_with_liberty: false }], error: null }),
+      mockChain({ data: [legislator('l1', 'Ann Bell')], error: null }),
+      mockChain({
+        data: [
+          entry('l1', {
+            status: 'opposed',
+            source: 'roll_call',
+            final_vote: 'nay',
+            predicted_status: 'undecided',
+            reconciled_at: '2026-04-24T12:00:00Z',
+          }),
+        ],
+        error: null,
+      }),
+      mockChain({ data: [], error: null }),
+      upsert,
+    ]);
+
+    await reconcileBillWhipEntries(supabase as never, 'bill-1', now);
+
+    expect(upsert.upsert).toHaveBeenCalledWith(
+      [expect.objectContaining({ predicted_status: 'undecided', reconciled_at: '2026-04-24T12:00:00Z' })],
+      { onConflict: 'campaign_id,legislator_id' }
+    );
+  });
+
+  it('does nothing for bills without campaigns', async () => {
+    const supabase = mockSupabase([mockChain({ data: [], error: null })]);
+
+    expect(await reconcileBillWhipEntries(supabase as never, 'bill-1', now)).toEqual({ campaigns: 0, reconciled: 0 });
+    expect(supabase.from).toHaveBeenCalledTimes(1);
+  });
+});
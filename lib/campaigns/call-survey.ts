@@ -0,0 +1,128 @@
+import type { CampaignParticipation } from '@/types';
+
+/** Participation action recorded for each logged call. */
+export const CALL_ACTION = 'phone_call';
+
+export const CALL_OUTCOMES = ['reached_staff', 'voicemail', 'busy'] as const;
+
+export const CALL_OUTCOME_LABELS: Record<CallOutcome, string> = {
+  reached_staff: 'Spoke with staff',
+  voicemail: 'Left a voicemail',
+  busy: 'Line was busy',
+};
+
+/** What the office said about the campaign's ask. */
+export const LEGISLATOR_POSITIONS = ['support', 'oppose', 'undecided', 'unknown'] as const;
+
+export const LEGISLATOR_POSITION_LABELS: Record<LegislatorPosition, string> = {
+  support: 'Supports',
+  oppose: 'Opposes',
+  undecided: 'Undecided',
+  unknown: 'Did not say',
+};
+
+// ─── Pure types ──────────────────────────────────────────────────────────────
+
+export type CallOutcome = (typeof CALL_OUTCOMES)[number];
+export type LegislatorPosition = (typeof LEGISLATOR_POSITIONS)[number];
+
+/** Post-call survey, stored in `CampaignParticipation.metadata`. */
+export interface CallLogMetadata {
+  call_outcome: CallOutcome;
+  legislator_position: LegislatorPosition;
+  official_name: string;
+  office: string | null;
+}
+
+export type CallLogRow = Pick<CampaignParticipation, 'legislator_id' | 'metadata' | 'created_at'>;
+
+export interface WhipCountEntry {
+  /** Legislator id, or the official's name and office when they are not a tracked legislator */
+  key: string;
+  legislatorId: string | null;
+  name: string;
+  office: string | null;
+  calls: number;
+  outcomes: Record<CallOutcome, number>;
+  positions: Record<LegislatorPosition, number>;
+  /** Most-reported stated position; ties go to the latest report */
+  position: LegislatorPosition;
+  lastCalledAt: string;
+}
+
+// ─── Pure functions ──────────────────────────────────────────────────────────
+
+/** The call survey in a participation's metadata, or null when it is missing or malformed. */
+export function parseCallMetadata(metadata: Record<string, unknown>): CallLogMetadata | null {
+  const outcome = metadata.call_outcome;
+  const position = metadata.legislator_position;
+  const name = metadata.official_name;
+  if (
+    !CALL_OUTCOMES.includes(outcome as CallOutcome) ||
+    !LEGISLATOR_POSITIONS.includes(position as LegislatorPosition) ||
+    typeof name !== 'string' ||
+    !name
+  ) {
+    return null;
+  }
+  return {
+    call_outcome: outcome as CallOutcome,
+    legislator_position: position as LegislatorPosition,
+    official_name: name,
+    office: typeof metadata.office === 'string' ? metadata.office : null,
+  };
+}
+
+function emptyCounts<K extends string>(keys: readonly K[]): Record<K, number> {
+  return Object.fromEntries(keys.map((k) => [k, 0])) as Record<K, number>;
+}
+
+/**
+ * Aggregate logged calls into one entry per legislator, most-called first.
+ * A legislator's position is the stated position members reported most
+ * often; calls where the office did not say are counted but never decide it.
+ */
+export function buildWhipCount(rows: CallLogRow[], legislatorNames: Map<string, string> = new Map()): WhipCountEntry[] {
+  const entries = new Map<string, WhipCountEntry & { latestByPosition: Map<LegislatorPosition, string> }>();
+
+  for (const row of rows) {
+    const call = parseCallMetadata(row.metadata);
+    if (!call) continue;
+
+    const key = row.legislator_id ?? `${call.official_name}|${call.office ?? ''}`;
+    let entry = entries.get(key);
+    if (!entry) {
+      entry = {
+        key,
+        legislatorId: row.legislator_id,
+        name: (row.legislator_id && legislatorNames.get(row.legislator_id)) || call.official_name,
+        office: call.office,
+        calls: 0,
+        outcomes: emptyCounts(CALL_OUTCOMES),
+        positions: emptyCounts(LEGISLATOR_POSITIONS),
+        position: 'unknown',
+        lastCalledAt: row.created_at,
+        latestByPosition: new Map(),
+      };
+      entries.set(key, entry);
+    }
+
+    entry.calls++;
+    entry.outcomes[call.call_outcome]++;
+    entry.positions[call.legislator_position]++;
+    if (row.created_at > entry.lastCalledAt) entry.lastCalledAt = row.created_at;
+    const latest = entry.latestByPosition.get(call.legislator_position);
+    if (!latest || row.created_at > latest) entry.latestByPosition.set(call.legislator_position, row.created_at);
+  }
+
+  return Array.from(entries.values())
+    .map(({ latestByPosition, ...entry }) => {
+      const stated = LEGISLATOR_POSITIONS.filter((p) => p !== 'unknown' && entry.positions[p] > 0).sort(
+        (a, b) =>
+          entry.positions[b] - entry.positions[a] ||
+          (latestByPosition.get(b) ?? '').localeCompare(latestByPosition.get(a) ?? '')
+      );
+      return { ...entry, position: stated[0] ?? 'unknown' };
+    })
+    .sort((a, b) => b.calls - a.calls || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,70 @@
+import { createServerClient } from '@/lib/supabase/server';
+import {
+  buildWhipCount,
+  CALL_ACTION,
+  parseCallMetadata,
+  type CallLogRow,
+  type WhipCountEntry,
+} from '@/lib/campaigns/call-survey';
+
+type ServerClient = ReturnType<typeof createServerClient>;
+
+// ─── Database functions ──────────────────────────────────────────────────────
+
+export async function getCampaignWhipCount(supabase: ServerClient, campaignId: string): Promise<WhipCountEntry[]> {
+  const { data, error } = await supabase
+    .from('rlc_campaign_participations')
+    .select('legislator_id, metadata, created_at')
+    .eq('campaign_id', campaignId)
+    .eq('action', CALL_ACTION)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch campaign calls: ${error.message}`);
+  }
+  const rows = (data || []) as CallLogRow[];
+
+  const legislatorIds = Array.from(new Set(rows.map((r) => r.legislator_id).filter((id): id is string => !!id)));
+  const names = new Map<string, string>();
+  if (legislatorIds.length > 0) {
+    const { data: legislatorsData, error: legislatorsError } = await supabase
+      .from('rlc_legislators')
+      .select('id, name')
+      .in('id', legislatorIds);
+
+    if (legislatorsError) {
+      throw new Error(`Failed to fetch legislators: ${legislatorsError.message}`);
+    }
+    for (const l of (legislatorsData || []) as { id: string; name: string }[]) {
+      names.set(l.id, l.name);
+    }
+  }
+
+  return buildWhipCount(rows, names);
+}
+
+/**
+ * Whether the member already logged a call to an official who is not a tracked
+ * legislator. The participation unique index treats null legislator ids as
+ * distinct, so these calls are matched on the official's name and office.
+ */
+export async function hasLoggedUntrackedCall(
+  supabase: ServerClient,
+  params: { campaignId: string; contactId: string; officialName: string; office: string | null }
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('rlc_campaign_participations')
+    .select('metadata')
+    .eq('campaign_id', params.campaignId)
+    .eq('contact_id', params.contactId)
+    .eq('action', CALL_ACTION)
+    .is('legislator_id', null);
+
+  if (error) {
+    throw new Error(`Failed to fetch logged calls: ${error.message}`);
+  }
+  return ((data || []) as Pick<CallLogRow, 'metadata'>[]).some((row) => {
+    const call = parseCallMetadata(row.metadata);
+    return call?.official_name === params.officialName && call.office === params.office;
+  });
+}
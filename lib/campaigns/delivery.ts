@@ -0,0 +1,321 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { getRepresentatives, type CivicOfficial } from '@/lib/civic/client';
+import {
+  CAMPAIGN_MERGE_FIELD_LABELS,
+  campaignMessageSubject,
+  missingMergeFields,
+  type CampaignMessageFields,
+} from '@/lib/campaigns/message';
+import { getApprovedMessage, getMessagePreview, type PersonalizedCampaign } from '@/lib/campaigns/personalize';
+import { officialChamber } from '@/lib/scorecard/my-legislators';
+import {
+  selectTransport,
+  type DeliverySender,
+  type DeliveryTarget,
+  type DeliveryTransport,
+} from '@/lib/campaigns/transports';
+import type { ActionCampaign, CampaignParticipation, Contact } from '@/types';
+
+type ServerClient = ReturnType<typeof createServerClient>;
+
+/** Participation action recorded for messages the server delivers. */
+export const DELIVERY_ACTION = 'message_delivered';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Delivery limits. Offices and providers treat bursts of near-identical
+ * messages as spam, so a member's volume and each office's inbound volume
+ * are both capped.
+ */
+export const DELIVERY_THROTTLES = {
+  /** Messages one member can send per hour, across campaigns */
+  memberPerHour: 10,
+  /** Messages one member can send per day, across campaigns */
+  memberPerDay: 30,
+  /** Messages one member can send to the same office per day */
+  memberTargetPerDay: 2,
+  /** Messages all members together can send to one office per hour */
+  targetPerHour: 60,
+} as const;
+
+// ─── Pure types ──────────────────────────────────────────────────────────────
+
+export interface DeliveryCounts {
+  memberLastHour: number;
+  memberLastDay: number;
+  memberTargetLastDay: number;
+  targetLastHour: number;
+}
+
+export type ThrottleReason = 'member_hourly' | 'member_daily' | 'member_target_daily' | 'target_hourly';
+
+export interface DeliveryThrottle {
+  reason: ThrottleReason;
+  /** Seconds until the window that tripped the limit has room again */
+  retryAfterSeconds: number;
+}
+
+export type DeliveryOutcome =
+  | { status: 'sent'; participation: CampaignParticipation }
+  | { status: 'failed'; participation: CampaignParticipation; error: string }
+  | { status: 'duplicate' }
+  | { status: 'throttled'; throttle: DeliveryThrottle }
+  | { status: 'unreachable' }
+  | { status: 'invalid'; error: string };
+
+export type MemberOfficialResult =
+  | { status: 'found'; official: CivicOfficial }
+  | { status: 'no_address' | 'not_found' | 'not_targeted' };
+
+export interface DeliverCampaignMessageInput {
+  campaign: PersonalizedCampaign & Pick<ActionCampaign, 'title'>;
+  member: DeliverySender & Pick<Contact, 'id'>;
+  target: DeliveryTarget;
+  /** Merge field values for this member and office */
+  fields: CampaignMessageFields;
+  /** The stored preview the member approved; required for AI-varied campaigns */
+  previewId?: string | null;
+  legislatorId: string | null;
+  transports: DeliveryTransport[];
+  now?: Date;
+}
+
+// ─── Pure functions ──────────────────────────────────────────────────────────
+
+/** The first limit the counts have reached, or null when the delivery may go ahead. */
+export function checkDeliveryThrottle(counts: DeliveryCounts): DeliveryThrottle | null {
+  if (counts.memberTargetLastDay >= DELIVERY_THROTTLES.memberTargetPerDay) {
+    return { reason: 'member_target_daily', retryAfterSeconds: DAY_MS / 1000 };
+  }
+  if (counts.memberLastDay >= DELIVERY_THROTTLES.memberPerDay) {
+    return { reason: 'member_daily', retryAfterSeconds: DAY_MS / 1000 };
+  }
+  if (counts.memberLastHour >= DELIVERY_THROTTLES.memberPerHour) {
+    return { reason: 'member_hourly', retryAfterSeconds: HOUR_MS / 1000 };
+  }
+  if (counts.targetLastHour >= DELIVERY_THROTTLES.targetPerHour) {
+    return { reason: 'target_hourly', retryAfterSeconds: HOUR_MS / 1000 };
+  }
+  return null;
+}
+
+export function describeThrottle(throttle: DeliveryThrottle): string {
+  switch (throttle.reason) {
+    case 'member_target_daily':
+      return 'You have already messaged this office today. Please try again tomorrow.';
+    case 'member_daily':
+      return 'You have reached the daily message limit. Please try again tomorrow.';
+    case 'member_hourly':
+      return 'You have sent several messages in the last hour. Please try again later.';
+    case 'target_hourly':
+      return 'This office is receiving a lot of messages right now. Please try again later.';
+  }
+}
+
+/** Street address for the civic lookup, or null when the member's profile is incomplete. */
+export function formatMemberAddress(
+  member: Pick<Contact, 'address_line1' | 'city' | 'state' | 'postal_code'>
+): string | null {
+  if (!member.address_line1 || !member.city || !member.state || !member.postal_code) return null;
+  return `${member.address_line1}, ${member.city}, ${member.state} ${member.postal_code}`;
+}
+
+// ─── Database functions ──────────────────────────────────────────────────────
+
+async function countDeliveries(
+  supabase: ServerClient,
+  filter: { contactId?: string; target?: string },
+  since: Date
+): Promise<number> {
+  let query = supabase
+    .from('rlc_campaign_participations')
+    .select('id', { count: 'exact', head: true })
+    .eq('action', DELIVERY_ACTION)
+    .in('delivery_status', ['pending', 'sent'])
+    .gte('created_at', since.toISOString());
+  if (filter.contactId) query = query.eq('contact_id', filter.contactId);
+  if (filter.target) query = query.eq('delivery_target', filter.target);
+
+  const { count, error } = await query;
+  if (error) {
+    throw new Error(`Failed to count campaign deliveries: ${error.message}`);
+  }
+  return count ?? 0;
+}
+
+export async function getDeliveryCounts(
+  supabase: ServerClient,
+  contactId: string,
+  target: string,
+  now: Date
+): Promise<DeliveryCounts> {
+  const hourAgo = new Date(now.getTime() - HOUR_MS);
+  const dayAgo = new Date(now.getTime() - DAY_MS);
+
+  const [memberLastHour, memberLastDay, memberTargetLastDay, targetLastHour] = await Promise.all([
+    countDeliveries(supabase, { contactId }, hourAgo),
+    countDeliveries(supabase, { contactId }, dayAgo),
+    countDeliveries(supabase, { contactId, target }, dayAgo),
+    countDeliveries(supabase, { target }, hourAgo),
+  ]);
+  return { memberLastHour, memberLastDay, memberTargetLastDay, targetLastHour };
+}
+
+/**
+ * One of the member's own legislators, looked up from the address on file so
+ * members can only act on offices that represent them. Throws when the civic
+ * lookup fails.
+ */
+export async function findMemberOfficial(
+  member: Pick<Contact, 'address_line1' | 'city' | 'state' | 'postal_code'>,
+  requested: { name: string; office?: string },
+  campaign: Pick<ActionCampaign, 'target_chamber' | 'target_state_code'>
+): Promise<MemberOfficialResult> {
+  const address = formatMemberAddress(member);
+  if (!address) return { status: 'no_address' };
+
+  const { officials } = await getRepresentatives(address);
+  const official = officials.find(
+    (o) =>
+      officialChamber(o.districtType) !== null &&
+      o.name === requested.name &&
+      (!requested.office || o.office === requested.office)
+  );
+  if (!official) return { status: 'not_found' };
+  if (
+    (campaign.target_chamber && officialChamber(official.districtType) !== campaign.target_chamber) ||
+    (campaign.target_state_code && official.stateCode !== campaign.target_state_code)
+  ) {
+    return { status: 'not_targeted' };
+  }
+  return { status: 'found', official };
+}
+
+/**
+ * Send a campaign's message to one office on the member's behalf. The
+ * delivery is recorded as a pending participation before the transport runs
+ * and then marked sent or failed, so a crash mid-send still counts toward
+ * the throttles. A failed delivery to the same office can be retried. The
+ * body that was sent is kept in the participation's metadata.
+ */
+export async function deliverCampaignMessage(
+  supabase: ServerClient,
+  input: DeliverCampaignMessageInput
+): Promise<DeliveryOutcome> {
+  const now = input.now ?? new Date();
+  // A bracketed placeholder like "[Your City]" must never reach an office
+  const unfilled = missingMergeFields(input.campaign.message_template, input.fields);
+  if (unfilled.length > 0) {
+    const labels = unfilled.map((f) => CAMPAIGN_MERGE_FIELD_LABELS[f]);
+    return { status: 'invalid', error: `This message cannot be sent without: ${labels.join(', ')}` };
+  }
+  const preview =
+    input.campaign.ai_variation && input.previewId
+      ? await getMessagePreview(supabase, {
+          previewId: input.previewId,
+          campaignId: input.campaign.id,
+          contactId: input.member.id,
+          recipient: { name: input.target.name, office: input.target.office },
+        })
+      : null;
+  const approved = getApprovedMessage(input.campaign, input.fields, preview);
+  if ('error' in approved) return { status: 'invalid', error: approved.error };
+  const { message } = approved;
+
+  const selected = selectTransport(input.target, input.transports);
+  if (!selected) return { status: 'unreachable' };
+  const { transport, destination } = selected;
+
+  const { data: existingData, error: existingError } = await supabase
+    .from('rlc_campaign_participations')
+    .select('id, delivery_status')
+    .eq('campaign_id', input.campaign.id)
+    .eq('contact_id', input.member.id)
+    .eq('action', DELIVERY_ACTION)
+    .eq('delivery_target', destination)
+    .maybeSingle();
+
+  if (existingError) {
+    throw new Error(`Failed to check existing delivery: ${existingError.message}`);
+  }
+  const existing = existingData as Pick<CampaignParticipation, 'id' | 'delivery_status'> | null;
+  if (existing && existing.delivery_status !== 'failed') return { status: 'duplicate' };
+
+  const throttle = checkDeliveryThrottle(await getDeliveryCounts(supabase, input.member.id, destination, now));
+  if (throttle) return { status: 'throttled', throttle };
+
+  const pending = {
+    legislator_id: input.legislatorId,
+    metadata: {
+      official_name: input.target.name,
+      office: input.target.office,
+      message_body: message.body,
+      message_varied: message.varied,
+    },
+    delivery_status: 'pending',
+    delivery_transport: transport.name,
+    delivery_target: destination,
+    delivery_reference: null,
+    delivery_error: null,
+    delivered_at: null,
+  };
+
+  const { data: pendingData, error: pendingError } = existing
+    ? await supabase
+        .from('rlc_campaign_participations')
+        .update(pending as never)
+        .eq('id', existing.id)
+        .select()
+        .single()
+    : await supabase
+        .from('rlc_campaign_participations')
+        .insert({
+          campaign_id: input.campaign.id,
+          contact_id: input.member.id,
+          action: DELIVERY_ACTION,
+          ...pending,
+        } as never)
+        .select()
+        .single();
+
+  if (pendingError) {
+    // Another request for the same legislator won the unique constraint
+    if (pendingError.code === '23505') return { status: 'duplicate' };
+    throw new Error(`Failed to record campaign delivery: ${pendingError.message}`);
+  }
+  const participation = pendingData as CampaignParticipation;
+
+  let result: Partial<CampaignParticipation>;
+  let sendError: string | null = null;
+  try {
+    const { reference } = await transport.send(destination, {
+      subject: campaignMessageSubject(input.campaign.title),
+      body: message.body,
+      sender: input.member,
+    });
+    result = { delivery_status: 'sent', delivery_reference: reference, delivered_at: now.toISOString() };
+  } catch (err) {
+    sendError = err instanceof Error ? err.message : String(err);
+    logger.error(`Campaign ${input.campaign.id} delivery via ${transport.name} failed:`, sendError);
+    result = { delivery_status: 'failed', delivery_error: sendError };
+  }
+
+  const { data: finalData, error: finalError } = await supabase
+    .from('rlc_campaign_participations')
+    .update(result as never)
+    .eq('id', participation.id)
+    .select()
+    .single();
+
+  if (finalError) {
+    logger.error(`Failed to record delivery result for participation ${participation.id}:`, finalError);
+  }
+  const recorded = (finalData as CampaignParticipation | null) ?? { ...participation, ...result };
+
+  return sendError
+    ? { status: 'failed', participation: recorded, error: sendError }
+    : { status: 'sent', participation: recorded };
+}
@@ -0,0 +1,97 @@
+import type { VoteChoice } from '@/types';
+
+/** Merge fields a campaign message template can reference as `{name}`. */
+export const CAMPAIGN_MERGE_FIELDS = [
+  'representative',
+  'office',
+  'member_name',
+  'member_first_name',
+  'city',
+  'district',
+  'bill_number',
+  'bill_title',
+  'past_vote',
+] as const;
+
+export type CampaignMergeField = (typeof CAMPAIGN_MERGE_FIELDS)[number];
+
+export const CAMPAIGN_MERGE_FIELD_LABELS: Record<CampaignMergeField, string> = {
+  representative: "Legislator's name",
+  office: "Legislator's office",
+  member_name: "Member's full name",
+  member_first_name: "Member's first name",
+  city: "Member's city",
+  district: "Legislator's district",
+  bill_number: "Campaign bill's number",
+  bill_title: "Campaign bill's title",
+  past_vote: 'How the legislator voted on the bill, e.g. "voted no"',
+};
+
+/** Shown wherever a field's value is not known, so the gap is obvious in a preview. */
+const MERGE_FIELD_PLACEHOLDERS: Record<CampaignMergeField, string> = {
+  representative: '[Representative]',
+  office: '[Office]',
+  member_name: '[Your Name]',
+  member_first_name: '[Your First Name]',
+  city: '[Your City]',
+  district: '[District]',
+  bill_number: '[Bill Number]',
+  bill_title: '[Bill Title]',
+  past_vote: '[Past Vote]',
+};
+
+const PAST_VOTE_PHRASES: Partial<Record<VoteChoice, string>> = {
+  yea: 'voted yes',
+  nay: 'voted no',
+  present: 'voted present',
+  absent: 'did not vote',
+  not_voting: 'did not vote',
+};
+
+/** Values for a campaign message's merge fields; the recipient is always known. */
+export type CampaignMessageFields = { representative: string; office: string } & Partial<
+  Record<Exclude<CampaignMergeField, 'representative' | 'office'>, string | null>
+>;
+
+/**
+ * Fill a campaign's message template for one recipient. Known fields without
+ * a value become a bracketed placeholder, which is fine for a preview but must
+ * never be delivered; unknown `{names}` are left as written.
+ */
+export function renderCampaignMessage(template: string, fields: CampaignMessageFields): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    if (!CAMPAIGN_MERGE_FIELDS.includes(name as CampaignMergeField)) return match;
+    const field = name as CampaignMergeField;
+    return fields[field] || MERGE_FIELD_PLACEHOLDERS[field];
+  });
+}
+
+/** Merge fields the template uses that have no value, in order of first use. */
+export function missingMergeFields(template: string, fields: CampaignMessageFields): CampaignMergeField[] {
+  const missing = new Set<CampaignMergeField>();
+  for (const [, name] of template.matchAll(/\{(\w+)\}/g)) {
+    const field = name as CampaignMergeField;
+    if (CAMPAIGN_MERGE_FIELDS.includes(field) && !fields[field]) missing.add(field);
+  }
+  return Array.from(missing);
+}
+
+/**
+ * `{past_vote}` for a legislator's recorded vote, phrased to follow "you",
+ * as in "you voted no on HB 5". No recorded vote reads as not having voted yet.
+ */
+export function describePastVote(vote: VoteChoice | null): string {
+  return (vote && PAST_VOTE_PHRASES[vote]) || 'have not yet voted';
+}
+
+/** Required talking points the message does not contain word for word, ignoring case and spacing. */
+export function missingTalkingPoints(message: string, talkingPoints: string[]): string[] {
+  const normalize = (s: string) => s.toLowerCase().replace(/\s+/g, ' ').trim();
+  const haystack = normalize(message);
+  return talkingPoints.filter((point) => normalize(point) && !haystack.includes(normalize(point)));
+}
+
+/** Subject line for a delivered campaign message. */
+export function campaignMessageSubject(campaignTitle: string): string {
+  return `Constituent Message - ${campaignTitle}`;
+}
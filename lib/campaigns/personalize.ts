@@ -0,0 +1,181 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { varyCampaignMessage } from '@/lib/ai/vary-campaign-message';
+import {
+  describePastVote,
+  missingTalkingPoints,
+  renderCampaignMessage,
+  type CampaignMessageFields,
+} from '@/lib/campaigns/message';
+import type { ActionCampaign, CampaignMessagePreview, Contact, ScorecardBill, ScorecardVote } from '@/types';
+
+type ServerClient = ReturnType<typeof createServerClient>;
+
+// ─── Pure types ──────────────────────────────────────────────────────────────
+
+export type PersonalizedCampaign = Pick<ActionCampaign, 'id' | 'ai_variation' | 'talking_points'> & {
+  message_template: string;
+};
+
+export interface MessageFieldsInput {
+  billId: string | null;
+  member: Pick<Contact, 'first_name' | 'last_name' | 'city'>;
+  recipient: { name: string; office: string; district: string | null };
+  legislatorId: string | null;
+}
+
+export interface ComposedMessage {
+  body: string;
+  /** Whether the body is an AI rewrite rather than the filled-in template */
+  varied: boolean;
+}
+
+export type ApprovedMessageResult = { message: ComposedMessage } | { error: string };
+
+// ─── Pure functions ──────────────────────────────────────────────────────────
+
+/**
+ * The body to deliver. Campaigns without AI variation send the filled-in
+ * template, rebuilt on the server. AI-varied campaigns send only the preview
+ * the server composed and stored for this member and office.
+ */
+export function getApprovedMessage(
+  campaign: PersonalizedCampaign,
+  fields: CampaignMessageFields,
+  preview: ComposedMessage | null
+): ApprovedMessageResult {
+  if (!campaign.ai_variation) {
+    return { message: { body: renderCampaignMessage(campaign.message_template, fields), varied: false } };
+  }
+  if (!preview) return { error: 'Preview your message before sending it' };
+  return { message: preview };
+}
+
+// ─── Database functions ──────────────────────────────────────────────────────
+
+/** Merge field values for one member writing to one legislator. */
+export async function getCampaignMessageFields(
+  supabase: ServerClient,
+  input: MessageFieldsInput
+): Promise<CampaignMessageFields> {
+  const fields: CampaignMessageFields = {
+    representative: input.recipient.name,
+    office: input.recipient.office,
+    member_name: `${input.member.first_name} ${input.member.last_name}`.trim(),
+    member_first_name: input.member.first_name,
+    city: input.member.city,
+    district: input.recipient.district,
+  };
+  if (!input.billId) return fields;
+
+  const { data: billData, error: billError } = await supabase
+    .from('rlc_scorecard_bills')
+    .select('bill_number, title')
+    .eq('id', input.billId)
+    .maybeSingle();
+
+  if (billError) {
+    throw new Error(`Failed to fetch campaign bill: ${billError.message}`);
+  }
+  const bill = billData as Pick<ScorecardBill, 'bill_number' | 'title'> | null;
+  if (!bill) return fields;
+
+  let vote: Pick<ScorecardVote, 'vote'> | null = null;
+  if (input.legislatorId) {
+    const { data: voteData, error: voteError } = await supabase
+      .from('rlc_scorecard_votes')
+      .select('vote')
+      .eq('bill_id', input.billId)
+      .eq('legislator_id', input.legislatorId)
+      .maybeSingle();
+
+    if (voteError) {
+      throw new Error(`Failed to fetch legislator vote: ${voteError.message}`);
+    }
+    vote = voteData as Pick<ScorecardVote, 'vote'> | null;
+  }
+
+  return {
+    ...fields,
+    bill_number: bill.bill_number,
+    bill_title: bill.title,
+    past_vote: describePastVote(vote?.vote ?? null),
+  };
+}
+
+/**
+ * The message a member previews before sending. Campaigns with AI variation
+ * get a per-member rewrite; if the rewrite fails or drops a required talking
+ * point, the filled-in template is offered instead.
+ */
+export async function composeCampaignMessage(
+  campaign: PersonalizedCampaign,
+  fields: CampaignMessageFields
+): Promise<ComposedMessage> {
+  const body = renderCampaignMessage(campaign.message_template, fields);
+  if (!campaign.ai_variation) return { body, varied: false };
+
+  try {
+    const rewritten = await varyCampaignMessage({
+      message: body,
+      talkingPoints: campaign.talking_points,
+      memberFirstName: fields.member_first_name ?? null,
+      city: fields.city ?? null,
+    });
+    const missing = missingTalkingPoints(rewritten, campaign.talking_points);
+    if (missing.length === 0) return { body: rewritten, varied: true };
+    logger.warn(`Campaign ${campaign.id} message variation dropped talking points: ${missing.join('; ')}`);
+  } catch (err) {
+    logger.warn(`Campaign ${campaign.id} message variation failed:`, err instanceof Error ? err.message : String(err));
+  }
+  return { body, varied: false };
+}
+
+/** Store a composed message so delivery can send exactly what the member approved. Returns its id. */
+export async function saveMessagePreview(
+  supabase: ServerClient,
+  input: { campaignId: string; contactId: string; recipient: { name: string; office: string }; message: ComposedMessage }
+): Promise<string> {
+  const { data, error } = await supabase
+    .from('rlc_campaign_message_previews')
+    .insert({
+      campaign_id: input.campaignId,
+      contact_id: input.contactId,
+      official_name: input.recipient.name,
+      office: input.recipient.office,
+      body: input.message.body,
+      varied: input.message.varied,
+    } as never)
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to save message preview: ${error?.message ?? 'no row returned'}`);
+  }
+  return (data as Pick<CampaignMessagePreview, 'id'>).id;
+}
+
+/**
+ * A stored preview, only when it was composed for this campaign, member and
+ * office. Returns null otherwise.
+ */
+export async function getMessagePreview(
+  supabase: ServerClient,
+  input: { previewId: string; campaignId: string; contactId: string; recipient: { name: string; office: string } }
+): Promise<ComposedMessage | null> {
+  const { data, error } = await supabase
+    .from('rlc_campaign_message_previews')
+    .select('body, varied')
+    .eq('id', input.previewId)
+    .eq('campaign_id', input.campaignId)
+    .eq('contact_id', input.contactId)
+    .eq('official_name', input.recipient.name)
+    .eq('office', input.recipient.office)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch message preview: ${error.message}`);
+  }
+  const preview = data as Pick<CampaignMessagePreview, 'body' | 'varied'> | null;
+  return preview ? { body: preview.body, varied: preview.varied } : null;
+}
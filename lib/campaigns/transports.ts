@@ -0,0 +1,152 @@
+import { escapeHtml, sendEmail } from '@/lib/email/client';
+import type { Contact } from '@/types';
+
+/** Web-form submissions can be slow; the adapter fills and submits the form server-side. */
+const WEB_FORM_TIMEOUT_MS = 30_000;
+
+// ─── Pure types ──────────────────────────────────────────────────────────────
+
+export type DeliveryTransportName = 'email' | 'web_form';
+
+/** The office a message is addressed to, as resolved from the civic lookup. */
+export interface DeliveryTarget {
+  name: string;
+  office: string;
+  email: string | null;
+  webFormUrl: string | null;
+}
+
+export type DeliverySender = Pick<
+  Contact,
+  'first_name' | 'last_name' | 'email' | 'phone' | 'address_line1' | 'address_line2' | 'city' | 'state' | 'postal_code'
+>;
+
+export interface DeliveryMessage {
+  subject: string;
+  body: string;
+  sender: DeliverySender;
+}
+
+/**
+ * A way of getting a constituent message to an office. Transports are tried
+ * in order, and the first one that can reach the target is used.
+ */
+export interface DeliveryTransport {
+  name: DeliveryTransportName;
+  /** Where this transport would deliver for the target, or null when it cannot reach them */
+  destination(target: DeliveryTarget): string | null;
+  /** Deliver the message. Throws when the provider rejects it. */
+  send(destination: string, message: DeliveryMessage): Promise<{ reference: string | null }>;
+}
+
+// ─── Pure functions ──────────────────────────────────────────────────────────
+
+/** Constituent signature appended to every delivered message. */
+export function formatSignature(sender: DeliverySender): string {
+  const cityLine = [sender.city, [sender.state, sender.postal_code].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+  return [
+    `${sender.first_name} ${sender.last_name}`.trim(),
+    sender.address_line1,
+    sender.address_line2,
+    cityLine,
+    sender.email,
+    sender.phone,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+export function selectTransport(
+  target: DeliveryTarget,
+  transports: DeliveryTransport[]
+): { transport: DeliveryTransport; destination: string } | null {
+  for (const transport of transports) {
+    const destination = transport.destination(target);
+    if (destination) return { transport, destination };
+  }
+  return null;
+}
+
+// ─── Transports ──────────────────────────────────────────────────────────────
+
+/** Sends through the site's email provider, with replies going to the member. */
+export const emailTransport: DeliveryTransport = {
+  name: 'email',
+  destination: (target) => target.email?.trim().toLowerCase() || null,
+  async send(destination, message) {
+    const text = `${message.body}\n\n${formatSignature(message.sender)}`;
+    const html = text
+      .split(/\n{2,}/)
+      .map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+      .join('\n');
+
+    const { id } = await sendEmail({
+      to: destination,
+      subject: message.subject,
+      html,
+      text,
+      replyTo: message.sender.email,
+    });
+    return { reference: id };
+  },
+};
+
+/**
+ * Submits the office's contact form through an external form-filling service.
+ * Most legislators only accept messages this way. The service receives the
+ * form URL and the constituent's details and returns a submission id.
+ */
+export const webFormTransport: DeliveryTransport = {
+  name: 'web_form',
+  destination: (target) => target.webFormUrl?.trim() || null,
+  async send(destination, message) {
+    const endpoint = process.env.WEB_FORM_DELIVERY_URL;
+    if (!endpoint) {
+      throw new Error('WEB_FORM_DELIVERY_URL is not configured');
+    }
+
+    const { sender } = message;
+    const res = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${process.env.WEB_FORM_DELIVERY_API_KEY ?? ''}`,
+      },
+      body: JSON.stringify({
+        formUrl: destination,
+        subject: message.subject,
+        message: message.body,
+        sender: {
+          firstName: sender.first_name,
+          lastName: sender.last_name,
+          email: sender.email,
+          phone: sender.phone,
+          addressLine1: sender.address_line1,
+          addressLine2: sender.address_line2,
+          city: sender.city,
+          state: sender.state,
+          postalCode: sender.postal_code,
+        },
+      }),
+      signal: AbortSignal.timeout(WEB_FORM_TIMEOUT_MS),
+    });
+
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`Web form delivery error: ${res.status} - ${text}`);
+    }
+
+    const data = (await res.json().catch(() => ({}))) as { id?: unknown };
+    return { reference: typeof data.id === 'string' ? data.id : null };
+  },
+};
+
+/** Transports whose providers are configured, in the order they are tried. */
+export function getConfiguredTransports(): DeliveryTransport[] {
+  const transports: DeliveryTransport[] = [];
+  if (process.env.RESEND_API_KEY) transports.push(emailTransport);
+  if (process.env.WEB_FORM_DELIVERY_URL) transports.push(webFormTransport);
+  return transports;
+}
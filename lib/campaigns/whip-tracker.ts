@@ -0,0 +1,161 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { getCampaignWhipCount } from '@/lib/campaigns/calls';
+import {
+  buildWhipTracker,
+  reconcileWhipStatus,
+  type WhipEntryRow,
+  type WhipLegislator,
+  type WhipTrackerRow,
+} from '@/lib/campaigns/whip';
+import type { ActionCampaign, ScorecardVote } from '@/types';
+
+type ServerClient = ReturnType<typeof createServerClient>;
+
+const LEGISLATOR_COLUMNS = 'id, name, party, chamber, state_code, district';
+const ENTRY_COLUMNS = 'legislator_id, status, source, notes, final_vote, predicted_status, reconciled_at, updated_at';
+
+// ─── Pure types ──────────────────────────────────────────────────────────────
+
+export type WhipCampaign = Pick<ActionCampaign, 'id' | 'target_chamber' | 'target_state_code'>;
+
+export interface WhipReconcileResult {
+  campaigns: number;
+  reconciled: number;
+}
+
+// ─── Database functions ──────────────────────────────────────────────────────
+
+/** Legislators in the campaign's target chamber (and state, when set). */
+async function getWhipTargets(supabase: ServerClient, campaign: WhipCampaign): Promise<WhipLegislator[]> {
+  if (!campaign.target_chamber) return [];
+
+  let query = supabase.from('rlc_legislators').select(LEGISLATOR_COLUMNS).eq('chamber', campaign.target_chamber);
+  if (campaign.target_state_code) {
+    query = query.eq('state_code', campaign.target_state_code);
+  }
+
+  const { data, error } = await query.order('name');
+  if (error) {
+    throw new Error(`Failed to fetch whip targets: ${error.message}`);
+  }
+  return (data || []) as WhipLegislator[];
+}
+
+async function getWhipEntries(supabase: ServerClient, campaignId: string): Promise<WhipEntryRow[]> {
+  const { data, error } = await supabase
+    .from('rlc_campaign_whip_entries')
+    .select(ENTRY_COLUMNS)
+    .eq('campaign_id', campaignId);
+
+  if (error) {
+    throw new Error(`Failed to fetch whip entries: ${error.message}`);
+  }
+  return (data || []) as WhipEntryRow[];
+}
+
+async function loadWhipTracker(
+  supabase: ServerClient,
+  campaign: WhipCampaign
+): Promise<{ rows: WhipTrackerRow[]; entries: WhipEntryRow[] }> {
+  const [targets, entries, calls] = await Promise.all([
+    getWhipTargets(supabase, campaign),
+    getWhipEntries(supabase, campaign.id),
+    getCampaignWhipCount(supabase, campaign.id),
+  ]);
+
+  const known = new Set(targets.map((l) => l.id));
+  const missingIds = Array.from(
+    new Set([
+      ...entries.map((e) => e.legislator_id),
+      ...calls.map((c) => c.legislatorId).filter((id): id is string => !!id),
+    ])
+  ).filter((id) => !known.has(id));
+
+  let others: WhipLegislator[] = [];
+  if (missingIds.length > 0) {
+    const { data, error } = await supabase.from('rlc_legislators').select(LEGISLATOR_COLUMNS).in('id', missingIds);
+    if (error) {
+      throw new Error(`Failed to fetch legislators: ${error.message}`);
+    }
+    others = (data || []) as WhipLegislator[];
+  }
+
+  return { rows: buildWhipTracker([...targets, ...others], entries, calls), entries };
+}
+
+/**
+ * One row per legislator the campaign targets, has a saved entry for, or
+ * has been called about.
+ */
+export async function getCampaignWhipTracker(supabase: ServerClient, campaign: WhipCampaign): Promise<WhipTrackerRow[]> {
+  const { rows } = await loadWhipTracker(supabase, campaign);
+  return rows;
+}
+
+/**
+ * Settle every whip tracker on a bill against its imported roll call. Each
+ * legislator the tracker follows who voted gets an entry recording the vote
+ * and the status the tracker showed beforehand. Running it again keeps the
+ * original prediction.
+ */
+export async function reconcileBillWhipEntries(
+  supabase: ServerClient,
+  billId: string,
+  now: Date = new Date()
+): Promise<WhipReconcileResult> {
+  const { data: campaignsData, error: campaignsError } = await supabase
+    .from('rlc_action_campaigns')
+    .select('id, target_chamber, target_state_code')
+    .eq('bill_id', billId);
+
+  if (campaignsError) {
+    throw new Error(`Failed to fetch bill campaigns: ${campaignsError.message}`);
+  }
+  const campaigns = (campaignsData || []) as WhipCampaign[];
+  if (campaigns.length === 0) return { campaigns: 0, reconciled: 0 };
+
+  const { data: votesData, error: votesError } = await supabase
+    .from('rlc_scorecard_votes')
+    .select('legislator_id, vote, aligned_with_liberty')
+    .eq('bill_id', billId);
+
+  if (votesError) {
+    throw new Error(`Failed to fetch bill votes: ${votesError.message}`);
+  }
+  const votes = (votesData || []) as Pick<ScorecardVote, 'legislator_id' | 'vote' | 'aligned_with_liberty'>[];
+
+  let reconciled = 0;
+  for (const campaign of campaigns) {
+    const { rows, entries } = await loadWhipTracker(supabase, campaign);
+    const rowByLegislator = new Map(rows.filter((r) => r.legislatorId).map((r) => [r.legislatorId as string, r]));
+    const entryByLegislator = new Map(entries.map((e) => [e.legislator_id, e]));
+
+    const upserts = votes
+      .filter((v) => rowByLegislator.has(v.legislator_id) && v.vote !== 'not_applicable')
+      .map((v) => {
+        const row = rowByLegislator.get(v.legislator_id) as WhipTrackerRow;
+        const entry = entryByLegislator.get(v.legislator_id);
+        const predicted = (entry?.reconciled_at && entry.predicted_status) || row.status;
+        return {
+          campaign_id: campaign.id,
+          legislator_id: v.legislator_id,
+          ...reconcileWhipStatus(predicted, v.vote, v.aligned_with_liberty),
+          reconciled_at: entry?.reconciled_at ?? now.toISOString(),
+          updated_at: now.toISOString(),
+        };
+      });
+
+    if (upserts.length === 0) continue;
+
+    const { error } = await supabase
+      .from('rlc_campaign_whip_entries')
+      .upsert(upserts as never, { onConflict: 'campaign_id,legislator_id' });
+
+    if (error) {
+      throw new Error(`Failed to reconcile whip entries for campaign ${campaign.id}: ${error.message}`);
+    }
+    reconciled += upserts.length;
+  }
+
+  return { campaigns: campaigns.length, reconciled };
+}
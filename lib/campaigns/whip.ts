@@ -0,0 +1,159 @@
+import type { CampaignWhipEntry, Legislator, VoteChoice, WhipStatus, WhipStatusSource } from '@/types';
+import type { LegislatorPosition, WhipCountEntry } from '@/lib/campaigns/call-survey';
+
+/** Tracker order: firm votes for the campaign's ask first, unknowns last. */
+export const WHIP_STATUSES = ['supports', 'leaning', 'undecided', 'opposed', 'unknown'] as const;
+
+export const WHIP_STATUS_LABELS: Record<WhipStatus, string> = {
+  supports: 'Supports',
+  leaning: 'Leaning',
+  undecided: 'Undecided',
+  opposed: 'Opposed',
+  unknown: 'Unknown',
+};
+
+const STATUS_BY_POSITION: Record<LegislatorPosition, WhipStatus> = {
+  support: 'supports',
+  oppose: 'opposed',
+  undecided: 'undecided',
+  unknown: 'unknown',
+};
+
+// ─── Pure types ──────────────────────────────────────────────────────────────
+
+export type WhipLegislator = Pick<Legislator, 'id' | 'name' | 'party' | 'chamber' | 'state_code' | 'district'>;
+
+export type WhipEntryRow = Pick<
+  CampaignWhipEntry,
+  'legislator_id' | 'status' | 'source' | 'notes' | 'final_vote' | 'predicted_status' | 'reconciled_at' | 'updated_at'
+>;
+
+/** Where a tracker row's status came from; null when nothing is known yet */
+export type WhipRowSource = WhipStatusSource | 'calls' | null;
+
+export interface WhipTrackerRow {
+  /** Legislator id, or the call report key for officials who are not tracked legislators */
+  key: string;
+  legislatorId: string | null;
+  name: string;
+  party: string | null;
+  state: string | null;
+  district: string | null;
+  status: WhipStatus;
+  source: WhipRowSource;
+  notes: string | null;
+  /** Position callers reported most often; null when nobody has called */
+  reportedStatus: WhipStatus | null;
+  calls: number;
+  finalVote: VoteChoice | null;
+  predictedStatus: WhipStatus | null;
+  reconciledAt: string | null;
+}
+
+export type WhipSummary = Record<WhipStatus, number>;
+
+export type ReconciledWhipFields = Pick<CampaignWhipEntry, 'status' | 'source' | 'final_vote' | 'predicted_status'>;
+
+// ─── Pure functions ──────────────────────────────────────────────────────────
+
+export function positionToWhipStatus(position: LegislatorPosition): WhipStatus {
+  return STATUS_BY_POSITION[position];
+}
+
+/**
+ * The status a recorded vote settles. Campaigns ask for the bill's liberty
+ * position, so an aligned yea or nay supports the campaign. Votes that take
+ * no side (present, absent, not voting) settle nothing.
+ */
+export function voteToWhipStatus(vote: VoteChoice, alignedWithLiberty: boolean): WhipStatus | null {
+  if (vote !== 'yea' && vote !== 'nay') return null;
+  return alignedWithLiberty ? 'supports' : 'opposed';
+}
+
+/**
+ * Merge targeted legislators, saved entries and call reports into one row per
+ * legislator. A saved entry (an admin's read or the reconciled roll call)
+ * outranks what callers reported.
+ */
+export function buildWhipTracker(
+  legislators: WhipLegislator[],
+  entries: WhipEntryRow[],
+  calls: WhipCountEntry[]
+): WhipTrackerRow[] {
+  const entryByLegislator = new Map(entries.map((e) => [e.legislator_id, e]));
+  const callsByKey = new Map(calls.map((c) => [c.key, c]));
+  const rows = new Map<string, WhipTrackerRow>();
+
+  for (const legislator of legislators) {
+    if (rows.has(legislator.id)) continue;
+    const entry = entryByLegislator.get(legislator.id);
+    const called = callsByKey.get(legislator.id);
+    const reportedStatus = called ? positionToWhipStatus(called.position) : null;
+
+    rows.set(legislator.id, {
+      key: legislator.id,
+      legislatorId: legislator.id,
+      name: legislator.name,
+      party: legislator.party,
+      state: legislator.state_code,
+      district: legislator.district,
+      status: entry?.status ?? reportedStatus ?? 'unknown',
+      source: entry?.source ?? (called ? 'calls' : null),
+      notes: entry?.notes ?? null,
+      reportedStatus,
+      calls: called?.calls ?? 0,
+      finalVote: entry?.final_vote ?? null,
+      predictedStatus: entry?.predicted_status ?? null,
+      reconciledAt: entry?.reconciled_at ?? null,
+    });
+  }
+
+  // Offices callers reached that we could not match to a tracked legislator
+  for (const called of calls) {
+    if (rows.has(called.key)) continue;
+    const reportedStatus = positionToWhipStatus(called.position);
+    rows.set(called.key, {
+      key: called.key,
+      legislatorId: called.legislatorId,
+      name: called.name,
+      party: null,
+      state: null,
+      district: called.office,
+      status: reportedStatus,
+      source: 'calls',
+      notes: null,
+      reportedStatus,
+      calls: called.calls,
+      finalVote: null,
+      predictedStatus: null,
+      reconciledAt: null,
+    });
+  }
+
+  return Array.from(rows.values()).sort(
+    (a, b) => WHIP_STATUSES.indexOf(a.status) - WHIP_STATUSES.indexOf(b.status) || a.name.localeCompare(b.name)
+  );
+}
+
+export function summarizeWhipTracker(rows: WhipTrackerRow[]): WhipSummary {
+  const summary = Object.fromEntries(WHIP_STATUSES.map((s) => [s, 0])) as WhipSummary;
+  for (const row of rows) summary[row.status]++;
+  return summary;
+}
+
+/**
+ * The entry fields once the roll call is in. `predicted` is the status the
+ * tracker showed before the vote; a vote that takes no side keeps it.
+ */
+export function reconcileWhipStatus(
+  predicted: WhipStatus,
+  vote: VoteChoice,
+  alignedWithLiberty: boolean
+): ReconciledWhipFields {
+  return {
+    status: voteToWhipStatus(vote, alignedWithLiberty) ?? predicted,
+    source: 'roll_call',
+    final_vote: vote,
+    predicted_status: predicted,
+  };
+}
@@ -12,9 +12,16 @@ export interface CivicOfficial {
   emails: string[];
   photoUrl: string | null;
   urls: string[];
+  /** The office's contact form, when Cicero knows it */
+  webFormUrl: string | null;
   channels: Array<{ type: string; id: string }>;
   office: string;
   category: OfficialCategory;
+  /** Cicero district type, e.g. `STATE_LOWER` or `NATIONAL_UPPER` */
+  districtType: string | null;
+  stateCode: string | null;
+  /** District identifier as Cicero reports it; statewide offices carry the state */
+  district: string | null;
 }
 
 export interface CivicRepresentatives {
@@ -37,11 +44,12 @@ interface CiceroOfficial {
   email_addresses?: string[];
   photo_origin_url?: string;
   urls?: string[];
+  web_form_url?: string;
   office?: {
     title?: string;
     name?: string;
     chamber?: { name?: string };
-    district?: { district_type?: string; subtype?: string };
+    district?: { district_type?: string; subtype?: string; district_id?: string; state?: string };
   };
 }
 
@@ -105,7 +113,8 @@ export async function getRepresentatives(address: string): Promise<CivicRepresen
 
     const nameParts = [o.first_name, o.middle_initial, o.last_name].filter(Boolean);
     const officeTitle = o.office?.title || o.office?.name || '';
-    const districtType = o.office?.district?.district_type;
+    const district = o.office?.district;
+    const districtType = district?.district_type;
     const category = categorize(districtType);
 
     return {
@@ -115,9 +124,13 @@ export async function getRepresentatives(address: string): Promise<CivicRepresen
       emails,
       photoUrl: o.photo_origin_url || null,
       urls,
+      webFormUrl: o.web_form_url || null,
       channels: [],
       office: officeTitle,
       category,
+      districtType: districtType || null,
+      stateCode: district?.state?.toUpperCase() || null,
+      district: district?.district_id || null,
     };
   });
 
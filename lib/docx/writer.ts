@@ -0,0 +1,362 @@
+import { deflateRawSync } from 'zlib';
+import type { PdfTableColumn, PdfWriter } from '@/lib/pdf/writer';
+
+/** Same calls as the PDF writer, so one renderer can produce either format. */
+export type DocxWriter = PdfWriter;
+
+// US Letter with the PDF writer's margins, in twentieths of a point
+const PAGE_WIDTH = 12240;
+const PAGE_HEIGHT = 15840;
+const MARGIN = 960;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const TEXT_COLOR = '1A1A1A';
+const MUTED_COLOR = '666666';
+const RULE_COLOR = 'CCCCCC';
+const BRAND_RED = 'BF1A26';
+
+const NS_W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const NS_R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+// ─── XML helpers ─────────────────────────────────────────────────────────────
+
+/** Characters XML 1.0 allows: tab, newline, carriage return, and everything from space up except U+FFFE/U+FFFF. */
+function isXmlChar(char: string): boolean {
+  const code = char.codePointAt(0) ?? 0;
+  return code === 0x09 || code === 0x0a || code === 0x0d || (code >= 0x20 && code !== 0xfffe && code !== 0xffff);
+}
+
+/** Escape text for XML and drop characters Word refuses to open. */
+function escapeXml(text: string): string {
+  return Array.from(text)
+    .filter(isXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function run(text: string, props: { bold?: boolean; size?: number; color?: string } = {}): string {
+  const rPr = [
+    props.bold ? '<w:b/>' : '',
+    `<w:color w:val="${props.color ?? TEXT_COLOR}"/>`,
+    props.size ? `<w:sz w:val="${props.size * 2}"/>` : '',
+  ].join('');
+  const body = text
+    .split('\n')
+    .map((line) => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`)
+    .join('<w:br/>');
+  return `<w:r><w:rPr>${rPr}</w:rPr>${body}</w:r>`;
+}
+
+function paragraph(runs: string, pPr = ''): string {
+  return `<w:p>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ''}${runs}</w:p>`;
+}
+
+function bottomBorder(color: string, size: number): string {
+  return `<w:pBdr><w:bottom w:val="single" w:sz="${size}" w:space="4" w:color="${color}"/></w:pBdr>`;
+}
+
+function tableCell(text: string, width: number, props: { bold?: boolean; align?: 'left' | 'right'; shaded?: boolean }): string {
+  const shading = props.shaded ? '<w:shd w:val="clear" w:color="auto" w:fill="F2F2F2"/>' : '';
+  const pPr = `<w:spacing w:before="20" w:after="20"/>${props.align === 'right' ? '<w:jc w:val="right"/>' : ''}`;
+  return `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>${shading}</w:tcPr>${paragraph(run(text, { bold: props.bold, size: 9 }), pPr)}</w:tc>`;
+}
+
+function table(widths: number[], rows: string[], borders: string): string {
+  return [
+    '<w:tbl><w:tblPr>',
+    `<w:tblW w:w="${CONTENT_WIDTH}" w:type="dxa"/>`,
+    `<w:tblBorders>${borders}</w:tblBorders>`,
+    '<w:tblLayout w:type="fixed"/>',
+    '<w:tblCellMar><w:left w:w="60" w:type="dxa"/><w:right w:w="60" w:type="dxa"/></w:tblCellMar>',
+    '</w:tblPr>',
+    `<w:tblGrid>${widths.map((w) => `<w:gridCol w:w="${w}"/>`).join('')}</w:tblGrid>`,
+    ...rows,
+    '</w:tbl>',
+  ].join('');
+}
+
+/**
+ * The standard VML text watermark Word itself writes into a header: a
+ * diagonal, semi-transparent text shape behind the page content.
+ */
+function watermarkShape(text: string): string {
+  return [
+    '<w:r><w:pict>',
+    '<v:shapetype id="_x0000_t136" coordsize="21600,21600" o:spt="136" adj="10800" path="m@7,l@8,m@5,21600l@6,21600e">',
+    '<v:formulas>',
+    ...[
+      'sum #0 0 10800', 'prod #0 2 1', 'sum 21600 0 @1', 'sum 0 0 @2', 'sum 21600 0 @3', 'if @0 @3 0',
+      'if @0 21600 @1', 'if @0 0 @2', 'if @0 @4 21600', 'mid @5 @6', 'mid @8 @5', 'mid @7 @8', 'mid @6 @7',
+      'sum @6 0 @5',
+    ].map((eqn) => `<v:f eqn="${eqn}"/>`),
+    '</v:formulas>',
+    '<v:path textpathok="t" o:connecttype="custom" o:connectlocs="@9,0;@10,10800;@11,21600;@12,10800" o:connectangles="270,180,90,0"/>',
+    '<v:textpath on="t" fitshape="t"/>',
+    '<v:handles><v:h position="#0,bottomRight" xrange="6629,14971"/></v:handles>',
+    '<o:lock v:ext="edit" text="t" shapetype="t"/>',
+    '</v:shapetype>',
+    '<v:shape id="ConfidentialWatermark" o:spid="_x0000_s2049" type="#_x0000_t136" ',
+    'style="position:absolute;margin-left:0;margin-top:0;width:468pt;height:58pt;rotation:315;z-index:-251657216;',
+    'mso-position-horizontal:center;mso-position-horizontal-relative:margin;',
+    'mso-position-vertical:center;mso-position-vertical-relative:margin" ',
+    'o:allowincell="f" fillcolor="silver" stroked="f">',
+    '<v:fill opacity=".35"/>',
+    `<v:textpath style="font-family:&quot;Arial&quot;;font-size:1pt" string="${escapeXml(text)}"/>`,
+    '</v:shape>',
+    '</w:pict></w:r>',
+  ].join('');
+}
+
+// ─── Zip ─────────────────────────────────────────────────────────────────────
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Minimal deflate-only zip archive, which is all an OOXML package needs. */
+function zip(files: { name: string; content: string }[], modified: Date): Uint8Array {
+  const time = (modified.getHours() << 11) | (modified.getMinutes() << 5) | (modified.getSeconds() >> 1);
+  const date = ((modified.getFullYear() - 1980) << 9) | ((modified.getMonth() + 1) << 5) | modified.getDate();
+
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf8');
+    const raw = Buffer.from(file.content, 'utf8');
+    const compressed = deflateRawSync(raw);
+    const crc = crc32(raw);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+    localParts.push(local, name, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, name);
+
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return new Uint8Array(Buffer.concat([...localParts, ...centralParts, end]));
+}
+
+// ─── Writer ──────────────────────────────────────────────────────────────────
+
+/**
+ * Editable Word counterpart of `createPdfWriter`: the same flowing layout and
+ * branding, with `footerText` and page numbers in the page footer and
+ * `watermark` both as a header line and as a diagonal mark behind each page.
+ */
+export function createDocxWriter(params: { documentTitle: string; footerText: string; watermark?: string }): DocxWriter {
+  const body: string[] = [];
+  let pageHasContent = false;
+
+  function append(xml: string) {
+    body.push(xml);
+    pageHasContent = true;
+  }
+
+  function files(): { name: string; content: string }[] {
+    const created = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    const header = params.watermark
+      ? `${XML_DECLARATION}<w:hdr xmlns:w="${NS_W}" xmlns:r="${NS_R}" xmlns:v="urn:schemas-microsoft-com:vml" xmlns:o="urn:schemas-microsoft-com:office:office">` +
+        paragraph(watermarkShape(params.watermark) + run(params.watermark, { size: 7, color: MUTED_COLOR }), '<w:jc w:val="center"/>') +
+        '</w:hdr>'
+      : null;
+    const footer =
+      `${XML_DECLARATION}<w:ftr xmlns:w="${NS_W}" xmlns:r="${NS_R}">` +
+      paragraph(
+        run(`${params.footerText}  |  Page `, { size: 7, color: MUTED_COLOR }) +
+          `<w:fldSimple w:instr=" PAGE ">${run('1', { size: 7, color: MUTED_COLOR })}</w:fldSimple>` +
+          run(' of ', { size: 7, color: MUTED_COLOR }) +
+          `<w:fldSimple w:instr=" NUMPAGES ">${run('1', { size: 7, color: MUTED_COLOR })}</w:fldSimple>`
+      ) +
+      '</w:ftr>';
+
+    const sectPr = [
+      '<w:sectPr>',
+      header ? '<w:headerReference w:type="default" r:id="rIdHeader"/>' : '',
+      '<w:footerReference w:type="default" r:id="rIdFooter"/>',
+      `<w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/>`,
+      `<w:pgMar w:top="${MARGIN}" w:right="${MARGIN}" w:bottom="${MARGIN}" w:left="${MARGIN}" w:header="480" w:footer="480" w:gutter="0"/>`,
+      '</w:sectPr>',
+    ].join('');
+
+    // Word expects the body to end with a paragraph, never a table
+    const document =
+      `${XML_DECLARATION}<w:document xmlns:w="${NS_W}" xmlns:r="${NS_R}"><w:body>` +
+      body.join('') +
+      paragraph('') +
+      sectPr +
+      '</w:body></w:document>';
+
+    const styles =
+      `${XML_DECLARATION}<w:styles xmlns:w="${NS_W}">` +
+      '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Arial" w:hAnsi="Arial" w:cs="Arial"/><w:sz w:val="20"/></w:rPr></w:rPrDefault>' +
+      '<w:pPrDefault><w:pPr><w:spacing w:before="0" w:after="80"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+      '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+      '<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:qFormat/>' +
+      '<w:rPr><w:b/><w:sz w:val="36"/></w:rPr></w:style>' +
+      '<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>' +
+      `<w:pPr><w:keepNext/>${bottomBorder(RULE_COLOR, 4)}<w:spacing w:before="240" w:after="160"/><w:outlineLvl w:val="0"/></w:pPr>` +
+      '<w:rPr><w:b/><w:sz w:val="24"/></w:rPr></w:style>' +
+      '</w:styles>';
+
+    return [
+      {
+        name: '[Content_Types].xml',
+        content:
+          `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+          '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+          '<Default Extension="xml" ContentType="application/xml"/>' +
+          '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+          '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+          (header ? '<Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>' : '') +
+          '<Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>' +
+          '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+          '</Types>',
+      },
+      {
+        name: '_rels/.rels',
+        content:
+          `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+          `<Relationship Id="rId1" Type="${REL_TYPE}/officeDocument" Target="word/document.xml"/>` +
+          '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+          '</Relationships>',
+      },
+      {
+        name: 'docProps/core.xml',
+        content:
+          `${XML_DECLARATION}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ` +
+          'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+          `<dc:title>${escapeXml(params.documentTitle)}</dc:title>` +
+          '<dc:creator>Republican Liberty Caucus</dc:creator>' +
+          `<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created>` +
+          '</cp:coreProperties>',
+      },
+      {
+        name: 'word/_rels/document.xml.rels',
+        content:
+          `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+          `<Relationship Id="rIdStyles" Type="${REL_TYPE}/styles" Target="styles.xml"/>` +
+          (header ? `<Relationship Id="rIdHeader" Type="${REL_TYPE}/header" Target="header1.xml"/>` : '') +
+          `<Relationship Id="rIdFooter" Type="${REL_TYPE}/footer" Target="footer1.xml"/>` +
+          '</Relationships>',
+      },
+      { name: 'word/document.xml', content: document },
+      { name: 'word/styles.xml', content: styles },
+      ...(header ? [{ name: 'word/header1.xml', content: header }] : []),
+      { name: 'word/footer1.xml', content: footer },
+    ];
+  }
+
+  return {
+    title(text, subtitle) {
+      append(paragraph(run('REPUBLICAN LIBERTY CAUCUS', { bold: true, size: 8, color: BRAND_RED }), '<w:spacing w:after="120"/>'));
+      const titleBorder = subtitle ? '' : bottomBorder(BRAND_RED, 8);
+      append(paragraph(run(text), `<w:pStyle w:val="Title"/>${titleBorder}<w:spacing w:after="${subtitle ? 60 : 240}"/>`));
+      if (subtitle) {
+        append(paragraph(run(subtitle, { color: MUTED_COLOR }), `${bottomBorder(BRAND_RED, 8)}<w:spacing w:after="240"/>`));
+      }
+    },
+
+    heading(text) {
+      append(paragraph(run(text), '<w:pStyle w:val="Heading1"/>'));
+    },
+
+    paragraph(text, options = {}) {
+      append(paragraph(run(text, { size: options.size, color: options.muted ? MUTED_COLOR : TEXT_COLOR })));
+    },
+
+    keyValues(rows) {
+      if (rows.length === 0) return;
+      const keyWidth = Math.round(CONTENT_WIDTH * 0.31);
+      const widths = [keyWidth, CONTENT_WIDTH - keyWidth];
+      append(
+        table(
+          widths,
+          rows.map(([key, value]) => `<w:tr>${tableCell(key, widths[0], { bold: true })}${tableCell(value, widths[1], {})}</w:tr>`),
+          ''
+        )
+      );
+      append(paragraph('', '<w:spacing w:after="0"/>'));
+    },
+
+    table(columns: PdfTableColumn[], rows, options = {}) {
+      const widths = columns.map((c) => Math.round(c.width * CONTENT_WIDTH));
+      const rule = `w:val="single" w:sz="4" w:space="0" w:color="${RULE_COLOR}"`;
+      const headerRow =
+        '<w:tr><w:trPr><w:tblHeader/></w:trPr>' +
+        columns.map((c, i) => tableCell(c.header, widths[i], { bold: true, align: c.align, shaded: true })).join('') +
+        '</w:tr>';
+      const bodyRows = rows.map((cells, r) => {
+        const bold = options.boldLastRow && r === rows.length - 1;
+        return `<w:tr><w:trPr><w:cantSplit/></w:trPr>${columns.map((c, i) => tableCell(cells[i] ?? '', widths[i], { bold, align: c.align })).join('')}</w:tr>`;
+      });
+      append(table(widths, [headerRow, ...bodyRows], `<w:top ${rule}/><w:bottom ${rule}/><w:insideH ${rule}/>`));
+      append(paragraph('', '<w:spacing w:after="0"/>'));
+    },
+
+    spacer(height = 10) {
+      append(paragraph('', `<w:spacing w:before="0" w:after="0" w:line="${height * 20}" w:lineRule="exact"/>`));
+    },
+
+    pageBreak() {
+      if (!pageHasContent) return;
+      body.push(paragraph('<w:r><w:br w:type="page"/></w:r>', '<w:spacing w:after="0"/>'));
+      pageHasContent = false;
+    },
+
+    async save() {
+      return zip(files(), new Date());
+    },
+  };
+}
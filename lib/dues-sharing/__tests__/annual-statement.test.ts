@@ -0,0 +1,224 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ----------------------------------------------------------------
+// Mocks — must be declared before the module under test is imported
+// ----------------------------------------------------------------
+
+vi.mock('@/lib/email/client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/email/client')>()),
+  sendEmail: vi.fn(),
+}));
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import {
+  annualStatementToCsv,
+  buildAnnualStatement,
+  describeSplitPolicy,
+  emailAnnualStatement,
+  renderAnnualStatementPdf,
+  type StatementLedgerRow,
+} from '../annual-statement';
+import { sendEmail } from '@/lib/email/client';
+import { createServerClient } from '@/lib/supabase/server';
+
+// ----------------------------------------------------------------
+// Mock Supabase chain builder
+// ----------------------------------------------------------------
+
+type ChainResult = { data?: unknown; error?: unknown };
+
+function mockChain(terminalResult: ChainResult = { data: null, error: null }) {
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  const methods = ['select', 'eq', 'gte', 'lt', 'single', 'order'];
+  for (const m of methods) {
+    chain[m] = vi.fn().mockReturnValue(chain);
+  }
+  (chain as Record<string, unknown>)['then'] = (resolve: (v: ChainResult) => void) =>
+    resolve(terminalResult);
+  return chain;
+}
+
+function mockSupabase(chains: Record<string, ReturnType<typeof mockChain>>) {
+  return {
+    from: vi.fn((table: string) => chains[table] ?? mockChain()),
+  };
+}
+
+const mockedSendEmail = sendEmail as ReturnType<typeof vi.fn>;
+const mockedCreateServerClient = createServerClient as ReturnType<typeof vi.fn>;
+
+const NATIONAL_MANAGED = {
+  model: 'national_managed',
+  national_cents: 1500,
+  national_fee: { schedule_id: 'fs-1', fee_type: 'flat', flat_cents: 1500 },
+  rules: [
+    { recipient: 'charter-a', percentage: 60 },
+    { recipient: 'charter-b', percentage: 40 },
+  ],
+};
+
+function ledgerRow(overrides: Partial<StatementLedgerRow>): StatementLedgerRow {
+  return {
+    id: 'e1',
+    contribution_id: 'c1',
+    source_type: 'membership',
+    amount: 27,
+    status: 'transferred',
+    stripe_transfer_id: 'tr_1',
+    payout_batch_id: null,
+    reversal_of_id: null,
+    transferred_at: '2025-01-15T00:00:00Z',
+    split_rule_snapshot: NATIONAL_MANAGED,
+    created_at: '2025-01-15T00:00:00Z',
+    contribution: { amount: 60, created_at: '2025-01-15T00:00:00Z' },
+    ...overrides,
+  };
+}
+
+// ----------------------------------------------------------------
+// Pure functions
+// ----------------------------------------------------------------
+
+describe('describeSplitPolicy', () => {
+  it('summarises national-managed rules and the national fee', () => {
+    expect(describeSplitPolicy(NATIONAL_MANAGED)).toBe(
+      'National managed, 2 rules (60% / 40%); $15.00 national fee'
+    );
+  });
+
+  it('describes percentage fees, state-managed splits and refunds', () => {
+    expect(
+      describeSplitPolicy({ model: 'state_managed', national_fee: { fee_type: 'percentage', percentage: 10 } })
+    ).toBe('State managed; 10% national fee');
+    expect(describeSplitPolicy({ reason: 'partial_refund', refunded_cents: 1250 })).toBe('Partial refund of $12.50');
+    expect(describeSplitPolicy(null)).toBe('Not recorded');
+  });
+});
+
+describe('buildAnnualStatement', () => {
+  const rows = [
+    ledgerRow({}),
+    ledgerRow({ id: 'e2', status: 'pending', stripe_transfer_id: null, created_at: '2025-03-02T12:00:00Z' }),
+    ledgerRow({
+      id: 'r1',
+      amount: -27,
+      status: 'reversed',
+      stripe_transfer_id: null,
+      reversal_of_id: 'e1',
+      split_rule_snapshot: { reason: 'full_refund', refunded_cents: 6000 },
+      created_at: '2025-03-10T00:00:00Z',
+    }),
+    // Outside the year — ignored
+    ledgerRow({ id: 'old', created_at: '2024-12-31T23:59:59Z' }),
+  ];
+
+  it('buckets income and reversals by UTC month', () => {
+    const statement = buildAnnualStatement({ charterId: 'charter-a', charterName: 'Texas RLC', year: 2025, rows });
+
+    expect(statement.months).toHaveLength(12);
+    expect(statement.months[0]).toMatchObject({ incomeCents: 2700, transferredCents: 2700, netCents: 2700, entryCount: 1 });
+    expect(statement.months[2]).toMatchObject({ incomeCents: 2700, reversalCents: 2700, netCents: 0, entryCount: 2 });
+    expect(statement.totals).toEqual({
+      incomeCents: 5400,
+      reversalCents: 2700,
+      netCents: 2700,
+      transferredCents: 2700,
+      entryCount: 3,
+    });
+  });
+
+  it('lists each entry with its payment, transfer and policy', () => {
+    const statement = buildAnnualStatement({ charterId: 'charter-a', charterName: 'Texas RLC', year: 2025, rows });
+
+    expect(statement.lines.map((l) => l.entryId)).toEqual(['e1', 'e2', 'r1']);
+    expect(statement.lines[0]).toMatchObject({ paymentCents: 6000, transferId: 'tr_1', isReversal: false });
+    expect(statement.lines[2]).toMatchObject({ paymentCents: null, isReversal: true, policy: 'Full refund' });
+    // Reversals are not a split policy
+    expect(statement.policies).toEqual([
+      { policy: 'National managed, 2 rules (60% / 40%); $15.00 national fee', entryCount: 2 },
+    ]);
+  });
+});
+
+describe('annualStatementToCsv', () => {
+  it('writes negative reversal amounts without the formula-guard prefix', () => {
+    const statement = buildAnnualStatement({
+      charterId: 'charter-a',
+      charterName: 'Texas RLC',
+      year: 2025,
+      rows: [ledgerRow({ id: 'r1', amount: -27, reversal_of_id: 'e1', split_rule_snapshot: { reason: 'full_refund' } })],
+    });
+
+    const [header, line] = annualStatementToCsv(statement).split('\n');
+    expect(header).toContain('"Charter Share"');
+    expect(line).toContain(',-27.00,');
+    expect(line).toContain('"Reversal"');
+  });
+});
+
+describe('renderAnnualStatementPdf', () => {
+  it('renders a PDF even with characters outside the standard fonts', async () => {
+    const statement = buildAnnualStatement({
+      charterId: 'charter-a',
+      charterName: 'Société “Liberty” RLC ✓',
+      year: 2025,
+      rows: [ledgerRow({})],
+    });
+
+    const pdf = await renderAnnualStatementPdf(statement);
+
+    expect(Buffer.from(pdf.slice(0, 5)).toString()).toBe('%PDF-');
+  });
+});
+
+// ----------------------------------------------------------------
+// emailAnnualStatement
+// ----------------------------------------------------------------
+
+describe('emailAnnualStatement', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('emails the PDF and CSV to the active treasurer', async () => {
+    mockedCreateServerClient.mockReturnValue(mockSupabase({
+      rlc_charters: mockChain({ data: { id: 'charter-a', name: 'Texas RLC' }, error: null }),
+      rlc_split_ledger_entries: mockChain({ data: [ledgerRow({})], error: null }),
+      rlc_organizational_positions: mockChain({
+        data: [{ member: { email: 'treasurer@txrlc.org' } }, { member: { email: null } }],
+        error: null,
+      }),
+    }));
+    mockedSendEmail.mockResolvedValue({ id: 'email_1' });
+
+    const outcome = await emailAnnualStatement({ charterId: 'charter-a', year: 2025 });
+
+    expect(outcome).toEqual({ success: true, recipients: ['treasurer@txrlc.org'] });
+    const sent = mockedSendEmail.mock.calls[0][0];
+    expect(sent.to).toEqual(['treasurer@txrlc.org']);
+    expect(sent.attachments.map((a: { filename: string }) => a.filename)).toEqual([
+      'dues-statement-texas-rlc-2025.pdf',
+      'dues-statement-texas-rlc-2025.csv',
+    ]);
+  });
+
+  it('does not send when the charter has no treasurer email', async () => {
+    mockedCreateServerClient.mockReturnValue(mockSupabase({
+      rlc_charters: mockChain({ data: { id: 'charter-a', name: 'Texas RLC' }, error: null }),
+      rlc_split_ledger_entries: mockChain({ data: [], error: null }),
+      rlc_organizational_positions: mockChain({ data: [], error: null }),
+    }));
+
+    const outcome = await emailAnnualStatement({ charterId: 'charter-a', year: 2025 });
+
+    expect(outcome).toMatchObject({ success: false, reason: 'no_treasurer' });
+    expect(mockedSendEmail).not.toHaveBeenCalled();
+  });
+});
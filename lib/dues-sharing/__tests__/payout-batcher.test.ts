@@ -0,0 +1,309 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ----------------------------------------------------------------
+// Mocks — must be declared before the module under test is imported
+// ----------------------------------------------------------------
+
+vi.mock('@/lib/stripe/client', () => ({
+  createTransfer: vi.fn(),
+  findTransferForPayoutBatch: vi.fn(),
+}));
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import {
+  getPayoutPeriodStart,
+  isPayoutDue,
+  executePayoutBatch,
+  getBatchedCharterIds,
+} from '../payout-batcher';
+import { createTransfer, findTransferForPayoutBatch } from '@/lib/stripe/client';
+import { createServerClient } from '@/lib/supabase/server';
+
+// ----------------------------------------------------------------
+// Mock Supabase chain builder
+// ----------------------------------------------------------------
+
+type ChainResult = { data?: unknown; error?: unknown };
+
+function mockChain(terminalResult: ChainResult = { data: null, error: null }) {
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  const methods = ['select', 'eq', 'neq', 'is', 'in', 'single', 'limit', 'order', 'update', 'insert'];
+  for (const m of methods) {
+    chain[m] = vi.fn().mockReturnValue(chain);
+  }
+  (chain as Record<string, unknown>)['then'] = (resolve: (v: ChainResult) => void) =>
+    resolve(terminalResult);
+  return chain;
+}
+
+/**
+ * Build a mock Supabase client where each `.from(table)` call takes the next
+ * chain from that table's queue (the last chain repeats once the queue is drained).
+ */
+function mockSupabase(queues: Record<string, ReturnType<typeof mockChain>[]>) {
+  const calls: Record<string, number> = {};
+  return {
+    from: vi.fn((table: string) => {
+      const queue = queues[table];
+      if (!queue || queue.length === 0) return mockChain();
+      const index = calls[table] ?? 0;
+      calls[table] = index + 1;
+      return queue[Math.min(index, queue.length - 1)];
+    }),
+  };
+}
+
+const mockedCreateTransfer = createTransfer as ReturnType<typeof vi.fn>;
+const mockedFindTransferForPayoutBatch = findTransferForPayoutBatch as ReturnType<typeof vi.fn>;
+const mockedCreateServerClient = createServerClient as ReturnType<typeof vi.fn>;
+
+// ----------------------------------------------------------------
+// Pure functions
+// ----------------------------------------------------------------
+
+describe('getPayoutPeriodStart', () => {
+  // Wednesday, 2026-03-18 15:30 UTC
+  const now = new Date(Date.UTC(2026, 2, 18, 15, 30));
+
+  it('returns midnight UTC for daily', () => {
+    expect(getPayoutPeriodStart('daily', now)?.toISOString()).toBe('2026-03-18T00:00:00.000Z');
+  });
+
+  it('returns the preceding Monday for weekly', () => {
+    expect(getPayoutPeriodStart('weekly', now)?.toISOString()).toBe('2026-03-16T00:00:00.000Z');
+  });
+
+  it('treats Sunday as the end of the week, not the start', () => {
+    const sunday = new Date(Date.UTC(2026, 2, 22, 12));
+    expect(getPayoutPeriodStart('weekly', sunday)?.toISOString()).toBe('2026-03-16T00:00:00.000Z');
+  });
+
+  it('returns the first of the month for monthly', () => {
+    expect(getPayoutPeriodStart('monthly', now)?.toISOString()).toBe('2026-03-01T00:00:00.000Z');
+  });
+
+  it('returns null for per_payment', () => {
+    expect(getPayoutPeriodStart('per_payment', now)).toBeNull();
+  });
+});
+
+describe('isPayoutDue', () => {
+  const now = new Date(Date.UTC(2026, 2, 18, 15, 30));
+
+  it('is never due for per_payment charters', () => {
+    expect(isPayoutDue('per_payment', null, now)).toBe(false);
+  });
+
+  it('is due when the charter has never been paid out', () => {
+    expect(isPayoutDue('monthly', null, now)).toBe(true);
+  });
+
+  it('is not due when already paid out this period', () => {
+    expect(isPayoutDue('weekly', new Date(Date.UTC(2026, 2, 16, 8)), now)).toBe(false);
+  });
+
+  it('is due once the period has rolled over', () => {
+    expect(isPayoutDue('monthly', new Date(Date.UTC(2026, 1, 28, 8)), now)).toBe(true);
+  });
+});
+
+// ----------------------------------------------------------------
+// Database functions
+// ----------------------------------------------------------------
+
+describe('getBatchedCharterIds', () => {
+  it('returns only charters with a scheduled cadence', async () => {
+    const configChain = mockChain({
+      data: [
+        { charter_id: 'c-daily', payout_cadence: 'daily' },
+        { charter_id: 'c-instant', payout_cadence: 'per_payment' },
+      ],
+      error: null,
+    });
+    const supabase = mockSupabase({ rlc_charter_split_configs: [configChain] });
+
+    const result = await getBatchedCharterIds(supabase as never, ['c-daily', 'c-instant', 'c-none']);
+
+    expect([...result]).toEqual(['c-daily']);
+    expect(configChain.in).toHaveBeenCalledWith('charter_id', ['c-daily', 'c-instant', 'c-none']);
+  });
+});
+
+describe('executePayoutBatch', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const baseParams = {
+    charterId: 'charter-a',
+    cadence: 'monthly' as const,
+    destinationAccountId: 'acct_aaa',
+    minimumPayoutCents: 0,
+  };
+
+  it('aggregates claimed entries into a single transfer and marks them transferred', async () => {
+    const claimChain = mockChain({
+      data: [
+        { id: 'e1', amount: 30 },
+        { id: 'e2', amount: 15.5 },
+        { id: 'e3', amount: 60 },
+      ],
+      error: null,
+    });
+    const linkChain = mockChain();
+    const transferredChain = mockChain();
+    const batchChain = mockChain();
+
+    mockedCreateServerClient.mockReturnValue(
+      mockSupabase({
+        rlc_split_ledger_entries: [claimChain, linkChain, transferredChain],
+        rlc_payout_batches: [batchChain],
+      })
+    );
+    mockedCreateTransfer.mockResolvedValue({ id: 'tr_batch' });
+
+    const outcome = await executePayoutBatch(baseParams);
+
+    expect(outcome).toMatchObject({ status: 'transferred', transferId: 'tr_batch', amountCents: 10550, entryCount: 3 });
+
+    // Claimed only unbatched pending entries for this charter
+    expect(claimChain.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'processing' }));
+    expect(claimChain.eq).toHaveBeenCalledWith('recipient_charter_id', 'charter-a');
+    expect(claimChain.eq).toHaveBeenCalledWith('status', 'pending');
+    expect(claimChain.is).toHaveBeenCalledWith('payout_batch_id', null);
+
+    // One Stripe transfer for the whole batch, keyed to the batch
+    expect(mockedCreateTransfer).toHaveBeenCalledTimes(1);
+    const transferArgs = mockedCreateTransfer.mock.calls[0][0] as Record<string, unknown>;
+    expect(transferArgs.amount).toBe(10550);
+    expect(transferArgs.destinationAccountId).toBe('acct_aaa');
+    expect(transferArgs.transferGroup).toMatch(/^payout_/);
+    expect(transferArgs.idempotencyKey).toMatch(/^payout-batch-/);
+
+    // All entries share the batch's transfer and group
+    expect(transferredChain.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 'transferred',
+        stripe_transfer_id: 'tr_batch',
+        stripe_transfer_group_id: transferArgs.transferGroup,
+      })
+    );
+    expect(transferredChain.in).toHaveBeenCalledWith('id', ['e1', 'e2', 'e3']);
+  });
+
+  it('releases entries back to pending when the total is below the minimum', async () => {
+    const claimChain = mockChain({ data: [{ id: 'e1', amount: 10 }], error: null });
+    const releaseChain = mockChain();
+
+    mockedCreateServerClient.mockReturnValue(
+      mockSupabase({ rlc_split_ledger_entries: [claimChain, releaseChain] })
+    );
+
+    const outcome = await executePayoutBatch({ ...baseParams, minimumPayoutCents: 2500 });
+
+    expect(outcome).toEqual({ status: 'below_minimum', amountCents: 1000, entryCount: 1 });
+    expect(mockedCreateTransfer).not.toHaveBeenCalled();
+    expect(releaseChain.update).toHaveBeenCalledWith({ status: 'pending', payout_batch_id: null });
+    expect(releaseChain.in).toHaveBeenCalledWith('id', ['e1']);
+  });
+
+  it('returns empty without creating a batch when nothing is pending', async () => {
+    const batchChain = mockChain();
+    mockedCreateServerClient.mockReturnValue(
+      mockSupabase({
+        rlc_split_ledger_entries: [mockChain({ data: [], error: null })],
+        rlc_payout_batches: [batchChain],
+      })
+    );
+
+    const outcome = await executePayoutBatch(baseParams);
+
+    expect(outcome).toEqual({ status: 'empty' });
+    expect(batchChain.insert).not.toHaveBeenCalled();
+    expect(mockedCreateTransfer).not.toHaveBeenCalled();
+  });
+
+  it('marks the batch failed and releases entries when Stripe rejects the transfer', async () => {
+    const claimChain = mockChain({ data: [{ id: 'e1', amount: 30 }], error: null });
+    const ledgerChain = mockChain();
+    const batchChain = mockChain();
+
+    mockedCreateServerClient.mockReturnValue(
+      mockSupabase({
+        rlc_split_ledger_entries: [claimChain, ledgerChain],
+        rlc_payout_batches: [batchChain],
+      })
+    );
+    mockedCreateTransfer.mockRejectedValue(new Error('Account cannot receive transfers'));
+    mockedFindTransferForPayoutBatch.mockResolvedValue(null);
+
+    const outcome = await executePayoutBatch(baseParams);
+
+    expect(outcome.status).toBe('failed');
+    expect(ledgerChain.update).toHaveBeenCalledWith({ status: 'pending', payout_batch_id: null });
+    expect(batchChain.update).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'failed', error_message: 'Account cannot receive transfers' })
+    );
+  });
+
+  it('links the transfer when Stripe created it but the response was lost', async () => {
+    const claimChain = mockChain({ data: [{ id: 'e1', amount: 30 }, { id: 'e2', amount: 20 }], error: null });
+    const ledgerChain = mockChain();
+    const batchChain = mockChain();
+
+    mockedCreateServerClient.mockReturnValue(
+      mockSupabase({
+        rlc_split_ledger_entries: [claimChain, ledgerChain],
+        rlc_payout_batches: [batchChain],
+      })
+    );
+    mockedCreateTransfer.mockRejectedValue(new Error('Request timed out'));
+    mockedFindTransferForPayoutBatch.mockResolvedValue({ id: 'tr_sent' });
+
+    const outcome = await executePayoutBatch(baseParams);
+
+    expect(outcome).toMatchObject({ status: 'transferred', transferId: 'tr_sent', amountCents: 5000 });
+    const transferArgs = mockedCreateTransfer.mock.calls[0][0] as Record<string, unknown>;
+    expect(mockedFindTransferForPayoutBatch).toHaveBeenCalledWith({
+      transferGroup: transferArgs.transferGroup,
+      destinationAccountId: 'acct_aaa',
+    });
+    expect(ledgerChain.update).not.toHaveBeenCalledWith({ status: 'pending', payout_batch_id: null });
+    expect(ledgerChain.update).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'transferred', stripe_transfer_id: 'tr_sent' })
+    );
+    expect(batchChain.update).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'transferred', stripe_transfer_id: 'tr_sent' })
+    );
+  });
+
+  it('keeps entries on the batch when Stripe cannot be checked after a failed transfer', async () => {
+    const claimChain = mockChain({ data: [{ id: 'e1', amount: 30 }], error: null });
+    const ledgerChain = mockChain();
+    const batchChain = mockChain();
+
+    mockedCreateServerClient.mockReturnValue(
+      mockSupabase({
+        rlc_split_ledger_entries: [claimChain, ledgerChain],
+        rlc_payout_batches: [batchChain],
+      })
+    );
+    mockedCreateTransfer.mockRejectedValue(new Error('Request timed out'));
+    mockedFindTransferForPayoutBatch.mockRejectedValue(new Error('Stripe unavailable'));
+
+    const outcome = await executePayoutBatch(baseParams);
+
+    expect(outcome.status).toBe('failed');
+    expect(ledgerChain.update).not.toHaveBeenCalledWith({ status: 'pending', payout_batch_id: null });
+    expect(batchChain.update).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'failed', error_message: 'Request timed out (transfer status unknown)' })
+    );
+  });
+});
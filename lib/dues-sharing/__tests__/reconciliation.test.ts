@@ -0,0 +1,348 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ----------------------------------------------------------------
+// Mocks — must be declared before the module under test is imported
+// ----------------------------------------------------------------
+
+vi.mock('@/lib/stripe/client', () => ({
+  listTransfersForAccount: vi.fn(),
+  getTransfer: vi.fn(),
+  reverseTransfer: vi.fn(),
+}));
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import {
+  parseTransferDescription,
+  diffLedgerAgainstStripe,
+  getRepairActions,
+  reconcileCharterAccount,
+  repairReconciliationIssue,
+  type StripeTransferSnapshot,
+} from '../reconciliation';
+import { listTransfersForAccount, getTransfer, reverseTransfer } from '@/lib/stripe/client';
+import { createServerClient } from '@/lib/supabase/server';
+
+// ----------------------------------------------------------------
+// Mock Supabase chain builder
+// ----------------------------------------------------------------
+
+type ChainResult = { data?: unknown; error?: unknown };
+
+function mockChain(terminalResult: ChainResult = { data: null, error: null }) {
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  const methods = ['select', 'eq', 'neq', 'is', 'not', 'in', 'gte', 'single', 'limit', 'order', 'update', 'insert'];
+  for (const m of methods) {
+    chain[m] = vi.fn().mockReturnValue(chain);
+  }
+  (chain as Record<string, unknown>)['then'] = (resolve: (v: ChainResult) => void) =>
+    resolve(terminalResult);
+  return chain;
+}
+
+/**
+ * Build a mock Supabase client where each `.from(table)` call takes the next
+ * chain from that table's queue (the last chain repeats once the queue is drained).
+ */
+function mockSupabase(queues: Record<string, ReturnType<typeof mockChain>[]>) {
+  const calls: Record<string, number> = {};
+  return {
+    from: vi.fn((table: string) => {
+      const queue = queues[table];
+      if (!queue || queue.length === 0) return mockChain();
+      const index = calls[table] ?? 0;
+      calls[table] = index + 1;
+      return queue[Math.min(index, queue.length - 1)];
+    }),
+  };
+}
+
+const mockedListTransfers = listTransfersForAccount as ReturnType<typeof vi.fn>;
+const mockedGetTransfer = getTransfer as ReturnType<typeof vi.fn>;
+const mockedReverseTransfer = reverseTransfer as ReturnType<typeof vi.fn>;
+const mockedCreateServerClient = createServerClient as ReturnType<typeof vi.fn>;
+
+const ACCOUNT = 'acct_charter';
+const SINCE = new Date(Date.UTC(2026, 0, 1));
+
+function transfer(overrides: Partial<StripeTransferSnapshot>): StripeTransferSnapshot {
+  return {
+    id: 'tr_1',
+    amountCents: 3000,
+    amountReversedCents: 0,
+    destination: ACCOUNT,
+    description: 'Dues split - entry e1',
+    created: new Date(Date.UTC(2026, 1, 1)),
+    ...overrides,
+  };
+}
+
+// ----------------------------------------------------------------
+// Pure functions
+// ----------------------------------------------------------------
+
+describe('parseTransferDescription', () => {
+  it('recognizes per-payment transfers', () => {
+    expect(parseTransferDescription('Dues split - entry abc-123')).toEqual({ kind: 'entry', id: 'abc-123' });
+  });
+
+  it('recognizes payout batch transfers', () => {
+    expect(parseTransferDescription('Dues payout - batch b-9 (4 entries)')).toEqual({ kind: 'batch', id: 'b-9' });
+  });
+
+  it('returns null for anything else', () => {
+    expect(parseTransferDescription('Manual transfer')).toBeNull();
+    expect(parseTransferDescription(null)).toBeNull();
+  });
+});
+
+describe('diffLedgerAgainstStripe', () => {
+  it('reports nothing when Stripe and the ledger agree', () => {
+    const findings = diffLedgerAgainstStripe({
+      stripeAccountId: ACCOUNT,
+      transfers: [transfer({})],
+      entries: [{ id: 'e1', amount: 30, status: 'transferred', stripe_transfer_id: 'tr_1' }],
+      reversals: [],
+      orphanSince: SINCE,
+    });
+
+    expect(findings).toEqual([]);
+  });
+
+  it('nets reversal entries against partially reversed transfers', () => {
+    const findings = diffLedgerAgainstStripe({
+      stripeAccountId: ACCOUNT,
+      transfers: [transfer({ amountReversedCents: 1000 })],
+      entries: [{ id: 'e1', amount: 30, status: 'reversed', stripe_transfer_id: 'tr_1' }],
+      reversals: [{ id: 'r1', amount: -10, reversal_of_id: 'e1' }],
+      orphanSince: SINCE,
+    });
+
+    expect(findings).toEqual([]);
+  });
+
+  it('flags drift when Stripe reversed a transfer the ledger still shows as paid', () => {
+    const findings = diffLedgerAgainstStripe({
+      stripeAccountId: ACCOUNT,
+      transfers: [transfer({ amountReversedCents: 3000 })],
+      entries: [{ id: 'e1', amount: 30, status: 'transferred', stripe_transfer_id: 'tr_1' }],
+      reversals: [],
+      orphanSince: SINCE,
+    });
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      issueType: 'amount_drift',
+      stripeTransferId: 'tr_1',
+      ledgerCents: 3000,
+      stripeCents: 0,
+      details: { drift_cents: -3000 },
+    });
+  });
+
+  it('flags ledger transfers Stripe has no record of', () => {
+    const findings = diffLedgerAgainstStripe({
+      stripeAccountId: ACCOUNT,
+      transfers: [],
+      entries: [
+        { id: 'e1', amount: 30, status: 'transferred', stripe_transfer_id: 'tr_batch' },
+        { id: 'e2', amount: 15, status: 'transferred', stripe_transfer_id: 'tr_batch' },
+      ],
+      reversals: [],
+      orphanSince: SINCE,
+    });
+
+    expect(findings).toEqual([
+      {
+        issueType: 'missing_transfer',
+        stripeTransferId: 'tr_batch',
+        ledgerEntryIds: ['e1', 'e2'],
+        ledgerCents: 4500,
+        stripeCents: null,
+        details: { reason: 'not_found' },
+      },
+    ]);
+  });
+
+  it('flags orphan transfers in the window with a link target', () => {
+    const findings = diffLedgerAgainstStripe({
+      stripeAccountId: ACCOUNT,
+      transfers: [
+        transfer({ id: 'tr_orphan', description: 'Dues split - entry e7' }),
+        transfer({ id: 'tr_old', created: new Date(Date.UTC(2025, 5, 1)) }),
+      ],
+      entries: [],
+      reversals: [],
+      orphanSince: SINCE,
+    });
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      issueType: 'orphan_transfer',
+      stripeTransferId: 'tr_orphan',
+      stripeCents: 3000,
+      details: { link_target: { kind: 'entry', id: 'e7' } },
+    });
+  });
+});
+
+describe('getRepairActions', () => {
+  it('offers a Stripe reversal when the charter holds more than the ledger says', () => {
+    expect(getRepairActions({ issue_type: 'amount_drift', details: { drift_cents: 500 } })).toEqual([
+      'reverse_transfer',
+      'dismiss',
+    ]);
+  });
+
+  it('offers a ledger reversal when Stripe already clawed money back', () => {
+    expect(getRepairActions({ issue_type: 'amount_drift', details: { drift_cents: -500 } })).toEqual([
+      'record_reversal',
+      'dismiss',
+    ]);
+  });
+
+  it('only offers dismiss for orphans it cannot link', () => {
+    expect(getRepairActions({ issue_type: 'orphan_transfer', details: { link_target: null } })).toEqual(['dismiss']);
+  });
+});
+
+// ----------------------------------------------------------------
+// Database functions
+// ----------------------------------------------------------------
+
+describe('reconcileCharterAccount', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('looks up unlisted ledger transfers individually before calling them missing', async () => {
+    mockedListTransfers.mockResolvedValue([]);
+    mockedGetTransfer.mockResolvedValue({
+      id: 'tr_old',
+      amount: 3000,
+      amount_reversed: 0,
+      destination: ACCOUNT,
+      description: 'Dues split - entry e1',
+      created: Math.floor(Date.UTC(2025, 11, 31) / 1000),
+    });
+
+    const windowChain = mockChain({
+      data: [{ id: 'e1', amount: 30, status: 'transferred', stripe_transfer_id: 'tr_old' }],
+      error: null,
+    });
+    const reversalChain = mockChain({ data: [], error: null });
+
+    mockedCreateServerClient.mockReturnValue(
+      mockSupabase({ rlc_split_ledger_entries: [windowChain, reversalChain] })
+    );
+
+    const { findings, examinedTransferIds } = await reconcileCharterAccount({
+      charterId: 'charter-a',
+      stripeAccountId: ACCOUNT,
+      since: SINCE,
+    });
+
+    expect(mockedGetTransfer).toHaveBeenCalledWith('tr_old');
+    expect(findings).toEqual([]);
+    expect([...examinedTransferIds]).toEqual(['tr_old']);
+  });
+});
+
+describe('repairReconciliationIssue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const driftIssue = {
+    id: 'issue-1',
+    charter_id: 'charter-a',
+    stripe_account_id: ACCOUNT,
+    issue_type: 'amount_drift',
+    stripe_transfer_id: 'tr_1',
+    ledger_entry_ids: ['e1', 'e2'],
+    ledger_amount: 45,
+    stripe_amount: 30,
+    details: { drift_cents: -1500 },
+    status: 'open',
+  };
+
+  it('records reversal entries for money Stripe already clawed back', async () => {
+    const issueChain = mockChain({ data: driftIssue, error: null });
+    const closeChain = mockChain();
+    const entriesChain = mockChain({
+      data: [
+        { id: 'e1', contribution_id: 'c1', source_type: 'membership', recipient_charter_id: 'charter-a', amount: 10, currency: 'USD' },
+        { id: 'e2', contribution_id: 'c2', source_type: 'membership', recipient_charter_id: 'charter-a', amount: 35, currency: 'USD' },
+      ],
+      error: null,
+    });
+    const existingReversalsChain = mockChain({ data: [], error: null });
+    const insertChain = mockChain();
+    const markChain = mockChain();
+
+    mockedCreateServerClient.mockReturnValue(
+      mockSupabase({
+        rlc_ledger_reconciliation_issues: [issueChain, closeChain],
+        rlc_split_ledger_entries: [entriesChain, existingReversalsChain, insertChain, markChain],
+      })
+    );
+
+    const outcome = await repairReconciliationIssue({ issueId: 'issue-1', action: 'record_reversal', actorId: 'admin-1' });
+
+    expect(outcome.success).toBe(true);
+    const inserted = insertChain.insert.mock.calls[0][0] as { reversal_of_id: string; amount: number }[];
+    expect(inserted).toEqual([
+      expect.objectContaining({ reversal_of_id: 'e1', amount: -10, status: 'reversed' }),
+      expect.objectContaining({ reversal_of_id: 'e2', amount: -5, status: 'reversed' }),
+    ]);
+    expect(markChain.in).toHaveBeenCalledWith('id', ['e1', 'e2']);
+    expect(closeChain.update).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'resolved', resolution: 'record_reversal', resolved_by_id: 'admin-1' })
+    );
+    expect(mockedReverseTransfer).not.toHaveBeenCalled();
+  });
+
+  it('reverses the surplus in Stripe when the charter was overpaid', async () => {
+    const issueChain = mockChain({ data: { ...driftIssue, details: { drift_cents: 700 } }, error: null });
+    const closeChain = mockChain();
+    mockedCreateServerClient.mockReturnValue(
+      mockSupabase({ rlc_ledger_reconciliation_issues: [issueChain, closeChain] })
+    );
+    mockedReverseTransfer.mockResolvedValue({ id: 'trr_1' });
+
+    const outcome = await repairReconciliationIssue({ issueId: 'issue-1', action: 'reverse_transfer', actorId: 'admin-1' });
+
+    expect(outcome.success).toBe(true);
+    expect(mockedReverseTransfer).toHaveBeenCalledWith('tr_1', 700);
+  });
+
+  it('refuses actions that do not fit the issue', async () => {
+    mockedCreateServerClient.mockReturnValue(
+      mockSupabase({ rlc_ledger_reconciliation_issues: [mockChain({ data: driftIssue, error: null })] })
+    );
+
+    const outcome = await repairReconciliationIssue({ issueId: 'issue-1', action: 'requeue', actorId: 'admin-1' });
+
+    expect(outcome).toMatchObject({ success: false, reason: 'conflict' });
+  });
+
+  it('leaves the issue open when Stripe rejects the reversal', async () => {
+    const issueChain = mockChain({ data: { ...driftIssue, details: { drift_cents: 700 } }, error: null });
+    const closeChain = mockChain();
+    mockedCreateServerClient.mockReturnValue(
+      mockSupabase({ rlc_ledger_reconciliation_issues: [issueChain, closeChain] })
+    );
+    mockedReverseTransfer.mockRejectedValue(new Error('Insufficient funds in account'));
+
+    const outcome = await repairReconciliationIssue({ issueId: 'issue-1', action: 'reverse_transfer', actorId: 'admin-1' });
+
+    expect(outcome).toEqual({ success: false, reason: 'failed', error: 'Insufficient funds in account' });
+    expect(closeChain.update).not.toHaveBeenCalled();
+  });
+});
@@ -44,6 +44,7 @@ vi.mock('@/lib/stripe/client', () => ({
   })),
   reverseTransfer: mockReverseTransfer,
   MEMBERSHIP_TIERS: [],
+  MEMBERSHIP_TERMS: [],
 }));
 
 vi.mock('@/lib/logger', () => ({
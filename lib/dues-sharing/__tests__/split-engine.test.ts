@@ -1,5 +1,13 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { calculateMembershipSplit, applyPercentageSplit } from '../split-engine';
+import {
+  calculateMembershipSplit,
+  applyPercentageSplit,
+  resolveNationalFeeSchedule,
+  computeNationalFeeCents,
+  calculateTermSplit,
+  sliceTermPayment,
+  type NationalFeeScheduleRow,
+} from '../split-engine';
 
 const NATIONAL_ID = 'national-charter-uuid';
 const STATE_ID = 'state-charter-uuid';
@@ -295,6 +303,191 @@ describe('applyPercentageSplit', () => {
   });
 });
 
+function feeRow(overrides: Partial<NationalFeeScheduleRow>): NationalFeeScheduleRow {
+  return {
+    id: 'fee-1',
+    source_type: 'membership',
+    membership_tier: null,
+    fee_type: 'flat',
+    flat_amount: 15,
+    percentage: null,
+    effective_from: '2020-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('resolveNationalFeeSchedule', () => {
+  const at = new Date('2026-06-01T00:00:00Z');
+
+  it('picks the latest row already in force', () => {
+    const schedules = [
+      feeRow({ id: 'old', effective_from: '2020-01-01T00:00:00Z' }),
+      feeRow({ id: 'new', effective_from: '2026-01-01T00:00:00Z', flat_amount: 20 }),
+      feeRow({ id: 'future', effective_from: '2027-01-01T00:00:00Z', flat_amount: 25 }),
+    ];
+
+    expect(resolveNationalFeeSchedule(schedules, { sourceType: 'membership', tier: null, at })?.id).toBe('new');
+  });
+
+  it('prefers a tier-specific row over the all-tiers row', () => {
+    const schedules = [
+      feeRow({ id: 'all', effective_from: '2026-05-01T00:00:00Z' }),
+      feeRow({ id: 'patron', membership_tier: 'patron', effective_from: '2025-01-01T00:00:00Z' }),
+    ];
+
+    expect(resolveNationalFeeSchedule(schedules, { sourceType: 'membership', tier: 'patron', at })?.id).toBe('patron');
+    expect(resolveNationalFeeSchedule(schedules, { sourceType: 'membership', tier: 'individual', at })?.id).toBe('all');
+  });
+
+  it('returns null when no row covers the source type', () => {
+    expect(resolveNationalFeeSchedule([feeRow({})], { sourceType: 'donation', tier: null, at })).toBeNull();
+  });
+});
+
+describe('computeNationalFeeCents', () => {
+  it('falls back to the $15 flat fee without a schedule', () => {
+    expect(computeNationalFeeCents(null, 4500)).toBe(1500);
+  });
+
+  it('applies a percentage fee with rounding', () => {
+    expect(computeNationalFeeCents(feeRow({ fee_type: 'percentage', flat_amount: null, percentage: 12.5 }), 4550)).toBe(569);
+  });
+
+  it('caps a flat fee at the payment total', () => {
+    expect(computeNationalFeeCents(feeRow({ flat_amount: 50 }), 3000)).toBe(3000);
+  });
+});
+
+describe('calculateMembershipSplit with a fee schedule', () => {
+  it('uses the schedule fee and records it in the snapshot', () => {
+    const schedule = feeRow({ id: 'fee-pct', fee_type: 'percentage', flat_amount: null, percentage: 10 });
+    const result = calculateMembershipSplit({
+      totalCents: 35000,
+      nationalCharterId: NATIONAL_ID,
+      stateCharterId: STATE_ID,
+      splitConfig: null,
+      splitRules: [],
+      feeSchedule: schedule,
+    });
+
+    expect(result.allocations[0].amountCents).toBe(3500);
+    expect(result.allocations[1].amountCents).toBe(31500);
+    expect(result.splitRuleSnapshot.national_fee).toMatchObject({
+      schedule_id: 'fee-pct',
+      fee_type: 'percentage',
+      percentage: 10,
+    });
+  });
+
+  it('records the fallback fee when no schedule applies', () => {
+    const result = calculateMembershipSplit({
+      totalCents: 4500,
+      nationalCharterId: NATIONAL_ID,
+      stateCharterId: STATE_ID,
+      splitConfig: null,
+      splitRules: [],
+    });
+
+    expect(result.splitRuleSnapshot.national_fee).toEqual({ schedule_id: null, fee_type: 'flat', flat_cents: 1500 });
+  });
+
+  it('only takes the fee increase on a top-up payment', () => {
+    const flat = calculateMembershipSplit({
+      totalCents: 3000,
+      nationalCharterId: NATIONAL_ID,
+      stateCharterId: STATE_ID,
+      splitConfig: null,
+      splitRules: [],
+      priorPaymentCents: 4500,
+    });
+    const percentage = calculateMembershipSplit({
+      totalCents: 3000,
+      nationalCharterId: NATIONAL_ID,
+      stateCharterId: STATE_ID,
+      splitConfig: null,
+      splitRules: [],
+      feeSchedule: feeRow({ fee_type: 'percentage', flat_amount: null, percentage: 10 }),
+      priorPaymentCents: 4500,
+    });
+
+    // Flat fee was already taken from the original payment
+    expect(flat.allocations.map((a) => a.amountCents)).toEqual([0, 3000]);
+    expect(flat.splitRuleSnapshot.national_fee).toMatchObject({ prior_payment_cents: 4500 });
+    expect(percentage.allocations.map((a) => a.amountCents)).toEqual([300, 2700]);
+  });
+});
+
+describe('sliceTermPayment', () => {
+  it('gives leftover pennies to the earliest years', () => {
+    expect(sliceTermPayment(10000, 3)).toEqual([3334, 3333, 3333]);
+    expect(sliceTermPayment(9000, 2)).toEqual([4500, 4500]);
+  });
+});
+
+describe('calculateTermSplit', () => {
+  const START = new Date('2026-03-01T00:00:00Z');
+  const base = {
+    totalCents: 9000,
+    nationalCharterId: NATIONAL_ID,
+    stateCharterId: STATE_ID,
+    splitRules: [],
+    startDate: START,
+  };
+
+  it('takes the national fee per year and releases later charter shares on their anniversaries', () => {
+    const result = calculateTermSplit({
+      ...base,
+      term: 'two_year',
+      splitConfig: { disbursement_model: 'state_managed', is_active: true, term_allocation: 'amortize' },
+    });
+
+    expect(result.allocations).toEqual([
+      { recipientCharterId: NATIONAL_ID, amountCents: 3000, isNational: true, releaseAt: null },
+      { recipientCharterId: STATE_ID, amountCents: 3000, isNational: false, releaseAt: null },
+      {
+        recipientCharterId: STATE_ID,
+        amountCents: 3000,
+        isNational: false,
+        releaseAt: new Date('2027-03-01T00:00:00Z'),
+      },
+    ]);
+    expect(result.splitRuleSnapshot.term).toEqual({
+      membership_term: 'two_year',
+      years: 2,
+      allocation: 'amortize',
+      slice_cents: [4500, 4500],
+    });
+  });
+
+  it('pays the whole charter share up front when configured to front-load', () => {
+    const result = calculateTermSplit({
+      ...base,
+      term: 'two_year',
+      splitConfig: { disbursement_model: 'state_managed', is_active: true, term_allocation: 'front_load' },
+    });
+
+    expect(result.allocations).toEqual([
+      { recipientCharterId: NATIONAL_ID, amountCents: 3000, isNational: true, releaseAt: null },
+      { recipientCharterId: STATE_ID, amountCents: 6000, isNational: false, releaseAt: null },
+    ]);
+  });
+
+  it('amortizes a lifetime payment over the configured number of years', () => {
+    const result = calculateTermSplit({
+      ...base,
+      totalCents: 90000,
+      term: 'lifetime',
+      splitConfig: null,
+    });
+
+    const stateEntries = result.allocations.filter((a) => !a.isNational);
+    expect(stateEntries).toHaveLength(10);
+    expect(stateEntries.filter((a) => a.releaseAt === null)).toHaveLength(1);
+    expect(stateEntries[9].releaseAt).toEqual(new Date('2035-03-01T00:00:00Z'));
+    expect(result.allocations.reduce((sum, a) => sum + a.amountCents, 0)).toBe(90000);
+  });
+});
+
 // ─── processDuesSplit integration tests ──────────────────────────────────────
 
 vi.mock('@/lib/supabase/server', () => ({
@@ -303,6 +496,7 @@ vi.mock('@/lib/supabase/server', () => ({
 
 vi.mock('../constants', () => ({
   NATIONAL_FLAT_FEE_CENTS: 1500,
+  LIFETIME_AMORTIZATION_YEARS: 10,
   getNationalCharterId: () => 'national-uuid',
 }));
 
@@ -400,6 +594,7 @@ describe('processDuesSplit', () => {
           amount: 45,
           currency: 'USD',
           contribution_type: 'membership',
+          created_at: '2026-06-01T00:00:00Z',
           contact_id: 'member-1',
           charter_id: 'county-charter-uuid',
         },
@@ -467,6 +662,7 @@ describe('processDuesSplit', () => {
           amount: 45,
           currency: 'USD',
           contribution_type: 'membership',
+          created_at: '2026-06-01T00:00:00Z',
           contact_id: 'member-1',
           charter_id: 'some-charter',
         },
@@ -499,6 +695,7 @@ describe('processDuesSplit', () => {
           amount: 100,
           currency: 'USD',
           contribution_type: 'donation',
+          created_at: '2026-06-01T00:00:00Z',
           contact_id: 'member-1',
           charter_id: 'some-charter',
         },
@@ -526,6 +723,7 @@ describe('processDuesSplit', () => {
           amount: 0,
           currency: 'USD',
           contribution_type: 'membership',
+          created_at: '2026-06-01T00:00:00Z',
           contact_id: 'member-1',
           charter_id: 'some-charter',
         },
@@ -552,6 +750,7 @@ describe('processDuesSplit', () => {
           amount: 45,
           currency: 'USD',
           contribution_type: 'membership',
+          created_at: '2026-06-01T00:00:00Z',
           contact_id: 'member-1',
           charter_id: null,
         },
@@ -592,6 +791,7 @@ describe('processDuesSplit', () => {
           amount: 45,
           currency: 'USD',
           contribution_type: 'membership',
+          created_at: '2026-06-01T00:00:00Z',
           contact_id: 'member-1',
           charter_id: null,
         },
@@ -629,6 +829,7 @@ describe('processDuesSplit', () => {
           amount: NaN,
           currency: 'USD',
           contribution_type: 'membership',
+          created_at: '2026-06-01T00:00:00Z',
           contact_id: 'member-1',
           charter_id: 'some-charter',
         },
@@ -661,6 +862,7 @@ describe('processDuesSplit', () => {
           amount: 45,
           currency: 'USD',
           contribution_type: 'membership',
+          created_at: '2026-06-01T00:00:00Z',
           contact_id: 'member-1',
           charter_id: 'state-charter-uuid',
         },
@@ -713,4 +915,188 @@ describe('processDuesSplit', () => {
     expect(nationalEntry.stripe_transfer_group_id).toBe(stateEntry.stripe_transfer_group_id);
     expect(nationalEntry.stripe_transfer_group_id).toBe('split_contrib-8');
   });
+
+  it('writes later years of an amortized two-year membership as scheduled entries', async () => {
+    const mockSb = createMockSupabase({
+      rlc_contributions: {
+        data: {
+          id: 'contrib-term',
+          amount: 90,
+          currency: 'USD',
+          contribution_type: 'membership',
+          created_at: '2026-06-01T00:00:00Z',
+          contact_id: 'member-1',
+          charter_id: 'state-charter-uuid',
+          metadata: { membership_term: 'two_year' },
+        },
+      },
+      rlc_split_ledger_entries: [
+        { data: [], error: null },
+      ],
+      'rlc_split_ledger_entries:insert': { data: null, error: null },
+      rlc_charters: [
+        { data: { id: 'state-charter-uuid', charter_level: 'state', parent_charter_id: 'national-uuid' } },
+      ],
+      rlc_charter_split_configs: { data: null, error: { code: 'PGRST116', message: 'not found' } },
+    });
+
+    const { createServerClient } = await import('@/lib/supabase/server');
+    (createServerClient as ReturnType<typeof vi.fn>).mockReturnValue(mockSb);
+
+    await importAndRun('contrib-term');
+
+    const insertChain = mockSb.from.mock.results.find(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (result: any, idx: number) =>
+        mockSb.from.mock.calls[idx][0] === 'rlc_split_ledger_entries' && result.value.insert.mock.calls.length > 0
+    );
+    const entries = insertChain!.value.insert.mock.calls[0][0];
+
+    expect(entries.map((e: { status: string; amount: number }) => [e.status, e.amount])).toEqual([
+      ['transferred', 30],
+      ['pending', 30],
+      ['scheduled', 30],
+    ]);
+    expect(entries[1].release_at).toBeNull();
+    // The second year is released a year after the payment, not after the split ran
+    expect(entries[2].release_at).toBe('2027-06-01T00:00:00.000Z');
+  });
+
+  it('splits a donation with source_type=donation when a fee schedule row covers donations', async () => {
+    const mockSb = createMockSupabase({
+      rlc_contributions: {
+        data: {
+          id: 'contrib-9',
+          amount: 100,
+          currency: 'USD',
+          contribution_type: 'donation',
+          created_at: '2026-06-01T00:00:00Z',
+          contact_id: null,
+          charter_id: 'state-charter-uuid',
+        },
+      },
+      rlc_national_fee_schedules: {
+        data: [feeRow({ id: 'fee-donation', source_type: 'donation', fee_type: 'percentage', flat_amount: null, percentage: 5 })],
+        error: null,
+      },
+      rlc_split_ledger_entries: [{ data: [], error: null }],
+      'rlc_split_ledger_entries:insert': { data: null, error: null },
+      rlc_charters: [
+        { data: { id: 'state-charter-uuid', charter_level: 'state', parent_charter_id: 'national-uuid' } },
+      ],
+      rlc_charter_split_configs: { data: null, error: { code: 'PGRST116', message: 'not found' } },
+    });
+
+    const { createServerClient } = await import('@/lib/supabase/server');
+    (createServerClient as ReturnType<typeof vi.fn>).mockReturnValue(mockSb);
+
+    await importAndRun('contrib-9');
+
+    const insertChain = mockSb.from.mock.results.find(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (result: any, idx: number) =>
+        mockSb.from.mock.calls[idx][0] === 'rlc_split_ledger_entries' && result.value.insert.mock.calls.length > 0
+    );
+    expect(insertChain).toBeDefined();
+
+    const entries = insertChain!.value.insert.mock.calls[0][0];
+    expect(entries).toHaveLength(2);
+    expect(entries.every((e: { source_type: string }) => e.source_type === 'donation')).toBe(true);
+    expect(entries.find((e: { recipient_charter_id: string }) => e.recipient_charter_id === 'national-uuid').amount).toBe(5);
+    expect(entries.find((e: { recipient_charter_id: string }) => e.recipient_charter_id === 'state-charter-uuid').amount).toBe(95);
+    expect(entries[0].split_rule_snapshot.national_fee.schedule_id).toBe('fee-donation');
+  });
+
+  it('charges the national fee for the gifted tier, not the purchaser\'s own tier', async () => {
+    const mockSb = createMockSupabase({
+      rlc_contributions: {
+        data: {
+          id: 'contrib-gift',
+          amount: 100,
+          currency: 'USD',
+          contribution_type: 'membership',
+          created_at: '2026-06-01T00:00:00Z',
+          contact_id: 'purchaser-1',
+          charter_id: 'state-charter-uuid',
+          metadata: { gift_membership_id: 'gift-1', membership_tier: 'patron', membership_term: 'annual' },
+        },
+      },
+      rlc_national_fee_schedules: {
+        data: [feeRow({ id: 'fee-all' }), feeRow({ id: 'fee-patron', membership_tier: 'patron', flat_amount: 40 })],
+        error: null,
+      },
+      rlc_contacts: { data: { membership_tier: 'individual' }, error: null },
+      rlc_split_ledger_entries: [{ data: [], error: null }],
+      'rlc_split_ledger_entries:insert': { data: null, error: null },
+      rlc_charters: [
+        { data: { id: 'state-charter-uuid', charter_level: 'state', parent_charter_id: 'national-uuid' } },
+      ],
+      rlc_charter_split_configs: { data: null, error: { code: 'PGRST116', message: 'not found' } },
+    });
+
+    const { createServerClient } = await import('@/lib/supabase/server');
+    (createServerClient as ReturnType<typeof vi.fn>).mockReturnValue(mockSb);
+
+    await importAndRun('contrib-gift');
+
+    const insertChain = mockSb.from.mock.results.find(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (result: any, idx: number) =>
+        mockSb.from.mock.calls[idx][0] === 'rlc_split_ledger_entries' && result.value.insert.mock.calls.length > 0
+    );
+    const entries = insertChain!.value.insert.mock.calls[0][0];
+    expect(entries[0].split_rule_snapshot.national_fee.schedule_id).toBe('fee-patron');
+    expect(entries.find((e: { recipient_charter_id: string }) => e.recipient_charter_id === 'national-uuid').amount).toBe(40);
+    expect(mockSb.from).not.toHaveBeenCalledWith('rlc_contacts');
+  });
+
+  it('uses the fee schedule in force when the contribution was made, not when the split runs', async () => {
+    const mockSb = createMockSupabase({
+      rlc_contributions: {
+        data: {
+          id: 'contrib-10',
+          amount: 100,
+          currency: 'USD',
+          contribution_type: 'donation',
+          created_at: '2026-03-01T00:00:00Z',
+          contact_id: null,
+          charter_id: 'state-charter-uuid',
+        },
+      },
+      rlc_national_fee_schedules: {
+        data: [
+          feeRow({ id: 'fee-old', source_type: 'donation', fee_type: 'percentage', flat_amount: null, percentage: 5 }),
+          feeRow({
+            id: 'fee-new',
+            source_type: 'donation',
+            fee_type: 'percentage',
+            flat_amount: null,
+            percentage: 10,
+            effective_from: '2026-04-01T00:00:00Z',
+          }),
+        ],
+        error: null,
+      },
+      rlc_split_ledger_entries: [{ data: [], error: null }],
+      'rlc_split_ledger_entries:insert': { data: null, error: null },
+      rlc_charters: [
+        { data: { id: 'state-charter-uuid', charter_level: 'state', parent_charter_id: 'national-uuid' } },
+      ],
+      rlc_charter_split_configs: { data: null, error: { code: 'PGRST116', message: 'not found' } },
+    });
+
+    const { createServerClient } = await import('@/lib/supabase/server');
+    (createServerClient as ReturnType<typeof vi.fn>).mockReturnValue(mockSb);
+
+    await importAndRun('contrib-10');
+
+    const insertChain = mockSb.from.mock.results.find(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (result: any, idx: number) =>
+        mockSb.from.mock.calls[idx][0] === 'rlc_split_ledger_entries' && result.value.insert.mock.calls.length > 0
+    );
+    const entries = insertChain!.value.insert.mock.calls[0][0];
+    expect(entries[0].split_rule_snapshot.national_fee.schedule_id).toBe('fee-old');
+    expect(entries.find((e: { recipient_charter_id: string }) => e.recipient_charter_id === 'national-uuid').amount).toBe(5);
+  });
 });
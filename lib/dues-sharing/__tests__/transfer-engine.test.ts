@@ -6,6 +6,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 
 vi.mock('@/lib/stripe/client', () => ({
   createTransfer: vi.fn(),
+  findTransferForLedgerEntry: vi.fn(),
 }));
 
 vi.mock('@/lib/supabase/server', () => ({
@@ -17,7 +18,7 @@ vi.mock('@/lib/logger', () => ({
 }));
 
 import { executeTransfer, executeTransfersForContribution } from '../transfer-engine';
-import { createTransfer } from '@/lib/stripe/client';
+import { createTransfer, findTransferForLedgerEntry } from '@/lib/stripe/client';
 import { createServerClient } from '@/lib/supabase/server';
 import { logger } from '@/lib/logger';
 
@@ -72,6 +73,7 @@ function mockSupabase(chains: Record<string, ReturnType<typeof mockChain>>) {
 // ----------------------------------------------------------------
 
 const mockedCreateTransfer = createTransfer as ReturnType<typeof vi.fn>;
+const mockedFindTransfer = findTransferForLedgerEntry as ReturnType<typeof vi.fn>;
 const mockedCreateServerClient = createServerClient as ReturnType<typeof vi.fn>;
 const mockedLogger = logger as {
   info: ReturnType<typeof vi.fn>;
@@ -168,6 +170,86 @@ describe('executeTransfer', () => {
     expect(ledgerChain.eq).toHaveBeenCalledWith('id', 'entry-fail');
   });
 
+  it('records the failed attempt and schedules the next retry with backoff', async () => {
+    const stripeError = Object.assign(new Error('Payouts not enabled'), { code: 'account_invalid' });
+    mockedFindTransfer.mockResolvedValue(null);
+    mockedCreateTransfer.mockRejectedValue(stripeError);
+
+    const ledgerChain = mockChain({ data: null, error: null });
+    const attemptsChain = mockChain({ data: null, error: null });
+    const supabase = mockSupabase({
+      rlc_split_ledger_entries: ledgerChain,
+      rlc_transfer_attempts: attemptsChain,
+    });
+    mockedCreateServerClient.mockReturnValue(supabase);
+
+    const before = Date.now();
+    await expect(
+      executeTransfer({
+        ledgerEntryId: 'entry-retry',
+        amountCents: 1000,
+        destinationAccountId: 'acct_abc',
+        retryCount: 2,
+      })
+    ).rejects.toThrow('Payouts not enabled');
+
+    // Retries use a fresh idempotency key so Stripe doesn't replay the old error
+    expect(mockedCreateTransfer).toHaveBeenCalledWith(
+      expect.objectContaining({ idempotencyKey: 'ledger-entry-retry-retry-2' })
+    );
+
+    // Third attempt failed → next retry in 4 hours
+    const update = ledgerChain.update.mock.calls[0][0] as Record<string, unknown>;
+    expect(update).toMatchObject({ status: 'failed', retry_count: 3 });
+    const delay = new Date(update.next_retry_at as string).getTime() - before;
+    expect(delay).toBeGreaterThanOrEqual(4 * 60 * 60 * 1000);
+    expect(delay).toBeLessThan(4 * 60 * 60 * 1000 + 60 * 1000);
+
+    expect(attemptsChain.insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        ledger_entry_id: 'entry-retry',
+        attempt_number: 3,
+        status: 'failed',
+        error_code: 'account_invalid',
+        error_message: 'Payouts not enabled',
+      })
+    );
+  });
+
+  it('links a transfer an earlier attempt already sent instead of paying again on retry', async () => {
+    mockedFindTransfer.mockResolvedValue({ id: 'tr_lost_response' });
+
+    const ledgerChain = mockChain({ data: null, error: null });
+    const attemptsChain = mockChain({ data: null, error: null });
+    mockedCreateServerClient.mockReturnValue(mockSupabase({
+      rlc_split_ledger_entries: ledgerChain,
+      rlc_transfer_attempts: attemptsChain,
+    }));
+
+    await executeTransfer({
+      ledgerEntryId: 'entry-lost',
+      amountCents: 1000,
+      destinationAccountId: 'acct_abc',
+      transferGroup: 'tg-1',
+      retryCount: 1,
+      entryCreatedAt: '2026-03-01T00:00:00Z',
+    });
+
+    expect(mockedFindTransfer).toHaveBeenCalledWith({
+      ledgerEntryId: 'entry-lost',
+      destinationAccountId: 'acct_abc',
+      transferGroup: 'tg-1',
+      createdSince: new Date('2026-03-01T00:00:00Z'),
+    });
+    expect(mockedCreateTransfer).not.toHaveBeenCalled();
+    expect(attemptsChain.insert).toHaveBeenCalledWith(
+      expect.objectContaining({ attempt_number: 2, status: 'succeeded', stripe_transfer_id: 'tr_lost_response' })
+    );
+    expect(ledgerChain.update).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'transferred', stripe_transfer_id: 'tr_lost_response', retry_count: 2 })
+    );
+  });
+
   it('logs RECONCILIATION NEEDED and throws when Stripe succeeds but DB update fails', async () => {
     const transferId = 'tr_test_recon';
     mockedCreateTransfer.mockResolvedValue({ id: transferId });
@@ -0,0 +1,288 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ----------------------------------------------------------------
+// Mocks — must be declared before the module under test is imported
+// ----------------------------------------------------------------
+
+vi.mock('../transfer-engine', () => ({
+  executeTransfer: vi.fn(),
+}));
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import { runTransferRetries, releaseParkedEntries, releaseScheduledEntries, getParkReason } from '../transfer-retry';
+import { computeNextRetryAt, getRetryDelayMs, MAX_TRANSFER_ATTEMPTS } from '../transfer-attempts';
+import { executeTransfer } from '../transfer-engine';
+import { createServerClient } from '@/lib/supabase/server';
+
+// ----------------------------------------------------------------
+// Mock Supabase chain builder
+// ----------------------------------------------------------------
+
+type ChainResult = { data?: unknown; error?: unknown };
+
+function mockChain(terminalResult: ChainResult = { data: null, error: null }) {
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  const methods = ['select', 'eq', 'is', 'not', 'in', 'gt', 'lt', 'lte', 'or', 'limit', 'order', 'update', 'insert'];
+  for (const m of methods) {
+    chain[m] = vi.fn().mockReturnValue(chain);
+  }
+  (chain as Record<string, unknown>)['then'] = (resolve: (v: ChainResult) => void) =>
+    resolve(terminalResult);
+  return chain;
+}
+
+/**
+ * Build a mock Supabase client where each `.from(table)` call takes the next
+ * chain from that table's queue (the last chain repeats once the queue is drained).
+ */
+function mockSupabase(queues: Record<string, ReturnType<typeof mockChain>[]>) {
+  const calls: Record<string, number> = {};
+  return {
+    from: vi.fn((table: string) => {
+      const queue = queues[table];
+      if (!queue || queue.length === 0) return mockChain();
+      const index = calls[table] ?? 0;
+      calls[table] = index + 1;
+      return queue[Math.min(index, queue.length - 1)];
+    }),
+  };
+}
+
+const mockedExecuteTransfer = executeTransfer as ReturnType<typeof vi.fn>;
+const mockedCreateServerClient = createServerClient as ReturnType<typeof vi.fn>;
+
+const NOW = new Date(Date.UTC(2026, 2, 1, 12));
+const HOUR = 60 * 60 * 1000;
+
+function dueEntry(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'e1',
+    amount: 30,
+    recipient_charter_id: 'charter-a',
+    stripe_transfer_group_id: 'tg-1',
+    status: 'failed',
+    retry_count: 2,
+    created_at: '2026-02-27T12:00:00Z',
+    ...overrides,
+  };
+}
+
+function activeAccount(overrides: Record<string, unknown> = {}) {
+  return {
+    charter_id: 'charter-a',
+    stripe_account_id: 'acct_aaa',
+    status: 'active',
+    payouts_enabled: true,
+    ...overrides,
+  };
+}
+
+// ----------------------------------------------------------------
+// Pure functions
+// ----------------------------------------------------------------
+
+describe('getRetryDelayMs / computeNextRetryAt', () => {
+  it('doubles from one hour and caps at 24 hours', () => {
+    expect(getRetryDelayMs(1)).toBe(1 * HOUR);
+    expect(getRetryDelayMs(2)).toBe(2 * HOUR);
+    expect(getRetryDelayMs(4)).toBe(8 * HOUR);
+    expect(getRetryDelayMs(6)).toBe(24 * HOUR);
+    expect(getRetryDelayMs(7)).toBe(24 * HOUR);
+  });
+
+  it('stops scheduling once attempts are exhausted', () => {
+    expect(computeNextRetryAt(1, NOW)).toEqual(new Date(NOW.getTime() + HOUR));
+    expect(computeNextRetryAt(MAX_TRANSFER_ATTEMPTS, NOW)).toBeNull();
+  });
+});
+
+describe('getParkReason', () => {
+  it('parks when the account is missing, inactive or has payouts disabled', () => {
+    expect(getParkReason(undefined)).toMatch(/no connected Stripe account/);
+    expect(getParkReason(activeAccount({ payouts_enabled: false }))).toMatch(/payouts disabled/);
+    expect(getParkReason(activeAccount({ status: 'disabled' }))).toMatch(/disabled/);
+    expect(getParkReason(activeAccount())).toBeNull();
+  });
+});
+
+// ----------------------------------------------------------------
+// runTransferRetries
+// ----------------------------------------------------------------
+
+describe('runTransferRetries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('only selects unparked entries whose backoff has elapsed', async () => {
+    const dueChain = mockChain({ data: [], error: null });
+    mockedCreateServerClient.mockReturnValue(mockSupabase({ rlc_split_ledger_entries: [dueChain] }));
+
+    const result = await runTransferRetries(NOW);
+
+    expect(result.entriesDue).toBe(0);
+    expect(dueChain.in).toHaveBeenCalledWith('status', ['failed', 'pending']);
+    expect(dueChain.is).toHaveBeenCalledWith('parked_at', null);
+    expect(dueChain.lt).toHaveBeenCalledWith('retry_count', MAX_TRANSFER_ATTEMPTS);
+    expect(dueChain.or).toHaveBeenCalledWith(`next_retry_at.is.null,next_retry_at.lte.${NOW.toISOString()}`);
+    expect(mockedExecuteTransfer).not.toHaveBeenCalled();
+  });
+
+  it('claims due entries and retries them with their retry count', async () => {
+    const dueChain = mockChain({ data: [dueEntry()], error: null });
+    const claimChain = mockChain({ data: [{ id: 'e1' }], error: null });
+    mockedCreateServerClient.mockReturnValue(mockSupabase({
+      rlc_split_ledger_entries: [dueChain, claimChain],
+      rlc_charter_split_configs: [mockChain({ data: [], error: null })],
+      rlc_charter_stripe_accounts: [mockChain({ data: [activeAccount()], error: null })],
+    }));
+    mockedExecuteTransfer.mockResolvedValue(undefined);
+
+    const result = await runTransferRetries(NOW);
+
+    expect(claimChain.update).toHaveBeenCalledWith({ status: 'processing' });
+    expect(claimChain.in).toHaveBeenCalledWith('status', ['failed', 'pending']);
+    expect(mockedExecuteTransfer).toHaveBeenCalledWith({
+      ledgerEntryId: 'e1',
+      amountCents: 3000,
+      destinationAccountId: 'acct_aaa',
+      transferGroup: 'tg-1',
+      retryCount: 2,
+      entryCreatedAt: '2026-02-27T12:00:00Z',
+    });
+    expect(result.succeeded).toBe(1);
+    expect(result.errors).toHaveLength(0);
+  });
+
+  it('skips entries another run already claimed', async () => {
+    mockedCreateServerClient.mockReturnValue(mockSupabase({
+      rlc_split_ledger_entries: [mockChain({ data: [dueEntry()], error: null }), mockChain({ data: [], error: null })],
+      rlc_charter_split_configs: [mockChain({ data: [], error: null })],
+      rlc_charter_stripe_accounts: [mockChain({ data: [activeAccount()], error: null })],
+    }));
+
+    const result = await runTransferRetries(NOW);
+
+    expect(mockedExecuteTransfer).not.toHaveBeenCalled();
+    expect(result.succeeded).toBe(0);
+  });
+
+  it('counts a failed retry as an error without stopping the run', async () => {
+    const entries = [dueEntry(), dueEntry({ id: 'e2', retry_count: 0, status: 'pending' })];
+    mockedCreateServerClient.mockReturnValue(mockSupabase({
+      rlc_split_ledger_entries: [
+        mockChain({ data: entries, error: null }),
+        mockChain({ data: [{ id: 'e1' }, { id: 'e2' }], error: null }),
+      ],
+      rlc_charter_split_configs: [mockChain({ data: [], error: null })],
+      rlc_charter_stripe_accounts: [mockChain({ data: [activeAccount()], error: null })],
+    }));
+    mockedExecuteTransfer
+      .mockRejectedValueOnce(new Error('Stripe rate limit'))
+      .mockResolvedValueOnce(undefined);
+
+    const result = await runTransferRetries(NOW);
+
+    expect(mockedExecuteTransfer).toHaveBeenCalledTimes(2);
+    expect(result.failed).toBe(1);
+    expect(result.succeeded).toBe(1);
+    expect(result.errors[0]).toContain('Entry e1: attempt 3 failed');
+  });
+
+  it('parks entries when the charter has payouts disabled and records the attempt', async () => {
+    const parkChain = mockChain({ data: [{ id: 'e1' }], error: null });
+    const attemptsChain = mockChain({ data: null, error: null });
+    mockedCreateServerClient.mockReturnValue(mockSupabase({
+      rlc_split_ledger_entries: [mockChain({ data: [dueEntry()], error: null }), parkChain],
+      rlc_charter_split_configs: [mockChain({ data: [], error: null })],
+      rlc_charter_stripe_accounts: [mockChain({ data: [activeAccount({ payouts_enabled: false })], error: null })],
+      rlc_transfer_attempts: [attemptsChain],
+    }));
+
+    const result = await runTransferRetries(NOW);
+
+    expect(parkChain.update).toHaveBeenCalledWith({ parked_at: NOW.toISOString() });
+    expect(attemptsChain.insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        ledger_entry_id: 'e1',
+        attempt_number: 3,
+        status: 'parked',
+        destination_account_id: 'acct_aaa',
+      })
+    );
+    expect(mockedExecuteTransfer).not.toHaveBeenCalled();
+    expect(result.parked).toBe(1);
+  });
+
+  it('hands failed entries for batched charters back to the payout cron', async () => {
+    const releaseChain = mockChain({ data: [{ id: 'e1' }], error: null });
+    mockedCreateServerClient.mockReturnValue(mockSupabase({
+      rlc_split_ledger_entries: [
+        mockChain({ data: [dueEntry(), dueEntry({ id: 'e2', status: 'pending' })], error: null }),
+        releaseChain,
+      ],
+      rlc_charter_split_configs: [
+        mockChain({ data: [{ charter_id: 'charter-a', payout_cadence: 'weekly' }], error: null }),
+      ],
+      rlc_charter_stripe_accounts: [mockChain({ data: [activeAccount()], error: null })],
+    }));
+
+    const result = await runTransferRetries(NOW);
+
+    expect(releaseChain.update).toHaveBeenCalledWith({ status: 'pending', next_retry_at: null });
+    expect(releaseChain.in).toHaveBeenCalledWith('id', ['e1']);
+    expect(mockedExecuteTransfer).not.toHaveBeenCalled();
+    expect(result.handedToPayoutBatch).toBe(1);
+  });
+
+  it('throws when the due-entry query fails', async () => {
+    mockedCreateServerClient.mockReturnValue(mockSupabase({
+      rlc_split_ledger_entries: [mockChain({ data: null, error: { message: 'timeout' } })],
+    }));
+
+    await expect(runTransferRetries(NOW)).rejects.toThrow('Database error fetching due entries: timeout');
+  });
+});
+
+// ----------------------------------------------------------------
+// releaseParkedEntries
+// ----------------------------------------------------------------
+
+describe('releaseParkedEntries', () => {
+  it("clears parked_at and the backoff for the charter's parked entries", async () => {
+    const releaseChain = mockChain({ data: [{ id: 'e1' }, { id: 'e2' }], error: null });
+    const supabase = mockSupabase({ rlc_split_ledger_entries: [releaseChain] });
+
+    const released = await releaseParkedEntries(supabase as never, 'charter-a');
+
+    expect(released).toBe(2);
+    expect(releaseChain.update).toHaveBeenCalledWith({ parked_at: null, next_retry_at: null });
+    expect(releaseChain.eq).toHaveBeenCalledWith('recipient_charter_id', 'charter-a');
+    expect(releaseChain.not).toHaveBeenCalledWith('parked_at', 'is', null);
+  });
+});
+
+// ----------------------------------------------------------------
+// releaseScheduledEntries
+// ----------------------------------------------------------------
+
+describe('releaseScheduledEntries', () => {
+  it('moves scheduled entries whose release date has passed to pending', async () => {
+    const releaseChain = mockChain({ data: [{ id: 'e1' }], error: null });
+    const supabase = mockSupabase({ rlc_split_ledger_entries: [releaseChain] });
+
+    const released = await releaseScheduledEntries(supabase as never, NOW);
+
+    expect(released).toBe(1);
+    expect(releaseChain.update).toHaveBeenCalledWith({ status: 'pending', next_retry_at: null });
+    expect(releaseChain.eq).toHaveBeenCalledWith('status', 'scheduled');
+    expect(releaseChain.lte).toHaveBeenCalledWith('release_at', NOW.toISOString());
+  });
+});
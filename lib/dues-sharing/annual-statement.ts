@@ -0,0 +1,471 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { escapeCsvField } from '@/lib/csv';
+import { createPdfWriter } from '@/lib/pdf/writer';
+import { escapeHtml, sendEmail } from '@/lib/email/client';
+import { logger } from '@/lib/logger';
+import type { SplitLedgerStatus, SplitSourceType } from '@/types';
+
+// Amounts follow the convention documented in split-engine.ts:
+// dollars in the DB, integer cents everywhere else.
+
+type ServerClient = ReturnType<typeof createServerClient>;
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const SOURCE_LABELS: Record<SplitSourceType, string> = {
+  membership: 'Membership',
+  donation: 'Donation',
+  event_registration: 'Event registration',
+};
+
+// ─── Pure types ──────────────────────────────────────────────────────────────
+
+export interface StatementLedgerRow {
+  id: string;
+  contribution_id: string;
+  source_type: SplitSourceType;
+  amount: number;
+  status: SplitLedgerStatus | 'processing';
+  stripe_transfer_id: string | null;
+  payout_batch_id: string | null;
+  reversal_of_id: string | null;
+  transferred_at: string | null;
+  split_rule_snapshot: Record<string, unknown> | null;
+  created_at: string;
+  contribution: { amount: number; created_at: string } | null;
+}
+
+export interface StatementLine {
+  date: string;
+  entryId: string;
+  contributionId: string;
+  sourceType: SplitSourceType;
+  /** Full payment amount the share came from; null for reversals. */
+  paymentCents: number | null;
+  amountCents: number;
+  status: string;
+  transferId: string | null;
+  isReversal: boolean;
+  policy: string;
+}
+
+export interface StatementMonth {
+  month: number;
+  label: string;
+  incomeCents: number;
+  reversalCents: number;
+  netCents: number;
+  transferredCents: number;
+  entryCount: number;
+}
+
+export interface AnnualStatement {
+  charterId: string;
+  charterName: string;
+  year: number;
+  generatedAt: string;
+  months: StatementMonth[];
+  totals: Omit<StatementMonth, 'month' | 'label'>;
+  policies: { policy: string; entryCount: number }[];
+  lines: StatementLine[];
+}
+
+// ─── Pure functions ──────────────────────────────────────────────────────────
+
+export function formatCents(cents: number): string {
+  const abs = Math.abs(cents) / 100;
+  const formatted = abs.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return `${cents < 0 ? '-' : ''}$${formatted}`;
+}
+
+function describeFee(fee: unknown): string | null {
+  if (!fee || typeof fee !== 'object') return null;
+  const f = fee as { fee_type?: string; flat_cents?: number; percentage?: number };
+  if (f.fee_type === 'percentage' && f.percentage !== undefined) return `${f.percentage}% national fee`;
+  if (f.flat_cents !== undefined) return `${formatCents(f.flat_cents)} national fee`;
+  return null;
+}
+
+/**
+ * One-line, human-readable summary of the split_rule_snapshot a ledger entry
+ * was calculated under, for treasurers reconciling against their bylaws.
+ */
+export function describeSplitPolicy(snapshot: Record<string, unknown> | null): string {
+  if (!snapshot) return 'Not recorded';
+
+  switch (snapshot.reason) {
+    case 'full_refund':
+      return 'Full refund';
+    case 'partial_refund':
+      return typeof snapshot.refunded_cents === 'number'
+        ? `Partial refund of ${formatCents(snapshot.refunded_cents)}`
+        : 'Partial refund';
+    case 'no_state_charter':
+      return 'No state charter; all to National';
+    case 'amount_lte_national_fee':
+      return 'Payment at or below national fee; all to National';
+  }
+
+  const fee = describeFee(snapshot.national_fee);
+  const parts: string[] = [];
+
+  if (snapshot.model === 'national_managed') {
+    const rules = Array.isArray(snapshot.rules) ? (snapshot.rules as { percentage: number }[]) : [];
+    parts.push(
+      rules.length > 0
+        ? `National managed, ${rules.length} rule${rules.length === 1 ? '' : 's'} (${rules.map((r) => `${Number(r.percentage)}%`).join(' / ')})`
+        : 'National managed, no active rules'
+    );
+  } else if (snapshot.model === 'state_managed') {
+    parts.push('State managed');
+  } else {
+    parts.push('No split config');
+  }
+
+  if (fee) parts.push(fee);
+  return parts.join('; ');
+}
+
+/**
+ * Build a charter's statement for one calendar year (UTC) from its ledger entries.
+ * Income is the positive shares; reversals are the negative entries written on refunds.
+ */
+export function buildAnnualStatement(params: {
+  charterId: string;
+  charterName: string;
+  year: number;
+  rows: StatementLedgerRow[];
+  now?: Date;
+}): AnnualStatement {
+  const { charterId, charterName, year, rows } = params;
+
+  const months: StatementMonth[] = MONTH_LABELS.map((label, i) => ({
+    month: i + 1,
+    label,
+    incomeCents: 0,
+    reversalCents: 0,
+    netCents: 0,
+    transferredCents: 0,
+    entryCount: 0,
+  }));
+
+  const policyCounts = new Map<string, number>();
+  const lines: StatementLine[] = [];
+
+  const sorted = [...rows].sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  for (const row of sorted) {
+    const created = new Date(row.created_at);
+    if (created.getUTCFullYear() !== year) continue;
+
+    const amountCents = Math.round(Number(row.amount) * 100);
+    const isReversal = row.reversal_of_id !== null || amountCents < 0;
+    const bucket = months[created.getUTCMonth()];
+
+    if (isReversal) {
+      bucket.reversalCents += Math.abs(amountCents);
+    } else {
+      bucket.incomeCents += amountCents;
+      if (row.stripe_transfer_id) bucket.transferredCents += amountCents;
+    }
+    bucket.netCents += amountCents;
+    bucket.entryCount++;
+
+    const policy = describeSplitPolicy(row.split_rule_snapshot);
+    if (!isReversal) policyCounts.set(policy, (policyCounts.get(policy) ?? 0) + 1);
+
+    lines.push({
+      date: row.created_at,
+      entryId: row.id,
+      contributionId: row.contribution_id,
+      sourceType: row.source_type,
+      paymentCents: !isReversal && row.contribution ? Math.round(Number(row.contribution.amount) * 100) : null,
+      amountCents,
+      status: row.status,
+      transferId: row.stripe_transfer_id,
+      isReversal,
+      policy,
+    });
+  }
+
+  const totals = months.reduce(
+    (t, m) => ({
+      incomeCents: t.incomeCents + m.incomeCents,
+      reversalCents: t.reversalCents + m.reversalCents,
+      netCents: t.netCents + m.netCents,
+      transferredCents: t.transferredCents + m.transferredCents,
+      entryCount: t.entryCount + m.entryCount,
+    }),
+    { incomeCents: 0, reversalCents: 0, netCents: 0, transferredCents: 0, entryCount: 0 }
+  );
+
+  const policies = [...policyCounts.entries()]
+    .map(([policy, entryCount]) => ({ policy, entryCount }))
+    .sort((a, b) => b.entryCount - a.entryCount);
+
+  return {
+    charterId,
+    charterName,
+    year,
+    generatedAt: (params.now ?? new Date()).toISOString(),
+    months,
+    totals,
+    policies,
+    lines,
+  };
+}
+
+/** Entry-level CSV for import into the charter's bookkeeping software. */
+export function annualStatementToCsv(statement: AnnualStatement): string {
+  const header = [
+    'Date', 'Month', 'Entry ID', 'Contribution ID', 'Source', 'Payment Amount', 'Charter Share',
+    'Type', 'Status', 'Transfer ID', 'Split Policy',
+  ].map(escapeCsvField).join(',');
+
+  // Amounts are formatted here, not user input, so they skip escapeCsvField —
+  // its formula guard would prefix negative reversals with a quote
+  const rows = statement.lines.map((line) =>
+    [
+      escapeCsvField(line.date.slice(0, 10)),
+      escapeCsvField(MONTH_LABELS[new Date(line.date).getUTCMonth()]),
+      escapeCsvField(line.entryId),
+      escapeCsvField(line.contributionId),
+      escapeCsvField(SOURCE_LABELS[line.sourceType] ?? line.sourceType),
+      line.paymentCents !== null ? (line.paymentCents / 100).toFixed(2) : '',
+      (line.amountCents / 100).toFixed(2),
+      escapeCsvField(line.isReversal ? 'Reversal' : 'Income'),
+      escapeCsvField(line.status),
+      escapeCsvField(line.transferId || ''),
+      escapeCsvField(line.policy),
+    ].join(',')
+  );
+
+  return [header, ...rows].join('\n');
+}
+
+export function annualStatementFilename(statement: AnnualStatement, extension: 'pdf' | 'csv'): string {
+  const slug = statement.charterName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `dues-statement-${slug || statement.charterId}-${statement.year}.${extension}`;
+}
+
+// ─── Rendering ───────────────────────────────────────────────────────────────
+
+export async function renderAnnualStatementPdf(statement: AnnualStatement): Promise<Uint8Array> {
+  const pdf = await createPdfWriter({
+    documentTitle: `${statement.charterName} Dues-Sharing Statement ${statement.year}`,
+    footerText: `${statement.charterName} - ${statement.year} dues-sharing statement - generated ${statement.generatedAt.slice(0, 10)}`,
+  });
+
+  pdf.title(
+    `Annual Dues-Sharing Statement ${statement.year}`,
+    `${statement.charterName}  |  January 1 - December 31, ${statement.year} (UTC)`
+  );
+
+  pdf.heading('Summary');
+  pdf.keyValues([
+    ['Dues-share income', formatCents(statement.totals.incomeCents)],
+    ['Refund reversals', formatCents(-statement.totals.reversalCents)],
+    ['Net income', formatCents(statement.totals.netCents)],
+    ['Transferred to Stripe account', formatCents(statement.totals.transferredCents)],
+    ['Ledger entries', String(statement.totals.entryCount)],
+  ]);
+
+  pdf.heading('Monthly Totals');
+  pdf.table(
+    [
+      { header: 'Month', width: 0.2 },
+      { header: 'Income', width: 0.16, align: 'right' },
+      { header: 'Reversals', width: 0.16, align: 'right' },
+      { header: 'Net', width: 0.16, align: 'right' },
+      { header: 'Transferred', width: 0.18, align: 'right' },
+      { header: 'Entries', width: 0.14, align: 'right' },
+    ],
+    [
+      ...statement.months.map((m) => [
+        `${m.label} ${statement.year}`,
+        formatCents(m.incomeCents),
+        formatCents(-m.reversalCents),
+        formatCents(m.netCents),
+        formatCents(m.transferredCents),
+        String(m.entryCount),
+      ]),
+      [
+        'Total',
+        formatCents(statement.totals.incomeCents),
+        formatCents(-statement.totals.reversalCents),
+        formatCents(statement.totals.netCents),
+        formatCents(statement.totals.transferredCents),
+        String(statement.totals.entryCount),
+      ],
+    ],
+    { boldLastRow: true }
+  );
+
+  pdf.heading('Split Policies Applied');
+  if (statement.policies.length === 0) {
+    pdf.paragraph('No dues-share income this year.', { muted: true });
+  } else {
+    pdf.table(
+      [
+        { header: 'Policy', width: 0.85 },
+        { header: 'Entries', width: 0.15, align: 'right' },
+      ],
+      statement.policies.map((p) => [p.policy, String(p.entryCount)])
+    );
+  }
+
+  pdf.heading('Ledger Detail');
+  if (statement.lines.length === 0) {
+    pdf.paragraph('No ledger entries this year.', { muted: true });
+  } else {
+    pdf.table(
+      [
+        { header: 'Date', width: 0.11 },
+        { header: 'Source', width: 0.13 },
+        { header: 'Payment', width: 0.1, align: 'right' },
+        { header: 'Share', width: 0.1, align: 'right' },
+        { header: 'Status', width: 0.11 },
+        { header: 'Transfer ID', width: 0.22 },
+        { header: 'Policy', width: 0.23 },
+      ],
+      statement.lines.map((line) => [
+        line.date.slice(0, 10),
+        line.isReversal ? 'Reversal' : SOURCE_LABELS[line.sourceType] ?? line.sourceType,
+        line.paymentCents !== null ? formatCents(line.paymentCents) : '',
+        formatCents(line.amountCents),
+        line.status,
+        line.transferId || '-',
+        line.policy,
+      ])
+    );
+  }
+
+  pdf.spacer();
+  pdf.paragraph(
+    'Amounts are this charter\'s share of payments received by the Republican Liberty Caucus after the national fee. ' +
+    'Dates are when the share was recorded; transfers to the charter\'s Stripe account may settle later.',
+    { muted: true, size: 8 }
+  );
+
+  return pdf.save();
+}
+
+// ─── Database functions ──────────────────────────────────────────────────────
+
+/**
+ * Load a charter's ledger entries for a calendar year and build its statement.
+ * Returns null when the charter does not exist.
+ */
+export async function fetchAnnualStatement(
+  supabase: ServerClient,
+  charterId: string,
+  year: number
+): Promise<AnnualStatement | null> {
+  const { data: charter, error: charterError } = await supabase
+    .from('rlc_charters')
+    .select('id, name')
+    .eq('id', charterId)
+    .single();
+
+  if (charterError) {
+    if (charterError.code === 'PGRST116') return null;
+    throw new Error(`Database error fetching charter: ${charterError.message}`);
+  }
+
+  const start = new Date(Date.UTC(year, 0, 1)).toISOString();
+  const end = new Date(Date.UTC(year + 1, 0, 1)).toISOString();
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase as any)
+    .from('rlc_split_ledger_entries')
+    .select(`
+      id, contribution_id, source_type, amount, status, stripe_transfer_id, payout_batch_id,
+      reversal_of_id, transferred_at, split_rule_snapshot, created_at,
+      contribution:rlc_contributions(amount, created_at)
+    `)
+    .eq('recipient_charter_id', charterId)
+    .gte('created_at', start)
+    .lt('created_at', end)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Database error fetching ledger entries: ${error.message}`);
+  }
+
+  return buildAnnualStatement({
+    charterId,
+    charterName: (charter as { name: string }).name,
+    year,
+    rows: (data || []) as StatementLedgerRow[],
+  });
+}
+
+/** Email addresses of the charter's active treasurer(s). */
+export async function findCharterTreasurerEmails(supabase: ServerClient, charterId: string): Promise<string[]> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase as any)
+    .from('rlc_organizational_positions')
+    .select('member:rlc_contacts!rlc_organizational_positions_contact_id_fkey(email)')
+    .eq('charter_id', charterId)
+    .eq('title', 'treasurer')
+    .eq('is_active', true);
+
+  if (error) {
+    throw new Error(`Database error fetching treasurer: ${error.message}`);
+  }
+
+  const emails = ((data || []) as { member: { email: string | null } | null }[])
+    .map((row) => row.member?.email)
+    .filter((email): email is string => !!email);
+  return [...new Set(emails)];
+}
+
+export type EmailStatementOutcome =
+  | { success: true; recipients: string[] }
+  | { success: false; reason: 'not_found' | 'no_treasurer'; error: string };
+
+/** Generate the PDF and CSV statement and email both to the charter's treasurer. */
+export async function emailAnnualStatement(params: {
+  charterId: string;
+  year: number;
+}): Promise<EmailStatementOutcome> {
+  const { charterId, year } = params;
+  const supabase = createServerClient();
+
+  const statement = await fetchAnnualStatement(supabase, charterId, year);
+  if (!statement) {
+    return { success: false, reason: 'not_found', error: 'Charter not found' };
+  }
+
+  const recipients = await findCharterTreasurerEmails(supabase, charterId);
+  if (recipients.length === 0) {
+    return {
+      success: false,
+      reason: 'no_treasurer',
+      error: 'Charter has no active treasurer with an email address',
+    };
+  }
+
+  const pdf = await renderAnnualStatementPdf(statement);
+
+  await sendEmail({
+    to: recipients,
+    subject: `${statement.charterName}: ${year} dues-sharing statement`,
+    html: `
+      <p>Attached is the ${year} dues-sharing statement for ${escapeHtml(statement.charterName)}.</p>
+      <p>
+        Dues-share income: <strong>${formatCents(statement.totals.incomeCents)}</strong><br />
+        Refund reversals: <strong>${formatCents(-statement.totals.reversalCents)}</strong><br />
+        Net income: <strong>${formatCents(statement.totals.netCents)}</strong>
+      </p>
+      <p>The CSV contains the same entries for import into your bookkeeping software.</p>
+    `,
+    attachments: [
+      { filename: annualStatementFilename(statement, 'pdf'), content: Buffer.from(pdf) },
+      { filename: annualStatementFilename(statement, 'csv'), content: Buffer.from(annualStatementToCsv(statement)) },
+    ],
+  });
+
+  logger.info(`emailAnnualStatement: Sent ${year} statement for charter ${charterId} to ${recipients.length} recipient(s)`);
+  return { success: true, recipients };
+}
@@ -1,6 +1,15 @@
-/** National flat fee per membership payment (in cents). All tiers pay this. */
+/**
+ * Fallback national fee per membership payment (in cents), used only when no
+ * rlc_national_fee_schedules row applies. Board policy lives in that table.
+ */
 export const NATIONAL_FLAT_FEE_CENTS = 1500;
 
+/**
+ * Years over which a lifetime membership's charter share is released when the
+ * charter amortizes multi-year payments.
+ */
+export const LIFETIME_AMORTIZATION_YEARS = 10;
+
 /** National charter ID — set via NATIONAL_CHARTER_ID env var */
 export function getNationalCharterId(): string {
   const id = process.env.NATIONAL_CHARTER_ID;
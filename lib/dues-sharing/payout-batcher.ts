@@ -0,0 +1,380 @@
+import crypto from 'crypto';
+import { createTransfer, findTransferForPayoutBatch } from '@/lib/stripe/client';
+import { createServerClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import type { PayoutCadence } from '@/types';
+
+// Amounts follow the convention documented in split-engine.ts:
+// dollars in the DB, integer cents everywhere else.
+
+type ServerClient = ReturnType<typeof createServerClient>;
+
+// ─── Pure functions ──────────────────────────────────────────────────────────
+
+/**
+ * Start of the payout period containing `now` (UTC).
+ * daily → midnight today, weekly → Monday midnight, monthly → the 1st.
+ * Returns null for per_payment, which has no period.
+ */
+export function getPayoutPeriodStart(cadence: PayoutCadence, now: Date): Date | null {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+  switch (cadence) {
+    case 'daily':
+      return start;
+    case 'weekly': {
+      // getUTCDay: Sunday = 0 … Saturday = 6; shift so Monday = 0
+      const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+      start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+      return start;
+    }
+    case 'monthly':
+      start.setUTCDate(1);
+      return start;
+    default:
+      return null;
+  }
+}
+
+/**
+ * A charter is due for a payout when it batches and has not been paid out
+ * since the start of the current period.
+ */
+export function isPayoutDue(cadence: PayoutCadence, lastPayoutAt: Date | null, now: Date): boolean {
+  const periodStart = getPayoutPeriodStart(cadence, now);
+  if (!periodStart) return false;
+  if (!lastPayoutAt) return true;
+  return lastPayoutAt.getTime() < periodStart.getTime();
+}
+
+// ─── Database functions ──────────────────────────────────────────────────────
+
+/**
+ * Return the subset of `charterIds` whose split config opts into batched payouts.
+ * Entries for these charters are left `pending` for the payout cron instead of
+ * being transferred as each payment lands.
+ */
+export async function getBatchedCharterIds(
+  supabase: ServerClient,
+  charterIds: string[]
+): Promise<Set<string>> {
+  if (charterIds.length === 0) return new Set();
+
+  const { data, error } = await supabase
+    .from('rlc_charter_split_configs')
+    .select('charter_id, payout_cadence')
+    .in('charter_id', charterIds);
+
+  if (error) {
+    logger.error('getBatchedCharterIds: Failed to fetch split configs:', error);
+    throw new Error(`Database error fetching split configs: ${error.message}`);
+  }
+
+  const rows = (data || []) as { charter_id: string; payout_cadence: PayoutCadence | null }[];
+  return new Set(
+    rows
+      .filter((r) => r.payout_cadence && r.payout_cadence !== 'per_payment')
+      .map((r) => r.charter_id)
+  );
+}
+
+export type PayoutBatchOutcome =
+  | { status: 'empty' }
+  | { status: 'below_minimum'; amountCents: number; entryCount: number }
+  | { status: 'transferred'; batchId: string; transferId: string; amountCents: number; entryCount: number }
+  | { status: 'failed'; batchId: string; amountCents: number; entryCount: number };
+
+/**
+ * Aggregate all pending ledger entries for one charter into a single Stripe transfer.
+ *
+ * Uses the same atomic claim pattern as the per-payment engine. If the total is
+ * below the charter's minimum, or Stripe rejects the transfer, the claimed entries
+ * go back to `pending` so the next scheduled run picks them up again. A failed
+ * call is first checked against Stripe, since the transfer may have gone through.
+ */
+export async function executePayoutBatch(params: {
+  charterId: string;
+  cadence: PayoutCadence;
+  destinationAccountId: string;
+  minimumPayoutCents: number;
+}): Promise<PayoutBatchOutcome> {
+  const { charterId, cadence, destinationAccountId, minimumPayoutCents } = params;
+  const supabase = createServerClient();
+
+  // Atomic claim: UPDATE status to 'processing' WHERE status='pending', then SELECT
+  const { data: claimed, error: claimError } = await supabase
+    .from('rlc_split_ledger_entries')
+    .update({ status: 'processing' } as never)
+    .eq('recipient_charter_id', charterId)
+    .eq('status', 'pending')
+    .is('payout_batch_id', null)
+    .select('id, amount');
+
+  if (claimError) {
+    logger.error(`executePayoutBatch: Failed to claim entries for charter ${charterId}:`, claimError);
+    throw new Error(`Database error claiming entries: ${claimError.message}`);
+  }
+
+  const entries = (claimed || []) as { id: string; amount: number }[];
+  if (entries.length === 0) return { status: 'empty' };
+
+  const entryIds = entries.map((e) => e.id);
+  const amountCents = entries.reduce((sum, e) => sum + Math.round(Number(e.amount) * 100), 0);
+
+  if (amountCents <= 0 || amountCents < minimumPayoutCents) {
+    await releaseEntries(supabase, entryIds);
+    logger.info(
+      `executePayoutBatch: Charter ${charterId} balance $${(amountCents / 100).toFixed(2)} ` +
+      `is below minimum $${(minimumPayoutCents / 100).toFixed(2)}, deferring`
+    );
+    return { status: 'below_minimum', amountCents, entryCount: entries.length };
+  }
+
+  // Record the batch before calling Stripe so the idempotency key is stable
+  const batchId = crypto.randomUUID();
+  const transferGroupId = `payout_${batchId}`;
+
+  const { error: batchInsertError } = await supabase
+    .from('rlc_payout_batches')
+    .insert({
+      id: batchId,
+      recipient_charter_id: charterId,
+      cadence,
+      amount: amountCents / 100,
+      currency: 'USD',
+      entry_count: entries.length,
+      status: 'processing',
+      stripe_transfer_group_id: transferGroupId,
+    } as never);
+
+  if (batchInsertError) {
+    await releaseEntries(supabase, entryIds);
+    logger.error(`executePayoutBatch: Failed to create batch for charter ${charterId}:`, batchInsertError);
+    throw new Error(`Database error creating payout batch: ${batchInsertError.message}`);
+  }
+
+  const { error: linkError } = await supabase
+    .from('rlc_split_ledger_entries')
+    .update({ payout_batch_id: batchId } as never)
+    .in('id', entryIds);
+
+  if (linkError) {
+    await releaseEntries(supabase, entryIds);
+    await supabase
+      .from('rlc_payout_batches')
+      .update({ status: 'failed', error_message: `Failed to link entries: ${linkError.message}` } as never)
+      .eq('id', batchId);
+    throw new Error(`Database error linking entries to batch: ${linkError.message}`);
+  }
+
+  // Step 1: Attempt Stripe transfer
+  let transferId: string;
+  try {
+    const transfer = await createTransfer({
+      amount: amountCents,
+      destinationAccountId,
+      transferGroup: transferGroupId,
+      description: `Dues payout - batch ${batchId} (${entries.length} entries)`,
+      idempotencyKey: `payout-batch-${batchId}`,
+    });
+    transferId = transfer.id;
+  } catch (stripeError) {
+    logger.error(`executePayoutBatch: Stripe transfer failed for batch ${batchId}:`, stripeError);
+    const errorMessage = stripeError instanceof Error ? stripeError.message : String(stripeError);
+
+    // A timeout or dropped connection can fail after Stripe created the transfer.
+    // Releasing the entries then would pay them again under a new batch.
+    let existing;
+    try {
+      existing = await findTransferForPayoutBatch({ transferGroup: transferGroupId, destinationAccountId });
+    } catch (lookupError) {
+      // Unknown whether money moved — keep the entries on this batch for reconciliation
+      logger.error(
+        `RECONCILIATION NEEDED: Could not check Stripe for a transfer in batch ${batchId}; entries left linked:`,
+        lookupError
+      );
+      await supabase
+        .from('rlc_payout_batches')
+        .update({ status: 'failed', error_message: `${errorMessage} (transfer status unknown)` } as never)
+        .eq('id', batchId);
+      return { status: 'failed', batchId, amountCents, entryCount: entries.length };
+    }
+
+    if (!existing) {
+      // Stripe transfer failed — release entries for the next run, keep the batch as a record
+      await releaseEntries(supabase, entryIds);
+      await supabase
+        .from('rlc_payout_batches')
+        .update({ status: 'failed', error_message: errorMessage } as never)
+        .eq('id', batchId);
+      return { status: 'failed', batchId, amountCents, entryCount: entries.length };
+    }
+
+    logger.warn(`executePayoutBatch: Linking transfer ${existing.id} already sent for batch ${batchId}`);
+    transferId = existing.id;
+  }
+
+  // Step 2: Stripe succeeded — mark entries and batch transferred
+  const transferredAt = new Date().toISOString();
+
+  const { error: entriesUpdateError } = await supabase
+    .from('rlc_split_ledger_entries')
+    .update({
+      status: 'transferred',
+      stripe_transfer_id: transferId,
+      stripe_transfer_group_id: transferGroupId,
+      transferred_at: transferredAt,
+    } as never)
+    .in('id', entryIds);
+
+  if (entriesUpdateError) {
+    // CRITICAL: Money was sent but DB update failed. Log transfer ID for reconciliation.
+    logger.error(
+      `RECONCILIATION NEEDED: Transfer ${transferId} succeeded for batch ${batchId} but ledger update failed:`,
+      entriesUpdateError
+    );
+    throw entriesUpdateError;
+  }
+
+  const { error: batchUpdateError } = await supabase
+    .from('rlc_payout_batches')
+    .update({
+      status: 'transferred',
+      stripe_transfer_id: transferId,
+      transferred_at: transferredAt,
+    } as never)
+    .eq('id', batchId);
+
+  if (batchUpdateError) {
+    logger.error(
+      `RECONCILIATION NEEDED: Transfer ${transferId} succeeded but batch ${batchId} update failed:`,
+      batchUpdateError
+    );
+    throw batchUpdateError;
+  }
+
+  logger.info(
+    `executePayoutBatch: Transferred $${(amountCents / 100).toFixed(2)} to ${destinationAccountId} ` +
+    `(batch ${batchId}, ${entries.length} entries, transfer ${transferId})`
+  );
+
+  return { status: 'transferred', batchId, transferId, amountCents, entryCount: entries.length };
+}
+
+async function releaseEntries(supabase: ServerClient, entryIds: string[]): Promise<void> {
+  const { error } = await supabase
+    .from('rlc_split_ledger_entries')
+    .update({ status: 'pending', payout_batch_id: null } as never)
+    .in('id', entryIds);
+
+  if (error) {
+    logger.error(`releaseEntries: Failed to release ${entryIds.length} entries back to pending:`, error);
+  }
+}
+
+export interface ScheduledPayoutResult {
+  chartersDue: number;
+  batchesTransferred: number;
+  batchesFailed: number;
+  deferredBelowMinimum: number;
+  entriesTransferred: number;
+  amountTransferredCents: number;
+  errors: string[];
+}
+
+/**
+ * Run batched payouts for every charter whose cadence is due.
+ * Called by the dues-payouts cron. Charters without an active Stripe
+ * account are skipped — their entries stay pending until they onboard.
+ */
+export async function runScheduledPayouts(now: Date = new Date()): Promise<ScheduledPayoutResult> {
+  const supabase = createServerClient();
+  const result: ScheduledPayoutResult = {
+    chartersDue: 0,
+    batchesTransferred: 0,
+    batchesFailed: 0,
+    deferredBelowMinimum: 0,
+    entriesTransferred: 0,
+    amountTransferredCents: 0,
+    errors: [],
+  };
+
+  const { data: configsData, error: configsError } = await supabase
+    .from('rlc_charter_split_configs')
+    .select('charter_id, payout_cadence, minimum_payout, last_payout_at')
+    .neq('payout_cadence', 'per_payment');
+
+  if (configsError) {
+    logger.error('runScheduledPayouts: Failed to fetch split configs:', configsError);
+    throw new Error(`Database error fetching split configs: ${configsError.message}`);
+  }
+
+  const configs = ((configsData || []) as {
+    charter_id: string;
+    payout_cadence: PayoutCadence;
+    minimum_payout: number | null;
+    last_payout_at: string | null;
+  }[]).filter((c) =>
+    isPayoutDue(c.payout_cadence, c.last_payout_at ? new Date(c.last_payout_at) : null, now)
+  );
+
+  result.chartersDue = configs.length;
+  if (configs.length === 0) return result;
+
+  const { data: accountsData, error: accountsError } = await supabase
+    .from('rlc_charter_stripe_accounts')
+    .select('charter_id, stripe_account_id')
+    .in('charter_id', configs.map((c) => c.charter_id))
+    .eq('status', 'active');
+
+  if (accountsError) {
+    logger.error('runScheduledPayouts: Failed to fetch Stripe accounts:', accountsError);
+    throw new Error(`Database error fetching Stripe accounts: ${accountsError.message}`);
+  }
+
+  const accountMap = new Map(
+    ((accountsData || []) as { charter_id: string; stripe_account_id: string }[])
+      .map((a) => [a.charter_id, a.stripe_account_id])
+  );
+
+  for (const config of configs) {
+    const stripeAccountId = accountMap.get(config.charter_id);
+    if (!stripeAccountId) continue;
+
+    try {
+      const outcome = await executePayoutBatch({
+        charterId: config.charter_id,
+        cadence: config.payout_cadence,
+        destinationAccountId: stripeAccountId,
+        minimumPayoutCents: Math.round(Number(config.minimum_payout || 0) * 100),
+      });
+
+      if (outcome.status === 'transferred') {
+        result.batchesTransferred++;
+        result.entriesTransferred += outcome.entryCount;
+        result.amountTransferredCents += outcome.amountCents;
+      } else if (outcome.status === 'failed') {
+        result.batchesFailed++;
+        result.errors.push(`Charter ${config.charter_id}: transfer failed for batch ${outcome.batchId}`);
+      } else if (outcome.status === 'below_minimum') {
+        result.deferredBelowMinimum++;
+      }
+
+      // Below-minimum balances keep rolling forward, so only a real attempt closes the period
+      if (outcome.status === 'transferred' || outcome.status === 'empty') {
+        const { error: stampError } = await supabase
+          .from('rlc_charter_split_configs')
+          .update({ last_payout_at: now.toISOString() } as never)
+          .eq('charter_id', config.charter_id);
+
+        if (stampError) {
+          result.errors.push(`Charter ${config.charter_id}: failed to record payout time: ${stampError.message}`);
+        }
+      }
+    } catch (err) {
+      result.errors.push(`Charter ${config.charter_id}: ${err}`);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,649 @@
+import { listTransfersForAccount, getTransfer, reverseTransfer } from '@/lib/stripe/client';
+import { createServerClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import type Stripe from 'stripe';
+import type {
+  LedgerReconciliationIssue,
+  ReconciliationIssueType,
+  ReconciliationRepairAction,
+} from '@/types';
+
+// Amounts follow the convention documented in split-engine.ts:
+// dollars in the DB, integer cents everywhere else.
+
+type ServerClient = ReturnType<typeof createServerClient>;
+
+/** How far back the daily job compares Stripe transfers against the ledger. */
+export const RECONCILIATION_LOOKBACK_DAYS = 90;
+
+// ─── Pure types ──────────────────────────────────────────────────────────────
+
+export interface StripeTransferSnapshot {
+  id: string;
+  amountCents: number;
+  amountReversedCents: number;
+  destination: string | null;
+  description: string | null;
+  created: Date;
+}
+
+export interface LedgerTransferRow {
+  id: string;
+  amount: number;
+  status: string;
+  stripe_transfer_id: string;
+}
+
+export interface LedgerReversalRow {
+  id: string;
+  amount: number;
+  reversal_of_id: string;
+}
+
+export interface ReconciliationFinding {
+  issueType: ReconciliationIssueType;
+  stripeTransferId: string;
+  ledgerEntryIds: string[];
+  ledgerCents: number | null;
+  stripeCents: number | null;
+  details: Record<string, unknown>;
+}
+
+export type TransferLinkTarget = { kind: 'entry' | 'batch'; id: string };
+
+// ─── Pure functions ──────────────────────────────────────────────────────────
+
+export function toTransferSnapshot(transfer: Stripe.Transfer): StripeTransferSnapshot {
+  return {
+    id: transfer.id,
+    amountCents: transfer.amount,
+    amountReversedCents: transfer.amount_reversed,
+    destination: typeof transfer.destination === 'string' ? transfer.destination : transfer.destination?.id ?? null,
+    description: transfer.description,
+    created: new Date(transfer.created * 1000),
+  };
+}
+
+/**
+ * Recover the ledger entry or payout batch a transfer was sent for from the
+ * description the transfer engine and payout batcher write on every transfer.
+ */
+export function parseTransferDescription(description: string | null): TransferLinkTarget | null {
+  if (!description) return null;
+  const entry = description.match(/^Dues split - entry (\S+)$/);
+  if (entry) return { kind: 'entry', id: entry[1] };
+  const batch = description.match(/^Dues payout - batch (\S+) \(/);
+  if (batch) return { kind: 'batch', id: batch[1] };
+  return null;
+}
+
+/**
+ * Diff one connected account's Stripe transfers against the ledger entries
+ * that reference them.
+ *
+ * - missing_transfer: the ledger points at a transfer Stripe doesn't have for this account
+ * - amount_drift: Stripe's net (amount − reversed) differs from the ledger's net
+ *   (entries + their reversal entries)
+ * - orphan_transfer: Stripe sent money the ledger has no record of
+ */
+export function diffLedgerAgainstStripe(params: {
+  stripeAccountId: string;
+  transfers: StripeTransferSnapshot[];
+  entries: LedgerTransferRow[];
+  reversals: LedgerReversalRow[];
+  orphanSince: Date;
+}): ReconciliationFinding[] {
+  const { stripeAccountId, transfers, entries, reversals, orphanSince } = params;
+  const findings: ReconciliationFinding[] = [];
+
+  const transferMap = new Map(transfers.map((t) => [t.id, t]));
+
+  const reversalCentsByEntry = new Map<string, number>();
+  for (const r of reversals) {
+    const cents = Math.round(Number(r.amount) * 100);
+    reversalCentsByEntry.set(r.reversal_of_id, (reversalCentsByEntry.get(r.reversal_of_id) ?? 0) + cents);
+  }
+
+  const entriesByTransfer = new Map<string, LedgerTransferRow[]>();
+  for (const e of entries) {
+    const group = entriesByTransfer.get(e.stripe_transfer_id) ?? [];
+    group.push(e);
+    entriesByTransfer.set(e.stripe_transfer_id, group);
+  }
+
+  for (const [transferId, group] of entriesByTransfer) {
+    const ledgerCents = group.reduce(
+      (sum, e) => sum + Math.round(Number(e.amount) * 100) + (reversalCentsByEntry.get(e.id) ?? 0),
+      0
+    );
+    const ledgerEntryIds = group.map((e) => e.id);
+    const transfer = transferMap.get(transferId);
+
+    if (!transfer || transfer.destination !== stripeAccountId) {
+      findings.push({
+        issueType: 'missing_transfer',
+        stripeTransferId: transferId,
+        ledgerEntryIds,
+        ledgerCents,
+        stripeCents: null,
+        details: transfer
+          ? { reason: 'wrong_destination', destination: transfer.destination }
+          : { reason: 'not_found' },
+      });
+      continue;
+    }
+
+    const stripeCents = transfer.amountCents - transfer.amountReversedCents;
+    if (stripeCents !== ledgerCents) {
+      findings.push({
+        issueType: 'amount_drift',
+        stripeTransferId: transferId,
+        ledgerEntryIds,
+        ledgerCents,
+        stripeCents,
+        details: {
+          stripe_amount_cents: transfer.amountCents,
+          stripe_reversed_cents: transfer.amountReversedCents,
+          drift_cents: stripeCents - ledgerCents,
+        },
+      });
+    }
+  }
+
+  for (const transfer of transfers) {
+    if (entriesByTransfer.has(transfer.id)) continue;
+    if (transfer.destination !== stripeAccountId) continue;
+    if (transfer.created.getTime() < orphanSince.getTime()) continue;
+
+    findings.push({
+      issueType: 'orphan_transfer',
+      stripeTransferId: transfer.id,
+      ledgerEntryIds: [],
+      ledgerCents: null,
+      stripeCents: transfer.amountCents - transfer.amountReversedCents,
+      details: {
+        description: transfer.description,
+        link_target: parseTransferDescription(transfer.description),
+      },
+    });
+  }
+
+  return findings;
+}
+
+/** Repair actions that make sense for an issue, most useful first. */
+export function getRepairActions(
+  issue: Pick<LedgerReconciliationIssue, 'issue_type' | 'details'>
+): ReconciliationRepairAction[] {
+  switch (issue.issue_type) {
+    case 'missing_transfer':
+      return ['requeue', 'dismiss'];
+    case 'amount_drift':
+      return Number(issue.details.drift_cents) < 0
+        ? ['record_reversal', 'dismiss']
+        : ['reverse_transfer', 'dismiss'];
+    case 'orphan_transfer':
+      return issue.details.link_target ? ['link_transfer', 'dismiss'] : ['dismiss'];
+    default:
+      return ['dismiss'];
+  }
+}
+
+// ─── Database functions ──────────────────────────────────────────────────────
+
+/**
+ * Pull Stripe transfers for one connected account and diff them against the ledger.
+ * Ledger transfers outside the Stripe listing window are fetched one by one so
+ * old entries aren't mistaken for missing transfers.
+ * Returns the findings plus every transfer ID that was examined.
+ */
+export async function reconcileCharterAccount(params: {
+  charterId: string;
+  stripeAccountId: string;
+  since: Date;
+}): Promise<{ findings: ReconciliationFinding[]; examinedTransferIds: Set<string> }> {
+  const { charterId, stripeAccountId, since } = params;
+  const supabase = createServerClient();
+
+  const transfers = (await listTransfersForAccount(stripeAccountId, since)).map(toTransferSnapshot);
+  const stripeTransferIds = transfers.map((t) => t.id);
+
+  const ledgerColumns = 'id, amount, status, stripe_transfer_id';
+  const { data: windowed, error: windowError } = await supabase
+    .from('rlc_split_ledger_entries')
+    .select(ledgerColumns)
+    .eq('recipient_charter_id', charterId)
+    .is('reversal_of_id', null)
+    .not('stripe_transfer_id', 'is', null)
+    .gte('transferred_at', since.toISOString());
+
+  if (windowError) {
+    logger.error(`reconcileCharterAccount: Failed to fetch ledger entries for charter ${charterId}:`, windowError);
+    throw new Error(`Database error fetching ledger entries: ${windowError.message}`);
+  }
+
+  const entryMap = new Map(((windowed || []) as LedgerTransferRow[]).map((e) => [e.id, e]));
+
+  // Entries stamped before the window that still reference a listed transfer
+  if (stripeTransferIds.length > 0) {
+    const { data: referenced, error: referencedError } = await supabase
+      .from('rlc_split_ledger_entries')
+      .select(ledgerColumns)
+      .is('reversal_of_id', null)
+      .in('stripe_transfer_id', stripeTransferIds);
+
+    if (referencedError) {
+      logger.error(`reconcileCharterAccount: Failed to fetch referenced entries for charter ${charterId}:`, referencedError);
+      throw new Error(`Database error fetching ledger entries: ${referencedError.message}`);
+    }
+    for (const e of (referenced || []) as LedgerTransferRow[]) entryMap.set(e.id, e);
+  }
+
+  const entries = [...entryMap.values()];
+
+  // Ledger transfers Stripe didn't list — confirm individually
+  const listed = new Set(stripeTransferIds);
+  const unlisted = [...new Set(entries.map((e) => e.stripe_transfer_id))].filter((id) => !listed.has(id));
+  for (const transferId of unlisted) {
+    const transfer = await getTransfer(transferId);
+    if (transfer) transfers.push(toTransferSnapshot(transfer));
+  }
+
+  let reversals: LedgerReversalRow[] = [];
+  if (entries.length > 0) {
+    const { data: reversalData, error: reversalError } = await supabase
+      .from('rlc_split_ledger_entries')
+      .select('id, amount, reversal_of_id')
+      .in('reversal_of_id', entries.map((e) => e.id));
+
+    if (reversalError) {
+      logger.error(`reconcileCharterAccount: Failed to fetch reversal entries for charter ${charterId}:`, reversalError);
+      throw new Error(`Database error fetching reversal entries: ${reversalError.message}`);
+    }
+    reversals = (reversalData || []) as LedgerReversalRow[];
+  }
+
+  const findings = diffLedgerAgainstStripe({
+    stripeAccountId,
+    transfers,
+    entries,
+    reversals,
+    orphanSince: since,
+  });
+
+  return {
+    findings,
+    examinedTransferIds: new Set([...stripeTransferIds, ...unlisted]),
+  };
+}
+
+export interface ReconciliationRunResult {
+  accountsChecked: number;
+  issuesOpened: number;
+  issuesStillOpen: number;
+  issuesCleared: number;
+  errors: string[];
+}
+
+/**
+ * Reconcile every connected charter account and persist the findings.
+ * New mismatches open an issue; ones already open are refreshed; open issues
+ * for transfers that now match are closed automatically.
+ */
+export async function runReconciliation(
+  now: Date = new Date(),
+  lookbackDays: number = RECONCILIATION_LOOKBACK_DAYS
+): Promise<ReconciliationRunResult> {
+  const supabase = createServerClient();
+  const since = new Date(now.getTime() - lookbackDays * 24 * 60 * 60 * 1000);
+  const result: ReconciliationRunResult = {
+    accountsChecked: 0,
+    issuesOpened: 0,
+    issuesStillOpen: 0,
+    issuesCleared: 0,
+    errors: [],
+  };
+
+  const { data: accountsData, error: accountsError } = await supabase
+    .from('rlc_charter_stripe_accounts')
+    .select('charter_id, stripe_account_id')
+    .neq('status', 'not_started');
+
+  if (accountsError) {
+    logger.error('runReconciliation: Failed to fetch Stripe accounts:', accountsError);
+    throw new Error(`Database error fetching Stripe accounts: ${accountsError.message}`);
+  }
+
+  const accounts = (accountsData || []) as { charter_id: string; stripe_account_id: string }[];
+
+  for (const account of accounts) {
+    try {
+      const { findings, examinedTransferIds } = await reconcileCharterAccount({
+        charterId: account.charter_id,
+        stripeAccountId: account.stripe_account_id,
+        since,
+      });
+      const counts = await persistFindings(supabase, account, findings, examinedTransferIds, now);
+      result.issuesOpened += counts.opened;
+      result.issuesStillOpen += counts.stillOpen;
+      result.issuesCleared += counts.cleared;
+      result.accountsChecked++;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      logger.error(`runReconciliation: Failed for charter ${account.charter_id}:`, err);
+      result.errors.push(`${account.charter_id}: ${message}`);
+    }
+  }
+
+  return result;
+}
+
+async function persistFindings(
+  supabase: ServerClient,
+  account: { charter_id: string; stripe_account_id: string },
+  findings: ReconciliationFinding[],
+  examinedTransferIds: Set<string>,
+  now: Date
+): Promise<{ opened: number; stillOpen: number; cleared: number }> {
+  const counts = { opened: 0, stillOpen: 0, cleared: 0 };
+  const nowIso = now.toISOString();
+
+  const { data: openData, error: openError } = await supabase
+    .from('rlc_ledger_reconciliation_issues')
+    .select('id, issue_type, stripe_transfer_id')
+    .eq('charter_id', account.charter_id)
+    .eq('status', 'open');
+
+  if (openError) {
+    throw new Error(`Database error fetching open issues: ${openError.message}`);
+  }
+
+  const openIssues = (openData || []) as { id: string; issue_type: string; stripe_transfer_id: string | null }[];
+  const openByKey = new Map(openIssues.map((i) => [`${i.issue_type}:${i.stripe_transfer_id}`, i.id]));
+  const seenKeys = new Set<string>();
+
+  for (const finding of findings) {
+    const key = `${finding.issueType}:${finding.stripeTransferId}`;
+    seenKeys.add(key);
+
+    const row = {
+      ledger_entry_ids: finding.ledgerEntryIds,
+      ledger_amount: finding.ledgerCents === null ? null : finding.ledgerCents / 100,
+      stripe_amount: finding.stripeCents === null ? null : finding.stripeCents / 100,
+      details: finding.details,
+      last_seen_at: nowIso,
+    };
+
+    const existingId = openByKey.get(key);
+    if (existingId) {
+      await supabase
+        .from('rlc_ledger_reconciliation_issues')
+        .update(row as never)
+        .eq('id', existingId);
+      counts.stillOpen++;
+      continue;
+    }
+
+    const { error: insertError } = await supabase
+      .from('rlc_ledger_reconciliation_issues')
+      .insert({
+        ...row,
+        charter_id: account.charter_id,
+        stripe_account_id: account.stripe_account_id,
+        issue_type: finding.issueType,
+        stripe_transfer_id: finding.stripeTransferId,
+        detected_at: nowIso,
+      } as never);
+
+    if (insertError) {
+      throw new Error(`Database error recording issue for ${finding.stripeTransferId}: ${insertError.message}`);
+    }
+    counts.opened++;
+    logger.warn(
+      `Reconciliation: ${finding.issueType} on transfer ${finding.stripeTransferId} ` +
+      `for charter ${account.charter_id}`
+    );
+  }
+
+  // Only close issues whose transfer was actually re-examined this run
+  const clearedIds = openIssues
+    .filter((i) => !seenKeys.has(`${i.issue_type}:${i.stripe_transfer_id}`))
+    .filter((i) => i.stripe_transfer_id && examinedTransferIds.has(i.stripe_transfer_id))
+    .map((i) => i.id);
+
+  if (clearedIds.length > 0) {
+    await supabase
+      .from('rlc_ledger_reconciliation_issues')
+      .update({ status: 'resolved', resolution: 'cleared', resolved_at: nowIso } as never)
+      .in('id', clearedIds);
+    counts.cleared = clearedIds.length;
+  }
+
+  return counts;
+}
+
+export type RepairOutcome =
+  | { success: true; status: 'resolved' | 'dismissed'; message: string }
+  | { success: false; reason: 'not_found' | 'conflict' | 'failed'; error: string };
+
+/**
+ * Apply a one-click repair to an open reconciliation issue and close it.
+ * Money-moving actions (reverse_transfer) call Stripe before touching the DB.
+ */
+export async function repairReconciliationIssue(params: {
+  issueId: string;
+  action: ReconciliationRepairAction;
+  actorId: string;
+}): Promise<RepairOutcome> {
+  const { issueId, action, actorId } = params;
+  const supabase = createServerClient();
+
+  const { data, error } = await supabase
+    .from('rlc_ledger_reconciliation_issues')
+    .select('*')
+    .eq('id', issueId)
+    .single();
+
+  if (error || !data) {
+    return { success: false, reason: 'not_found', error: 'Issue not found' };
+  }
+
+  const issue = data as LedgerReconciliationIssue;
+  if (issue.status !== 'open') {
+    return { success: false, reason: 'conflict', error: `Issue is already ${issue.status}` };
+  }
+  if (!getRepairActions(issue).includes(action)) {
+    return { success: false, reason: 'conflict', error: `Action ${action} does not apply to a ${issue.issue_type} issue` };
+  }
+
+  let message: string;
+  try {
+    message = await applyRepair(supabase, issue, action);
+  } catch (repairError) {
+    logger.error(`repairReconciliationIssue: ${action} failed for issue ${issueId}:`, repairError);
+    return { success: false, reason: 'failed', error: repairError instanceof Error ? repairError.message : String(repairError) };
+  }
+
+  const { error: updateError } = await supabase
+    .from('rlc_ledger_reconciliation_issues')
+    .update({
+      status: action === 'dismiss' ? 'dismissed' : 'resolved',
+      resolution: action,
+      resolved_by_id: actorId,
+      resolved_at: new Date().toISOString(),
+    } as never)
+    .eq('id', issueId);
+
+  if (updateError) {
+    logger.error(`repairReconciliationIssue: Repair ${action} applied but issue ${issueId} update failed:`, updateError);
+    throw new Error(`Database error closing issue: ${updateError.message}`);
+  }
+
+  logger.info(`repairReconciliationIssue: ${action} on issue ${issueId} by ${actorId}: ${message}`);
+  return { success: true, status: action === 'dismiss' ? 'dismissed' : 'resolved', message };
+}
+
+async function applyRepair(
+  supabase: ServerClient,
+  issue: LedgerReconciliationIssue,
+  action: ReconciliationRepairAction
+): Promise<string> {
+  switch (action) {
+    case 'dismiss':
+      return 'Issue dismissed';
+    case 'requeue':
+      return requeueEntries(supabase, issue);
+    case 'record_reversal':
+      return recordReversal(supabase, issue);
+    case 'reverse_transfer': {
+      const driftCents = Number(issue.details.drift_cents);
+      await reverseTransfer(issue.stripe_transfer_id as string, driftCents);
+      return `Reversed $${(driftCents / 100).toFixed(2)} of transfer ${issue.stripe_transfer_id}`;
+    }
+    case 'link_transfer':
+      return linkTransfer(supabase, issue);
+  }
+}
+
+/** Send entries whose transfer never landed back to pending so they are paid again. */
+async function requeueEntries(supabase: ServerClient, issue: LedgerReconciliationIssue): Promise<string> {
+  const { data, error } = await supabase
+    .from('rlc_split_ledger_entries')
+    .update({
+      status: 'pending',
+      stripe_transfer_id: null,
+      transferred_at: null,
+      payout_batch_id: null,
+    } as never)
+    .in('id', issue.ledger_entry_ids)
+    .eq('stripe_transfer_id', issue.stripe_transfer_id as string)
+    .eq('status', 'transferred')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Database error requeueing entries: ${error.message}`);
+  }
+  return `Requeued ${(data || []).length} ledger entries`;
+}
+
+/**
+ * Stripe shows less money at the charter than the ledger does: write reversal
+ * entries for the difference, spread across the transfer's entries in order.
+ */
+async function recordReversal(supabase: ServerClient, issue: LedgerReconciliationIssue): Promise<string> {
+  let remainingCents = -Number(issue.details.drift_cents);
+
+  const { data: entryData, error: entryError } = await supabase
+    .from('rlc_split_ledger_entries')
+    .select('id, contribution_id, source_type, recipient_charter_id, amount, currency')
+    .in('id', issue.ledger_entry_ids);
+
+  if (entryError) {
+    throw new Error(`Database error fetching entries: ${entryError.message}`);
+  }
+
+  const { data: reversalData } = await supabase
+    .from('rlc_split_ledger_entries')
+    .select('amount, reversal_of_id')
+    .in('reversal_of_id', issue.ledger_entry_ids);
+
+  const reversedByEntry = new Map<string, number>();
+  for (const r of (reversalData || []) as { amount: number; reversal_of_id: string }[]) {
+    const cents = Math.round(Number(r.amount) * 100);
+    reversedByEntry.set(r.reversal_of_id, (reversedByEntry.get(r.reversal_of_id) ?? 0) + cents);
+  }
+
+  const entries = (entryData || []) as {
+    id: string;
+    contribution_id: string;
+    source_type: string;
+    recipient_charter_id: string;
+    amount: number;
+    currency: string;
+  }[];
+
+  const inserts = [];
+  for (const entry of entries) {
+    if (remainingCents <= 0) break;
+    const netCents = Math.round(Number(entry.amount) * 100) + (reversedByEntry.get(entry.id) ?? 0);
+    const reverseCents = Math.min(netCents, remainingCents);
+    if (reverseCents <= 0) continue;
+
+    inserts.push({
+      contribution_id: entry.contribution_id,
+      source_type: entry.source_type,
+      recipient_charter_id: entry.recipient_charter_id,
+      amount: -(reverseCents / 100),
+      currency: entry.currency || 'USD',
+      status: 'reversed',
+      reversal_of_id: entry.id,
+      split_rule_snapshot: {
+        reason: 'reconciliation',
+        reconciliation_issue_id: issue.id,
+        stripe_transfer_id: issue.stripe_transfer_id,
+      },
+    });
+    remainingCents -= reverseCents;
+  }
+
+  if (inserts.length === 0) {
+    throw new Error('No ledger balance left to reverse on this transfer');
+  }
+
+  const { error: insertError } = await supabase
+    .from('rlc_split_ledger_entries')
+    .insert(inserts as never);
+
+  if (insertError) {
+    throw new Error(`Database error inserting reversal entries: ${insertError.message}`);
+  }
+
+  const { error: updateError } = await supabase
+    .from('rlc_split_ledger_entries')
+    .update({ status: 'reversed' } as never)
+    .in('id', inserts.map((i) => i.reversal_of_id));
+
+  if (updateError) {
+    throw new Error(`Database error marking entries reversed: ${updateError.message}`);
+  }
+
+  const totalCents = -Number(issue.details.drift_cents) - remainingCents;
+  return `Recorded $${(totalCents / 100).toFixed(2)} of reversals across ${inserts.length} entries`;
+}
+
+/** Attach an orphan transfer to the entry or batch named in its description. */
+async function linkTransfer(supabase: ServerClient, issue: LedgerReconciliationIssue): Promise<string> {
+  const target = issue.details.link_target as TransferLinkTarget;
+  const transferId = issue.stripe_transfer_id as string;
+  const transferredAt = new Date().toISOString();
+
+  const update = supabase
+    .from('rlc_split_ledger_entries')
+    .update({ status: 'transferred', stripe_transfer_id: transferId, transferred_at: transferredAt } as never);
+
+  const { data, error } = await (target.kind === 'entry'
+    ? update.eq('id', target.id)
+    : update.eq('payout_batch_id', target.id)
+  )
+    .eq('recipient_charter_id', issue.charter_id)
+    .is('stripe_transfer_id', null)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Database error linking transfer: ${error.message}`);
+  }
+
+  const linked = (data || []).length;
+  if (linked === 0) {
+    throw new Error(`No unlinked ledger entries found for ${target.kind} ${target.id}`);
+  }
+
+  if (target.kind === 'batch') {
+    await supabase
+      .from('rlc_payout_batches')
+      .update({ status: 'transferred', stripe_transfer_id: transferId, transferred_at: transferredAt } as never)
+      .eq('id', target.id);
+  }
+
+  return `Linked transfer ${transferId} to ${linked} ledger entries`;
+}
@@ -1,7 +1,15 @@
-import { NATIONAL_FLAT_FEE_CENTS, getNationalCharterId } from './constants';
+import { LIFETIME_AMORTIZATION_YEARS, NATIONAL_FLAT_FEE_CENTS, getNationalCharterId } from './constants';
 import { createServerClient } from '@/lib/supabase/server';
 import { logger } from '@/lib/logger';
-import type { Charter, DisbursementModel, SplitSourceType } from '@/types';
+import type {
+  Charter,
+  DisbursementModel,
+  MembershipTerm,
+  MembershipTier,
+  NationalFeeType,
+  SplitSourceType,
+  TermAllocation,
+} from '@/types';
 
 // ─── Amount Convention ───────────────────────────────────────────────────────
 //
@@ -46,14 +54,51 @@ export interface SplitRuleRow {
 export interface SplitConfigRow {
   disbursement_model: DisbursementModel;
   is_active: boolean;
+  term_allocation?: TermAllocation;
 }
 
+/** An allocation held back until `releaseAt` (null = release now). */
+export interface TermSplitAllocation extends SplitAllocation {
+  releaseAt: Date | null;
+}
+
+export interface TermSplitResult {
+  allocations: TermSplitAllocation[];
+  totalCents: number;
+  splitRuleSnapshot: Record<string, unknown>;
+}
+
+export interface NationalFeeScheduleRow {
+  id: string;
+  source_type: SplitSourceType;
+  membership_tier: MembershipTier | null;
+  fee_type: NationalFeeType;
+  flat_amount: number | null;
+  percentage: number | null;
+  effective_from: string;
+}
+
+/** Contribution types that can carry a national fee split. */
+const SPLIT_SOURCE_TYPES: readonly SplitSourceType[] = ['membership', 'donation', 'event_registration'];
+
+const TERM_YEARS: Record<MembershipTerm, number> = {
+  annual: 1,
+  two_year: 2,
+  three_year: 3,
+  lifetime: LIFETIME_AMORTIZATION_YEARS,
+};
+
 // ─── Pure functions ──────────────────────────────────────────────────────────
 
 /**
- * Calculate the split allocations for a membership payment.
- * National always gets a flat $15. Remainder goes to the state charter
- * (or sub-split per config). If no state charter exists, National keeps 100%.
+ * Calculate the split allocations for a payment.
+ * National takes its fee per the applicable fee schedule row (flat $15 when none
+ * is given). Remainder goes to the state charter (or sub-split per config).
+ * If no state charter exists, National keeps 100%.
+ *
+ * `priorPaymentCents` marks the payment as a top-up (e.g. a prorated tier
+ * upgrade) on a period already paid and split: National then only takes the
+ * increase in its fee, so a flat fee is not charged twice.
  *
  * All amounts are in cents to avoid floating-point issues.
  */
@@ -63,8 +108,10 @@ export function calculateMembershipSplit(params: {
   stateCharterId: string | null;
   splitConfig: SplitConfigRow | null;
   splitRules: SplitRuleRow[];
+  feeSchedule?: NationalFeeScheduleRow | null;
+  priorPaymentCents?: number;
 }): SplitResult {
-  const { totalCents, nationalCharterId, stateCharterId, splitConfig, splitRules } = params;
+  const { totalCents, nationalCharterId, stateCharterId, splitConfig, splitRules, feeSchedule, priorPaymentCents } = params;
 
   // No state charter → National keeps 100%
   if (!stateCharterId) {
@@ -75,15 +122,28 @@ export function calculateMembershipSplit(params: {
     };
   }
 
-  const nationalShare = Math.min(NATIONAL_FLAT_FEE_CENTS, totalCents);
+  const nationalShare = priorPaymentCents === undefined
+    ? computeNationalFeeCents(feeSchedule ?? null, totalCents)
+    : Math.min(
+        Math.max(
+          computeNationalFeeCents(feeSchedule ?? null, priorPaymentCents + totalCents) -
+            computeNationalFeeCents(feeSchedule ?? null, priorPaymentCents),
+          0
+        ),
+        totalCents
+      );
   const remainder = totalCents - nationalShare;
+  const nationalFee = {
+    ...describeNationalFee(feeSchedule ?? null),
+    ...(priorPaymentCents !== undefined ? { prior_payment_cents: priorPaymentCents } : {}),
+  };
 
   // If the payment is <= national fee, National gets it all
   if (remainder <= 0) {
     return {
       allocations: [{ recipientCharterId: nationalCharterId, amountCents: totalCents, isNational: true }],
       totalCents,
-      splitRuleSnapshot: { reason: 'amount_lte_national_fee' },
+      splitRuleSnapshot: { reason: 'amount_lte_national_fee', national_fee: nationalFee },
     };
   }
 
@@ -101,6 +161,7 @@ export function calculateMembershipSplit(params: {
         model: splitConfig?.disbursement_model || 'none',
         national_cents: nationalShare,
         state_remainder_cents: remainder,
+        national_fee: nationalFee,
       },
     };
   }
@@ -113,7 +174,7 @@ export function calculateMembershipSplit(params: {
     return {
       allocations,
       totalCents,
-      splitRuleSnapshot: { model: 'national_managed', reason: 'no_active_rules' },
+      splitRuleSnapshot: { model: 'national_managed', reason: 'no_active_rules', national_fee: nationalFee },
     };
   }
 
@@ -127,6 +188,7 @@ export function calculateMembershipSplit(params: {
     splitRuleSnapshot: {
       model: 'national_managed',
       national_cents: nationalShare,
+      national_fee: nationalFee,
       rules: activeRules.map((r) => ({
         recipient: r.recipient_charter_id,
         percentage: r.percentage,
@@ -135,6 +197,121 @@ export function calculateMembershipSplit(params: {
   };
 }
 
+/** Number of yearly slices a membership term's payment is split into. */
+export function getTermYears(term: MembershipTerm): number {
+  return Object.prototype.hasOwnProperty.call(TERM_YEARS, term) ? TERM_YEARS[term] : 1;
+}
+
+/**
+ * Divide a payment into `years` near-equal slices.
+ * Leftover pennies go to the earliest slices so the slices sum exactly.
+ */
+export function sliceTermPayment(totalCents: number, years: number): number[] {
+  const base = Math.floor(totalCents / years);
+  const leftover = totalCents - base * years;
+  return Array.from({ length: years }, (_, i) => base + (i < leftover ? 1 : 0));
+}
+
+/**
+ * Split a multi-year or lifetime membership payment.
+ * The payment is sliced per covered year and each slice is split like an
+ * annual payment, so National takes its fee once per year covered. National's
+ * share is kept now. Charter shares are released per the state charter's
+ * `term_allocation`: 'front_load' pays every slice now, 'amortize' pays the
+ * first slice now and releases each later slice on its anniversary of `startDate`.
+ */
+export function calculateTermSplit(
+  params: Parameters<typeof calculateMembershipSplit>[0] & { term: MembershipTerm; startDate: Date }
+): TermSplitResult {
+  const { term, startDate, ...splitParams } = params;
+  const years = getTermYears(term);
+  const allocation: TermAllocation = params.splitConfig?.term_allocation ?? 'amortize';
+
+  const slices = sliceTermPayment(splitParams.totalCents, years);
+  const sliceResults = slices.map((sliceCents) => calculateMembershipSplit({ ...splitParams, totalCents: sliceCents }));
+
+  // Merge identical recipients that release on the same date
+  const merged = new Map<string, TermSplitAllocation>();
+  sliceResults.forEach((result, year) => {
+    for (const a of result.allocations) {
+      const deferred = !a.isNational && allocation === 'amortize' && year > 0;
+      const releaseAt = deferred ? new Date(startDate) : null;
+      releaseAt?.setFullYear(startDate.getFullYear() + year);
+
+      const key = `${a.recipientCharterId}:${a.isNational}:${releaseAt?.toISOString() ?? 'now'}`;
+      const existing = merged.get(key);
+      if (existing) {
+        existing.amountCents += a.amountCents;
+      } else {
+        merged.set(key, { ...a, releaseAt });
+      }
+    }
+  });
+
+  return {
+    allocations: [...merged.values()],
+    totalCents: splitParams.totalCents,
+    splitRuleSnapshot: {
+      ...sliceResults[0].splitRuleSnapshot,
+      term: { membership_term: term, years, allocation, slice_cents: slices },
+    },
+  };
+}
+
+/**
+ * Pick the fee schedule row in force for a payment.
+ * Rows effective after `at` are ignored; among the rest, a tier-specific row
+ * beats an all-tiers row, and the latest effective_from wins.
+ */
+export function resolveNationalFeeSchedule(
+  schedules: NationalFeeScheduleRow[],
+  params: { sourceType: SplitSourceType; tier: MembershipTier | null; at: Date }
+): NationalFeeScheduleRow | null {
+  const { sourceType, tier, at } = params;
+
+  const inForce = schedules.filter(
+    (s) => s.source_type === sourceType && new Date(s.effective_from).getTime() <= at.getTime()
+  );
+  const latest = (rows: NationalFeeScheduleRow[]) =>
+    rows.reduce<NationalFeeScheduleRow | null>(
+      (best, row) =>
+        !best || new Date(row.effective_from).getTime() > new Date(best.effective_from).getTime() ? row : best,
+      null
+    );
+
+  const tierMatch = tier ? latest(inForce.filter((s) => s.membership_tier === tier)) : null;
+  return tierMatch ?? latest(inForce.filter((s) => s.membership_tier === null));
+}
+
+/**
+ * National's share in cents under a fee schedule row, capped at the payment total.
+ * Falls back to NATIONAL_FLAT_FEE_CENTS when no row applies.
+ */
+export function computeNationalFeeCents(schedule: NationalFeeScheduleRow | null, totalCents: number): number {
+  if (!schedule) return Math.min(NATIONAL_FLAT_FEE_CENTS, totalCents);
+
+  const feeCents = schedule.fee_type === 'percentage'
+    ? Math.round((totalCents * Number(schedule.percentage ?? 0)) / 100)
+    : Math.round(Number(schedule.flat_amount ?? 0) * 100);
+
+  return Math.min(Math.max(feeCents, 0), totalCents);
+}
+
+function describeNationalFee(schedule: NationalFeeScheduleRow | null): Record<string, unknown> {
+  if (!schedule) {
+    return { schedule_id: null, fee_type: 'flat', flat_cents: NATIONAL_FLAT_FEE_CENTS };
+  }
+  return {
+    schedule_id: schedule.id,
+    fee_type: schedule.fee_type,
+    membership_tier: schedule.membership_tier,
+    effective_from: schedule.effective_from,
+    ...(schedule.fee_type === 'percentage'
+      ? { percentage: Number(schedule.percentage) }
+      : { flat_cents: Math.round(Number(schedule.flat_amount ?? 0) * 100) }),
+  };
+}
+
 /**
  * Apply percentage-based sub-splits to a remainder amount.
  * Uses largest-remainder rounding to ensure pennies sum exactly.
@@ -259,7 +436,30 @@ export async function resolveStateCharter(charterId: string): Promise<string | n
 }
 
 /**
- * Process the dues split for a completed membership contribution.
+ * Load every national fee schedule row for a source type, newest first.
+ * Effective-date and tier resolution happen in resolveNationalFeeSchedule.
+ */
+export async function fetchNationalFeeSchedules(sourceType: SplitSourceType): Promise<NationalFeeScheduleRow[]> {
+  const supabase = createServerClient();
+
+  const { data, error } = await supabase
+    .from('rlc_national_fee_schedules')
+    .select('id, source_type, membership_tier, fee_type, flat_amount, percentage, effective_from')
+    .eq('source_type', sourceType)
+    .order('effective_from', { ascending: false });
+
+  if (error) {
+    logger.error(`fetchNationalFeeSchedules: DB error loading schedules for ${sourceType}:`, error);
+    throw new Error(`Database error in fetchNationalFeeSchedules: ${error.message}`);
+  }
+
+  return (data || []) as NationalFeeScheduleRow[];
+}
+
+/**
+ * Process the split for a completed contribution.
+ * Memberships are always split; donations and event registrations only when
+ * a national fee schedule row covers them.
  * Creates ledger entries for each recipient. Does NOT execute transfers
  * (that's the transfer engine's job in Phase 3).
  */
@@ -275,10 +475,12 @@ export async function processDuesSplit(contributionId: string): Promise<void> {
     contribution_type: string;
     contact_id: string | null;
     charter_id: string | null;
+    metadata: Record<string, unknown> | null;
+    created_at: string;
   }
   const { data: rawContribution, error: contribError } = await supabase
     .from('rlc_contributions')
-    .select('id, amount, currency, contribution_type, contact_id, charter_id')
+    .select('id, amount, currency, contribution_type, contact_id, charter_id, metadata, created_at')
     .eq('id', contributionId)
     .single();
 
@@ -297,14 +499,34 @@ export async function processDuesSplit(contributionId: string): Promise<void> {
     return;
   }
 
-  // Only split membership payments
-  if (contribution.contribution_type !== 'membership') {
+  const sourceType = contribution.contribution_type as SplitSourceType;
+  if (!SPLIT_SOURCE_TYPES.includes(sourceType)) {
     return;
   }
 
   const totalCents = Math.round(Number(contribution.amount) * 100);
   if (totalCents <= 0) return;
 
+  // Resolve the national fee in force when the member paid, so late or repeated runs split the same way
+  const schedules = await fetchNationalFeeSchedules(sourceType);
+  // A gift records the tier it bought; its contact is the purchaser, whose own tier may differ
+  const recordedTier = contribution.metadata?.membership_tier;
+  let tier: MembershipTier | null = typeof recordedTier === 'string' ? (recordedTier as MembershipTier) : null;
+  if (!tier && contribution.contact_id && schedules.some((s) => s.membership_tier !== null)) {
+    const { data: contact } = await supabase
+      .from('rlc_contacts')
+      .select('membership_tier')
+      .eq('id', contribution.contact_id)
+      .single();
+    tier = (contact as { membership_tier: MembershipTier } | null)?.membership_tier ?? null;
+  }
+  const feeSchedule = resolveNationalFeeSchedule(schedules, { sourceType, tier, at: new Date(contribution.created_at) });
+
+  // Donations and event registrations have no split policy unless the board sets one
+  if (sourceType !== 'membership' && !feeSchedule) {
+    return;
+  }
+
   // Idempotency: check if non-reversal ledger entries already exist
   const { data: existingEntries } = await supabase
     .from('rlc_split_ledger_entries')
@@ -333,7 +555,7 @@ export async function processDuesSplit(contributionId: string): Promise<void> {
   if (stateCharterId) {
     const { data: configData } = await supabase
       .from('rlc_charter_split_configs')
-      .select('id, disbursement_model, is_active')
+      .select('id, disbursement_model, is_active, term_allocation')
       .eq('charter_id', stateCharterId)
       .single();
 
@@ -354,21 +576,38 @@ export async function processDuesSplit(contributionId: string): Promise<void> {
     }
   }
 
+  // Tier-change top-ups record what was already paid for the period
+  const priorPaymentCents = contribution.metadata?.prior_payment_cents;
+
+  // Multi-year and lifetime memberships record their term on the contribution
+  const term = contribution.metadata?.membership_term;
+  const isPrepaidTerm = sourceType === 'membership' && typeof term === 'string' && getTermYears(term as MembershipTerm) > 1;
+
   // Calculate the split
-  const result = calculateMembershipSplit({
+  const splitParams = {
     totalCents,
     nationalCharterId,
     stateCharterId,
     splitConfig,
     splitRules,
-  });
+    feeSchedule,
+    priorPaymentCents: typeof priorPaymentCents === 'number' ? priorPaymentCents : undefined,
+  };
+  const result = isPrepaidTerm
+    ? calculateTermSplit({
+        ...splitParams,
+        term: term as MembershipTerm,
+        // Anchored to the payment so a retried or delayed split schedules the same entries
+        startDate: new Date(contribution.created_at),
+      })
+    : calculateMembershipSplit(splitParams);
+  const allocations: TermSplitAllocation[] = result.allocations.map((a) => ({ releaseAt: null, ...a }));
 
   // Generate a transfer group ID for correlating all entries from this payment
   const transferGroupId = `split_${contributionId}`;
 
   // Write ledger entries
-  const sourceType: SplitSourceType = 'membership';
-  const entries = result.allocations
+  const entries = allocations
     .filter((a) => a.amountCents > 0)
     .map((a) => ({
       contribution_id: contributionId,
@@ -376,10 +615,12 @@ export async function processDuesSplit(contributionId: string): Promise<void> {
       recipient_charter_id: a.recipientCharterId,
       amount: a.amountCents / 100,
       currency: (contribution.currency as string) || 'USD',
-      // National entries are "transferred" (money stays in platform account)
-      status: a.isNational ? 'transferred' : 'pending',
+      // National entries are "transferred" (money stays in platform account);
+      // amortized charter shares wait as "scheduled" until release_at
+      status: a.isNational ? 'transferred' : a.releaseAt ? 'scheduled' : 'pending',
       stripe_transfer_group_id: transferGroupId,
       transferred_at: a.isNational ? new Date().toISOString() : null,
+      release_at: a.releaseAt ? a.releaseAt.toISOString() : null,
       split_rule_snapshot: result.splitRuleSnapshot,
     }));
 
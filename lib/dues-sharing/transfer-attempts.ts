@@ -0,0 +1,83 @@
+import { logger } from '@/lib/logger';
+import type { createServerClient } from '@/lib/supabase/server';
+import type { TransferAttemptStatus } from '@/types';
+
+type ServerClient = ReturnType<typeof createServerClient>;
+
+/** First retry waits this long; each later retry doubles it. */
+export const RETRY_BASE_DELAY_MS = 60 * 60 * 1000;
+
+/** Backoff never waits longer than this between attempts. */
+export const RETRY_MAX_DELAY_MS = 24 * 60 * 60 * 1000;
+
+/** After this many attempts the entry stays failed and leaves the retry queue. */
+export const MAX_TRANSFER_ATTEMPTS = 8;
+
+// ─── Pure types ──────────────────────────────────────────────────────────────
+
+export interface TransferAttemptRecord {
+  ledgerEntryId: string;
+  attemptNumber: number;
+  status: TransferAttemptStatus;
+  destinationAccountId?: string | null;
+  stripeTransferId?: string | null;
+  errorCode?: string | null;
+  errorMessage?: string | null;
+}
+
+// ─── Pure functions ──────────────────────────────────────────────────────────
+
+/** Delay before the attempt following `attemptNumber` (1-based): 1h, 2h, 4h … capped at 24h. */
+export function getRetryDelayMs(attemptNumber: number): number {
+  const exponent = Math.max(0, attemptNumber - 1);
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** exponent, RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * When the next attempt is due after `attemptNumber` failed,
+ * or null once the entry has used up its attempts.
+ */
+export function computeNextRetryAt(attemptNumber: number, now: Date): Date | null {
+  if (attemptNumber >= MAX_TRANSFER_ATTEMPTS) return null;
+  return new Date(now.getTime() + getRetryDelayMs(attemptNumber));
+}
+
+/** Stripe errors carry a machine-readable `code`; anything else is recorded by message only. */
+export function describeTransferError(err: unknown): { code: string | null; message: string } {
+  if (err && typeof err === 'object') {
+    const e = err as { code?: unknown; message?: unknown };
+    return {
+      code: typeof e.code === 'string' ? e.code : null,
+      message: typeof e.message === 'string' ? e.message : String(err),
+    };
+  }
+  return { code: null, message: String(err) };
+}
+
+// ─── Database functions ──────────────────────────────────────────────────────
+
+/**
+ * Append a row to the attempt history. Non-fatal: the ledger entry itself is
+ * the source of truth, so a lost history row must never fail the transfer.
+ */
+export async function recordTransferAttempt(
+  supabase: ServerClient,
+  attempt: TransferAttemptRecord
+): Promise<void> {
+  const { error } = await supabase.from('rlc_transfer_attempts').insert({
+    ledger_entry_id: attempt.ledgerEntryId,
+    attempt_number: attempt.attemptNumber,
+    status: attempt.status,
+    destination_account_id: attempt.destinationAccountId ?? null,
+    stripe_transfer_id: attempt.stripeTransferId ?? null,
+    error_code: attempt.errorCode ?? null,
+    error_message: attempt.errorMessage ?? null,
+  } as never);
+
+  if (error) {
+    logger.error(
+      `recordTransferAttempt: Failed to record ${attempt.status} attempt ${attempt.attemptNumber} for entry ${attempt.ledgerEntryId}:`,
+      error
+    );
+  }
+}
@@ -1,19 +1,27 @@
-import { createTransfer } from '@/lib/stripe/client';
+import { createTransfer, findTransferForLedgerEntry } from '@/lib/stripe/client';
 import { createServerClient } from '@/lib/supabase/server';
 import { logger } from '@/lib/logger';
+import { getBatchedCharterIds } from './payout-batcher';
+import { computeNextRetryAt, describeTransferError, recordTransferAttempt } from './transfer-attempts';
 import type Stripe from 'stripe';
 
 /**
  * Execute a Stripe transfer for a single ledger entry and update the entry.
  * Separates Stripe call from DB update to avoid losing transfer IDs on DB failure.
+ * Every attempt is recorded in rlc_transfer_attempts; a failure schedules the
+ * next retry with exponential backoff (see transfer-retry.ts).
  */
 export async function executeTransfer(params: {
   ledgerEntryId: string;
   amountCents: number;
   destinationAccountId: string;
   transferGroup?: string;
+  /** Attempts already made for this entry (the entry's retry_count). */
+  retryCount?: number;
+  /** When the entry was created; bounds the Stripe lookup made before a retry. */
+  entryCreatedAt?: string;
 }): Promise<void> {
-  const { ledgerEntryId, amountCents, destinationAccountId, transferGroup } = params;
+  const { ledgerEntryId, amountCents, destinationAccountId, transferGroup, retryCount = 0, entryCreatedAt } = params;
 
   if (amountCents <= 0) {
     logger.warn(`executeTransfer: Skipping zero/negative amount for entry ${ledgerEntryId}`);
@@ -21,26 +29,72 @@ export async function executeTransfer(params: {
   }
 
   const supabase = createServerClient();
+  const attemptNumber = retryCount + 1;
+
+  // Stripe replays the stored response for a reused idempotency key, including
+  // errors, so each retry needs its own key. A new key no longer protects against
+  // an earlier attempt whose response was lost, so retries first look for a
+  // transfer already sent for this entry and link it instead of paying twice.
+  const idempotencyKey = retryCount === 0
+    ? `ledger-${ledgerEntryId}`
+    : `ledger-${ledgerEntryId}-retry-${retryCount}`;
 
   // Step 1: Attempt Stripe transfer
   let transfer: Stripe.Transfer;
   try {
-    transfer = await createTransfer({
+    const existing = retryCount > 0
+      ? await findTransferForLedgerEntry({
+          ledgerEntryId,
+          destinationAccountId,
+          transferGroup,
+          createdSince: entryCreatedAt ? new Date(entryCreatedAt) : undefined,
+        })
+      : null;
+    if (existing) {
+      logger.warn(`executeTransfer: Linking existing transfer ${existing.id} to entry ${ledgerEntryId} instead of retrying`);
+    }
+    transfer = existing ?? (await createTransfer({
       amount: amountCents,
       destinationAccountId,
       transferGroup,
       description: `Dues split - entry ${ledgerEntryId}`,
-      idempotencyKey: `ledger-${ledgerEntryId}`,
-    });
+      metadata: { ledger_entry_id: ledgerEntryId },
+      idempotencyKey,
+    }));
   } catch (stripeError) {
-    // Stripe transfer failed — safe to mark as failed
+    // Stripe transfer failed — safe to mark as failed and schedule a retry
+    const nextRetryAt = computeNextRetryAt(attemptNumber, new Date());
     await supabase
       .from('rlc_split_ledger_entries')
-      .update({ status: 'failed' } as never)
+      .update({
+        status: 'failed',
+        retry_count: attemptNumber,
+        next_retry_at: nextRetryAt ? nextRetryAt.toISOString() : null,
+      } as never)
       .eq('id', ledgerEntryId);
+
+    const { code, message } = describeTransferError(stripeError);
+    await recordTransferAttempt(supabase, {
+      ledgerEntryId,
+      attemptNumber,
+      status: 'failed',
+      destinationAccountId,
+      errorCode: code,
+      errorMessage: message,
+    });
     throw stripeError;
   }
 
+  // Record the attempt before touching the entry so the transfer ID survives
+  // in the history even if the ledger update below fails
+  await recordTransferAttempt(supabase, {
+    ledgerEntryId,
+    attemptNumber,
+    status: 'succeeded',
+    destinationAccountId,
+    stripeTransferId: transfer.id,
+  });
+
   // Step 2: Stripe succeeded — try DB update
   const { error: updateError } = await supabase
     .from('rlc_split_ledger_entries')
@@ -48,6 +102,9 @@ export async function executeTransfer(params: {
       status: 'transferred',
       stripe_transfer_id: transfer.id,
       transferred_at: new Date().toISOString(),
+      retry_count: attemptNumber,
+      next_retry_at: null,
+      parked_at: null,
     } as never)
     .eq('id', ledgerEntryId);
 
@@ -68,6 +125,7 @@ export async function executeTransfer(params: {
 /**
  * After a split is calculated and ledger entries are created,
  * attempt immediate transfers for charters with active Stripe accounts.
+ * Charters on a batched payout cadence are left pending for the payout cron.
  * Uses atomic claim pattern to prevent duplicate transfers from concurrent calls.
  */
 export async function executeTransfersForContribution(contributionId: string): Promise<void> {
@@ -109,6 +167,8 @@ export async function executeTransfersForContribution(contributionId: string): P
     }
   }
 
+  const batchedCharterIds = await getBatchedCharterIds(supabase, charterIds);
+
   for (const entry of entries) {
     const row = entry as {
       id: string;
@@ -118,8 +178,9 @@ export async function executeTransfersForContribution(contributionId: string): P
     };
 
     const stripeAccountId = accountMap.get(row.recipient_charter_id);
-    if (!stripeAccountId) {
-      // Charter not onboarded yet — revert to pending so drain can pick it up later
+    if (!stripeAccountId || batchedCharterIds.has(row.recipient_charter_id)) {
+      // Charter not onboarded yet, or paid out on a schedule — revert to pending
+      // so drain or the payout cron can pick it up later
       await supabase
         .from('rlc_split_ledger_entries')
         .update({ status: 'pending' } as never)
@@ -136,7 +197,7 @@ export async function executeTransfersForContribution(contributionId: string): P
       });
     } catch (transferError) {
       logger.error(`Transfer failed for ledger entry ${row.id} (non-fatal):`, transferError);
-      // executeTransfer already marks entry as 'failed' on Stripe error
+      // executeTransfer already marks entry as 'failed' and schedules a retry
     }
   }
 }
@@ -0,0 +1,268 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { getBatchedCharterIds } from './payout-batcher';
+import { executeTransfer } from './transfer-engine';
+import { MAX_TRANSFER_ATTEMPTS, recordTransferAttempt } from './transfer-attempts';
+
+// Amounts follow the convention documented in split-engine.ts:
+// dollars in the DB, integer cents everywhere else.
+
+type ServerClient = ReturnType<typeof createServerClient>;
+
+/** Upper bound on entries retried per cron run; the rest wait for the next hour. */
+export const RETRY_BATCH_LIMIT = 200;
+
+// ─── Pure types ──────────────────────────────────────────────────────────────
+
+export interface RetryAccountRow {
+  charter_id: string;
+  stripe_account_id: string;
+  status: string;
+  payouts_enabled: boolean;
+}
+
+export interface TransferRetryResult {
+  entriesDue: number;
+  succeeded: number;
+  failed: number;
+  parked: number;
+  handedToPayoutBatch: number;
+  errors: string[];
+}
+
+// ─── Pure functions ──────────────────────────────────────────────────────────
+
+/**
+ * Why a charter cannot receive a transfer right now, or null if it can.
+ * Entries for such charters are parked rather than burning retry attempts.
+ */
+export function getParkReason(account: RetryAccountRow | undefined): string | null {
+  if (!account) return 'Charter has no connected Stripe account';
+  if (!account.payouts_enabled) return 'Stripe account has payouts disabled';
+  if (account.status !== 'active') return `Stripe account status is ${account.status}`;
+  return null;
+}
+
+// ─── Database functions ──────────────────────────────────────────────────────
+
+/**
+ * Retry failed (and stranded pending) per-payment ledger entries whose backoff
+ * has elapsed. Called hourly by the transfer-retries cron.
+ *
+ * - Entries for charters on a batched cadence go back to `pending` so the
+ *   dues-payouts cron includes them in the next batch.
+ * - Entries for charters whose account cannot receive payouts are parked
+ *   (`parked_at` set) until an account.updated webhook releases them.
+ * - Everything else is atomically claimed and handed to executeTransfer,
+ *   which records the attempt and schedules the next retry on failure.
+ */
+export async function runTransferRetries(now: Date = new Date()): Promise<TransferRetryResult> {
+  const supabase = createServerClient();
+  const result: TransferRetryResult = {
+    entriesDue: 0,
+    succeeded: 0,
+    failed: 0,
+    parked: 0,
+    handedToPayoutBatch: 0,
+    errors: [],
+  };
+
+  const { data: dueData, error: dueError } = await supabase
+    .from('rlc_split_ledger_entries')
+    .select('id, amount, recipient_charter_id, stripe_transfer_group_id, status, retry_count, created_at')
+    .in('status', ['failed', 'pending'])
+    .is('stripe_transfer_id', null)
+    .is('reversal_of_id', null)
+    .is('payout_batch_id', null)
+    .is('parked_at', null)
+    .gt('amount', 0)
+    .lt('retry_count', MAX_TRANSFER_ATTEMPTS)
+    .or(`next_retry_at.is.null,next_retry_at.lte.${now.toISOString()}`)
+    .order('created_at', { ascending: true })
+    .limit(RETRY_BATCH_LIMIT);
+
+  if (dueError) {
+    logger.error('runTransferRetries: Failed to fetch due entries:', dueError);
+    throw new Error(`Database error fetching due entries: ${dueError.message}`);
+  }
+
+  const due = (dueData || []) as {
+    id: string;
+    amount: number;
+    recipient_charter_id: string;
+    stripe_transfer_group_id: string | null;
+    status: 'failed' | 'pending';
+    retry_count: number;
+    created_at: string;
+  }[];
+
+  result.entriesDue = due.length;
+  if (due.length === 0) return result;
+
+  const charterIds = [...new Set(due.map((e) => e.recipient_charter_id))];
+  const batchedCharterIds = await getBatchedCharterIds(supabase, charterIds);
+
+  const { data: accountsData, error: accountsError } = await supabase
+    .from('rlc_charter_stripe_accounts')
+    .select('charter_id, stripe_account_id, status, payouts_enabled')
+    .in('charter_id', charterIds);
+
+  if (accountsError) {
+    logger.error('runTransferRetries: Failed to fetch Stripe accounts:', accountsError);
+    throw new Error(`Database error fetching Stripe accounts: ${accountsError.message}`);
+  }
+
+  const accountMap = new Map(
+    ((accountsData || []) as RetryAccountRow[]).map((a) => [a.charter_id, a])
+  );
+
+  const toBatch: string[] = [];
+  const toPark: { id: string; retryCount: number; reason: string; accountId: string | null }[] = [];
+  const toRetry: typeof due = [];
+
+  for (const entry of due) {
+    if (batchedCharterIds.has(entry.recipient_charter_id)) {
+      // Pending entries are already the payout cron's; only failed ones need handing back
+      if (entry.status === 'failed') toBatch.push(entry.id);
+      continue;
+    }
+
+    const account = accountMap.get(entry.recipient_charter_id);
+    const parkReason = getParkReason(account);
+    if (parkReason) {
+      toPark.push({
+        id: entry.id,
+        retryCount: entry.retry_count,
+        reason: parkReason,
+        accountId: account?.stripe_account_id ?? null,
+      });
+      continue;
+    }
+
+    toRetry.push(entry);
+  }
+
+  if (toBatch.length > 0) {
+    const { data: released, error: releaseError } = await supabase
+      .from('rlc_split_ledger_entries')
+      .update({ status: 'pending', next_retry_at: null } as never)
+      .in('id', toBatch)
+      .eq('status', 'failed')
+      .select('id');
+
+    if (releaseError) {
+      result.errors.push(`Failed to hand ${toBatch.length} entries to the payout cron: ${releaseError.message}`);
+    } else {
+      result.handedToPayoutBatch = (released || []).length;
+    }
+  }
+
+  for (const park of toPark) {
+    const { data: parkedRows, error: parkError } = await supabase
+      .from('rlc_split_ledger_entries')
+      .update({ parked_at: now.toISOString() } as never)
+      .eq('id', park.id)
+      .is('parked_at', null)
+      .select('id');
+
+    if (parkError) {
+      result.errors.push(`Entry ${park.id}: failed to park: ${parkError.message}`);
+      continue;
+    }
+    if (!parkedRows || parkedRows.length === 0) continue;
+
+    // Parking does not consume an attempt; it records the one that was deferred
+    await recordTransferAttempt(supabase, {
+      ledgerEntryId: park.id,
+      attemptNumber: park.retryCount + 1,
+      status: 'parked',
+      destinationAccountId: park.accountId,
+      errorMessage: park.reason,
+    });
+    result.parked++;
+  }
+
+  if (toRetry.length === 0) return result;
+
+  // Atomic claim: UPDATE status to 'processing' WHERE still failed/pending, then SELECT
+  const { data: claimedData, error: claimError } = await supabase
+    .from('rlc_split_ledger_entries')
+    .update({ status: 'processing' } as never)
+    .in('id', toRetry.map((e) => e.id))
+    .in('status', ['failed', 'pending'])
+    .is('stripe_transfer_id', null)
+    .is('parked_at', null)
+    .select('id');
+
+  if (claimError) {
+    logger.error('runTransferRetries: Failed to claim entries:', claimError);
+    throw new Error(`Database error claiming entries: ${claimError.message}`);
+  }
+
+  const claimedIds = new Set(((claimedData || []) as { id: string }[]).map((c) => c.id));
+
+  for (const entry of toRetry) {
+    if (!claimedIds.has(entry.id)) continue;
+    const account = accountMap.get(entry.recipient_charter_id) as RetryAccountRow;
+
+    try {
+      await executeTransfer({
+        ledgerEntryId: entry.id,
+        amountCents: Math.round(Number(entry.amount) * 100),
+        destinationAccountId: account.stripe_account_id,
+        transferGroup: entry.stripe_transfer_group_id || undefined,
+        retryCount: entry.retry_count,
+        entryCreatedAt: entry.created_at,
+      });
+      result.succeeded++;
+    } catch (err) {
+      // executeTransfer has already recorded the attempt and scheduled the next one
+      result.failed++;
+      result.errors.push(`Entry ${entry.id}: attempt ${entry.retry_count + 1} failed: ${err}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Release every parked entry for a charter so the next retry run picks it up
+ * immediately. Called from the account.updated webhook once payouts are enabled.
+ * Returns the number of entries released.
+ */
+export async function releaseParkedEntries(supabase: ServerClient, charterId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('rlc_split_ledger_entries')
+    .update({ parked_at: null, next_retry_at: null } as never)
+    .eq('recipient_charter_id', charterId)
+    .not('parked_at', 'is', null)
+    .select('id');
+
+  if (error) {
+    logger.error(`releaseParkedEntries: Failed to release parked entries for charter ${charterId}:`, error);
+    throw new Error(`Database error releasing parked entries: ${error.message}`);
+  }
+
+  return (data || []).length;
+}
+
+/**
+ * Move amortized charter shares whose release date has arrived from
+ * `scheduled` to `pending`, where the per-payment retry run or the payout
+ * batcher picks them up like any other entry. Returns the number released.
+ */
+export async function releaseScheduledEntries(supabase: ServerClient, now: Date = new Date()): Promise<number> {
+  const { data, error } = await supabase
+    .from('rlc_split_ledger_entries')
+    .update({ status: 'pending', next_retry_at: null } as never)
+    .eq('status', 'scheduled')
+    .lte('release_at', now.toISOString())
+    .select('id');
+
+  if (error) {
+    logger.error('releaseScheduledEntries: Failed to release scheduled entries:', error);
+    throw new Error(`Database error releasing scheduled entries: ${error.message}`);
+  }
+
+  return (data || []).length;
+}
@@ -0,0 +1,57 @@
+import { Resend } from 'resend';
+
+// Lazy initialization to avoid build-time errors when env vars aren't set
+let resendClient: Resend | null = null;
+
+export function getResend(): Resend {
+  if (!resendClient) {
+    const apiKey = process.env.RESEND_API_KEY;
+    if (!apiKey) {
+      throw new Error('RESEND_API_KEY is not set');
+    }
+    resendClient = new Resend(apiKey);
+  }
+  return resendClient;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+}
+
+/**
+ * Send a transactional email through Resend.
+ * Throws when Resend rejects the message so callers can surface the failure.
+ */
+export async function sendEmail(params: {
+  to: string | string[];
+  subject: string;
+  html: string;
+  text?: string;
+  replyTo?: string;
+  attachments?: EmailAttachment[];
+}): Promise<{ id: string }> {
+  const { data, error } = await getResend().emails.send({
+    from: process.env.RESEND_FROM_EMAIL || 'noreply@rlc.org',
+    to: params.to,
+    subject: params.subject,
+    html: params.html,
+    text: params.text,
+    reply_to: params.replyTo,
+    attachments: params.attachments,
+  });
+
+  if (error || !data) {
+    throw new Error(`Resend rejected email: ${error?.message ?? 'no response'}`);
+  }
+  return { id: data.id };
+}
+
+/** Escape user-supplied text for interpolation into an email's HTML body. */
+export function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -68,3 +68,31 @@ export async function triggerCampaignAlert(email: string): Promise<boolean> {
 export async function triggerEventRegistration(email: string): Promise<boolean> {
   return triggerWorkflow(email, 'Event Registered');
 }
+
+export type DunningNotice = 'first_notice' | 'reminder' | 'final_notice';
+
+/**
+ * Workflow tags for the failed-payment sequence. Each HighLevel workflow
+ * should remove its tag when it finishes so a later failure can fire it again.
+ */
+export const DUNNING_WORKFLOW_TAGS: Record<DunningNotice, string> = {
+  first_notice: 'Payment Failed',
+  reminder: 'Payment Failed Reminder',
+  final_notice: 'Payment Failed Final Notice',
+};
+
+/**
+ * Trigger a failed renewal payment notice.
+ * HighLevel workflows listen for the tags in DUNNING_WORKFLOW_TAGS.
+ */
+export async function triggerPaymentFailedNotice(email: string, notice: DunningNotice): Promise<boolean> {
+  return triggerWorkflow(email, DUNNING_WORKFLOW_TAGS[notice]);
+}
+
+/**
+ * Trigger the "payment recovered" confirmation after a failed renewal succeeds.
+ * HighLevel workflow listens for the "Payment Recovered" tag.
+ */
+export async function triggerPaymentRecovered(email: string): Promise<boolean> {
+  return triggerWorkflow(email, 'Payment Recovered');
+}
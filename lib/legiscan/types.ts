@@ -154,6 +154,8 @@ export interface LegiScanPerson {
   district: string;
   committee_sponsor: number;
   committee_id: number;
+  /** Congressional Bioguide ID; empty for state legislators */
+  bioguide_id?: string;
 }
 
 export interface LegiScanSearchResult {
@@ -0,0 +1,233 @@
+import { PDFDocument, StandardFonts, degrees, rgb, type PDFFont, type PDFPage } from 'pdf-lib';
+
+// US Letter, in PDF points (1/72 inch)
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+const RULE_COLOR = rgb(0.8, 0.8, 0.8);
+const BRAND_RED = rgb(0.75, 0.1, 0.15);
+const WATERMARK_COLOR = rgb(0.75, 0.75, 0.75);
+
+export interface PdfTableColumn {
+  header: string;
+  /** Share of the content width, 0–1. Widths should sum to 1. */
+  width: number;
+  align?: 'left' | 'right';
+}
+
+export interface PdfWriter {
+  title(text: string, subtitle?: string): void;
+  heading(text: string): void;
+  paragraph(text: string, options?: { muted?: boolean; size?: number }): void;
+  keyValues(rows: [string, string][]): void;
+  table(columns: PdfTableColumn[], rows: string[][], options?: { boldLastRow?: boolean }): void;
+  spacer(height?: number): void;
+  /** Start the next section on a fresh page. No-op when the current page is still empty. */
+  pageBreak(): void;
+  save(): Promise<Uint8Array>;
+}
+
+/**
+ * The standard 14 fonts only cover WinAnsi; replace anything else so user
+ * data (names, notes) can never make pdf-lib throw mid-render.
+ */
+export function toWinAnsi(text: string): string {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+}
+
+function truncateToWidth(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && font.widthOfTextAtSize(`${text.slice(0, end)}...`, size) > maxWidth) end--;
+  return `${text.slice(0, end)}...`;
+}
+
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+/** Diagonal text across the middle of the page, sized to fit corner to corner. */
+function drawWatermark(page: PDFPage, text: string, font: PDFFont) {
+  const angle = Math.atan2(PAGE_HEIGHT, PAGE_WIDTH);
+  const diagonal = Math.hypot(PAGE_WIDTH, PAGE_HEIGHT) - MARGIN * 4;
+  const size = Math.min(48, (diagonal / font.widthOfTextAtSize(text, 48)) * 48);
+  const width = font.widthOfTextAtSize(text, size);
+  page.drawText(text, {
+    x: PAGE_WIDTH / 2 - (width / 2) * Math.cos(angle) + (size / 3) * Math.sin(angle),
+    y: PAGE_HEIGHT / 2 - (width / 2) * Math.sin(angle) - (size / 3) * Math.cos(angle),
+    font,
+    size,
+    color: WATERMARK_COLOR,
+    opacity: 0.35,
+    rotate: degrees((angle * 180) / Math.PI),
+  });
+}
+
+/**
+ * Flowing single-column document writer: content is appended top to bottom
+ * and pages are added as needed. Every page gets a footer with `footerText`
+ * and a page number, plus `watermark` across the page when given.
+ */
+export async function createPdfWriter(params: {
+  documentTitle: string;
+  footerText: string;
+  watermark?: string;
+}): Promise<PdfWriter> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(toWinAnsi(params.documentTitle));
+  doc.setProducer('Republican Liberty Caucus');
+  doc.setCreationDate(new Date());
+
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+
+  let page: PDFPage = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  function newPage() {
+    page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN;
+  }
+
+  function ensureSpace(height: number) {
+    if (y - height < MARGIN + 20) newPage();
+  }
+
+  function draw(text: string, x: number, options: { font?: PDFFont; size?: number; color?: ReturnType<typeof rgb> } = {}) {
+    page.drawText(toWinAnsi(text), {
+      x,
+      y,
+      font: options.font ?? regular,
+      size: options.size ?? 10,
+      color: options.color ?? TEXT_COLOR,
+    });
+  }
+
+  function rule(color = RULE_COLOR) {
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness: 0.5,
+      color,
+    });
+  }
+
+  function drawRow(columns: PdfTableColumn[], cells: string[], font: PDFFont, size: number) {
+    let x = MARGIN;
+    columns.forEach((col, i) => {
+      const width = col.width * CONTENT_WIDTH;
+      const text = truncateToWidth(toWinAnsi(cells[i] ?? ''), font, size, width - 4);
+      const textX = col.align === 'right' ? x + width - 4 - font.widthOfTextAtSize(text, size) : x;
+      page.drawText(text, { x: textX, y, font, size, color: TEXT_COLOR });
+      x += width;
+    });
+  }
+
+  return {
+    title(text, subtitle) {
+      draw('REPUBLICAN LIBERTY CAUCUS', MARGIN, { font: bold, size: 8, color: BRAND_RED });
+      y -= 22;
+      draw(text, MARGIN, { font: bold, size: 18 });
+      y -= 16;
+      if (subtitle) {
+        draw(subtitle, MARGIN, { size: 10, color: MUTED_COLOR });
+        y -= 12;
+      }
+      rule(BRAND_RED);
+      y -= 18;
+    },
+
+    heading(text) {
+      ensureSpace(40);
+      y -= 6;
+      draw(text, MARGIN, { font: bold, size: 12 });
+      y -= 6;
+      rule();
+      y -= 14;
+    },
+
+    paragraph(text, options = {}) {
+      const size = options.size ?? 10;
+      for (const line of wrapText(toWinAnsi(text), regular, size, CONTENT_WIDTH)) {
+        ensureSpace(size + 4);
+        draw(line, MARGIN, { size, color: options.muted ? MUTED_COLOR : TEXT_COLOR });
+        y -= size + 4;
+      }
+    },
+
+    keyValues(rows) {
+      for (const [key, value] of rows) {
+        ensureSpace(14);
+        draw(key, MARGIN, { font: bold });
+        draw(value, MARGIN + 160);
+        y -= 14;
+      }
+    },
+
+    table(columns, rows, options = {}) {
+      const size = 8;
+      const drawHeader = () => {
+        drawRow(columns, columns.map((c) => c.header), bold, size);
+        y -= 4;
+        rule();
+        y -= 10;
+      };
+
+      ensureSpace(30);
+      drawHeader();
+      rows.forEach((cells, i) => {
+        if (y - 12 < MARGIN + 20) {
+          newPage();
+          drawHeader();
+        }
+        const isTotal = options.boldLastRow && i === rows.length - 1;
+        if (isTotal) {
+          y += 2;
+          rule();
+          y -= 10;
+        }
+        drawRow(columns, cells, isTotal ? bold : regular, size);
+        y -= 12;
+      });
+      y -= 6;
+    },
+
+    spacer(height = 10) {
+      y -= height;
+    },
+
+    pageBreak() {
+      if (y < PAGE_HEIGHT - MARGIN) newPage();
+    },
+
+    async save() {
+      const pages = doc.getPages();
+      pages.forEach((p, i) => {
+        const footer = toWinAnsi(`${params.footerText}  |  Page ${i + 1} of ${pages.length}`);
+        p.drawText(footer, { x: MARGIN, y: MARGIN - 20, font: regular, size: 7, color: MUTED_COLOR });
+        if (params.watermark) drawWatermark(p, toWinAnsi(params.watermark), bold);
+      });
+      return doc.save();
+    },
+  };
+}
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ----------------------------------------------------------------
+// Mocks — must be declared before the module under test is imported
+// ----------------------------------------------------------------
+
+vi.mock('@/lib/email/client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/email/client')>()),
+  sendEmail: vi.fn(),
+}));
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import {
+  buildGivingStatement,
+  getReceiptNumber,
+  NON_DEDUCTIBLE_DISCLAIMER,
+  renderGivingStatementPdf,
+  renderReceiptPdf,
+  sendContributionReceipt,
+  sendGivingStatement,
+  type ReceiptContribution,
+  type ReceiptDonor,
+} from '../generator';
+import { sendEmail } from '@/lib/email/client';
+import { createServerClient } from '@/lib/supabase/server';
+
+// ----------------------------------------------------------------
+// Mock Supabase chain builder
+// ----------------------------------------------------------------
+
+type ChainResult = { data?: unknown; error?: unknown };
+
+function mockChain(terminalResult: ChainResult = { data: null, error: null }) {
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  const methods = ['select', 'eq', 'gte', 'lt', 'single', 'order'];
+  for (const m of methods) {
+    chain[m] = vi.fn().mockReturnValue(chain);
+  }
+  (chain as Record<string, unknown>)['then'] = (resolve: (v: ChainResult) => void) =>
+    resolve(terminalResult);
+  return chain;
+}
+
+function mockSupabase(chains: Record<string, ReturnType<typeof mockChain>>) {
+  return {
+    from: vi.fn((table: string) => chains[table] ?? mockChain()),
+  };
+}
+
+const mockedSendEmail = sendEmail as ReturnType<typeof vi.fn>;
+const mockedCreateServerClient = createServerClient as ReturnType<typeof vi.fn>;
+
+const DONOR: ReceiptDonor = {
+  id: 'contact-1',
+  first_name: 'Jane',
+  last_name: 'Doe',
+  email: 'jane@example.com',
+  address_line1: '1 Liberty Way',
+  address_line2: null,
+  city: 'Austin',
+  state: 'TX',
+  postal_code: '78701',
+};
+
+function contribution(overrides: Partial<ReceiptContribution>): ReceiptContribution {
+  return {
+    id: 'abcd1234-0000-0000-0000-000000000000',
+    contribution_type: 'membership',
+    amount: 45,
+    currency: 'USD',
+    payment_status: 'completed',
+    payment_method: 'card',
+    transaction_id: null,
+    stripe_payment_intent_id: 'pi_1',
+    is_recurring: false,
+    created_at: '2025-02-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+// ----------------------------------------------------------------
+// Pure functions
+// ----------------------------------------------------------------
+
+describe('getReceiptNumber', () => {
+  it('combines the payment year and the start of the contribution id', () => {
+    expect(getReceiptNumber(contribution({}))).toBe('RLC-2025-ABCD1234');
+  });
+});
+
+describe('buildGivingStatement', () => {
+  it('totals completed payments in the year by category, dues before donations', () => {
+    const statement = buildGivingStatement({
+      year: 2025,
+      donor: DONOR,
+      contributions: [
+        contribution({ id: 'd1', contribution_type: 'donation', amount: 100.1, created_at: '2025-06-01T00:00:00Z' }),
+        contribution({ id: 'm1' }),
+        contribution({ id: 'd2', contribution_type: 'donation', amount: 25, created_at: '2025-03-01T00:00:00Z' }),
+        // Excluded: not completed, or outside the year
+        contribution({ id: 'p1', payment_status: 'refunded' }),
+        contribution({ id: 'old', created_at: '2024-12-31T23:59:59Z' }),
+      ],
+    });
+
+    expect(statement.contributions.map((c) => c.id)).toEqual(['m1', 'd2', 'd1']);
+    expect(statement.groups).toEqual([
+      { contributionType: 'membership', label: 'Membership dues', totalCents: 4500, count: 1 },
+      { contributionType: 'donation', label: 'Donation', totalCents: 12510, count: 2 },
+    ]);
+    expect(statement.totalCents).toBe(17010);
+  });
+});
+
+describe('PDF rendering', () => {
+  it('renders receipts and statements, including empty years', async () => {
+    const receipt = await renderReceiptPdf(contribution({}), { ...DONOR, first_name: 'José' });
+    const statement = await renderGivingStatementPdf(
+      buildGivingStatement({ year: 2025, donor: DONOR, contributions: [] })
+    );
+
+    expect(Buffer.from(receipt.slice(0, 5)).toString()).toBe('%PDF-');
+    expect(Buffer.from(statement.slice(0, 5)).toString()).toBe('%PDF-');
+  });
+});
+
+// ----------------------------------------------------------------
+// Email
+// ----------------------------------------------------------------
+
+describe('sendContributionReceipt', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('emails the receipt PDF with the non-deductibility disclaimer', async () => {
+    mockedCreateServerClient.mockReturnValue(mockSupabase({
+      rlc_contacts: mockChain({ data: DONOR, error: null }),
+      rlc_contributions: mockChain({ data: contribution({}), error: null }),
+    }));
+    mockedSendEmail.mockResolvedValue({ id: 'email_1' });
+
+    const outcome = await sendContributionReceipt({ contactId: 'contact-1', contributionId: 'abcd1234' });
+
+    expect(outcome).toEqual({ success: true, sentTo: 'jane@example.com' });
+    const sent = mockedSendEmail.mock.calls[0][0];
+    expect(sent.html).toContain(NON_DEDUCTIBLE_DISCLAIMER);
+    expect(sent.attachments[0].filename).toBe('rlc-receipt-RLC-2025-ABCD1234.pdf');
+  });
+
+  it('refuses to send a receipt for a payment that has not completed', async () => {
+    mockedCreateServerClient.mockReturnValue(mockSupabase({
+      rlc_contacts: mockChain({ data: DONOR, error: null }),
+      rlc_contributions: mockChain({ data: contribution({ payment_status: 'pending' }), error: null }),
+    }));
+
+    const outcome = await sendContributionReceipt({ contactId: 'contact-1', contributionId: 'abcd1234' });
+
+    expect(outcome).toMatchObject({ success: false, reason: 'not_receiptable' });
+    expect(mockedSendEmail).not.toHaveBeenCalled();
+  });
+
+  it('reports not_found when the contribution belongs to someone else', async () => {
+    mockedCreateServerClient.mockReturnValue(mockSupabase({
+      rlc_contacts: mockChain({ data: DONOR, error: null }),
+      rlc_contributions: mockChain({ data: null, error: { code: 'PGRST116', message: 'no rows' } }),
+    }));
+
+    const outcome = await sendContributionReceipt({ contactId: 'contact-1', contributionId: 'other' });
+
+    expect(outcome).toMatchObject({ success: false, reason: 'not_found' });
+  });
+});
+
+describe('sendGivingStatement', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('does not send an empty statement', async () => {
+    mockedCreateServerClient.mockReturnValue(mockSupabase({
+      rlc_contacts: mockChain({ data: DONOR, error: null }),
+      rlc_contributions: mockChain({ data: [], error: null }),
+    }));
+
+    const outcome = await sendGivingStatement({ contactId: 'contact-1', year: 2025 });
+
+    expect(outcome).toMatchObject({ success: false, reason: 'not_receiptable' });
+    expect(mockedSendEmail).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,362 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { createPdfWriter } from '@/lib/pdf/writer';
+import { escapeHtml, sendEmail } from '@/lib/email/client';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { logger } from '@/lib/logger';
+import type { Contact, Contribution, ContributionType } from '@/types';
+
+type ServerClient = ReturnType<typeof createServerClient>;
+
+/** The RLC is not a 501(c)(3); every receipt and statement must carry this. */
+export const NON_DEDUCTIBLE_DISCLAIMER =
+  'The Republican Liberty Caucus is not a 501(c)(3) organization. Membership dues and contributions ' +
+  'to the Republican Liberty Caucus are not deductible as charitable contributions for federal income ' +
+  'tax purposes.';
+
+const CONTRIBUTION_TYPE_LABELS: Record<ContributionType, string> = {
+  membership: 'Membership dues',
+  donation: 'Donation',
+  event_registration: 'Event registration',
+  merchandise: 'Merchandise',
+};
+
+// ─── Pure types ──────────────────────────────────────────────────────────────
+
+export type ReceiptContribution = Pick<
+  Contribution,
+  | 'id'
+  | 'contribution_type'
+  | 'amount'
+  | 'currency'
+  | 'payment_status'
+  | 'payment_method'
+  | 'transaction_id'
+  | 'stripe_payment_intent_id'
+  | 'is_recurring'
+  | 'created_at'
+>;
+
+export type ReceiptDonor = Pick<
+  Contact,
+  'id' | 'first_name' | 'last_name' | 'email' | 'address_line1' | 'address_line2' | 'city' | 'state' | 'postal_code'
+>;
+
+export interface GivingStatementGroup {
+  contributionType: ContributionType;
+  label: string;
+  totalCents: number;
+  count: number;
+}
+
+export interface GivingStatement {
+  year: number;
+  donor: ReceiptDonor;
+  contributions: ReceiptContribution[];
+  groups: GivingStatementGroup[];
+  totalCents: number;
+  generatedAt: string;
+}
+
+// ─── Pure functions ──────────────────────────────────────────────────────────
+
+/** Stable, human-quotable receipt number derived from the contribution. */
+export function getReceiptNumber(contribution: Pick<Contribution, 'id' | 'created_at'>): string {
+  const year = new Date(contribution.created_at).getUTCFullYear();
+  return `RLC-${year}-${contribution.id.replace(/-/g, '').slice(0, 8).toUpperCase()}`;
+}
+
+/** Only settled payments get a receipt; pending, failed and refunded ones don't. */
+export function isReceiptable(contribution: Pick<Contribution, 'payment_status'>): boolean {
+  return contribution.payment_status === 'completed';
+}
+
+export function getContributionTypeLabel(type: ContributionType): string {
+  return CONTRIBUTION_TYPE_LABELS[type] ?? type;
+}
+
+/**
+ * Build a donor's giving statement for one calendar year (UTC) from their
+ * completed contributions, totalled separately for dues, donations and other payments.
+ */
+export function buildGivingStatement(params: {
+  year: number;
+  donor: ReceiptDonor;
+  contributions: ReceiptContribution[];
+  now?: Date;
+}): GivingStatement {
+  const { year, donor } = params;
+
+  const contributions = params.contributions
+    .filter((c) => isReceiptable(c) && new Date(c.created_at).getUTCFullYear() === year)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  const groupMap = new Map<ContributionType, GivingStatementGroup>();
+  for (const c of contributions) {
+    const group = groupMap.get(c.contribution_type) ?? {
+      contributionType: c.contribution_type,
+      label: getContributionTypeLabel(c.contribution_type),
+      totalCents: 0,
+      count: 0,
+    };
+    group.totalCents += Math.round(Number(c.amount) * 100);
+    group.count++;
+    groupMap.set(c.contribution_type, group);
+  }
+
+  const order = Object.keys(CONTRIBUTION_TYPE_LABELS) as ContributionType[];
+  const groups = [...groupMap.values()].sort(
+    (a, b) => order.indexOf(a.contributionType) - order.indexOf(b.contributionType)
+  );
+
+  return {
+    year,
+    donor,
+    contributions,
+    groups,
+    totalCents: groups.reduce((sum, g) => sum + g.totalCents, 0),
+    generatedAt: (params.now ?? new Date()).toISOString(),
+  };
+}
+
+function formatDonorAddress(donor: ReceiptDonor): string[] {
+  const cityLine = [donor.city, [donor.state, donor.postal_code].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+  return [donor.address_line1, donor.address_line2, cityLine].filter((line): line is string => !!line);
+}
+
+function donorName(donor: ReceiptDonor): string {
+  return `${donor.first_name} ${donor.last_name}`.trim();
+}
+
+// ─── Rendering ───────────────────────────────────────────────────────────────
+
+export async function renderReceiptPdf(contribution: ReceiptContribution, donor: ReceiptDonor): Promise<Uint8Array> {
+  const receiptNumber = getReceiptNumber(contribution);
+  const pdf = await createPdfWriter({
+    documentTitle: `Receipt ${receiptNumber}`,
+    footerText: `Republican Liberty Caucus - Receipt ${receiptNumber}`,
+  });
+
+  pdf.title('Payment Receipt', `Receipt ${receiptNumber}`);
+
+  pdf.heading('Received From');
+  pdf.paragraph(donorName(donor));
+  for (const line of formatDonorAddress(donor)) pdf.paragraph(line);
+  pdf.paragraph(donor.email, { muted: true });
+
+  pdf.heading('Payment');
+  pdf.keyValues([
+    ['Date', formatDate(contribution.created_at)],
+    ['Type', getContributionTypeLabel(contribution.contribution_type) + (contribution.is_recurring ? ' (recurring)' : '')],
+    ['Amount', formatCurrency(Number(contribution.amount), contribution.currency || 'USD')],
+    ['Payment method', contribution.payment_method || 'Card'],
+    ['Transaction reference', contribution.transaction_id || contribution.stripe_payment_intent_id || contribution.id],
+  ]);
+
+  pdf.spacer();
+  pdf.paragraph(NON_DEDUCTIBLE_DISCLAIMER, { size: 9 });
+
+  return pdf.save();
+}
+
+export async function renderGivingStatementPdf(statement: GivingStatement): Promise<Uint8Array> {
+  const pdf = await createPdfWriter({
+    documentTitle: `${statement.year} Giving Statement - ${donorName(statement.donor)}`,
+    footerText: `Republican Liberty Caucus - ${statement.year} giving statement - generated ${statement.generatedAt.slice(0, 10)}`,
+  });
+
+  pdf.title(`${statement.year} Annual Giving Statement`, `January 1 - December 31, ${statement.year}`);
+
+  pdf.heading('Prepared For');
+  pdf.paragraph(donorName(statement.donor));
+  for (const line of formatDonorAddress(statement.donor)) pdf.paragraph(line);
+  pdf.paragraph(statement.donor.email, { muted: true });
+
+  pdf.heading('Summary');
+  if (statement.groups.length === 0) {
+    pdf.paragraph(`No completed payments in ${statement.year}.`, { muted: true });
+  } else {
+    pdf.table(
+      [
+        { header: 'Category', width: 0.6 },
+        { header: 'Payments', width: 0.15, align: 'right' },
+        { header: 'Total', width: 0.25, align: 'right' },
+      ],
+      [
+        ...statement.groups.map((g) => [g.label, String(g.count), formatCurrency(g.totalCents / 100)]),
+        ['Total', String(statement.contributions.length), formatCurrency(statement.totalCents / 100)],
+      ],
+      { boldLastRow: true }
+    );
+  }
+
+  if (statement.contributions.length > 0) {
+    pdf.heading('Payments');
+    pdf.table(
+      [
+        { header: 'Date', width: 0.2 },
+        { header: 'Receipt', width: 0.25 },
+        { header: 'Type', width: 0.35 },
+        { header: 'Amount', width: 0.2, align: 'right' },
+      ],
+      statement.contributions.map((c) => [
+        c.created_at.slice(0, 10),
+        getReceiptNumber(c),
+        getContributionTypeLabel(c.contribution_type),
+        formatCurrency(Number(c.amount), c.currency || 'USD'),
+      ])
+    );
+  }
+
+  pdf.spacer();
+  pdf.paragraph(NON_DEDUCTIBLE_DISCLAIMER, { size: 9 });
+
+  return pdf.save();
+}
+
+// ─── Database functions ──────────────────────────────────────────────────────
+
+const CONTRIBUTION_COLUMNS =
+  'id, contact_id, contribution_type, amount, currency, payment_status, payment_method, transaction_id, stripe_payment_intent_id, is_recurring, created_at';
+
+const DONOR_COLUMNS = 'id, first_name, last_name, email, address_line1, address_line2, city, state, postal_code';
+
+export async function fetchReceiptDonor(supabase: ServerClient, contactId: string): Promise<ReceiptDonor | null> {
+  const { data, error } = await supabase
+    .from('rlc_contacts')
+    .select(DONOR_COLUMNS)
+    .eq('id', contactId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null;
+    throw new Error(`Database error fetching contact: ${error.message}`);
+  }
+  return data as ReceiptDonor;
+}
+
+/**
+ * Load one of a contact's contributions. Returns null if it doesn't exist or
+ * belongs to someone else, so callers can't probe other members' payments.
+ */
+export async function fetchReceiptContribution(
+  supabase: ServerClient,
+  contactId: string,
+  contributionId: string
+): Promise<ReceiptContribution | null> {
+  const { data, error } = await supabase
+    .from('rlc_contributions')
+    .select(CONTRIBUTION_COLUMNS)
+    .eq('id', contributionId)
+    .eq('contact_id', contactId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null;
+    throw new Error(`Database error fetching contribution: ${error.message}`);
+  }
+  return data as ReceiptContribution;
+}
+
+export async function fetchGivingStatement(
+  supabase: ServerClient,
+  donor: ReceiptDonor,
+  year: number
+): Promise<GivingStatement> {
+  const { data, error } = await supabase
+    .from('rlc_contributions')
+    .select(CONTRIBUTION_COLUMNS)
+    .eq('contact_id', donor.id)
+    .eq('payment_status', 'completed')
+    .gte('created_at', new Date(Date.UTC(year, 0, 1)).toISOString())
+    .lt('created_at', new Date(Date.UTC(year + 1, 0, 1)).toISOString())
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Database error fetching contributions: ${error.message}`);
+  }
+
+  return buildGivingStatement({ year, donor, contributions: (data || []) as ReceiptContribution[] });
+}
+
+export type SendReceiptOutcome =
+  | { success: true; sentTo: string }
+  | { success: false; reason: 'not_found' | 'not_receiptable'; error: string };
+
+/** Email a single contribution receipt (PDF attached) to the contact on file. */
+export async function sendContributionReceipt(params: {
+  contactId: string;
+  contributionId: string;
+}): Promise<SendReceiptOutcome> {
+  const supabase = createServerClient();
+
+  const donor = await fetchReceiptDonor(supabase, params.contactId);
+  if (!donor) return { success: false, reason: 'not_found', error: 'Member not found' };
+
+  const contribution = await fetchReceiptContribution(supabase, params.contactId, params.contributionId);
+  if (!contribution) return { success: false, reason: 'not_found', error: 'Contribution not found' };
+  if (!isReceiptable(contribution)) {
+    return {
+      success: false,
+      reason: 'not_receiptable',
+      error: `Receipts are only issued for completed payments (this one is ${contribution.payment_status})`,
+    };
+  }
+
+  const receiptNumber = getReceiptNumber(contribution);
+  const pdf = await renderReceiptPdf(contribution, donor);
+
+  await sendEmail({
+    to: donor.email,
+    subject: `Your Republican Liberty Caucus receipt ${receiptNumber}`,
+    html: `
+      <p>Hi ${escapeHtml(donor.first_name)},</p>
+      <p>Thank you for your ${escapeHtml(getContributionTypeLabel(contribution.contribution_type).toLowerCase())} of
+      <strong>${formatCurrency(Number(contribution.amount), contribution.currency || 'USD')}</strong>
+      on ${formatDate(contribution.created_at)}. Your receipt is attached.</p>
+      <p style="font-size: 12px; color: #666;">${NON_DEDUCTIBLE_DISCLAIMER}</p>
+    `,
+    attachments: [{ filename: `rlc-receipt-${receiptNumber}.pdf`, content: Buffer.from(pdf) }],
+  });
+
+  logger.info(`sendContributionReceipt: Sent receipt ${receiptNumber} to contact ${donor.id}`);
+  return { success: true, sentTo: donor.email };
+}
+
+/** Email a calendar year's giving statement (PDF attached) to the contact on file. */
+export async function sendGivingStatement(params: {
+  contactId: string;
+  year: number;
+}): Promise<SendReceiptOutcome> {
+  const supabase = createServerClient();
+
+  const donor = await fetchReceiptDonor(supabase, params.contactId);
+  if (!donor) return { success: false, reason: 'not_found', error: 'Member not found' };
+
+  const statement = await fetchGivingStatement(supabase, donor, params.year);
+  if (statement.contributions.length === 0) {
+    return {
+      success: false,
+      reason: 'not_receiptable',
+      error: `No completed payments in ${params.year}`,
+    };
+  }
+
+  const pdf = await renderGivingStatementPdf(statement);
+
+  await sendEmail({
+    to: donor.email,
+    subject: `Your ${params.year} Republican Liberty Caucus giving statement`,
+    html: `
+      <p>Hi ${escapeHtml(donor.first_name)},</p>
+      <p>Attached is your ${params.year} giving statement: ${statement.contributions.length} payment(s) totalling
+      <strong>${formatCurrency(statement.totalCents / 100)}</strong>. Thank you for supporting liberty.</p>
+      <p style="font-size: 12px; color: #666;">${NON_DEDUCTIBLE_DISCLAIMER}</p>
+    `,
+    attachments: [{ filename: `rlc-giving-statement-${params.year}.pdf`, content: Buffer.from(pdf) }],
+  });
+
+  logger.info(`sendGivingStatement: Sent ${params.year} statement to contact ${donor.id}`);
+  return { success: true, sentTo: donor.email };
+}
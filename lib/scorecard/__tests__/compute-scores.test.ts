@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+import { scoreLegislator, type ScoringBill, type ScoringVote } from '../compute-scores';
+
+function makeBill(overrides: Partial<ScoringBill> = {}): ScoringBill {
+  return { id: 'bill-1', category: 'fiscal', weight: 1, is_bonus: false, bonus_point_value: 0, ...overrides };
+}
+
+function makeVote(overrides: Partial<ScoringVote> = {}): ScoringVote {
+  return { bill_id: 'bill-1', vote: 'yea', aligned_with_liberty: true, sponsorship_role: null, ...overrides };
+}
+
+const bills: ScoringBill[] = [
+  makeBill({ id: 'b1', category: 'fiscal', weight: 3 }),
+  makeBill({ id: 'b2', category: 'fiscal', weight: 1 }),
+  makeBill({ id: 'b3', category: 'gun_rights', weight: 1 }),
+  makeBill({ id: 'b4', category: 'civil_liberties', weight: 2 }),
+  makeBill({ id: 'bonus', category: 'fiscal', is_bonus: true, bonus_point_value: 5 }),
+];
+
+const votes: ScoringVote[] = [
+  makeVote({ bill_id: 'b1', aligned_with_liberty: true }),
+  makeVote({ bill_id: 'b2', vote: 'nay', aligned_with_liberty: false }),
+  makeVote({ bill_id: 'b3', vote: 'nay', aligned_with_liberty: false }),
+  makeVote({ bill_id: 'b4', vote: 'absent', aligned_with_liberty: false }),
+];
+
+describe('scoreLegislator', () => {
+  it('keeps the legacy algorithm: equal weights, forgiven absences, bonus points', () => {
+    const result = scoreLegislator(
+      [...votes, makeVote({ bill_id: 'bonus', sponsorship_role: 'sponsor' })],
+      bills,
+      { method: 'legacy', absencePenaltyThreshold: 0 }
+    );
+
+    // 1 aligned / (1 + 2 against + 1 penalized absence) = 25%, plus 5 bonus
+    expect(result).toMatchObject({ votesAligned: 1, votesAgainst: 2, absences: 1, bonusPoints: 5, libertyScore: 30 });
+    expect(result.categoryScores).toEqual({
+      fiscal: { aligned: 1, against: 1, score: 50 },
+      gun_rights: { aligned: 0, against: 1, score: 0 },
+      civil_liberties: { aligned: 0, against: 0, score: null },
+    });
+  });
+
+  it('applies bill weights to aligned, against and penalized absences', () => {
+    const result = scoreLegislator(votes, bills, { method: 'weighted', absencePenaltyThreshold: 0 });
+
+    // 3 aligned weight / (3 + 2 against weight + 2 absence weight) = 42.86%
+    expect(result.libertyScore).toBe(43);
+    expect(result.categoryScores.fiscal).toEqual({ aligned: 1, against: 1, score: 75 });
+  });
+
+  it('forgives absences up to the threshold and counts missing votes as absences', () => {
+    const result = scoreLegislator(
+      [makeVote({ bill_id: 'b1' }), makeVote({ bill_id: 'b2', vote: 'not_applicable' })],
+      bills,
+      { method: 'weighted', absencePenaltyThreshold: 1 }
+    );
+
+    // b3 and b4 have no vote record: two absences (weights 1 and 2), one forgiven
+    expect(result.absences).toBe(2);
+    // 3 / (3 + 1 penalized * 1.5 average weight) = 66.67%
+    expect(result.libertyScore).toBe(67);
+    expect(Object.keys(result.categoryScores)).toEqual(['fiscal']);
+  });
+
+  it('scores zero when no votes are eligible', () => {
+    const result = scoreLegislator(
+      [makeVote({ bill_id: 'b1', vote: 'not_applicable' })],
+      [makeBill({ id: 'b1' })],
+      { method: 'legacy', absencePenaltyThreshold: 3 }
+    );
+
+    expect(result.libertyScore).toBe(0);
+    expect(result.categoryScores).toEqual({});
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildEmbedUrl,
+  buildOEmbed,
+  embedQuery,
+  filterByDistrict,
+  parseEmbedConfig,
+  parseEmbedTarget,
+  type EmbedLegislator,
+} from '../embed-config';
+import { BASE_URL } from '@/lib/constants';
+
+function makeLegislator(overrides: Partial<EmbedLegislator> = {}): EmbedLegislator {
+  return {
+    id: 'leg-1',
+    name: 'Jane Adams',
+    party: 'R',
+    chamber: 'state_house',
+    state_code: 'TX',
+    district: '12',
+    photo_url: null,
+    computed_score: 80,
+    ...overrides,
+  };
+}
+
+describe('parseEmbedConfig', () => {
+  it('falls back to defaults for missing or unknown values', () => {
+    expect(parseEmbedConfig({ mode: 'carousel', theme: 'neon', size: ['large', 'small'], chamber: 'house' })).toEqual({
+      mode: 'table',
+      theme: 'light',
+      size: 'large',
+      legislatorId: null,
+      chamber: null,
+      district: null,
+    });
+  });
+
+  it('round-trips through the embed query string', () => {
+    const config = parseEmbedConfig({ mode: 'district', theme: 'dark', chamber: 'state_senate', district: ' 07 ' });
+    expect(embedQuery(config)).toBe('?mode=district&theme=dark&chamber=state_senate&district=07');
+    expect(parseEmbedConfig(Object.fromEntries(new URLSearchParams(embedQuery(config))))).toEqual(config);
+  });
+
+  it('keeps the plain table embed URL unchanged', () => {
+    expect(buildEmbedUrl('2025-tx', parseEmbedConfig({}), 'https://example.org')).toBe(
+      'https://example.org/scorecards/embed/2025-tx'
+    );
+  });
+});
+
+describe('parseEmbedTarget', () => {
+  it('maps embed, scorecard and legislator URLs on our host to widgets', () => {
+    expect(parseEmbedTarget(`${BASE_URL}/scorecards/embed/2025-tx?mode=top&size=small`)).toMatchObject({
+      slug: '2025-tx',
+      config: { mode: 'top', size: 'small' },
+    });
+    expect(parseEmbedTarget(`${BASE_URL}/scorecards/2025-tx`)).toMatchObject({ slug: '2025-tx', config: { mode: 'table' } });
+    expect(parseEmbedTarget(`${BASE_URL}/scorecards/2025-tx/leg-1`)).toMatchObject({
+      slug: '2025-tx',
+      config: { mode: 'legislator', legislatorId: 'leg-1' },
+    });
+  });
+
+  it('rejects other hosts and pages', () => {
+    expect(parseEmbedTarget('https://evil.example/scorecards/2025-tx')).toBeNull();
+    expect(parseEmbedTarget(`${BASE_URL}/scorecards/compare`)).toBeNull();
+    expect(parseEmbedTarget(`${BASE_URL}/blog/post`)).toBeNull();
+    expect(parseEmbedTarget('not a url')).toBeNull();
+  });
+});
+
+describe('buildOEmbed', () => {
+  it('returns a rich iframe sized within the consumer limits', () => {
+    const target = parseEmbedTarget(`${BASE_URL}/scorecards/embed/2025-tx?mode=legislator&legislator=leg-1`)!;
+    const oembed = buildOEmbed({ ...target, title: 'Jane "JA" Adams', maxWidth: 300, maxHeight: null });
+
+    expect(oembed).toMatchObject({ version: '1.0', type: 'rich', width: 300, height: 180 });
+    expect(oembed.html).toContain(`src="${BASE_URL}/scorecards/embed/2025-tx?mode=legislator&amp;legislator=leg-1"`);
+    expect(oembed.html).toContain('title="Jane &quot;JA&quot; Adams"');
+  });
+});
+
+describe('filterByDistrict', () => {
+  it('matches district labels regardless of prefix and zero padding', () => {
+    const legislators = [
+      makeLegislator({ id: 'a', district: 'HD-012' }),
+      makeLegislator({ id: 'b', district: '12' }),
+      makeLegislator({ id: 'c', district: '120' }),
+      makeLegislator({ id: 'd', district: 'AL' }),
+    ];
+
+    expect(filterByDistrict(legislators, '012').map((l) => l.id)).toEqual(['a', 'b']);
+    expect(filterByDistrict(legislators, 'al').map((l) => l.id)).toEqual(['d']);
+    expect(filterByDistrict(legislators, ' ')).toEqual([]);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}));
+
+import {
+  getScoreTrend,
+  sortSessionsChronologically,
+  summarizeCategoryAlignment,
+  summarizeLifetime,
+  type LegislatorSessionScore,
+} from '../legislator-history';
+
+function makeSession(overrides: Partial<LegislatorSessionScore> = {}): LegislatorSessionScore {
+  return {
+    sessionId: 'session-1',
+    sessionName: '2024 Session',
+    sessionSlug: '2024-session',
+    sessionYear: 2024,
+    jurisdiction: 'state',
+    chamber: 'state_house',
+    libertyScore: 80,
+    votesAligned: 8,
+    totalBills: 10,
+    absences: 0,
+    bonusPoints: 0,
+    ...overrides,
+  };
+}
+
+describe('summarizeCategoryAlignment', () => {
+  it('counts only yea/nay votes and orders categories by volume', () => {
+    const result = summarizeCategoryAlignment([
+      { category: 'taxes', vote: 'yea', aligned_with_liberty: true },
+      { category: 'taxes', vote: 'nay', aligned_with_liberty: false },
+      { category: 'taxes', vote: 'nay', aligned_with_liberty: true },
+      { category: 'taxes', vote: 'absent', aligned_with_liberty: false },
+      { category: 'guns', vote: 'yea', aligned_with_liberty: true },
+      { category: 'guns', vote: 'not_applicable', aligned_with_liberty: false },
+      { category: '', vote: 'nay', aligned_with_liberty: false },
+    ]);
+
+    expect(result).toEqual([
+      { category: 'taxes', aligned: 2, opposed: 1, alignmentPct: 66.67 },
+      { category: 'guns', aligned: 1, opposed: 0, alignmentPct: 100 },
+      { category: 'other', aligned: 0, opposed: 1, alignmentPct: 0 },
+    ]);
+  });
+});
+
+describe('session history', () => {
+  const sessions = sortSessionsChronologically([
+    makeSession({ sessionId: 's-2024', sessionYear: 2024, libertyScore: 72 }),
+    makeSession({ sessionId: 's-2022', sessionName: '2022 Session', sessionYear: 2022, libertyScore: 55 }),
+    makeSession({ sessionId: 's-2023', sessionName: '2023 Session', sessionYear: 2023, libertyScore: 90 }),
+  ]);
+
+  it('orders sessions oldest first', () => {
+    expect(sessions.map((s) => s.sessionId)).toEqual(['s-2022', 's-2023', 's-2024']);
+  });
+
+  it('measures the trend from the first to the latest session', () => {
+    expect(getScoreTrend(sessions)).toBe(17);
+    expect(getScoreTrend(sessions.slice(0, 1))).toBeNull();
+  });
+
+  it('summarizes lifetime alignment and average score', () => {
+    const lifetime = summarizeLifetime(sessions, [
+      { category: 'taxes', aligned: 3, opposed: 1, alignmentPct: 75 },
+      { category: 'guns', aligned: 1, opposed: 0, alignmentPct: 100 },
+    ]);
+
+    expect(lifetime).toEqual({ aligned: 4, opposed: 1, alignmentPct: 80, averageScore: 72.33 });
+    expect(summarizeLifetime([], [])).toEqual({ aligned: 0, opposed: 0, alignmentPct: null, averageScore: null });
+  });
+});
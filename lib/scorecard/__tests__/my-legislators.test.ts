@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}));
+
+import {
+  matchOfficial,
+  pickKeyVotes,
+  type KeyVoteBill,
+  type MatchableLegislator,
+  type OfficialLocation,
+} from '../my-legislators';
+
+function makeOfficial(overrides: Partial<OfficialLocation> = {}): OfficialLocation {
+  return {
+    name: 'Jane Q Adams',
+    districtType: 'STATE_LOWER',
+    stateCode: 'TX',
+    district: '12',
+    ...overrides,
+  };
+}
+
+function makeLegislator(overrides: Partial<MatchableLegislator> = {}): MatchableLegislator {
+  return {
+    id: 'leg-1',
+    name: 'Jane Adams',
+    chamber: 'state_house',
+    state_code: 'TX',
+    district: '12',
+    ...overrides,
+  };
+}
+
+function makeBill(overrides: Partial<KeyVoteBill> = {}): KeyVoteBill {
+  return {
+    id: 'bill-1',
+    bill_number: 'HB 1',
+    title: 'Property Tax Relief',
+    liberty_position: 'yea',
+    weight: 1,
+    vote_date: '2025-03-01',
+    ...overrides,
+  };
+}
+
+describe('matchOfficial', () => {
+  it('matches across middle initials, suffixes and accents', () => {
+    const legislators = [
+      makeLegislator(),
+      makeLegislator({ id: 'leg-2', name: 'José Muñoz Jr.', district: '7' }),
+    ];
+
+    expect(matchOfficial(makeOfficial(), legislators)?.id).toBe('leg-1');
+    expect(matchOfficial(makeOfficial({ name: 'Jose Munoz', district: '007' }), legislators)?.id).toBe('leg-2');
+  });
+
+  it('matches by last name when the first name differs', () => {
+    const legislators = [makeLegislator({ chamber: 'us_senate', name: 'Ted Cruz', district: null })];
+    const official = makeOfficial({ name: 'Rafael Cruz', districtType: 'NATIONAL_UPPER', district: 'TX' });
+
+    expect(matchOfficial(official, legislators)?.id).toBe('leg-1');
+  });
+
+  it('breaks ties by district, then first name', () => {
+    const legislators = [
+      makeLegislator({ id: 'a', name: 'John Smith', district: '3' }),
+      makeLegislator({ id: 'b', name: 'Mary Smith', district: '4' }),
+      makeLegislator({ id: 'c', name: 'Ann Smith', district: null }),
+    ];
+
+    expect(matchOfficial(makeOfficial({ name: 'Mary Smith', district: '4' }), legislators)?.id).toBe('b');
+    expect(matchOfficial(makeOfficial({ name: 'Ann Smith', district: null }), legislators)?.id).toBe('c');
+  });
+
+  it('rejects other chambers, states, districts and non-legislative offices', () => {
+    const legislators = [makeLegislator()];
+
+    expect(matchOfficial(makeOfficial({ districtType: 'STATE_UPPER' }), legislators)).toBeNull();
+    expect(matchOfficial(makeOfficial({ stateCode: 'OK' }), legislators)).toBeNull();
+    expect(matchOfficial(makeOfficial({ district: '13' }), legislators)).toBeNull();
+    expect(matchOfficial(makeOfficial({ districtType: 'STATE_EXEC' }), legislators)).toBeNull();
+  });
+
+  it('returns null when several candidates remain', () => {
+    const legislators = [
+      makeLegislator({ id: 'a', name: 'John Smith', district: null }),
+      makeLegislator({ id: 'b', name: 'John Smith', district: null }),
+    ];
+
+    expect(matchOfficial(makeOfficial({ name: 'John Smith' }), legislators)).toBeNull();
+  });
+});
+
+describe('pickKeyVotes', () => {
+  it('returns the highest-weighted votes, most recent first, skipping not applicable', () => {
+    const bills = [
+      makeBill({ id: 'low', bill_number: 'HB 1', weight: 1 }),
+      makeBill({ id: 'old', bill_number: 'HB 2', weight: 3, vote_date: '2025-02-01' }),
+      makeBill({ id: 'new', bill_number: 'HB 3', weight: 3, vote_date: '2025-04-01' }),
+      makeBill({ id: 'na', bill_number: 'HB 4', weight: 5 }),
+      makeBill({ id: 'unvoted', bill_number: 'HB 5', weight: 5 }),
+    ];
+    const votes = [
+      { bill_id: 'low', vote: 'yea' as const, aligned_with_liberty: true },
+      { bill_id: 'old', vote: 'nay' as const, aligned_with_liberty: false },
+      { bill_id: 'new', vote: 'yea' as const, aligned_with_liberty: true },
+      { bill_id: 'na', vote: 'not_applicable' as const, aligned_with_liberty: false },
+    ];
+
+    const keyVotes = pickKeyVotes(bills, votes, 2);
+
+    expect(keyVotes.map((k) => k.billId)).toEqual(['new', 'old']);
+    expect(keyVotes[1]).toMatchObject({ billNumber: 'HB 2', vote: 'nay', alignedWithLiberty: false });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// ── Mocks ──────────────────────────────────────────────────────────
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}));
+
+import {
+  listSessionScores,
+  MAX_PAGE_LIMIT,
+  parsePagination,
+  SCORE_CSV_COLUMNS,
+  toCsv,
+  VOTE_CSV_COLUMNS,
+} from '../public-api';
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+type ChainResult = { data?: unknown; count?: number | null; error?: unknown };
+
+function mockChain(terminalResult: ChainResult = { data: null, error: null }) {
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  const methods = ['select', 'eq', 'in', 'order', 'range'];
+  for (const m of methods) {
+    chain[m] = vi.fn().mockReturnValue(chain);
+  }
+  (chain as Record<string, unknown>)['then'] = (resolve: (v: ChainResult) => void) =>
+    resolve(terminalResult);
+  return chain;
+}
+
+function mockSupabase(chains: Record<string, ReturnType<typeof mockChain>>) {
+  return {
+    from: vi.fn((table: string) => chains[table] ?? mockChain()),
+  };
+}
+
+// ── Tests ──────────────────────────────────────────────────────────
+
+describe('parsePagination', () => {
+  it('defaults and clamps limit and offset', () => {
+    expect(parsePagination(new URLSearchParams())).toEqual({ limit: 100, offset: 0 });
+    expect(parsePagination(new URLSearchParams('limit=10000&offset=-5'))).toEqual({ limit: MAX_PAGE_LIMIT, offset: 0 });
+    expect(parsePagination(new URLSearchParams('limit=0&offset=40'))).toEqual({ limit: 1, offset: 40 });
+    expect(parsePagination(new URLSearchParams('limit=abc'))).toEqual({ limit: 100, offset: 0 });
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes text, writes numbers and booleans bare, and leaves nulls empty', () => {
+    const csv = toCsv(VOTE_CSV_COLUMNS, [
+      {
+        billId: 'b1',
+        billNumber: 'HB 1',
+        legislatorId: 'l1',
+        legislatorName: '=Smith, "Bob"',
+        vote: 'nay',
+        alignedWithLiberty: false,
+      },
+    ]);
+
+    expect(csv.split('\n')).toEqual([
+      '"bill_id","bill_number","legislator_id","legislator_name","vote","aligned_with_liberty"',
+      '"b1","HB 1","l1","\'=Smith, ""Bob""","nay",false',
+    ]);
+  });
+});
+
+describe('listSessionScores', () => {
+  it('pages stored scores and joins legislator details', async () => {
+    const scores = mockChain({
+      data: [
+        { legislator_id: 'l1', liberty_score: '87.5', votes_aligned: 7, total_bills: 8, absences: 0, bonus_points: '0', category_scores: null },
+        { legislator_id: 'gone', liberty_score: 50, votes_aligned: 4, total_bills: 8, absences: 0, bonus_points: 0, category_scores: {} },
+      ],
+      count: 42,
+      error: null,
+    });
+    const legislators = mockChain({
+      data: [{ id: 'l1', name: 'Jane Adams', party: 'R', chamber: 'state_house', state_code: 'TX', district: null }],
+      error: null,
+    });
+    const supabase = mockSupabase({ rlc_scorecard_legislator_scores: scores, rlc_legislators: legislators });
+
+    const result = await listSessionScores(supabase as never, 'session-1', { limit: 2, offset: 20 });
+
+    expect(scores.range).toHaveBeenCalledWith(20, 21);
+    expect(result.total).toBe(42);
+    expect(result.rows).toEqual([
+      {
+        legislatorId: 'l1',
+        name: 'Jane Adams',
+        party: 'R',
+        chamber: 'state_house',
+        stateCode: 'TX',
+        district: null,
+        libertyScore: 87.5,
+        votesAligned: 7,
+        totalBills: 8,
+        absences: 0,
+        bonusPoints: 0,
+        categoryScores: {},
+      },
+    ]);
+    expect(toCsv(SCORE_CSV_COLUMNS, result.rows).split('\n')[1]).toBe('"l1","Jane Adams","R","state_house","TX",,87.5,7,8,0,0');
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { LegiScanBillDetail } from '@/lib/legiscan/types';
+
+// ── Mocks ──────────────────────────────────────────────────────────
+
+const mockGetBillDetail = vi.fn();
+const mockSendEmail = vi.fn();
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}));
+
+vi.mock('@/lib/legiscan/client', () => ({
+  getBillDetail: (...args: unknown[]) => mockGetBillDetail(...args),
+}));
+
+vi.mock('@/lib/email/client', () => ({
+  escapeHtml: (s: string) => s,
+  sendEmail: (...args: unknown[]) => mockSendEmail(...args),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import {
+  discoverRollCalls,
+  isFloorVote,
+  suggestRollCall,
+  toRollCallCandidates,
+  type DiscoveryBill,
+  type DiscoverySession,
+} from '../roll-call-discovery';
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+type ChainResult = { data?: unknown; error?: unknown };
+
+function mockChain(terminalResult: ChainResult = { data: null, error: null }) {
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  const methods = ['select', 'eq', 'in', 'single', 'update', 'upsert'];
+  for (const m of methods) {
+    chain[m] = vi.fn().mockReturnValue(chain);
+  }
+  (chain as Record<string, unknown>)['then'] = (resolve: (v: ChainResult) => void) =>
+    resolve(terminalResult);
+  return chain;
+}
+
+/** Each table hands out its chains in call order; the last one repeats. */
+function mockSupabase(chains: Record<string, ReturnType<typeof mockChain>[]>) {
+  return {
+    from: vi.fn((table: string) => {
+      const queue = chains[table];
+      if (!queue || queue.length === 0) return mockChain();
+      return queue.length > 1 ? queue.shift()! : queue[0];
+    }),
+  };
+}
+
+type LegiScanVote = LegiScanBillDetail['votes'][number];
+
+function makeVote(overrides: Partial<LegiScanVote> = {}): LegiScanVote {
+  return {
+    roll_call_id: 500,
+    date: '2026-03-01',
+    desc: 'House Floor: Third Reading',
+    yea: 80,
+    nay: 60,
+    nv: 2,
+    absent: 8,
+    total: 150,
+    passed: 1,
+    chamber: 'H',
+    chamber_id: 1,
+    url: '',
+    state_link: '',
+    ...overrides,
+  };
+}
+
+const session: DiscoverySession = { id: 'session-1', name: '2026 Texas', jurisdiction: 'state', created_by: 'owner-1' };
+const bill: DiscoveryBill = {
+  id: 'bill-1',
+  bill_number: 'HB 12',
+  title: 'Property Tax Relief',
+  legiscan_bill_id: 9000,
+  legiscan_roll_call_id: null,
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockSendEmail.mockResolvedValue({ id: 'email-1' });
+});
+
+// ── Pure functions ─────────────────────────────────────────────────
+
+describe('roll-call classification', () => {
+  it('treats committee votes as non-floor', () => {
+    expect(isFloorVote('House Ways and Means Committee: Do Pass')).toBe(false);
+    expect(isFloorVote('Senate Subcommittee on Taxation')).toBe(false);
+    expect(isFloorVote('Senate Floor: Final Passage')).toBe(true);
+  });
+
+  it('maps LegiScan votes to candidates by chamber', () => {
+    const [candidate] = toRollCallCandidates('bill-1', [makeVote({ chamber: 'S', passed: 0 })], 'federal');
+    expect(candidate).toMatchObject({
+      bill_id: 'bill-1',
+      legiscan_roll_call_id: 500,
+      chamber: 'us_senate',
+      is_floor_vote: true,
+      not_voting: 2,
+      passed: false,
+    });
+  });
+
+  it('suggests the latest floor passage vote', () => {
+    const candidates = toRollCallCandidates('bill-1', [
+      makeVote({ roll_call_id: 1, date: '2026-02-01', desc: 'House Committee on Finance' }),
+      makeVote({ roll_call_id: 2, date: '2026-03-01', desc: 'House Floor: Third Reading' }),
+      makeVote({ roll_call_id: 3, date: '2026-03-05', desc: 'House Floor: Motion to Table Amendment 2' }),
+    ], 'state');
+
+    expect(suggestRollCall(candidates)?.legiscan_roll_call_id).toBe(2);
+    expect(suggestRollCall(candidates.slice(0, 1))).toBeNull();
+  });
+});
+
+// ── discoverRollCalls ──────────────────────────────────────────────
+
+describe('discoverRollCalls', () => {
+  it('records new roll calls and emails the owner about floor votes', async () => {
+    mockGetBillDetail.mockResolvedValue({
+      votes: [
+        makeVote({ roll_call_id: 1, desc: 'House Committee on Finance' }),
+        makeVote({ roll_call_id: 2 }),
+      ],
+    });
+
+    const existing = mockChain({ data: [], error: null });
+    const upsert = mockChain({
+      data: [
+        { id: 'rc-1', legiscan_roll_call_id: 1, is_floor_vote: false, description: 'House Committee on Finance' },
+        { id: 'rc-2', legiscan_roll_call_id: 2, is_floor_vote: true, description: 'House Floor: Third Reading', vote_date: '2026-03-01', yea: 80, nay: 60, passed: true },
+      ],
+      error: null,
+    });
+    const stamp = mockChain();
+    const owner = mockChain({ data: { email: 'owner@example.com', first_name: 'Pat' }, error: null });
+    const supabase = mockSupabase({
+      rlc_scorecard_roll_calls: [existing, upsert, stamp],
+      rlc_contacts: [owner],
+    });
+
+    const result = await discoverRollCalls(supabase as never, session, bill);
+
+    expect(result.discovered).toBe(2);
+    expect(result.floorVotes.map((r) => r.id)).toEqual(['rc-2']);
+    expect(result.notified).toBe(true);
+    expect(mockSendEmail).toHaveBeenCalledWith(expect.objectContaining({
+      to: 'owner@example.com',
+      subject: 'Floor vote on HB 12 (2026 Texas)',
+    }));
+    expect(stamp.in).toHaveBeenCalledWith('id', ['rc-2']);
+  });
+
+  it('does nothing when every roll call is already known and announced', async () => {
+    mockGetBillDetail.mockResolvedValue({ votes: [makeVote({ roll_call_id: 2 })] });
+    const existing = mockChain({
+      data: [{ id: 'rc-2', legiscan_roll_call_id: 2, is_floor_vote: true, notified_at: '2026-03-02T00:00:00Z' }],
+      error: null,
+    });
+    const supabase = mockSupabase({ rlc_scorecard_roll_calls: [existing] });
+
+    const result = await discoverRollCalls(supabase as never, session, bill);
+
+    expect(result).toEqual({ discovered: 0, floorVotes: [], notified: false });
+    expect(existing.upsert).not.toHaveBeenCalled();
+    expect(mockSendEmail).not.toHaveBeenCalled();
+  });
+
+  it('retries the notice for a known floor vote whose email failed on an earlier run', async () => {
+    mockGetBillDetail.mockResolvedValue({ votes: [makeVote({ roll_call_id: 2 })] });
+    const existing = mockChain({
+      data: [{ id: 'rc-2', legiscan_roll_call_id: 2, is_floor_vote: true, notified_at: null, description: 'House Floor: Third Reading' }],
+      error: null,
+    });
+    const stamp = mockChain();
+    const owner = mockChain({ data: { email: 'owner@example.com', first_name: 'Pat' }, error: null });
+    const supabase = mockSupabase({
+      rlc_scorecard_roll_calls: [existing, stamp],
+      rlc_contacts: [owner],
+    });
+
+    const result = await discoverRollCalls(supabase as never, session, bill);
+
+    expect(result).toMatchObject({ discovered: 0, notified: true });
+    expect(existing.upsert).not.toHaveBeenCalled();
+    expect(mockSendEmail).toHaveBeenCalledWith(expect.objectContaining({ to: 'owner@example.com' }));
+    expect(stamp.update).toHaveBeenCalledWith({ notified_at: expect.any(String) });
+    expect(stamp.in).toHaveBeenCalledWith('id', ['rc-2']);
+  });
+});
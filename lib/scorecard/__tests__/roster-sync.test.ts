@@ -0,0 +1,157 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}));
+
+vi.mock('@/lib/legiscan/client', () => ({
+  getPeopleList: vi.fn(),
+  getSessionList: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+import {
+  appendRosterHistory,
+  diffRoster,
+  matchUnlinked,
+  parseDistrict,
+  pickLegiScanSession,
+  ROSTER_HISTORY_LIMIT,
+  toRosterPerson,
+  type RosterChange,
+} from '../roster-sync';
+import type { LegiScanPerson, LegiScanSession } from '@/lib/legiscan/types';
+
+function makePerson(overrides: Partial<LegiScanPerson> = {}): LegiScanPerson {
+  return {
+    people_id: 1001,
+    person_hash: 'abc',
+    state_id: 43,
+    party_id: '2',
+    party: 'R',
+    role_id: 1,
+    role: 'Rep',
+    name: 'Jane Doe',
+    first_name: 'Jane',
+    middle_name: '',
+    last_name: 'Doe',
+    suffix: '',
+    district: 'HD-012',
+    committee_sponsor: 0,
+    committee_id: 0,
+    ...overrides,
+  };
+}
+
+function makeSession(overrides: Partial<LegiScanSession>): LegiScanSession {
+  return {
+    session_id: 1,
+    state_id: 43,
+    year_start: 2025,
+    year_end: 2026,
+    session_name: '89th Legislature',
+    session_title: '89th Legislature',
+    special: 0,
+    ...overrides,
+  };
+}
+
+const now = new Date('2026-03-26T06:30:00Z');
+
+describe('pickLegiScanSession', () => {
+  it('picks the regular session covering the year', () => {
+    const sessions = [
+      makeSession({ session_id: 1, year_start: 2023, year_end: 2024 }),
+      makeSession({ session_id: 2, year_start: 2025, year_end: 2026, special: 1 }),
+      makeSession({ session_id: 3, year_start: 2025, year_end: 2026 }),
+    ];
+
+    expect(pickLegiScanSession(sessions, 2026)?.session_id).toBe(3);
+    expect(pickLegiScanSession(sessions, 2022)).toBeNull();
+  });
+});
+
+describe('parseDistrict', () => {
+  it('handles state and congressional district formats', () => {
+    expect(parseDistrict('HD-012')).toEqual({ district: '12', stateCode: null });
+    expect(parseDistrict('HD-TX-7')).toEqual({ district: '7', stateCode: 'TX' });
+    expect(parseDistrict('HD-AK-AL')).toEqual({ district: 'AL', stateCode: 'AK' });
+    expect(parseDistrict('SD-AL')).toEqual({ district: null, stateCode: 'AL' });
+    expect(parseDistrict('')).toEqual({ district: null, stateCode: null });
+  });
+});
+
+describe('toRosterPerson', () => {
+  it('maps state legislators to the session state', () => {
+    expect(toRosterPerson(makePerson({ role_id: 2, district: 'SD-005' }), { jurisdiction: 'state', state_code: 'TX' }))
+      .toMatchObject({ chamber: 'state_senate', stateCode: 'TX', district: '5', photoUrl: null });
+  });
+
+  it('maps members of Congress to their home state with a Bioguide photo', () => {
+    const person = toRosterPerson(
+      makePerson({ district: 'HD-FL-3', bioguide_id: 'C001039' }),
+      { jurisdiction: 'federal', state_code: null }
+    );
+
+    expect(person).toMatchObject({
+      chamber: 'us_house',
+      stateCode: 'FL',
+      district: '3',
+      photoUrl: 'https://bioguide.congress.gov/bioguide/photo/C/C001039.jpg',
+    });
+  });
+});
+
+describe('diffRoster', () => {
+  const person = toRosterPerson(makePerson({ party: 'I', district: 'HD-014' }), { jurisdiction: 'state', state_code: 'TX' });
+
+  it('records party and district changes', () => {
+    const changes = diffRoster(
+      { party: 'R', chamber: 'state_house', district: '12', state_code: 'TX' },
+      person,
+      2100,
+      now
+    );
+
+    expect(changes).toEqual([
+      { field: 'party', from: 'R', to: 'I', changed_at: now.toISOString(), legiscan_session_id: 2100 },
+      { field: 'district', from: '12', to: '14', changed_at: now.toISOString(), legiscan_session_id: 2100 },
+    ]);
+  });
+
+  it('does not treat filling placeholders as changes', () => {
+    expect(diffRoster({ party: 'Unknown', chamber: 'state_house', district: null, state_code: 'US' }, person, 2100, now))
+      .toEqual([]);
+  });
+});
+
+describe('appendRosterHistory', () => {
+  it('keeps only the most recent entries', () => {
+    const change: RosterChange = { field: 'party', from: 'R', to: 'I', changed_at: now.toISOString(), legiscan_session_id: 1 };
+    const history = Array.from({ length: ROSTER_HISTORY_LIMIT }, () => change);
+    const next = appendRosterHistory({ roster_history: history }, [{ ...change, to: 'L' }]);
+
+    expect(next).toHaveLength(ROSTER_HISTORY_LIMIT);
+    expect(next[next.length - 1].to).toBe('L');
+  });
+});
+
+describe('matchUnlinked', () => {
+  const person = toRosterPerson(makePerson({ name: "Jane O'Doe" }), { jurisdiction: 'state', state_code: 'TX' });
+  const base = { state_code: 'TX', chamber: 'state_house' as const, legiscan_people_id: null };
+
+  it('links a single unlinked legislator by name, state and chamber', () => {
+    const match = matchUnlinked(person, [
+      { ...base, name: 'Jane ODoe' },
+      { ...base, name: 'Jane ODoe', chamber: 'state_senate' as const },
+    ]);
+    expect(match?.chamber).toBe('state_house');
+  });
+
+  it('refuses ambiguous matches', () => {
+    expect(matchUnlinked(person, [{ ...base, name: 'Jane ODoe' }, { ...base, name: "Jane O'Doe" }])).toBeNull();
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}));
+
+import {
+  buildScorecardExport,
+  fetchScorecardExport,
+  MATRIX_BILLS_PER_TABLE,
+  renderScorecardPdf,
+  scorecardPdfFilename,
+  voteMark,
+} from '../scorecard-pdf';
+import type { ScorecardBill, ScorecardSession } from '@/types';
+
+const session: ScorecardSession = {
+  id: 'session-1',
+  name: '2025 Texas “Liberty” Session',
+  slug: '2025-texas',
+  jurisdiction: 'state',
+  state_code: 'TX',
+  charter_id: null,
+  session_year: 2025,
+  status: 'published',
+  description: 'First paragraph.\n\nSecond paragraph with José.',
+  chamber: 'state_house',
+  party_filter: null,
+  absence_penalty_threshold: 3,
+  scoring_method: 'legacy',
+  legiscan_session_id: null,
+  created_by: null,
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+};
+
+function makeBill(overrides: Partial<ScorecardBill> = {}): ScorecardBill {
+  return {
+    id: 'bill-1',
+    session_id: 'session-1',
+    legiscan_bill_id: null,
+    bill_number: 'HB 1',
+    title: 'Property Tax Relief',
+    description: 'Cuts property taxes.',
+    liberty_position: 'yea',
+    ai_suggested_position: null,
+    ai_analysis: null,
+    category: 'fiscal',
+    weight: 1,
+    vote_date: null,
+    bill_status: 'voted',
+    legiscan_roll_call_id: null,
+    sort_order: 0,
+    is_bonus: false,
+    bonus_point_value: 0,
+    vote_result_summary: null,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function makeLegislator(id: string, name: string) {
+  return { id, name, party: 'R', chamber: 'state_house' as const, state_code: 'TX', district: '12' };
+}
+
+type ChainResult = { data?: unknown; error?: unknown };
+
+function mockChain(terminalResult: ChainResult = { data: null, error: null }) {
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  const methods = ['select', 'eq', 'in', 'order', 'range'];
+  for (const m of methods) {
+    chain[m] = vi.fn().mockReturnValue(chain);
+  }
+  chain.single = vi.fn().mockResolvedValue(terminalResult);
+  (chain as Record<string, unknown>)['then'] = (resolve: (v: ChainResult) => void) =>
+    resolve(terminalResult);
+  return chain;
+}
+
+/** Each table hands out its chains in call order. */
+function mockSupabase(chains: Record<string, ReturnType<typeof mockChain>[]>) {
+  return {
+    from: vi.fn((table: string) => chains[table]?.shift() ?? mockChain()),
+  };
+}
+
+describe('voteMark', () => {
+  it('matches the web vote matrix cells', () => {
+    expect(voteMark({ vote: 'yea', aligned_with_liberty: true })).toBe('1');
+    expect(voteMark({ vote: 'nay', aligned_with_liberty: false })).toBe('0');
+    expect(voteMark({ vote: 'absent', aligned_with_liberty: false })).toBe('NV');
+    expect(voteMark({ vote: 'not_applicable', aligned_with_liberty: false })).toBe('NA');
+    expect(voteMark(undefined)).toBe('-');
+  });
+});
+
+describe('buildScorecardExport', () => {
+  it('ranks by stored score with shared ranks for ties', () => {
+    const data = buildScorecardExport({
+      session,
+      bills: [makeBill({ id: 'b2', sort_order: 2 }), makeBill({ id: 'b1', sort_order: 1 })],
+      legislators: [
+        makeLegislator('l1', 'Adams'),
+        makeLegislator('l2', 'Baker'),
+        makeLegislator('l3', 'Clark'),
+        makeLegislator('l4', 'Davis'),
+      ],
+      votes: [{ bill_id: 'b1', legislator_id: 'l2', vote: 'yea', aligned_with_liberty: true }],
+      scores: [
+        { legislator_id: 'l1', liberty_score: 80, votes_aligned: 8, absences: 0 },
+        { legislator_id: 'l2', liberty_score: 90, votes_aligned: 9, absences: 1 },
+        { legislator_id: 'l3', liberty_score: 80, votes_aligned: 8, absences: 0 },
+      ],
+      generatedAt: new Date('2026-04-01T00:00:00Z'),
+    });
+
+    expect(data.bills.map((b) => b.id)).toEqual(['b1', 'b2']);
+    expect(data.rows.map((r) => [r.legislator.name, r.rank])).toEqual([
+      ['Baker', 1],
+      ['Adams', 2],
+      ['Clark', 2],
+      ['Davis', null],
+    ]);
+    expect(data.rows[0].marks).toEqual({ b1: '1', b2: '-' });
+    expect(data.averageScore).toBe(83.33);
+  });
+});
+
+describe('fetchScorecardExport', () => {
+  it('pages through scores past the 1000-row response cap', async () => {
+    const firstPage = Array.from({ length: 1000 }, (_, i) => ({
+      legislator_id: `l${i}`,
+      liberty_score: 50,
+      votes_aligned: 1,
+      absences: 0,
+    }));
+    const scoresPage1 = mockChain({ data: firstPage, error: null });
+    const scoresPage2 = mockChain({ data: [{ legislator_id: 'l1000', liberty_score: 90, votes_aligned: 2, absences: 0 }], error: null });
+    const legislatorChunks = [
+      mockChain({ data: firstPage.map((s) => makeLegislator(s.legislator_id, s.legislator_id)), error: null }),
+      mockChain({ data: [makeLegislator('l1000', 'Last')], error: null }),
+    ];
+    const supabase = mockSupabase({
+      rlc_scorecard_sessions: [mockChain({ data: session, error: null })],
+      rlc_scorecard_bills: [mockChain({ data: [], error: null })],
+      rlc_scorecard_legislator_scores: [scoresPage1, scoresPage2],
+      rlc_legislators: [...legislatorChunks],
+    });
+
+    const data = await fetchScorecardExport(supabase as never, { sessionId: 'session-1' }, { publicOnly: false });
+
+    expect(scoresPage2.range).toHaveBeenCalledWith(1000, 1999);
+    expect(legislatorChunks[1].in).toHaveBeenCalledWith('id', ['l1000']);
+    expect(data?.rows).toHaveLength(1001);
+    expect(data?.rows[0]).toMatchObject({ legislator: { name: 'Last' }, rank: 1 });
+  });
+});
+
+describe('renderScorecardPdf', () => {
+  it('renders sessions wider than one matrix table, with non-WinAnsi text', async () => {
+    const bills = Array.from({ length: MATRIX_BILLS_PER_TABLE + 3 }, (_, i) =>
+      makeBill({ id: `b${i}`, bill_number: `HB ${i + 1}`, sort_order: i })
+    );
+    const data = buildScorecardExport({
+      session,
+      bills,
+      legislators: [makeLegislator('l1', 'Núñez ✓')],
+      votes: [],
+      scores: [{ legislator_id: 'l1', liberty_score: 75, votes_aligned: 6, absences: 2 }],
+      generatedAt: new Date('2026-04-01T00:00:00Z'),
+    });
+
+    const pdf = await renderScorecardPdf(data);
+
+    expect(Buffer.from(pdf.slice(0, 5)).toString()).toBe('%PDF-');
+    expect(scorecardPdfFilename(session)).toBe('2025-texas-liberty-scorecard.pdf');
+  });
+});
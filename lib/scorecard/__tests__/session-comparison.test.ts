@@ -0,0 +1,179 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}));
+
+import {
+  compareSessions,
+  comparisonToCsv,
+  fetchSessionComparison,
+  getComparisonError,
+  matchLegislators,
+  parseSessionSlugs,
+  type ComparisonLegislator,
+  type ComparisonSession,
+} from '../session-comparison';
+
+function makeSession(overrides: Partial<ComparisonSession> = {}): ComparisonSession {
+  return {
+    id: 'session-2024',
+    name: '2024 Texas House',
+    slug: '2024-tx-house',
+    jurisdiction: 'state',
+    state_code: 'TX',
+    chamber: 'state_house',
+    session_year: 2024,
+    ...overrides,
+  };
+}
+
+function makeLegislator(overrides: Partial<ComparisonLegislator> = {}): ComparisonLegislator {
+  return {
+    id: 'leg-1',
+    legiscan_people_id: null,
+    name: 'Jane Adams',
+    party: 'R',
+    chamber: 'state_house',
+    state_code: 'TX',
+    district: '12',
+    ...overrides,
+  };
+}
+
+type ChainResult = { data?: unknown; error?: unknown };
+
+function mockChain(terminalResult: ChainResult = { data: null, error: null }) {
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  const methods = ['select', 'eq', 'in', 'order', 'range'];
+  for (const m of methods) {
+    chain[m] = vi.fn().mockReturnValue(chain);
+  }
+  (chain as Record<string, unknown>)['then'] = (resolve: (v: ChainResult) => void) =>
+    resolve(terminalResult);
+  return chain;
+}
+
+/** Each table hands out its chains in call order. */
+function mockSupabase(chains: Record<string, ReturnType<typeof mockChain>[]>) {
+  return {
+    from: vi.fn((table: string) => chains[table]?.shift() ?? mockChain()),
+  };
+}
+
+const s2024 = makeSession();
+const s2025 = makeSession({ id: 'session-2025', name: '2025 Texas House', slug: '2025-tx-house', session_year: 2025 });
+
+describe('parseSessionSlugs', () => {
+  it('accepts repeated and comma-separated params and drops duplicates', () => {
+    expect(parseSessionSlugs(['a,b', ' c ', 'a', ''])).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('getComparisonError', () => {
+  it('requires two to four sessions with the same jurisdiction and chamber', () => {
+    expect(getComparisonError([s2024])).toMatch(/at least 2/);
+    expect(getComparisonError([s2024, s2025])).toBeNull();
+    expect(getComparisonError([s2024, makeSession({ id: 'x', chamber: 'state_senate' })])).toMatch(/jurisdiction and chamber/);
+    expect(getComparisonError([s2024, makeSession({ id: 'x', state_code: 'OK' })])).toMatch(/jurisdiction and chamber/);
+  });
+});
+
+describe('matchLegislators', () => {
+  it('joins records on LegiScan id, and hand-entered duplicates on name', () => {
+    const keys = matchLegislators([
+      makeLegislator({ id: 'seed', name: 'Jane  Adams' }),
+      makeLegislator({ id: 'synced', legiscan_people_id: 101 }),
+      makeLegislator({ id: 'resynced', legiscan_people_id: 101, name: 'Jane Q. Adams' }),
+      makeLegislator({ id: 'namesake', legiscan_people_id: 202 }),
+    ]);
+
+    expect(keys.get('seed')).toBe('id:synced');
+    expect(keys.get('resynced')).toBe('id:synced');
+    expect(keys.get('namesake')).toBe('id:namesake');
+  });
+});
+
+describe('compareSessions', () => {
+  const legislators = [
+    makeLegislator({ id: 'adams' }),
+    makeLegislator({ id: 'adams-2025', name: 'Jane Adams' }),
+    makeLegislator({ id: 'baker', name: 'Bob Baker', district: '3' }),
+    makeLegislator({ id: 'clark', name: 'Cal Clark', district: '4' }),
+    makeLegislator({ id: 'davis', name: 'Dee Davis', district: '5' }),
+  ];
+  const comparison = compareSessions({
+    sessions: [s2024, s2025],
+    legislators,
+    scores: [
+      { session_id: s2024.id, legislator_id: 'adams', liberty_score: 60, category_scores: { fiscal: { aligned: 3, against: 2, score: 60 } } },
+      { session_id: s2025.id, legislator_id: 'adams-2025', liberty_score: 90, category_scores: { fiscal: { aligned: 9, against: 1, score: 90 } } },
+      { session_id: s2024.id, legislator_id: 'baker', liberty_score: 80, category_scores: { fiscal: { aligned: 4, against: 1, score: 80 } } },
+      { session_id: s2025.id, legislator_id: 'baker', liberty_score: 70, category_scores: {} },
+      { session_id: s2024.id, legislator_id: 'clark', liberty_score: 50, category_scores: null },
+      { session_id: s2025.id, legislator_id: 'davis', liberty_score: 100, category_scores: {} },
+    ],
+  });
+
+  it('matches legislators across sessions and classifies membership', () => {
+    expect(comparison.rows.map((r) => [r.legislator.name, r.status, r.delta])).toEqual([
+      ['Dee Davis', 'new', null],
+      ['Jane Adams', 'returning', 30],
+      ['Bob Baker', 'returning', -10],
+      ['Cal Clark', 'departed', null],
+    ]);
+    expect(comparison.rows[1].legislator.id).toBe('adams-2025');
+    expect(comparison.newMembers.map((r) => r.legislator.id)).toEqual(['davis']);
+    expect(comparison.departed.map((r) => r.legislator.id)).toEqual(['clark']);
+  });
+
+  it('ranks movers and averages each session', () => {
+    expect(comparison.movers.up.map((r) => r.legislator.name)).toEqual(['Jane Adams']);
+    expect(comparison.movers.down.map((r) => r.legislator.name)).toEqual(['Bob Baker']);
+    expect(comparison.averages).toEqual({ [s2024.id]: 63.33, [s2025.id]: 86.67 });
+  });
+
+  it('aggregates category alignment across legislators', () => {
+    expect(comparison.categories).toEqual([
+      { category: 'fiscal', scores: { [s2024.id]: 70, [s2025.id]: 90 }, delta: 20 },
+    ]);
+  });
+
+  it('exports one CSV row per matched legislator', () => {
+    const lines = comparisonToCsv(comparison).split('\n');
+    expect(lines[0]).toBe('"Legislator","Party","State","District","Status","2024 Texas House","2025 Texas House","Change"');
+    expect(lines[3]).toBe('"Bob Baker","R","TX","3","Returning",80.00,70.00,-10.00');
+    expect(lines).toHaveLength(5);
+  });
+});
+
+describe('fetchSessionComparison', () => {
+  it('pages through scores past the 1000-row response cap', async () => {
+    const firstPage = Array.from({ length: 1000 }, (_, i) => ({
+      session_id: s2024.id,
+      legislator_id: `l${i}`,
+      liberty_score: 50,
+      category_scores: null,
+    }));
+    const scoresPage2 = mockChain({
+      data: [{ session_id: s2025.id, legislator_id: 'l0', liberty_score: 80, category_scores: null }],
+      error: null,
+    });
+    const legislators = firstPage.map((row, i) =>
+      makeLegislator({ id: row.legislator_id, name: `Member ${i}`, district: String(i) })
+    );
+    const legislatorsChain = mockChain({ data: legislators, error: null });
+    const supabase = mockSupabase({
+      rlc_scorecard_sessions: [mockChain({ data: [s2025, s2024], error: null })],
+      rlc_scorecard_legislator_scores: [mockChain({ data: firstPage, error: null }), scoresPage2],
+      rlc_legislators: [legislatorsChain],
+    });
+
+    const result = await fetchSessionComparison(supabase as never, [s2024.slug, s2025.slug]);
+
+    expect(scoresPage2.range).toHaveBeenCalledWith(1000, 1999);
+    if (!('comparison' in result)) throw new Error(result.error);
+    expect(legislatorsChain.in).toHaveBeenCalledWith('id', expect.arrayContaining(['l0', 'l999']));
+    expect(result.comparison.rows.find((r) => r.legislator.id === 'l0')).toMatchObject({ status: 'returning', delta: 30 });
+  });
+});
@@ -1,43 +1,161 @@
 import { createServerClient } from '@/lib/supabase/server';
 import { logger } from '@/lib/logger';
+import type { CategorySubScore, ScoringMethod } from '@/types';
 
-interface BillRow {
+const ABSENCE_VOTES: ReadonlySet<string> = new Set(['not_voting', 'absent', 'present']);
+
+// ─── Pure types ──────────────────────────────────────────────────────────────
+
+export interface ScoringBill {
   id: string;
+  category: string;
+  weight: number;
   is_bonus: boolean;
   bonus_point_value: number;
 }
 
-interface VoteRow {
-  legislator_id: string;
+export interface ScoringVote {
   bill_id: string;
   vote: string;
   aligned_with_liberty: boolean;
   sponsorship_role: string | null;
 }
 
-interface SessionRow {
-  absence_penalty_threshold: number;
+export interface ScoringOptions {
+  method: ScoringMethod;
+  absencePenaltyThreshold: number;
 }
 
-interface LegislatorAccumulator {
+export interface LegislatorScoreResult {
   votesAligned: number;
   votesAgainst: number;
   absences: number;
   bonusPoints: number;
-  billsWithVotes: Set<string>;
+  libertyScore: number;
+  categoryScores: Record<string, CategorySubScore>;
 }
 
+// ─── Pure functions ──────────────────────────────────────────────────────────
+
 /**
- * Compute liberty scores for all legislators in a session.
+ * Score one legislator's votes in a session.
  *
- * Algorithm (matches RLC PDF scorecards):
+ * Legacy (matches RLC PDF scorecards):
  *   eligibleVotes = votesAligned + votesAgainst + penalizedAbsences
  *   baseScore = votesAligned / eligibleVotes * 100
- *   libertyScore = round(baseScore + bonusPoints)
  *
- * Absences (not_voting, absent, present) are forgiven up to the threshold.
- * not_applicable votes are excluded entirely (legislator wasn't in office).
- * Bonus points are awarded to sponsors/cosponsors of bonus bills.
+ * Weighted applies each bill's weight to the aligned/against tallies. Penalized
+ * absences are charged at the average weight of the bills the legislator missed.
+ *
+ * Both methods finish with libertyScore = round(baseScore + bonusPoints).
+ * Absences (not_voting, absent, present, or no vote record) are forgiven up to
+ * the threshold. not_applicable votes are excluded entirely (legislator wasn't
+ * in office). Bonus points are awarded to sponsors/cosponsors of bonus bills.
+ *
+ * Category sub-scores count only aligned/against votes, weighted the same way
+ * as the overall score.
+ */
+export function scoreLegislator(
+  votes: ScoringVote[],
+  bills: ScoringBill[],
+  options: ScoringOptions
+): LegislatorScoreResult {
+  const billMap = new Map(bills.map((b) => [b.id, b]));
+  const weightOf = (bill: ScoringBill) =>
+    options.method === 'weighted' ? Number(bill.weight) || 1 : 1;
+
+  let votesAligned = 0;
+  let votesAgainst = 0;
+  let alignedWeight = 0;
+  let againstWeight = 0;
+  let bonusPoints = 0;
+  const absenceWeights: number[] = [];
+  const billsWithVotes = new Set<string>();
+  const categories = new Map<string, CategorySubScore & { alignedWeight: number; againstWeight: number }>();
+
+  for (const vote of votes) {
+    const bill = billMap.get(vote.bill_id);
+    if (!bill) continue;
+
+    if (bill.is_bonus) {
+      if (vote.sponsorship_role) {
+        bonusPoints += Number(bill.bonus_point_value) || 0;
+      }
+      continue;
+    }
+
+    billsWithVotes.add(bill.id);
+    if (vote.vote === 'not_applicable') continue;
+
+    const weight = weightOf(bill);
+    const key = bill.category || 'other';
+    const category = categories.get(key) ?? { aligned: 0, against: 0, score: null, alignedWeight: 0, againstWeight: 0 };
+    categories.set(key, category);
+
+    if (ABSENCE_VOTES.has(vote.vote)) {
+      absenceWeights.push(weight);
+    } else if (vote.aligned_with_liberty) {
+      votesAligned++;
+      alignedWeight += weight;
+      category.aligned++;
+      category.alignedWeight += weight;
+    } else {
+      votesAgainst++;
+      againstWeight += weight;
+      category.against++;
+      category.againstWeight += weight;
+    }
+  }
+
+  // Regular bills with no vote record also count as absences
+  for (const bill of bills) {
+    if (!bill.is_bonus && !billsWithVotes.has(bill.id)) {
+      absenceWeights.push(weightOf(bill));
+    }
+  }
+
+  const absences = absenceWeights.length;
+  const penalizedAbsences = Math.max(0, absences - options.absencePenaltyThreshold);
+  const averageAbsenceWeight = absences > 0
+    ? absenceWeights.reduce((sum, w) => sum + w, 0) / absences
+    : 0;
+  const eligibleWeight = alignedWeight + againstWeight + penalizedAbsences * averageAbsenceWeight;
+  const baseScore = eligibleWeight > 0 ? (alignedWeight / eligibleWeight) * 100 : 0;
+
+  const categoryScores: Record<string, CategorySubScore> = {};
+  for (const [key, c] of categories) {
+    const counted = c.alignedWeight + c.againstWeight;
+    categoryScores[key] = {
+      aligned: c.aligned,
+      against: c.against,
+      score: counted > 0 ? Math.round((c.alignedWeight / counted) * 100) : null,
+    };
+  }
+
+  return {
+    votesAligned,
+    votesAgainst,
+    absences,
+    bonusPoints,
+    libertyScore: Math.round(baseScore + bonusPoints),
+    categoryScores,
+  };
+}
+
+// ─── Database functions ──────────────────────────────────────────────────────
+
+interface VoteRow extends ScoringVote {
+  legislator_id: string;
+}
+
+interface SessionRow {
+  absence_penalty_threshold: number;
+  scoring_method: ScoringMethod;
+}
+
+/**
+ * Compute liberty scores for all legislators in a session using the session's
+ * scoring method. Only legislators with at least one vote record are scored.
  */
 export async function computeScoresForSession(sessionId: string): Promise<{ updated: number }> {
   const supabase = createServerClient();
@@ -45,7 +163,7 @@ export async function computeScoresForSession(sessionId: string): Promise<{ upda
   // Get session config
   const { data: sessionData, error: sessionError } = await supabase
     .from('rlc_scorecard_sessions')
-    .select('absence_penalty_threshold')
+    .select('absence_penalty_threshold, scoring_method')
     .eq('id', sessionId)
     .single();
 
@@ -54,103 +172,49 @@ export async function computeScoresForSession(sessionId: string): Promise<{ upda
   }
 
   const session = sessionData as SessionRow;
-  const threshold = session.absence_penalty_threshold;
+  const options: ScoringOptions = {
+    method: session.scoring_method ?? 'legacy',
+    absencePenaltyThreshold: session.absence_penalty_threshold,
+  };
 
   // Get all bills for this session
   const { data: billsData, error: billsError } = await supabase
     .from('rlc_scorecard_bills')
-    .select('id, is_bonus, bonus_point_value')
+    .select('id, category, weight, is_bonus, bonus_point_value')
     .eq('session_id', sessionId);
 
   if (billsError) {
     throw new Error(`Failed to fetch bills: ${billsError.message}`);
   }
 
-  const bills = (billsData || []) as BillRow[];
+  const bills = (billsData || []) as ScoringBill[];
   if (bills.length === 0) return { updated: 0 };
 
-  const regularBills = bills.filter((b) => !b.is_bonus);
-  const bonusBills = bills.filter((b) => b.is_bonus);
-  const totalRegularBills = regularBills.length;
-  const allBillIds = bills.map((b) => b.id);
-
-  const bonusPointMap = new Map<string, number>();
-  for (const b of bonusBills) {
-    bonusPointMap.set(b.id, Number(b.bonus_point_value) || 0);
-  }
+  const totalRegularBills = bills.filter((b) => !b.is_bonus).length;
 
   // Get all votes for these bills
   const { data: votesData, error: votesError } = await supabase
     .from('rlc_scorecard_votes')
     .select('legislator_id, bill_id, vote, aligned_with_liberty, sponsorship_role')
-    .in('bill_id', allBillIds);
+    .in('bill_id', bills.map((b) => b.id));
 
   if (votesError) {
     throw new Error(`Failed to fetch votes: ${votesError.message}`);
   }
 
-  const votes = (votesData || []) as VoteRow[];
-
-  // Accumulate per-legislator stats
-  const accumulators = new Map<string, LegislatorAccumulator>();
-
-  function getAccumulator(legislatorId: string): LegislatorAccumulator {
-    let acc = accumulators.get(legislatorId);
-    if (!acc) {
-      acc = { votesAligned: 0, votesAgainst: 0, absences: 0, bonusPoints: 0, billsWithVotes: new Set() };
-      accumulators.set(legislatorId, acc);
-    }
-    return acc;
-  }
-
-  for (const vote of votes) {
-    const acc = getAccumulator(vote.legislator_id);
-    const isBonusBill = bonusPointMap.has(vote.bill_id);
-
-    if (isBonusBill) {
-      // For bonus bills, award points to sponsors/cosponsors
-      if (vote.sponsorship_role) {
-        acc.bonusPoints += bonusPointMap.get(vote.bill_id)!;
-      }
-    } else {
-      // Regular bill
-      acc.billsWithVotes.add(vote.bill_id);
-
-      if (vote.vote === 'not_applicable') {
-        // Not in office — excluded entirely
-        continue;
-      }
-
-      if (vote.vote === 'not_voting' || vote.vote === 'absent' || vote.vote === 'present') {
-        acc.absences++;
-      } else if (vote.aligned_with_liberty) {
-        acc.votesAligned++;
-      } else {
-        acc.votesAgainst++;
-      }
-    }
-  }
-
-  // Also count regular bills with NO vote record as absences
-  // (only for legislators who have at least one vote in the session)
-  for (const [, acc] of accumulators) {
-    const missingVotes = totalRegularBills - acc.billsWithVotes.size;
-    if (missingVotes > 0) {
-      acc.absences += missingVotes;
-    }
+  const votesByLegislator = new Map<string, ScoringVote[]>();
+  for (const vote of (votesData || []) as VoteRow[]) {
+    const list = votesByLegislator.get(vote.legislator_id) ?? [];
+    list.push(vote);
+    votesByLegislator.set(vote.legislator_id, list);
   }
 
   // Compute and upsert scores
   let updated = 0;
   const errors: string[] = [];
 
-  for (const [legislatorId, acc] of accumulators) {
-    const penalizedAbsences = Math.max(0, acc.absences - threshold);
-    const eligibleVotes = acc.votesAligned + acc.votesAgainst + penalizedAbsences;
-    const baseScore = eligibleVotes > 0
-      ? (acc.votesAligned / eligibleVotes) * 100
-      : 0;
-    const libertyScore = Math.round(baseScore + acc.bonusPoints);
+  for (const [legislatorId, legislatorVotes] of votesByLegislator) {
+    const result = scoreLegislator(legislatorVotes, bills, options);
 
     // Upsert into legislator scores table
     const { error: upsertError } = await supabase
@@ -158,11 +222,12 @@ export async function computeScoresForSession(sessionId: string): Promise<{ upda
       .upsert({
         session_id: sessionId,
         legislator_id: legislatorId,
-        votes_aligned: acc.votesAligned,
+        votes_aligned: result.votesAligned,
         total_bills: totalRegularBills,
-        absences: acc.absences,
-        bonus_points: acc.bonusPoints,
-        liberty_score: libertyScore,
+        absences: result.absences,
+        bonus_points: result.bonusPoints,
+        liberty_score: result.libertyScore,
+        category_scores: result.categoryScores,
         updated_at: new Date().toISOString(),
       } as never, {
         onConflict: 'session_id,legislator_id',
@@ -180,7 +245,7 @@ export async function computeScoresForSession(sessionId: string): Promise<{ upda
     const { error: updateError } = await supabase
       .from('rlc_legislators')
       .update({
-        current_score: libertyScore,
+        current_score: result.libertyScore,
         updated_at: new Date().toISOString(),
       } as never)
       .eq('id', legislatorId);
@@ -191,7 +256,7 @@ export async function computeScoresForSession(sessionId: string): Promise<{ upda
   }
 
   if (errors.length > 0) {
-    logger.error(`Score computation: ${errors.length} legislators failed out of ${accumulators.size}`);
+    logger.error(`Score computation: ${errors.length} legislators failed out of ${votesByLegislator.size}`);
   }
 
   return { updated };
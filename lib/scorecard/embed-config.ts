@@ -0,0 +1,216 @@
+import { BASE_URL } from '@/lib/constants';
+import type { LegislativeChamber, ScoredLegislator } from '@/types';
+
+export const EMBED_MODES = ['table', 'legislator', 'top', 'district'] as const;
+export const EMBED_THEMES = ['light', 'dark'] as const;
+export const EMBED_SIZES = ['small', 'medium', 'large'] as const;
+
+const CHAMBERS: readonly LegislativeChamber[] = ['us_house', 'us_senate', 'state_house', 'state_senate'];
+
+const DEFAULT_CONFIG: EmbedConfig = {
+  mode: 'table',
+  theme: 'light',
+  size: 'medium',
+  legislatorId: null,
+  chamber: null,
+  district: null,
+};
+
+/** Iframe dimensions in pixels; every widget also stretches to 100% width when placed */
+export const EMBED_DIMENSIONS: Record<EmbedMode, Record<EmbedSize, { width: number; height: number }>> = {
+  table: {
+    small: { width: 400, height: 480 },
+    medium: { width: 600, height: 600 },
+    large: { width: 800, height: 800 },
+  },
+  legislator: {
+    small: { width: 260, height: 150 },
+    medium: { width: 320, height: 180 },
+    large: { width: 400, height: 220 },
+  },
+  top: {
+    small: { width: 320, height: 360 },
+    medium: { width: 400, height: 560 },
+    large: { width: 600, height: 640 },
+  },
+  district: {
+    small: { width: 320, height: 320 },
+    medium: { width: 400, height: 380 },
+    large: { width: 500, height: 440 },
+  },
+};
+
+/** Rows shown by the table and top-defenders widgets at each size */
+export const EMBED_ROW_LIMITS: Record<'table' | 'top', Record<EmbedSize, number>> = {
+  table: { small: 20, medium: 50, large: 100 },
+  top: { small: 5, medium: 10, large: 10 },
+};
+
+// ─── Pure types ──────────────────────────────────────────────────────────────
+
+export type EmbedMode = (typeof EMBED_MODES)[number];
+export type EmbedTheme = (typeof EMBED_THEMES)[number];
+export type EmbedSize = (typeof EMBED_SIZES)[number];
+
+export interface EmbedConfig {
+  mode: EmbedMode;
+  theme: EmbedTheme;
+  size: EmbedSize;
+  /** Required by the legislator badge */
+  legislatorId: string | null;
+  /** Limits the table, top-defenders and district widgets to one chamber */
+  chamber: LegislativeChamber | null;
+  /** Pre-filled district for the district lookup widget */
+  district: string | null;
+}
+
+export type EmbedSearchParams = Record<string, string | string[] | undefined>;
+
+export type EmbedLegislator = Pick<
+  ScoredLegislator,
+  'id' | 'name' | 'party' | 'chamber' | 'state_code' | 'district' | 'photo_url' | 'computed_score'
+>;
+
+export interface OEmbedResponse {
+  version: '1.0';
+  type: 'rich';
+  provider_name: string;
+  provider_url: string;
+  title: string;
+  html: string;
+  width: number;
+  height: number;
+  cache_age: number;
+}
+
+// ─── Pure functions ──────────────────────────────────────────────────────────
+
+function first(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function pick<T extends string>(options: readonly T[], value: string | undefined, fallback: T): T {
+  return options.includes(value as T) ? (value as T) : fallback;
+}
+
+/**
+ * Widget settings from the embed URL's query string. Unknown values fall back
+ * to the defaults rather than erroring, so a mistyped option on a partner's
+ * site still renders something.
+ */
+export function parseEmbedConfig(params: EmbedSearchParams): EmbedConfig {
+  const chamber = first(params.chamber);
+  const district = first(params.district)?.trim();
+  return {
+    mode: pick(EMBED_MODES, first(params.mode), DEFAULT_CONFIG.mode),
+    theme: pick(EMBED_THEMES, first(params.theme), DEFAULT_CONFIG.theme),
+    size: pick(EMBED_SIZES, first(params.size), DEFAULT_CONFIG.size),
+    legislatorId: first(params.legislator)?.trim() || null,
+    chamber: CHAMBERS.includes(chamber as LegislativeChamber) ? (chamber as LegislativeChamber) : null,
+    district: district ? district.slice(0, 20) : null,
+  };
+}
+
+/** Query string for a config, leaving out defaults so plain embeds keep their short URL. */
+export function embedQuery(config: Partial<EmbedConfig>): string {
+  const params = new URLSearchParams();
+  if (config.mode && config.mode !== DEFAULT_CONFIG.mode) params.set('mode', config.mode);
+  if (config.theme && config.theme !== DEFAULT_CONFIG.theme) params.set('theme', config.theme);
+  if (config.size && config.size !== DEFAULT_CONFIG.size) params.set('size', config.size);
+  if (config.mode === 'legislator' && config.legislatorId) params.set('legislator', config.legislatorId);
+  if (config.mode !== 'legislator' && config.chamber) params.set('chamber', config.chamber);
+  if (config.mode === 'district' && config.district) params.set('district', config.district);
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+export function buildEmbedUrl(slug: string, config: Partial<EmbedConfig>, baseUrl: string = BASE_URL): string {
+  return `${baseUrl}/scorecards/embed/${encodeURIComponent(slug)}${embedQuery(config)}`;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function buildEmbedHtml(src: string, dimensions: { width: number; height: number }, title: string): string {
+  return `<iframe src="${escapeAttribute(src)}" title="${escapeAttribute(title)}" width="${dimensions.width}" height="${dimensions.height}" frameborder="0" style="border: 1px solid #e5e7eb; border-radius: 8px; max-width: 100%;"></iframe>`;
+}
+
+/**
+ * Resolve a URL an oEmbed consumer hands us to a scorecard slug and widget
+ * config. Accepts embed URLs as well as the public scorecard and legislator
+ * pages, which map to the table and badge widgets. Other hosts and paths
+ * return null.
+ */
+export function parseEmbedTarget(
+  url: string,
+  baseUrl: string = BASE_URL
+): { slug: string; config: EmbedConfig } | null {
+  let parsed: URL;
+  let segments: string[];
+  try {
+    parsed = new URL(url);
+    segments = parsed.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return null;
+  }
+  if (parsed.host !== new URL(baseUrl).host) return null;
+  if (segments[0] !== 'scorecards') return null;
+
+  const params = Object.fromEntries(parsed.searchParams.entries());
+  if (segments[1] === 'embed' && segments.length === 3) {
+    return { slug: segments[2], config: parseEmbedConfig(params) };
+  }
+  if (segments[1] === 'embed' || segments[1] === 'compare') return null;
+  if (segments.length === 2) {
+    return { slug: segments[1], config: { ...DEFAULT_CONFIG } };
+  }
+  if (segments.length === 3) {
+    return { slug: segments[1], config: { ...DEFAULT_CONFIG, mode: 'legislator', legislatorId: segments[2] } };
+  }
+  return null;
+}
+
+/** Shrink the widget to fit the consumer's maxwidth/maxheight, never growing it. */
+export function fitDimensions(
+  dimensions: { width: number; height: number },
+  maxWidth: number | null,
+  maxHeight: number | null
+): { width: number; height: number } {
+  return {
+    width: maxWidth && maxWidth > 0 ? Math.min(dimensions.width, maxWidth) : dimensions.width,
+    height: maxHeight && maxHeight > 0 ? Math.min(dimensions.height, maxHeight) : dimensions.height,
+  };
+}
+
+export function buildOEmbed(params: {
+  slug: string;
+  config: EmbedConfig;
+  title: string;
+  maxWidth: number | null;
+  maxHeight: number | null;
+}): OEmbedResponse {
+  const dimensions = fitDimensions(EMBED_DIMENSIONS[params.config.mode][params.config.size], params.maxWidth, params.maxHeight);
+  return {
+    version: '1.0',
+    type: 'rich',
+    provider_name: 'Republican Liberty Caucus',
+    provider_url: BASE_URL,
+    title: params.title,
+    html: buildEmbedHtml(buildEmbedUrl(params.slug, params.config), dimensions, params.title),
+    width: dimensions.width,
+    height: dimensions.height,
+    cache_age: 3600,
+  };
+}
+
+/** Compare district labels loosely: "HD-012", "12" and "012" are the same district. */
+export function normalizeDistrict(district: string | null): string {
+  return (district ?? '').toUpperCase().replace(/^[A-Z]+-?(?=\d)/, '').replace(/^0+(?=\w)/, '').trim();
+}
+
+export function filterByDistrict(legislators: EmbedLegislator[], district: string): EmbedLegislator[] {
+  const target = normalizeDistrict(district);
+  if (!target) return [];
+  return legislators.filter((l) => normalizeDistrict(l.district) === target);
+}
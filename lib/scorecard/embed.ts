@@ -0,0 +1,130 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { PUBLIC_SESSION_STATUSES } from '@/lib/scorecard/legislator-history';
+import type { EmbedConfig, EmbedLegislator } from '@/lib/scorecard/embed-config';
+import type { LegislativeChamber, Legislator, ScorecardSession } from '@/types';
+
+type ServerClient = ReturnType<typeof createServerClient>;
+
+// ─── Pure types ──────────────────────────────────────────────────────────────
+
+export interface EmbedScorecard {
+  session: Pick<ScorecardSession, 'id' | 'name' | 'slug' | 'jurisdiction' | 'state_code'>;
+  billCount: number;
+  /** Highest score first */
+  legislators: EmbedLegislator[];
+}
+
+// ─── Database functions ──────────────────────────────────────────────────────
+
+/**
+ * A public session with every legislator's score, weighted the same way as
+ * the scorecard page. Returns null when the session is not public.
+ */
+export async function getEmbedScorecard(
+  supabase: ServerClient,
+  slug: string,
+  chamber: LegislativeChamber | null = null
+): Promise<EmbedScorecard | null> {
+  const { data: sessionData } = await supabase
+    .from('rlc_scorecard_sessions')
+    .select('id, name, slug, jurisdiction, state_code')
+    .eq('slug', slug)
+    .in('status', PUBLIC_SESSION_STATUSES)
+    .single();
+
+  if (!sessionData) return null;
+  const session = sessionData as EmbedScorecard['session'];
+
+  const { data: billsData } = await supabase
+    .from('rlc_scorecard_bills')
+    .select('id, weight')
+    .eq('session_id', session.id)
+    .eq('bill_status', 'voted');
+
+  const bills = (billsData || []) as { id: string; weight: number }[];
+  const billIds = bills.map((b) => b.id);
+  const weightMap = new Map<string, number>();
+  for (const b of bills) {
+    weightMap.set(b.id, Number(b.weight) || 1);
+  }
+
+  let legislators: EmbedLegislator[] = [];
+
+  if (billIds.length > 0) {
+    const { data: votesData } = await supabase
+      .from('rlc_scorecard_votes')
+      .select('legislator_id, aligned_with_liberty, bill_id')
+      .in('bill_id', billIds);
+
+    const votes = (votesData || []) as { legislator_id: string; aligned_with_liberty: boolean; bill_id: string }[];
+
+    const scores = new Map<string, { weightedSum: number; totalWeight: number }>();
+    for (const vote of votes) {
+      const current = scores.get(vote.legislator_id) || { weightedSum: 0, totalWeight: 0 };
+      const weight = weightMap.get(vote.bill_id) || 1;
+      current.totalWeight += weight;
+      if (vote.aligned_with_liberty) current.weightedSum += weight;
+      scores.set(vote.legislator_id, current);
+    }
+
+    const legislatorIds = Array.from(scores.keys());
+    if (legislatorIds.length > 0) {
+      let query = supabase
+        .from('rlc_legislators')
+        .select('id, name, party, chamber, state_code, district, photo_url')
+        .in('id', legislatorIds);
+      if (chamber) query = query.eq('chamber', chamber);
+
+      const { data: legData } = await query;
+
+      legislators = ((legData || []) as Pick<Legislator, 'id' | 'name' | 'party' | 'chamber' | 'state_code' | 'district' | 'photo_url'>[])
+        .map((leg) => {
+          const s = scores.get(leg.id);
+          const score = s && s.totalWeight > 0
+            ? Math.round((s.weightedSum / s.totalWeight) * 10000) / 100
+            : null;
+          return { ...leg, computed_score: score };
+        });
+
+      legislators.sort((a, b) => (b.computed_score ?? -1) - (a.computed_score ?? -1));
+    }
+  }
+
+  return { session, billCount: bills.length, legislators };
+}
+
+/**
+ * Title for an oEmbed response, or null when the session is not public or the
+ * badge's legislator does not exist.
+ */
+export async function getEmbedTitle(supabase: ServerClient, slug: string, config: EmbedConfig): Promise<string | null> {
+  const { data: sessionData } = await supabase
+    .from('rlc_scorecard_sessions')
+    .select('name')
+    .eq('slug', slug)
+    .in('status', PUBLIC_SESSION_STATUSES)
+    .single();
+
+  if (!sessionData) return null;
+  const { name } = sessionData as { name: string };
+
+  switch (config.mode) {
+    case 'legislator': {
+      if (!config.legislatorId) return null;
+      const { data: legislatorData } = await supabase
+        .from('rlc_legislators')
+        .select('name')
+        .eq('id', config.legislatorId)
+        .single();
+
+      const legislator = legislatorData as { name: string } | null;
+      return legislator ? `${legislator.name} - ${name} Liberty Scorecard` : null;
+    }
+    case 'top':
+      return `Top Defenders of Liberty - ${name}`;
+    case 'district':
+      return `Find Your Legislator - ${name} Liberty Scorecard`;
+    default:
+      return `${name} Liberty Scorecard`;
+  }
+}
@@ -0,0 +1,262 @@
+import { createServerClient } from '@/lib/supabase/server';
+import type {
+  Jurisdiction,
+  LegislativeChamber,
+  Legislator,
+  ScorecardSessionStatus,
+  VoteChoice,
+} from '@/types';
+
+/** Sessions visible on the public scorecard pages. */
+export const PUBLIC_SESSION_STATUSES: ScorecardSessionStatus[] = ['active', 'published'];
+
+/** Votes that count toward alignment. Absences and not-in-office votes do not. */
+const COUNTED_VOTES: ReadonlySet<VoteChoice> = new Set(['yea', 'nay']);
+
+// ─── Pure types ──────────────────────────────────────────────────────────────
+
+export interface LegislatorSessionScore {
+  sessionId: string;
+  sessionName: string;
+  sessionSlug: string;
+  sessionYear: number;
+  jurisdiction: Jurisdiction;
+  chamber: LegislativeChamber | null;
+  libertyScore: number;
+  votesAligned: number;
+  totalBills: number;
+  absences: number;
+  bonusPoints: number;
+}
+
+export interface CategoryAlignment {
+  category: string;
+  aligned: number;
+  opposed: number;
+  /** Share of counted votes that were aligned, 0-100 */
+  alignmentPct: number;
+}
+
+export interface LegislatorHistory {
+  legislator: Legislator;
+  /** Oldest session first */
+  sessions: LegislatorSessionScore[];
+  /** Most-voted category first */
+  categories: CategoryAlignment[];
+  lifetime: {
+    aligned: number;
+    opposed: number;
+    alignmentPct: number | null;
+    averageScore: number | null;
+  };
+  /** Change in liberty score from the first to the latest session, or null with fewer than two */
+  trend: number | null;
+}
+
+export interface CategoryVoteInput {
+  category: string;
+  vote: VoteChoice;
+  aligned_with_liberty: boolean;
+}
+
+// ─── Pure functions ──────────────────────────────────────────────────────────
+
+function toPct(aligned: number, total: number): number {
+  return Math.round((aligned / total) * 10000) / 100;
+}
+
+/** Lifetime alignment per bill category, counting only yea/nay votes. */
+export function summarizeCategoryAlignment(votes: CategoryVoteInput[]): CategoryAlignment[] {
+  const byCategory = new Map<string, { aligned: number; opposed: number }>();
+
+  for (const v of votes) {
+    if (!COUNTED_VOTES.has(v.vote)) continue;
+    const key = v.category || 'other';
+    const entry = byCategory.get(key) ?? { aligned: 0, opposed: 0 };
+    if (v.aligned_with_liberty) entry.aligned++;
+    else entry.opposed++;
+    byCategory.set(key, entry);
+  }
+
+  return Array.from(byCategory.entries())
+    .map(([category, { aligned, opposed }]) => ({
+      category,
+      aligned,
+      opposed,
+      alignmentPct: toPct(aligned, aligned + opposed),
+    }))
+    .sort((a, b) => b.aligned + b.opposed - (a.aligned + a.opposed) || a.category.localeCompare(b.category));
+}
+
+/** Order sessions oldest first; same-year sessions fall back to name order. */
+export function sortSessionsChronologically(sessions: LegislatorSessionScore[]): LegislatorSessionScore[] {
+  return [...sessions].sort((a, b) => a.sessionYear - b.sessionYear || a.sessionName.localeCompare(b.sessionName));
+}
+
+export function getScoreTrend(sessions: LegislatorSessionScore[]): number | null {
+  if (sessions.length < 2) return null;
+  return Math.round((sessions[sessions.length - 1].libertyScore - sessions[0].libertyScore) * 100) / 100;
+}
+
+export function summarizeLifetime(
+  sessions: LegislatorSessionScore[],
+  categories: CategoryAlignment[]
+): LegislatorHistory['lifetime'] {
+  const aligned = categories.reduce((sum, c) => sum + c.aligned, 0);
+  const opposed = categories.reduce((sum, c) => sum + c.opposed, 0);
+  const averageScore = sessions.length > 0
+    ? Math.round((sessions.reduce((sum, s) => sum + s.libertyScore, 0) / sessions.length) * 100) / 100
+    : null;
+
+  return {
+    aligned,
+    opposed,
+    alignmentPct: aligned + opposed > 0 ? toPct(aligned, aligned + opposed) : null,
+    averageScore,
+  };
+}
+
+// ─── Database functions ──────────────────────────────────────────────────────
+
+interface ScoreRow {
+  session_id: string;
+  votes_aligned: number;
+  total_bills: number;
+  absences: number;
+  bonus_points: number;
+  liberty_score: number;
+}
+
+interface SessionRow {
+  id: string;
+  name: string;
+  slug: string;
+  session_year: number;
+  jurisdiction: Jurisdiction;
+  chamber: LegislativeChamber | null;
+}
+
+interface BillRow {
+  id: string;
+  category: string;
+}
+
+interface VoteRow {
+  bill_id: string;
+  vote: VoteChoice;
+  aligned_with_liberty: boolean;
+}
+
+/**
+ * Every public session a legislator was scored in, with lifetime alignment by
+ * bill category. `rlc_legislators.current_score` only holds the latest
+ * session, so history is rebuilt from the per-session score rows.
+ * Returns null when the legislator does not exist.
+ */
+export async function getLegislatorHistory(legislatorId: string): Promise<LegislatorHistory | null> {
+  const supabase = createServerClient();
+
+  const { data: legislatorData, error: legislatorError } = await supabase
+    .from('rlc_legislators')
+    .select('*')
+    .eq('id', legislatorId)
+    .single();
+
+  if (legislatorError) {
+    if (legislatorError.code === 'PGRST116') return null;
+    throw new Error(`Failed to fetch legislator: ${legislatorError.message}`);
+  }
+  const legislator = legislatorData as Legislator;
+
+  const { data: scoresData, error: scoresError } = await supabase
+    .from('rlc_scorecard_legislator_scores')
+    .select('session_id, votes_aligned, total_bills, absences, bonus_points, liberty_score')
+    .eq('legislator_id', legislatorId);
+
+  if (scoresError) {
+    throw new Error(`Failed to fetch legislator scores: ${scoresError.message}`);
+  }
+  const scores = (scoresData || []) as ScoreRow[];
+
+  const { data: votesData, error: votesError } = await supabase
+    .from('rlc_scorecard_votes')
+    .select('bill_id, vote, aligned_with_liberty')
+    .eq('legislator_id', legislatorId);
+
+  if (votesError) {
+    throw new Error(`Failed to fetch legislator votes: ${votesError.message}`);
+  }
+  const votes = (votesData || []) as VoteRow[];
+
+  // Bills the legislator voted on, limited to voted, non-bonus bills in public sessions
+  const billIds = Array.from(new Set(votes.map((v) => v.bill_id)));
+  let bills: (BillRow & { session_id: string })[] = [];
+  if (billIds.length > 0) {
+    const { data: billsData, error: billsError } = await supabase
+      .from('rlc_scorecard_bills')
+      .select('id, category, session_id')
+      .in('id', billIds)
+      .eq('bill_status', 'voted')
+      .eq('is_bonus', false);
+
+    if (billsError) {
+      throw new Error(`Failed to fetch bills: ${billsError.message}`);
+    }
+    bills = (billsData || []) as (BillRow & { session_id: string })[];
+  }
+
+  const sessionIds = Array.from(new Set([...scores.map((s) => s.session_id), ...bills.map((b) => b.session_id)]));
+  let sessions: SessionRow[] = [];
+  if (sessionIds.length > 0) {
+    const { data: sessionsData, error: sessionsError } = await supabase
+      .from('rlc_scorecard_sessions')
+      .select('id, name, slug, session_year, jurisdiction, chamber')
+      .in('id', sessionIds)
+      .in('status', PUBLIC_SESSION_STATUSES);
+
+    if (sessionsError) {
+      throw new Error(`Failed to fetch sessions: ${sessionsError.message}`);
+    }
+    sessions = (sessionsData || []) as SessionRow[];
+  }
+
+  const sessionMap = new Map(sessions.map((s) => [s.id, s]));
+
+  const sessionScores = sortSessionsChronologically(
+    scores
+      .filter((s) => sessionMap.has(s.session_id))
+      .map((s) => {
+        const session = sessionMap.get(s.session_id)!;
+        return {
+          sessionId: session.id,
+          sessionName: session.name,
+          sessionSlug: session.slug,
+          sessionYear: session.session_year,
+          jurisdiction: session.jurisdiction,
+          chamber: session.chamber,
+          libertyScore: Number(s.liberty_score),
+          votesAligned: s.votes_aligned,
+          totalBills: s.total_bills,
+          absences: s.absences,
+          bonusPoints: Number(s.bonus_points) || 0,
+        };
+      })
+  );
+
+  const billCategory = new Map(
+    bills.filter((b) => sessionMap.has(b.session_id)).map((b) => [b.id, b.category])
+  );
+  const categories = summarizeCategoryAlignment(
+    votes
+      .filter((v) => billCategory.has(v.bill_id))
+      .map((v) => ({ category: billCategory.get(v.bill_id)!, vote: v.vote, aligned_with_liberty: v.aligned_with_liberty }))
+  );
+
+  return {
+    legislator,
+    sessions: sessionScores,
+    categories,
+    lifetime: summarizeLifetime(sessionScores, categories),
+    trend: getScoreTrend(sessionScores),
+  };
+}
@@ -0,0 +1,303 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { PUBLIC_SESSION_STATUSES } from '@/lib/scorecard/legislator-history';
+import { normalizeDistrict } from '@/lib/scorecard/embed-config';
+import type { CivicOfficial } from '@/lib/civic/client';
+import type { LegislativeChamber, Legislator, LibertyPosition, VoteChoice } from '@/types';
+
+type ServerClient = ReturnType<typeof createServerClient>;
+
+/** Key votes shown per legislator, from their latest scored session. */
+export const KEY_VOTES_LIMIT = 3;
+
+const NAME_SUFFIXES: ReadonlySet<string> = new Set(['jr', 'sr', 'ii', 'iii', 'iv']);
+
+const CHAMBER_BY_DISTRICT_TYPE: Record<string, LegislativeChamber> = {
+  NATIONAL_UPPER: 'us_senate',
+  NATIONAL_LOWER: 'us_house',
+  STATE_UPPER: 'state_senate',
+  STATE_LOWER: 'state_house',
+};
+
+// ─── Pure types ──────────────────────────────────────────────────────────────
+
+export type OfficialLocation = Pick<CivicOfficial, 'name' | 'districtType' | 'stateCode' | 'district'>;
+
+export type MatchableLegislator = Pick<Legislator, 'id' | 'name' | 'chamber' | 'state_code' | 'district'>;
+
+export interface KeyVote {
+  billId: string;
+  billNumber: string;
+  title: string;
+  libertyPosition: LibertyPosition;
+  vote: VoteChoice;
+  alignedWithLiberty: boolean;
+}
+
+export interface LegislatorScorecard {
+  legislatorId: string;
+  name: string;
+  party: string;
+  chamber: LegislativeChamber;
+  district: string | null;
+  /** Liberty score from the latest public session, or null when never scored */
+  libertyScore: number | null;
+  session: { name: string; slug: string; year: number } | null;
+  /** Highest-weighted votes from that session */
+  keyVotes: KeyVote[];
+}
+
+export interface OfficialWithScorecard extends CivicOfficial {
+  /** Null for non-legislators and for legislators not on any scorecard */
+  scorecard: LegislatorScorecard | null;
+}
+
+export interface KeyVoteBill {
+  id: string;
+  bill_number: string;
+  title: string;
+  liberty_position: LibertyPosition;
+  weight: number;
+  vote_date: string | null;
+}
+
+interface ScoreRow {
+  legislator_id: string;
+  session_id: string;
+  liberty_score: number;
+}
+
+interface SessionRow {
+  id: string;
+  name: string;
+  slug: string;
+  session_year: number;
+}
+
+interface VoteRow {
+  bill_id: string;
+  legislator_id: string;
+  vote: VoteChoice;
+  aligned_with_liberty: boolean;
+}
+
+// ─── Pure functions ──────────────────────────────────────────────────────────
+
+/** The scorecard chamber for a Cicero district type, or null for non-legislative offices. */
+export function officialChamber(districtType: string | null): LegislativeChamber | null {
+  return (districtType && CHAMBER_BY_DISTRICT_TYPE[districtType]) || null;
+}
+
+function nameTokens(name: string): string[] {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, '')
+    .split(/\s+/)
+    .filter((t) => t && !NAME_SUFFIXES.has(t));
+}
+
+/**
+ * The legislator an official refers to. Cicero and LegiScan spell names
+ * differently (middle initials, suffixes, nicknames), so candidates must share
+ * chamber, state and last name, and must not sit in a different district.
+ * Ties are broken by district, then first name. Returns null unless exactly
+ * one candidate remains.
+ */
+export function matchOfficial<T extends MatchableLegislator>(official: OfficialLocation, candidates: T[]): T | null {
+  const chamber = officialChamber(official.districtType);
+  const tokens = nameTokens(official.name);
+  if (!chamber || !official.stateCode || tokens.length === 0) return null;
+
+  const lastName = tokens[tokens.length - 1];
+  const district = normalizeDistrict(official.district);
+
+  let matches = candidates.filter((c) => {
+    if (c.chamber !== chamber || c.state_code !== official.stateCode) return false;
+    const candidateTokens = nameTokens(c.name);
+    if (candidateTokens[candidateTokens.length - 1] !== lastName) return false;
+    const candidateDistrict = normalizeDistrict(c.district);
+    return !district || !candidateDistrict || candidateDistrict === district;
+  });
+
+  if (matches.length > 1 && district) {
+    const byDistrict = matches.filter((c) => normalizeDistrict(c.district) === district);
+    if (byDistrict.length > 0) matches = byDistrict;
+  }
+  if (matches.length > 1) {
+    const byFirstName = matches.filter((c) => nameTokens(c.name)[0] === tokens[0]);
+    if (byFirstName.length > 0) matches = byFirstName;
+  }
+
+  return matches.length === 1 ? matches[0] : null;
+}
+
+/** The highest-weighted bills a legislator voted on, most recent first within a weight. */
+export function pickKeyVotes(bills: KeyVoteBill[], votes: Omit<VoteRow, 'legislator_id'>[], limit = KEY_VOTES_LIMIT): KeyVote[] {
+  const voteByBill = new Map(votes.filter((v) => v.vote !== 'not_applicable').map((v) => [v.bill_id, v]));
+
+  return bills
+    .filter((b) => voteByBill.has(b.id))
+    .sort(
+      (a, b) =>
+        (Number(b.weight) || 1) - (Number(a.weight) || 1) ||
+        (b.vote_date ?? '').localeCompare(a.vote_date ?? '') ||
+        a.bill_number.localeCompare(b.bill_number)
+    )
+    .slice(0, limit)
+    .map((b) => {
+      const vote = voteByBill.get(b.id)!;
+      return {
+        billId: b.id,
+        billNumber: b.bill_number,
+        title: b.title,
+        libertyPosition: b.liberty_position,
+        vote: vote.vote,
+        alignedWithLiberty: vote.aligned_with_liberty,
+      };
+    });
+}
+
+// ─── Database functions ──────────────────────────────────────────────────────
+
+/** The `rlc_legislators` id for one official, or null when they are not a matched legislator. */
+export async function findLegislatorId(supabase: ServerClient, official: OfficialLocation): Promise<string | null> {
+  const chamber = officialChamber(official.districtType);
+  if (!chamber || !official.stateCode) return null;
+
+  const { data, error } = await supabase
+    .from('rlc_legislators')
+    .select('id, name, chamber, state_code, district')
+    .eq('state_code', official.stateCode)
+    .eq('chamber', chamber);
+
+  if (error) {
+    throw new Error(`Failed to fetch legislators: ${error.message}`);
+  }
+  return matchOfficial(official, (data || []) as MatchableLegislator[])?.id ?? null;
+}
+
+/**
+ * Attach scorecard data to the officials returned by the civic lookup. State
+ * and federal legislators are matched to `rlc_legislators` and get their
+ * latest public liberty score and key votes; everyone else gets null.
+ */
+export async function attachScorecards(
+  supabase: ServerClient,
+  officials: CivicOfficial[]
+): Promise<OfficialWithScorecard[]> {
+  const legislative = officials.filter((o) => officialChamber(o.districtType) && o.stateCode);
+  if (legislative.length === 0) return officials.map((o) => ({ ...o, scorecard: null }));
+
+  const { data: candidatesData, error: candidatesError } = await supabase
+    .from('rlc_legislators')
+    .select('id, name, party, chamber, state_code, district')
+    .in('state_code', Array.from(new Set(legislative.map((o) => o.stateCode!))))
+    .in('chamber', Array.from(new Set(legislative.map((o) => officialChamber(o.districtType)!))));
+
+  if (candidatesError) {
+    throw new Error(`Failed to fetch legislators: ${candidatesError.message}`);
+  }
+  const candidates = (candidatesData || []) as (MatchableLegislator & Pick<Legislator, 'party'>)[];
+
+  const matched = officials.map((o) => matchOfficial(o, candidates));
+  const legislatorIds = Array.from(new Set(matched.filter((l) => l !== null).map((l) => l!.id)));
+
+  // Latest public session each matched legislator was scored in
+  const latest = new Map<string, { score: ScoreRow; session: SessionRow }>();
+  if (legislatorIds.length > 0) {
+    const { data: scoresData, error: scoresError } = await supabase
+      .from('rlc_scorecard_legislator_scores')
+      .select('legislator_id, session_id, liberty_score')
+      .in('legislator_id', legislatorIds);
+
+    if (scoresError) {
+      throw new Error(`Failed to fetch legislator scores: ${scoresError.message}`);
+    }
+    const scores = (scoresData || []) as ScoreRow[];
+
+    const sessionIds = Array.from(new Set(scores.map((s) => s.session_id)));
+    if (sessionIds.length > 0) {
+      const { data: sessionsData, error: sessionsError } = await supabase
+        .from('rlc_scorecard_sessions')
+        .select('id, name, slug, session_year')
+        .in('id', sessionIds)
+        .in('status', PUBLIC_SESSION_STATUSES);
+
+      if (sessionsError) {
+        throw new Error(`Failed to fetch sessions: ${sessionsError.message}`);
+      }
+      const sessionMap = new Map(((sessionsData || []) as SessionRow[]).map((s) => [s.id, s]));
+
+      for (const score of scores) {
+        const session = sessionMap.get(score.session_id);
+        if (!session) continue;
+        const current = latest.get(score.legislator_id);
+        if (!current || session.session_year > current.session.session_year) {
+          latest.set(score.legislator_id, { score, session });
+        }
+      }
+    }
+  }
+
+  const keyVotes = new Map<string, KeyVote[]>();
+  const latestSessionIds = Array.from(new Set(Array.from(latest.values()).map((l) => l.session.id)));
+  if (latestSessionIds.length > 0) {
+    const { data: billsData, error: billsError } = await supabase
+      .from('rlc_scorecard_bills')
+      .select('id, session_id, bill_number, title, liberty_position, weight, vote_date')
+      .in('session_id', latestSessionIds)
+      .eq('bill_status', 'voted')
+      .eq('is_bonus', false);
+
+    if (billsError) {
+      throw new Error(`Failed to fetch bills: ${billsError.message}`);
+    }
+    const bills = (billsData || []) as (KeyVoteBill & { session_id: string })[];
+
+    if (bills.length > 0) {
+      const { data: votesData, error: votesError } = await supabase
+        .from('rlc_scorecard_votes')
+        .select('bill_id, legislator_id, vote, aligned_with_liberty')
+        .in('legislator_id', Array.from(latest.keys()))
+        .in('bill_id', bills.map((b) => b.id));
+
+      if (votesError) {
+        throw new Error(`Failed to fetch votes: ${votesError.message}`);
+      }
+      const votes = (votesData || []) as VoteRow[];
+
+      for (const [legislatorId, { session }] of Array.from(latest.entries())) {
+        keyVotes.set(
+          legislatorId,
+          pickKeyVotes(
+            bills.filter((b) => b.session_id === session.id),
+            votes.filter((v) => v.legislator_id === legislatorId)
+          )
+        );
+      }
+    }
+  }
+
+  return officials.map((official, index) => {
+    const legislator = matched[index];
+    if (!legislator) return { ...official, scorecard: null };
+
+    const scored = latest.get(legislator.id);
+    return {
+      ...official,
+      scorecard: {
+        legislatorId: legislator.id,
+        name: legislator.name,
+        party: legislator.party,
+        chamber: legislator.chamber,
+        district: legislator.district,
+        libertyScore: scored ? Number(scored.score.liberty_score) : null,
+        session: scored
+          ? { name: scored.session.name, slug: scored.session.slug, year: scored.session.session_year }
+          : null,
+        keyVotes: keyVotes.get(legislator.id) ?? [],
+      },
+    };
+  });
+}
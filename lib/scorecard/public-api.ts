@@ -0,0 +1,478 @@
+import { NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { escapeCsvField } from '@/lib/csv';
+import { PUBLIC_SESSION_STATUSES } from '@/lib/scorecard/legislator-history';
+import type {
+  CategorySubScore,
+  Jurisdiction,
+  LegislativeChamber,
+  LibertyPosition,
+  ScoringMethod,
+  ScorecardSessionStatus,
+  VoteChoice,
+} from '@/types';
+
+type ServerClient = ReturnType<typeof createServerClient>;
+
+/**
+ * Version of the documented response schema (docs/scorecard-api.md). Within
+ * v1 fields are only ever added; renaming or removing one means a new version.
+ */
+export const SCORECARD_API_VERSION = '1.0';
+
+export const DEFAULT_PAGE_LIMIT = 100;
+export const MAX_PAGE_LIMIT = 500;
+
+/** Scorecard data changes a few times a session; let CDNs serve it for an hour. */
+const CACHE_CONTROL = 'public, s-maxage=3600, stale-while-revalidate=86400';
+
+/** Rows fetched per request when building bulk CSV (PostgREST caps responses at 1000) */
+export const BULK_PAGE_SIZE = 1000;
+
+// ─── Pure types ──────────────────────────────────────────────────────────────
+
+export interface Pagination {
+  limit: number;
+  offset: number;
+}
+
+export interface PublicScorecardSession {
+  id: string;
+  slug: string;
+  name: string;
+  jurisdiction: Jurisdiction;
+  stateCode: string | null;
+  chamber: LegislativeChamber | null;
+  sessionYear: number;
+  /** `active` sessions are still being scored; `published` ones are final */
+  status: ScorecardSessionStatus;
+  scoringMethod: ScoringMethod;
+  description: string | null;
+  updatedAt: string;
+}
+
+export interface PublicScorecardBill {
+  id: string;
+  billNumber: string;
+  title: string;
+  description: string | null;
+  category: string;
+  libertyPosition: LibertyPosition;
+  weight: number;
+  voteDate: string | null;
+  isBonus: boolean;
+  bonusPointValue: number;
+  voteResultSummary: string | null;
+  legiscanBillId: number | null;
+  legiscanRollCallId: number | null;
+}
+
+export interface PublicScorecardVote {
+  billId: string;
+  billNumber: string;
+  legislatorId: string;
+  legislatorName: string;
+  vote: VoteChoice;
+  alignedWithLiberty: boolean;
+}
+
+export interface PublicLegislatorScore {
+  legislatorId: string;
+  name: string;
+  party: string;
+  chamber: LegislativeChamber;
+  stateCode: string;
+  district: string | null;
+  libertyScore: number;
+  votesAligned: number;
+  totalBills: number;
+  absences: number;
+  bonusPoints: number;
+  categoryScores: Record<string, CategorySubScore>;
+}
+
+export interface PagedResult<T> {
+  rows: T[];
+  total: number;
+}
+
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | boolean | null;
+}
+
+interface SessionRow {
+  id: string;
+  slug: string;
+  name: string;
+  jurisdiction: Jurisdiction;
+  state_code: string | null;
+  chamber: LegislativeChamber | null;
+  session_year: number;
+  status: ScorecardSessionStatus;
+  scoring_method: ScoringMethod;
+  description: string | null;
+  updated_at: string;
+}
+
+interface BillRow {
+  id: string;
+  bill_number: string;
+  title: string;
+  description: string | null;
+  category: string;
+  liberty_position: LibertyPosition;
+  weight: number;
+  vote_date: string | null;
+  is_bonus: boolean;
+  bonus_point_value: number;
+  vote_result_summary: string | null;
+  legiscan_bill_id: number | null;
+  legiscan_roll_call_id: number | null;
+}
+
+interface VoteRow {
+  bill_id: string;
+  legislator_id: string;
+  vote: VoteChoice;
+  aligned_with_liberty: boolean;
+}
+
+interface ScoreRow {
+  legislator_id: string;
+  liberty_score: number;
+  votes_aligned: number;
+  total_bills: number;
+  absences: number;
+  bonus_points: number;
+  category_scores: Record<string, CategorySubScore> | null;
+}
+
+interface LegislatorRow {
+  id: string;
+  name: string;
+  party: string;
+  chamber: LegislativeChamber;
+  state_code: string;
+  district: string | null;
+}
+
+// ─── Pure functions ──────────────────────────────────────────────────────────
+
+/** `limit`/`offset` query params, clamped rather than rejected. */
+export function parsePagination(searchParams: URLSearchParams): Pagination {
+  const limit = parseInt(searchParams.get('limit') || '', 10);
+  const offset = parseInt(searchParams.get('offset') || '', 10);
+  return {
+    limit: Number.isFinite(limit) ? Math.min(Math.max(limit, 1), MAX_PAGE_LIMIT) : DEFAULT_PAGE_LIMIT,
+    offset: Number.isFinite(offset) ? Math.max(offset, 0) : 0,
+  };
+}
+
+export function toPublicSession(row: SessionRow): PublicScorecardSession {
+  return {
+    id: row.id,
+    slug: row.slug,
+    name: row.name,
+    jurisdiction: row.jurisdiction,
+    stateCode: row.state_code,
+    chamber: row.chamber,
+    sessionYear: row.session_year,
+    status: row.status,
+    scoringMethod: row.scoring_method,
+    description: row.description,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function toPublicBill(row: BillRow): PublicScorecardBill {
+  return {
+    id: row.id,
+    billNumber: row.bill_number,
+    title: row.title,
+    description: row.description,
+    category: row.category,
+    libertyPosition: row.liberty_position,
+    weight: Number(row.weight),
+    voteDate: row.vote_date,
+    isBonus: row.is_bonus,
+    bonusPointValue: Number(row.bonus_point_value) || 0,
+    voteResultSummary: row.vote_result_summary,
+    legiscanBillId: row.legiscan_bill_id,
+    legiscanRollCallId: row.legiscan_roll_call_id,
+  };
+}
+
+export function toPublicScore(row: ScoreRow, legislator: LegislatorRow): PublicLegislatorScore {
+  return {
+    legislatorId: row.legislator_id,
+    name: legislator.name,
+    party: legislator.party,
+    chamber: legislator.chamber,
+    stateCode: legislator.state_code,
+    district: legislator.district,
+    libertyScore: Number(row.liberty_score),
+    votesAligned: row.votes_aligned,
+    totalBills: row.total_bills,
+    absences: row.absences,
+    bonusPoints: Number(row.bonus_points) || 0,
+    categoryScores: row.category_scores ?? {},
+  };
+}
+
+export const BILL_CSV_COLUMNS: CsvColumn<PublicScorecardBill>[] = [
+  { header: 'bill_id', value: (b) => b.id },
+  { header: 'bill_number', value: (b) => b.billNumber },
+  { header: 'title', value: (b) => b.title },
+  { header: 'category', value: (b) => b.category },
+  { header: 'liberty_position', value: (b) => b.libertyPosition },
+  { header: 'weight', value: (b) => b.weight },
+  { header: 'vote_date', value: (b) => b.voteDate },
+  { header: 'is_bonus', value: (b) => b.isBonus },
+  { header: 'bonus_point_value', value: (b) => b.bonusPointValue },
+  { header: 'vote_result_summary', value: (b) => b.voteResultSummary },
+  { header: 'legiscan_bill_id', value: (b) => b.legiscanBillId },
+  { header: 'legiscan_roll_call_id', value: (b) => b.legiscanRollCallId },
+  { header: 'description', value: (b) => b.description },
+];
+
+export const VOTE_CSV_COLUMNS: CsvColumn<PublicScorecardVote>[] = [
+  { header: 'bill_id', value: (v) => v.billId },
+  { header: 'bill_number', value: (v) => v.billNumber },
+  { header: 'legislator_id', value: (v) => v.legislatorId },
+  { header: 'legislator_name', value: (v) => v.legislatorName },
+  { header: 'vote', value: (v) => v.vote },
+  { header: 'aligned_with_liberty', value: (v) => v.alignedWithLiberty },
+];
+
+/** Category sub-scores are nested, so the CSV leaves them to the JSON endpoint. */
+export const SCORE_CSV_COLUMNS: CsvColumn<PublicLegislatorScore>[] = [
+  { header: 'legislator_id', value: (s) => s.legislatorId },
+  { header: 'name', value: (s) => s.name },
+  { header: 'party', value: (s) => s.party },
+  { header: 'chamber', value: (s) => s.chamber },
+  { header: 'state_code', value: (s) => s.stateCode },
+  { header: 'district', value: (s) => s.district },
+  { header: 'liberty_score', value: (s) => s.libertyScore },
+  { header: 'votes_aligned', value: (s) => s.votesAligned },
+  { header: 'total_bills', value: (s) => s.totalBills },
+  { header: 'absences', value: (s) => s.absences },
+  { header: 'bonus_points', value: (s) => s.bonusPoints },
+];
+
+/**
+ * Numbers and booleans are written bare so spreadsheets parse them; only text
+ * goes through escapeCsvField, whose formula guard would otherwise quote
+ * negative numbers.
+ */
+export function toCsv<T>(columns: CsvColumn<T>[], rows: T[]): string {
+  const header = columns.map((c) => escapeCsvField(c.header)).join(',');
+  const lines = rows.map((row) =>
+    columns
+      .map((c) => {
+        const value = c.value(row);
+        if (value === null) return '';
+        return typeof value === 'string' ? escapeCsvField(value) : String(value);
+      })
+      .join(',')
+  );
+  return [header, ...lines].join('\n');
+}
+
+export function scorecardCsvFilename(slug: string, resource: 'bills' | 'votes' | 'scores'): string {
+  return `${slug}-${resource}-v${SCORECARD_API_VERSION.split('.')[0]}.csv`;
+}
+
+// ─── Responses ───────────────────────────────────────────────────────────────
+
+const VERSION_HEADERS = {
+  'Cache-Control': CACHE_CONTROL,
+  'X-Scorecard-Api-Version': SCORECARD_API_VERSION,
+};
+
+export function scorecardJson<T>(data: T, page?: Pagination & { total: number }) {
+  return NextResponse.json(
+    { data, meta: { schemaVersion: SCORECARD_API_VERSION, ...page } },
+    { headers: VERSION_HEADERS }
+  );
+}
+
+export function scorecardCsv(csv: string, filename: string): Response {
+  // UTF-8 BOM for Excel compatibility
+  return new Response('\uFEFF' + csv, {
+    headers: {
+      ...VERSION_HEADERS,
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    },
+  });
+}
+
+// ─── Database functions ──────────────────────────────────────────────────────
+
+const SESSION_COLUMNS =
+  'id, slug, name, jurisdiction, state_code, chamber, session_year, status, scoring_method, description, updated_at';
+
+const BILL_COLUMNS =
+  'id, bill_number, title, description, category, liberty_position, weight, vote_date, is_bonus, bonus_point_value, vote_result_summary, legiscan_bill_id, legiscan_roll_call_id';
+
+/** Fetch every page of a query when `page` is null, else just the requested page. */
+export async function fetchRows<T>(
+  run: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; count: number | null; error: { message: string } | null }>,
+  page: Pagination | null,
+  label: string
+): Promise<PagedResult<T>> {
+  if (page) {
+    const { data, count, error } = await run(page.offset, page.offset + page.limit - 1);
+    if (error) throw new Error(`Failed to fetch ${label}: ${error.message}`);
+    return { rows: (data || []) as T[], total: count ?? 0 };
+  }
+
+  const rows: T[] = [];
+  for (let from = 0; ; from += BULK_PAGE_SIZE) {
+    const { data, error } = await run(from, from + BULK_PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to fetch ${label}: ${error.message}`);
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < BULK_PAGE_SIZE) break;
+  }
+  return { rows, total: rows.length };
+}
+
+export async function listPublicSessions(
+  supabase: ServerClient,
+  page: Pagination
+): Promise<PagedResult<PublicScorecardSession>> {
+  const result = await fetchRows<SessionRow>(
+    (from, to) =>
+      supabase
+        .from('rlc_scorecard_sessions')
+        .select(SESSION_COLUMNS, { count: 'exact' })
+        .in('status', PUBLIC_SESSION_STATUSES)
+        .order('session_year', { ascending: false })
+        .order('slug', { ascending: true })
+        .range(from, to),
+    page,
+    'sessions'
+  );
+  return { rows: result.rows.map(toPublicSession), total: result.total };
+}
+
+/** Returns null when no public session has the slug. */
+export async function getPublicSession(supabase: ServerClient, slug: string): Promise<PublicScorecardSession | null> {
+  const { data, error } = await supabase
+    .from('rlc_scorecard_sessions')
+    .select(SESSION_COLUMNS)
+    .eq('slug', slug)
+    .in('status', PUBLIC_SESSION_STATUSES)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null;
+    throw new Error(`Failed to fetch session: ${error.message}`);
+  }
+  return toPublicSession(data as SessionRow);
+}
+
+/** Voted bills only, in scorecard order. Pass `page: null` for every row. */
+export async function listSessionBills(
+  supabase: ServerClient,
+  sessionId: string,
+  page: Pagination | null
+): Promise<PagedResult<PublicScorecardBill>> {
+  const result = await fetchRows<BillRow>(
+    (from, to) =>
+      supabase
+        .from('rlc_scorecard_bills')
+        .select(BILL_COLUMNS, { count: 'exact' })
+        .eq('session_id', sessionId)
+        .eq('bill_status', 'voted')
+        .order('sort_order', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to),
+    page,
+    'bills'
+  );
+  return { rows: result.rows.map(toPublicBill), total: result.total };
+}
+
+/** Legislators by id, queried in chunks so long id lists stay within request limits. */
+export async function getLegislators(supabase: ServerClient, ids: string[]): Promise<Map<string, LegislatorRow>> {
+  const map = new Map<string, LegislatorRow>();
+  for (let i = 0; i < ids.length; i += BULK_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('rlc_legislators')
+      .select('id, name, party, chamber, state_code, district')
+      .in('id', ids.slice(i, i + BULK_PAGE_SIZE));
+
+    if (error) throw new Error(`Failed to fetch legislators: ${error.message}`);
+    for (const leg of (data || []) as LegislatorRow[]) map.set(leg.id, leg);
+  }
+  return map;
+}
+
+/** Votes on the session's voted bills, grouped by bill. Pass `page: null` for every row. */
+export async function listSessionVotes(
+  supabase: ServerClient,
+  sessionId: string,
+  page: Pagination | null
+): Promise<PagedResult<PublicScorecardVote>> {
+  const { rows: bills } = await listSessionBills(supabase, sessionId, null);
+  if (bills.length === 0) return { rows: [], total: 0 };
+  const billNumbers = new Map(bills.map((b) => [b.id, b.billNumber]));
+
+  const result = await fetchRows<VoteRow>(
+    (from, to) =>
+      supabase
+        .from('rlc_scorecard_votes')
+        .select('bill_id, legislator_id, vote, aligned_with_liberty', { count: 'exact' })
+        .in('bill_id', bills.map((b) => b.id))
+        .order('bill_id', { ascending: true })
+        .order('legislator_id', { ascending: true })
+        .range(from, to),
+    page,
+    'votes'
+  );
+
+  const legislators = await getLegislators(supabase, Array.from(new Set(result.rows.map((v) => v.legislator_id))));
+  return {
+    rows: result.rows.map((v) => ({
+      billId: v.bill_id,
+      billNumber: billNumbers.get(v.bill_id) ?? '',
+      legislatorId: v.legislator_id,
+      legislatorName: legislators.get(v.legislator_id)?.name ?? '',
+      vote: v.vote,
+      alignedWithLiberty: v.aligned_with_liberty,
+    })),
+    total: result.total,
+  };
+}
+
+/** Stored legislator scores, highest first. Pass `page: null` for every row. */
+export async function listSessionScores(
+  supabase: ServerClient,
+  sessionId: string,
+  page: Pagination | null
+): Promise<PagedResult<PublicLegislatorScore>> {
+  const result = await fetchRows<ScoreRow>(
+    (from, to) =>
+      supabase
+        .from('rlc_scorecard_legislator_scores')
+        .select('legislator_id, liberty_score, votes_aligned, total_bills, absences, bonus_points, category_scores', {
+          count: 'exact',
+        })
+        .eq('session_id', sessionId)
+        .order('liberty_score', { ascending: false })
+        .order('legislator_id', { ascending: true })
+        .range(from, to),
+    page,
+    'scores'
+  );
+
+  const legislators = await getLegislators(supabase, result.rows.map((s) => s.legislator_id));
+  return {
+    rows: result.rows
+      .filter((s) => legislators.has(s.legislator_id))
+      .map((s) => toPublicScore(s, legislators.get(s.legislator_id)!)),
+    total: result.total,
+  };
+}
@@ -0,0 +1,202 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { getBillDetail } from '@/lib/legiscan/client';
+import type { LegiScanBillDetail } from '@/lib/legiscan/types';
+import { escapeHtml, sendEmail } from '@/lib/email/client';
+import { BASE_URL } from '@/lib/constants';
+import { logger } from '@/lib/logger';
+import type { Jurisdiction, LegislativeChamber, ScorecardRollCall } from '@/types';
+
+type ServerClient = ReturnType<typeof createServerClient>;
+
+const COMMITTEE_PATTERN = /\b(sub)?committee\b|\bcomm\b|\bcmte\b/i;
+const PASSAGE_PATTERN = /passage|third reading|final|concur/i;
+
+// ─── Pure types ──────────────────────────────────────────────────────────────
+
+export type RollCallCandidate = Omit<ScorecardRollCall, 'id' | 'discovered_at' | 'notified_at'>;
+
+export interface DiscoveryBill {
+  id: string;
+  bill_number: string;
+  title: string;
+  legiscan_bill_id: number;
+  legiscan_roll_call_id: number | null;
+}
+
+export interface DiscoverySession {
+  id: string;
+  name: string;
+  jurisdiction: Jurisdiction;
+  created_by: string | null;
+}
+
+export interface DiscoveryResult {
+  discovered: number;
+  /** Floor votes the owner had not been told about before this run */
+  floorVotes: ScorecardRollCall[];
+  notified: boolean;
+}
+
+// ─── Pure functions ──────────────────────────────────────────────────────────
+
+/** LegiScan does not label committee votes; their descriptions name the committee. */
+export function isFloorVote(description: string): boolean {
+  return !COMMITTEE_PATTERN.test(description);
+}
+
+export function mapRollCallChamber(chamber: string, jurisdiction: Jurisdiction): LegislativeChamber {
+  const senate = chamber.toUpperCase() === 'S';
+  if (jurisdiction === 'federal') return senate ? 'us_senate' : 'us_house';
+  return senate ? 'state_senate' : 'state_house';
+}
+
+export function toRollCallCandidates(
+  billId: string,
+  votes: LegiScanBillDetail['votes'],
+  jurisdiction: Jurisdiction
+): RollCallCandidate[] {
+  return votes.map((v) => ({
+    bill_id: billId,
+    legiscan_roll_call_id: v.roll_call_id,
+    vote_date: v.date || null,
+    description: v.desc,
+    chamber: mapRollCallChamber(v.chamber, jurisdiction),
+    is_floor_vote: isFloorVote(v.desc),
+    yea: v.yea,
+    nay: v.nay,
+    not_voting: v.nv,
+    absent: v.absent,
+    passed: v.passed === 1,
+  }));
+}
+
+/** Floor votes first, then newest first. */
+export function sortRollCalls<T extends Pick<ScorecardRollCall, 'is_floor_vote' | 'vote_date' | 'legiscan_roll_call_id'>>(
+  rollCalls: T[]
+): T[] {
+  return [...rollCalls].sort(
+    (a, b) =>
+      Number(b.is_floor_vote) - Number(a.is_floor_vote) ||
+      (b.vote_date ?? '').localeCompare(a.vote_date ?? '') ||
+      b.legiscan_roll_call_id - a.legiscan_roll_call_id
+  );
+}
+
+/**
+ * The roll call most likely to be the scored vote: the latest floor passage
+ * vote, else the latest floor vote. Committee votes are never suggested.
+ */
+export function suggestRollCall<T extends Pick<ScorecardRollCall, 'is_floor_vote' | 'vote_date' | 'legiscan_roll_call_id' | 'description'>>(
+  rollCalls: T[]
+): T | null {
+  const floor = sortRollCalls(rollCalls).filter((r) => r.is_floor_vote);
+  return floor.find((r) => PASSAGE_PATTERN.test(r.description)) ?? floor[0] ?? null;
+}
+
+// ─── Database functions ──────────────────────────────────────────────────────
+
+export async function getBillRollCalls(supabase: ServerClient, billId: string): Promise<ScorecardRollCall[]> {
+  const { data, error } = await supabase
+    .from('rlc_scorecard_roll_calls')
+    .select('*')
+    .eq('bill_id', billId);
+
+  if (error) throw new Error(`Failed to fetch roll calls: ${error.message}`);
+  return sortRollCalls((data || []) as ScorecardRollCall[]);
+}
+
+/**
+ * Record roll calls on a bill's LegiScan record that have not been seen
+ * before. When any floor vote has not been announced yet (new this run, or
+ * left over from a run whose email failed), the session owner is emailed once
+ * and those floor votes are stamped `notified_at`.
+ */
+export async function discoverRollCalls(
+  supabase: ServerClient,
+  session: DiscoverySession,
+  bill: DiscoveryBill,
+  now: Date = new Date()
+): Promise<DiscoveryResult> {
+  const detail = await getBillDetail(bill.legiscan_bill_id);
+  const candidates = toRollCallCandidates(bill.id, detail.votes ?? [], session.jurisdiction);
+  if (candidates.length === 0) return { discovered: 0, floorVotes: [], notified: false };
+
+  const existing = await getBillRollCalls(supabase, bill.id);
+  const known = new Set(existing.map((r) => r.legiscan_roll_call_id));
+  const fresh = candidates.filter((c) => !known.has(c.legiscan_roll_call_id));
+
+  let inserted: ScorecardRollCall[] = [];
+  if (fresh.length > 0) {
+    // ignoreDuplicates keeps a concurrent run from failing the whole batch
+    const { data, error } = await supabase
+      .from('rlc_scorecard_roll_calls')
+      .upsert(fresh.map((c) => ({ ...c, discovered_at: now.toISOString() })) as never, {
+        onConflict: 'bill_id,legiscan_roll_call_id',
+        ignoreDuplicates: true,
+      })
+      .select('*');
+
+    if (error) throw new Error(`Failed to record roll calls: ${error.message}`);
+    inserted = (data || []) as ScorecardRollCall[];
+  }
+
+  const floorVotes = [...existing, ...inserted].filter((r) => r.is_floor_vote && !r.notified_at);
+  const notified = floorVotes.length > 0 && (await notifyFloorVotes(supabase, session, bill, floorVotes, now));
+
+  return { discovered: inserted.length, floorVotes, notified };
+}
+
+/** Email the session owner about unannounced floor votes. Returns false when the email was not sent. */
+async function notifyFloorVotes(
+  supabase: ServerClient,
+  session: DiscoverySession,
+  bill: DiscoveryBill,
+  floorVotes: ScorecardRollCall[],
+  now: Date
+): Promise<boolean> {
+  if (!session.created_by) return false;
+
+  const { data: ownerData, error: ownerError } = await supabase
+    .from('rlc_contacts')
+    .select('email, first_name')
+    .eq('id', session.created_by)
+    .single();
+
+  const owner = ownerData as { email: string | null; first_name: string } | null;
+  if (ownerError || !owner?.email) {
+    logger.warn(`Roll-call discovery: no email for scorecard owner ${session.created_by} (session ${session.id})`);
+    return false;
+  }
+
+  const manageUrl = `${BASE_URL}/admin/scorecards/${session.id}`;
+  const rows = sortRollCalls(floorVotes)
+    .map((r) => `<li>${escapeHtml(r.vote_date ?? 'Undated')}: ${escapeHtml(r.description)} (${r.yea}-${r.nay}, ${r.passed ? 'passed' : 'failed'})</li>`)
+    .join('');
+
+  try {
+    await sendEmail({
+      to: owner.email,
+      subject: `Floor vote on ${bill.bill_number} (${session.name})`,
+      html: `
+        <p>Hi ${escapeHtml(owner.first_name)},</p>
+        <p><strong>${escapeHtml(bill.bill_number)}</strong> ${escapeHtml(bill.title)} has a new floor vote:</p>
+        <ul>${rows}</ul>
+        <p>${bill.legiscan_roll_call_id ? 'A roll call is already selected for scoring; check that it is still the right one.' : 'No roll call is selected for scoring yet.'}
+        <a href="${manageUrl}">Choose the scored roll call</a>.</p>
+      `,
+    });
+  } catch (err) {
+    logger.error(`Roll-call discovery: failed to email owner of session ${session.id}:`, err);
+    return false;
+  }
+
+  const { error } = await supabase
+    .from('rlc_scorecard_roll_calls')
+    .update({ notified_at: now.toISOString() } as never)
+    .in('id', floorVotes.map((r) => r.id));
+
+  if (error) {
+    logger.error(`Roll-call discovery: failed to stamp notified_at for bill ${bill.id}:`, error);
+  }
+  return true;
+}
@@ -0,0 +1,477 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { getPeopleList, getSessionList } from '@/lib/legiscan/client';
+import type { LegiScanPerson, LegiScanSession } from '@/lib/legiscan/types';
+import { logger } from '@/lib/logger';
+import type { Jurisdiction, LegislativeChamber, Legislator } from '@/types';
+import crypto from 'crypto';
+
+type ServerClient = ReturnType<typeof createServerClient>;
+
+/** Roster history kept per legislator; oldest entries are dropped first. */
+export const ROSTER_HISTORY_LIMIT = 50;
+
+/** Placeholder party written by the vote import before a roster sync fills it in. */
+const UNKNOWN_PARTY = 'Unknown';
+
+const FEDERAL_STATE_CODE = 'US';
+
+/** LegiScan role_id for senators; everything else sits in the lower chamber. */
+const SENATE_ROLE_ID = 2;
+
+// ─── Pure types ──────────────────────────────────────────────────────────────
+
+export type RosterField = 'party' | 'chamber' | 'district' | 'state_code';
+
+export interface RosterChange {
+  field: RosterField;
+  from: string | null;
+  to: string | null;
+  changed_at: string;
+  legiscan_session_id: number;
+}
+
+export type RosterReviewReason = 'unmatched' | 'retired';
+
+export interface RosterReview {
+  reason: RosterReviewReason;
+  session_id: string;
+  flagged_at: string;
+}
+
+/** Keys the roster sync owns inside `rlc_legislators.metadata`. */
+export interface RosterMetadata {
+  roster_history?: RosterChange[];
+  roster_review?: RosterReview | null;
+}
+
+export interface RosterPerson {
+  legiscanPeopleId: number;
+  name: string;
+  party: string;
+  chamber: LegislativeChamber;
+  stateCode: string;
+  district: string | null;
+  photoUrl: string | null;
+}
+
+export interface RosterSession {
+  id: string;
+  name: string;
+  jurisdiction: Jurisdiction;
+  state_code: string | null;
+  chamber: LegislativeChamber | null;
+  session_year: number;
+  legiscan_session_id: number | null;
+}
+
+export interface RosterFlag {
+  legislatorId: string;
+  name: string;
+  reason: RosterReviewReason;
+}
+
+export interface RosterSyncSessionResult {
+  sessionId: string;
+  legiscanSessionId: number;
+  created: number;
+  updated: number;
+  linked: number;
+  changesRecorded: number;
+  flagged: RosterFlag[];
+  errors: string[];
+}
+
+export interface RosterSyncRunResult {
+  sessionsProcessed: number;
+  created: number;
+  updated: number;
+  linked: number;
+  changesRecorded: number;
+  flagged: RosterFlag[];
+  errors: string[];
+}
+
+// ─── Pure functions ──────────────────────────────────────────────────────────
+
+/** The regular (non-special) LegiScan session covering a scorecard year, latest start first. */
+export function pickLegiScanSession(sessions: LegiScanSession[], year: number): LegiScanSession | null {
+  const covering = sessions
+    .filter((s) => !s.special && s.year_start <= year && year <= s.year_end)
+    .sort((a, b) => b.year_start - a.year_start);
+  return covering[0] ?? null;
+}
+
+/**
+ * LegiScan districts look like "HD-012" for state legislators and
+ * "HD-TX-7" / "SD-TX" for Congress. Returns the bare district and, when
+ * present, the state code embedded in it.
+ */
+export function parseDistrict(raw: string | null | undefined): { district: string | null; stateCode: string | null } {
+  const parts = (raw ?? '').split('-').map((p) => p.trim()).filter(Boolean);
+  if (parts.length === 0) return { district: null, stateCode: null };
+
+  const prefix = /^[HS]D$/i.test(parts[0]) ? parts[0].toUpperCase() : null;
+  const rest = prefix ? parts.slice(1) : parts;
+  let stateCode: string | null = null;
+  if (rest.length > 1 && /^[A-Z]{2}$/.test(rest[0])) {
+    stateCode = rest.shift()!;
+  } else if (prefix === 'SD' && rest.length === 1 && /^[A-Z]{2}$/.test(rest[0])) {
+    // U.S. senators carry only the state
+    return { district: null, stateCode: rest[0] };
+  }
+
+  const district = rest.join('-');
+  if (!district) return { district: null, stateCode };
+  return { district: /^\d+$/.test(district) ? String(Number(district)) : district, stateCode };
+}
+
+export function toRosterPerson(person: LegiScanPerson, session: Pick<RosterSession, 'jurisdiction' | 'state_code'>): RosterPerson {
+  const federal = session.jurisdiction === 'federal';
+  const senate = person.role_id === SENATE_ROLE_ID;
+  const { district, stateCode } = parseDistrict(person.district);
+  const bioguideId = person.bioguide_id?.trim();
+
+  return {
+    legiscanPeopleId: person.people_id,
+    name: person.name,
+    party: person.party || UNKNOWN_PARTY,
+    chamber: federal ? (senate ? 'us_senate' : 'us_house') : (senate ? 'state_senate' : 'state_house'),
+    stateCode: federal ? (stateCode ?? FEDERAL_STATE_CODE) : (session.state_code ?? stateCode ?? FEDERAL_STATE_CODE),
+    district,
+    photoUrl: bioguideId
+      ? `https://bioguide.congress.gov/bioguide/photo/${bioguideId.charAt(0)}/${bioguideId}.jpg`
+      : null,
+  };
+}
+
+/**
+ * Party, chamber, district and state changes between a stored legislator and
+ * the roster. Filling in a placeholder or empty value is not a change.
+ */
+export function diffRoster(
+  existing: Pick<Legislator, 'party' | 'chamber' | 'district' | 'state_code'>,
+  person: RosterPerson,
+  legiscanSessionId: number,
+  now: Date
+): RosterChange[] {
+  const pairs: [RosterField, string | null, string | null][] = [
+    ['party', existing.party, person.party],
+    ['chamber', existing.chamber, person.chamber],
+    ['district', existing.district, person.district],
+    ['state_code', existing.state_code, person.stateCode],
+  ];
+
+  return pairs
+    .filter(([, from, to]) => from !== to && from && from !== UNKNOWN_PARTY && from !== FEDERAL_STATE_CODE && to)
+    .map(([field, from, to]) => ({ field, from, to, changed_at: now.toISOString(), legiscan_session_id: legiscanSessionId }));
+}
+
+export function appendRosterHistory(metadata: Record<string, unknown>, changes: RosterChange[]): RosterChange[] {
+  const history = Array.isArray(metadata.roster_history) ? (metadata.roster_history as RosterChange[]) : [];
+  return [...history, ...changes].slice(-ROSTER_HISTORY_LIMIT);
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z\s]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Legislators imported from seed files have no LegiScan ID. Link one when
+ * exactly one unlinked legislator shares the person's name, state and chamber.
+ */
+export function matchUnlinked<T extends Pick<Legislator, 'name' | 'state_code' | 'chamber' | 'legiscan_people_id'>>(
+  person: RosterPerson,
+  candidates: T[]
+): T | null {
+  const name = normalizeName(person.name);
+  const matches = candidates.filter(
+    (c) =>
+      c.legiscan_people_id === null &&
+      c.state_code === person.stateCode &&
+      c.chamber === person.chamber &&
+      normalizeName(c.name) === name
+  );
+  return matches.length === 1 ? matches[0] : null;
+}
+
+export function getSessionChambers(session: Pick<RosterSession, 'jurisdiction' | 'chamber'>): LegislativeChamber[] {
+  if (session.chamber) return [session.chamber];
+  return session.jurisdiction === 'federal' ? ['us_house', 'us_senate'] : ['state_house', 'state_senate'];
+}
+
+// ─── Database functions ──────────────────────────────────────────────────────
+
+type LegislatorRow = Pick<
+  Legislator,
+  'id' | 'legiscan_people_id' | 'name' | 'party' | 'chamber' | 'state_code' | 'district' | 'photo_url' | 'metadata'
+>;
+
+const LEGISLATOR_COLUMNS = 'id, legiscan_people_id, name, party, chamber, state_code, district, photo_url, metadata';
+
+async function resolveLegiScanSessionId(supabase: ServerClient, session: RosterSession): Promise<number | null> {
+  if (session.legiscan_session_id) return session.legiscan_session_id;
+
+  const stateCode = session.jurisdiction === 'federal' ? FEDERAL_STATE_CODE : session.state_code;
+  if (!stateCode) return null;
+
+  const match = pickLegiScanSession(await getSessionList(stateCode), session.session_year);
+  if (!match) return null;
+
+  const { error } = await supabase
+    .from('rlc_scorecard_sessions')
+    .update({ legiscan_session_id: match.session_id, updated_at: new Date().toISOString() } as never)
+    .eq('id', session.id);
+
+  if (error) {
+    logger.error(`Failed to store LegiScan session for scorecard session ${session.id}:`, error);
+  }
+  return match.session_id;
+}
+
+/** Legislators in the session's jurisdiction and chambers. */
+async function fetchScopedLegislators(supabase: ServerClient, session: RosterSession): Promise<LegislatorRow[]> {
+  let query = supabase
+    .from('rlc_legislators')
+    .select(LEGISLATOR_COLUMNS)
+    .in('chamber', getSessionChambers(session));
+
+  if (session.jurisdiction === 'state' && session.state_code) {
+    query = query.eq('state_code', session.state_code);
+  }
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to fetch legislators: ${error.message}`);
+  return (data || []) as LegislatorRow[];
+}
+
+/** IDs of legislators with at least one vote recorded in the session. */
+async function fetchVotingLegislatorIds(supabase: ServerClient, sessionId: string): Promise<Set<string>> {
+  const { data: billsData, error: billsError } = await supabase
+    .from('rlc_scorecard_bills')
+    .select('id')
+    .eq('session_id', sessionId);
+
+  if (billsError) throw new Error(`Failed to fetch bills: ${billsError.message}`);
+  const billIds = ((billsData || []) as { id: string }[]).map((b) => b.id);
+  if (billIds.length === 0) return new Set();
+
+  const { data: votesData, error: votesError } = await supabase
+    .from('rlc_scorecard_votes')
+    .select('legislator_id')
+    .in('bill_id', billIds);
+
+  if (votesError) throw new Error(`Failed to fetch votes: ${votesError.message}`);
+  return new Set(((votesData || []) as { legislator_id: string }[]).map((v) => v.legislator_id));
+}
+
+/**
+ * Upsert a session's LegiScan roster into `rlc_legislators` by
+ * `legiscan_people_id`. Party, chamber, district and state changes are appended
+ * to `metadata.roster_history`. Legislators who have dropped off the roster
+ * are flagged `retired`; seed-imported legislators with votes in the session
+ * that could not be linked to a roster entry are flagged `unmatched`. A flag
+ * clears the next time the legislator appears on a roster.
+ */
+export async function syncSessionRoster(
+  supabase: ServerClient,
+  session: RosterSession,
+  now: Date = new Date()
+): Promise<RosterSyncSessionResult> {
+  const legiscanSessionId = await resolveLegiScanSessionId(supabase, session);
+  if (!legiscanSessionId) {
+    throw new Error(`No LegiScan session found for ${session.name} (${session.session_year})`);
+  }
+
+  const result: RosterSyncSessionResult = {
+    sessionId: session.id,
+    legiscanSessionId,
+    created: 0,
+    updated: 0,
+    linked: 0,
+    changesRecorded: 0,
+    flagged: [],
+    errors: [],
+  };
+
+  const chambers = getSessionChambers(session);
+  const roster = (await getPeopleList(legiscanSessionId))
+    .map((p) => toRosterPerson(p, session))
+    .filter((p) => chambers.includes(p.chamber));
+
+  const scoped = await fetchScopedLegislators(supabase, session);
+
+  const rosterIds = roster.map((p) => p.legiscanPeopleId);
+  let linkedRows: LegislatorRow[] = [];
+  if (rosterIds.length > 0) {
+    const { data, error } = await supabase
+      .from('rlc_legislators')
+      .select(LEGISLATOR_COLUMNS)
+      .in('legiscan_people_id', rosterIds);
+    if (error) throw new Error(`Failed to fetch legislators: ${error.message}`);
+    linkedRows = (data || []) as LegislatorRow[];
+  }
+
+  const byPeopleId = new Map(linkedRows.map((l) => [l.legiscan_people_id!, l]));
+  const unlinked = scoped.filter((l) => l.legiscan_people_id === null);
+  const seen = new Set<string>();
+
+  for (const person of roster) {
+    let existing = byPeopleId.get(person.legiscanPeopleId) ?? null;
+    let linking = false;
+
+    if (!existing) {
+      existing = matchUnlinked(person, unlinked.filter((l) => !seen.has(l.id)));
+      linking = existing !== null;
+    }
+
+    if (!existing) {
+      const { error } = await supabase
+        .from('rlc_legislators')
+        .insert({
+          id: crypto.randomUUID(),
+          legiscan_people_id: person.legiscanPeopleId,
+          name: person.name,
+          party: person.party,
+          chamber: person.chamber,
+          state_code: person.stateCode,
+          district: person.district,
+          photo_url: person.photoUrl,
+        } as never);
+
+      if (error) {
+        result.errors.push(`Legislator ${person.legiscanPeopleId} insert: ${error.message}`);
+      } else {
+        result.created++;
+      }
+      continue;
+    }
+
+    seen.add(existing.id);
+
+    const metadata = existing.metadata ?? {};
+    const changes = diffRoster(existing, person, legiscanSessionId, now);
+    const fieldsChanged =
+      existing.name !== person.name ||
+      existing.party !== person.party ||
+      existing.chamber !== person.chamber ||
+      existing.district !== person.district ||
+      existing.state_code !== person.stateCode;
+    const photoUrl = existing.photo_url ?? person.photoUrl;
+    const hadReview = Boolean((metadata as RosterMetadata).roster_review);
+
+    if (!linking && !fieldsChanged && photoUrl === existing.photo_url && !hadReview) continue;
+
+    const { error } = await supabase
+      .from('rlc_legislators')
+      .update({
+        legiscan_people_id: person.legiscanPeopleId,
+        name: person.name,
+        party: person.party,
+        chamber: person.chamber,
+        state_code: person.stateCode,
+        district: person.district,
+        photo_url: photoUrl,
+        metadata: { ...metadata, roster_history: appendRosterHistory(metadata, changes), roster_review: null },
+        updated_at: now.toISOString(),
+      } as never)
+      .eq('id', existing.id);
+
+    if (error) {
+      result.errors.push(`Legislator ${existing.id} update: ${error.message}`);
+      continue;
+    }
+
+    result.updated++;
+    result.changesRecorded += changes.length;
+    if (linking) result.linked++;
+  }
+
+  // Flag legislators for admin review
+  const rosterIdSet = new Set(rosterIds);
+  const voterIds = await fetchVotingLegislatorIds(supabase, session.id);
+  const toFlag: { legislator: LegislatorRow; reason: RosterReviewReason }[] = [];
+
+  for (const legislator of scoped) {
+    if (seen.has(legislator.id)) continue;
+    if (legislator.legiscan_people_id !== null && !rosterIdSet.has(legislator.legiscan_people_id)) {
+      toFlag.push({ legislator, reason: 'retired' });
+    } else if (legislator.legiscan_people_id === null && voterIds.has(legislator.id)) {
+      toFlag.push({ legislator, reason: 'unmatched' });
+    }
+  }
+
+  for (const { legislator, reason } of toFlag) {
+    const metadata = legislator.metadata ?? {};
+    if ((metadata as RosterMetadata).roster_review?.reason === reason) {
+      result.flagged.push({ legislatorId: legislator.id, name: legislator.name, reason });
+      continue;
+    }
+
+    const review: RosterReview = { reason, session_id: session.id, flagged_at: now.toISOString() };
+    const { error } = await supabase
+      .from('rlc_legislators')
+      .update({ metadata: { ...metadata, roster_review: review }, updated_at: now.toISOString() } as never)
+      .eq('id', legislator.id);
+
+    if (error) {
+      result.errors.push(`Legislator ${legislator.id} flag: ${error.message}`);
+      continue;
+    }
+    result.flagged.push({ legislatorId: legislator.id, name: legislator.name, reason });
+  }
+
+  return result;
+}
+
+/** Sync the roster of every active scorecard session. */
+export async function runRosterSync(now: Date = new Date()): Promise<RosterSyncRunResult> {
+  const supabase = createServerClient();
+  const results: RosterSyncRunResult = {
+    sessionsProcessed: 0,
+    created: 0,
+    updated: 0,
+    linked: 0,
+    changesRecorded: 0,
+    flagged: [],
+    errors: [],
+  };
+
+  const { data, error } = await supabase
+    .from('rlc_scorecard_sessions')
+    .select('id, name, jurisdiction, state_code, chamber, session_year, legiscan_session_id')
+    .eq('status', 'active');
+
+  if (error) throw new Error(`Failed to fetch active sessions: ${error.message}`);
+
+  for (const session of (data || []) as RosterSession[]) {
+    try {
+      const sessionResult = await syncSessionRoster(supabase, session, now);
+      results.sessionsProcessed++;
+      results.created += sessionResult.created;
+      results.updated += sessionResult.updated;
+      results.linked += sessionResult.linked;
+      results.changesRecorded += sessionResult.changesRecorded;
+      results.flagged.push(...sessionResult.flagged);
+      results.errors.push(...sessionResult.errors.map((e) => `Session ${session.id}: ${e}`));
+    } catch (err) {
+      results.errors.push(`Session ${session.id}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  return results;
+}
+
+/** Legislators currently flagged by the roster sync, for the admin review list. */
+export async function getRosterReviewQueue(supabase: ServerClient): Promise<(LegislatorRow & { roster_review: RosterReview })[]> {
+  const { data, error } = await supabase
+    .from('rlc_legislators')
+    .select(LEGISLATOR_COLUMNS)
+    .not('metadata->roster_review', 'is', null)
+    .order('name', { ascending: true });
+
+  if (error) throw new Error(`Failed to fetch roster review queue: ${error.message}`);
+
+  return ((data || []) as LegislatorRow[])
+    .map((l) => ({ ...l, roster_review: (l.metadata as RosterMetadata).roster_review ?? null }))
+    .filter((l): l is LegislatorRow & { roster_review: RosterReview } => l.roster_review !== null);
+}
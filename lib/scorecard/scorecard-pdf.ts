@@ -0,0 +1,330 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { createPdfWriter } from '@/lib/pdf/writer';
+import { PUBLIC_SESSION_STATUSES } from '@/lib/scorecard/legislator-history';
+import { fetchRows, getLegislators } from '@/lib/scorecard/public-api';
+import type {
+  Legislator,
+  ScorecardBill,
+  ScorecardLegislatorScore,
+  ScorecardSession,
+  ScorecardVote,
+} from '@/types';
+
+type ServerClient = ReturnType<typeof createServerClient>;
+
+/** Bill columns per vote-matrix table; wider sessions are split across tables. */
+export const MATRIX_BILLS_PER_TABLE = 12;
+
+const CHAMBER_NAMES: Record<string, string> = {
+  us_house: 'U.S. House of Representatives',
+  us_senate: 'U.S. Senate',
+  state_house: 'State House',
+  state_senate: 'State Senate',
+};
+
+const CHAMBER_SHORT: Record<string, string> = {
+  us_house: 'House',
+  us_senate: 'Senate',
+  state_house: 'House',
+  state_senate: 'Senate',
+};
+
+// ─── Pure types ──────────────────────────────────────────────────────────────
+
+export interface ScorecardExportRow {
+  /** Shared by ties; null when the legislator has no computed score */
+  rank: number | null;
+  legislator: Pick<Legislator, 'id' | 'name' | 'party' | 'chamber' | 'state_code' | 'district'>;
+  libertyScore: number | null;
+  votesAligned: number;
+  absences: number;
+  /** Vote-matrix cell per bill id */
+  marks: Record<string, string>;
+}
+
+export interface ScorecardExport {
+  session: ScorecardSession;
+  /** Scored bills in display order */
+  bills: ScorecardBill[];
+  /** Highest score first */
+  rows: ScorecardExportRow[];
+  averageScore: number | null;
+  generatedAt: string;
+}
+
+// ─── Pure functions ──────────────────────────────────────────────────────────
+
+/** Same cell values as the web vote matrix: 1 aligned, 0 against, NV absent, NA not in office. */
+export function voteMark(vote: Pick<ScorecardVote, 'vote' | 'aligned_with_liberty'> | undefined): string {
+  if (!vote) return '-';
+  if (vote.vote === 'not_applicable') return 'NA';
+  if (vote.vote === 'not_voting' || vote.vote === 'absent' || vote.vote === 'present') return 'NV';
+  return vote.aligned_with_liberty ? '1' : '0';
+}
+
+export function buildScorecardExport(params: {
+  session: ScorecardSession;
+  bills: ScorecardBill[];
+  legislators: ScorecardExportRow['legislator'][];
+  votes: Pick<ScorecardVote, 'bill_id' | 'legislator_id' | 'vote' | 'aligned_with_liberty'>[];
+  scores: Pick<ScorecardLegislatorScore, 'legislator_id' | 'liberty_score' | 'votes_aligned' | 'absences'>[];
+  generatedAt: Date;
+}): ScorecardExport {
+  const bills = [...params.bills].sort((a, b) => a.sort_order - b.sort_order);
+  const scoreMap = new Map(params.scores.map((s) => [s.legislator_id, s]));
+
+  const votesByLegislator = new Map<string, Map<string, (typeof params.votes)[number]>>();
+  for (const v of params.votes) {
+    const legVotes = votesByLegislator.get(v.legislator_id) ?? new Map();
+    legVotes.set(v.bill_id, v);
+    votesByLegislator.set(v.legislator_id, legVotes);
+  }
+
+  const rows: ScorecardExportRow[] = params.legislators.map((legislator) => {
+    const score = scoreMap.get(legislator.id);
+    const legVotes = votesByLegislator.get(legislator.id);
+    return {
+      rank: null,
+      legislator,
+      libertyScore: score ? Number(score.liberty_score) : null,
+      votesAligned: score?.votes_aligned ?? 0,
+      absences: score?.absences ?? 0,
+      marks: Object.fromEntries(bills.map((b) => [b.id, voteMark(legVotes?.get(b.id))])),
+    };
+  });
+
+  rows.sort(
+    (a, b) => (b.libertyScore ?? -1) - (a.libertyScore ?? -1) || a.legislator.name.localeCompare(b.legislator.name)
+  );
+
+  // Competition ranking: ties share a rank and the next rank skips ahead
+  rows.forEach((row, i) => {
+    if (row.libertyScore === null) return;
+    const prev = rows[i - 1];
+    row.rank = prev && prev.libertyScore === row.libertyScore ? prev.rank : i + 1;
+  });
+
+  const scored = rows.filter((r) => r.libertyScore !== null);
+  const averageScore = scored.length > 0
+    ? Math.round((scored.reduce((sum, r) => sum + r.libertyScore!, 0) / scored.length) * 100) / 100
+    : null;
+
+  return { session: params.session, bills, rows, averageScore, generatedAt: params.generatedAt.toISOString() };
+}
+
+export function scorecardPdfFilename(session: Pick<ScorecardSession, 'slug'>): string {
+  return `${session.slug}-liberty-scorecard.pdf`;
+}
+
+function methodology(session: ScorecardSession): string[] {
+  const threshold = session.absence_penalty_threshold;
+  return [
+    'Each legislator\'s Liberty Score is calculated from their votes on bills selected by the Republican Liberty Caucus ' +
+    'for their impact on individual liberty, limited government, free markets and constitutional governance. ' +
+    'A vote that matches the RLC position counts as aligned; a vote against it counts as opposed.',
+    session.scoring_method === 'weighted'
+      ? 'This session uses weighted scoring: each bill counts in proportion to its weight, so higher-impact votes ' +
+        'move the score more. Score = aligned weight / (aligned weight + opposed weight + penalized absences) x 100.'
+      : 'Every scored bill counts equally. Score = aligned votes / (aligned votes + opposed votes + penalized absences) x 100.',
+    `Absences (not voting, absent or present) are forgiven up to ${threshold}; each absence beyond that counts as an ` +
+    'opposed vote. Votes cast before a legislator took office (NA) are excluded. Bonus points are added for ' +
+    'sponsoring or cosponsoring designated bonus bills, so a score can exceed 100.',
+    'Vote key: 1 = voted with the RLC position, 0 = voted against, NV = did not vote, NA = not in office, - = no record.',
+    'Score ranges: 80-100 strong defender of liberty; 60-79 mixed record; 40-59 needs improvement; 0-39 opposed to the liberty agenda.',
+  ];
+}
+
+function formatScore(score: number | null): string {
+  return score === null ? 'N/A' : `${Math.round(score * 100) / 100}%`;
+}
+
+function legislatorLabel(l: ScorecardExportRow['legislator']): string {
+  return `${l.state_code}${l.district ? `-${l.district}` : ''}`;
+}
+
+// ─── Rendering ───────────────────────────────────────────────────────────────
+
+export async function renderScorecardPdf(data: ScorecardExport): Promise<Uint8Array> {
+  const { session, bills, rows } = data;
+  const chamberName = session.chamber ? CHAMBER_NAMES[session.chamber] ?? session.chamber : null;
+  const jurisdiction = session.jurisdiction === 'federal' ? 'Federal' : session.state_code ?? 'State';
+
+  const pdf = await createPdfWriter({
+    documentTitle: `${session.name} Liberty Scorecard`,
+    footerText: `${session.name} Liberty Scorecard - generated ${data.generatedAt.slice(0, 10)}`,
+  });
+
+  // Cover
+  pdf.title(`${session.name} Liberty Scorecard`, [jurisdiction, chamberName, String(session.session_year)].filter(Boolean).join('  |  '));
+  pdf.keyValues([
+    ['Session', session.name],
+    ['Year', String(session.session_year)],
+    ...(chamberName ? [['Chamber', chamberName] as [string, string]] : []),
+    ['Bills scored', String(bills.filter((b) => !b.is_bonus).length)],
+    ['Legislators rated', String(rows.filter((r) => r.libertyScore !== null).length)],
+    ['Average score', formatScore(data.averageScore)],
+  ]);
+  if (session.description) {
+    pdf.spacer();
+    for (const para of session.description.split(/\n\s*\n/)) {
+      pdf.paragraph(para.replace(/\s+/g, ' ').trim());
+      pdf.spacer(6);
+    }
+  }
+
+  // Methodology
+  pdf.heading('Methodology');
+  for (const para of methodology(session)) {
+    pdf.paragraph(para);
+    pdf.spacer(6);
+  }
+
+  // Bill explanations
+  pdf.pageBreak();
+  pdf.heading('Scored Bills');
+  if (bills.length === 0) {
+    pdf.paragraph('No bills have been scored in this session yet.', { muted: true });
+  }
+  bills.forEach((bill, idx) => {
+    const tags = [
+      `RLC: Vote ${bill.liberty_position.toUpperCase()}`,
+      bill.is_bonus ? `Bonus (${bill.bonus_point_value} pts)` : null,
+      !bill.is_bonus && Number(bill.weight) !== 1 ? `Weight: ${bill.weight}x` : null,
+      bill.category && bill.category !== 'other' ? bill.category.replace(/_/g, ' ') : null,
+    ].filter(Boolean).join('  |  ');
+
+    pdf.paragraph(`#${idx + 1}  ${bill.bill_number} - ${bill.title}`, { size: 11 });
+    pdf.paragraph(tags, { muted: true, size: 8 });
+    if (bill.description) pdf.paragraph(bill.description, { size: 9 });
+    if (bill.vote_result_summary) pdf.paragraph(`Result: ${bill.vote_result_summary}`, { muted: true, size: 8 });
+    pdf.spacer(8);
+  });
+
+  // Ranked legislators
+  pdf.pageBreak();
+  pdf.heading('Legislator Rankings');
+  if (rows.length === 0) {
+    pdf.paragraph('No legislators scored yet.', { muted: true });
+  } else {
+    pdf.table(
+      [
+        { header: 'Rank', width: 0.08, align: 'right' },
+        { header: 'Name', width: 0.34 },
+        { header: 'Party', width: 0.08 },
+        { header: 'Chamber', width: 0.12 },
+        { header: 'District', width: 0.12 },
+        { header: 'Aligned', width: 0.09, align: 'right' },
+        { header: 'Absences', width: 0.09, align: 'right' },
+        { header: 'Score', width: 0.08, align: 'right' },
+      ],
+      rows.map((r) => [
+        r.rank === null ? '-' : String(r.rank),
+        r.legislator.name,
+        r.legislator.party,
+        CHAMBER_SHORT[r.legislator.chamber] ?? r.legislator.chamber,
+        legislatorLabel(r.legislator),
+        String(r.votesAligned),
+        String(r.absences),
+        formatScore(r.libertyScore),
+      ])
+    );
+  }
+
+  // Vote matrix, split into bill groups that fit the page width
+  if (bills.length > 0 && rows.length > 0) {
+    for (let start = 0; start < bills.length; start += MATRIX_BILLS_PER_TABLE) {
+      const group = bills.slice(start, start + MATRIX_BILLS_PER_TABLE);
+      const billWidth = 0.6 / MATRIX_BILLS_PER_TABLE;
+
+      pdf.pageBreak();
+      pdf.heading(
+        bills.length > MATRIX_BILLS_PER_TABLE
+          ? `Vote Matrix (bills #${start + 1}-#${start + group.length})`
+          : 'Vote Matrix'
+      );
+      pdf.paragraph(group.map((b, i) => `#${start + i + 1} ${b.bill_number}`).join('   '), { muted: true, size: 8 });
+      pdf.spacer(4);
+      pdf.table(
+        [
+          { header: 'Name', width: 0.3 },
+          { header: 'District', width: 0.1 },
+          ...group.map((_, i) => ({ header: `#${start + i + 1}`, width: billWidth, align: 'right' as const })),
+        ],
+        rows.map((r) => [r.legislator.name, legislatorLabel(r.legislator), ...group.map((b) => r.marks[b.id])])
+      );
+    }
+  }
+
+  return pdf.save();
+}
+
+// ─── Database functions ──────────────────────────────────────────────────────
+
+/**
+ * Load everything the PDF needs. Scores come from the stored per-session
+ * scores (the PDF-matching algorithm in compute-scores.ts), not the web
+ * page's on-the-fly tally. Returns null when the session does not exist or,
+ * with `publicOnly`, is not published.
+ */
+export async function fetchScorecardExport(
+  supabase: ServerClient,
+  where: { slug: string } | { sessionId: string },
+  options: { publicOnly: boolean }
+): Promise<ScorecardExport | null> {
+  let sessionQuery = supabase.from('rlc_scorecard_sessions').select('*');
+  sessionQuery = 'slug' in where ? sessionQuery.eq('slug', where.slug) : sessionQuery.eq('id', where.sessionId);
+  if (options.publicOnly) sessionQuery = sessionQuery.in('status', PUBLIC_SESSION_STATUSES);
+
+  const { data: sessionData, error: sessionError } = await sessionQuery.single();
+  if (sessionError) {
+    if (sessionError.code === 'PGRST116') return null;
+    throw new Error(`Failed to fetch session: ${sessionError.message}`);
+  }
+  const session = sessionData as ScorecardSession;
+
+  const { data: billsData, error: billsError } = await supabase
+    .from('rlc_scorecard_bills')
+    .select('*')
+    .eq('session_id', session.id)
+    .eq('bill_status', 'voted')
+    .order('sort_order', { ascending: true });
+
+  if (billsError) throw new Error(`Failed to fetch bills: ${billsError.message}`);
+  const bills = (billsData || []) as ScorecardBill[];
+
+  let votes: Pick<ScorecardVote, 'bill_id' | 'legislator_id' | 'vote' | 'aligned_with_liberty'>[] = [];
+  if (bills.length > 0) {
+    const result = await fetchRows<(typeof votes)[number]>(
+      (from, to) =>
+        supabase
+          .from('rlc_scorecard_votes')
+          .select('bill_id, legislator_id, vote, aligned_with_liberty')
+          .in('bill_id', bills.map((b) => b.id))
+          .order('bill_id', { ascending: true })
+          .order('legislator_id', { ascending: true })
+          .range(from, to),
+      null,
+      'votes'
+    );
+    votes = result.rows;
+  }
+
+  const { rows: scores } = await fetchRows<
+    Pick<ScorecardLegislatorScore, 'legislator_id' | 'liberty_score' | 'votes_aligned' | 'absences'>
+  >(
+    (from, to) =>
+      supabase
+        .from('rlc_scorecard_legislator_scores')
+        .select('legislator_id, liberty_score, votes_aligned, absences')
+        .eq('session_id', session.id)
+        .order('legislator_id', { ascending: true })
+        .range(from, to),
+    null,
+    'scores'
+  );
+
+  const legislatorIds = Array.from(new Set([...votes.map((v) => v.legislator_id), ...scores.map((s) => s.legislator_id)]));
+  const legislators = Array.from((await getLegislators(supabase, legislatorIds)).values());
+
+  return buildScorecardExport({ session, bills, legislators, votes, scores, generatedAt: new Date() });
+}
@@ -0,0 +1,358 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { escapeCsvField } from '@/lib/csv';
+import { PUBLIC_SESSION_STATUSES } from '@/lib/scorecard/legislator-history';
+import { BULK_PAGE_SIZE, fetchRows } from '@/lib/scorecard/public-api';
+import type {
+  CategorySubScore,
+  Jurisdiction,
+  LegislativeChamber,
+  Legislator,
+} from '@/types';
+
+type ServerClient = ReturnType<typeof createServerClient>;
+
+export const MIN_COMPARED_SESSIONS = 2;
+export const MAX_COMPARED_SESSIONS = 4;
+
+/** Movers listed in each direction */
+const MOVERS_LIMIT = 5;
+
+// ─── Pure types ──────────────────────────────────────────────────────────────
+
+export interface ComparisonSession {
+  id: string;
+  name: string;
+  slug: string;
+  jurisdiction: Jurisdiction;
+  state_code: string | null;
+  chamber: LegislativeChamber | null;
+  session_year: number;
+}
+
+export type ComparisonLegislator = Pick<
+  Legislator,
+  'id' | 'legiscan_people_id' | 'name' | 'party' | 'chamber' | 'state_code' | 'district'
+>;
+
+export interface ComparisonScoreInput {
+  session_id: string;
+  legislator_id: string;
+  liberty_score: number;
+  category_scores: Record<string, CategorySubScore> | null;
+}
+
+/**
+ * - `returning`: scored in the latest session and at least one earlier one
+ * - `new`: scored only in the latest session
+ * - `departed`: scored earlier but not in the latest session
+ */
+export type ComparisonStatus = 'returning' | 'new' | 'departed';
+
+export interface ComparisonRow {
+  key: string;
+  /** Record from the most recent session the legislator was scored in */
+  legislator: ComparisonLegislator;
+  /** Liberty score keyed by session id; null where the legislator was not scored */
+  scores: Record<string, number | null>;
+  /** Latest score minus the earliest compared score; null unless returning */
+  delta: number | null;
+  status: ComparisonStatus;
+}
+
+export interface CategoryShift {
+  category: string;
+  /** Share of aligned votes across all legislators, keyed by session id */
+  scores: Record<string, number | null>;
+  /** Change from the first session with votes in the category to the latest */
+  delta: number | null;
+}
+
+export interface SessionComparison {
+  /** Oldest session first */
+  sessions: ComparisonSession[];
+  averages: Record<string, number | null>;
+  /** Highest latest score first; departed members last */
+  rows: ComparisonRow[];
+  newMembers: ComparisonRow[];
+  departed: ComparisonRow[];
+  movers: { up: ComparisonRow[]; down: ComparisonRow[] };
+  /** Largest absolute shift first */
+  categories: CategoryShift[];
+}
+
+// ─── Pure functions ──────────────────────────────────────────────────────────
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Session slugs from a query string. Accepts repeated `sessions` params and
+ * comma-separated lists so both form submissions and hand-written links work.
+ */
+export function parseSessionSlugs(values: string[]): string[] {
+  const slugs = values.flatMap((v) => v.split(',')).map((s) => s.trim()).filter(Boolean);
+  return Array.from(new Set(slugs));
+}
+
+export function getSessionCountError(count: number): string | null {
+  if (count < MIN_COMPARED_SESSIONS) return `Select at least ${MIN_COMPARED_SESSIONS} scorecards to compare`;
+  if (count > MAX_COMPARED_SESSIONS) return `At most ${MAX_COMPARED_SESSIONS} scorecards can be compared at once`;
+  return null;
+}
+
+/** Returns why the sessions cannot be compared, or null when they can. */
+export function getComparisonError(sessions: ComparisonSession[]): string | null {
+  const countError = getSessionCountError(sessions.length);
+  if (countError) return countError;
+
+  const [first, ...rest] = sessions;
+  const mismatch = rest.some(
+    (s) => s.jurisdiction !== first.jurisdiction || s.state_code !== first.state_code || s.chamber !== first.chamber
+  );
+  return mismatch ? 'Scorecards must share a jurisdiction and chamber to be compared' : null;
+}
+
+/** Order sessions oldest first; same-year sessions fall back to name order. */
+export function sortComparisonSessions(sessions: ComparisonSession[]): ComparisonSession[] {
+  return [...sessions].sort((a, b) => a.session_year - b.session_year || a.name.localeCompare(b.name));
+}
+
+function nameKey(legislator: ComparisonLegislator): string {
+  const name = legislator.name.toLowerCase().replace(/[^a-z]+/g, ' ').trim();
+  return `name:${legislator.state_code}:${legislator.chamber}:${name}`;
+}
+
+/**
+ * Group legislator records that are the same person. Roster sync reuses one
+ * row per LegiScan person, but hand-entered sessions can hold duplicates, so
+ * records also match on LegiScan id, and records without one match on name
+ * within state and chamber. Returns a match key per legislator id.
+ */
+export function matchLegislators(legislators: ComparisonLegislator[]): Map<string, string> {
+  const keyOwner = new Map<string, string>();
+  const result = new Map<string, string>();
+
+  // LegiScan-linked records first, so hand-entered duplicates can join them by name
+  const ordered = [...legislators].sort((a, b) => Number(!a.legiscan_people_id) - Number(!b.legiscan_people_id));
+
+  for (const leg of ordered) {
+    const ownKey = `id:${leg.id}`;
+    const lookup = leg.legiscan_people_id ? `ls:${leg.legiscan_people_id}` : nameKey(leg);
+    const match = keyOwner.get(lookup) ?? ownKey;
+
+    for (const k of [ownKey, lookup, nameKey(leg)]) {
+      if (!keyOwner.has(k)) keyOwner.set(k, match);
+    }
+    result.set(leg.id, match);
+  }
+
+  return result;
+}
+
+function aggregateCategories(
+  sessions: ComparisonSession[],
+  scores: ComparisonScoreInput[]
+): CategoryShift[] {
+  const totals = new Map<string, Map<string, { aligned: number; against: number }>>();
+
+  for (const row of scores) {
+    for (const [category, sub] of Object.entries(row.category_scores ?? {})) {
+      const bySession = totals.get(category) ?? new Map();
+      const entry = bySession.get(row.session_id) ?? { aligned: 0, against: 0 };
+      entry.aligned += sub.aligned;
+      entry.against += sub.against;
+      bySession.set(row.session_id, entry);
+      totals.set(category, bySession);
+    }
+  }
+
+  return Array.from(totals.entries())
+    .map(([category, bySession]) => {
+      const categoryScores: Record<string, number | null> = {};
+      for (const s of sessions) {
+        const t = bySession.get(s.id);
+        categoryScores[s.id] = t && t.aligned + t.against > 0 ? round2((t.aligned / (t.aligned + t.against)) * 100) : null;
+      }
+      const present = sessions.map((s) => categoryScores[s.id]).filter((v): v is number => v !== null);
+      const latest = categoryScores[sessions[sessions.length - 1].id];
+      const delta = latest !== null && present.length > 1 ? round2(latest - present[0]) : null;
+      return { category, scores: categoryScores, delta };
+    })
+    .sort((a, b) => Math.abs(b.delta ?? 0) - Math.abs(a.delta ?? 0) || a.category.localeCompare(b.category));
+}
+
+/**
+ * Match legislators across sessions and summarize how scores moved.
+ * `sessions` must already be comparable and sorted oldest first.
+ */
+export function compareSessions(input: {
+  sessions: ComparisonSession[];
+  legislators: ComparisonLegislator[];
+  scores: ComparisonScoreInput[];
+}): SessionComparison {
+  const { sessions, legislators, scores } = input;
+  const sessionIndex = new Map(sessions.map((s, i) => [s.id, i]));
+  const latestIndex = sessions.length - 1;
+  const legislatorById = new Map(legislators.map((l) => [l.id, l]));
+  const matchKeys = matchLegislators(legislators);
+
+  const grouped = new Map<string, { legislator: ComparisonLegislator; seenIndex: number; scores: (number | null)[] }>();
+  for (const row of scores) {
+    const index = sessionIndex.get(row.session_id);
+    const leg = legislatorById.get(row.legislator_id);
+    if (index === undefined || !leg) continue;
+
+    const key = matchKeys.get(leg.id)!;
+    const entry = grouped.get(key) ?? { legislator: leg, seenIndex: -1, scores: sessions.map(() => null) };
+    entry.scores[index] = Number(row.liberty_score);
+    if (index >= entry.seenIndex) {
+      entry.legislator = leg;
+      entry.seenIndex = index;
+    }
+    grouped.set(key, entry);
+  }
+
+  const rows: ComparisonRow[] = Array.from(grouped.entries()).map(([key, entry]) => {
+    const latest = entry.scores[latestIndex];
+    const earlier = entry.scores.slice(0, latestIndex).find((s): s is number => s !== null);
+    const status: ComparisonStatus = latest === null ? 'departed' : earlier === undefined ? 'new' : 'returning';
+    return {
+      key,
+      legislator: entry.legislator,
+      scores: Object.fromEntries(sessions.map((s, i) => [s.id, entry.scores[i]])),
+      delta: status === 'returning' ? round2(latest! - earlier!) : null,
+      status,
+    };
+  });
+
+  const latestId = sessions[latestIndex].id;
+  rows.sort(
+    (a, b) =>
+      Number(a.status === 'departed') - Number(b.status === 'departed') ||
+      (b.scores[latestId] ?? -1) - (a.scores[latestId] ?? -1) ||
+      a.legislator.name.localeCompare(b.legislator.name)
+  );
+
+  const averages: Record<string, number | null> = {};
+  for (const s of sessions) {
+    const values = rows.map((r) => r.scores[s.id]).filter((v): v is number => v !== null);
+    averages[s.id] = values.length > 0 ? round2(values.reduce((sum, v) => sum + v, 0) / values.length) : null;
+  }
+
+  const returning = rows.filter((r) => r.delta !== null && r.delta !== 0);
+  return {
+    sessions,
+    averages,
+    rows,
+    newMembers: rows.filter((r) => r.status === 'new'),
+    departed: rows.filter((r) => r.status === 'departed'),
+    movers: {
+      up: returning.filter((r) => r.delta! > 0).sort((a, b) => b.delta! - a.delta!).slice(0, MOVERS_LIMIT),
+      down: returning.filter((r) => r.delta! < 0).sort((a, b) => a.delta! - b.delta!).slice(0, MOVERS_LIMIT),
+    },
+    categories: aggregateCategories(sessions, scores),
+  };
+}
+
+const STATUS_LABELS: Record<ComparisonStatus, string> = {
+  returning: 'Returning',
+  new: 'Newly elected',
+  departed: 'Departed',
+};
+
+export function comparisonToCsv(comparison: SessionComparison): string {
+  const header = [
+    'Legislator', 'Party', 'State', 'District', 'Status',
+    ...comparison.sessions.map((s) => s.name), 'Change',
+  ].map(escapeCsvField).join(',');
+
+  // Scores are numbers, not user input, so they skip escapeCsvField —
+  // its formula guard would prefix negative changes with a quote
+  const rows = comparison.rows.map((row) =>
+    [
+      escapeCsvField(row.legislator.name),
+      escapeCsvField(row.legislator.party),
+      escapeCsvField(row.legislator.state_code),
+      escapeCsvField(row.legislator.district),
+      escapeCsvField(STATUS_LABELS[row.status]),
+      ...comparison.sessions.map((s) => row.scores[s.id]?.toFixed(2) ?? ''),
+      row.delta?.toFixed(2) ?? '',
+    ].join(',')
+  );
+
+  return [header, ...rows].join('\n');
+}
+
+export function comparisonFilename(comparison: SessionComparison): string {
+  return `scorecard-comparison-${comparison.sessions.map((s) => s.slug).join('-vs-')}.csv`;
+}
+
+// ─── Database functions ──────────────────────────────────────────────────────
+
+/** Public sessions that can be offered for comparison, newest first. */
+export async function getComparableSessions(supabase: ServerClient): Promise<ComparisonSession[]> {
+  const { data, error } = await supabase
+    .from('rlc_scorecard_sessions')
+    .select('id, name, slug, jurisdiction, state_code, chamber, session_year')
+    .in('status', PUBLIC_SESSION_STATUSES)
+    .order('session_year', { ascending: false });
+
+  if (error) throw new Error(`Failed to fetch sessions: ${error.message}`);
+  return (data || []) as ComparisonSession[];
+}
+
+/**
+ * Load and compare public sessions by slug. Returns `{ error }` when a slug is
+ * unknown or the sessions cannot be compared.
+ */
+export async function fetchSessionComparison(
+  supabase: ServerClient,
+  slugs: string[]
+): Promise<{ comparison: SessionComparison } | { error: string }> {
+  const countError = getSessionCountError(slugs.length);
+  if (countError) return { error: countError };
+
+  const { data: sessionsData, error: sessionsError } = await supabase
+    .from('rlc_scorecard_sessions')
+    .select('id, name, slug, jurisdiction, state_code, chamber, session_year')
+    .in('slug', slugs)
+    .in('status', PUBLIC_SESSION_STATUSES);
+
+  if (sessionsError) throw new Error(`Failed to fetch sessions: ${sessionsError.message}`);
+  const sessions = sortComparisonSessions((sessionsData || []) as ComparisonSession[]);
+
+  if (sessions.length !== slugs.length) {
+    const found = new Set(sessions.map((s) => s.slug));
+    return { error: `Scorecard not found: ${slugs.filter((s) => !found.has(s)).join(', ')}` };
+  }
+  const comparisonError = getComparisonError(sessions);
+  if (comparisonError) return { error: comparisonError };
+
+  const { rows: scores } = await fetchRows<ComparisonScoreInput>(
+    (from, to) =>
+      supabase
+        .from('rlc_scorecard_legislator_scores')
+        .select('session_id, legislator_id, liberty_score, category_scores')
+        .in('session_id', sessions.map((s) => s.id))
+        .order('session_id', { ascending: true })
+        .order('legislator_id', { ascending: true })
+        .range(from, to),
+    null,
+    'scores'
+  );
+
+  const legislatorIds = Array.from(new Set(scores.map((s) => s.legislator_id)));
+  const legislators: ComparisonLegislator[] = [];
+  for (let i = 0; i < legislatorIds.length; i += BULK_PAGE_SIZE) {
+    const { data: legData, error: legError } = await supabase
+      .from('rlc_legislators')
+      .select('id, legiscan_people_id, name, party, chamber, state_code, district')
+      .in('id', legislatorIds.slice(i, i + BULK_PAGE_SIZE));
+
+    if (legError) throw new Error(`Failed to fetch legislators: ${legError.message}`);
+    legislators.push(...((legData || []) as ComparisonLegislator[]));
+  }
+
+  return { comparison: compareSessions({ sessions, legislators, scores }) };
+}
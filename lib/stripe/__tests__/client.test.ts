@@ -145,6 +145,42 @@ describe('Stripe client', () => {
       const callArgs = mockCheckoutSessionsCreate.mock.calls[0][0];
       expect(callArgs.metadata.source).toBe('rlc-website');
     });
+    it('sells a multi-year term as a one-time payment even when a Price ID exists', async () => {
+      const { createCheckoutSession } = await import('../client');
+      await createCheckoutSession({
+        tier: 'individual',
+        term: 'three_year',
+        memberEmail: 'test@example.com',
+        returnUrl: 'https://example.com/success?session_id={CHECKOUT_SESSION_ID}',
+      });
+
+      const callArgs = mockCheckoutSessionsCreate.mock.calls[0][0];
+      expect(callArgs.mode).toBe('payment');
+      expect(callArgs.line_items[0].price_data.unit_amount).toBe(13500);
+      expect(callArgs.metadata.term).toBe('three_year');
+    });
+
+    it('rejects a lifetime Student/Military membership', async () => {
+      const { createCheckoutSession } = await import('../client');
+      await expect(
+        createCheckoutSession({
+          tier: 'student_military',
+          term: 'lifetime',
+          memberEmail: 'test@example.com',
+          returnUrl: 'https://example.com/success',
+        })
+      ).rejects.toThrow('Invalid membership term');
+      expect(mockCheckoutSessionsCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('membership terms', () => {
+    it('computes expiry per term and none for lifetime', async () => {
+      const { getTermExpiryDate } = await import('../client');
+      const start = new Date('2026-03-01T00:00:00Z');
+      expect(getTermExpiryDate('two_year', start)).toEqual(new Date('2028-03-01T00:00:00Z'));
+      expect(getTermExpiryDate('lifetime', start)).toBeNull();
+    });
   });
 
   describe('createDonationCheckoutSession', () => {
@@ -0,0 +1,301 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type Stripe from 'stripe';
+import type { Contact } from '@/types';
+
+// ── Mocks ──────────────────────────────────────────────────────────
+
+const mockPaymentIntentsRetrieve = vi.fn();
+
+vi.mock('@/lib/stripe/client', () => ({
+  getStripe: vi.fn(() => ({ paymentIntents: { retrieve: mockPaymentIntentsRetrieve } })),
+}));
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}));
+
+vi.mock('@/lib/highlevel/notifications', () => ({
+  DUNNING_WORKFLOW_TAGS: {
+    first_notice: 'Payment Failed',
+    reminder: 'Payment Failed Reminder',
+    final_notice: 'Payment Failed Final Notice',
+  },
+  triggerPaymentFailedNotice: vi.fn().mockResolvedValue(true),
+  triggerPaymentRecovered: vi.fn().mockResolvedValue(true),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import {
+  getDunningNotice,
+  getPaymentFailureDetails,
+  needsPaymentMethodUpdate,
+  recordPaymentFailure,
+  resolveDunning,
+} from '../dunning';
+import { triggerPaymentFailedNotice, triggerPaymentRecovered } from '@/lib/highlevel/notifications';
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+type ChainResult = { data?: unknown; error?: unknown };
+
+function mockChain(terminalResult: ChainResult = { data: null, error: null }) {
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  const methods = ['select', 'eq', 'in', 'is', 'not', 'order', 'limit', 'maybeSingle', 'single', 'update', 'insert'];
+  for (const m of methods) {
+    chain[m] = vi.fn().mockReturnValue(chain);
+  }
+  (chain as Record<string, unknown>)['then'] = (resolve: (v: ChainResult) => void) =>
+    resolve(terminalResult);
+  return chain;
+}
+
+/** Each table hands out its chains in call order; the last one repeats. */
+function mockSupabase(chains: Record<string, ReturnType<typeof mockChain>[]>) {
+  return {
+    from: vi.fn((table: string) => {
+      const queue = chains[table];
+      if (!queue || queue.length === 0) return mockChain();
+      return queue.length > 1 ? queue.shift()! : queue[0];
+    }),
+  };
+}
+
+function makeMember(overrides: Partial<Contact> = {}): Contact {
+  return {
+    id: 'member-1',
+    clerk_user_id: 'user_1',
+    email: 'test@example.com',
+    first_name: 'John',
+    last_name: 'Doe',
+    phone: null,
+    address_line1: null,
+    address_line2: null,
+    city: null,
+    state: null,
+    postal_code: null,
+    country: 'US',
+    membership_tier: 'individual',
+    membership_status: 'current',
+    membership_start_date: '2025-07-01T00:00:00Z',
+    membership_expiry_date: '2026-07-01T00:00:00Z',
+    membership_join_date: '2024-07-01T00:00:00Z',
+    membership_term: 'annual',
+    membership_status_reason: null,
+    primary_charter_id: 'charter-1',
+    highlevel_contact_id: null,
+    civicrm_contact_id: null,
+    stripe_customer_id: 'cus_1',
+    email_opt_in: true,
+    sms_opt_in: false,
+    do_not_phone: false,
+    household_id: null,
+    household_role: null,
+    primary_contact_id: null,
+    metadata: {},
+    created_at: '2024-07-01T00:00:00Z',
+    updated_at: '2024-07-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function makeInvoice(overrides: Partial<Stripe.Invoice> = {}): Stripe.Invoice {
+  return {
+    id: 'in_1',
+    subscription: 'sub_1',
+    attempt_count: 1,
+    next_payment_attempt: Date.UTC(2026, 6, 4) / 1000,
+    amount_due: 4500,
+    payment_intent: 'pi_1',
+    ...overrides,
+  } as Stripe.Invoice;
+}
+
+const NOW = new Date('2026-07-01T12:00:00Z');
+
+// ── Pure functions ─────────────────────────────────────────────────
+
+describe('getDunningNotice', () => {
+  it('escalates from first notice to reminder to final notice', () => {
+    expect(getDunningNotice(1, true)).toBe('first_notice');
+    expect(getDunningNotice(2, true)).toBe('reminder');
+    expect(getDunningNotice(3, true)).toBe('reminder');
+    expect(getDunningNotice(4, false)).toBe('final_notice');
+  });
+});
+
+describe('needsPaymentMethodUpdate', () => {
+  it('is true only while Stripe is still retrying', () => {
+    expect(needsPaymentMethodUpdate({ membership_status_reason: 'payment_failed' })).toBe(true);
+    expect(needsPaymentMethodUpdate({ membership_status_reason: 'payment_abandoned' })).toBe(false);
+    expect(needsPaymentMethodUpdate({ membership_status_reason: null })).toBe(false);
+  });
+});
+
+describe('getPaymentFailureDetails', () => {
+  it('prefers the decline code', () => {
+    const pi = {
+      last_payment_error: { code: 'card_declined', decline_code: 'insufficient_funds', message: 'Declined' },
+    } as Stripe.PaymentIntent;
+    expect(getPaymentFailureDetails(pi)).toEqual({ code: 'insufficient_funds', message: 'Declined' });
+    expect(getPaymentFailureDetails(null)).toEqual({ code: null, message: null });
+  });
+});
+
+// ── recordPaymentFailure ───────────────────────────────────────────
+
+describe('recordPaymentFailure', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPaymentIntentsRetrieve.mockResolvedValue({
+      last_payment_error: { code: 'card_declined', message: 'Your card was declined.' },
+    });
+  });
+
+  it('logs the attempt, opens dunning and moves the member to grace', async () => {
+    const memberships = [
+      mockChain({ data: { id: 'mem-1', dunning_started_at: null, dunning_resolved_at: null }, error: null }),
+      mockChain(),
+    ];
+    const membershipUpdate = memberships[1];
+    const attempts = mockChain({ data: { id: 'attempt-1' }, error: null });
+    const contacts = mockChain();
+    const supabase = mockSupabase({
+      rlc_memberships: memberships,
+      rlc_dunning_attempts: [attempts],
+      rlc_contacts: [contacts],
+    });
+
+    const outcome = await recordPaymentFailure(supabase as never, {
+      member: makeMember(),
+      invoice: makeInvoice(),
+      now: NOW,
+    });
+
+    expect(outcome).toEqual({
+      recorded: true,
+      attemptNumber: 1,
+      notice: 'first_notice',
+      statusReason: 'payment_failed',
+    });
+    expect(attempts.insert).toHaveBeenCalledWith(expect.objectContaining({
+      membership_id: 'mem-1',
+      stripe_invoice_id: 'in_1',
+      attempt_number: 1,
+      amount: 45,
+      failure_code: 'card_declined',
+      next_retry_at: '2026-07-04T00:00:00.000Z',
+    }));
+    expect(membershipUpdate.update).toHaveBeenCalledWith({
+      failed_payment_count: 1,
+      dunning_started_at: NOW.toISOString(),
+      dunning_resolved_at: null,
+    });
+    expect(contacts.update).toHaveBeenCalledWith({
+      membership_status: 'grace',
+      membership_status_reason: 'payment_failed',
+    });
+    expect(triggerPaymentFailedNotice).toHaveBeenCalledWith('test@example.com', 'first_notice');
+    expect(attempts.update).toHaveBeenCalledWith({
+      notification_tag: 'Payment Failed',
+      notified_at: NOW.toISOString(),
+    });
+  });
+
+  it('marks the payment abandoned when Stripe stops retrying', async () => {
+    const contacts = mockChain();
+    const supabase = mockSupabase({
+      rlc_memberships: [mockChain({
+        data: { id: 'mem-1', dunning_started_at: '2026-07-01T00:00:00Z', dunning_resolved_at: null },
+        error: null,
+      })],
+      rlc_dunning_attempts: [mockChain({ data: { id: 'attempt-4' }, error: null })],
+      rlc_contacts: [contacts],
+    });
+
+    const outcome = await recordPaymentFailure(supabase as never, {
+      member: makeMember({ membership_status: 'grace', membership_status_reason: 'payment_failed' }),
+      invoice: makeInvoice({ attempt_count: 4, next_payment_attempt: null }),
+      now: NOW,
+    });
+
+    expect(outcome).toMatchObject({ recorded: true, notice: 'final_notice', statusReason: 'payment_abandoned' });
+    expect(contacts.update).toHaveBeenCalledWith(expect.objectContaining({
+      membership_status_reason: 'payment_abandoned',
+    }));
+  });
+
+  it('treats a replayed attempt as a no-op', async () => {
+    const contacts = mockChain();
+    const supabase = mockSupabase({
+      rlc_dunning_attempts: [mockChain({ data: null, error: { code: '23505', message: 'duplicate key' } })],
+      rlc_contacts: [contacts],
+    });
+
+    const outcome = await recordPaymentFailure(supabase as never, {
+      member: makeMember(),
+      invoice: makeInvoice(),
+      now: NOW,
+    });
+
+    expect(outcome).toEqual({ recorded: false, reason: 'duplicate' });
+    expect(contacts.update).not.toHaveBeenCalled();
+    expect(triggerPaymentFailedNotice).not.toHaveBeenCalled();
+  });
+
+  it('ignores one-off invoices and prepaid terms', async () => {
+    const supabase = mockSupabase({});
+
+    const oneOff = await recordPaymentFailure(supabase as never, {
+      member: makeMember(),
+      invoice: makeInvoice({ subscription: null }),
+    });
+    const prepaid = await recordPaymentFailure(supabase as never, {
+      member: makeMember({ membership_term: 'lifetime' }),
+      invoice: makeInvoice(),
+    });
+
+    expect(oneOff).toEqual({ recorded: false, reason: 'not_subscription' });
+    expect(prepaid).toEqual({ recorded: false, reason: 'prepaid_term' });
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+});
+
+// ── resolveDunning ─────────────────────────────────────────────────
+
+describe('resolveDunning', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('closes open dunning and sends the recovery notice', async () => {
+    const memberships = mockChain({ data: [{ id: 'mem-1' }], error: null });
+    const supabase = mockSupabase({ rlc_memberships: [memberships] });
+
+    const recovered = await resolveDunning(supabase as never, {
+      member: makeMember({ membership_status: 'grace', membership_status_reason: 'payment_failed' }),
+      subscriptionId: 'sub_1',
+      now: NOW,
+    });
+
+    expect(recovered).toBe(true);
+    expect(memberships.update).toHaveBeenCalledWith({ dunning_resolved_at: NOW.toISOString() });
+    expect(memberships.is).toHaveBeenCalledWith('dunning_resolved_at', null);
+    expect(triggerPaymentRecovered).toHaveBeenCalledWith('test@example.com');
+  });
+
+  it('stays quiet for an ordinary renewal', async () => {
+    const supabase = mockSupabase({ rlc_memberships: [mockChain({ data: [], error: null })] });
+
+    const recovered = await resolveDunning(supabase as never, {
+      member: makeMember(),
+      subscriptionId: 'sub_1',
+      now: NOW,
+    });
+
+    expect(recovered).toBe(false);
+    expect(triggerPaymentRecovered).not.toHaveBeenCalled();
+  });
+});
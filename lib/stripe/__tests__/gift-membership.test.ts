@@ -0,0 +1,369 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type Stripe from 'stripe';
+import type { Contact, GiftMembership } from '@/types';
+
+// ── Mocks ──────────────────────────────────────────────────────────
+
+const mockSessionsCreate = vi.fn();
+
+vi.mock('@/lib/stripe/client', async () => {
+  const actual = await vi.importActual<typeof import('@/lib/stripe/client')>('@/lib/stripe/client');
+  return {
+    ...actual,
+    getStripe: vi.fn(() => ({ checkout: { sessions: { create: mockSessionsCreate } } })),
+  };
+});
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}));
+
+vi.mock('@/lib/dues-sharing/split-engine', () => ({
+  processDuesSplit: vi.fn().mockResolvedValue(undefined),
+  resolveCharterByState: vi.fn().mockResolvedValue('charter-tx'),
+}));
+
+vi.mock('@/lib/email/client', () => ({
+  sendEmail: vi.fn().mockResolvedValue(undefined),
+  escapeHtml: (s: string) => s,
+}));
+
+vi.mock('@/lib/highlevel/client', () => ({
+  syncMemberToHighLevel: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import {
+  claimGiftMembership,
+  createGiftCheckout,
+  fulfillGiftMembership,
+  getGiftMembershipDates,
+  maskEmail,
+} from '../gift-membership';
+import { createServerClient } from '@/lib/supabase/server';
+import { processDuesSplit, resolveCharterByState } from '@/lib/dues-sharing/split-engine';
+import { sendEmail } from '@/lib/email/client';
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+type ChainResult = { data?: unknown; error?: unknown };
+
+function mockChain(terminalResult: ChainResult = { data: null, error: null }) {
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  const methods = ['select', 'eq', 'maybeSingle', 'single', 'update', 'insert'];
+  for (const m of methods) {
+    chain[m] = vi.fn().mockReturnValue(chain);
+  }
+  (chain as Record<string, unknown>)['then'] = (resolve: (v: ChainResult) => void) =>
+    resolve(terminalResult);
+  return chain;
+}
+
+/** Each table hands out its chains in call order; the last one repeats. */
+function mockSupabase(chains: Record<string, ReturnType<typeof mockChain>[]>) {
+  return {
+    from: vi.fn((table: string) => {
+      const queue = chains[table];
+      if (!queue || queue.length === 0) return mockChain();
+      return queue.length > 1 ? queue.shift()! : queue[0];
+    }),
+  };
+}
+
+function makeContact(overrides: Partial<Contact> = {}): Contact {
+  return {
+    id: 'contact-1',
+    clerk_user_id: null,
+    email: 'someone@example.com',
+    first_name: 'Some',
+    last_name: 'One',
+    phone: null,
+    address_line1: null,
+    address_line2: null,
+    city: null,
+    state: null,
+    postal_code: null,
+    country: 'US',
+    membership_tier: 'individual',
+    membership_status: 'pending',
+    membership_start_date: null,
+    membership_expiry_date: null,
+    membership_join_date: null,
+    membership_term: 'annual',
+    membership_status_reason: null,
+    primary_charter_id: null,
+    highlevel_contact_id: null,
+    civicrm_contact_id: null,
+    stripe_customer_id: null,
+    email_opt_in: true,
+    sms_opt_in: false,
+    do_not_phone: false,
+    household_id: null,
+    household_role: null,
+    primary_contact_id: null,
+    metadata: {},
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function makeGift(overrides: Partial<GiftMembership> = {}): GiftMembership {
+  return {
+    id: 'gift-1',
+    purchaser_contact_id: null,
+    purchaser_email: 'giver@example.com',
+    purchaser_name: 'Gina Giver',
+    recipient_contact_id: null,
+    recipient_email: 'friend@example.com',
+    recipient_first_name: 'Frank',
+    recipient_last_name: 'Friend',
+    recipient_state: 'TX',
+    membership_tier: 'individual',
+    membership_term: 'annual',
+    gift_message: null,
+    claim_token: 'tok_abc',
+    status: 'pending',
+    stripe_checkout_session_id: 'cs_gift',
+    contribution_id: null,
+    paid_at: null,
+    claim_email_sent_at: null,
+    claimed_at: null,
+    created_at: '2026-03-01T00:00:00Z',
+    updated_at: '2026-03-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const SESSION = {
+  id: 'cs_gift',
+  amount_total: 4500,
+  currency: 'usd',
+  payment_intent: 'pi_gift',
+  customer_email: 'giver@example.com',
+  customer_details: { email: 'giver@example.com', name: 'Gina Giver' },
+  metadata: { type: 'gift_membership', gift_id: 'gift-1', tier: 'individual', term: 'annual' },
+} as unknown as Stripe.Checkout.Session;
+
+const mockedCreateServerClient = createServerClient as ReturnType<typeof vi.fn>;
+
+// ── Pure functions ─────────────────────────────────────────────────
+
+describe('getGiftMembershipDates', () => {
+  const now = new Date('2026-03-01T00:00:00Z');
+
+  it('starts a new member today', () => {
+    const dates = getGiftMembershipDates({ term: 'two_year', recipientStatus: null, recipientExpiry: null, now });
+    expect(dates.extendsExisting).toBe(false);
+    expect(dates.start).toEqual(now);
+    expect(dates.expiry?.toISOString()).toBe('2028-03-01T00:00:00.000Z');
+  });
+
+  it('extends an active member from their current expiry', () => {
+    const dates = getGiftMembershipDates({
+      term: 'annual',
+      recipientStatus: 'current',
+      recipientExpiry: '2026-09-01T00:00:00Z',
+      now,
+    });
+    expect(dates.extendsExisting).toBe(true);
+    expect(dates.expiry?.toISOString()).toBe('2027-09-01T00:00:00.000Z');
+  });
+
+  it('restarts a lapsed member and never expires a lifetime gift', () => {
+    const lapsed = getGiftMembershipDates({
+      term: 'lifetime',
+      recipientStatus: 'expired',
+      recipientExpiry: '2025-09-01T00:00:00Z',
+      now,
+    });
+    expect(lapsed.extendsExisting).toBe(false);
+    expect(lapsed.expiry).toBeNull();
+  });
+});
+
+describe('maskEmail', () => {
+  it('keeps only the first two characters of the local part', () => {
+    expect(maskEmail('frank@example.com')).toBe('fr***@example.com');
+    expect(maskEmail('not-an-email')).toBe('***');
+  });
+});
+
+// ── createGiftCheckout ─────────────────────────────────────────────
+
+describe('createGiftCheckout', () => {
+  const recipient = { email: 'friend@example.com', firstName: 'Frank', lastName: 'Friend', state: 'TX' };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('records a pending gift and opens a one-time payment session', async () => {
+    const gifts = mockChain({ data: { id: 'gift-1' }, error: null });
+    mockedCreateServerClient.mockReturnValue(mockSupabase({
+      rlc_contacts: [mockChain({ data: null, error: null })],
+      rlc_gift_memberships: [gifts],
+    }));
+    mockSessionsCreate.mockResolvedValue({ id: 'cs_gift', client_secret: 'secret_1' });
+
+    const outcome = await createGiftCheckout({
+      tier: 'individual',
+      term: 'two_year',
+      purchaserEmail: 'giver@example.com',
+      recipient,
+      returnUrl: 'https://example.com/join/success',
+    });
+
+    expect(outcome).toEqual({ success: true, giftId: 'gift-1', clientSecret: 'secret_1' });
+    expect(gifts.insert).toHaveBeenCalledWith(expect.objectContaining({
+      recipient_email: 'friend@example.com',
+      membership_term: 'two_year',
+      claim_token: expect.any(String),
+    }));
+    expect(mockSessionsCreate).toHaveBeenCalledWith(expect.objectContaining({
+      mode: 'payment',
+      customer_email: 'giver@example.com',
+      metadata: expect.objectContaining({ type: 'gift_membership', gift_id: 'gift-1', term: 'two_year' }),
+    }));
+  });
+
+  it('refuses gifts to yourself and to lifetime members', async () => {
+    mockedCreateServerClient.mockReturnValue(mockSupabase({
+      rlc_contacts: [mockChain({ data: { membership_term: 'lifetime' }, error: null })],
+    }));
+
+    const self = await createGiftCheckout({
+      tier: 'individual',
+      term: 'annual',
+      purchaserEmail: 'Friend@example.com',
+      recipient,
+      returnUrl: 'https://example.com',
+    });
+    const lifetime = await createGiftCheckout({
+      tier: 'individual',
+      term: 'annual',
+      purchaserEmail: 'giver@example.com',
+      recipient,
+      returnUrl: 'https://example.com',
+    });
+
+    expect(self).toMatchObject({ success: false, reason: 'not_eligible' });
+    expect(lifetime).toMatchObject({ success: false, reason: 'not_eligible' });
+    expect(mockSessionsCreate).not.toHaveBeenCalled();
+  });
+});
+
+// ── fulfillGiftMembership ──────────────────────────────────────────
+
+describe('fulfillGiftMembership', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('charges the purchaser and activates the recipient under their state charter', async () => {
+    const purchaser = makeContact({ id: 'purchaser-1', email: 'giver@example.com', primary_charter_id: 'charter-ca' });
+    const recipient = makeContact({ id: 'recipient-1', email: 'friend@example.com' });
+    const recipientUpdate = mockChain({ data: null, error: null });
+    const contributions = mockChain({ data: { id: 'contrib-1' }, error: null });
+    const memberships = mockChain({ data: null, error: null });
+    const giftPaid = mockChain({ data: null, error: null });
+
+    const supabase = mockSupabase({
+      rlc_gift_memberships: [mockChain({ data: makeGift(), error: null }), giftPaid, mockChain()],
+      rlc_contacts: [
+        mockChain({ data: purchaser, error: null }),
+        mockChain({ data: null, error: null }),
+        mockChain({ data: recipient, error: null }),
+        recipientUpdate,
+      ],
+      rlc_contributions: [contributions],
+      rlc_memberships: [memberships],
+    });
+
+    await fulfillGiftMembership(supabase as never, SESSION);
+
+    expect(resolveCharterByState).toHaveBeenCalledWith('TX');
+    expect(recipientUpdate.update).toHaveBeenCalledWith(expect.objectContaining({
+      membership_status: 'new_member',
+      membership_term: 'annual',
+      primary_charter_id: 'charter-tx',
+    }));
+    expect(contributions.insert).toHaveBeenCalledWith(expect.objectContaining({
+      contact_id: 'purchaser-1',
+      charter_id: 'charter-tx',
+      amount: 45,
+      metadata: expect.objectContaining({
+        gift_membership_id: 'gift-1',
+        recipient_contact_id: 'recipient-1',
+        membership_tier: 'individual',
+      }),
+    }));
+    expect(processDuesSplit).toHaveBeenCalledWith('contrib-1');
+    expect(memberships.insert).toHaveBeenCalledWith(expect.objectContaining({
+      contact_id: 'recipient-1',
+      is_auto_renew: false,
+    }));
+    expect(giftPaid.update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'paid',
+      recipient_contact_id: 'recipient-1',
+      contribution_id: 'contrib-1',
+    }));
+    expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({ to: 'friend@example.com' }));
+  });
+
+  it('skips a gift that was already fulfilled', async () => {
+    const contributions = mockChain();
+    const supabase = mockSupabase({
+      rlc_gift_memberships: [mockChain({ data: makeGift({ status: 'paid' }), error: null })],
+      rlc_contributions: [contributions],
+    });
+
+    await fulfillGiftMembership(supabase as never, SESSION);
+
+    expect(contributions.insert).not.toHaveBeenCalled();
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+});
+
+// ── claimGiftMembership ────────────────────────────────────────────
+
+describe('claimGiftMembership', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('only lets the recipient claim the gift', async () => {
+    mockedCreateServerClient.mockReturnValue(mockSupabase({
+      rlc_gift_memberships: [mockChain({
+        data: makeGift({ status: 'paid', recipient_contact_id: 'recipient-1' }),
+        error: null,
+      })],
+    }));
+
+    const outcome = await claimGiftMembership({ token: 'tok_abc', member: makeContact({ id: 'someone-else' }) });
+
+    expect(outcome).toMatchObject({ success: false, reason: 'wrong_recipient' });
+  });
+
+  it('marks a paid gift claimed', async () => {
+    const claim = mockChain({
+      data: makeGift({ status: 'claimed', recipient_contact_id: 'recipient-1' }),
+      error: null,
+    });
+    mockedCreateServerClient.mockReturnValue(mockSupabase({
+      rlc_gift_memberships: [
+        mockChain({ data: makeGift({ status: 'paid', recipient_contact_id: 'recipient-1' }), error: null }),
+        claim,
+      ],
+    }));
+
+    const outcome = await claimGiftMembership({ token: 'tok_abc', member: makeContact({ id: 'recipient-1' }) });
+
+    expect(outcome).toMatchObject({ success: true, gift: { status: 'claimed' } });
+    expect(claim.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'claimed' }));
+    expect(claim.eq).toHaveBeenCalledWith('status', 'paid');
+  });
+});
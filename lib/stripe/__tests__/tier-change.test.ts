@@ -0,0 +1,308 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Contact } from '@/types';
+
+// ── Mocks ──────────────────────────────────────────────────────────
+
+const mockSubscriptionsRetrieve = vi.fn();
+const mockSubscriptionsUpdate = vi.fn();
+const mockRetrieveUpcoming = vi.fn();
+
+vi.mock('@/lib/stripe/client', async () => {
+  const actual = await vi.importActual<typeof import('@/lib/stripe/client')>('@/lib/stripe/client');
+  const withPrices = actual.MEMBERSHIP_TIERS.map((t) => ({ ...t, stripePriceId: `price_${t.tier}` }));
+  return {
+    ...actual,
+    MEMBERSHIP_TIERS: withPrices,
+    getTierConfig: (tier: string) => withPrices.find((t) => t.tier === tier),
+    getStripe: vi.fn(() => ({
+      subscriptions: { retrieve: mockSubscriptionsRetrieve, update: mockSubscriptionsUpdate },
+      invoices: { retrieveUpcoming: mockRetrieveUpcoming },
+    })),
+  };
+});
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}));
+
+vi.mock('@/lib/highlevel/client', () => ({
+  syncMemberToHighLevel: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import {
+  changeMembershipTier,
+  getReplacedPriceCents,
+  getUncoveredHouseholdRoles,
+  previewTierChange,
+  sumProrationCents,
+} from '../tier-change';
+import { getTierConfig } from '@/lib/stripe/client';
+import { createServerClient } from '@/lib/supabase/server';
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+type ChainResult = { data?: unknown; error?: unknown };
+
+function mockChain(terminalResult: ChainResult = { data: null, error: null }) {
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  const methods = ['select', 'eq', 'neq', 'in', 'not', 'order', 'limit', 'maybeSingle', 'update', 'insert'];
+  for (const m of methods) {
+    chain[m] = vi.fn().mockReturnValue(chain);
+  }
+  (chain as Record<string, unknown>)['then'] = (resolve: (v: ChainResult) => void) =>
+    resolve(terminalResult);
+  return chain;
+}
+
+function mockSupabase(chains: Record<string, ReturnType<typeof mockChain>>) {
+  return {
+    from: vi.fn((table: string) => chains[table] ?? mockChain()),
+  };
+}
+
+function makeMember(overrides: Partial<Contact> = {}): Contact {
+  return {
+    id: 'member-1',
+    clerk_user_id: 'user_1',
+    email: 'test@example.com',
+    first_name: 'John',
+    last_name: 'Doe',
+    phone: null,
+    address_line1: null,
+    address_line2: null,
+    city: null,
+    state: null,
+    postal_code: null,
+    country: 'US',
+    membership_tier: 'individual',
+    membership_status: 'current',
+    membership_start_date: '2026-01-01T00:00:00Z',
+    membership_expiry_date: '2027-01-01T00:00:00Z',
+    membership_join_date: '2024-01-01T00:00:00Z',
+    membership_term: 'annual',
+    membership_status_reason: null,
+    primary_charter_id: 'charter-1',
+    highlevel_contact_id: null,
+    civicrm_contact_id: null,
+    stripe_customer_id: 'cus_1',
+    email_opt_in: true,
+    sms_opt_in: false,
+    do_not_phone: false,
+    household_id: null,
+    household_role: null,
+    primary_contact_id: null,
+    metadata: {},
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const SUBSCRIPTION = {
+  id: 'sub_1',
+  customer: 'cus_1',
+  status: 'active',
+  metadata: {},
+  current_period_end: Date.UTC(2027, 0, 1) / 1000,
+  items: { data: [{ id: 'si_1' }] },
+};
+
+const NOW = new Date('2026-07-01T00:00:00Z');
+const NOW_SECONDS = NOW.getTime() / 1000;
+
+const mockedCreateServerClient = createServerClient as ReturnType<typeof vi.fn>;
+
+// ── Pure functions ─────────────────────────────────────────────────
+
+describe('getUncoveredHouseholdRoles', () => {
+  it('lists the roles a downgrade stops covering', () => {
+    expect(getUncoveredHouseholdRoles(getTierConfig('sustaining')!, getTierConfig('premium')!)).toEqual(['child']);
+    expect(getUncoveredHouseholdRoles(getTierConfig('patron')!, getTierConfig('individual')!)).toEqual([
+      'spouse',
+      'child',
+    ]);
+    expect(getUncoveredHouseholdRoles(getTierConfig('individual')!, getTierConfig('patron')!)).toEqual([]);
+  });
+});
+
+describe('proration line helpers', () => {
+  const lines = [
+    { amount: -2250, proration: true, price: { unit_amount: 4500 } },
+    { amount: 7500, proration: true, price: { unit_amount: 15000 } },
+    { amount: 15000, proration: false, price: { unit_amount: 15000 } },
+  ] as Parameters<typeof getReplacedPriceCents>[0];
+
+  it('nets only the proration lines', () => {
+    expect(sumProrationCents(lines)).toBe(5250);
+  });
+
+  it('reads the replaced price from the unused-time credit', () => {
+    expect(getReplacedPriceCents(lines)).toBe(4500);
+    expect(getReplacedPriceCents([])).toBeNull();
+  });
+});
+
+// ── previewTierChange ──────────────────────────────────────────────
+
+describe('previewTierChange', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockedCreateServerClient.mockReturnValue(mockSupabase({
+      rlc_memberships: mockChain({ data: { stripe_subscription_id: 'sub_1' }, error: null }),
+    }));
+    mockSubscriptionsRetrieve.mockResolvedValue(SUBSCRIPTION);
+  });
+
+  it('quotes an upgrade as the prorated amount due now', async () => {
+    mockRetrieveUpcoming.mockResolvedValue({
+      lines: { data: [{ amount: -2250, proration: true }, { amount: 7500, proration: true }] },
+    });
+
+    const result = await previewTierChange({ member: makeMember(), toTier: 'sustaining', now: NOW });
+
+    expect(result).toMatchObject({
+      success: true,
+      preview: {
+        direction: 'upgrade',
+        prorationDate: NOW_SECONDS,
+        amountDueNowCents: 5250,
+        creditCents: 0,
+        renewalPriceCents: 15000,
+      },
+    });
+    expect(mockRetrieveUpcoming).toHaveBeenCalledWith(expect.objectContaining({
+      subscription_items: [{ id: 'si_1', price: 'price_sustaining' }],
+      subscription_proration_behavior: 'always_invoice',
+    }));
+  });
+
+  it('refuses members without a website subscription', async () => {
+    mockedCreateServerClient.mockReturnValue(mockSupabase({
+      rlc_memberships: mockChain({ data: null, error: null }),
+    }));
+
+    const result = await previewTierChange({ member: makeMember(), toTier: 'sustaining', now: NOW });
+
+    expect(result).toMatchObject({ success: false, reason: 'no_subscription' });
+    expect(mockSubscriptionsRetrieve).not.toHaveBeenCalled();
+  });
+
+  it('refuses household dependents and lapsed members', async () => {
+    const spouse = await previewTierChange({
+      member: makeMember({ household_id: 'hh-1', household_role: 'spouse' }),
+      toTier: 'sustaining',
+    });
+    const lapsed = await previewTierChange({
+      member: makeMember({ membership_status: 'grace' }),
+      toTier: 'sustaining',
+    });
+
+    expect(spouse).toMatchObject({ success: false, reason: 'not_eligible' });
+    expect(lapsed).toMatchObject({ success: false, reason: 'not_eligible' });
+  });
+});
+
+// ── changeMembershipTier ───────────────────────────────────────────
+
+describe('changeMembershipTier', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSubscriptionsRetrieve.mockResolvedValue(SUBSCRIPTION);
+  });
+
+  it('rejects an expired quote before touching Stripe', async () => {
+    const outcome = await changeMembershipTier({
+      member: makeMember(),
+      toTier: 'sustaining',
+      prorationDate: NOW_SECONDS - 3600,
+      now: NOW,
+    });
+
+    expect(outcome).toMatchObject({ success: false, reason: 'stale_quote' });
+    expect(mockSubscriptionsUpdate).not.toHaveBeenCalled();
+  });
+
+  it('charges an upgrade immediately and records membership history', async () => {
+    const memberships = mockChain({ data: { stripe_subscription_id: 'sub_1' }, error: null });
+    mockedCreateServerClient.mockReturnValue(mockSupabase({
+      rlc_memberships: memberships,
+      rlc_contacts: mockChain({ data: null, error: null }),
+    }));
+    mockSubscriptionsUpdate.mockResolvedValue({
+      ...SUBSCRIPTION,
+      latest_invoice: { billing_reason: 'subscription_update', amount_paid: 5250, lines: { data: [] } },
+    });
+
+    const outcome = await changeMembershipTier({
+      member: makeMember(),
+      toTier: 'sustaining',
+      prorationDate: NOW_SECONDS,
+      now: NOW,
+    });
+
+    expect(outcome).toEqual({
+      success: true,
+      direction: 'upgrade',
+      amountChargedCents: 5250,
+      creditCents: 0,
+      removedHouseholdMemberIds: [],
+    });
+    expect(mockSubscriptionsUpdate).toHaveBeenCalledWith(
+      'sub_1',
+      expect.objectContaining({
+        proration_behavior: 'always_invoice',
+        payment_behavior: 'error_if_incomplete',
+        proration_date: NOW_SECONDS,
+        metadata: { tier: 'sustaining' },
+      }),
+      { idempotencyKey: `tier-change-sub_1-sustaining-${NOW_SECONDS}` }
+    );
+    expect(memberships.insert).toHaveBeenCalledWith(expect.objectContaining({
+      membership_tier: 'sustaining',
+      amount: 52.5,
+      stripe_subscription_id: 'sub_1',
+    }));
+  });
+
+  it('removes household members the downgraded tier no longer covers', async () => {
+    const contacts = mockChain({
+      data: [
+        { id: 'spouse-1', email: 's@example.com', first_name: 'Jane', last_name: 'Doe', household_role: 'spouse' },
+        { id: 'child-1', email: 'c@example.com', first_name: 'Jim', last_name: 'Doe', household_role: 'child' },
+      ],
+      error: null,
+    });
+    mockedCreateServerClient.mockReturnValue(mockSupabase({
+      rlc_memberships: mockChain({ data: { stripe_subscription_id: 'sub_1' }, error: null }),
+      rlc_contacts: contacts,
+    }));
+    mockSubscriptionsUpdate.mockResolvedValue({
+      ...SUBSCRIPTION,
+      latest_invoice: { billing_reason: 'subscription_cycle', amount_paid: 15000, lines: { data: [] } },
+    });
+
+    const outcome = await changeMembershipTier({
+      member: makeMember({ membership_tier: 'sustaining', household_id: 'hh-1', household_role: 'primary' }),
+      toTier: 'premium',
+      prorationDate: NOW_SECONDS,
+      now: NOW,
+    });
+
+    expect(outcome).toMatchObject({
+      success: true,
+      direction: 'downgrade',
+      amountChargedCents: 0,
+      removedHouseholdMemberIds: ['child-1'],
+    });
+    expect(contacts.update).toHaveBeenCalledWith(expect.objectContaining({
+      household_id: null,
+      membership_status: 'cancelled',
+    }));
+    // The spouse stays, on the new tier
+    expect(contacts.in).toHaveBeenCalledWith('id', ['spouse-1']);
+  });
+});
@@ -47,6 +47,7 @@ function createMockSupabase(responses: Record<string, { data: unknown; error: un
     });
     chain.update = vi.fn().mockReturnValue(chain);
     chain.eq = vi.fn().mockReturnValue(chain);
+    chain.in = vi.fn().mockReturnValue(chain);
     chain.is = vi.fn().mockReturnValue(chain);
     chain.not = vi.fn().mockReturnValue(chain);
     chain.single = vi.fn().mockImplementation(response);
@@ -80,6 +81,9 @@ vi.mock('@/lib/highlevel/client', () => ({
 
 vi.mock('@/lib/highlevel/notifications', () => ({
   triggerWelcomeSequence: vi.fn().mockResolvedValue(undefined),
+  triggerPaymentFailedNotice: vi.fn().mockResolvedValue(true),
+  triggerPaymentRecovered: vi.fn().mockResolvedValue(true),
+  DUNNING_WORKFLOW_TAGS: {},
 }));
 
 vi.mock('@/lib/dues-sharing/split-engine', () => ({
@@ -117,6 +121,8 @@ function makeMember(overrides: Partial<Contact> = {}): Contact {
     membership_start_date: '2025-06-01T00:00:00Z',
     membership_expiry_date: '2026-06-01T00:00:00Z',
     membership_join_date: '2025-06-01T00:00:00Z',
+    membership_term: 'annual',
+    membership_status_reason: null,
     primary_charter_id: 'charter-1',
     highlevel_contact_id: null,
     civicrm_contact_id: null,
@@ -138,6 +144,108 @@ function makeStripeEvent(type: string, data: unknown) {
   return { id: `evt_test_${Date.now()}`, type, data: { object: data } };
 }
 
+/**
+ * Keeps rlc_contributions, rlc_memberships and rlc_split_ledger_entries state
+ * across several webhook events. `.single()` on contributions behaves like
+ * PostgREST: PGRST116 unless exactly one row matches.
+ */
+function trackDunningState(mockSb: ReturnType<typeof createMockSupabase>) {
+  const contributions: Record<string, unknown>[] = [];
+  const ledgerEntries: Record<string, unknown>[] = [];
+  const membership = { id: 'mem-1', dunning_started_at: null as string | null, dunning_resolved_at: null as string | null };
+  const origFrom = mockSb.from;
+
+  const matching = (rows: Record<string, unknown>[], filters: Record<string, unknown>) =>
+    rows.filter((r) => Object.entries(filters).every(([k, v]) => r[k] === v));
+
+  mockSb.from = vi.fn().mockImplementation((table: string) => {
+    if (table === 'rlc_contributions') {
+      const filters: Record<string, unknown> = {};
+      let payload: Record<string, unknown> | null = null;
+      const chain: Record<string, unknown> = {};
+      chain.select = vi.fn().mockReturnValue(chain);
+      chain.eq = vi.fn().mockImplementation((column: string, value: unknown) => {
+        filters[column] = value;
+        return chain;
+      });
+      chain.single = vi.fn().mockImplementation(() => {
+        const rows = matching(contributions, filters);
+        return rows.length === 1
+          ? { data: rows[0], error: null }
+          : { data: null, error: { code: 'PGRST116', message: `${rows.length} rows` } };
+      });
+      chain.insert = vi.fn().mockImplementation((p: Record<string, unknown>) => {
+        const row = { id: `contrib-${contributions.length + 1}`, ...p };
+        contributions.push(row);
+        const res = { data: { id: row.id }, error: null };
+        return { select: vi.fn().mockReturnValue({ single: vi.fn().mockReturnValue(res) }), ...res };
+      });
+      chain.update = vi.fn().mockImplementation((p: Record<string, unknown>) => {
+        payload = p;
+        return chain;
+      });
+      chain.then = (resolve: (v: unknown) => void) => {
+        if (payload) for (const row of matching(contributions, filters)) Object.assign(row, payload);
+        resolve({ error: null });
+      };
+      return chain;
+    }
+    if (table === 'rlc_memberships') {
+      const chain: Record<string, unknown> = {};
+      let payload: Partial<typeof membership> | null = null;
+      for (const m of ['eq', 'not', 'is', 'order', 'limit']) chain[m] = vi.fn().mockReturnValue(chain);
+      chain.maybeSingle = vi.fn().mockResolvedValue({ data: { ...membership }, error: null });
+      chain.insert = vi.fn().mockResolvedValue({ error: null });
+      chain.update = vi.fn().mockImplementation((p: Partial<typeof membership>) => {
+        payload = p;
+        return chain;
+      });
+      chain.select = vi.fn().mockImplementation(() => {
+        if (payload && 'dunning_resolved_at' in payload && !('dunning_started_at' in payload)) {
+          const open = membership.dunning_started_at && !membership.dunning_resolved_at;
+          if (open) Object.assign(membership, payload);
+          return Promise.resolve({ data: open ? [{ id: membership.id }] : [], error: null });
+        }
+        return chain;
+      });
+      chain.then = (resolve: (v: unknown) => void) => {
+        if (payload) Object.assign(membership, payload);
+        resolve({ error: null });
+      };
+      return chain;
+    }
+    if (table === 'rlc_split_ledger_entries') {
+      const filters: Record<string, unknown> = {};
+      let payload: Record<string, unknown> | null = null;
+      const chain: Record<string, unknown> = {};
+      chain.select = vi.fn().mockReturnValue(chain);
+      chain.eq = vi.fn().mockImplementation((column: string, value: unknown) => {
+        filters[column] = value;
+        return chain;
+      });
+      chain.is = vi.fn().mockImplementation(() =>
+        Promise.resolve({ data: matching(ledgerEntries, filters).filter((e) => !e.reversal_of_id), error: null })
+      );
+      chain.insert = vi.fn().mockImplementation((p: Record<string, unknown>) => {
+        ledgerEntries.push({ id: `entry-${ledgerEntries.length + 1}`, ...p });
+        return Promise.resolve({ error: null });
+      });
+      chain.update = vi.fn().mockImplementation((p: Record<string, unknown>) => {
+        payload = p;
+        return chain;
+      });
+      chain.then = (resolve: (v: unknown) => void) => {
+        if (payload) for (const row of matching(ledgerEntries, filters)) Object.assign(row, payload);
+        resolve({ error: null });
+      };
+      return chain;
+    }
+    return origFrom(table);
+  });
+
+  return { contributions, ledgerEntries, membership };
+}
+
 // ── Tests ──────────────────────────────────────────────────────────
 
 describe('Stripe webhook handler', () => {
@@ -240,6 +348,71 @@ describe('Stripe webhook handler', () => {
       );
       expect(memberLookupCalls.length).toBeGreaterThan(0);
     });
+    it('records a lifetime purchase with no expiry date', async () => {
+      const member = makeMember();
+      const session = {
+        id: 'cs_web_life',
+        customer: 'cus_website_123',
+        customer_email: 'test@example.com',
+        payment_intent: 'pi_web_life',
+        subscription: null,
+        amount_total: 90000,
+        currency: 'usd',
+        mode: 'payment',
+        metadata: {
+          type: 'membership',
+          tier: 'individual',
+          term: 'lifetime',
+          source: 'rlc-website',
+          member_id: 'member-1',
+        },
+      };
+
+      const event = makeStripeEvent('checkout.session.completed', session);
+      mockStripeConstructEvent.mockReturnValue(event);
+
+      let capturedUpdate: Record<string, unknown> | null = null;
+      const mockSb = createMockSupabase({
+        rlc_webhook_events: [{ data: null, error: null }],
+        rlc_contacts: [{ data: member, error: null }],
+        rlc_contributions: [
+          { data: null, error: { code: 'PGRST116', message: 'not found' } }, // idempotency
+        ],
+        'rlc_contributions:insert': [{ data: { id: 'contrib-life' }, error: null }],
+      });
+
+      const origFrom = mockSb.from;
+      mockSb.from = vi.fn().mockImplementation((table: string) => {
+        const chain = origFrom(table);
+        if (table === 'rlc_contacts') {
+          const origUpdate = chain.update;
+          chain.update = vi.fn().mockImplementation((payload: Record<string, unknown>) => {
+            capturedUpdate = payload;
+            return origUpdate(payload);
+          });
+        }
+        return chain;
+      });
+
+      const { createServerClient } = await import('@/lib/supabase/server');
+      (createServerClient as ReturnType<typeof vi.fn>).mockReturnValue(mockSb);
+
+      const { POST } = await import('@/app/api/webhooks/stripe/route');
+      const req = new Request('https://example.com/api/webhooks/stripe', {
+        method: 'POST',
+        body: JSON.stringify(event),
+        headers: { 'stripe-signature': 'test-signature' },
+      });
+
+      const res = await POST(req);
+      expect(res.status).toBe(200);
+
+      expect(capturedUpdate).toMatchObject({
+        membership_term: 'lifetime',
+        membership_expiry_date: null,
+        membership_status: 'new_member',
+      });
+    });
   });
 
   describe('handleInvoicePaid', () => {
@@ -383,6 +556,202 @@ describe('Stripe webhook handler', () => {
       expect(newStart.getUTCFullYear()).toBe(2026);
       expect(newStart.getUTCMonth()).toBe(5);
     });
+
+    it('records a tier upgrade proration as a top-up without extending expiry', async () => {
+      const member = makeMember();
+
+      const invoice = {
+        id: 'in_upgrade_123',
+        customer: 'cus_website_123',
+        payment_intent: 'pi_upgrade_123',
+        amount_paid: 5250,
+        currency: 'usd',
+        billing_reason: 'subscription_update',
+        lines: {
+          data: [
+            { amount: -2250, proration: true, price: { unit_amount: 4500 } },
+            { amount: 7500, proration: true, price: { unit_amount: 15000 } },
+          ],
+        },
+      };
+
+      const event = makeStripeEvent('invoice.payment_succeeded', invoice);
+      mockStripeConstructEvent.mockReturnValue(event);
+
+      let capturedInsert: Record<string, unknown> | null = null;
+      const mockSb = createMockSupabase({
+        rlc_webhook_events: [{ data: null, error: null }],
+        rlc_contacts: [{ data: member, error: null }],
+        rlc_contributions: [
+          { data: null, error: { code: 'PGRST116', message: 'not found' } }, // idempotency
+        ],
+        'rlc_contributions:insert': [{ data: { id: 'contrib-upgrade' }, error: null }],
+      });
+
+      const origFrom = mockSb.from;
+      const contactUpdates: unknown[] = [];
+      mockSb.from = vi.fn().mockImplementation((table: string) => {
+        const chain = origFrom(table);
+        if (table === 'rlc_contributions') {
+          const origInsert = chain.insert as (payload: Record<string, unknown>) => unknown;
+          chain.insert = vi.fn().mockImplementation((payload: Record<string, unknown>) => {
+            capturedInsert = payload;
+            return origInsert(payload);
+          });
+        }
+        if (table === 'rlc_contacts') {
+          const origUpdate = chain.update as (payload: unknown) => unknown;
+          chain.update = vi.fn().mockImplementation((payload: unknown) => {
+            contactUpdates.push(payload);
+            return origUpdate(payload);
+          });
+        }
+        return chain;
+      });
+
+      const { createServerClient } = await import('@/lib/supabase/server');
+      (createServerClient as ReturnType<typeof vi.fn>).mockReturnValue(mockSb);
+      const { processDuesSplit } = await import('@/lib/dues-sharing/split-engine');
+
+      const { POST } = await import('@/app/api/webhooks/stripe/route');
+      const req = new Request('https://example.com/api/webhooks/stripe', {
+        method: 'POST',
+        body: JSON.stringify(event),
+        headers: { 'stripe-signature': 'test-signature' },
+      });
+
+      const res = await POST(req);
+      expect(res.status).toBe(200);
+
+      const insert = capturedInsert as unknown as Record<string, unknown>;
+      expect(insert).toMatchObject({
+        amount: 52.5,
+        contribution_type: 'membership',
+        metadata: { tier_change: true, prior_payment_cents: 4500 },
+      });
+      expect(processDuesSplit).toHaveBeenCalledWith('contrib-upgrade');
+      expect(contactUpdates).toHaveLength(0);
+    });
+
+    it('renews and closes dunning when a retry succeeds on the payment intent that failed', async () => {
+      const member = makeMember({ membership_expiry_date: '2026-01-01T00:00:00Z' });
+      const invoice = {
+        id: 'in_retry_123',
+        customer: 'cus_website_123',
+        subscription: 'sub_123',
+        payment_intent: 'pi_retry_123',
+        amount_due: 4500,
+        amount_paid: 0,
+        attempt_count: 1,
+        next_payment_attempt: 1767225600,
+        currency: 'usd',
+        billing_reason: 'subscription_cycle',
+      };
+
+      const mockSb = createMockSupabase({
+        rlc_webhook_events: [{ data: null, error: null }],
+        rlc_contacts: [{ data: member, error: null }],
+        'rlc_dunning_attempts:insert': [{ data: { id: 'attempt-1' }, error: null }],
+      });
+
+      const { contributions, membership } = trackDunningState(mockSb);
+
+      const { createServerClient } = await import('@/lib/supabase/server');
+      (createServerClient as ReturnType<typeof vi.fn>).mockReturnValue(mockSb);
+      const { processDuesSplit } = await import('@/lib/dues-sharing/split-engine');
+      const { triggerPaymentRecovered } = await import('@/lib/highlevel/notifications');
+      const { POST } = await import('@/app/api/webhooks/stripe/route');
+
+      const post = async (type: string, data: unknown) => {
+        const event = makeStripeEvent(type, data);
+        mockStripeConstructEvent.mockReturnValue(event);
+        return POST(new Request('https://example.com/api/webhooks/stripe', {
+          method: 'POST',
+          body: JSON.stringify(event),
+          headers: { 'stripe-signature': 'test-signature' },
+        }));
+      };
+
+      expect((await post('invoice.payment_failed', invoice)).status).toBe(200);
+      expect(contributions).toEqual([expect.objectContaining({ payment_status: 'failed' })]);
+      expect(membership.dunning_started_at).not.toBeNull();
+
+      const paid = { ...invoice, amount_paid: 4500, attempt_count: 2, next_payment_attempt: null };
+      expect((await post('invoice.payment_succeeded', paid)).status).toBe(200);
+
+      expect(contributions).toHaveLength(2);
+      expect(contributions[1]).toMatchObject({
+        stripe_payment_intent_id: 'pi_retry_123',
+        payment_status: 'completed',
+        amount: 45,
+      });
+      expect(processDuesSplit).toHaveBeenCalledWith('contrib-2');
+      expect(membership.dunning_resolved_at).not.toBeNull();
+      expect(triggerPaymentRecovered).toHaveBeenCalledWith('test@example.com');
+    });
+  });
+
+  describe('handleChargeRefunded', () => {
+    it('reverses the split when a renewal recovered from dunning is refunded', async () => {
+      const member = makeMember({ membership_expiry_date: '2026-01-01T00:00:00Z' });
+      const invoice = {
+        id: 'in_retry_456',
+        customer: 'cus_website_123',
+        subscription: 'sub_123',
+        payment_intent: 'pi_retry_456',
+        amount_due: 4500,
+        amount_paid: 0,
+        attempt_count: 1,
+        next_payment_attempt: 1767225600,
+        currency: 'usd',
+        billing_reason: 'subscription_cycle',
+      };
+
+      const mockSb = createMockSupabase({
+        rlc_webhook_events: [{ data: null, error: null }],
+        rlc_contacts: [{ data: member, error: null }],
+        'rlc_dunning_attempts:insert': [{ data: { id: 'attempt-1' }, error: null }],
+      });
+      const { contributions, ledgerEntries } = trackDunningState(mockSb);
+
+      const { createServerClient } = await import('@/lib/supabase/server');
+      (createServerClient as ReturnType<typeof vi.fn>).mockReturnValue(mockSb);
+      const { POST } = await import('@/app/api/webhooks/stripe/route');
+
+      const post = async (type: string, data: unknown) => {
+        const event = makeStripeEvent(type, data);
+        mockStripeConstructEvent.mockReturnValue(event);
+        return POST(new Request('https://example.com/api/webhooks/stripe', {
+          method: 'POST',
+          body: JSON.stringify(event),
+          headers: { 'stripe-signature': 'test-signature' },
+        }));
+      };
+
+      expect((await post('invoice.payment_failed', invoice)).status).toBe(200);
+      const paid = { ...invoice, amount_paid: 4500, attempt_count: 2, next_payment_attempt: null };
+      expect((await post('invoice.payment_succeeded', paid)).status).toBe(200);
+      expect(contributions.map((c) => c.payment_status)).toEqual(['failed', 'completed']);
+
+      // processDuesSplit is mocked; stand in for the entry it would have written
+      ledgerEntries.push({
+        id: 'split-1',
+        contribution_id: 'contrib-2',
+        source_type: 'membership',
+        recipient_charter_id: 'charter-1',
+        amount: 15,
+        status: 'pending',
+        stripe_transfer_id: null,
+        reversal_of_id: null,
+      });
+
+      const charge = { id: 'ch_retry_456', payment_intent: 'pi_retry_456', amount_refunded: 4500 };
+      expect((await post('charge.refunded', charge)).status).toBe(200);
+
+      expect(ledgerEntries[0].status).toBe('reversed');
+      expect(ledgerEntries[1]).toMatchObject({ reversal_of_id: 'split-1', amount: -15, status: 'reversed' });
+      expect(contributions.map((c) => c.payment_status)).toEqual(['failed', 'refunded']);
+    });
   });
 
   describe('handleSubscriptionCancelled', () => {
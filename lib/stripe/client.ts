@@ -1,5 +1,5 @@
 import Stripe from 'stripe';
-import type { MembershipTier } from '@/types';
+import type { MembershipTerm, MembershipTier } from '@/types';
 
 // Lazy initialization to avoid build-time errors when env vars aren't set
 let stripeClient: Stripe | null = null;
@@ -183,6 +183,58 @@ export function getMembershipPaymentDescription(tierConfig: TierConfig): string
   return desc;
 }
 
+// ===========================================
+// Membership term configuration
+// ===========================================
+
+/** Lifetime price as a multiple of the tier's annual price */
+export const LIFETIME_PRICE_MULTIPLIER = 20;
+
+export interface TermConfig {
+  term: MembershipTerm;
+  name: string;
+  years: number | null; // null = never expires
+  priceSuffix: string; // appended to the price in the join flow
+  description: string;
+}
+
+export const MEMBERSHIP_TERMS: TermConfig[] = [
+  { term: 'annual', name: '1 Year', years: 1, priceSuffix: '/year', description: 'Renews automatically each year' },
+  { term: 'two_year', name: '2 Years', years: 2, priceSuffix: ' for 2 years', description: 'One payment covers two years' },
+  {
+    term: 'three_year',
+    name: '3 Years',
+    years: 3,
+    priceSuffix: ' for 3 years',
+    description: 'One payment covers three years',
+  },
+  { term: 'lifetime', name: 'Lifetime', years: null, priceSuffix: ' lifetime', description: 'One payment, never expires' },
+];
+
+export function getTermConfig(term: MembershipTerm): TermConfig | undefined {
+  return MEMBERSHIP_TERMS.find((t) => t.term === term);
+}
+
+/** Student/Military is tied to a status that ends, so it is not sold as lifetime */
+export function isTermAvailable(tier: MembershipTier, term: MembershipTerm): boolean {
+  return !(term === 'lifetime' && tier === 'student_military');
+}
+
+/** Price in cents for a tier bought for a given term */
+export function getTermPrice(tierConfig: TierConfig, term: MembershipTerm): number {
+  const years = getTermConfig(term)?.years;
+  return tierConfig.price * (years ?? LIFETIME_PRICE_MULTIPLIER);
+}
+
+/** Expiry date for a term starting at `start`; null for lifetime */
+export function getTermExpiryDate(term: MembershipTerm, start: Date): Date | null {
+  const years = getTermConfig(term)?.years;
+  if (years == null) return null;
+  const expiry = new Date(start);
+  expiry.setFullYear(expiry.getFullYear() + years);
+  return expiry;
+}
+
 // ===========================================
 // Checkout session creation
 // ===========================================
@@ -260,32 +312,42 @@ async function findOrCreateWebsiteCustomer(
 
 export async function createCheckoutSession(params: {
   tier: MembershipTier;
+  term?: MembershipTerm;
   memberEmail: string;
   memberId?: string;
   returnUrl: string;
 }): Promise<Stripe.Checkout.Session> {
   const stripe = getStripe();
   const tierConfig = getTierConfig(params.tier);
+  const term = params.term ?? 'annual';
+  const termConfig = getTermConfig(term);
 
   if (!tierConfig) {
     throw new Error(`Invalid membership tier: ${params.tier}`);
   }
+  if (!termConfig || !isTermAvailable(params.tier, term)) {
+    throw new Error(`Invalid membership term for ${params.tier}: ${term}`);
+  }
 
-  const useSubscription = !!tierConfig.stripePriceId;
+  // Only annual memberships renew; multi-year and lifetime are one-time payments
+  const useSubscription = term === 'annual' && !!tierConfig.stripePriceId;
   const mode = useSubscription ? 'subscription' : 'payment';
 
   // Build line item: persistent Price ID (subscription) or dynamic price_data (fallback)
-  const lineItem: Stripe.Checkout.SessionCreateParams.LineItem = tierConfig.stripePriceId
-    ? { price: tierConfig.stripePriceId, quantity: 1 }
+  const lineItem: Stripe.Checkout.SessionCreateParams.LineItem = useSubscription
+    ? { price: tierConfig.stripePriceId!, quantity: 1 }
     : {
         price_data: {
           currency: 'usd',
           product_data: {
-            name: `RLC ${tierConfig.name} Membership`,
+            name:
+              term === 'annual'
+                ? `RLC ${tierConfig.name} Membership`
+                : `RLC ${tierConfig.name} Membership (${termConfig.name})`,
             description: tierConfig.description,
-            metadata: { tier: params.tier },
+            metadata: { tier: params.tier, term },
           },
-          unit_amount: tierConfig.price,
+          unit_amount: getTermPrice(tierConfig, term),
         },
         quantity: 1,
       };
@@ -297,6 +359,7 @@ export async function createCheckoutSession(params: {
     line_items: [lineItem],
     metadata: {
       tier: params.tier,
+      term,
       type: 'membership',
       source: 'rlc-website',
       member_id: params.memberId || '',
@@ -449,6 +512,7 @@ export async function createTransfer(params: {
   destinationAccountId: string;
   transferGroup?: string;
   description?: string;
+  metadata?: Record<string, string>;
   idempotencyKey?: string;
 }): Promise<Stripe.Transfer> {
   const stripe = getStripe();
@@ -459,13 +523,99 @@ export async function createTransfer(params: {
       destination: params.destinationAccountId,
       transfer_group: params.transferGroup,
       description: params.description,
+      metadata: params.metadata,
     },
     params.idempotencyKey ? { idempotencyKey: params.idempotencyKey } : undefined
   );
 }
 
-/** Reverse a transfer (for refunds) */
-export async function reverseTransfer(transferId: string): Promise<Stripe.TransferReversal> {
+/**
+ * Reverse a transfer (for refunds). Pass `amount` (cents) to reverse only part
+ * of it — required for batched payouts where one transfer covers many entries.
+ */
+export async function reverseTransfer(transferId: string, amount?: number): Promise<Stripe.TransferReversal> {
   const stripe = getStripe();
-  return stripe.transfers.createReversal(transferId);
+  if (amount === undefined) {
+    return stripe.transfers.createReversal(transferId);
+  }
+  return stripe.transfers.createReversal(transferId, { amount });
+}
+
+/** List every transfer sent to a Connected Account since `createdSince` (auto-paginated) */
+export async function listTransfersForAccount(
+  destinationAccountId: string,
+  createdSince: Date
+): Promise<Stripe.Transfer[]> {
+  const stripe = getStripe();
+  return stripe.transfers
+    .list({
+      destination: destinationAccountId,
+      created: { gte: Math.floor(createdSince.getTime() / 1000) },
+      limit: 100,
+    })
+    .autoPagingToArray({ limit: 10000 });
+}
+
+/**
+ * Find a live (unreversed) transfer already sent for a split ledger entry, newest
+ * first. Matches the `ledger_entry_id` metadata, or the description for
+ * transfers sent before that metadata was added. Returns null when none exists.
+ */
+export async function findTransferForLedgerEntry(params: {
+  ledgerEntryId: string;
+  destinationAccountId: string;
+  transferGroup?: string;
+  createdSince?: Date;
+}): Promise<Stripe.Transfer | null> {
+  const stripe = getStripe();
+  const description = `Dues split - entry ${params.ledgerEntryId}`;
+  const transfers = stripe.transfers.list({
+    destination: params.destinationAccountId,
+    transfer_group: params.transferGroup,
+    created: params.createdSince ? { gte: Math.floor(params.createdSince.getTime() / 1000) } : undefined,
+    limit: 100,
+  });
+  for await (const transfer of transfers) {
+    if (transfer.reversed) continue;
+    if (transfer.metadata?.ledger_entry_id === params.ledgerEntryId || transfer.description === description) {
+      return transfer;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find a live (unreversed) transfer already sent for a payout batch. Each batch
+ * has its own transfer group, so any transfer in it belongs to the batch.
+ * Returns null when none exists.
+ */
+export async function findTransferForPayoutBatch(params: {
+  transferGroup: string;
+  destinationAccountId: string;
+}): Promise<Stripe.Transfer | null> {
+  const stripe = getStripe();
+  const transfers = stripe.transfers.list({
+    destination: params.destinationAccountId,
+    transfer_group: params.transferGroup,
+    limit: 100,
+  });
+  for await (const transfer of transfers) {
+    if (!transfer.reversed) return transfer;
+  }
+  return null;
+}
+
+/** Retrieve a transfer. Returns null when Stripe has no record of it. */
+export async function getTransfer(transferId: string): Promise<Stripe.Transfer | null> {
+  const stripe = getStripe();
+  try {
+    return await stripe.transfers.retrieve(transferId);
+  } catch (err: unknown) {
+    const isNotFound =
+      err instanceof Error &&
+      'code' in err &&
+      (err as { code?: string }).code === 'resource_missing';
+    if (isNotFound) return null;
+    throw err;
+  }
 }
@@ -0,0 +1,236 @@
+import type Stripe from 'stripe';
+import { createServerClient } from '@/lib/supabase/server';
+import { getStripe } from '@/lib/stripe/client';
+import {
+  DUNNING_WORKFLOW_TAGS,
+  triggerPaymentFailedNotice,
+  triggerPaymentRecovered,
+  type DunningNotice,
+} from '@/lib/highlevel/notifications';
+import { logger } from '@/lib/logger';
+import type { Contact, DunningAttempt, MembershipStatus, MembershipStatusReason } from '@/types';
+
+type ServerClient = ReturnType<typeof createServerClient>;
+
+/**
+ * Statuses a failed renewal may move to grace. Cancelled, deceased and
+ * already-expired contacts are left alone.
+ */
+const DUNNING_ELIGIBLE_STATUSES: readonly MembershipStatus[] = ['new_member', 'current', 'expiring', 'grace'];
+
+// ─── Pure types ──────────────────────────────────────────────────────────────
+
+export type PaymentFailureOutcome =
+  | { recorded: true; attemptNumber: number; notice: DunningNotice; statusReason: MembershipStatusReason }
+  | { recorded: false; reason: 'not_subscription' | 'prepaid_term' | 'duplicate' };
+
+export interface PaymentFailureDetails {
+  code: string | null;
+  message: string | null;
+}
+
+// ─── Pure functions ──────────────────────────────────────────────────────────
+
+/**
+ * Which notice a failed attempt sends. The first failure gets the initial
+ * notice; once Stripe has no retry scheduled, the member gets the final one.
+ */
+export function getDunningNotice(attemptNumber: number, hasNextAttempt: boolean): DunningNotice {
+  if (!hasNextAttempt) return 'final_notice';
+  return attemptNumber <= 1 ? 'first_notice' : 'reminder';
+}
+
+/** True while a failed renewal is being retried and the member should update their card. */
+export function needsPaymentMethodUpdate(member: Pick<Contact, 'membership_status_reason'>): boolean {
+  return member.membership_status_reason === 'payment_failed';
+}
+
+/** Decline code and message from an invoice whose payment intent was expanded. */
+export function getPaymentFailureDetails(paymentIntent: Stripe.PaymentIntent | null): PaymentFailureDetails {
+  const error = paymentIntent?.last_payment_error;
+  if (!error) return { code: null, message: null };
+  return { code: error.decline_code || error.code || null, message: error.message || null };
+}
+
+// ─── Database functions ──────────────────────────────────────────────────────
+
+async function loadPaymentIntent(invoice: Stripe.Invoice): Promise<Stripe.PaymentIntent | null> {
+  if (!invoice.payment_intent) return null;
+  if (typeof invoice.payment_intent !== 'string') return invoice.payment_intent;
+
+  try {
+    return await getStripe().paymentIntents.retrieve(invoice.payment_intent);
+  } catch (err) {
+    logger.error(`Dunning: Failed to load payment intent for invoice ${invoice.id} (non-fatal):`, err);
+    return null;
+  }
+}
+
+/**
+ * Record a failed renewal charge (invoice.payment_failed) and advance the
+ * member's dunning sequence: log the attempt against their membership, move
+ * them to grace with a reason code, and send the matching notice.
+ *
+ * While Stripe is still retrying the reason is `payment_failed`, which the
+ * status cron leaves alone. Once Stripe gives up it becomes
+ * `payment_abandoned` and the normal grace → expired schedule applies.
+ */
+export async function recordPaymentFailure(
+  supabase: ServerClient,
+  params: { member: Contact; invoice: Stripe.Invoice; now?: Date }
+): Promise<PaymentFailureOutcome> {
+  const { member, invoice } = params;
+  const now = params.now ?? new Date();
+
+  const subscriptionId = (invoice.subscription as string | null) || null;
+  if (!subscriptionId) {
+    return { recorded: false, reason: 'not_subscription' };
+  }
+  // An old subscription failing after a prepaid term replaced it is not a lapse
+  if (member.membership_term !== 'annual') {
+    return { recorded: false, reason: 'prepaid_term' };
+  }
+
+  const attemptNumber = invoice.attempt_count || 1;
+  const nextRetryAt = invoice.next_payment_attempt ? new Date(invoice.next_payment_attempt * 1000) : null;
+  const notice = getDunningNotice(attemptNumber, !!nextRetryAt);
+  const statusReason: MembershipStatusReason = nextRetryAt ? 'payment_failed' : 'payment_abandoned';
+
+  const { data: membershipData } = await supabase
+    .from('rlc_memberships')
+    .select('id, dunning_started_at, dunning_resolved_at')
+    .eq('contact_id', member.id)
+    .eq('stripe_subscription_id', subscriptionId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  const membership = membershipData as {
+    id: string;
+    dunning_started_at: string | null;
+    dunning_resolved_at: string | null;
+  } | null;
+
+  const failure = getPaymentFailureDetails(await loadPaymentIntent(invoice));
+
+  const { data: attemptRow, error: attemptError } = await supabase
+    .from('rlc_dunning_attempts')
+    .insert({
+      membership_id: membership?.id ?? null,
+      contact_id: member.id,
+      stripe_invoice_id: invoice.id,
+      stripe_subscription_id: subscriptionId,
+      attempt_number: attemptNumber,
+      amount: (invoice.amount_due || 0) / 100,
+      failure_code: failure.code,
+      failure_message: failure.message,
+      next_retry_at: nextRetryAt ? nextRetryAt.toISOString() : null,
+    } as never)
+    .select('id')
+    .single();
+
+  if (attemptError) {
+    // Webhook replay of an attempt we already handled
+    if (attemptError.code === '23505') {
+      logger.info(`Dunning: attempt ${attemptNumber} of invoice ${invoice.id} already recorded, skipping`);
+      return { recorded: false, reason: 'duplicate' };
+    }
+    throw new Error(`Failed to record dunning attempt for invoice ${invoice.id}: ${attemptError.message}`);
+  }
+  const attemptId = (attemptRow as { id: string }).id;
+
+  if (membership) {
+    const reopened = !membership.dunning_started_at || !!membership.dunning_resolved_at;
+    const { error: membershipError } = await supabase
+      .from('rlc_memberships')
+      .update({
+        failed_payment_count: attemptNumber,
+        ...(reopened ? { dunning_started_at: now.toISOString(), dunning_resolved_at: null } : {}),
+      } as never)
+      .eq('id', membership.id);
+
+    if (membershipError) {
+      logger.error(`Dunning: Failed to update membership ${membership.id} (non-fatal):`, membershipError);
+    }
+  } else {
+    logger.warn(`Dunning: No membership row for subscription ${subscriptionId}, member ${member.id}`);
+  }
+
+  const { error: contactError } = await supabase
+    .from('rlc_contacts')
+    .update({ membership_status: 'grace', membership_status_reason: statusReason } as never)
+    .eq('id', member.id)
+    .in('membership_status', DUNNING_ELIGIBLE_STATUSES as MembershipStatus[]);
+
+  if (contactError) {
+    throw new Error(`Failed to move member ${member.id} to grace: ${contactError.message}`);
+  }
+
+  if (await triggerPaymentFailedNotice(member.email, notice)) {
+    const { error: notifyError } = await supabase
+      .from('rlc_dunning_attempts')
+      .update({ notification_tag: DUNNING_WORKFLOW_TAGS[notice], notified_at: now.toISOString() } as never)
+      .eq('id', attemptId);
+
+    if (notifyError) {
+      logger.error(`Dunning: Failed to stamp notice on attempt ${attemptId} (non-fatal):`, notifyError);
+    }
+  }
+
+  logger.info(
+    `Dunning: invoice ${invoice.id} attempt ${attemptNumber} failed for member ${member.id} ` +
+    `(${notice}, ${statusReason}${nextRetryAt ? `, retry ${nextRetryAt.toISOString()}` : ''})`
+  );
+
+  return { recorded: true, attemptNumber, notice, statusReason };
+}
+
+/**
+ * Close out dunning after a renewal for the subscription succeeds. Returns
+ * true when the member was in recovery (and was sent the recovery notice).
+ * The caller restores the contact's status; this only clears the dunning trail.
+ */
+export async function resolveDunning(
+  supabase: ServerClient,
+  params: { member: Contact; subscriptionId: string; now?: Date }
+): Promise<boolean> {
+  const now = params.now ?? new Date();
+
+  const { data, error } = await supabase
+    .from('rlc_memberships')
+    .update({ dunning_resolved_at: now.toISOString() } as never)
+    .eq('contact_id', params.member.id)
+    .eq('stripe_subscription_id', params.subscriptionId)
+    .not('dunning_started_at', 'is', null)
+    .is('dunning_resolved_at', null)
+    .select('id');
+
+  if (error) {
+    logger.error(`Dunning: Failed to resolve dunning for member ${params.member.id} (non-fatal):`, error);
+    return false;
+  }
+
+  const wasInDunning = (data || []).length > 0 || params.member.membership_status_reason === 'payment_failed';
+  if (wasInDunning) {
+    await triggerPaymentRecovered(params.member.email);
+    logger.info(`Dunning: member ${params.member.id} recovered on subscription ${params.subscriptionId}`);
+  }
+  return wasInDunning;
+}
+
+/** The most recent failed attempt, for the "fix your payment method" banner. */
+export async function getLatestDunningAttempt(contactId: string): Promise<DunningAttempt | null> {
+  const supabase = createServerClient();
+  const { data, error } = await supabase
+    .from('rlc_dunning_attempts')
+    .select('*')
+    .eq('contact_id', contactId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    logger.error(`Dunning: Failed to load latest attempt for member ${contactId}:`, error);
+    return null;
+  }
+  return data as DunningAttempt | null;
+}
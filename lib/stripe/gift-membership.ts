@@ -0,0 +1,553 @@
+import { randomBytes } from 'crypto';
+import type Stripe from 'stripe';
+import { createServerClient } from '@/lib/supabase/server';
+import {
+  getStripe,
+  getTermConfig,
+  getTermExpiryDate,
+  getTermPrice,
+  getTierConfig,
+  isTermAvailable,
+} from '@/lib/stripe/client';
+import { processDuesSplit, resolveCharterByState } from '@/lib/dues-sharing/split-engine';
+import { escapeHtml, sendEmail } from '@/lib/email/client';
+import { syncMemberToHighLevel } from '@/lib/highlevel/client';
+import { BASE_URL } from '@/lib/constants';
+import { logger } from '@/lib/logger';
+import type { Contact, GiftMembership, MembershipStatus, MembershipTerm, MembershipTier } from '@/types';
+
+// Amounts are integer cents throughout; the rlc_contributions and
+// rlc_memberships writes convert to dollars (see split-engine.ts).
+
+type ServerClient = ReturnType<typeof createServerClient>;
+
+/** Recipients in these statuses have time left, so a gift extends rather than restarts it. */
+const ACTIVE_STATUSES: readonly MembershipStatus[] = ['new_member', 'current', 'expiring'];
+
+// ─── Pure types ──────────────────────────────────────────────────────────────
+
+export interface GiftRecipientInput {
+  email: string;
+  firstName: string;
+  lastName: string;
+  state?: string | null;
+}
+
+export type GiftCheckoutOutcome =
+  | { success: true; giftId: string; clientSecret: string }
+  | { success: false; reason: 'not_eligible'; error: string };
+
+export type GiftClaimFailureReason = 'not_found' | 'not_paid' | 'wrong_recipient' | 'already_claimed';
+
+export type GiftClaimOutcome =
+  | { success: true; gift: GiftMembership }
+  | { success: false; reason: GiftClaimFailureReason; error: string };
+
+/** What the public claim page may show about a gift. */
+export interface GiftClaimSummary {
+  status: GiftMembership['status'];
+  tier: MembershipTier;
+  term: MembershipTerm;
+  recipientFirstName: string;
+  recipientEmailHint: string;
+  purchaserName: string | null;
+  giftMessage: string | null;
+  recipientContactId: string | null;
+}
+
+// ─── Pure functions ──────────────────────────────────────────────────────────
+
+/** Unguessable token for the recipient's claim link. */
+export function generateClaimToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+export function getGiftClaimUrl(token: string): string {
+  return `${BASE_URL}/join/gift/${token}`;
+}
+
+/** Mask an email for display to someone holding only the claim link: "ja***@example.com". */
+export function maskEmail(email: string): string {
+  const [local, domain] = email.split('@');
+  if (!domain) return '***';
+  return `${local.slice(0, 2)}***@${domain}`;
+}
+
+/**
+ * Start and expiry of a gifted term. A recipient with time left keeps it:
+ * the term runs from their current expiry. Lifetime gifts never expire.
+ */
+export function getGiftMembershipDates(params: {
+  term: MembershipTerm;
+  recipientStatus: MembershipStatus | null;
+  recipientExpiry: string | null;
+  now: Date;
+}): { start: Date; expiry: Date | null; extendsExisting: boolean } {
+  const { term, recipientStatus, recipientExpiry, now } = params;
+  const existingExpiry = recipientExpiry ? new Date(recipientExpiry) : null;
+  const extendsExisting =
+    !!existingExpiry && existingExpiry > now && !!recipientStatus && ACTIVE_STATUSES.includes(recipientStatus);
+  const start = extendsExisting ? existingExpiry : now;
+  return { start, expiry: getTermExpiryDate(term, start), extendsExisting };
+}
+
+// ─── Database functions ──────────────────────────────────────────────────────
+
+/**
+ * Record a pending gift and open an embedded Checkout session for it.
+ * Gifts are always one-time payments; they never auto-renew for the recipient.
+ */
+export async function createGiftCheckout(params: {
+  tier: MembershipTier;
+  term: MembershipTerm;
+  purchaserEmail: string;
+  purchaserName?: string | null;
+  purchaserContactId?: string | null;
+  recipient: GiftRecipientInput;
+  message?: string | null;
+  returnUrl: string;
+}): Promise<GiftCheckoutOutcome> {
+  const tierConfig = getTierConfig(params.tier);
+  const termConfig = getTermConfig(params.term);
+  if (!tierConfig || !termConfig || !isTermAvailable(params.tier, params.term)) {
+    return { success: false, reason: 'not_eligible', error: 'This membership is not available as a gift' };
+  }
+  if (params.recipient.email.trim().toLowerCase() === params.purchaserEmail.trim().toLowerCase()) {
+    return { success: false, reason: 'not_eligible', error: 'Use the regular join flow to buy your own membership' };
+  }
+
+  const supabase = createServerClient();
+
+  // A lifetime member has nothing to gain from a gift; refuse before taking payment
+  const { data: existingRecipient } = await supabase
+    .from('rlc_contacts')
+    .select('membership_term')
+    .eq('email', params.recipient.email.trim())
+    .maybeSingle();
+  if ((existingRecipient as { membership_term: MembershipTerm } | null)?.membership_term === 'lifetime') {
+    return { success: false, reason: 'not_eligible', error: 'This person cannot receive a gift membership' };
+  }
+
+  const { data: giftRow, error: insertError } = await supabase
+    .from('rlc_gift_memberships')
+    .insert({
+      purchaser_contact_id: params.purchaserContactId ?? null,
+      purchaser_email: params.purchaserEmail,
+      purchaser_name: params.purchaserName ?? null,
+      recipient_email: params.recipient.email.trim(),
+      recipient_first_name: params.recipient.firstName,
+      recipient_last_name: params.recipient.lastName,
+      recipient_state: params.recipient.state ?? null,
+      membership_tier: params.tier,
+      membership_term: params.term,
+      gift_message: params.message ?? null,
+      claim_token: generateClaimToken(),
+    } as never)
+    .select('id')
+    .single();
+
+  if (insertError || !giftRow) {
+    throw new Error(`Failed to record gift membership: ${insertError?.message ?? 'no row returned'}`);
+  }
+  const giftId = (giftRow as { id: string }).id;
+
+  const stripe = getStripe();
+  const session = await stripe.checkout.sessions.create({
+    ui_mode: 'embedded',
+    mode: 'payment',
+    customer_email: params.purchaserEmail,
+    line_items: [
+      {
+        price_data: {
+          currency: 'usd',
+          product_data: {
+            name: `Gift: RLC ${tierConfig.name} Membership (${termConfig.name})`,
+            description: `For ${params.recipient.firstName} ${params.recipient.lastName}`,
+            metadata: { tier: params.tier, term: params.term },
+          },
+          unit_amount: getTermPrice(tierConfig, params.term),
+        },
+        quantity: 1,
+      },
+    ],
+    metadata: {
+      type: 'gift_membership',
+      gift_id: giftId,
+      tier: params.tier,
+      term: params.term,
+      source: 'rlc-website',
+      member_id: params.purchaserContactId || '',
+    },
+    return_url: params.returnUrl,
+  });
+
+  const { error: updateError } = await supabase
+    .from('rlc_gift_memberships')
+    .update({ stripe_checkout_session_id: session.id } as never)
+    .eq('id', giftId);
+
+  if (updateError) {
+    // The webhook finds the gift by metadata.gift_id, so this is only bookkeeping
+    logger.error(`createGiftCheckout: Failed to store session ${session.id} on gift ${giftId} (non-fatal):`, updateError);
+  }
+
+  if (!session.client_secret) {
+    throw new Error(`Checkout session ${session.id} has no client_secret`);
+  }
+
+  return { success: true, giftId, clientSecret: session.client_secret };
+}
+
+async function findContactByEmail(supabase: ServerClient, email: string): Promise<Contact | null> {
+  const { data, error } = await supabase
+    .from('rlc_contacts')
+    .select('*')
+    .eq('email', email)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Database error looking up contact email="${email}": ${error.message}`);
+  }
+  return data as Contact | null;
+}
+
+async function findOrCreateContact(
+  supabase: ServerClient,
+  params: { id?: string | null; email: string; firstName: string; lastName: string; state?: string | null }
+): Promise<Contact> {
+  if (params.id) {
+    const { data } = await supabase.from('rlc_contacts').select('*').eq('id', params.id).maybeSingle();
+    if (data) return data as Contact;
+  }
+
+  const existing = await findContactByEmail(supabase, params.email);
+  if (existing) return existing;
+
+  const { data: created, error } = await supabase
+    .from('rlc_contacts')
+    .insert({
+      email: params.email,
+      first_name: params.firstName || params.email.split('@')[0],
+      last_name: params.lastName,
+      ...(params.state ? { state: params.state } : {}),
+    } as never)
+    .select('*')
+    .single();
+
+  if (error) {
+    // A concurrent webhook or Clerk sign-up created the contact first
+    if (error.code === '23505') {
+      const raced = await findContactByEmail(supabase, params.email);
+      if (raced) return raced;
+    }
+    throw new Error(`Failed to create contact for ${params.email}: ${error.message}`);
+  }
+  return created as Contact;
+}
+
+/**
+ * Fulfil a paid gift checkout (checkout.session.completed with
+ * metadata.type = 'gift_membership').
+ *
+ * The contribution belongs to the purchaser, but it is attributed to the
+ * recipient's charter so dues sharing follows the recipient. The recipient's
+ * contact and membership are created (or extended) immediately; the claim
+ * link only lets them accept it under their own sign-in. Safe to replay:
+ * a gift that is no longer pending is skipped.
+ */
+export async function fulfillGiftMembership(supabase: ServerClient, session: Stripe.Checkout.Session): Promise<void> {
+  const giftId = session.metadata?.gift_id;
+  if (!giftId) {
+    throw new Error(`Gift checkout ${session.id} has no gift_id metadata`);
+  }
+
+  const { data: giftData, error: giftError } = await supabase
+    .from('rlc_gift_memberships')
+    .select('*')
+    .eq('id', giftId)
+    .maybeSingle();
+
+  if (giftError) {
+    throw new Error(`Database error loading gift ${giftId}: ${giftError.message}`);
+  }
+  const gift = giftData as GiftMembership | null;
+  if (!gift) {
+    throw new Error(`Gift ${giftId} for checkout ${session.id} not found`);
+  }
+  if (gift.status !== 'pending') {
+    logger.info(`fulfillGiftMembership: Gift ${gift.id} already ${gift.status}, skipping`);
+    return;
+  }
+
+  const tierConfig = getTierConfig(gift.membership_tier);
+  if (!tierConfig) {
+    throw new Error(`Gift ${gift.id} has invalid tier "${gift.membership_tier}"`);
+  }
+
+  const purchaserEmail = session.customer_details?.email || session.customer_email || gift.purchaser_email;
+  const [purchaserFirst, ...purchaserLast] = (session.customer_details?.name || gift.purchaser_name || '').split(' ');
+  const purchaser = await findOrCreateContact(supabase, {
+    id: gift.purchaser_contact_id,
+    email: purchaserEmail,
+    firstName: purchaserFirst || '',
+    lastName: purchaserLast.join(' '),
+  });
+
+  const recipient = await findOrCreateContact(supabase, {
+    id: gift.recipient_contact_id,
+    email: gift.recipient_email,
+    firstName: gift.recipient_first_name,
+    lastName: gift.recipient_last_name,
+    state: gift.recipient_state,
+  });
+
+  // Dues sharing follows the recipient's charter, not the purchaser's
+  let charterId = recipient.primary_charter_id;
+  const recipientState = recipient.state || gift.recipient_state;
+  if (!charterId && recipientState) {
+    try {
+      charterId = await resolveCharterByState(recipientState);
+    } catch (charterError) {
+      logger.error(`fulfillGiftMembership: Failed to resolve charter for state="${recipientState}" (non-fatal):`, charterError);
+    }
+  }
+
+  const now = new Date();
+  const { start, expiry, extendsExisting } = getGiftMembershipDates({
+    term: gift.membership_term,
+    recipientStatus: recipient.membership_status,
+    recipientExpiry: recipient.membership_expiry_date,
+    now,
+  });
+  const status: MembershipStatus = extendsExisting ? recipient.membership_status : 'new_member';
+  const joinDate = recipient.membership_join_date || now.toISOString();
+
+  const { error: recipientError } = await supabase
+    .from('rlc_contacts')
+    .update({
+      membership_tier: gift.membership_tier,
+      membership_status: status,
+      membership_status_reason: null,
+      membership_start_date: start.toISOString(),
+      membership_expiry_date: expiry ? expiry.toISOString() : null,
+      membership_join_date: joinDate,
+      membership_term: gift.membership_term,
+      ...(charterId && !recipient.primary_charter_id ? { primary_charter_id: charterId } : {}),
+      ...(recipientState && !recipient.state ? { state: recipientState } : {}),
+    } as never)
+    .eq('id', recipient.id);
+
+  if (recipientError) {
+    throw new Error(`Failed to activate gift membership for contact ${recipient.id}: ${recipientError.message}`);
+  }
+
+  const amountCents = session.amount_total || 0;
+  const { data: contributionRow, error: contributionError } = await supabase
+    .from('rlc_contributions')
+    .insert({
+      contact_id: purchaser.id,
+      contribution_type: 'membership',
+      amount: amountCents / 100,
+      currency: session.currency?.toUpperCase() || 'USD',
+      stripe_payment_intent_id: (session.payment_intent as string | null) || null,
+      payment_status: 'completed',
+      is_recurring: false,
+      charter_id: charterId || null,
+      source: 'website',
+      metadata: {
+        gift_membership_id: gift.id,
+        recipient_contact_id: recipient.id,
+        membership_tier: gift.membership_tier,
+        membership_term: gift.membership_term,
+      },
+    } as never)
+    .select('id')
+    .single();
+
+  if (contributionError || !contributionRow) {
+    throw new Error(`Failed to record gift contribution for gift ${gift.id}: ${contributionError?.message}`);
+  }
+  const contributionId = (contributionRow as { id: string }).id;
+
+  try {
+    await processDuesSplit(contributionId);
+  } catch (splitError) {
+    logger.error(`Dues split failed for gift contribution ${contributionId} (non-fatal):`, splitError);
+  }
+
+  const { error: membershipError } = await supabase
+    .from('rlc_memberships')
+    .insert({
+      contact_id: recipient.id,
+      membership_tier: gift.membership_tier,
+      membership_status: status,
+      start_date: start.toISOString(),
+      expiry_date: expiry ? expiry.toISOString() : null,
+      join_date: joinDate,
+      membership_term: gift.membership_term,
+      amount: amountCents / 100,
+      currency: session.currency?.toUpperCase() || 'USD',
+      is_auto_renew: false,
+      stripe_subscription_id: null,
+      metadata: { gift_membership_id: gift.id, purchaser_contact_id: purchaser.id },
+    } as never);
+
+  if (membershipError) {
+    logger.error(`fulfillGiftMembership: Failed to record membership history for ${recipient.id} (non-fatal):`, membershipError);
+  }
+
+  const { error: giftUpdateError } = await supabase
+    .from('rlc_gift_memberships')
+    .update({
+      status: 'paid',
+      purchaser_contact_id: purchaser.id,
+      recipient_contact_id: recipient.id,
+      contribution_id: contributionId,
+      stripe_checkout_session_id: session.id,
+      paid_at: now.toISOString(),
+    } as never)
+    .eq('id', gift.id)
+    .eq('status', 'pending');
+
+  if (giftUpdateError) {
+    throw new Error(`Failed to mark gift ${gift.id} paid: ${giftUpdateError.message}`);
+  }
+
+  try {
+    await sendGiftClaimEmail(supabase, { ...gift, purchaser_name: gift.purchaser_name || purchaser.first_name });
+  } catch (emailError) {
+    logger.error(`fulfillGiftMembership: Failed to email claim link for gift ${gift.id} (non-fatal):`, emailError);
+  }
+
+  try {
+    await syncMemberToHighLevel({
+      id: recipient.id,
+      email: recipient.email,
+      firstName: recipient.first_name,
+      lastName: recipient.last_name,
+      phone: recipient.phone,
+      addressLine1: recipient.address_line1,
+      city: recipient.city,
+      state: recipientState,
+      postalCode: recipient.postal_code,
+      membershipTier: gift.membership_tier,
+      membershipStatus: status,
+      membershipStartDate: start.toISOString(),
+      membershipExpiryDate: expiry ? expiry.toISOString() : null,
+      membershipJoinDate: joinDate,
+    });
+  } catch (hlError) {
+    logger.error('HighLevel sync failed for gift recipient (non-fatal):', hlError);
+  }
+
+  logger.info(
+    `Gift membership ${gift.id} fulfilled: purchaser=${purchaser.id}, recipient=${recipient.id}, ` +
+    `tier=${gift.membership_tier}, term=${gift.membership_term}`
+  );
+}
+
+/** Email the recipient their claim link and stamp claim_email_sent_at. */
+export async function sendGiftClaimEmail(supabase: ServerClient, gift: GiftMembership): Promise<void> {
+  const tierName = getTierConfig(gift.membership_tier)?.name ?? gift.membership_tier;
+  const termName = getTermConfig(gift.membership_term)?.name ?? gift.membership_term;
+  const from = gift.purchaser_name ? escapeHtml(gift.purchaser_name) : 'Someone';
+  const claimUrl = getGiftClaimUrl(gift.claim_token);
+
+  await sendEmail({
+    to: gift.recipient_email,
+    subject: `${gift.purchaser_name || 'Someone'} gave you a Republican Liberty Caucus membership`,
+    html: `
+      <p>Hi ${escapeHtml(gift.recipient_first_name)},</p>
+      <p>${from} has given you a <strong>${escapeHtml(tierName)}</strong> membership
+      (${escapeHtml(termName)}) in the Republican Liberty Caucus. Your membership is already active.</p>
+      ${gift.gift_message ? `<blockquote style="border-left: 3px solid #ccc; padding-left: 12px; color: #444;">${escapeHtml(gift.gift_message)}</blockquote>` : ''}
+      <p><a href="${claimUrl}">Claim your membership</a> to sign in and access your member dashboard.
+      Use this email address (${escapeHtml(gift.recipient_email)}) when you sign in.</p>
+    `,
+  });
+
+  const { error } = await supabase
+    .from('rlc_gift_memberships')
+    .update({ claim_email_sent_at: new Date().toISOString() } as never)
+    .eq('id', gift.id);
+
+  if (error) {
+    logger.error(`sendGiftClaimEmail: Failed to stamp claim_email_sent_at on gift ${gift.id}:`, error);
+  }
+}
+
+async function fetchGiftByToken(supabase: ServerClient, token: string): Promise<GiftMembership | null> {
+  const { data, error } = await supabase
+    .from('rlc_gift_memberships')
+    .select('*')
+    .eq('claim_token', token)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Database error loading gift by token: ${error.message}`);
+  }
+  return data as GiftMembership | null;
+}
+
+/** Public view of a gift for the claim page. Null when the token is unknown. */
+export async function getGiftClaimSummary(token: string): Promise<GiftClaimSummary | null> {
+  const gift = await fetchGiftByToken(createServerClient(), token);
+  if (!gift) return null;
+
+  return {
+    status: gift.status,
+    tier: gift.membership_tier,
+    term: gift.membership_term,
+    recipientFirstName: gift.recipient_first_name,
+    recipientEmailHint: maskEmail(gift.recipient_email),
+    purchaserName: gift.purchaser_name,
+    giftMessage: gift.gift_message,
+    recipientContactId: gift.recipient_contact_id,
+  };
+}
+
+/**
+ * Accept a paid gift as the signed-in member. Only the recipient's own
+ * contact can claim it; signing up with the gifted email links Clerk to that
+ * contact, so this is an identity check rather than a transfer.
+ */
+export async function claimGiftMembership(params: { token: string; member: Contact }): Promise<GiftClaimOutcome> {
+  const supabase = createServerClient();
+  const gift = await fetchGiftByToken(supabase, params.token);
+
+  if (!gift) {
+    return { success: false, reason: 'not_found', error: 'Gift not found' };
+  }
+  if (gift.status === 'pending') {
+    return { success: false, reason: 'not_paid', error: 'This gift has not been paid for yet' };
+  }
+  if (gift.recipient_contact_id !== params.member.id) {
+    return {
+      success: false,
+      reason: 'wrong_recipient',
+      error: `This gift was sent to ${maskEmail(gift.recipient_email)}. Sign in with that email address to claim it.`,
+    };
+  }
+  if (gift.status === 'claimed') {
+    return { success: true, gift };
+  }
+
+  const claimedAt = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('rlc_gift_memberships')
+    .update({ status: 'claimed', claimed_at: claimedAt } as never)
+    .eq('id', gift.id)
+    .eq('status', 'paid')
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to claim gift ${gift.id}: ${error.message}`);
+  }
+  if (!data) {
+    return { success: false, reason: 'already_claimed', error: 'This gift has already been claimed' };
+  }
+
+  logger.info(`Gift membership ${gift.id} claimed by contact ${params.member.id}`);
+  return { success: true, gift: data as GiftMembership };
+}
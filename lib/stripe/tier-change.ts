@@ -0,0 +1,390 @@
+import type Stripe from 'stripe';
+import { createServerClient } from '@/lib/supabase/server';
+import { getStripe, getTierConfig, type TierConfig } from '@/lib/stripe/client';
+import { syncMemberToHighLevel } from '@/lib/highlevel/client';
+import { logger } from '@/lib/logger';
+import type { Contact, HouseholdRole, MembershipStatus, MembershipTier } from '@/types';
+
+// Amounts are integer cents throughout; only the rlc_memberships.amount write
+// converts to dollars (see split-engine.ts).
+
+type ServerClient = ReturnType<typeof createServerClient>;
+
+/** Members in these statuses should renew through /join rather than change tier. */
+const CHANGEABLE_STATUSES: readonly MembershipStatus[] = ['new_member', 'current', 'expiring'];
+
+/**
+ * A preview's proration date is passed back when confirming so the member is
+ * charged exactly what they were shown. Quotes older than this are refused.
+ */
+export const PRORATION_QUOTE_TTL_SECONDS = 30 * 60;
+
+// ─── Pure types ──────────────────────────────────────────────────────────────
+
+export type TierChangeDirection = 'upgrade' | 'downgrade';
+
+export type TierChangeFailureReason = 'not_eligible' | 'no_subscription' | 'stale_quote';
+
+export interface TierChangePreview {
+  fromTier: MembershipTier;
+  toTier: MembershipTier;
+  direction: TierChangeDirection;
+  /** Unix seconds; pass back to changeMembershipTier to lock in this quote. */
+  prorationDate: number;
+  /** Charged immediately (upgrades only). */
+  amountDueNowCents: number;
+  /** Credited against the next renewal (downgrades only). */
+  creditCents: number;
+  /** Full price of the new tier at the next renewal. */
+  renewalPriceCents: number;
+  renewsAt: string;
+  /** Household roles that lose coverage and will be removed. */
+  householdRolesRemoved: HouseholdRole[];
+}
+
+export type TierChangeOutcome =
+  | {
+      success: true;
+      direction: TierChangeDirection;
+      amountChargedCents: number;
+      creditCents: number;
+      removedHouseholdMemberIds: string[];
+    }
+  | { success: false; reason: TierChangeFailureReason; error: string };
+
+// ─── Pure functions ──────────────────────────────────────────────────────────
+
+export function getTierChangeDirection(from: TierConfig, to: TierConfig): TierChangeDirection {
+  return to.price > from.price ? 'upgrade' : 'downgrade';
+}
+
+/** Household roles covered by `from` but not by `to`. */
+export function getUncoveredHouseholdRoles(from: TierConfig, to: TierConfig): HouseholdRole[] {
+  const roles: HouseholdRole[] = [];
+  if (from.includesSpouse && !to.includesSpouse) roles.push('spouse');
+  if (from.includesFamily && !to.includesFamily) roles.push('child');
+  return roles;
+}
+
+/**
+ * Net proration for a tier change from Stripe invoice lines: the new tier's
+ * remaining time less the unused time on the old tier. Positive = owed.
+ */
+export function sumProrationCents(lines: Pick<Stripe.InvoiceLineItem, 'amount' | 'proration'>[]): number {
+  return lines.filter((l) => l.proration).reduce((sum, l) => sum + l.amount, 0);
+}
+
+/**
+ * Full price of the tier being replaced, read from the "unused time" credit
+ * line of a proration invoice. Null when the invoice has no such line.
+ */
+export function getReplacedPriceCents(
+  lines: Pick<Stripe.InvoiceLineItem, 'amount' | 'proration' | 'price'>[]
+): number | null {
+  const credit = lines.find((l) => l.proration && l.amount < 0);
+  return credit?.price?.unit_amount ?? null;
+}
+
+// ─── Database functions ──────────────────────────────────────────────────────
+
+interface TierChangeContext {
+  from: TierConfig;
+  to: TierConfig & { stripePriceId: string };
+  direction: TierChangeDirection;
+  subscription: Stripe.Subscription;
+  item: Stripe.SubscriptionItem;
+}
+
+async function resolveTierChange(
+  supabase: ServerClient,
+  member: Contact,
+  toTier: MembershipTier
+): Promise<{ success: true; ctx: TierChangeContext } | { success: false; reason: TierChangeFailureReason; error: string }> {
+  const from = getTierConfig(member.membership_tier);
+  const to = getTierConfig(toTier);
+
+  if (!from || !to || from.tier === to.tier) {
+    return { success: false, reason: 'not_eligible', error: 'Choose a different membership tier' };
+  }
+  if (member.household_role && member.household_role !== 'primary') {
+    return {
+      success: false,
+      reason: 'not_eligible',
+      error: 'Only the primary household member can change the membership tier',
+    };
+  }
+  if (member.membership_term !== 'annual') {
+    return { success: false, reason: 'not_eligible', error: 'Prepaid memberships cannot change tiers mid-term' };
+  }
+  if (!CHANGEABLE_STATUSES.includes(member.membership_status)) {
+    return { success: false, reason: 'not_eligible', error: 'Renew your membership before changing tiers' };
+  }
+  if (!to.stripePriceId) {
+    return { success: false, reason: 'not_eligible', error: `${to.name} is not available as an auto-renewing membership` };
+  }
+
+  // The latest history row that came from a website subscription
+  const { data: membershipRow, error } = await supabase
+    .from('rlc_memberships')
+    .select('stripe_subscription_id')
+    .eq('contact_id', member.id)
+    .not('stripe_subscription_id', 'is', null)
+    .order('start_date', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Database error looking up subscription: ${error.message}`);
+  }
+
+  const subscriptionId = (membershipRow as { stripe_subscription_id: string | null } | null)?.stripe_subscription_id;
+  if (!subscriptionId) {
+    return {
+      success: false,
+      reason: 'no_subscription',
+      error: 'Tier changes require an auto-renewing membership. Renew at the new tier instead.',
+    };
+  }
+
+  const subscription = await getStripe().subscriptions.retrieve(subscriptionId);
+  const item = subscription.items.data[0];
+  if (!['active', 'trialing'].includes(subscription.status) || subscription.items.data.length !== 1) {
+    return {
+      success: false,
+      reason: 'no_subscription',
+      error: 'Your membership subscription is not active. Renew at the new tier instead.',
+    };
+  }
+
+  return {
+    success: true,
+    ctx: {
+      from,
+      to: to as TierConfig & { stripePriceId: string },
+      direction: getTierChangeDirection(from, to),
+      subscription,
+      item,
+    },
+  };
+}
+
+/** Quote a tier change using Stripe's upcoming-invoice proration. */
+export async function previewTierChange(params: {
+  member: Contact;
+  toTier: MembershipTier;
+  now?: Date;
+}): Promise<{ success: true; preview: TierChangePreview } | { success: false; reason: TierChangeFailureReason; error: string }> {
+  const supabase = createServerClient();
+  const resolved = await resolveTierChange(supabase, params.member, params.toTier);
+  if (!resolved.success) return resolved;
+  const { from, to, direction, subscription, item } = resolved.ctx;
+
+  const prorationDate = Math.floor((params.now ?? new Date()).getTime() / 1000);
+  const upcoming = await getStripe().invoices.retrieveUpcoming({
+    customer: subscription.customer as string,
+    subscription: subscription.id,
+    subscription_items: [{ id: item.id, price: to.stripePriceId }],
+    subscription_proration_behavior: direction === 'upgrade' ? 'always_invoice' : 'create_prorations',
+    subscription_proration_date: prorationDate,
+  });
+
+  const prorationCents = sumProrationCents(upcoming.lines.data);
+
+  return {
+    success: true,
+    preview: {
+      fromTier: from.tier,
+      toTier: to.tier,
+      direction,
+      prorationDate,
+      amountDueNowCents: direction === 'upgrade' ? Math.max(prorationCents, 0) : 0,
+      creditCents: direction === 'downgrade' ? Math.max(-prorationCents, 0) : 0,
+      renewalPriceCents: to.price,
+      renewsAt: new Date(subscription.current_period_end * 1000).toISOString(),
+      householdRolesRemoved: getUncoveredHouseholdRoles(from, to),
+    },
+  };
+}
+
+/**
+ * Move a member's subscription to another tier.
+ *
+ * Upgrades invoice the prorated difference immediately and fail if the card
+ * is declined; the invoice.payment_succeeded webhook records that payment and
+ * splits it. Downgrades leave a proration credit on the next renewal invoice.
+ * Household members the new tier no longer covers are removed.
+ */
+export async function changeMembershipTier(params: {
+  member: Contact;
+  toTier: MembershipTier;
+  prorationDate: number;
+  now?: Date;
+}): Promise<TierChangeOutcome> {
+  const { member, toTier, prorationDate } = params;
+  const now = params.now ?? new Date();
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+
+  if (prorationDate > nowSeconds + 60 || nowSeconds - prorationDate > PRORATION_QUOTE_TTL_SECONDS) {
+    return { success: false, reason: 'stale_quote', error: 'This quote has expired. Review the new price and try again.' };
+  }
+
+  const supabase = createServerClient();
+  const resolved = await resolveTierChange(supabase, member, toTier);
+  if (!resolved.success) return resolved;
+  const { from, to, direction, subscription, item } = resolved.ctx;
+
+  const updated = await getStripe().subscriptions.update(
+    subscription.id,
+    {
+      items: [{ id: item.id, price: to.stripePriceId }],
+      proration_behavior: direction === 'upgrade' ? 'always_invoice' : 'create_prorations',
+      proration_date: prorationDate,
+      // Never grant an upgrade the member hasn't paid for
+      payment_behavior: direction === 'upgrade' ? 'error_if_incomplete' : 'allow_incomplete',
+      metadata: { ...subscription.metadata, tier: to.tier },
+      expand: ['latest_invoice'],
+    },
+    { idempotencyKey: `tier-change-${subscription.id}-${to.tier}-${prorationDate}` }
+  );
+
+  const latestInvoice = updated.latest_invoice as Stripe.Invoice | null;
+  const amountChargedCents = direction === 'upgrade' && latestInvoice?.billing_reason === 'subscription_update'
+    ? latestInvoice.amount_paid
+    : 0;
+
+  // The subscription has changed; from here on local failures are logged, not
+  // surfaced. customer.subscription.updated also syncs the tier from metadata.
+  const { error: memberError } = await supabase
+    .from('rlc_contacts')
+    .update({ membership_tier: to.tier } as never)
+    .eq('id', member.id);
+
+  if (memberError) {
+    logger.error(`changeMembershipTier: Failed to update tier for member ${member.id} (non-fatal):`, memberError);
+  }
+
+  const { error: historyError } = await supabase
+    .from('rlc_memberships')
+    .insert({
+      contact_id: member.id,
+      membership_tier: to.tier,
+      membership_status: member.membership_status,
+      start_date: now.toISOString(),
+      expiry_date: new Date(updated.current_period_end * 1000).toISOString(),
+      join_date: member.membership_join_date || now.toISOString(),
+      amount: amountChargedCents / 100,
+      currency: 'USD',
+      is_auto_renew: true,
+      stripe_subscription_id: subscription.id,
+      metadata: { tier_change: { from: from.tier, to: to.tier, direction, proration_date: prorationDate } },
+    } as never);
+
+  if (historyError) {
+    logger.error(`changeMembershipTier: Failed to record membership history for ${member.id} (non-fatal):`, historyError);
+  }
+
+  const removedHouseholdMemberIds = member.household_id
+    ? await applyHouseholdCoverage(supabase, member, to, getUncoveredHouseholdRoles(from, to))
+    : [];
+
+  try {
+    await syncMemberToHighLevel({
+      id: member.id,
+      email: member.email,
+      firstName: member.first_name,
+      lastName: member.last_name,
+      phone: member.phone,
+      membershipTier: to.tier,
+      membershipStatus: member.membership_status,
+      membershipStartDate: member.membership_start_date || undefined,
+      membershipExpiryDate: member.membership_expiry_date || undefined,
+      membershipJoinDate: member.membership_join_date || undefined,
+    });
+  } catch (hlError) {
+    logger.error(`HighLevel sync failed after tier change for ${member.id} (non-fatal):`, hlError);
+  }
+
+  logger.info(
+    `changeMembershipTier: Member ${member.id} ${direction}d ${from.tier} → ${to.tier} ` +
+    `(charged ${amountChargedCents}c, removed ${removedHouseholdMemberIds.length} household members)`
+  );
+
+  const prorationCents = latestInvoice ? sumProrationCents(latestInvoice.lines?.data ?? []) : 0;
+  return {
+    success: true,
+    direction,
+    amountChargedCents,
+    creditCents: direction === 'downgrade' ? Math.max(-prorationCents, 0) : 0,
+    removedHouseholdMemberIds,
+  };
+}
+
+/**
+ * Carry the new tier to the rest of the household and remove members in
+ * roles the tier no longer covers (same effect as removing them by hand).
+ */
+async function applyHouseholdCoverage(
+  supabase: ServerClient,
+  primary: Contact,
+  to: TierConfig,
+  uncoveredRoles: HouseholdRole[]
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('rlc_contacts')
+    .select('id, email, first_name, last_name, household_role')
+    .eq('household_id', primary.household_id as string)
+    .neq('id', primary.id);
+
+  if (error) {
+    logger.error(`applyHouseholdCoverage: Failed to load household ${primary.household_id} (non-fatal):`, error);
+    return [];
+  }
+
+  const householdMembers = (data || []) as Pick<Contact, 'id' | 'email' | 'first_name' | 'last_name' | 'household_role'>[];
+  const removed = householdMembers.filter((m) => m.household_role && uncoveredRoles.includes(m.household_role));
+  const kept = householdMembers.filter((m) => !removed.includes(m));
+
+  if (kept.length > 0) {
+    const { error: keptError } = await supabase
+      .from('rlc_contacts')
+      .update({ membership_tier: to.tier } as never)
+      .in('id', kept.map((m) => m.id));
+    if (keptError) {
+      logger.error(`applyHouseholdCoverage: Failed to update household tier (non-fatal):`, keptError);
+    }
+  }
+
+  const removedIds: string[] = [];
+  for (const m of removed) {
+    const { error: removeError } = await supabase
+      .from('rlc_contacts')
+      .update({
+        household_id: null,
+        household_role: null,
+        primary_contact_id: null,
+        membership_status: 'cancelled',
+      } as never)
+      .eq('id', m.id);
+
+    if (removeError) {
+      logger.error(`applyHouseholdCoverage: Failed to remove household member ${m.id} (non-fatal):`, removeError);
+      continue;
+    }
+    removedIds.push(m.id);
+
+    try {
+      await syncMemberToHighLevel({
+        id: m.id,
+        email: m.email,
+        firstName: m.first_name,
+        lastName: m.last_name,
+        membershipTier: to.tier,
+        membershipStatus: 'cancelled',
+      });
+    } catch (hlError) {
+      logger.error(`HighLevel sync failed for removed household member ${m.id} (non-fatal):`, hlError);
+    }
+  }
+
+  return removedIds;
+}
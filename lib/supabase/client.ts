@@ -2,6 +2,8 @@ import { createClient } from '@supabase/supabase-js';
 import type {
   MembershipTier,
   MembershipStatus,
+  MembershipTerm,
+  MembershipStatusReason,
   ContributionType,
   PaymentStatus,
   CharterLevel,
@@ -10,11 +12,16 @@ import type {
   UserRole,
   Jurisdiction,
   ScorecardSessionStatus,
+  ScoringMethod,
   LibertyPosition,
   BillTrackingStatus,
   VoteChoice,
   LegislativeChamber,
+  CampaignActionType,
+  CampaignDeliveryStatus,
   CampaignStatus,
+  WhipStatus,
+  WhipStatusSource,
   VettingStage,
   VettingReportSectionType,
   AuditStatus,
@@ -22,6 +29,10 @@ import type {
   VettingSectionStatus,
   BoardVoteChoice,
   CommitteeRole,
+  OfficeLevel,
+  VoteQuorum,
+  VoteThreshold,
+  AppliedVoteRule,
 } from '@/types';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!.trim();
@@ -78,6 +89,8 @@ export type Database = {
           membership_start_date: string | null;
           membership_expiry_date: string | null;
           membership_join_date: string | null;
+          membership_term: MembershipTerm;
+          membership_status_reason: MembershipStatusReason | null;
           primary_charter_id: string | null;
           highlevel_contact_id: string | null;
           civicrm_contact_id: number | null;
@@ -247,6 +260,8 @@ export type Database = {
           charter_id: string | null;
           session_year: number;
           status: ScorecardSessionStatus;
+          scoring_method: ScoringMethod;
+          legiscan_session_id: number | null;
           created_by: string | null;
           created_at: string;
           updated_at: string;
@@ -299,6 +314,10 @@ export type Database = {
           target_chamber: LegislativeChamber | null;
           target_state_code: string | null;
           message_template: string | null;
+          ai_variation: boolean;
+          talking_points: string[];
+          action_type: CampaignActionType;
+          call_script: string | null;
           status: CampaignStatus;
           created_by: string | null;
           starts_at: string | null;
@@ -317,11 +336,49 @@ export type Database = {
           action: string;
           legislator_id: string | null;
           metadata: Record<string, unknown>;
+          delivery_status: CampaignDeliveryStatus | null;
+          delivery_transport: string | null;
+          delivery_target: string | null;
+          delivery_reference: string | null;
+          delivery_error: string | null;
+          delivered_at: string | null;
           created_at: string;
         };
         Insert: Omit<Database['public']['Tables']['rlc_campaign_participations']['Row'], 'id' | 'created_at'>;
         Update: Partial<Database['public']['Tables']['rlc_campaign_participations']['Insert']>;
       };
+      rlc_campaign_message_previews: {
+        Row: {
+          id: string;
+          campaign_id: string;
+          contact_id: string;
+          official_name: string;
+          office: string;
+          body: string;
+          varied: boolean;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['rlc_campaign_message_previews']['Row'], 'id' | 'created_at'>;
+        Update: Partial<Database['public']['Tables']['rlc_campaign_message_previews']['Insert']>;
+      };
+      rlc_campaign_whip_entries: {
+        Row: {
+          id: string;
+          campaign_id: string;
+          legislator_id: string;
+          status: WhipStatus;
+          source: WhipStatusSource;
+          notes: string | null;
+          updated_by: string | null;
+          final_vote: VoteChoice | null;
+          predicted_status: WhipStatus | null;
+          reconciled_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['rlc_campaign_whip_entries']['Row'], 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Database['public']['Tables']['rlc_campaign_whip_entries']['Insert']>;
+      };
       rlc_candidate_vetting_committees: {
         Row: {
           id: string;
@@ -369,6 +426,10 @@ export type Database = {
           recommended_at: string | null;
           endorsement_result: VettingRecommendation | null;
           endorsed_at: string | null;
+          vote_rule_id: string | null;
+          vote_opens_at: string | null;
+          vote_closes_at: string | null;
+          vote_rule_applied: AppliedVoteRule | null;
           metadata: Record<string, unknown>;
           created_at: string;
           updated_at: string;
@@ -434,6 +495,21 @@ export type Database = {
         Insert: Omit<Database['public']['Tables']['rlc_candidate_vetting_board_votes']['Row'], 'id' | 'voted_at'>;
         Update: Partial<Database['public']['Tables']['rlc_candidate_vetting_board_votes']['Insert']>;
       };
+      rlc_candidate_vote_rules: {
+        Row: {
+          id: string;
+          name: string;
+          committee_id: string | null;
+          office_level: OfficeLevel | null;
+          quorum: VoteQuorum;
+          threshold: VoteThreshold;
+          voting_period_days: number | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['rlc_candidate_vote_rules']['Row'], 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Database['public']['Tables']['rlc_candidate_vote_rules']['Insert']>;
+      };
       rlc_candidate_election_deadlines: {
         Row: {
           id: string;
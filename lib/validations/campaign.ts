@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { CALL_OUTCOMES, LEGISLATOR_POSITIONS } from '@/lib/campaigns/call-survey';
+import { WHIP_STATUSES } from '@/lib/campaigns/whip';
 
 export const campaignCreateSchema = z.object({
   title: z.string().min(1).max(200),
@@ -9,6 +11,10 @@ export const campaignCreateSchema = z.object({
   targetChamber: z.enum(['us_house', 'us_senate', 'state_house', 'state_senate']).optional(),
   targetStateCode: z.string().max(2).optional(),
   messageTemplate: z.string().optional(),
+  aiVariation: z.boolean().optional(),
+  talkingPoints: z.array(z.string().trim().min(1).max(300)).max(10).optional(),
+  actionType: z.enum(['email', 'call']).optional(),
+  callScript: z.string().optional(),
   startsAt: z.string().optional(),
   endsAt: z.string().optional(),
 });
@@ -22,6 +28,10 @@ export const campaignUpdateSchema = z.object({
   targetChamber: z.enum(['us_house', 'us_senate', 'state_house', 'state_senate']).optional(),
   targetStateCode: z.string().max(2).optional(),
   messageTemplate: z.string().optional(),
+  aiVariation: z.boolean().optional(),
+  talkingPoints: z.array(z.string().trim().min(1).max(300)).max(10).optional(),
+  actionType: z.enum(['email', 'call']).optional(),
+  callScript: z.string().optional(),
   status: z.enum(['draft', 'active', 'completed', 'cancelled']).optional(),
   startsAt: z.string().optional(),
   endsAt: z.string().optional(),
@@ -32,3 +42,26 @@ export const participationCreateSchema = z.object({
   legislatorId: z.string().optional(),
   metadata: z.record(z.unknown()).optional(),
 });
+
+export const messagePreviewSchema = z.object({
+  officialName: z.string().min(1).max(200),
+  office: z.string().max(200).optional(),
+});
+
+export const deliveryCreateSchema = messagePreviewSchema.extend({
+  /** The stored preview the member approved */
+  previewId: z.string().uuid().optional(),
+});
+
+export const callLogCreateSchema = z.object({
+  officialName: z.string().min(1).max(200),
+  office: z.string().max(200).optional(),
+  outcome: z.enum(CALL_OUTCOMES),
+  position: z.enum(LEGISLATOR_POSITIONS),
+});
+
+export const whipEntryUpdateSchema = z.object({
+  legislatorId: z.string().min(1),
+  status: z.enum(WHIP_STATUSES),
+  notes: z.string().max(2000).nullable().optional(),
+});
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { VALID_MEMBERSHIP_TIERS } from '@/lib/validations/admin';
+
+export const nationalFeeScheduleCreateSchema = z
+  .object({
+    sourceType: z.enum(['membership', 'donation', 'event_registration']),
+    membershipTier: z.enum(VALID_MEMBERSHIP_TIERS).nullable().default(null),
+    feeType: z.enum(['flat', 'percentage']),
+    flatAmount: z.number().min(0, 'Flat amount cannot be negative').max(100000).nullable().optional(),
+    percentage: z.number().min(0, 'Percentage must be >= 0').max(100, 'Percentage must be <= 100').nullable().optional(),
+    effectiveFrom: z.string().datetime({ offset: true, message: 'Must be an ISO 8601 date-time' }),
+    notes: z.string().max(500).nullable().optional(),
+  })
+  .refine((data) => (data.feeType === 'flat' ? data.flatAmount != null : data.percentage != null), {
+    message: 'Flat fees need flatAmount; percentage fees need percentage',
+  })
+  .refine((data) => data.sourceType === 'membership' || data.membershipTier === null, {
+    message: 'Membership tier only applies to membership fees',
+    path: ['membershipTier'],
+  });
+
+export type NationalFeeScheduleCreateInput = z.infer<typeof nationalFeeScheduleCreateSchema>;
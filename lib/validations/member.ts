@@ -23,5 +23,33 @@ export const memberSearchSchema = z.object({
   limit: z.coerce.number().int().positive().max(100).default(20),
 });
 
+export const tierChangePreviewSchema = z.object({
+  tier: z.enum(['student_military', 'individual', 'premium', 'sustaining', 'patron', 'benefactor', 'roundtable']),
+});
+
+export const tierChangeSchema = tierChangePreviewSchema.extend({
+  prorationDate: z.number().int().positive(),
+});
+
+export const giftCheckoutSchema = z.object({
+  tier: z.enum(['student_military', 'individual', 'premium', 'sustaining', 'patron', 'benefactor', 'roundtable']),
+  term: z.enum(['annual', 'two_year', 'three_year', 'lifetime']).default('annual'),
+  purchaserEmail: z.string().email().optional(),
+  purchaserName: z.string().max(200).optional().nullable(),
+  recipient: z.object({
+    email: z.string().email('Recipient email is invalid'),
+    firstName: z.string().min(1, 'Recipient first name is required').max(100),
+    lastName: z.string().min(1, 'Recipient last name is required').max(100),
+    state: z.string().length(2).optional().nullable(),
+  }),
+  message: z.string().max(1000).optional().nullable(),
+});
+
+export const giftClaimSchema = z.object({
+  token: z.string().min(1).max(100),
+});
+
 export type ProfileUpdateInput = z.infer<typeof profileUpdateSchema>;
 export type MemberSearchInput = z.infer<typeof memberSearchSchema>;
+export type TierChangeInput = z.infer<typeof tierChangeSchema>;
+export type GiftCheckoutInput = z.infer<typeof giftCheckoutSchema>;
@@ -10,6 +10,7 @@ export const sessionCreateSchema = z.object({
   chamber: z.enum(['us_house', 'us_senate', 'state_house', 'state_senate']).optional(),
   partyFilter: z.string().max(50).optional(),
   absencePenaltyThreshold: z.number().int().min(0).max(50).default(3),
+  scoringMethod: z.enum(['legacy', 'weighted']).default('legacy'),
 });
 
 export const sessionUpdateSchema = z.object({
@@ -24,6 +25,7 @@ export const sessionUpdateSchema = z.object({
   chamber: z.enum(['us_house', 'us_senate', 'state_house', 'state_senate']).nullable().optional(),
   partyFilter: z.string().max(50).nullable().optional(),
   absencePenaltyThreshold: z.number().int().min(0).max(50).optional(),
+  scoringMethod: z.enum(['legacy', 'weighted']).optional(),
 });
 
 export const billCreateSchema = z.object({
@@ -10,6 +10,10 @@ export const splitRuleSchema = z.object({
 export const splitConfigUpdateSchema = z.object({
   disbursementModel: z.enum(['national_managed', 'state_managed']),
   isActive: z.boolean().default(true),
+  // Omitted payout and term settings keep the charter's saved values (new configs get the column defaults)
+  payoutCadence: z.enum(['per_payment', 'daily', 'weekly', 'monthly']).optional(),
+  minimumPayout: z.number().min(0, 'Minimum payout cannot be negative').max(100000).optional(),
+  termAllocation: z.enum(['amortize', 'front_load']).optional(),
   rules: z.array(splitRuleSchema).optional(),
 });
 
@@ -31,6 +31,16 @@ export const BOARD_VOTE_CHOICES = [
 
 export const COMMITTEE_ROLES = ['chair', 'committee_member'] as const;
 
+export const OFFICE_LEVELS = [
+  'federal', 'state', 'county', 'municipal', 'judicial', 'special_district',
+] as const;
+
+export const VOTE_QUORUMS = ['no_quorum', 'quorum_majority', 'quorum_two_thirds'] as const;
+
+export const VOTE_THRESHOLDS = [
+  'plurality', 'simple_majority', 'two_thirds', 'three_quarters', 'unanimous',
+] as const;
+
 const US_STATE_CODES = [
   'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'FL', 'GA',
   'HI', 'ID', 'IL', 'IN', 'IA', 'KS', 'KY', 'LA', 'ME', 'MD',
@@ -167,6 +177,31 @@ export const boardVoteSchema = z.object({
   notes: z.string().max(2000).nullable().optional(),
 });
 
+export const votingWindowUpdateSchema = z
+  .object({
+    voteOpensAt: z.string().datetime().nullable().optional(),
+    voteClosesAt: z.string().datetime().nullable().optional(),
+  })
+  .refine(
+    (data) => !data.voteOpensAt || !data.voteClosesAt || new Date(data.voteClosesAt) > new Date(data.voteOpensAt),
+    { message: 'Voting must close after it opens', path: ['voteClosesAt'] }
+  );
+
+// ============================================
+// Vote rule schemas
+// ============================================
+
+export const voteRuleCreateSchema = z.object({
+  name: z.string().min(1).max(200),
+  committeeId: z.string().uuid().nullable().optional(),
+  officeLevel: z.enum(OFFICE_LEVELS).nullable().optional(),
+  quorum: z.enum(VOTE_QUORUMS).default('no_quorum'),
+  threshold: z.enum(VOTE_THRESHOLDS).default('plurality'),
+  votingPeriodDays: z.number().int().min(1).max(90).nullable().optional(),
+});
+
+export const voteRuleUpdateSchema = voteRuleCreateSchema.partial();
+
 // ============================================
 // Press release schemas
 // ============================================
@@ -236,6 +271,9 @@ export type OpponentUpdateInput = z.infer<typeof opponentUpdateSchema>;
 export type InterviewUpdateInput = z.infer<typeof interviewUpdateSchema>;
 export type RecommendationInput = z.infer<typeof recommendationSchema>;
 export type BoardVoteInput = z.infer<typeof boardVoteSchema>;
+export type VotingWindowUpdateInput = z.infer<typeof votingWindowUpdateSchema>;
+export type VoteRuleCreateInput = z.infer<typeof voteRuleCreateSchema>;
+export type VoteRuleUpdateInput = z.infer<typeof voteRuleUpdateSchema>;
 export type PressReleaseUpdateInput = z.infer<typeof pressReleaseUpdateSchema>;
 export type DistrictDataCreateInput = z.infer<typeof districtDataCreateSchema>;
 export type DistrictDataUpdateInput = z.infer<typeof districtDataUpdateSchema>;
@@ -0,0 +1,262 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}));
+
+vi.mock('@/lib/share/kit-generator', () => ({
+  generateEndorsementShareKit: vi.fn().mockResolvedValue('kit-1'),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+import {
+  canFinalizeBoardVote,
+  getEndorsementResult,
+  isQuorumMet,
+  selectVoteRule,
+  tallyVotes,
+  DEFAULT_VOTE_RULES,
+  type VoteRules,
+} from '../engine';
+import { finalizeBoardVote, finalizeClosedBoardVotes } from '../board-vote';
+import type { BoardVoteChoice } from '@/types';
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+interface ChainResult {
+  data?: unknown;
+  error: { message: string; code?: string } | null;
+}
+
+function mockChain(terminalResult: ChainResult = { data: null, error: null }) {
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  const methods = ['select', 'eq', 'in', 'is', 'or', 'lte', 'update', 'insert'];
+  for (const m of methods) {
+    chain[m] = vi.fn().mockReturnValue(chain);
+  }
+  chain.single = vi.fn().mockResolvedValue(terminalResult);
+  (chain as Record<string, unknown>)['then'] = (resolve: (v: ChainResult) => void) =>
+    resolve(terminalResult);
+  return chain;
+}
+
+/** Each `from()` call takes the next chain, in the order the code under test queries. */
+function mockSupabase(chains: ReturnType<typeof mockChain>[]) {
+  const queue = [...chains];
+  return {
+    from: vi.fn(() => queue.shift() ?? mockChain()),
+  };
+}
+
+/** Ballots cast by voters c1, c2, ... in order */
+function ballots(counts: Partial<Record<BoardVoteChoice, number>>): { voter_id: string; vote: BoardVoteChoice }[] {
+  return Object.entries(counts)
+    .flatMap(([vote, n]) => Array.from({ length: n }, () => vote as BoardVoteChoice))
+    .map((vote, i) => ({ voter_id: `c${i + 1}`, vote }));
+}
+
+const twoThirds: VoteRules = { quorum: 'quorum_majority', threshold: 'two_thirds', voting_period_days: 7 };
+const openWindow = { vote_opens_at: '2026-05-01T00:00:00Z', vote_closes_at: '2026-05-08T00:00:00Z' };
+const afterClose = new Date('2026-05-08T01:00:00Z');
+
+const vettingRow = {
+  id: 'vet-1',
+  stage: 'board_vote',
+  endorsed_at: null,
+  committee_id: 'com-1',
+  vote_rule_id: 'rule-fed',
+  ...openWindow,
+  candidate_response_id: 'resp-1',
+  candidate_first_name: 'Jane',
+  candidate_last_name: 'Adams',
+  candidate_office: 'US House',
+  candidate_state: 'TX',
+  candidate_district: '21',
+  office_type: { level: 'federal' },
+};
+
+const rules = [
+  { id: 'rule-default', name: 'Default', committee_id: null, office_level: null, quorum: 'no_quorum', threshold: 'plurality', voting_period_days: null },
+  { id: 'rule-fed', name: 'Federal offices', committee_id: null, office_level: 'federal', quorum: 'quorum_majority', threshold: 'two_thirds', voting_period_days: 7 },
+];
+
+const boardRoles = ['c1', 'c2', 'c3', 'c4', 'c5', 'c6'].map((contact_id) => ({ contact_id }));
+
+// ── Tests ──────────────────────────────────────────────────────────
+
+describe('getEndorsementResult', () => {
+  it('keeps plurality with ties going to no_position by default', () => {
+    expect(getEndorsementResult(tallyVotes(ballots({ vote_endorse: 3, vote_do_not_endorse: 2 })))).toBe('endorse');
+    expect(getEndorsementResult(tallyVotes(ballots({ vote_endorse: 2, vote_do_not_endorse: 2 })))).toBe('no_position');
+  });
+
+  it('requires the top choice to clear a supermajority of substantive votes', () => {
+    // 4 of 6 is exactly two-thirds; abstentions are not in the denominator
+    const exact = tallyVotes(ballots({ vote_endorse: 4, vote_do_not_endorse: 2, vote_abstain: 3 }));
+    expect(getEndorsementResult(exact, 'two_thirds')).toBe('endorse');
+    expect(getEndorsementResult(exact, 'three_quarters')).toBe('no_position');
+
+    const short = tallyVotes(ballots({ vote_endorse: 3, vote_do_not_endorse: 2 }));
+    expect(getEndorsementResult(short, 'simple_majority')).toBe('endorse');
+    expect(getEndorsementResult(short, 'two_thirds')).toBe('no_position');
+  });
+});
+
+describe('isQuorumMet', () => {
+  it('counts abstentions and needs more than half for a majority quorum', () => {
+    expect(isQuorumMet(3, 6, 'quorum_majority')).toBe(false);
+    expect(isQuorumMet(4, 6, 'quorum_majority')).toBe(true);
+    expect(isQuorumMet(4, 6, 'quorum_two_thirds')).toBe(true);
+    expect(isQuorumMet(0, 6, 'no_quorum')).toBe(true);
+  });
+});
+
+describe('selectVoteRule', () => {
+  const scoped = [
+    ...rules,
+    { id: 'rule-com', committee_id: 'com-1', office_level: null },
+    { id: 'rule-com-fed', committee_id: 'com-1', office_level: 'federal' },
+  ] as { id: string; committee_id: string | null; office_level: 'federal' | null }[];
+
+  it('prefers committee and level, then committee, then level, then the default', () => {
+    expect(selectVoteRule(scoped, { committeeId: 'com-1', officeLevel: 'federal' })?.id).toBe('rule-com-fed');
+    expect(selectVoteRule(scoped, { committeeId: 'com-1', officeLevel: 'state' })?.id).toBe('rule-com');
+    expect(selectVoteRule(scoped, { committeeId: 'com-2', officeLevel: 'federal' })?.id).toBe('rule-fed');
+    expect(selectVoteRule(scoped, { committeeId: null, officeLevel: null })?.id).toBe('rule-default');
+    expect(selectVoteRule([], { committeeId: 'com-1', officeLevel: 'federal' })).toBeNull();
+  });
+});
+
+describe('canFinalizeBoardVote', () => {
+  it('blocks finalizing without quorum', () => {
+    const gate = canFinalizeBoardVote({
+      tally: tallyVotes(ballots({ vote_endorse: 3 })),
+      rules: twoThirds,
+      eligibleVoters: 6,
+      window: openWindow,
+      now: afterClose,
+    });
+    expect(gate).toEqual({ allowed: false, reason: expect.stringContaining('Quorum not met: 3 of 6') });
+  });
+
+  it('only allows an early finish once every board member has voted', () => {
+    const duringVote = new Date('2026-05-03T00:00:00Z');
+    const params = { rules: twoThirds, eligibleVoters: 6, window: openWindow, now: duringVote };
+
+    expect(canFinalizeBoardVote({ ...params, tally: tallyVotes(ballots({ vote_endorse: 5 })) }).allowed).toBe(false);
+    expect(canFinalizeBoardVote({ ...params, tally: tallyVotes(ballots({ vote_endorse: 5, vote_abstain: 1 })) }).allowed).toBe(true);
+  });
+
+  it('leaves votes without a deadline finalizable as before', () => {
+    const gate = canFinalizeBoardVote({
+      tally: tallyVotes(ballots({ vote_endorse: 1 })),
+      rules: DEFAULT_VOTE_RULES,
+      eligibleVoters: 6,
+      window: { vote_opens_at: null, vote_closes_at: null },
+    });
+    expect(gate.allowed).toBe(true);
+  });
+});
+
+describe('finalizeBoardVote', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('records the result with the rule set and tally it was decided under', async () => {
+    const update = mockChain({ data: { id: 'vet-1', endorsement_result: 'no_position' }, error: null });
+    const supabase = mockSupabase([
+      mockChain({ data: vettingRow, error: null }),
+      mockChain({ data: ballots({ vote_endorse: 3, vote_do_not_endorse: 2 }), error: null }),
+      mockChain({ data: rules, error: null }),
+      mockChain({ data: boardRoles, error: null }),
+      update,
+      mockChain({ data: null, error: null }),
+      mockChain({ data: { id: 'post-1' }, error: null }),
+      mockChain({ data: null, error: null }),
+    ]);
+
+    const outcome = await finalizeBoardVote(supabase as never, 'vet-1', { finalizedBy: 'deadline', now: afterClose });
+
+    expect(outcome).toMatchObject({ success: true, endorsementResult: 'no_position', pressReleasePostId: 'post-1', shareKitId: 'kit-1' });
+    expect(update.update).toHaveBeenCalledWith({
+      endorsement_result: 'no_position',
+      endorsed_at: afterClose.toISOString(),
+      vote_rule_applied: {
+        rule_id: 'rule-fed',
+        name: 'Federal offices',
+        quorum: 'quorum_majority',
+        threshold: 'two_thirds',
+        eligible_voters: 6,
+        tally: { vote_endorse: 3, vote_do_not_endorse: 2, vote_no_position: 0, vote_abstain: 0, total: 5 },
+        quorum_met: true,
+        threshold_met: false,
+        finalized_by: 'deadline',
+        finalized_by_id: null,
+      },
+    });
+    expect(update.is).toHaveBeenCalledWith('endorsed_at', null);
+  });
+
+  it('refuses to finalize before the rule allows it', async () => {
+    const supabase = mockSupabase([
+      mockChain({ data: vettingRow, error: null }),
+      mockChain({ data: ballots({ vote_endorse: 2 }), error: null }),
+      mockChain({ data: rules, error: null }),
+      mockChain({ data: boardRoles, error: null }),
+    ]);
+
+    const outcome = await finalizeBoardVote(supabase as never, 'vet-1', { finalizedBy: 'board', finalizedById: 'c1', now: afterClose });
+
+    expect(outcome).toMatchObject({ success: false, reason: 'not_allowed' });
+    expect(supabase.from).toHaveBeenCalledTimes(4);
+  });
+
+  it('counts only ballots from board members whose role is still current', async () => {
+    // c4 to c6 voted, then their board terms expired
+    const currentBoard = ['c1', 'c2', 'c3', 'c7', 'c8', 'c9'].map((contact_id) => ({ contact_id }));
+    const roles = mockChain({ data: currentBoard, error: null });
+    const supabase = mockSupabase([
+      mockChain({ data: vettingRow, error: null }),
+      mockChain({ data: ballots({ vote_endorse: 3, vote_do_not_endorse: 3 }), error: null }),
+      mockChain({ data: rules, error: null }),
+      roles,
+    ]);
+
+    const outcome = await finalizeBoardVote(supabase as never, 'vet-1', { finalizedBy: 'board', finalizedById: 'c1', now: afterClose });
+
+    expect(roles.or).toHaveBeenCalledWith(`expires_at.is.null,expires_at.gte.${afterClose.toISOString()}`);
+    expect(outcome).toMatchObject({ success: false, reason: 'not_allowed', error: expect.stringContaining('Quorum not met: 3 of 6') });
+  });
+
+  it('reports a vetting that has already been decided', async () => {
+    const supabase = mockSupabase([mockChain({ data: { ...vettingRow, endorsed_at: '2026-05-02T00:00:00Z' }, error: null })]);
+
+    expect(await finalizeBoardVote(supabase as never, 'vet-1', { finalizedBy: 'board' })).toMatchObject({
+      success: false,
+      reason: 'already_finalized',
+    });
+  });
+});
+
+describe('finalizeClosedBoardVotes', () => {
+  it('holds open votes that closed without quorum', async () => {
+    const supabase = mockSupabase([
+      mockChain({ data: [{ id: 'vet-1' }], error: null }),
+      mockChain({ data: vettingRow, error: null }),
+      mockChain({ data: ballots({ vote_endorse: 1 }), error: null }),
+      mockChain({ data: rules, error: null }),
+      mockChain({ data: boardRoles, error: null }),
+    ]);
+
+    expect(await finalizeClosedBoardVotes(supabase as never, afterClose)).toEqual({
+      votesDue: 1,
+      finalized: 0,
+      heldOpen: 1,
+      errors: [],
+    });
+  });
+});
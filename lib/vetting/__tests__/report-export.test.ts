@@ -0,0 +1,257 @@
+import { describe, it, expect, vi } from 'vitest';
+import { inflateRawSync } from 'zlib';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}));
+
+import {
+  fetchVettingReportExport,
+  renderVettingReport,
+  reportEntries,
+  vettingReportFilename,
+  vettingReportWatermark,
+  type VettingReportExport,
+} from '../report-export';
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+interface ChainResult {
+  data?: unknown;
+  error: { message: string; code?: string } | null;
+}
+
+function mockChain(terminalResult: ChainResult = { data: [], error: null }) {
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  const methods = ['select', 'eq', 'order', 'limit'];
+  for (const m of methods) {
+    chain[m] = vi.fn().mockReturnValue(chain);
+  }
+  chain.single = vi.fn().mockResolvedValue(terminalResult);
+  chain.maybeSingle = vi.fn().mockResolvedValue(terminalResult);
+  (chain as Record<string, unknown>)['then'] = (resolve: (v: ChainResult) => void) =>
+    resolve(terminalResult);
+  return chain;
+}
+
+/** Each `from()` call takes the next chain, in the order the code under test queries. */
+function mockSupabase(chains: ReturnType<typeof mockChain>[]) {
+  const queue = [...chains];
+  return {
+    from: vi.fn(() => queue.shift() ?? mockChain()),
+  };
+}
+
+/** Files in a zip archive by name, read from the local file headers. */
+function unzip(archive: Uint8Array): Record<string, string> {
+  const buf = Buffer.from(archive);
+  const files: Record<string, string> = {};
+  let offset = 0;
+  while (buf.readUInt32LE(offset) === 0x04034b50) {
+    const size = buf.readUInt32LE(offset + 18);
+    const nameLength = buf.readUInt16LE(offset + 26);
+    const extraLength = buf.readUInt16LE(offset + 28);
+    const name = buf.subarray(offset + 30, offset + 30 + nameLength).toString('utf8');
+    const start = offset + 30 + nameLength + extraLength;
+    files[name] = inflateRawSync(buf.subarray(start, start + size)).toString('utf8');
+    offset = start + size;
+  }
+  return files;
+}
+
+const recipient = { name: 'Pat Lee', email: 'pat@example.com' };
+const generatedAt = new Date('2026-05-01T12:00:00Z');
+
+function makeReport(overrides: Partial<VettingReportExport> = {}): VettingReportExport {
+  return {
+    vetting: {
+      id: 'vet-1',
+      candidate_first_name: 'José',
+      candidate_last_name: 'Núñez',
+      candidate_state: 'TX',
+      candidate_office: 'State House',
+      candidate_district: '48',
+      candidate_party: 'R',
+      stage: 'board_vote',
+      recommendation: 'endorse',
+      recommendation_notes: 'Strong record on property rights.',
+      endorsement_result: 'endorse',
+      endorsed_at: '2026-04-20T00:00:00Z',
+      interview_date: '2026-04-01T00:00:00Z',
+      interview_notes: 'Answered every question.\n\nFollow up on "school choice" & zoning.',
+      interviewers: ['Ann Bell'],
+    },
+    officeType: { name: 'State Representative', district_label: 'District' },
+    electionDeadline: { primary_date: '2026-03-03', general_date: '2026-11-03', cycle_year: 2026 },
+    committeeName: 'Texas Vetting Committee',
+    sections: [
+      { section: 'executive_summary', status: 'section_completed', data: { summary: 'A principled candidate.', strengths: ['Fiscal hawk'] } },
+      { section: 'opponent_research', status: 'section_in_progress', data: {} },
+    ],
+    opponents: [
+      {
+        name: 'Cal Dunn',
+        party: 'D',
+        is_incumbent: true,
+        background: 'Two-term incumbent.',
+        credibility: null,
+        fundraising: { raised: 250000 },
+        endorsements: ['Teachers union'],
+        social_links: null,
+      },
+    ],
+    votes: [{ voterName: 'Eve Ford', vote: 'vote_endorse', notes: null }],
+    districtData: {
+      cook_pvi: 'R+8',
+      population: 190000,
+      party_registration: null,
+      municipalities: ['Austin'],
+      counties: ['Travis'],
+      overlapping_districts: [],
+      electoral_history: null,
+      map_url: null,
+    },
+    audit: {
+      status: 'audit_completed',
+      completed_at: '2026-03-15T00:00:00Z',
+      candidate_overall_score: 72,
+      candidate_grade: 'B',
+      candidate_score_breakdown: {
+        digitalPresence: 16,
+        campaignConsistency: 14,
+        communicationQuality: 15,
+        voterAccessibility: 12,
+        competitivePositioning: 15,
+      },
+      candidate_risks: [{ category: 'security', severity: 'HIGH', description: 'No HTTPS on campaign site', mitigation: 'Enable TLS' }],
+      opponent_audits: [{ name: 'Cal Dunn', party: 'D', platformCount: 4, overallScore: 61, grade: 'C' }],
+      platforms: [
+        {
+          entity_type: 'candidate',
+          entity_name: 'José Núñez',
+          platform_name: 'Facebook',
+          platform_url: 'https://facebook.com/nunez',
+          followers: 1200,
+          score_presence: 3,
+          score_consistency: 2,
+          score_quality: 2,
+          score_accessibility: 3,
+          total_score: 10,
+          grade: 'A',
+        },
+      ],
+    },
+    ...overrides,
+  };
+}
+
+// ── Tests ──────────────────────────────────────────────────────────
+
+describe('reportEntries', () => {
+  it('flattens freeform section data the way the web report shows it', () => {
+    expect(
+      reportEntries({
+        key_findings: 'First.\n\nSecond.',
+        committee_score: 8,
+        concerns: ['Residency', { issue: 'Late filing', resolved: true }],
+        prior_offices: { city_council: '2018-2022' },
+        empty_note: '',
+      })
+    ).toEqual([
+      { label: 'Key Findings', lines: ['First.', 'Second.'] },
+      { label: 'Committee Score', lines: ['8'] },
+      { label: 'Concerns', lines: ['- Residency', '- Issue: Late filing, Resolved: true'] },
+      { label: 'Prior Offices', lines: ['City Council: 2018-2022'] },
+    ]);
+  });
+
+  it('names the downloading user in the watermark and the candidate in the filename', () => {
+    expect(vettingReportWatermark(recipient, generatedAt)).toBe('CONFIDENTIAL - Pat Lee (pat@example.com) - 2026-05-01');
+    expect(vettingReportFilename({ candidate_first_name: 'Mary Ann', candidate_last_name: "O'Neil" }, 'docx')).toBe(
+      'mary-ann-oneil-vetting-report.docx'
+    );
+  });
+});
+
+describe('renderVettingReport', () => {
+  it('renders a PDF with non-WinAnsi text', async () => {
+    const pdf = await renderVettingReport(makeReport(), 'pdf', recipient, generatedAt);
+
+    expect(Buffer.from(pdf.slice(0, 5)).toString()).toBe('%PDF-');
+  });
+
+  it('renders an editable DOCX with every section, the audit, and the watermark', async () => {
+    const files = unzip(await renderVettingReport(makeReport(), 'docx', recipient, generatedAt));
+
+    expect(Object.keys(files)).toEqual(
+      expect.arrayContaining(['[Content_Types].xml', 'word/document.xml', 'word/header1.xml', 'word/footer1.xml'])
+    );
+    const document = files['word/document.xml'];
+    for (const text of [
+      '1. Executive Summary',
+      '2. Opponent Research',
+      '3. District Data',
+      '4. Digital Presence Audit',
+      'José Núñez (R)',
+      'Cal Dunn (D, Incumbent)',
+      'R+8',
+      '72 / 100',
+      '[HIGH] Security: No HTTPS on campaign site',
+      'Follow up on &quot;school choice&quot; &amp; zoning.',
+      'Eve Ford',
+    ]) {
+      expect(document).toContain(text);
+    }
+    expect(files['word/header1.xml']).toContain('string="CONFIDENTIAL - Pat Lee (pat@example.com) - 2026-05-01"');
+  });
+
+  it('leaves out individual board votes until the decision is final', async () => {
+    const report = makeReport();
+    const files = unzip(
+      await renderVettingReport({ ...report, vetting: { ...report.vetting, endorsement_result: null } }, 'docx', recipient, generatedAt)
+    );
+
+    expect(files['word/document.xml']).not.toContain('Eve Ford');
+    expect(files['word/document.xml']).toContain('Committee recommendation');
+  });
+});
+
+describe('fetchVettingReportExport', () => {
+  it('loads the vetting with its votes, district data, and latest audit', async () => {
+    const supabase = mockSupabase([
+      mockChain({
+        data: {
+          ...makeReport().vetting,
+          district_data_id: 'dd-1',
+          office_type: null,
+          election_deadline: null,
+          committee: { name: 'Texas Vetting Committee' },
+          report_sections: null,
+          opponents: null,
+        },
+        error: null,
+      }),
+      mockChain({ data: [{ vote: 'vote_endorse', notes: 'Yes', voter: { first_name: 'Eve', last_name: 'Ford' } }], error: null }),
+      mockChain({ data: makeReport().districtData, error: null }),
+      mockChain({ data: { id: 'audit-1', status: 'audit_completed', candidate_overall_score: 72 }, error: null }),
+      mockChain({ data: [], error: null }),
+    ]);
+
+    const result = await fetchVettingReportExport(supabase as never, 'vet-1');
+
+    expect(result).toMatchObject({
+      committeeName: 'Texas Vetting Committee',
+      sections: [],
+      votes: [{ voterName: 'Eve Ford', vote: 'vote_endorse', notes: 'Yes' }],
+      districtData: { cook_pvi: 'R+8' },
+      audit: { status: 'audit_completed', platforms: [] },
+    });
+    expect(result?.audit).not.toHaveProperty('id');
+  });
+
+  it('returns null for an unknown vetting', async () => {
+    const supabase = mockSupabase([mockChain({ data: null, error: { message: 'not found', code: 'PGRST116' } })]);
+
+    expect(await fetchVettingReportExport(supabase as never, 'missing')).toBeNull();
+  });
+});
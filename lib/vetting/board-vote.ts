@@ -0,0 +1,461 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { slugify, formatCandidateName } from '@/lib/utils';
+import { generateEndorsementShareKit } from '@/lib/share/kit-generator';
+import {
+  tallyVotes,
+  evaluateBoardVote,
+  canFinalizeBoardVote,
+  selectVoteRule,
+  getVotingWindow,
+  DEFAULT_VOTE_RULES,
+  type VoteRules,
+  type VoteTally,
+} from './engine';
+import type {
+  AppliedVoteRule,
+  BoardVoteChoice,
+  CandidateVoteRule,
+  OfficeLevel,
+  VettingRecommendation,
+} from '@/types';
+
+type ServerClient = ReturnType<typeof createServerClient>;
+
+// ─── Pure types ───
+
+/** Rule in effect for a vetting; `id` is null for the built-in default */
+export interface ResolvedVoteRules extends VoteRules {
+  id: string | null;
+  name: string;
+}
+
+export type FinalizeBoardVoteFailureReason = 'not_found' | 'wrong_stage' | 'already_finalized' | 'not_allowed' | 'conflict';
+
+export type FinalizeBoardVoteOutcome =
+  | {
+      success: true;
+      vetting: Record<string, unknown>;
+      tally: VoteTally;
+      endorsementResult: VettingRecommendation;
+      appliedRule: AppliedVoteRule;
+      pressReleasePostId: string | null;
+      shareKitId: string | null;
+    }
+  | { success: false; reason: FinalizeBoardVoteFailureReason; error: string };
+
+export interface ClosedBoardVoteResult {
+  votesDue: number;
+  finalized: number;
+  heldOpen: number;
+  errors: string[];
+}
+
+interface VettingForVote {
+  id: string;
+  stage: string;
+  endorsed_at: string | null;
+  committee_id: string | null;
+  vote_rule_id: string | null;
+  vote_opens_at: string | null;
+  vote_closes_at: string | null;
+  candidate_response_id: string;
+  candidate_first_name: string;
+  candidate_last_name: string;
+  candidate_office: string | null;
+  candidate_state: string | null;
+  candidate_district: string | null;
+  office_type: { level: OfficeLevel } | null;
+}
+
+const VETTING_FOR_VOTE_SELECT = `
+  id, stage, endorsed_at, committee_id, vote_rule_id, vote_opens_at, vote_closes_at,
+  candidate_response_id, candidate_first_name, candidate_last_name,
+  candidate_office, candidate_state, candidate_district,
+  office_type:rlc_office_types(level)
+`;
+
+// ─── Pure functions ───
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function buildPressReleaseTitle(
+  endorsementResult: VettingRecommendation,
+  candidateName: string,
+  candidateOffice: string | null,
+): string {
+  const office = candidateOffice || 'Office';
+  switch (endorsementResult) {
+    case 'endorse':
+      return `RLC Endorses ${candidateName} for ${office}`;
+    case 'do_not_endorse':
+      return `RLC Does Not Endorse ${candidateName} for ${office}`;
+    case 'no_position':
+      return `RLC Takes No Position on ${candidateName} for ${office}`;
+    default:
+      return `RLC Endorsement Decision: ${candidateName} for ${office}`;
+  }
+}
+
+function buildPressReleaseContent(
+  endorsementResult: VettingRecommendation,
+  candidateName: string,
+  candidateOffice: string | null,
+  candidateState: string | null,
+  candidateDistrict: string | null,
+  endorsedAt: string,
+): string {
+  const name = escapeHtml(candidateName);
+  const office = escapeHtml(candidateOffice || 'Office');
+  const location = [candidateState, candidateDistrict].filter((s): s is string => !!s).map(escapeHtml).join(', ');
+  const dateStr = new Date(endorsedAt).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+
+  let decision: string;
+  switch (endorsementResult) {
+    case 'endorse':
+      decision = `has endorsed ${name}`;
+      break;
+    case 'do_not_endorse':
+      decision = `has decided not to endorse ${name}`;
+      break;
+    case 'no_position':
+      decision = `has taken no position on the candidacy of ${name}`;
+      break;
+    default:
+      decision = `has made an endorsement decision regarding ${name}`;
+  }
+
+  return `<p>The Republican Liberty Caucus ${decision} for ${office}${location ? ` (${location})` : ''}.</p>
+
+<p>This decision was reached on ${dateStr} following a thorough vetting process by the RLC Candidate Vetting Committee and a vote by the National Board of Directors.</p>
+
+<p><em>This is a draft press release. Please edit the content before publishing.</em></p>`;
+}
+
+function toResolvedRules(rule: CandidateVoteRule | null): ResolvedVoteRules {
+  if (!rule) return { id: null, name: 'Default', ...DEFAULT_VOTE_RULES };
+  return {
+    id: rule.id,
+    name: rule.name,
+    quorum: rule.quorum,
+    threshold: rule.threshold,
+    voting_period_days: rule.voting_period_days,
+  };
+}
+
+// ─── Database functions ───
+
+/** Contact IDs of everyone who can vote: unexpired national_board and super_admin role holders */
+export async function getEligibleVoterIds(supabase: ServerClient, now: Date = new Date()): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('rlc_contact_roles')
+    .select('contact_id')
+    .in('role', ['national_board', 'super_admin'])
+    .or(`expires_at.is.null,expires_at.gte.${now.toISOString()}`);
+
+  if (error) throw new Error(`Failed to fetch eligible voters: ${error.message}`);
+
+  return [...new Set((data ?? []).map((r) => (r as unknown as { contact_id: string }).contact_id))];
+}
+
+/**
+ * The rule set governing a vetting's board vote. A rule stamped on the vetting
+ * when voting opened wins; otherwise the most specific rule for its committee
+ * and office level, falling back to plurality with no quorum.
+ */
+export async function resolveVoteRules(
+  supabase: ServerClient,
+  vetting: { committee_id: string | null; vote_rule_id: string | null; office_type: { level: OfficeLevel } | null }
+): Promise<ResolvedVoteRules> {
+  const { data, error } = await supabase.from('rlc_candidate_vote_rules').select('*');
+
+  if (error) throw new Error(`Failed to fetch vote rules: ${error.message}`);
+
+  const rules = (data ?? []) as unknown as CandidateVoteRule[];
+  const stamped = vetting.vote_rule_id ? rules.find((r) => r.id === vetting.vote_rule_id) : undefined;
+  return toResolvedRules(
+    stamped ?? selectVoteRule(rules, { committeeId: vetting.committee_id, officeLevel: vetting.office_type?.level ?? null })
+  );
+}
+
+/** Stamp the matching rule and voting window on a vetting entering board_vote */
+export async function openBoardVote(
+  supabase: ServerClient,
+  vettingId: string,
+  now: Date = new Date()
+): Promise<ResolvedVoteRules> {
+  const { data, error } = await supabase
+    .from('rlc_candidate_vettings')
+    .select('committee_id, office_type:rlc_office_types(level)')
+    .eq('id', vettingId)
+    .single();
+
+  if (error) throw new Error(`Failed to fetch vetting ${vettingId}: ${error.message}`);
+
+  const vetting = data as unknown as { committee_id: string | null; office_type: { level: OfficeLevel } | null };
+  const rules = await resolveVoteRules(supabase, { ...vetting, vote_rule_id: null });
+  const window = getVotingWindow(rules, now);
+
+  const { error: updateError } = await supabase
+    .from('rlc_candidate_vettings')
+    .update({
+      vote_rule_id: rules.id,
+      vote_opens_at: window.opensAt,
+      vote_closes_at: window.closesAt,
+    } as never)
+    .eq('id', vettingId);
+
+  if (updateError) throw new Error(`Failed to open board vote for ${vettingId}: ${updateError.message}`);
+
+  return rules;
+}
+
+/**
+ * Finalize a board vote under its rule set: record the result and the rule
+ * and tally it was decided under, sync the result to the candidate response,
+ * and draft the press release and share kit.
+ */
+export async function finalizeBoardVote(
+  supabase: ServerClient,
+  vettingId: string,
+  params: { finalizedBy: AppliedVoteRule['finalized_by']; finalizedById?: string | null; now?: Date }
+): Promise<FinalizeBoardVoteOutcome> {
+  const now = params.now ?? new Date();
+
+  const { data: rawVetting, error: vettingError } = await supabase
+    .from('rlc_candidate_vettings')
+    .select(VETTING_FOR_VOTE_SELECT)
+    .eq('id', vettingId)
+    .single();
+
+  if (vettingError) {
+    if (vettingError.code === 'PGRST116') {
+      return { success: false, reason: 'not_found', error: 'Vetting not found' };
+    }
+    throw new Error(`Failed to fetch vetting ${vettingId}: ${vettingError.message}`);
+  }
+
+  const vetting = rawVetting as unknown as VettingForVote;
+
+  if (vetting.stage !== 'board_vote') {
+    return { success: false, reason: 'wrong_stage', error: 'Can only finalize votes at the board_vote stage' };
+  }
+
+  if (vetting.endorsed_at) {
+    return { success: false, reason: 'already_finalized', error: 'Votes have already been finalized' };
+  }
+
+  const { data: rawVotes, error: votesError } = await supabase
+    .from('rlc_candidate_vetting_board_votes')
+    .select('voter_id, vote')
+    .eq('vetting_id', vettingId);
+
+  if (votesError) throw new Error(`Failed to fetch votes for ${vettingId}: ${votesError.message}`);
+
+  const [rules, eligibleVoterIds] = await Promise.all([
+    resolveVoteRules(supabase, vetting),
+    getEligibleVoterIds(supabase, now),
+  ]);
+
+  // Ballots from members whose board role has since lapsed count toward neither quorum nor the result
+  const eligibleIds = new Set(eligibleVoterIds);
+  const ballots = ((rawVotes ?? []) as unknown as { voter_id: string; vote: BoardVoteChoice }[]).filter((b) =>
+    eligibleIds.has(b.voter_id)
+  );
+  const tally = tallyVotes(ballots);
+  const eligibleVoters = eligibleVoterIds.length;
+
+  const gate = canFinalizeBoardVote({ tally, rules, eligibleVoters, window: vetting, now });
+  if (!gate.allowed) {
+    return { success: false, reason: 'not_allowed', error: gate.reason ?? 'Vote cannot be finalized yet' };
+  }
+
+  const evaluation = evaluateBoardVote(tally, rules, eligibleVoters);
+  const endorsementResult = evaluation.result;
+  const endorsedAt = now.toISOString();
+  const appliedRule: AppliedVoteRule = {
+    rule_id: rules.id,
+    name: rules.name,
+    quorum: rules.quorum,
+    threshold: rules.threshold,
+    eligible_voters: eligibleVoters,
+    tally,
+    quorum_met: evaluation.quorumMet,
+    threshold_met: evaluation.thresholdMet,
+    finalized_by: params.finalizedBy,
+    finalized_by_id: params.finalizedById ?? null,
+  };
+
+  // Optimistic concurrency: only update if endorsed_at is still null
+  const { data: updated, error: updateError } = await supabase
+    .from('rlc_candidate_vettings')
+    .update({
+      endorsement_result: endorsementResult,
+      endorsed_at: endorsedAt,
+      vote_rule_applied: appliedRule,
+    } as never)
+    .eq('id', vettingId)
+    .is('endorsed_at', null)
+    .select()
+    .single();
+
+  if (updateError) {
+    if (updateError.code === 'PGRST116') {
+      return { success: false, reason: 'conflict', error: 'Votes were finalized by another user. Please refresh.' };
+    }
+    throw new Error(`Failed to finalize votes for ${vettingId}: ${updateError.message}`);
+  }
+
+  // Sync endorsement status to candidate_responses if linked
+  if (vetting.candidate_response_id) {
+    const { error: syncError } = await supabase
+      .from('rlc_candidate_responses')
+      .update({
+        endorsement_result: endorsementResult,
+        endorsed_at: endorsedAt,
+      } as never)
+      .eq('id', vetting.candidate_response_id);
+
+    if (syncError) {
+      logger.warn('Failed to sync endorsement to candidate_responses:', {
+        candidateResponseId: vetting.candidate_response_id,
+        error: syncError,
+      });
+    }
+  }
+
+  // Auto-create draft press release post (non-fatal)
+  let pressReleasePostId: string | null = null;
+  try {
+    const candidateFullName = formatCandidateName(vetting.candidate_first_name, vetting.candidate_last_name);
+    const title = buildPressReleaseTitle(endorsementResult, candidateFullName, vetting.candidate_office);
+    const dateSlug = endorsedAt.slice(0, 10);
+    const slug = `press-release-${slugify(candidateFullName)}-${vettingId.slice(0, 8)}-${dateSlug}`;
+    const content = buildPressReleaseContent(
+      endorsementResult,
+      candidateFullName,
+      vetting.candidate_office,
+      vetting.candidate_state,
+      vetting.candidate_district,
+      endorsedAt,
+    );
+
+    const tags: string[] = [];
+    if (vetting.candidate_state) tags.push(vetting.candidate_state.toLowerCase());
+
+    const { data: postData, error: postError } = await supabase
+      .from('rlc_posts')
+      .insert({
+        title,
+        slug,
+        content,
+        excerpt: title,
+        content_type: 'press_release',
+        status: 'draft',
+        categories: ['press-release', 'endorsement'],
+        tags,
+        metadata: {},
+      } as never)
+      .select('id')
+      .single();
+
+    if (postError) {
+      logger.warn('Failed to create press release draft:', { vettingId, error: postError });
+    } else if (postData) {
+      pressReleasePostId = (postData as { id: string }).id;
+
+      // Link the post to the vetting and advance stage
+      const { error: linkError } = await supabase
+        .from('rlc_candidate_vettings')
+        .update({
+          press_release_post_id: pressReleasePostId,
+          stage: 'press_release_created',
+        } as never)
+        .eq('id', vettingId);
+
+      if (linkError) {
+        logger.warn('Failed to link press release post to vetting:', {
+          vettingId,
+          postId: pressReleasePostId,
+          error: linkError,
+        });
+      }
+    }
+  } catch (prError) {
+    logger.warn('Unexpected error creating press release draft:', { vettingId, error: prError });
+  }
+
+  // Auto-create share kit (non-fatal)
+  let shareKitId: string | null = null;
+  try {
+    shareKitId = await generateEndorsementShareKit({
+      vettingId,
+      candidateFirstName: vetting.candidate_first_name,
+      candidateLastName: vetting.candidate_last_name,
+      candidateOffice: vetting.candidate_office,
+      candidateState: vetting.candidate_state,
+      endorsementResult,
+    });
+  } catch (skError) {
+    logger.warn('Failed to generate share kit on finalize:', { vettingId, error: skError });
+  }
+
+  return {
+    success: true,
+    vetting: updated as Record<string, unknown>,
+    tally,
+    endorsementResult,
+    appliedRule,
+    pressReleasePostId,
+    shareKitId,
+  };
+}
+
+/**
+ * Finalize every open board vote whose window has closed. Votes short of
+ * quorum are left unfinalized until a national admin extends the window.
+ */
+export async function finalizeClosedBoardVotes(
+  supabase: ServerClient,
+  now: Date = new Date()
+): Promise<ClosedBoardVoteResult> {
+  const { data, error } = await supabase
+    .from('rlc_candidate_vettings')
+    .select('id')
+    .eq('stage', 'board_vote')
+    .is('endorsed_at', null)
+    .lte('vote_closes_at', now.toISOString());
+
+  if (error) throw new Error(`Failed to fetch closed board votes: ${error.message}`);
+
+  const due = (data ?? []) as unknown as { id: string }[];
+  const result: ClosedBoardVoteResult = { votesDue: due.length, finalized: 0, heldOpen: 0, errors: [] };
+
+  for (const { id } of due) {
+    try {
+      const outcome = await finalizeBoardVote(supabase, id, { finalizedBy: 'deadline', now });
+      if (outcome.success) {
+        result.finalized++;
+      } else if (outcome.reason === 'not_allowed') {
+        result.heldOpen++;
+        logger.warn(`Board vote for vetting ${id} closed but cannot be finalized: ${outcome.error}`);
+      } else if (outcome.reason !== 'conflict' && outcome.reason !== 'already_finalized') {
+        result.errors.push(`Vetting ${id}: ${outcome.error}`);
+      }
+    } catch (err) {
+      result.errors.push(`Vetting ${id}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  return result;
+}
@@ -1,4 +1,13 @@
-import type { VettingStage, VettingSectionStatus, VettingReportSectionType, BoardVoteChoice, VettingRecommendation } from '@/types';
+import type {
+  VettingStage,
+  VettingSectionStatus,
+  VettingReportSectionType,
+  BoardVoteChoice,
+  VettingRecommendation,
+  OfficeLevel,
+  VoteQuorum,
+  VoteThreshold,
+} from '@/types';
 import { VETTING_STAGES, VETTING_REPORT_SECTION_TYPES } from '@/lib/validations/vetting';
 
 // Ordered stage list (index = progression order)
@@ -30,6 +39,40 @@ const SECTION_DONE_STATUSES: VettingSectionStatus[] = ['section_completed'];
 
 type SectionState = { section: VettingReportSectionType; status: VettingSectionStatus };
 
+// Human-readable section titles
+export const REPORT_SECTION_TITLES: Record<VettingReportSectionType, string> = {
+  executive_summary: 'Executive Summary',
+  election_schedule: 'Election Schedule',
+  voting_rules: 'Voting Rules',
+  candidate_background: 'Candidate Background',
+  incumbent_record: 'Incumbent Record',
+  opponent_research: 'Opponent Research',
+  electoral_results: 'Electoral Results',
+  district_data: 'District Data',
+  digital_presence_audit: 'Digital Presence Audit',
+};
+
+// Ordered display of sections in the report (matches the Robert Onder brief format)
+export const REPORT_SECTION_ORDER: VettingReportSectionType[] = [
+  'executive_summary',
+  'election_schedule',
+  'voting_rules',
+  'candidate_background',
+  'incumbent_record',
+  'opponent_research',
+  'electoral_results',
+  'district_data',
+  'digital_presence_audit',
+];
+
+export function formatRecommendation(rec: VettingRecommendation): string {
+  return rec.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+export function formatBoardVote(vote: BoardVoteChoice): string {
+  return vote.replace(/^vote_/, '').replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
 export function isValidStageTransition(from: VettingStage, to: VettingStage): boolean {
   return STAGE_TRANSITIONS[from]?.includes(to) ?? false;
 }
@@ -177,8 +220,27 @@ export function tallyVotes(votes: { vote: BoardVoteChoice }[]): VoteTally {
   return tally;
 }
 
-/** Determine endorsement result from vote tally. Plurality wins; ties default to no_position. */
-export function getEndorsementResult(tally: VoteTally): VettingRecommendation {
+/** Whether `count` out of `total` clears a fractional threshold, using integer math so 2/3 is exact */
+function meetsShare(count: number, total: number, share: 'majority' | 'two_thirds' | 'three_quarters' | 'all'): boolean {
+  switch (share) {
+    case 'majority':
+      return count * 2 > total;
+    case 'two_thirds':
+      return count * 3 >= total * 2;
+    case 'three_quarters':
+      return count * 4 >= total * 3;
+    case 'all':
+      return count === total;
+  }
+}
+
+/**
+ * Determine endorsement result from vote tally. The top choice wins if it is
+ * unique and clears the threshold share of substantive votes; otherwise the
+ * result defaults to no_position. The default plurality threshold only
+ * requires the top choice to be unique.
+ */
+export function getEndorsementResult(tally: VoteTally, threshold: VoteThreshold = 'plurality'): VettingRecommendation {
   // Only count substantive votes (exclude abstentions)
   const counts: [VettingRecommendation, number][] = [
     ['endorse', tally.vote_endorse],
@@ -194,5 +256,165 @@ export function getEndorsementResult(tally: VoteTally): VettingRecommendation {
   // If there's a tie between the top two, default to no_position
   if (counts[0][1] === counts[1][1]) return 'no_position';
 
-  return counts[0][0];
+  const [choice, count] = counts[0];
+  const substantive = tally.vote_endorse + tally.vote_do_not_endorse + tally.vote_no_position;
+  return meetsThreshold(count, substantive, threshold) ? choice : 'no_position';
+}
+
+// ============================================
+// Board vote rules
+// ============================================
+
+export interface VoteRules {
+  quorum: VoteQuorum;
+  threshold: VoteThreshold;
+  voting_period_days: number | null;
+}
+
+/** Rules used when no configured rule matches: plurality, no quorum, no deadline */
+export const DEFAULT_VOTE_RULES: VoteRules = {
+  quorum: 'no_quorum',
+  threshold: 'plurality',
+  voting_period_days: null,
+};
+
+export const VOTE_QUORUM_LABELS: Record<VoteQuorum, string> = {
+  no_quorum: 'No quorum',
+  quorum_majority: 'Majority of the board',
+  quorum_two_thirds: 'Two-thirds of the board',
+};
+
+export const VOTE_THRESHOLD_LABELS: Record<VoteThreshold, string> = {
+  plurality: 'Plurality',
+  simple_majority: 'Simple majority',
+  two_thirds: 'Two-thirds',
+  three_quarters: 'Three-quarters',
+  unanimous: 'Unanimous',
+};
+
+/** Whether the winning choice's votes clear the threshold out of all substantive votes */
+export function meetsThreshold(count: number, substantive: number, threshold: VoteThreshold): boolean {
+  if (substantive === 0) return false;
+  switch (threshold) {
+    case 'plurality':
+      return count > 0;
+    case 'simple_majority':
+      return meetsShare(count, substantive, 'majority');
+    case 'two_thirds':
+      return meetsShare(count, substantive, 'two_thirds');
+    case 'three_quarters':
+      return meetsShare(count, substantive, 'three_quarters');
+    case 'unanimous':
+      return meetsShare(count, substantive, 'all');
+  }
+}
+
+/** Whether enough eligible voters cast a ballot. Abstentions count toward quorum. */
+export function isQuorumMet(ballotsCast: number, eligibleVoters: number, quorum: VoteQuorum): boolean {
+  switch (quorum) {
+    case 'no_quorum':
+      return true;
+    case 'quorum_majority':
+      return meetsShare(ballotsCast, eligibleVoters, 'majority');
+    case 'quorum_two_thirds':
+      return meetsShare(ballotsCast, eligibleVoters, 'two_thirds');
+  }
+}
+
+type VoteRuleScope = { committee_id: string | null; office_level: OfficeLevel | null };
+
+/**
+ * Pick the most specific rule for a vetting: committee + office level, then
+ * committee only, then office level only, then the default (both null).
+ * Returns null when nothing matches so callers fall back to DEFAULT_VOTE_RULES.
+ */
+export function selectVoteRule<T extends VoteRuleScope>(
+  rules: T[],
+  scope: { committeeId: string | null; officeLevel: OfficeLevel | null }
+): T | null {
+  const candidates: [string | null, OfficeLevel | null][] = [
+    [scope.committeeId, scope.officeLevel],
+    [scope.committeeId, null],
+    [null, scope.officeLevel],
+    [null, null],
+  ];
+  for (const [committeeId, officeLevel] of candidates) {
+    const match = rules.find((r) => r.committee_id === committeeId && r.office_level === officeLevel);
+    if (match) return match;
+  }
+  return null;
+}
+
+/** Open/close window for a vote, in ISO timestamps */
+export function getVotingWindow(rules: VoteRules, opensAt: Date): { opensAt: string; closesAt: string | null } {
+  return {
+    opensAt: opensAt.toISOString(),
+    closesAt: rules.voting_period_days
+      ? new Date(opensAt.getTime() + rules.voting_period_days * 24 * 60 * 60 * 1000).toISOString()
+      : null,
+  };
+}
+
+/** Where a board vote stands relative to its voting window */
+export function getVotingWindowStatus(
+  window: { vote_opens_at: string | null; vote_closes_at: string | null },
+  now: Date = new Date()
+): 'not_open' | 'open' | 'closed' {
+  if (window.vote_opens_at && now < new Date(window.vote_opens_at)) return 'not_open';
+  if (window.vote_closes_at && now >= new Date(window.vote_closes_at)) return 'closed';
+  return 'open';
+}
+
+/** Apply vote rules to a tally */
+export function evaluateBoardVote(
+  tally: VoteTally,
+  rules: VoteRules,
+  eligibleVoters: number
+): { result: VettingRecommendation; quorumMet: boolean; thresholdMet: boolean } {
+  const substantive = tally.vote_endorse + tally.vote_do_not_endorse + tally.vote_no_position;
+  const top = Math.max(tally.vote_endorse, tally.vote_do_not_endorse, tally.vote_no_position);
+  return {
+    result: getEndorsementResult(tally, rules.threshold),
+    quorumMet: isQuorumMet(tally.total, eligibleVoters, rules.quorum),
+    thresholdMet: meetsThreshold(top, substantive, rules.threshold),
+  };
+}
+
+/**
+ * Check whether a board vote can be finalized now. Requires at least one
+ * substantive vote and quorum. Before the close time, only a vote every
+ * eligible member has cast can be finalized early.
+ */
+export function canFinalizeBoardVote(params: {
+  tally: VoteTally;
+  rules: VoteRules;
+  eligibleVoters: number;
+  window: { vote_opens_at: string | null; vote_closes_at: string | null };
+  now?: Date;
+}): { allowed: boolean; reason?: string } {
+  const { tally, rules, eligibleVoters, window, now = new Date() } = params;
+
+  if (tally.total - tally.vote_abstain === 0) {
+    return { allowed: false, reason: 'At least one non-abstain vote is required to finalize' };
+  }
+
+  if (!isQuorumMet(tally.total, eligibleVoters, rules.quorum)) {
+    return {
+      allowed: false,
+      reason: `Quorum not met: ${tally.total} of ${eligibleVoters} board members have voted (${VOTE_QUORUM_LABELS[rules.quorum].toLowerCase()} required)`,
+    };
+  }
+
+  const status = getVotingWindowStatus(window, now);
+  if (status === 'not_open') {
+    return { allowed: false, reason: 'Voting has not opened yet' };
+  }
+  if (status === 'open' && window.vote_closes_at && tally.total < eligibleVoters) {
+    return {
+      allowed: false,
+      reason: 'Voting is still open. It can be finalized before the deadline once every board member has voted',
+    };
+  }
+
+  return { allowed: true };
 }
@@ -104,3 +104,8 @@ export function canManageCommittee(ctx: VettingContext): boolean {
 export function canManageDeadlines(ctx: VettingContext): boolean {
   return ctx.isNational;
 }
+
+/** Only national board and super admin can manage board vote rules and voting windows */
+export function canManageVoteRules(ctx: VettingContext): boolean {
+  return ctx.isNational;
+}
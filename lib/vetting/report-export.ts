@@ -0,0 +1,520 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { createPdfWriter, type PdfWriter } from '@/lib/pdf/writer';
+import { createDocxWriter, type DocxWriter } from '@/lib/docx/writer';
+import { formatCandidateName, formatDate, slugify } from '@/lib/utils';
+import {
+  REPORT_SECTION_ORDER,
+  REPORT_SECTION_TITLES,
+  formatBoardVote,
+  formatRecommendation,
+} from '@/lib/vetting/engine';
+import type {
+  BoardVoteChoice,
+  CandidateAuditPlatform,
+  CandidateDigitalAudit,
+  CandidateDistrictData,
+  CandidateElectionDeadline,
+  CandidateVetting,
+  CandidateVettingOpponent,
+  CandidateVettingReportSection,
+  OfficeType,
+  VettingReportSectionType,
+} from '@/types';
+
+type ServerClient = ReturnType<typeof createServerClient>;
+
+export const VETTING_REPORT_FORMATS = ['pdf', 'docx'] as const;
+
+export type VettingReportFormat = (typeof VETTING_REPORT_FORMATS)[number];
+
+export const VETTING_REPORT_CONTENT_TYPES: Record<VettingReportFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+// Same dimensions and order as the audit tab
+const SCORE_DIMENSIONS: [string, string][] = [
+  ['digitalPresence', 'Digital Presence'],
+  ['campaignConsistency', 'Campaign Consistency'],
+  ['communicationQuality', 'Communication'],
+  ['voterAccessibility', 'Voter Access'],
+  ['competitivePositioning', 'Competitive'],
+];
+
+// ─── Pure types ──────────────────────────────────────────────────────────────
+
+export type VettingReportAuditPlatform = Pick<
+  CandidateAuditPlatform,
+  | 'entity_type'
+  | 'entity_name'
+  | 'platform_name'
+  | 'platform_url'
+  | 'followers'
+  | 'score_presence'
+  | 'score_consistency'
+  | 'score_quality'
+  | 'score_accessibility'
+  | 'total_score'
+  | 'grade'
+>;
+
+export interface VettingReportExport {
+  vetting: Pick<
+    CandidateVetting,
+    | 'id'
+    | 'candidate_first_name'
+    | 'candidate_last_name'
+    | 'candidate_state'
+    | 'candidate_office'
+    | 'candidate_district'
+    | 'candidate_party'
+    | 'stage'
+    | 'recommendation'
+    | 'recommendation_notes'
+    | 'endorsement_result'
+    | 'endorsed_at'
+    | 'interview_date'
+    | 'interview_notes'
+    | 'interviewers'
+  >;
+  officeType: Pick<OfficeType, 'name' | 'district_label'> | null;
+  electionDeadline: Pick<CandidateElectionDeadline, 'primary_date' | 'general_date' | 'cycle_year'> | null;
+  committeeName: string | null;
+  sections: Pick<CandidateVettingReportSection, 'section' | 'status' | 'data'>[];
+  opponents: Pick<
+    CandidateVettingOpponent,
+    'name' | 'party' | 'is_incumbent' | 'background' | 'credibility' | 'fundraising' | 'endorsements' | 'social_links'
+  >[];
+  votes: { voterName: string; vote: BoardVoteChoice; notes: string | null }[];
+  districtData: Pick<
+    CandidateDistrictData,
+    | 'cook_pvi'
+    | 'population'
+    | 'party_registration'
+    | 'municipalities'
+    | 'counties'
+    | 'overlapping_districts'
+    | 'electoral_history'
+    | 'map_url'
+  > | null;
+  /** The latest digital presence audit, if one has been run */
+  audit: (Pick<
+    CandidateDigitalAudit,
+    | 'status'
+    | 'completed_at'
+    | 'candidate_overall_score'
+    | 'candidate_grade'
+    | 'candidate_score_breakdown'
+    | 'candidate_risks'
+    | 'opponent_audits'
+  > & { platforms: VettingReportAuditPlatform[] }) | null;
+}
+
+/** The user downloading the report, named in its confidentiality watermark. */
+export interface VettingReportRecipient {
+  name: string;
+  email: string;
+}
+
+export interface ReportEntry {
+  label: string;
+  lines: string[];
+}
+
+// ─── Pure functions ──────────────────────────────────────────────────────────
+
+/** Same labels as the web report: `district_label` becomes "District Label". */
+export function formatFieldLabel(key: string): string {
+  return key.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+function formatFieldValue(value: unknown): string {
+  if (value === null || value === undefined) return '-';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) return value.map(formatFieldValue).join('; ');
+  return Object.entries(value as Record<string, unknown>)
+    .map(([k, v]) => `${formatFieldLabel(k)}: ${formatFieldValue(v)}`)
+    .join(', ');
+}
+
+/**
+ * Section data is freeform JSON. Flatten it the way the web report shows it:
+ * text split into paragraphs, lists one item per line, and nested objects
+ * one "Label: value" line per key.
+ */
+export function reportEntries(data: Record<string, unknown> | null): ReportEntry[] {
+  if (!data) return [];
+  return Object.entries(data).flatMap(([key, value]): ReportEntry[] => {
+    const label = formatFieldLabel(key);
+    if (value === null || value === undefined || value === '') return [];
+    if (typeof value === 'string') {
+      return [{ label, lines: value.split(/\n\s*\n/).map((p) => p.trim()).filter(Boolean) }];
+    }
+    if (Array.isArray(value)) {
+      return value.length > 0 ? [{ label, lines: value.map((item) => `- ${formatFieldValue(item)}`) }] : [];
+    }
+    if (typeof value === 'object') {
+      const lines = Object.entries(value as Record<string, unknown>).map(
+        ([subKey, subValue]) => `${formatFieldLabel(subKey)}: ${formatFieldValue(subValue)}`
+      );
+      return lines.length > 0 ? [{ label, lines }] : [];
+    }
+    return [{ label, lines: [String(value)] }];
+  });
+}
+
+export function vettingReportWatermark(recipient: VettingReportRecipient, generatedAt: Date): string {
+  return `CONFIDENTIAL - ${recipient.name} (${recipient.email}) - ${generatedAt.toISOString().slice(0, 10)}`;
+}
+
+export function vettingReportFilename(
+  vetting: Pick<CandidateVetting, 'candidate_first_name' | 'candidate_last_name'>,
+  format: VettingReportFormat
+): string {
+  const name = slugify(formatCandidateName(vetting.candidate_first_name, vetting.candidate_last_name)) || 'candidate';
+  return `${name}-vetting-report.${format}`;
+}
+
+function candidateOffice(data: VettingReportExport): string {
+  const { vetting, officeType } = data;
+  return [
+    officeType?.name ?? vetting.candidate_office,
+    vetting.candidate_district ? `${officeType?.district_label ?? 'District'} ${vetting.candidate_district}` : null,
+    vetting.candidate_state,
+  ]
+    .filter(Boolean)
+    .join(' - ');
+}
+
+function formatScore(score: number | null): string {
+  return score === null ? '-' : String(Math.round(Number(score) * 10) / 10);
+}
+
+// ─── Rendering ───────────────────────────────────────────────────────────────
+
+function writeEntries(doc: PdfWriter | DocxWriter, entries: ReportEntry[]) {
+  for (const entry of entries) {
+    doc.paragraph(entry.label, { muted: true, size: 9 });
+    for (const line of entry.lines) doc.paragraph(line);
+    doc.spacer(6);
+  }
+}
+
+function writeOpponents(doc: PdfWriter | DocxWriter, opponents: VettingReportExport['opponents']) {
+  for (const opponent of opponents) {
+    const tags = [opponent.party, opponent.is_incumbent ? 'Incumbent' : null].filter(Boolean).join(', ');
+    doc.paragraph(tags ? `${opponent.name} (${tags})` : opponent.name, { size: 11 });
+    writeEntries(doc, reportEntries({
+      background: opponent.background,
+      credibility: opponent.credibility,
+      endorsements: opponent.endorsements,
+      fundraising: opponent.fundraising,
+      social_links: opponent.social_links,
+    }));
+    doc.spacer(4);
+  }
+}
+
+function writeDistrictData(doc: PdfWriter | DocxWriter, district: NonNullable<VettingReportExport['districtData']>) {
+  doc.keyValues([
+    ['Cook PVI', district.cook_pvi ?? '-'],
+    ['Population', district.population === null ? '-' : district.population.toLocaleString('en-US')],
+  ]);
+  doc.spacer(6);
+  writeEntries(doc, reportEntries({
+    party_registration: district.party_registration,
+    counties: district.counties,
+    municipalities: district.municipalities,
+    overlapping_districts: district.overlapping_districts,
+    electoral_history: district.electoral_history,
+    map_url: district.map_url,
+  }));
+}
+
+function writeAudit(doc: PdfWriter | DocxWriter, audit: NonNullable<VettingReportExport['audit']>) {
+  doc.keyValues([
+    ['Overall score', audit.candidate_overall_score === null ? '-' : `${formatScore(audit.candidate_overall_score)} / 100`],
+    ['Grade', audit.candidate_grade ?? '-'],
+    ['Status', formatFieldLabel(audit.status.replace(/^audit_/, ''))],
+    ['Completed', audit.completed_at ? formatDate(audit.completed_at) : '-'],
+  ]);
+  doc.spacer(6);
+
+  const breakdown = audit.candidate_score_breakdown;
+  if (breakdown) {
+    doc.table(
+      [
+        { header: 'Dimension', width: 0.7 },
+        { header: 'Score', width: 0.3, align: 'right' },
+      ],
+      SCORE_DIMENSIONS.map(([key, label]) => [label, `${formatFieldValue(breakdown[key])} / 20`])
+    );
+  }
+
+  const candidatePlatforms = audit.platforms.filter((p) => p.entity_type === 'candidate');
+  if (candidatePlatforms.length > 0) {
+    doc.paragraph('Platforms', { muted: true, size: 9 });
+    doc.table(
+      [
+        { header: 'Platform', width: 0.22 },
+        { header: 'URL', width: 0.3 },
+        { header: 'Followers', width: 0.1, align: 'right' },
+        { header: 'Pres.', width: 0.07, align: 'right' },
+        { header: 'Cons.', width: 0.07, align: 'right' },
+        { header: 'Qual.', width: 0.07, align: 'right' },
+        { header: 'Access', width: 0.07, align: 'right' },
+        { header: 'Total', width: 0.05, align: 'right' },
+        { header: 'Grade', width: 0.05, align: 'right' },
+      ],
+      candidatePlatforms.map((p) => [
+        p.platform_name,
+        p.platform_url ?? '-',
+        p.followers === null ? '-' : p.followers.toLocaleString('en-US'),
+        formatScore(p.score_presence),
+        formatScore(p.score_consistency),
+        formatScore(p.score_quality),
+        formatScore(p.score_accessibility),
+        formatScore(p.total_score),
+        p.grade ?? '-',
+      ])
+    );
+  }
+
+  const risks = audit.candidate_risks ?? [];
+  if (risks.length > 0) {
+    doc.paragraph('Risks', { muted: true, size: 9 });
+    for (const risk of risks) {
+      doc.paragraph(`[${formatFieldValue(risk.severity)}] ${formatFieldLabel(String(risk.category ?? ''))}: ${formatFieldValue(risk.description)}`);
+      if (risk.mitigation) doc.paragraph(`Mitigation: ${formatFieldValue(risk.mitigation)}`, { muted: true, size: 9 });
+    }
+    doc.spacer(6);
+  }
+
+  const opponentAudits = audit.opponent_audits ?? [];
+  if (opponentAudits.length > 0) {
+    doc.paragraph('Opponent Comparison', { muted: true, size: 9 });
+    doc.table(
+      [
+        { header: 'Opponent', width: 0.4 },
+        { header: 'Party', width: 0.2 },
+        { header: 'Platforms', width: 0.14, align: 'right' },
+        { header: 'Avg Score', width: 0.14, align: 'right' },
+        { header: 'Grade', width: 0.12, align: 'right' },
+      ],
+      opponentAudits.map((opp) => [
+        formatFieldValue(opp.name),
+        formatFieldValue(opp.party),
+        opp.auditFailed ? 'Failed' : formatFieldValue(opp.platformCount),
+        typeof opp.overallScore === 'number' ? formatScore(opp.overallScore) : '-',
+        formatFieldValue(opp.grade),
+      ])
+    );
+  }
+}
+
+/** Shared by both formats, so the PDF and the DOCX always carry the same content. */
+function writeVettingReport(doc: PdfWriter | DocxWriter, data: VettingReportExport, generatedAt: Date) {
+  const { vetting } = data;
+  const name = formatCandidateName(vetting.candidate_first_name, vetting.candidate_last_name);
+
+  doc.title('Candidate Vetting Report', [vetting.candidate_party ? `${name} (${vetting.candidate_party})` : name, candidateOffice(data)]
+    .filter(Boolean)
+    .join('  |  '));
+  doc.keyValues([
+    ['Candidate', name],
+    ['Office', candidateOffice(data) || '-'],
+    ...(data.committeeName ? [['Committee', data.committeeName] as [string, string]] : []),
+    ['Stage', formatFieldLabel(vetting.stage)],
+    ...(data.electionDeadline?.primary_date ? [['Primary', formatDate(data.electionDeadline.primary_date)] as [string, string]] : []),
+    ...(data.electionDeadline?.general_date ? [['General', formatDate(data.electionDeadline.general_date)] as [string, string]] : []),
+    ...(data.electionDeadline?.cycle_year ? [['Cycle', String(data.electionDeadline.cycle_year)] as [string, string]] : []),
+    ['Report generated', formatDate(generatedAt)],
+  ]);
+  doc.spacer();
+
+  if (vetting.endorsement_result) {
+    doc.keyValues([
+      ['Board decision', formatRecommendation(vetting.endorsement_result)],
+      ...(vetting.endorsed_at ? [['Finalized', formatDate(vetting.endorsed_at)] as [string, string]] : []),
+    ]);
+    doc.spacer();
+  } else if (vetting.recommendation) {
+    doc.keyValues([['Committee recommendation', formatRecommendation(vetting.recommendation)]]);
+    if (vetting.recommendation_notes) doc.paragraph(vetting.recommendation_notes);
+    doc.spacer();
+  }
+
+  // District data and the audit live in their own tables; show them even if the section row is missing
+  const hasExtra: Partial<Record<VettingReportSectionType, boolean>> = {
+    opponent_research: data.opponents.length > 0,
+    district_data: !!data.districtData,
+    digital_presence_audit: !!data.audit,
+  };
+  const sections = REPORT_SECTION_ORDER
+    .map((key) => data.sections.find((s) => s.section === key) ?? (hasExtra[key] ? { section: key, status: null, data: {} } : null))
+    .filter((s) => s !== null);
+
+  sections.forEach((section, index) => {
+    doc.heading(`${index + 1}. ${REPORT_SECTION_TITLES[section.section]}`);
+    if (section.status && section.status !== 'section_completed') {
+      doc.paragraph(`Status: ${section.status.replace(/section_|_/g, ' ').trim()}`, { muted: true, size: 8 });
+    }
+
+    const entries = reportEntries(section.data);
+    writeEntries(doc, entries);
+
+    if (section.section === 'opponent_research') writeOpponents(doc, data.opponents);
+    if (section.section === 'district_data' && data.districtData) writeDistrictData(doc, data.districtData);
+    if (section.section === 'digital_presence_audit' && data.audit) writeAudit(doc, data.audit);
+
+    if (entries.length === 0 && !hasExtra[section.section]) {
+      doc.paragraph('No data entered for this section.', { muted: true });
+    }
+  });
+
+  if (sections.length === 0) {
+    doc.paragraph('No report sections initialized.', { muted: true });
+  }
+
+  if (vetting.interview_date) {
+    doc.heading('Interview');
+    doc.keyValues([
+      ['Date', formatDate(vetting.interview_date)],
+      ...(vetting.interviewers.length > 0 ? [['Interviewers', vetting.interviewers.join(', ')] as [string, string]] : []),
+    ]);
+    if (vetting.interview_notes) {
+      doc.spacer(6);
+      writeEntries(doc, reportEntries({ notes: vetting.interview_notes }));
+    }
+  }
+
+  // Same rule as the web report: individual votes are shown only once the decision is final
+  if (data.votes.length > 0 && vetting.endorsement_result) {
+    doc.heading('Board Vote');
+    doc.table(
+      [
+        { header: 'Board Member', width: 0.3 },
+        { header: 'Vote', width: 0.2 },
+        { header: 'Notes', width: 0.5 },
+      ],
+      data.votes.map((v) => [v.voterName, formatBoardVote(v.vote), v.notes || '-'])
+    );
+  }
+
+  doc.spacer();
+  doc.paragraph('CONFIDENTIAL - For Internal Use Only', { muted: true, size: 8 });
+}
+
+export async function renderVettingReport(
+  data: VettingReportExport,
+  format: VettingReportFormat,
+  recipient: VettingReportRecipient,
+  generatedAt: Date = new Date()
+): Promise<Uint8Array> {
+  const name = formatCandidateName(data.vetting.candidate_first_name, data.vetting.candidate_last_name);
+  const params = {
+    documentTitle: `Candidate Vetting Report - ${name}`,
+    footerText: `Candidate Vetting Report - ${name} - Confidential`,
+    watermark: vettingReportWatermark(recipient, generatedAt),
+  };
+  const doc = format === 'pdf' ? await createPdfWriter(params) : createDocxWriter(params);
+  writeVettingReport(doc, data, generatedAt);
+  return doc.save();
+}
+
+// ─── Database functions ──────────────────────────────────────────────────────
+
+/** Load the vetting with everything its report shows. Returns null when the vetting does not exist. */
+export async function fetchVettingReportExport(
+  supabase: ServerClient,
+  vettingId: string
+): Promise<VettingReportExport | null> {
+  const { data, error } = await supabase
+    .from('rlc_candidate_vettings')
+    .select(`
+      *,
+      office_type:rlc_office_types(name, district_label),
+      election_deadline:rlc_candidate_election_deadlines(primary_date, general_date, cycle_year),
+      committee:rlc_candidate_vetting_committees(name),
+      report_sections:rlc_candidate_vetting_report_sections(section, data, status),
+      opponents:rlc_candidate_vetting_opponents(name, party, is_incumbent, background, credibility, fundraising, endorsements, social_links)
+    `)
+    .eq('id', vettingId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null;
+    throw new Error(`Failed to fetch vetting: ${error.message}`);
+  }
+
+  // Cast through unknown — the embedded relations are not in the generated types
+  const vetting = data as unknown as CandidateVetting & {
+    office_type: VettingReportExport['officeType'];
+    election_deadline: VettingReportExport['electionDeadline'];
+    committee: { name: string } | null;
+    report_sections: VettingReportExport['sections'] | null;
+    opponents: VettingReportExport['opponents'] | null;
+  };
+
+  const { data: votesData, error: votesError } = await supabase
+    .from('rlc_candidate_vetting_board_votes')
+    .select('vote, notes, voter:rlc_contacts!voter_id(first_name, last_name)')
+    .eq('vetting_id', vettingId)
+    .order('voted_at', { ascending: true });
+
+  if (votesError) throw new Error(`Failed to fetch board votes: ${votesError.message}`);
+  type VoteRow = { vote: BoardVoteChoice; notes: string | null; voter: { first_name: string; last_name: string } | null };
+  const votes = ((votesData || []) as unknown as VoteRow[]).map((v) => ({
+    voterName: v.voter ? `${v.voter.first_name} ${v.voter.last_name}` : 'Unknown',
+    vote: v.vote,
+    notes: v.notes,
+  }));
+
+  let districtData: VettingReportExport['districtData'] = null;
+  if (vetting.district_data_id) {
+    const { data: ddData, error: ddError } = await supabase
+      .from('rlc_candidate_district_data')
+      .select('cook_pvi, population, party_registration, municipalities, counties, overlapping_districts, electoral_history, map_url')
+      .eq('id', vetting.district_data_id)
+      .maybeSingle();
+
+    if (ddError) throw new Error(`Failed to fetch district data: ${ddError.message}`);
+    districtData = ddData as unknown as VettingReportExport['districtData'];
+  }
+
+  const { data: auditData, error: auditError } = await supabase
+    .from('rlc_candidate_digital_audits')
+    .select('id, status, completed_at, candidate_overall_score, candidate_grade, candidate_score_breakdown, candidate_risks, opponent_audits')
+    .eq('vetting_id', vettingId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (auditError) throw new Error(`Failed to fetch audit: ${auditError.message}`);
+  let audit: VettingReportExport['audit'] = null;
+  if (auditData) {
+    const { id: auditId, ...auditRow } = auditData as unknown as Omit<NonNullable<VettingReportExport['audit']>, 'platforms'> & { id: string };
+    const { data: platformsData, error: platformsError } = await supabase
+      .from('rlc_candidate_audit_platforms')
+      .select('entity_type, entity_name, platform_name, platform_url, followers, score_presence, score_consistency, score_quality, score_accessibility, total_score, grade')
+      .eq('audit_id', auditId)
+      .order('entity_type', { ascending: true })
+      .order('total_score', { ascending: false });
+
+    if (platformsError) throw new Error(`Failed to fetch audit platforms: ${platformsError.message}`);
+    audit = { ...auditRow, platforms: (platformsData || []) as VettingReportAuditPlatform[] };
+  }
+
+  return {
+    vetting,
+    officeType: vetting.office_type,
+    electionDeadline: vetting.election_deadline,
+    committeeName: vetting.committee?.name ?? null,
+    sections: vetting.report_sections ?? [],
+    opponents: vetting.opponents ?? [],
+    votes,
+    districtData,
+    audit,
+  };
+}
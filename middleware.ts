@@ -21,6 +21,7 @@ const isPublicRoute = createRouteMatcher([
   '/api/v1/civic(.*)',
   '/api/v1/checkout(.*)',
   '/api/v1/donate(.*)',
+  '/api/v1/scorecards(.*)',
   '/scorecards(.*)',
   '/action-center(.*)',
   '/endorsements(.*)',
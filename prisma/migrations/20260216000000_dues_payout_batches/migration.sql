@@ -0,0 +1,54 @@
+-- Scheduled payout batching for dues sharing.
+-- Charters can opt out of per-payment transfers and instead receive one
+-- aggregated Stripe transfer per daily/weekly/monthly cadence.
+
+-- CreateEnum
+CREATE TYPE "PayoutCadence" AS ENUM ('per_payment', 'daily', 'weekly', 'monthly');
+
+-- AlterTable: batching preferences on the charter's split config
+ALTER TABLE "rlc_charter_split_configs"
+  ADD COLUMN "payout_cadence" "PayoutCadence" NOT NULL DEFAULT 'per_payment',
+  ADD COLUMN "minimum_payout" DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN "last_payout_at" TIMESTAMPTZ;
+
+-- ============================================================
+-- Table: rlc_payout_batches (one row per aggregated transfer)
+-- ============================================================
+CREATE TABLE "rlc_payout_batches" (
+  "id" TEXT NOT NULL DEFAULT gen_random_uuid()::text,
+  "recipient_charter_id" TEXT NOT NULL,
+  "cadence" "PayoutCadence" NOT NULL,
+  "amount" DECIMAL(10,2) NOT NULL,
+  "currency" TEXT NOT NULL DEFAULT 'USD',
+  "entry_count" INTEGER NOT NULL,
+  "status" "SplitLedgerStatus" NOT NULL DEFAULT 'processing',
+  "stripe_transfer_id" TEXT,
+  "stripe_transfer_group_id" TEXT NOT NULL,
+  "transferred_at" TIMESTAMPTZ,
+  "error_message" TEXT,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT "rlc_payout_batches_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "rlc_payout_batches_recipient_charter_id_fkey"
+    FOREIGN KEY ("recipient_charter_id") REFERENCES "rlc_charters"("id")
+);
+
+CREATE INDEX "rlc_payout_batches_recipient_charter_id_created_at_idx"
+  ON "rlc_payout_batches" ("recipient_charter_id", "created_at");
+
+-- AlterTable: link ledger entries to the batch that paid them out
+ALTER TABLE "rlc_split_ledger_entries" ADD COLUMN "payout_batch_id" TEXT;
+
+ALTER TABLE "rlc_split_ledger_entries"
+  ADD CONSTRAINT "rlc_split_ledger_entries_payout_batch_id_fkey"
+  FOREIGN KEY ("payout_batch_id") REFERENCES "rlc_payout_batches"("id") ON DELETE SET NULL;
+
+CREATE INDEX "rlc_split_ledger_entries_payout_batch_id_idx"
+  ON "rlc_split_ledger_entries" ("payout_batch_id");
+
+-- ============================================================
+-- RLS: permissive (API uses service role key)
+-- ============================================================
+ALTER TABLE "rlc_payout_batches" ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Service role full access" ON "rlc_payout_batches"
+  FOR ALL USING (true) WITH CHECK (true);
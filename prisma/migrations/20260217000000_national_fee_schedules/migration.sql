@@ -0,0 +1,44 @@
+-- Versioned national fee schedule for dues sharing.
+-- Replaces the hardcoded $15 NATIONAL_FLAT_FEE_CENTS with board-editable policy
+-- per source type and membership tier, flat or percentage, by effective date.
+
+-- CreateEnum
+CREATE TYPE "NationalFeeType" AS ENUM ('flat', 'percentage');
+
+-- ============================================================
+-- Table: rlc_national_fee_schedules (append-only policy versions)
+-- ============================================================
+CREATE TABLE "rlc_national_fee_schedules" (
+  "id" TEXT NOT NULL DEFAULT gen_random_uuid()::text,
+  "source_type" "SplitSourceType" NOT NULL,
+  "membership_tier" "MembershipTier",
+  "fee_type" "NationalFeeType" NOT NULL,
+  "flat_amount" DECIMAL(10,2),
+  "percentage" DECIMAL(5,2),
+  "effective_from" TIMESTAMPTZ NOT NULL,
+  "notes" TEXT,
+  "created_by_id" TEXT,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT "rlc_national_fee_schedules_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "rlc_national_fee_schedules_created_by_id_fkey"
+    FOREIGN KEY ("created_by_id") REFERENCES "rlc_contacts"("id") ON DELETE SET NULL,
+  CONSTRAINT "rlc_national_fee_schedules_amount_check" CHECK (
+    ("fee_type" = 'flat' AND "flat_amount" IS NOT NULL AND "flat_amount" >= 0)
+    OR ("fee_type" = 'percentage' AND "percentage" IS NOT NULL AND "percentage" BETWEEN 0 AND 100)
+  )
+);
+
+CREATE INDEX "rlc_national_fee_schedules_source_type_effective_from_idx"
+  ON "rlc_national_fee_schedules" ("source_type", "effective_from");
+
+-- Seed: current policy ($15 flat per membership, all tiers)
+INSERT INTO "rlc_national_fee_schedules" ("source_type", "fee_type", "flat_amount", "effective_from", "notes")
+VALUES ('membership', 'flat', 15.00, '2020-01-01T00:00:00Z', 'Initial policy: $15 flat national fee per membership payment');
+
+-- ============================================================
+-- RLS: permissive (API uses service role key)
+-- ============================================================
+ALTER TABLE "rlc_national_fee_schedules" ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Service role full access" ON "rlc_national_fee_schedules"
+  FOR ALL USING (true) WITH CHECK (true);
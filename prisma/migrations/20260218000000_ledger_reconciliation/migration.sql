@@ -0,0 +1,54 @@
+-- Dues-sharing reconciliation against Stripe.
+-- A daily job diffs each connected account's Stripe transfers and reversals
+-- against the split ledger and records mismatches here for admin repair.
+
+-- CreateEnum
+CREATE TYPE "ReconciliationIssueType" AS ENUM ('missing_transfer', 'amount_drift', 'orphan_transfer');
+
+-- CreateEnum
+CREATE TYPE "ReconciliationIssueStatus" AS ENUM ('open', 'resolved', 'dismissed');
+
+-- ============================================================
+-- Table: rlc_ledger_reconciliation_issues
+-- ============================================================
+CREATE TABLE "rlc_ledger_reconciliation_issues" (
+  "id" TEXT NOT NULL DEFAULT gen_random_uuid()::text,
+  "charter_id" TEXT NOT NULL,
+  "stripe_account_id" TEXT NOT NULL,
+  "issue_type" "ReconciliationIssueType" NOT NULL,
+  "stripe_transfer_id" TEXT,
+  "ledger_entry_ids" TEXT[] NOT NULL DEFAULT '{}',
+  "ledger_amount" DECIMAL(10,2),
+  "stripe_amount" DECIMAL(10,2),
+  "details" JSONB NOT NULL DEFAULT '{}',
+  "status" "ReconciliationIssueStatus" NOT NULL DEFAULT 'open',
+  "resolution" TEXT,
+  "resolved_by_id" TEXT,
+  "resolved_at" TIMESTAMPTZ,
+  "detected_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+  "last_seen_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT "rlc_ledger_reconciliation_issues_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "rlc_ledger_reconciliation_issues_charter_id_fkey"
+    FOREIGN KEY ("charter_id") REFERENCES "rlc_charters"("id"),
+  CONSTRAINT "rlc_ledger_reconciliation_issues_resolved_by_id_fkey"
+    FOREIGN KEY ("resolved_by_id") REFERENCES "rlc_contacts"("id") ON DELETE SET NULL
+);
+
+CREATE INDEX "rlc_ledger_reconciliation_issues_status_charter_id_idx"
+  ON "rlc_ledger_reconciliation_issues" ("status", "charter_id");
+
+CREATE INDEX "rlc_ledger_reconciliation_issues_stripe_transfer_id_idx"
+  ON "rlc_ledger_reconciliation_issues" ("stripe_transfer_id");
+
+-- At most one open issue per transfer and type; reruns refresh last_seen_at
+CREATE UNIQUE INDEX "rlc_ledger_reconciliation_issues_open_key"
+  ON "rlc_ledger_reconciliation_issues" ("issue_type", "stripe_transfer_id")
+  WHERE "status" = 'open';
+
+-- ============================================================
+-- RLS: permissive (API uses service role key)
+-- ============================================================
+ALTER TABLE "rlc_ledger_reconciliation_issues" ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Service role full access" ON "rlc_ledger_reconciliation_issues"
+  FOR ALL USING (true) WITH CHECK (true);
@@ -0,0 +1,45 @@
+-- Retry queue for failed charter transfers.
+-- Failed/pending ledger entries are retried with exponential backoff, parked
+-- while the recipient's Stripe account has payouts disabled, and every
+-- attempt is recorded for the audit trail.
+
+-- CreateEnum
+CREATE TYPE "TransferAttemptStatus" AS ENUM ('succeeded', 'failed', 'parked');
+
+-- AlterTable: retry state on ledger entries
+ALTER TABLE "rlc_split_ledger_entries"
+  ADD COLUMN "retry_count" INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN "next_retry_at" TIMESTAMPTZ,
+  ADD COLUMN "parked_at" TIMESTAMPTZ;
+
+CREATE INDEX "rlc_split_ledger_entries_status_next_retry_at_idx"
+  ON "rlc_split_ledger_entries" ("status", "next_retry_at");
+
+-- ============================================================
+-- Table: rlc_transfer_attempts (one row per attempt)
+-- ============================================================
+CREATE TABLE "rlc_transfer_attempts" (
+  "id" TEXT NOT NULL DEFAULT gen_random_uuid()::text,
+  "ledger_entry_id" TEXT NOT NULL,
+  "attempt_number" INTEGER NOT NULL,
+  "status" "TransferAttemptStatus" NOT NULL,
+  "destination_account_id" TEXT,
+  "stripe_transfer_id" TEXT,
+  "error_code" TEXT,
+  "error_message" TEXT,
+  "attempted_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT "rlc_transfer_attempts_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "rlc_transfer_attempts_ledger_entry_id_fkey"
+    FOREIGN KEY ("ledger_entry_id") REFERENCES "rlc_split_ledger_entries"("id") ON DELETE CASCADE
+);
+
+CREATE INDEX "rlc_transfer_attempts_ledger_entry_id_attempted_at_idx"
+  ON "rlc_transfer_attempts" ("ledger_entry_id", "attempted_at");
+
+-- ============================================================
+-- RLS: permissive (API uses service role key)
+-- ============================================================
+ALTER TABLE "rlc_transfer_attempts" ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Service role full access" ON "rlc_transfer_attempts"
+  FOR ALL USING (true) WITH CHECK (true);
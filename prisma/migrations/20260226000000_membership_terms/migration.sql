@@ -0,0 +1,30 @@
+-- Multi-year and lifetime memberships.
+-- Contacts and membership history record the term a payment covers. The
+-- charter share of a multi-year payment is either released a year at a time
+-- (ledger entries wait in 'scheduled' until release_at) or paid up front,
+-- per the charter's split config.
+
+-- CreateEnum
+CREATE TYPE "MembershipTerm" AS ENUM ('annual', 'two_year', 'three_year', 'lifetime');
+CREATE TYPE "TermAllocation" AS ENUM ('amortize', 'front_load');
+
+-- AlterEnum
+ALTER TYPE "SplitLedgerStatus" ADD VALUE IF NOT EXISTS 'scheduled' BEFORE 'pending';
+
+-- AlterTable: term on contacts and membership history
+ALTER TABLE "rlc_contacts"
+  ADD COLUMN "membership_term" "MembershipTerm" NOT NULL DEFAULT 'annual';
+
+ALTER TABLE "rlc_memberships"
+  ADD COLUMN "membership_term" "MembershipTerm" NOT NULL DEFAULT 'annual';
+
+-- AlterTable: per-charter allocation policy
+ALTER TABLE "rlc_charter_split_configs"
+  ADD COLUMN "term_allocation" "TermAllocation" NOT NULL DEFAULT 'amortize';
+
+-- AlterTable: deferred release of amortized charter shares
+ALTER TABLE "rlc_split_ledger_entries"
+  ADD COLUMN "release_at" TIMESTAMPTZ;
+
+CREATE INDEX "rlc_split_ledger_entries_status_release_at_idx"
+  ON "rlc_split_ledger_entries" ("status", "release_at");
@@ -0,0 +1,56 @@
+-- Gift memberships.
+-- A purchaser pays for a membership on someone else's behalf. The
+-- contribution is the purchaser's; the recipient's contact and membership are
+-- created at payment, and the recipient accepts the gift through a claim link.
+
+-- CreateEnum
+CREATE TYPE "GiftMembershipStatus" AS ENUM ('pending', 'paid', 'claimed');
+
+-- ============================================================
+-- Table: rlc_gift_memberships
+-- ============================================================
+CREATE TABLE "rlc_gift_memberships" (
+  "id" TEXT NOT NULL DEFAULT gen_random_uuid()::text,
+  "purchaser_contact_id" TEXT,
+  "purchaser_email" TEXT NOT NULL,
+  "purchaser_name" TEXT,
+  "recipient_contact_id" TEXT,
+  "recipient_email" TEXT NOT NULL,
+  "recipient_first_name" TEXT NOT NULL,
+  "recipient_last_name" TEXT NOT NULL,
+  "recipient_state" TEXT,
+  "membership_tier" "MembershipTier" NOT NULL,
+  "membership_term" "MembershipTerm" NOT NULL DEFAULT 'annual',
+  "gift_message" TEXT,
+  "claim_token" TEXT NOT NULL,
+  "status" "GiftMembershipStatus" NOT NULL DEFAULT 'pending',
+  "stripe_checkout_session_id" TEXT,
+  "contribution_id" TEXT,
+  "paid_at" TIMESTAMPTZ,
+  "claim_email_sent_at" TIMESTAMPTZ,
+  "claimed_at" TIMESTAMPTZ,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT "rlc_gift_memberships_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "rlc_gift_memberships_purchaser_contact_id_fkey"
+    FOREIGN KEY ("purchaser_contact_id") REFERENCES "rlc_contacts"("id") ON DELETE SET NULL,
+  CONSTRAINT "rlc_gift_memberships_recipient_contact_id_fkey"
+    FOREIGN KEY ("recipient_contact_id") REFERENCES "rlc_contacts"("id") ON DELETE SET NULL
+);
+
+CREATE UNIQUE INDEX "rlc_gift_memberships_claim_token_key"
+  ON "rlc_gift_memberships" ("claim_token");
+CREATE UNIQUE INDEX "rlc_gift_memberships_stripe_checkout_session_id_key"
+  ON "rlc_gift_memberships" ("stripe_checkout_session_id");
+CREATE INDEX "rlc_gift_memberships_purchaser_contact_id_idx"
+  ON "rlc_gift_memberships" ("purchaser_contact_id");
+CREATE INDEX "rlc_gift_memberships_recipient_contact_id_idx"
+  ON "rlc_gift_memberships" ("recipient_contact_id");
+
+-- ============================================================
+-- RLS: permissive (API uses service role key)
+-- ============================================================
+ALTER TABLE "rlc_gift_memberships" ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Service role full access" ON "rlc_gift_memberships"
+  FOR ALL USING (true) WITH CHECK (true);
@@ -0,0 +1,55 @@
+-- Failed-payment dunning for auto-renew memberships.
+-- Each failed renewal charge is recorded per membership, the membership
+-- tracks whether it is in recovery, and the contact carries a reason code so
+-- the nightly status cron can leave payment recovery to the dunning workflow.
+
+-- CreateEnum
+CREATE TYPE "MembershipStatusReason" AS ENUM ('payment_failed', 'payment_abandoned', 'term_ended');
+
+-- AlterTable
+ALTER TABLE "rlc_contacts" ADD COLUMN "membership_status_reason" "MembershipStatusReason";
+
+-- AlterTable
+ALTER TABLE "rlc_memberships"
+  ADD COLUMN "failed_payment_count" INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN "dunning_started_at" TIMESTAMPTZ,
+  ADD COLUMN "dunning_resolved_at" TIMESTAMPTZ;
+
+-- ============================================================
+-- Table: rlc_dunning_attempts
+-- ============================================================
+CREATE TABLE "rlc_dunning_attempts" (
+  "id" TEXT NOT NULL DEFAULT gen_random_uuid()::text,
+  "membership_id" TEXT,
+  "contact_id" TEXT NOT NULL,
+  "stripe_invoice_id" TEXT NOT NULL,
+  "stripe_subscription_id" TEXT,
+  "attempt_number" INTEGER NOT NULL,
+  "amount" DECIMAL(10,2) NOT NULL,
+  "failure_code" TEXT,
+  "failure_message" TEXT,
+  "next_retry_at" TIMESTAMPTZ,
+  "notification_tag" TEXT,
+  "notified_at" TIMESTAMPTZ,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT "rlc_dunning_attempts_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "rlc_dunning_attempts_membership_id_fkey"
+    FOREIGN KEY ("membership_id") REFERENCES "rlc_memberships"("id") ON DELETE SET NULL,
+  CONSTRAINT "rlc_dunning_attempts_contact_id_fkey"
+    FOREIGN KEY ("contact_id") REFERENCES "rlc_contacts"("id") ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX "rlc_dunning_attempts_stripe_invoice_id_attempt_number_key"
+  ON "rlc_dunning_attempts" ("stripe_invoice_id", "attempt_number");
+CREATE INDEX "rlc_dunning_attempts_contact_id_idx"
+  ON "rlc_dunning_attempts" ("contact_id");
+CREATE INDEX "rlc_dunning_attempts_membership_id_idx"
+  ON "rlc_dunning_attempts" ("membership_id");
+
+-- ============================================================
+-- RLS: permissive (API uses service role key)
+-- ============================================================
+ALTER TABLE "rlc_dunning_attempts" ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Service role full access" ON "rlc_dunning_attempts"
+  FOR ALL USING (true) WITH CHECK (true);
@@ -0,0 +1,14 @@
+-- Weighted scoring and per-category sub-scores for scorecards.
+-- Sessions choose between the legacy algorithm (matches the published PDF
+-- scorecards) and weighted scoring, which applies each bill's weight to
+-- aligned/against counts. Category sub-scores are stored with each
+-- legislator's session score.
+
+-- CreateEnum
+CREATE TYPE "ScoringMethod" AS ENUM ('legacy', 'weighted');
+
+-- AlterTable
+ALTER TABLE "rlc_scorecard_sessions" ADD COLUMN "scoring_method" "ScoringMethod" NOT NULL DEFAULT 'legacy';
+
+-- AlterTable
+ALTER TABLE "rlc_scorecard_legislator_scores" ADD COLUMN "category_scores" JSONB NOT NULL DEFAULT '{}';
@@ -0,0 +1,6 @@
+-- Legislator roster sync from LegiScan people lists.
+-- Each scorecard session remembers the LegiScan session its roster is pulled
+-- from. Roster changes and review flags live in rlc_legislators.metadata.
+
+-- AlterTable
+ALTER TABLE "rlc_scorecard_sessions" ADD COLUMN "legiscan_session_id" INTEGER;
@@ -0,0 +1,40 @@
+-- Roll-call auto-discovery for tracked scorecard bills.
+-- The scorecard vote cron reads each tracking bill's LegiScan record and
+-- stores every roll call it finds, so admins can pick the scored roll call
+-- and the session owner can be told when a floor vote happens.
+
+-- ============================================================
+-- Table: rlc_scorecard_roll_calls
+-- ============================================================
+CREATE TABLE "rlc_scorecard_roll_calls" (
+  "id" TEXT NOT NULL DEFAULT gen_random_uuid()::text,
+  "bill_id" TEXT NOT NULL,
+  "legiscan_roll_call_id" INTEGER NOT NULL,
+  "vote_date" DATE,
+  "description" TEXT NOT NULL,
+  "chamber" "LegislativeChamber" NOT NULL,
+  "is_floor_vote" BOOLEAN NOT NULL,
+  "yea" INTEGER NOT NULL DEFAULT 0,
+  "nay" INTEGER NOT NULL DEFAULT 0,
+  "not_voting" INTEGER NOT NULL DEFAULT 0,
+  "absent" INTEGER NOT NULL DEFAULT 0,
+  "passed" BOOLEAN NOT NULL DEFAULT false,
+  "discovered_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+  "notified_at" TIMESTAMPTZ,
+
+  CONSTRAINT "rlc_scorecard_roll_calls_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "rlc_scorecard_roll_calls_bill_id_fkey"
+    FOREIGN KEY ("bill_id") REFERENCES "rlc_scorecard_bills"("id") ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX "rlc_scorecard_roll_calls_bill_id_legiscan_roll_call_id_key"
+  ON "rlc_scorecard_roll_calls" ("bill_id", "legiscan_roll_call_id");
+CREATE INDEX "rlc_scorecard_roll_calls_bill_id_idx"
+  ON "rlc_scorecard_roll_calls" ("bill_id");
+
+-- ============================================================
+-- RLS: permissive (API uses service role key)
+-- ============================================================
+ALTER TABLE "rlc_scorecard_roll_calls" ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Service role full access" ON "rlc_scorecard_roll_calls"
+  FOR ALL USING (true) WITH CHECK (true);
@@ -0,0 +1,22 @@
+-- Server-side delivery of campaign messages.
+-- A member can send a campaign's message to their own legislators through an
+-- email or web-form transport. Each delivery is a participation row carrying
+-- its status, so members and admins can see whether the message went out,
+-- and recent rows drive the per-member and per-office throttles.
+
+-- CreateEnum
+CREATE TYPE "CampaignDeliveryStatus" AS ENUM ('pending', 'sent', 'failed');
+
+-- AlterTable: delivery state on participations (null for self-reported actions)
+ALTER TABLE "rlc_campaign_participations"
+  ADD COLUMN "delivery_status" "CampaignDeliveryStatus",
+  ADD COLUMN "delivery_transport" TEXT,
+  ADD COLUMN "delivery_target" TEXT,
+  ADD COLUMN "delivery_reference" TEXT,
+  ADD COLUMN "delivery_error" TEXT,
+  ADD COLUMN "delivered_at" TIMESTAMPTZ;
+
+CREATE INDEX "rlc_campaign_participations_contact_id_created_at_idx"
+  ON "rlc_campaign_participations" ("contact_id", "created_at");
+CREATE INDEX "rlc_campaign_participations_delivery_target_created_at_idx"
+  ON "rlc_campaign_participations" ("delivery_target", "created_at");
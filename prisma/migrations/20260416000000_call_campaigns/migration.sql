@@ -0,0 +1,13 @@
+-- Click-to-call campaigns.
+-- A campaign either asks members to send a message (email) or to phone their
+-- legislators (call). Call campaigns carry a script, and each call's outcome
+-- and the legislator's stated position are logged in the participation's
+-- metadata for the admin whip count.
+
+-- CreateEnum
+CREATE TYPE "CampaignActionType" AS ENUM ('email', 'call');
+
+-- AlterTable
+ALTER TABLE "rlc_action_campaigns"
+  ADD COLUMN "action_type" "CampaignActionType" NOT NULL DEFAULT 'email',
+  ADD COLUMN "call_script" TEXT;
@@ -0,0 +1,47 @@
+-- Whip tracker for action campaigns tied to a scorecard bill.
+-- Callers' reports give each targeted legislator a position; organizers can
+-- override it with their own read and source notes. Once the scorecard vote
+-- cron imports the bill's roll call, each entry is reconciled with the actual
+-- vote and the position it replaced is kept for comparison.
+
+-- CreateEnum
+CREATE TYPE "WhipStatus" AS ENUM ('supports', 'leaning', 'undecided', 'opposed', 'unknown');
+
+-- CreateEnum
+CREATE TYPE "WhipStatusSource" AS ENUM ('admin', 'roll_call');
+
+-- ============================================================
+-- Table: rlc_campaign_whip_entries
+-- ============================================================
+CREATE TABLE "rlc_campaign_whip_entries" (
+  "id" TEXT NOT NULL DEFAULT gen_random_uuid()::text,
+  "campaign_id" TEXT NOT NULL,
+  "legislator_id" TEXT NOT NULL,
+  "status" "WhipStatus" NOT NULL DEFAULT 'unknown',
+  "source" "WhipStatusSource" NOT NULL,
+  "notes" TEXT,
+  "updated_by" TEXT,
+  "final_vote" "VoteChoice",
+  "predicted_status" "WhipStatus",
+  "reconciled_at" TIMESTAMPTZ,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT "rlc_campaign_whip_entries_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "rlc_campaign_whip_entries_campaign_id_fkey"
+    FOREIGN KEY ("campaign_id") REFERENCES "rlc_action_campaigns"("id") ON DELETE CASCADE,
+  CONSTRAINT "rlc_campaign_whip_entries_legislator_id_fkey"
+    FOREIGN KEY ("legislator_id") REFERENCES "rlc_legislators"("id") ON DELETE CASCADE,
+  CONSTRAINT "rlc_campaign_whip_entries_updated_by_fkey"
+    FOREIGN KEY ("updated_by") REFERENCES "rlc_contacts"("id") ON DELETE SET NULL
+);
+
+CREATE UNIQUE INDEX "rlc_campaign_whip_entries_campaign_id_legislator_id_key"
+  ON "rlc_campaign_whip_entries" ("campaign_id", "legislator_id");
+
+-- ============================================================
+-- RLS: permissive (API uses service role key)
+-- ============================================================
+ALTER TABLE "rlc_campaign_whip_entries" ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Service role full access" ON "rlc_campaign_whip_entries"
+  FOR ALL USING (true) WITH CHECK (true);
@@ -0,0 +1,10 @@
+-- Personalized campaign messages.
+-- Legislative offices filter identical messages, so campaigns can ask for
+-- each delivered message to be reworded per member. Talking points are the
+-- phrases every variation must keep word for word; a variation missing one
+-- is discarded in favor of the filled-in template.
+
+-- AlterTable
+ALTER TABLE "rlc_action_campaigns"
+  ADD COLUMN "ai_variation" BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN "talking_points" TEXT[] NOT NULL DEFAULT '{}';
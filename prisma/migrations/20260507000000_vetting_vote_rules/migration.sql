@@ -0,0 +1,61 @@
+-- Configurable board vote rules for candidate vettings.
+-- A rule sets the quorum, the share of substantive votes the winning choice
+-- needs, and how long the vote stays open. Rules can target a vetting
+-- committee, an office level, both, or neither (the default); the most
+-- specific match is stamped on a vetting when it enters board_vote. Once the
+-- window closes an hourly cron finalizes the vote, and the rule and tally
+-- used are recorded on the vetting.
+
+-- CreateEnum
+CREATE TYPE "VoteQuorum" AS ENUM ('no_quorum', 'quorum_majority', 'quorum_two_thirds');
+
+-- CreateEnum
+CREATE TYPE "VoteThreshold" AS ENUM ('plurality', 'simple_majority', 'two_thirds', 'three_quarters', 'unanimous');
+
+-- ============================================================
+-- Table: rlc_candidate_vote_rules
+-- ============================================================
+CREATE TABLE "rlc_candidate_vote_rules" (
+  "id" TEXT NOT NULL DEFAULT gen_random_uuid()::text,
+  "name" TEXT NOT NULL,
+  "committee_id" TEXT,
+  "office_level" "OfficeLevel",
+  "quorum" "VoteQuorum" NOT NULL DEFAULT 'no_quorum',
+  "threshold" "VoteThreshold" NOT NULL DEFAULT 'plurality',
+  "voting_period_days" INTEGER,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT "rlc_candidate_vote_rules_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "rlc_candidate_vote_rules_committee_id_fkey"
+    FOREIGN KEY ("committee_id") REFERENCES "rlc_candidate_vetting_committees"("id") ON DELETE CASCADE,
+  CONSTRAINT "rlc_candidate_vote_rules_voting_period_days_check"
+    CHECK ("voting_period_days" IS NULL OR "voting_period_days" > 0)
+);
+
+-- One rule per scope, including the all-null default
+CREATE UNIQUE INDEX "rlc_candidate_vote_rules_committee_id_office_level_key"
+  ON "rlc_candidate_vote_rules" ("committee_id", "office_level") NULLS NOT DISTINCT;
+
+-- ============================================================
+-- AlterTable: rlc_candidate_vettings
+-- ============================================================
+ALTER TABLE "rlc_candidate_vettings"
+  ADD COLUMN "vote_rule_id" TEXT,
+  ADD COLUMN "vote_opens_at" TIMESTAMPTZ,
+  ADD COLUMN "vote_closes_at" TIMESTAMPTZ,
+  ADD COLUMN "vote_rule_applied" JSONB;
+
+ALTER TABLE "rlc_candidate_vettings" ADD CONSTRAINT "rlc_candidate_vettings_vote_rule_id_fkey"
+  FOREIGN KEY ("vote_rule_id") REFERENCES "rlc_candidate_vote_rules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Cron lookup of open votes past their close time
+CREATE INDEX "rlc_candidate_vettings_stage_vote_closes_at_idx"
+  ON "rlc_candidate_vettings" ("stage", "vote_closes_at");
+
+-- ============================================================
+-- RLS: permissive (API uses service role key)
+-- ============================================================
+ALTER TABLE "rlc_candidate_vote_rules" ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Service role full access" ON "rlc_candidate_vote_rules"
+  FOR ALL USING (true) WITH CHECK (true);
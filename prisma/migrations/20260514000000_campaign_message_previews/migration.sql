@@ -0,0 +1,34 @@
+-- Stored previews of AI-varied campaign messages.
+-- A member approves the reworded message the server generated for one of
+-- their legislators; delivery sends that stored body, never text supplied by
+-- the browser.
+
+-- ============================================================
+-- Table: rlc_campaign_message_previews
+-- ============================================================
+CREATE TABLE "rlc_campaign_message_previews" (
+  "id" TEXT NOT NULL DEFAULT gen_random_uuid()::text,
+  "campaign_id" TEXT NOT NULL,
+  "contact_id" TEXT NOT NULL,
+  "official_name" TEXT NOT NULL,
+  "office" TEXT NOT NULL,
+  "body" TEXT NOT NULL,
+  "varied" BOOLEAN NOT NULL,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT "rlc_campaign_message_previews_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "rlc_campaign_message_previews_campaign_id_fkey"
+    FOREIGN KEY ("campaign_id") REFERENCES "rlc_action_campaigns"("id") ON DELETE CASCADE,
+  CONSTRAINT "rlc_campaign_message_previews_contact_id_fkey"
+    FOREIGN KEY ("contact_id") REFERENCES "rlc_contacts"("id") ON DELETE CASCADE
+);
+
+CREATE INDEX "rlc_campaign_message_previews_campaign_id_contact_id_idx"
+  ON "rlc_campaign_message_previews" ("campaign_id", "contact_id");
+
+-- ============================================================
+-- RLS: permissive (API uses service role key)
+-- ============================================================
+ALTER TABLE "rlc_campaign_message_previews" ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Service role full access" ON "rlc_campaign_message_previews"
+  FOR ALL USING (true) WITH CHECK (true);
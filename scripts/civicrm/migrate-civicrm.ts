@@ -121,6 +121,25 @@ const TIER_MAP: Record<string, string> = {
   'Board Member': 'individual', // + national_board role assigned separately
 };
 
+// CiviCRM sold lifetime and 2/3-year memberships as separate membership types
+// ("Lifetime", "Individual - Lifetime", "Premium 2 Year", ...). The term is
+// read from the type name; the tier from what remains once the term is removed.
+const TERM_PATTERNS: [RegExp, string][] = [
+  [/\s*-?\s*\blife(time)?(\s+member(ship)?)?\b\s*/i, 'lifetime'],
+  [/\s*-?\s*\b(3|three)[\s-]*y(ea)?rs?\b\s*/i, 'three_year'],
+  [/\s*-?\s*\b(2|two)[\s-]*y(ea)?rs?\b\s*/i, 'two_year'],
+];
+
+function parseMembershipType(typeName: string): { tier: string; term: string } {
+  for (const [pattern, term] of TERM_PATTERNS) {
+    if (pattern.test(typeName)) {
+      const base = typeName.replace(pattern, ' ').trim();
+      return { tier: TIER_MAP[base] || 'individual', term };
+    }
+  }
+  return { tier: TIER_MAP[typeName] || 'individual', term: 'annual' };
+}
+
 // 8 statuses from PRD Section 2 (maps to Prisma enum values)
 // Prisma uses "new_member" but Supabase column stores the raw enum value
 const STATUS_MAP: Record<string, string> = {
@@ -451,7 +470,7 @@ async function migrateMemberships(
         continue;
       }
 
-      const tier = TIER_MAP[membership.membership_type_name] || 'individual';
+      const { tier, term } = parseMembershipType(membership.membership_type_name);
       const status = STATUS_MAP[membership.membership_status] || 'pending';
 
       // Track board members for role assignment
@@ -466,8 +485,10 @@ async function migrateMemberships(
             membership_tier: tier,
             membership_status: status,
             membership_start_date: membership.start_date || membership.join_date,
-            membership_expiry_date: membership.end_date,
+            // Lifetime memberships never expire, whatever end date CiviCRM carried
+            membership_expiry_date: term === 'lifetime' ? null : membership.end_date,
             membership_join_date: membership.join_date,
+            membership_term: term,
           })
           .eq('id', member.id);
 
@@ -21,6 +21,12 @@ export type MembershipStatus =
   | 'deceased'
   | 'expiring';
 
+export type MembershipTerm = 'annual' | 'two_year' | 'three_year' | 'lifetime';
+
+export type MembershipStatusReason = 'payment_failed' | 'payment_abandoned' | 'term_ended';
+
+export type GiftMembershipStatus = 'pending' | 'paid' | 'claimed';
+
 export type ContributionType = 'membership' | 'donation' | 'event_registration' | 'merchandise';
 
 export type PaymentStatus = 'pending' | 'completed' | 'failed' | 'refunded' | 'cancelled';
@@ -64,6 +70,8 @@ export interface Contact {
   membership_start_date: string | null;
   membership_expiry_date: string | null;
   membership_join_date: string | null;
+  membership_term: MembershipTerm;
+  membership_status_reason: MembershipStatusReason | null;
   primary_charter_id: string | null;
   highlevel_contact_id: string | null;
   civicrm_contact_id: number | null;
@@ -130,16 +138,60 @@ export interface Membership {
   start_date: string | null;
   expiry_date: string | null;
   join_date: string | null;
+  membership_term: MembershipTerm;
   amount: number | null;
   currency: string | null;
   civicrm_membership_id: number | null;
   is_auto_renew: boolean;
   stripe_subscription_id: string | null;
+  failed_payment_count: number;
+  dunning_started_at: string | null;
+  dunning_resolved_at: string | null;
   metadata: Record<string, unknown>;
   created_at: string;
   updated_at: string;
 }
 
+export interface DunningAttempt {
+  id: string;
+  membership_id: string | null;
+  contact_id: string;
+  stripe_invoice_id: string;
+  stripe_subscription_id: string | null;
+  attempt_number: number;
+  amount: number;
+  failure_code: string | null;
+  failure_message: string | null;
+  next_retry_at: string | null;
+  notification_tag: string | null;
+  notified_at: string | null;
+  created_at: string;
+}
+
+export interface GiftMembership {
+  id: string;
+  purchaser_contact_id: string | null;
+  purchaser_email: string;
+  purchaser_name: string | null;
+  recipient_contact_id: string | null;
+  recipient_email: string;
+  recipient_first_name: string;
+  recipient_last_name: string;
+  recipient_state: string | null;
+  membership_tier: MembershipTier;
+  membership_term: MembershipTerm;
+  gift_message: string | null;
+  claim_token: string;
+  status: GiftMembershipStatus;
+  stripe_checkout_session_id: string | null;
+  contribution_id: string | null;
+  paid_at: string | null;
+  claim_email_sent_at: string | null;
+  claimed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Event {
   id: string;
   title: string;
@@ -285,12 +337,17 @@ export interface SurveyAnswer {
 
 export type Jurisdiction = 'federal' | 'state';
 export type ScorecardSessionStatus = 'draft' | 'active' | 'published' | 'archived';
+export type ScoringMethod = 'legacy' | 'weighted';
 export type LibertyPosition = 'yea' | 'nay';
 export type BillTrackingStatus = 'tracking' | 'voted' | 'no_vote';
 export type VoteChoice = 'yea' | 'nay' | 'not_voting' | 'absent' | 'present' | 'not_applicable';
 export type SponsorshipRole = 'sponsor' | 'cosponsor';
 export type LegislativeChamber = 'us_house' | 'us_senate' | 'state_house' | 'state_senate';
 export type CampaignStatus = 'draft' | 'active' | 'completed' | 'cancelled';
+export type CampaignDeliveryStatus = 'pending' | 'sent' | 'failed';
+export type CampaignActionType = 'email' | 'call';
+export type WhipStatus = 'supports' | 'leaning' | 'undecided' | 'opposed' | 'unknown';
+export type WhipStatusSource = 'admin' | 'roll_call';
 
 export interface Legislator {
   id: string;
@@ -320,6 +377,8 @@ export interface ScorecardSession {
   chamber: LegislativeChamber | null;
   party_filter: string | null;
   absence_penalty_threshold: number;
+  scoring_method: ScoringMethod;
+  legiscan_session_id: number | null;
   created_by: string | null;
   created_at: string;
   updated_at: string;
@@ -358,6 +417,23 @@ export interface ScorecardVote {
   created_at: string;
 }
 
+export interface ScorecardRollCall {
+  id: string;
+  bill_id: string;
+  legiscan_roll_call_id: number;
+  vote_date: string | null;
+  description: string;
+  chamber: LegislativeChamber;
+  is_floor_vote: boolean;
+  yea: number;
+  nay: number;
+  not_voting: number;
+  absent: number;
+  passed: boolean;
+  discovered_at: string;
+  notified_at: string | null;
+}
+
 export type ScoredLegislator = Legislator & { computed_score: number | null };
 
 export interface ScorecardLegislatorScore {
@@ -369,10 +445,19 @@ export interface ScorecardLegislatorScore {
   absences: number;
   bonus_points: number;
   liberty_score: number;
+  category_scores: Record<string, CategorySubScore>;
   created_at: string;
   updated_at: string;
 }
 
+/** Per-category breakdown stored on a legislator's session score */
+export interface CategorySubScore {
+  aligned: number;
+  against: number;
+  /** 0-100, or null when every vote in the category was an absence */
+  score: number | null;
+}
+
 export interface ActionCampaign {
   id: string;
   title: string;
@@ -383,6 +468,13 @@ export interface ActionCampaign {
   target_chamber: LegislativeChamber | null;
   target_state_code: string | null;
   message_template: string | null;
+  /** Reword each delivered message per member so offices do not filter them as duplicates */
+  ai_variation: boolean;
+  /** Phrases every reworded message must keep word for word */
+  talking_points: string[];
+  action_type: CampaignActionType;
+  /** Talking points shown to members on call campaigns */
+  call_script: string | null;
   status: CampaignStatus;
   created_by: string | null;
   starts_at: string | null;
@@ -398,15 +490,64 @@ export interface CampaignParticipation {
   action: string;
   legislator_id: string | null;
   metadata: Record<string, unknown>;
+  /** Set only for messages delivered by the server; null for self-reported actions */
+  delivery_status: CampaignDeliveryStatus | null;
+  delivery_transport: string | null;
+  delivery_target: string | null;
+  delivery_reference: string | null;
+  delivery_error: string | null;
+  delivered_at: string | null;
+  created_at: string;
+}
+
+export interface CampaignMessagePreview {
+  id: string;
+  campaign_id: string;
+  contact_id: string;
+  official_name: string;
+  office: string;
+  body: string;
+  /** Whether the body is an AI rewrite rather than the filled-in template */
+  varied: boolean;
+  created_at: string;
+}
+
+export interface CampaignWhipEntry {
+  id: string;
+  campaign_id: string;
+  legislator_id: string;
+  status: WhipStatus;
+  source: WhipStatusSource;
+  notes: string | null;
+  updated_by: string | null;
+  /** Set when the scorecard vote cron imports the bill's roll call */
+  final_vote: VoteChoice | null;
+  /** The tracked position the roll call replaced */
+  predicted_status: WhipStatus | null;
+  reconciled_at: string | null;
   created_at: string;
+  updated_at: string;
 }
 
 // Dues Sharing types
 
 export type DisbursementModel = 'national_managed' | 'state_managed';
 export type StripeConnectStatus = 'not_started' | 'onboarding' | 'active' | 'disabled';
-export type SplitLedgerStatus = 'pending' | 'transferred' | 'reversed' | 'failed';
+export type SplitLedgerStatus = 'scheduled' | 'pending' | 'transferred' | 'reversed' | 'failed';
 export type SplitSourceType = 'membership' | 'donation' | 'event_registration';
+export type PayoutCadence = 'per_payment' | 'daily' | 'weekly' | 'monthly';
+
+export type TermAllocation = 'amortize' | 'front_load';
+export type NationalFeeType = 'flat' | 'percentage';
+export type TransferAttemptStatus = 'succeeded' | 'failed' | 'parked';
+export type ReconciliationIssueType = 'missing_transfer' | 'amount_drift' | 'orphan_transfer';
+export type ReconciliationIssueStatus = 'open' | 'resolved' | 'dismissed';
+export type ReconciliationRepairAction =
+  | 'requeue'
+  | 'record_reversal'
+  | 'reverse_transfer'
+  | 'link_transfer'
+  | 'dismiss';
 
 export interface CharterStripeAccount {
   id: string;
@@ -425,6 +566,10 @@ export interface CharterSplitConfig {
   charter_id: string;
   disbursement_model: DisbursementModel;
   is_active: boolean;
+  payout_cadence: PayoutCadence;
+  term_allocation: TermAllocation;
+  minimum_payout: number;
+  last_payout_at: string | null;
   updated_by_id: string | null;
   created_at: string;
   updated_at: string;
@@ -454,9 +599,72 @@ export interface SplitLedgerEntry {
   transferred_at: string | null;
   reversal_of_id: string | null;
   split_rule_snapshot: Record<string, unknown>;
+  payout_batch_id: string | null;
+  retry_count: number;
+  next_retry_at: string | null;
+  parked_at: string | null;
+  release_at: string | null;
+  created_at: string;
+}
+
+export interface TransferAttempt {
+  id: string;
+  ledger_entry_id: string;
+  attempt_number: number;
+  status: TransferAttemptStatus;
+  destination_account_id: string | null;
+  stripe_transfer_id: string | null;
+  error_code: string | null;
+  error_message: string | null;
+  attempted_at: string;
+}
+
+export interface PayoutBatch {
+  id: string;
+  recipient_charter_id: string;
+  cadence: PayoutCadence;
+  amount: number;
+  currency: string;
+  entry_count: number;
+  status: SplitLedgerStatus;
+  stripe_transfer_id: string | null;
+  stripe_transfer_group_id: string;
+  transferred_at: string | null;
+  error_message: string | null;
   created_at: string;
 }
 
+export interface NationalFeeSchedule {
+  id: string;
+  source_type: SplitSourceType;
+  membership_tier: MembershipTier | null;
+  fee_type: NationalFeeType;
+  flat_amount: number | null;
+  percentage: number | null;
+  effective_from: string;
+  notes: string | null;
+  created_by_id: string | null;
+  created_at: string;
+}
+
+export interface LedgerReconciliationIssue {
+  id: string;
+  charter_id: string;
+  stripe_account_id: string;
+  issue_type: ReconciliationIssueType;
+  stripe_transfer_id: string | null;
+  ledger_entry_ids: string[];
+  ledger_amount: number | null;
+  stripe_amount: number | null;
+  details: Record<string, unknown>;
+  status: ReconciliationIssueStatus;
+  resolution: string | null;
+  resolved_by_id: string | null;
+  resolved_at: string | null;
+  detected_at: string;
+  last_seen_at: string;
+}
+
 // Officer Position & Charter Onboarding types
 
 export type OfficerTitle =
@@ -555,6 +763,8 @@ export type VettingRecommendation = 'endorse' | 'do_not_endorse' | 'no_position'
 export type VettingSectionStatus = 'section_not_started' | 'section_assigned' | 'section_in_progress' | 'section_completed' | 'needs_revision';
 export type BoardVoteChoice = 'vote_endorse' | 'vote_do_not_endorse' | 'vote_no_position' | 'vote_abstain';
 export type CommitteeRole = 'chair' | 'committee_member';
+export type VoteQuorum = 'no_quorum' | 'quorum_majority' | 'quorum_two_thirds';
+export type VoteThreshold = 'plurality' | 'simple_majority' | 'two_thirds' | 'three_quarters' | 'unanimous';
 
 export type OfficeLevel = 'federal' | 'state' | 'county' | 'municipal' | 'judicial' | 'special_district';
 
@@ -616,6 +826,10 @@ export interface CandidateVetting {
   recommended_at: string | null;
   endorsement_result: VettingRecommendation | null;
   endorsed_at: string | null;
+  vote_rule_id: string | null;
+  vote_opens_at: string | null;
+  vote_closes_at: string | null;
+  vote_rule_applied: AppliedVoteRule | null;
   press_release_url: string | null;
   press_release_notes: string | null;
   press_release_post_id: string | null;
@@ -670,6 +884,38 @@ export interface CandidateVettingBoardVote {
   voted_at: string;
 }
 
+export interface CandidateVoteRule {
+  id: string;
+  name: string;
+  committee_id: string | null;
+  office_level: OfficeLevel | null;
+  quorum: VoteQuorum;
+  threshold: VoteThreshold;
+  voting_period_days: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Snapshot stored on a vetting when its board vote is finalized */
+export interface AppliedVoteRule {
+  rule_id: string | null;
+  name: string;
+  quorum: VoteQuorum;
+  threshold: VoteThreshold;
+  eligible_voters: number;
+  tally: {
+    vote_endorse: number;
+    vote_do_not_endorse: number;
+    vote_no_position: number;
+    vote_abstain: number;
+    total: number;
+  };
+  quorum_met: boolean;
+  threshold_met: boolean;
+  finalized_by: 'board' | 'deadline';
+  finalized_by_id: string | null;
+}
+
 export interface CandidateElectionDeadline {
   id: string;
   state_code: string;